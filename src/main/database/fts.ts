@@ -2,8 +2,12 @@
 // ThreadMed — FTS5 Full-Text Search Setup (better-sqlite3)
 // ============================================================================
 // Uses SQLite's FTS5 extension with external content strategy. The actual
-// text lives in the `papers` table; FTS5 only maintains the search index.
-// Triggers keep the index in sync with INSERT/UPDATE/DELETE operations.
+// text lives in the source tables; FTS5 only maintains the search indexes:
+//   papers_fts      → papers(title, abstract, full_text)
+//   annotations_fts → annotations(content)
+//   tags_fts        → tags(name)
+//   memos_fts       → memos(title, content)
+// Triggers keep each index in sync with INSERT/UPDATE/DELETE operations.
 // ============================================================================
 
 import type Database from 'better-sqlite3'
@@ -42,5 +46,87 @@ export function setupFts(db: Database.Database): void {
     END;
   `)
 
+  // Indexes added after the first release start empty on existing projects,
+  // so they are rebuilt from their content tables the first time they appear
+  const existing = new Set(
+    (db.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('annotations_fts', 'tags_fts', 'memos_fts')"
+    ).all() as Array<{ name: string }>).map(r => r.name)
+  )
+
+  db.exec(`
+    -- ─── Annotations ───────────────────────────────────────────────────────
+    CREATE VIRTUAL TABLE IF NOT EXISTS annotations_fts USING fts5(
+      content,
+      content='annotations',
+      content_rowid='rowid'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS annotations_ai AFTER INSERT ON annotations BEGIN
+      INSERT INTO annotations_fts(rowid, content) VALUES (new.rowid, new.content);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS annotations_ad AFTER DELETE ON annotations BEGIN
+      INSERT INTO annotations_fts(annotations_fts, rowid, content)
+      VALUES ('delete', old.rowid, old.content);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS annotations_au AFTER UPDATE OF content ON annotations BEGIN
+      INSERT INTO annotations_fts(annotations_fts, rowid, content)
+      VALUES ('delete', old.rowid, old.content);
+      INSERT INTO annotations_fts(rowid, content) VALUES (new.rowid, new.content);
+    END;
+
+    -- ─── Tags ──────────────────────────────────────────────────────────────
+    CREATE VIRTUAL TABLE IF NOT EXISTS tags_fts USING fts5(
+      name,
+      content='tags',
+      content_rowid='rowid'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS tags_ai AFTER INSERT ON tags BEGIN
+      INSERT INTO tags_fts(rowid, name) VALUES (new.rowid, new.name);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS tags_ad AFTER DELETE ON tags BEGIN
+      INSERT INTO tags_fts(tags_fts, rowid, name) VALUES ('delete', old.rowid, old.name);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS tags_au AFTER UPDATE OF name ON tags BEGIN
+      INSERT INTO tags_fts(tags_fts, rowid, name) VALUES ('delete', old.rowid, old.name);
+      INSERT INTO tags_fts(rowid, name) VALUES (new.rowid, new.name);
+    END;
+
+    -- ─── Memos ─────────────────────────────────────────────────────────────
+    CREATE VIRTUAL TABLE IF NOT EXISTS memos_fts USING fts5(
+      title,
+      content,
+      content='memos',
+      content_rowid='rowid'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS memos_ai AFTER INSERT ON memos BEGIN
+      INSERT INTO memos_fts(rowid, title, content) VALUES (new.rowid, new.title, new.content);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS memos_ad AFTER DELETE ON memos BEGIN
+      INSERT INTO memos_fts(memos_fts, rowid, title, content)
+      VALUES ('delete', old.rowid, old.title, old.content);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS memos_au AFTER UPDATE OF title, content ON memos BEGIN
+      INSERT INTO memos_fts(memos_fts, rowid, title, content)
+      VALUES ('delete', old.rowid, old.title, old.content);
+      INSERT INTO memos_fts(rowid, title, content) VALUES (new.rowid, new.title, new.content);
+    END;
+  `)
+
+  for (const table of ['annotations_fts', 'tags_fts', 'memos_fts']) {
+    if (!existing.has(table)) {
+      db.exec(`INSERT INTO ${table}(${table}) VALUES ('rebuild')`)
+      console.log(`[ThreadMed DB] Built search index: ${table}`)
+    }
+  }
+
   console.log('[ThreadMed DB] FTS5 index and sync triggers ready')
 }
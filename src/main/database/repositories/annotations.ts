@@ -4,6 +4,7 @@
 
 import { v4 as uuidv4 } from 'uuid'
 import { getDb } from '../connection'
+import { getExtractionMatrix, type ExtractionMatrix } from './extraction'
 
 export interface Annotation {
   id: string
@@ -67,7 +68,7 @@ export function getAnnotationsForPaper(paperId: string): AnnotationWithContext[]
   `).all(paperId) as AnnotationWithContext[]
 }
 
-/** Get all annotations for a specific node across all papers */
+/** Get all annotations for a specific node across all (unarchived) papers */
 export function getAnnotationsForNode(nodeId: string): AnnotationWithContext[] {
   const db = getDb()
   return db.prepare(`
@@ -76,7 +77,7 @@ export function getAnnotationsForNode(nodeId: string): AnnotationWithContext[] {
     JOIN papers p ON p.id = a.paper_id
     JOIN nodes n ON n.id = a.node_id
     LEFT JOIN tags t ON t.id = a.tag_id
-    WHERE a.node_id = ?
+    WHERE a.node_id = ? AND p.archived = 0
     ORDER BY p.title, a.page_number
   `).all(nodeId) as AnnotationWithContext[]
 }
@@ -109,8 +110,7 @@ export function updateAnnotationContent(annotationId: string, content: string, r
   `).get(annotationId) as Annotation
 }
 
-/** Get the synthesis matrix data */
-export function getMatrixData(): Array<{
+export interface MatrixCell {
   paper_id: string
   paper_title: string
   paper_year: number | null
@@ -118,29 +118,108 @@ export function getMatrixData(): Array<{
   node_name: string
   node_color: string
   annotation_count: number
+  first_annotation_id: string
+  first_page: number
   first_content: string
-}> {
+}
+
+export interface MatrixData {
+  cells: MatrixCell[]
+  /** Structured extraction values, shown as extra columns after the nodes */
+  extraction: ExtractionMatrix
+}
+
+/**
+ * Get the synthesis matrix data: one cell per (paper, node) pair that has at
+ * least one annotation. Counts roll up the codebook, so a parent node's cell
+ * includes the annotations coded to any of its sub-nodes. The "first"
+ * annotation is the earliest in reading order (page, then creation time) and
+ * is what a cell click jumps to. Extracted values come along as extra columns.
+ */
+export function getMatrixData(): MatrixData {
+  const db = getDb()
+  const cells = db.prepare(`
+    WITH RECURSIVE lineage(node_id, ancestor_id) AS (
+      SELECT id, id FROM nodes
+      UNION
+      SELECT l.node_id, n.parent_id
+      FROM lineage l
+      JOIN nodes n ON n.id = l.ancestor_id
+      WHERE n.parent_id IS NOT NULL
+    ),
+    ranked AS (
+      SELECT
+        a.*,
+        l.ancestor_id as rollup_node_id,
+        ROW_NUMBER() OVER (
+          PARTITION BY a.paper_id, l.ancestor_id
+          ORDER BY a.page_number, a.created_at
+        ) as rn,
+        COUNT(*) OVER (PARTITION BY a.paper_id, l.ancestor_id) as annotation_count
+      FROM annotations a
+      JOIN lineage l ON l.node_id = a.node_id
+    )
+    SELECT
+      r.paper_id,
+      p.title as paper_title,
+      p.year as paper_year,
+      r.rollup_node_id as node_id,
+      n.name as node_name,
+      n.color as node_color,
+      r.annotation_count,
+      r.id as first_annotation_id,
+      r.page_number as first_page,
+      r.content as first_content
+    FROM ranked r
+    JOIN papers p ON p.id = r.paper_id
+    JOIN nodes n ON n.id = r.rollup_node_id
+    WHERE r.rn = 1 AND p.archived = 0
+    ORDER BY p.title, n.sort_order
+  `).all() as MatrixCell[]
+  return { cells, extraction: getExtractionMatrix() }
+}
+
+export interface MatrixAnnotation {
+  annotation_id: string
+  paper_id: string
+  paper_title: string
+  paper_year: number | null
+  node_id: string
+  node_name: string
+  node_color: string
+  tag_id: string | null
+  tag_name: string | null
+  content: string
+  page_number: number
+}
+
+/**
+ * Get every annotation that feeds the synthesis matrix, with paper, node and
+ * tag context. Unlike getMatrixData() nothing is grouped, so the renderer can
+ * pivot on nodes or on the tags inside a single node and list each excerpt.
+ */
+export function getMatrixAnnotations(nodeId?: string): MatrixAnnotation[] {
   const db = getDb()
   return db.prepare(`
     SELECT
+      a.id as annotation_id,
       a.paper_id,
       p.title as paper_title,
       p.year as paper_year,
       a.node_id,
       n.name as node_name,
       n.color as node_color,
-      COUNT(*) as annotation_count,
-      MIN(a.content) as first_content
+      a.tag_id,
+      t.name as tag_name,
+      a.content,
+      a.page_number
     FROM annotations a
     JOIN papers p ON p.id = a.paper_id
     JOIN nodes n ON n.id = a.node_id
-    GROUP BY a.paper_id, a.node_id
-    ORDER BY p.title, n.sort_order
-  `).all() as Array<{
-    paper_id: string; paper_title: string; paper_year: number | null;
-    node_id: string; node_name: string; node_color: string;
-    annotation_count: number; first_content: string
-  }>
+    LEFT JOIN tags t ON t.id = a.tag_id
+    WHERE p.archived = 0 AND (@nodeId IS NULL OR a.node_id = @nodeId)
+    ORDER BY p.title, n.sort_order, t.name COLLATE NOCASE, a.page_number, a.created_at
+  `).all({ nodeId: nodeId ?? null }) as MatrixAnnotation[]
 }
 
 /** Delete an annotation */
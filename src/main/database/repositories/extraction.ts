@@ -0,0 +1,559 @@
+// ============================================================================
+// ThreadMed — Data Extraction Repository (better-sqlite3)
+// ============================================================================
+// Structured data extraction alongside free-text annotations:
+//   - extraction_forms:  named forms configured for the project
+//   - extraction_fields: typed fields of a form; a "group" field is repeated
+//                        for every study arm and holds the fields under it
+//   - extraction_arms:   a paper's study arms, shared by every form
+//   - extraction_values: one value per paper, field and arm, optionally citing
+//                        the annotation that justifies it
+// Numbers are stored as REAL so later analyses can compute with them.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '../connection'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type ExtractionFieldType = 'integer' | 'decimal' | 'categorical' | 'text' | 'group'
+
+const FIELD_TYPES: ExtractionFieldType[] = ['integer', 'decimal', 'categorical', 'text', 'group']
+
+export interface ExtractionField {
+    id: string
+    form_id: string
+    /** The arm group this field repeats under, or null for a paper-level field */
+    parent_id: string | null
+    name: string
+    field_type: ExtractionFieldType
+    /** Allowed values of a categorical field */
+    options: string[]
+    unit: string | null
+    sort_order: number
+}
+
+export interface ExtractionForm {
+    id: string
+    name: string
+    description: string
+    sort_order: number
+    created_at: string
+    /** Every field of the form in display order, group children after their group */
+    fields: ExtractionField[]
+}
+
+export interface ExtractionFieldInput {
+    name: string
+    field_type: ExtractionFieldType
+    parent_id?: string | null
+    options?: string[]
+    unit?: string | null
+}
+
+export interface ExtractionArm {
+    id: string
+    paper_id: string
+    label: string
+    sort_order: number
+}
+
+export interface ExtractionValue {
+    id: string
+    paper_id: string
+    field_id: string
+    arm_id: string | null
+    value: number | string | null
+    annotation_id: string | null
+    /** Joined from the cited annotation */
+    annotation_content: string | null
+    annotation_page: number | null
+    updated_at: string
+}
+
+export interface PaperExtraction {
+    arms: ExtractionArm[]
+    values: ExtractionValue[]
+}
+
+export interface ExtractionValueInput {
+    paper_id: string
+    field_id: string
+    /** Required for fields inside an arm group, otherwise omitted */
+    arm_id?: string | null
+    /** Omit to keep the current value; null or '' clears it */
+    value?: number | string | null
+    /** Omit to keep the current citation; null removes it */
+    annotation_id?: string | null
+}
+
+/** A matrix column: a paper-level field or a field inside an arm group */
+export interface ExtractionColumn {
+    field_id: string
+    form_id: string
+    form_name: string
+    /** "Group › Field" for fields inside an arm group */
+    name: string
+    field_type: Exclude<ExtractionFieldType, 'group'>
+    unit: string | null
+    per_arm: boolean
+}
+
+export interface ExtractionCellValue {
+    arm_id: string | null
+    arm_label: string | null
+    value: number | string
+    annotation_id: string | null
+    page_number: number | null
+}
+
+export interface ExtractionCell {
+    paper_id: string
+    field_id: string
+    /** One entry per arm (in arm order) for per-arm fields, otherwise one */
+    values: ExtractionCellValue[]
+}
+
+export interface ExtractionMatrix {
+    columns: ExtractionColumn[]
+    cells: ExtractionCell[]
+}
+
+interface FieldRow extends Omit<ExtractionField, 'options'> {
+    options_json: string | null
+}
+
+interface ValueRow {
+    id: string
+    paper_id: string
+    field_id: string
+    arm_id: string | null
+    value_number: number | null
+    value_text: string | null
+    annotation_id: string | null
+    annotation_content: string | null
+    annotation_page: number | null
+    updated_at: string
+}
+
+const VALUE_SELECT = `
+    SELECT v.*, a.content as annotation_content, a.page_number as annotation_page
+    FROM extraction_values v
+    LEFT JOIN annotations a ON a.id = v.annotation_id
+`
+
+function toField(row: FieldRow): ExtractionField {
+    const { options_json, ...field } = row
+    return { ...field, options: options_json ? JSON.parse(options_json) as string[] : [] }
+}
+
+function toValue(row: ValueRow): ExtractionValue {
+    const { value_number, value_text, ...value } = row
+    return { ...value, value: value_number ?? value_text }
+}
+
+function requireField(id: string): ExtractionField {
+    const row = getDb().prepare('SELECT * FROM extraction_fields WHERE id = ?').get(id) as FieldRow | undefined
+    if (!row) throw new Error('Extraction field not found')
+    return toField(row)
+}
+
+function cleanOptions(options: string[] | undefined): string[] {
+    const cleaned: string[] = []
+    for (const option of options ?? []) {
+        const trimmed = option.trim()
+        if (trimmed && !cleaned.some(o => o.toLowerCase() === trimmed.toLowerCase())) cleaned.push(trimmed)
+    }
+    return cleaned
+}
+
+function countValues(fieldId: string): number {
+    const row = getDb().prepare('SELECT COUNT(*) as count FROM extraction_values WHERE field_id = ?').get(fieldId) as { count: number }
+    return row.count
+}
+
+// ── Forms ────────────────────────────────────────────────────────────────────
+
+/** Every form with its fields, in display order */
+export function listExtractionForms(): ExtractionForm[] {
+    const db = getDb()
+    const forms = db.prepare(
+        'SELECT * FROM extraction_forms ORDER BY sort_order, name COLLATE NOCASE'
+    ).all() as Array<Omit<ExtractionForm, 'fields'>>
+    const fields = (db.prepare(
+        'SELECT * FROM extraction_fields ORDER BY sort_order, rowid'
+    ).all() as FieldRow[]).map(toField)
+
+    return forms.map(form => {
+        const own = fields.filter(f => f.form_id === form.id)
+        const ordered = own
+            .filter(f => !f.parent_id)
+            .flatMap(f => [f, ...own.filter(child => child.parent_id === f.id)])
+        return { ...form, fields: ordered }
+    })
+}
+
+function getExtractionForm(id: string): ExtractionForm | null {
+    return listExtractionForms().find(f => f.id === id) ?? null
+}
+
+/** Add a form to the end of the list (names are unique, case-insensitive) */
+export function createExtractionForm(name: string, description = ''): ExtractionForm {
+    const db = getDb()
+    const trimmed = name.trim()
+    if (!trimmed) throw new Error('Form name cannot be empty')
+
+    const collision = db.prepare('SELECT id FROM extraction_forms WHERE name = ? COLLATE NOCASE').get(trimmed)
+    if (collision) throw new Error(`A form named "${trimmed}" already exists`)
+
+    const id = uuidv4()
+    const maxOrder = db.prepare('SELECT COALESCE(MAX(sort_order), 0) as m FROM extraction_forms').get() as { m: number }
+    db.prepare(
+        'INSERT INTO extraction_forms (id, name, description, sort_order) VALUES (?, ?, ?, ?)'
+    ).run(id, trimmed, description.trim(), maxOrder.m + 1)
+    return getExtractionForm(id)!
+}
+
+export function updateExtractionForm(id: string, updates: { name?: string; description?: string }): ExtractionForm | null {
+    const db = getDb()
+    if (updates.name !== undefined) {
+        const trimmed = updates.name.trim()
+        if (!trimmed) throw new Error('Form name cannot be empty')
+        const collision = db.prepare(
+            'SELECT id FROM extraction_forms WHERE name = ? COLLATE NOCASE AND id != ?'
+        ).get(trimmed, id)
+        if (collision) throw new Error(`A form named "${trimmed}" already exists`)
+        db.prepare('UPDATE extraction_forms SET name = ? WHERE id = ?').run(trimmed, id)
+    }
+    if (updates.description !== undefined) {
+        db.prepare('UPDATE extraction_forms SET description = ? WHERE id = ?').run(updates.description.trim(), id)
+    }
+    return getExtractionForm(id)
+}
+
+/** Delete a form with its fields and every value extracted with it */
+export function deleteExtractionForm(id: string): boolean {
+    const result = getDb().prepare('DELETE FROM extraction_forms WHERE id = ?').run(id)
+    return result.changes > 0
+}
+
+// ── Fields ───────────────────────────────────────────────────────────────────
+
+/** Add a field to the end of a form, or of an arm group when parent_id is set */
+export function createExtractionField(formId: string, input: ExtractionFieldInput): ExtractionForm {
+    const db = getDb()
+    const name = input.name.trim()
+    if (!name) throw new Error('Field name cannot be empty')
+    if (!FIELD_TYPES.includes(input.field_type)) throw new Error(`Unknown field type: ${input.field_type}`)
+    if (!db.prepare('SELECT 1 FROM extraction_forms WHERE id = ?').get(formId)) throw new Error('Extraction form not found')
+
+    const parentId = input.parent_id ?? null
+    if (parentId) {
+        const parent = requireField(parentId)
+        if (parent.form_id !== formId || parent.field_type !== 'group') throw new Error('Fields can only be nested in an arm group of the same form')
+        if (input.field_type === 'group') throw new Error('Arm groups cannot be nested')
+    }
+
+    const options = cleanOptions(input.options)
+    if (input.field_type === 'categorical' && options.length === 0) throw new Error('A categorical field needs at least one option')
+
+    const maxOrder = db.prepare(
+        'SELECT COALESCE(MAX(sort_order), 0) as m FROM extraction_fields WHERE form_id = ? AND parent_id IS ?'
+    ).get(formId, parentId) as { m: number }
+    db.prepare(`
+        INSERT INTO extraction_fields (id, form_id, parent_id, name, field_type, options_json, unit, sort_order)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        uuidv4(), formId, parentId, name, input.field_type,
+        input.field_type === 'categorical' ? JSON.stringify(options) : null,
+        input.unit?.trim() || null,
+        maxOrder.m + 1
+    )
+    return getExtractionForm(formId)!
+}
+
+/**
+ * Update a field. The type can only change while nothing has been extracted
+ * for it, and categorical options still in use cannot be removed.
+ */
+export function updateExtractionField(id: string, updates: Partial<Omit<ExtractionFieldInput, 'parent_id'>>): ExtractionForm {
+    const db = getDb()
+    const field = requireField(id)
+    const fieldType = updates.field_type ?? field.field_type
+    if (!FIELD_TYPES.includes(fieldType)) throw new Error(`Unknown field type: ${fieldType}`)
+
+    if (fieldType !== field.field_type) {
+        if (countValues(id) > 0) throw new Error(`"${field.name}" already has extracted values, so its type cannot change`)
+        if (field.field_type === 'group' && db.prepare('SELECT 1 FROM extraction_fields WHERE parent_id = ?').get(id)) {
+            throw new Error('Remove the fields of this arm group before changing its type')
+        }
+        if (fieldType === 'group' && field.parent_id) throw new Error('Arm groups cannot be nested')
+    }
+
+    const options = updates.options !== undefined ? cleanOptions(updates.options) : field.options
+    if (fieldType === 'categorical') {
+        if (options.length === 0) throw new Error('A categorical field needs at least one option')
+        const used = db.prepare(
+            'SELECT DISTINCT value_text FROM extraction_values WHERE field_id = ? AND value_text IS NOT NULL'
+        ).pluck().all(id) as string[]
+        const missing = used.filter(value => !options.includes(value))
+        if (missing.length > 0) throw new Error(`Option "${missing[0]}" is still used by extracted values`)
+    }
+
+    const name = updates.name !== undefined ? updates.name.trim() : field.name
+    if (!name) throw new Error('Field name cannot be empty')
+    const unit = updates.unit !== undefined ? updates.unit?.trim() || null : field.unit
+
+    db.prepare(
+        'UPDATE extraction_fields SET name = ?, field_type = ?, options_json = ?, unit = ? WHERE id = ?'
+    ).run(name, fieldType, fieldType === 'categorical' ? JSON.stringify(options) : null, unit, id)
+    return getExtractionForm(field.form_id)!
+}
+
+/** Move a field one place up or down among its siblings */
+export function moveExtractionField(id: string, direction: 'up' | 'down'): ExtractionForm {
+    const db = getDb()
+    const field = requireField(id)
+    const siblings = db.prepare(
+        'SELECT id FROM extraction_fields WHERE form_id = ? AND parent_id IS ? ORDER BY sort_order, rowid'
+    ).pluck().all(field.form_id, field.parent_id) as string[]
+
+    const index = siblings.indexOf(id)
+    const target = direction === 'up' ? index - 1 : index + 1
+    if (target >= 0 && target < siblings.length) {
+        [siblings[index], siblings[target]] = [siblings[target], siblings[index]]
+        const update = db.prepare('UPDATE extraction_fields SET sort_order = ? WHERE id = ?')
+        db.transaction(() => siblings.forEach((siblingId, i) => update.run(i + 1, siblingId)))()
+    }
+    return getExtractionForm(field.form_id)!
+}
+
+/** Delete a field (a group takes its fields along) and its extracted values */
+export function deleteExtractionField(id: string): ExtractionForm | null {
+    const db = getDb()
+    const field = db.prepare('SELECT form_id FROM extraction_fields WHERE id = ?').get(id) as { form_id: string } | undefined
+    if (!field) return null
+    db.prepare('DELETE FROM extraction_fields WHERE id = ?').run(id)
+    return getExtractionForm(field.form_id)
+}
+
+// ── Arms ─────────────────────────────────────────────────────────────────────
+
+export function listExtractionArms(paperId: string): ExtractionArm[] {
+    return getDb().prepare(
+        'SELECT * FROM extraction_arms WHERE paper_id = ? ORDER BY sort_order, rowid'
+    ).all(paperId) as ExtractionArm[]
+}
+
+export function createExtractionArm(paperId: string, label: string): ExtractionArm {
+    const db = getDb()
+    const trimmed = label.trim()
+    if (!trimmed) throw new Error('Arm label cannot be empty')
+    if (!db.prepare('SELECT 1 FROM papers WHERE id = ?').get(paperId)) throw new Error(`Paper with id ${paperId} not found`)
+    if (listExtractionArms(paperId).some(a => a.label.toLowerCase() === trimmed.toLowerCase())) {
+        throw new Error(`This paper already has an arm named "${trimmed}"`)
+    }
+
+    const id = uuidv4()
+    const maxOrder = db.prepare(
+        'SELECT COALESCE(MAX(sort_order), 0) as m FROM extraction_arms WHERE paper_id = ?'
+    ).get(paperId) as { m: number }
+    db.prepare('INSERT INTO extraction_arms (id, paper_id, label, sort_order) VALUES (?, ?, ?, ?)').run(id, paperId, trimmed, maxOrder.m + 1)
+    return db.prepare('SELECT * FROM extraction_arms WHERE id = ?').get(id) as ExtractionArm
+}
+
+export function renameExtractionArm(id: string, label: string): ExtractionArm | null {
+    const db = getDb()
+    const trimmed = label.trim()
+    if (!trimmed) throw new Error('Arm label cannot be empty')
+    const arm = db.prepare('SELECT * FROM extraction_arms WHERE id = ?').get(id) as ExtractionArm | undefined
+    if (!arm) return null
+    if (listExtractionArms(arm.paper_id).some(a => a.id !== id && a.label.toLowerCase() === trimmed.toLowerCase())) {
+        throw new Error(`This paper already has an arm named "${trimmed}"`)
+    }
+    db.prepare('UPDATE extraction_arms SET label = ? WHERE id = ?').run(trimmed, id)
+    return { ...arm, label: trimmed }
+}
+
+/** Delete an arm together with every value extracted for it */
+export function deleteExtractionArm(id: string): boolean {
+    const result = getDb().prepare('DELETE FROM extraction_arms WHERE id = ?').run(id)
+    return result.changes > 0
+}
+
+// ── Values ───────────────────────────────────────────────────────────────────
+
+/** A paper's arms and every value extracted for it, across all forms */
+export function getPaperExtraction(paperId: string): PaperExtraction {
+    const rows = getDb().prepare(`${VALUE_SELECT} WHERE v.paper_id = ?`).all(paperId) as ValueRow[]
+    return { arms: listExtractionArms(paperId), values: rows.map(toValue) }
+}
+
+/** Check a raw value against the field's type; returns null for an empty value */
+function normalizeValue(field: ExtractionField, raw: number | string | null): { number: number | null; text: string | null } | null {
+    if (raw === null || (typeof raw === 'string' && raw.trim() === '')) return null
+
+    switch (field.field_type) {
+        case 'integer':
+        case 'decimal': {
+            const num = typeof raw === 'number' ? raw : Number(raw.trim())
+            if (!Number.isFinite(num)) throw new Error(`"${field.name}" must be a number`)
+            if (field.field_type === 'integer' && !Number.isInteger(num)) throw new Error(`"${field.name}" must be a whole number`)
+            return { number: num, text: null }
+        }
+        case 'categorical': {
+            const text = String(raw).trim()
+            if (!field.options.includes(text)) throw new Error(`"${text}" is not an option of "${field.name}"`)
+            return { number: null, text }
+        }
+        case 'text':
+            return { number: null, text: String(raw).trim() }
+        default:
+            throw new Error('Arm groups hold no values; fill in their fields for each arm')
+    }
+}
+
+/**
+ * Set, clear or cite a value. Fields inside an arm group need an arm of the
+ * same paper; a cited annotation must also belong to the paper. Returns the
+ * stored value, or null once neither a value nor a citation is left.
+ */
+export function setExtractionValue(input: ExtractionValueInput): ExtractionValue | null {
+    const db = getDb()
+    const field = requireField(input.field_id)
+    const armId = input.arm_id ?? null
+
+    if (field.parent_id) {
+        if (!armId) throw new Error(`"${field.name}" is recorded per arm; choose an arm`)
+        const arm = db.prepare('SELECT paper_id FROM extraction_arms WHERE id = ?').get(armId) as { paper_id: string } | undefined
+        if (!arm || arm.paper_id !== input.paper_id) throw new Error('Arm not found for this paper')
+    } else if (armId) {
+        throw new Error(`"${field.name}" is recorded once per paper, not per arm`)
+    }
+
+    if (input.annotation_id) {
+        const annotation = db.prepare('SELECT paper_id FROM annotations WHERE id = ?').get(input.annotation_id) as { paper_id: string } | undefined
+        if (!annotation || annotation.paper_id !== input.paper_id) throw new Error('The cited annotation does not belong to this paper')
+    }
+
+    const existing = db.prepare(
+        'SELECT * FROM extraction_values WHERE paper_id = ? AND field_id = ? AND arm_id IS ?'
+    ).get(input.paper_id, field.id, armId) as ValueRow | undefined
+
+    const normalized = input.value !== undefined
+        ? normalizeValue(field, input.value)
+        : existing && (existing.value_number !== null || existing.value_text !== null)
+            ? { number: existing.value_number, text: existing.value_text }
+            : null
+    const annotationId = input.annotation_id !== undefined ? input.annotation_id : existing?.annotation_id ?? null
+
+    if (!normalized && !annotationId) {
+        if (existing) db.prepare('DELETE FROM extraction_values WHERE id = ?').run(existing.id)
+        return null
+    }
+
+    const id = existing?.id ?? uuidv4()
+    if (existing) {
+        db.prepare(`
+            UPDATE extraction_values
+            SET value_number = ?, value_text = ?, annotation_id = ?, updated_at = datetime('now')
+            WHERE id = ?
+        `).run(normalized?.number ?? null, normalized?.text ?? null, annotationId, id)
+    } else {
+        db.prepare(`
+            INSERT INTO extraction_values (id, paper_id, field_id, arm_id, value_number, value_text, annotation_id)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(id, input.paper_id, field.id, armId, normalized?.number ?? null, normalized?.text ?? null, annotationId)
+    }
+    return toValue(db.prepare(`${VALUE_SELECT} WHERE v.id = ?`).get(id) as ValueRow)
+}
+
+/**
+ * Move a merged duplicate's arms and values onto the kept paper. Arms with the
+ * same label are combined; where both papers have a value, the kept paper's wins.
+ */
+export function mergeExtractionData(canonicalId: string, duplicateId: string): void {
+    const db = getDb()
+    const keptArms = listExtractionArms(canonicalId)
+
+    for (const arm of listExtractionArms(duplicateId)) {
+        const match = keptArms.find(a => a.label.toLowerCase() === arm.label.toLowerCase())
+        if (match) {
+            db.prepare(`
+                UPDATE extraction_values SET paper_id = ?, arm_id = ?
+                WHERE arm_id = ? AND field_id NOT IN (SELECT field_id FROM extraction_values WHERE arm_id = ?)
+            `).run(canonicalId, match.id, arm.id, match.id)
+            db.prepare('DELETE FROM extraction_arms WHERE id = ?').run(arm.id)
+        } else {
+            db.prepare('UPDATE extraction_arms SET paper_id = ? WHERE id = ?').run(canonicalId, arm.id)
+            db.prepare('UPDATE extraction_values SET paper_id = ? WHERE arm_id = ?').run(canonicalId, arm.id)
+        }
+    }
+
+    db.prepare(`
+        UPDATE extraction_values SET paper_id = ?
+        WHERE paper_id = ? AND arm_id IS NULL
+          AND field_id NOT IN (SELECT field_id FROM extraction_values WHERE paper_id = ? AND arm_id IS NULL)
+    `).run(canonicalId, duplicateId, canonicalId)
+}
+
+// ── Matrix ───────────────────────────────────────────────────────────────────
+
+/**
+ * Extraction data shaped for the synthesis matrix: one column per paper-level
+ * field and per field inside an arm group, one cell per paper with values.
+ */
+export function getExtractionMatrix(): ExtractionMatrix {
+    const db = getDb()
+    const columns: ExtractionColumn[] = []
+    for (const form of listExtractionForms()) {
+        for (const field of form.fields) {
+            if (field.field_type === 'group') continue
+            const group = field.parent_id ? form.fields.find(f => f.id === field.parent_id) : undefined
+            columns.push({
+                field_id: field.id,
+                form_id: form.id,
+                form_name: form.name,
+                name: group ? `${group.name} › ${field.name}` : field.name,
+                field_type: field.field_type,
+                unit: field.unit,
+                per_arm: !!group
+            })
+        }
+    }
+
+    const rows = db.prepare(`
+        SELECT v.paper_id, v.field_id, v.arm_id, r.label as arm_label,
+               v.value_number, v.value_text, v.annotation_id, a.page_number
+        FROM extraction_values v
+        JOIN papers p ON p.id = v.paper_id
+        LEFT JOIN extraction_arms r ON r.id = v.arm_id
+        LEFT JOIN annotations a ON a.id = v.annotation_id
+        WHERE (v.value_number IS NOT NULL OR v.value_text IS NOT NULL) AND p.archived = 0
+        ORDER BY v.paper_id, v.field_id, r.sort_order, r.rowid
+    `).all() as Array<{
+        paper_id: string
+        field_id: string
+        arm_id: string | null
+        arm_label: string | null
+        value_number: number | null
+        value_text: string | null
+        annotation_id: string | null
+        page_number: number | null
+    }>
+
+    const cells = new Map<string, ExtractionCell>()
+    for (const row of rows) {
+        const key = `${row.paper_id}:${row.field_id}`
+        if (!cells.has(key)) cells.set(key, { paper_id: row.paper_id, field_id: row.field_id, values: [] })
+        cells.get(key)!.values.push({
+            arm_id: row.arm_id,
+            arm_label: row.arm_label,
+            value: (row.value_number ?? row.value_text)!,
+            annotation_id: row.annotation_id,
+            page_number: row.page_number
+        })
+    }
+
+    return { columns, cells: [...cells.values()] }
+}
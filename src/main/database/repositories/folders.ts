@@ -2,6 +2,8 @@
 // ThreadMed — Folders Repository
 // ============================================================================
 // CRUD operations for folders (collections) and mapping papers to folders.
+// Folders with a zotero_key mirror a Zotero collection and are kept in step
+// by the sync engine; folders without one are local-only.
 // ============================================================================
 
 import { v4 as uuidv4 } from 'uuid'
@@ -15,6 +17,18 @@ export interface Folder {
     parent_id: string | null
     created_at: string
     sort_order: number
+    /** Key of the mirrored Zotero collection; null for local-only folders */
+    zotero_key: string | null
+    /** Zotero library of zotero_key: 'users/<id>' or 'groups/<id>' */
+    zotero_library: string | null
+}
+
+/** A Zotero collection as the sync engine sees it */
+export interface ZoteroCollectionSpec {
+    key: string
+    name: string
+    /** Key of the parent collection; null for top-level collections */
+    parentKey: string | null
 }
 
 /** Create a new folder */
@@ -98,7 +112,7 @@ export function getPapersInFolder(folderId: string): PaperWithAuthors[] {
     const db = getDb()
     const rows = db.prepare('SELECT paper_id FROM paper_folders WHERE folder_id = ?').all(folderId) as { paper_id: string }[]
 
-    return rows.map(r => getPaper(r.paper_id)).filter((p): p is PaperWithAuthors => p !== null)
+    return rows.map(r => getPaper(r.paper_id)).filter((p): p is PaperWithAuthors => p !== null && !p.archived)
 }
 
 /** Get all folder-to-paper links */
@@ -106,3 +120,82 @@ export function getPaperMappings(): Array<{ paper_id: string, folder_id: string
     const db = getDb()
     return db.prepare('SELECT paper_id, folder_id FROM paper_folders').all() as Array<{ paper_id: string, folder_id: string }>
 }
+
+// ── Zotero Collections ───────────────────────────────────────────────────────
+
+/**
+ * Make the mirrored folders of one library match its Zotero collections:
+ * create new ones, rename and re-parent existing ones, and delete those whose
+ * collection is gone. Local-only sub-folders of a deleted collection are
+ * moved up to its nearest remaining ancestor rather than deleted with it.
+ */
+export function mirrorZoteroCollections(library: string, collections: ZoteroCollectionSpec[]): void {
+    const db = getDb()
+
+    db.transaction(() => {
+        const mirrored = db.prepare(
+            'SELECT id, zotero_key, parent_id FROM folders WHERE zotero_library = ? AND zotero_key IS NOT NULL'
+        ).all(library) as Array<{ id: string; zotero_key: string; parent_id: string | null }>
+        const idByKey = new Map(mirrored.map(f => [f.zotero_key, f.id]))
+
+        const maxSort = db.prepare('SELECT MAX(sort_order) as max FROM folders').get() as { max: number | null }
+        let nextSort = (maxSort.max || 0) + 1
+        const insert = db.prepare(`
+            INSERT INTO folders (id, name, parent_id, sort_order, zotero_key, zotero_library)
+            VALUES (?, ?, NULL, ?, ?, ?)
+        `)
+        const sorted = [...collections].sort((a, b) => a.name.localeCompare(b.name))
+        for (const collection of sorted) {
+            if (idByKey.has(collection.key)) continue
+            const id = uuidv4()
+            insert.run(id, collection.name, nextSort++, collection.key, library)
+            idByKey.set(collection.key, id)
+        }
+
+        // Parents are linked once every collection has a folder
+        const update = db.prepare('UPDATE folders SET name = ?, parent_id = ? WHERE id = ?')
+        for (const collection of collections) {
+            const parentId = collection.parentKey ? idByKey.get(collection.parentKey) ?? null : null
+            update.run(collection.name, parentId, idByKey.get(collection.key))
+        }
+
+        const remoteKeys = new Set(collections.map(c => c.key))
+        const removed = mirrored.filter(f => !remoteKeys.has(f.zotero_key))
+        if (removed.length === 0) return
+
+        const removedIds = new Set(removed.map(f => f.id))
+        const parentOf = new Map(mirrored.map(f => [f.id, f.parent_id]))
+        const liftChildren = db.prepare(
+            'UPDATE folders SET parent_id = ? WHERE parent_id = ? AND zotero_key IS NULL'
+        )
+        for (const folder of removed) {
+            let ancestor = folder.parent_id
+            while (ancestor && removedIds.has(ancestor)) ancestor = parentOf.get(ancestor) ?? null
+            liftChildren.run(ancestor, folder.id)
+        }
+        const remove = db.prepare('DELETE FROM folders WHERE id = ?')
+        for (const folder of removed) remove.run(folder.id)
+    })()
+}
+
+/**
+ * Set which mirrored folders of a library a paper belongs to, from the
+ * item's Zotero collection keys. Local-only folders are not touched.
+ */
+export function setPaperZoteroCollections(paperId: string, library: string, collectionKeys: string[]): void {
+    const db = getDb()
+
+    db.transaction(() => {
+        db.prepare(`
+            DELETE FROM paper_folders
+            WHERE paper_id = ?
+              AND folder_id IN (SELECT id FROM folders WHERE zotero_library = ? AND zotero_key IS NOT NULL)
+        `).run(paperId, library)
+
+        const add = db.prepare(`
+            INSERT OR IGNORE INTO paper_folders (paper_id, folder_id)
+            SELECT ?, id FROM folders WHERE zotero_library = ? AND zotero_key = ?
+        `)
+        for (const key of collectionKeys) add.run(paperId, library, key)
+    })()
+}
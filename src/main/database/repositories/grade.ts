@@ -0,0 +1,254 @@
+// ============================================================================
+// ThreadMed — GRADE Repository (better-sqlite3)
+// ============================================================================
+// Stores GRADE certainty-of-evidence assessments as the reviewer entered them:
+//   - grade_outcomes: one per outcome, in Summary of Findings order
+//   - grade_domains:  rating and rationale per domain
+//   - grade_evidence: annotations cited for a domain's rationale
+// The Summary of Findings header (population, setting, intervention and
+// comparison) is kept in sync_meta.
+// Certainty is not stored; services/grade.ts derives it from the ratings so
+// a changed rating is reflected in every table.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '../connection'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type GradeStudyDesign = 'randomized' | 'observational'
+export type GradeImportance = 'critical' | 'important' | 'limited'
+
+export interface GradeOutcome {
+    id: string
+    name: string
+    meta_analysis_id: string | null
+    study_design: GradeStudyDesign
+    importance: GradeImportance
+    studies: number | null
+    participants: number | null
+    /** e.g. "RR 0.46 (0.32 to 0.66)"; empty to use the linked meta-analysis */
+    relative_effect: string
+    /** Risk with the comparator, e.g. "120 per 1,000" */
+    comparator_risk: string
+    /** Risk with the intervention, e.g. "55 per 1,000 (38 to 79)" */
+    intervention_risk: string
+    certainty_override: string | null
+    comments: string
+    sort_order: number
+    created_at: string
+    updated_at: string
+}
+
+export type GradeOutcomeUpdate = Partial<Omit<GradeOutcome, 'id' | 'sort_order' | 'created_at' | 'updated_at'>>
+
+export interface GradeDomainRecord {
+    domain_id: string
+    rating: number
+    rationale: string
+}
+
+export interface GradeEvidence {
+    domain_id: string
+    annotation_id: string
+    paper_id: string
+    paper_title: string
+    content: string
+    page_number: number
+    node_name: string
+    node_color: string
+}
+
+export interface GradeOutcomeRecord extends GradeOutcome {
+    domains: GradeDomainRecord[]
+    evidence: GradeEvidence[]
+}
+
+/** The question a Summary of Findings table answers */
+export interface SofHeader {
+    population: string
+    setting: string
+    intervention: string
+    comparison: string
+}
+
+const SOF_HEADER_KEY = 'sof_header'
+
+const DESIGNS: GradeStudyDesign[] = ['randomized', 'observational']
+const IMPORTANCE: GradeImportance[] = ['critical', 'important', 'limited']
+
+/** Columns updateGradeOutcome() may set, besides the name */
+const UPDATABLE = [
+    'meta_analysis_id', 'study_design', 'importance', 'studies', 'participants', 'relative_effect',
+    'comparator_risk', 'intervention_risk', 'certainty_override', 'comments'
+] as const
+
+function touch(id: string): void {
+    getDb().prepare("UPDATE grade_outcomes SET updated_at = datetime('now') WHERE id = ?").run(id)
+}
+
+function requireOutcome(id: string): GradeOutcome {
+    const outcome = getDb().prepare('SELECT * FROM grade_outcomes WHERE id = ?').get(id) as GradeOutcome | undefined
+    if (!outcome) throw new Error('Outcome not found')
+    return outcome
+}
+
+// ── Outcomes ─────────────────────────────────────────────────────────────────
+
+export function listGradeOutcomes(): GradeOutcome[] {
+    return getDb().prepare('SELECT * FROM grade_outcomes ORDER BY sort_order, rowid').all() as GradeOutcome[]
+}
+
+export function getGradeOutcomeRecord(id: string): GradeOutcomeRecord | null {
+    const db = getDb()
+    const outcome = db.prepare('SELECT * FROM grade_outcomes WHERE id = ?').get(id) as GradeOutcome | undefined
+    if (!outcome) return null
+
+    const domains = db.prepare(
+        'SELECT domain_id, rating, rationale FROM grade_domains WHERE outcome_id = ?'
+    ).all(id) as GradeDomainRecord[]
+
+    const evidence = db.prepare(`
+        SELECT e.domain_id, e.annotation_id, a.paper_id, p.title as paper_title, a.content, a.page_number,
+               n.name as node_name, n.color as node_color
+        FROM grade_evidence e
+        JOIN annotations a ON a.id = e.annotation_id
+        JOIN papers p ON p.id = a.paper_id
+        JOIN nodes n ON n.id = a.node_id
+        WHERE e.outcome_id = ?
+        ORDER BY p.title, a.page_number, a.created_at
+    `).all(id) as GradeEvidence[]
+
+    return { ...outcome, domains, evidence }
+}
+
+/** Create an outcome at the end of the table (names are unique, case-insensitive) */
+export function createGradeOutcome(name: string, studyDesign: GradeStudyDesign = 'randomized'): GradeOutcome {
+    const db = getDb()
+    const trimmed = name.trim()
+    if (!trimmed) throw new Error('Outcome name cannot be empty')
+    if (!DESIGNS.includes(studyDesign)) throw new Error(`Unknown study design: ${studyDesign}`)
+    const collision = db.prepare('SELECT id FROM grade_outcomes WHERE name = ? COLLATE NOCASE').get(trimmed)
+    if (collision) throw new Error(`An outcome named "${trimmed}" already exists`)
+
+    const maxOrder = db.prepare('SELECT COALESCE(MAX(sort_order), 0) as m FROM grade_outcomes').get() as { m: number }
+    const id = uuidv4()
+    db.prepare(
+        'INSERT INTO grade_outcomes (id, name, study_design, sort_order) VALUES (?, ?, ?, ?)'
+    ).run(id, trimmed, studyDesign, maxOrder.m + 1)
+    return requireOutcome(id)
+}
+
+export function updateGradeOutcome(id: string, data: GradeOutcomeUpdate): GradeOutcome {
+    const db = getDb()
+    requireOutcome(id)
+
+    const name = data.name?.trim()
+    if (name !== undefined) {
+        if (!name) throw new Error('Outcome name cannot be empty')
+        const collision = db.prepare('SELECT id FROM grade_outcomes WHERE name = ? COLLATE NOCASE AND id != ?').get(name, id)
+        if (collision) throw new Error(`An outcome named "${name}" already exists`)
+    }
+    if (data.study_design !== undefined && !DESIGNS.includes(data.study_design)) {
+        throw new Error(`Unknown study design: ${data.study_design}`)
+    }
+    if (data.importance !== undefined && !IMPORTANCE.includes(data.importance)) {
+        throw new Error(`Unknown importance: ${data.importance}`)
+    }
+    for (const column of ['studies', 'participants'] as const) {
+        const value = data[column]
+        if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 0)) {
+            throw new Error(column === 'studies' ? 'Number of studies must be a whole number' : 'Number of participants must be a whole number')
+        }
+    }
+
+    if (name !== undefined) db.prepare('UPDATE grade_outcomes SET name = ? WHERE id = ?').run(name, id)
+    for (const column of UPDATABLE) {
+        if (data[column] === undefined) continue
+        db.prepare(`UPDATE grade_outcomes SET ${column} = ? WHERE id = ?`).run(data[column], id)
+    }
+    touch(id)
+    return requireOutcome(id)
+}
+
+export function moveGradeOutcome(id: string, direction: 'up' | 'down'): void {
+    const db = getDb()
+    const ids = db.prepare('SELECT id FROM grade_outcomes ORDER BY sort_order, rowid').pluck().all() as string[]
+    const index = ids.indexOf(id)
+    if (index < 0) throw new Error('Outcome not found')
+    const target = direction === 'up' ? index - 1 : index + 1
+    if (target < 0 || target >= ids.length) return
+
+    [ids[index], ids[target]] = [ids[target], ids[index]]
+    const update = db.prepare('UPDATE grade_outcomes SET sort_order = ? WHERE id = ?')
+    db.transaction(() => ids.forEach((outcomeId, i) => update.run(i + 1, outcomeId)))()
+}
+
+export function deleteGradeOutcome(id: string): boolean {
+    const result = getDb().prepare('DELETE FROM grade_outcomes WHERE id = ?').run(id)
+    return result.changes > 0
+}
+
+// ── Domains ──────────────────────────────────────────────────────────────────
+
+export function setGradeDomain(id: string, domainId: string, data: { rating?: number; rationale?: string }): void {
+    const db = getDb()
+    requireOutcome(id)
+    db.prepare('INSERT OR IGNORE INTO grade_domains (outcome_id, domain_id) VALUES (?, ?)').run(id, domainId)
+    if (data.rating !== undefined) {
+        db.prepare('UPDATE grade_domains SET rating = ? WHERE outcome_id = ? AND domain_id = ?').run(data.rating, id, domainId)
+    }
+    if (data.rationale !== undefined) {
+        db.prepare('UPDATE grade_domains SET rationale = ? WHERE outcome_id = ? AND domain_id = ?').run(data.rationale, id, domainId)
+    }
+    touch(id)
+}
+
+// ── Evidence ─────────────────────────────────────────────────────────────────
+
+/** Cite an annotation (from any paper) in support of a domain's rationale */
+export function addGradeEvidence(id: string, domainId: string, annotationId: string): void {
+    const db = getDb()
+    requireOutcome(id)
+    const annotation = db.prepare('SELECT id FROM annotations WHERE id = ?').get(annotationId)
+    if (!annotation) throw new Error('Annotation not found')
+
+    db.prepare(
+        'INSERT OR IGNORE INTO grade_evidence (outcome_id, domain_id, annotation_id) VALUES (?, ?, ?)'
+    ).run(id, domainId, annotationId)
+    touch(id)
+}
+
+export function removeGradeEvidence(id: string, domainId: string, annotationId: string): void {
+    getDb().prepare(
+        'DELETE FROM grade_evidence WHERE outcome_id = ? AND domain_id = ? AND annotation_id = ?'
+    ).run(id, domainId, annotationId)
+    touch(id)
+}
+
+// ── Summary of Findings Header ───────────────────────────────────────────────
+
+export function getSofHeader(): SofHeader {
+    const row = getDb().prepare('SELECT value FROM sync_meta WHERE key = ?').get(SOF_HEADER_KEY) as { value: string } | undefined
+    const stored = row ? JSON.parse(row.value) as Partial<SofHeader> : {}
+    return {
+        population: stored.population ?? '',
+        setting: stored.setting ?? '',
+        intervention: stored.intervention ?? '',
+        comparison: stored.comparison ?? ''
+    }
+}
+
+export function setSofHeader(data: Partial<SofHeader>): SofHeader {
+    const current = getSofHeader()
+    const next: SofHeader = {
+        population: data.population?.trim() ?? current.population,
+        setting: data.setting?.trim() ?? current.setting,
+        intervention: data.intervention?.trim() ?? current.intervention,
+        comparison: data.comparison?.trim() ?? current.comparison
+    }
+    getDb().prepare(
+        'INSERT INTO sync_meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+    ).run(SOF_HEADER_KEY, JSON.stringify(next))
+    return next
+}
@@ -0,0 +1,181 @@
+// ============================================================================
+// ThreadMed — Memos Repository (better-sqlite3)
+// ============================================================================
+// Analytic memos are Markdown documents. Annotations are cited inline with
+// `[[annotation:<id>]]`; every save re-derives the memo_references rows from
+// the content so the table always mirrors what the memo actually cites.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '../connection'
+import type { AnnotationWithContext } from './annotations'
+
+export interface Memo {
+  id: string
+  title: string
+  content: string
+  created_at: string
+  updated_at: string
+}
+
+export interface MemoSummary extends Memo {
+  reference_count: number
+}
+
+/** Matches `[[annotation:<id>]]` references in memo content */
+const REFERENCE_PATTERN = /\[\[annotation:([A-Za-z0-9-]+)\]\]/g
+
+/** Unique annotation ids cited in a memo body, in order of appearance */
+export function extractAnnotationReferences(content: string): string[] {
+  const ids = new Set<string>()
+  for (const match of content.matchAll(REFERENCE_PATTERN)) {
+    ids.add(match[1])
+  }
+  return [...ids]
+}
+
+/** Replace the memo's reference rows with the ids cited in its content */
+function syncReferences(memoId: string, content: string): void {
+  const db = getDb()
+  const cited = extractAnnotationReferences(content)
+
+  const existing = new Set(
+    (db.prepare('SELECT annotation_id FROM memo_references WHERE memo_id = ?').all(memoId) as Array<{ annotation_id: string }>)
+      .map(r => r.annotation_id)
+  )
+  const valid = new Set(
+    cited.length === 0
+      ? []
+      : (db.prepare(`SELECT id FROM annotations WHERE id IN (${cited.map(() => '?').join(', ')})`).all(...cited) as Array<{ id: string }>)
+        .map(r => r.id)
+  )
+
+  const insert = db.prepare('INSERT INTO memo_references (id, memo_id, annotation_id) VALUES (?, ?, ?)')
+  const remove = db.prepare('DELETE FROM memo_references WHERE memo_id = ? AND annotation_id = ?')
+
+  for (const annotationId of existing) {
+    if (!valid.has(annotationId)) remove.run(memoId, annotationId)
+  }
+  for (const annotationId of valid) {
+    if (!existing.has(annotationId)) insert.run(uuidv4(), memoId, annotationId)
+  }
+}
+
+/** List all memos, most recently edited first */
+export function listMemos(): MemoSummary[] {
+  const db = getDb()
+  return db.prepare(`
+    SELECT m.*, COUNT(r.id) as reference_count
+    FROM memos m
+    LEFT JOIN memo_references r ON r.memo_id = m.id
+    GROUP BY m.id
+    ORDER BY m.updated_at DESC
+  `).all() as MemoSummary[]
+}
+
+/** Get a single memo by id */
+export function getMemo(id: string): Memo | null {
+  const db = getDb()
+  return (db.prepare('SELECT * FROM memos WHERE id = ?').get(id) as Memo | undefined) ?? null
+}
+
+/** Create a memo; content may already cite annotations */
+export function createMemo(title = 'Untitled memo', content = ''): Memo {
+  const db = getDb()
+  const id = uuidv4()
+  const trimmed = title.trim() || 'Untitled memo'
+
+  db.transaction(() => {
+    db.prepare('INSERT INTO memos (id, title, content) VALUES (?, ?, ?)').run(id, trimmed, content)
+    syncReferences(id, content)
+  })()
+
+  return getMemo(id)!
+}
+
+/** Update a memo's title and/or content and re-sync its references */
+export function updateMemo(id: string, updates: { title?: string; content?: string }): Memo | null {
+  const db = getDb()
+  const current = getMemo(id)
+  if (!current) return null
+
+  const title = updates.title !== undefined ? (updates.title.trim() || 'Untitled memo') : current.title
+  const content = updates.content ?? current.content
+
+  db.transaction(() => {
+    db.prepare(
+      "UPDATE memos SET title = ?, content = ?, updated_at = datetime('now') WHERE id = ?"
+    ).run(title, content, id)
+    if (updates.content !== undefined) syncReferences(id, content)
+  })()
+
+  return getMemo(id)
+}
+
+/** Delete a memo (its references cascade) */
+export function deleteMemo(id: string): boolean {
+  const db = getDb()
+  const result = db.prepare('DELETE FROM memos WHERE id = ?').run(id)
+  return result.changes > 0
+}
+
+/** Annotations cited by a memo, with the context needed to render quote cards */
+export function getMemoReferences(memoId: string): AnnotationWithContext[] {
+  const db = getDb()
+  return db.prepare(`
+    SELECT a.*, p.title as paper_title, n.name as node_name, n.color as node_color, t.name as tag_name
+    FROM memo_references r
+    JOIN annotations a ON a.id = r.annotation_id
+    JOIN papers p ON p.id = a.paper_id
+    JOIN nodes n ON n.id = a.node_id
+    LEFT JOIN tags t ON t.id = a.tag_id
+    WHERE r.memo_id = ?
+  `).all(memoId) as AnnotationWithContext[]
+}
+
+// ── Backlinks ────────────────────────────────────────────────────────────────
+
+export interface MemoBacklink {
+  annotation_id: string
+  memo_id: string
+  memo_title: string
+  memo_updated_at: string
+}
+
+const BACKLINK_SELECT = `
+  SELECT r.annotation_id, m.id as memo_id, m.title as memo_title, m.updated_at as memo_updated_at
+  FROM memo_references r
+  JOIN memos m ON m.id = r.memo_id
+`
+
+/** Memos citing any annotation on a paper, one row per (annotation, memo) */
+export function getMemoBacklinksForPaper(paperId: string): MemoBacklink[] {
+  const db = getDb()
+  return db.prepare(`
+    ${BACKLINK_SELECT}
+    JOIN annotations a ON a.id = r.annotation_id
+    WHERE a.paper_id = ?
+    ORDER BY m.updated_at DESC
+  `).all(paperId) as MemoBacklink[]
+}
+
+/** Memos citing annotations coded to a node, one row per (annotation, memo) (checked before deleting it) */
+export function getMemoBacklinksForNode(nodeId: string): MemoBacklink[] {
+  const db = getDb()
+  return db.prepare(`
+    ${BACKLINK_SELECT}
+    JOIN annotations a ON a.id = r.annotation_id
+    WHERE a.node_id = ?
+    ORDER BY m.updated_at DESC
+  `).all(nodeId) as MemoBacklink[]
+}
+
+/** Memos citing a single annotation (checked before deleting it) */
+export function getMemoBacklinksForAnnotation(annotationId: string): MemoBacklink[] {
+  const db = getDb()
+  return db.prepare(`
+    ${BACKLINK_SELECT}
+    WHERE r.annotation_id = ?
+    ORDER BY m.updated_at DESC
+  `).all(annotationId) as MemoBacklink[]
+}
@@ -0,0 +1,271 @@
+// ============================================================================
+// ThreadMed — Meta-Analysis Repository (better-sqlite3)
+// ============================================================================
+// Stores the inputs of each meta-analysis:
+//   - meta_analyses: the comparison, its effect measure and pooling method
+//   - meta_studies:  one row of arm-level outcome data per study, linked to
+//                    a paper where one matches
+// Effects, pooled estimates and heterogeneity are not stored;
+// services/meta-stats.ts computes them from these rows on demand.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '../connection'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type MetaOutcomeType = 'binary' | 'continuous'
+export type MetaEffectMeasure = 'RR' | 'OR' | 'MD' | 'SMD'
+export type MetaMethod = 'MH' | 'IV' | 'DL' | 'REML'
+
+export interface MetaAnalysis {
+    id: string
+    name: string
+    outcome_type: MetaOutcomeType
+    effect_measure: MetaEffectMeasure
+    method: MetaMethod
+    experimental_label: string
+    control_label: string
+    created_at: string
+    updated_at: string
+    study_count: number
+}
+
+export interface MetaAnalysisInput {
+    name: string
+    outcome_type: MetaOutcomeType
+    effect_measure: MetaEffectMeasure
+    method: MetaMethod
+    experimental_label?: string
+    control_label?: string
+}
+
+export interface MetaStudy {
+    id: string
+    analysis_id: string
+    paper_id: string | null
+    /** Joined from the linked paper */
+    paper_title: string | null
+    label: string
+    events_e: number | null
+    n_e: number | null
+    mean_e: number | null
+    sd_e: number | null
+    events_c: number | null
+    n_c: number | null
+    mean_c: number | null
+    sd_c: number | null
+    /** Excluded studies stay in the grid but are left out of the pooling */
+    included: boolean
+    sort_order: number
+}
+
+export const META_STUDY_VALUES = ['events_e', 'n_e', 'mean_e', 'sd_e', 'events_c', 'n_c', 'mean_c', 'sd_c'] as const
+export type MetaStudyValue = typeof META_STUDY_VALUES[number]
+
+export type MetaStudyInput = { label: string; paper_id?: string | null; included?: boolean } & Partial<Record<MetaStudyValue, number | null>>
+
+const MEASURES: Record<MetaOutcomeType, MetaEffectMeasure[]> = {
+    binary: ['RR', 'OR'],
+    continuous: ['MD', 'SMD']
+}
+
+const METHODS: MetaMethod[] = ['MH', 'IV', 'DL', 'REML']
+
+/** Counts must be whole numbers; SDs cannot be negative */
+const COUNT_VALUES: MetaStudyValue[] = ['events_e', 'n_e', 'events_c', 'n_c']
+
+const ANALYSIS_SELECT = `
+    SELECT a.*, (SELECT COUNT(*) FROM meta_studies s WHERE s.analysis_id = a.id) as study_count
+    FROM meta_analyses a
+`
+
+const STUDY_SELECT = `
+    SELECT s.*, p.title as paper_title
+    FROM meta_studies s
+    LEFT JOIN papers p ON p.id = s.paper_id
+`
+
+function toStudy(row: Omit<MetaStudy, 'included'> & { included: number }): MetaStudy {
+    return { ...row, included: row.included === 1 }
+}
+
+function touch(id: string): void {
+    getDb().prepare("UPDATE meta_analyses SET updated_at = datetime('now') WHERE id = ?").run(id)
+}
+
+function checkMeasure(outcomeType: MetaOutcomeType, measure: MetaEffectMeasure, method: MetaMethod): void {
+    if (!MEASURES[outcomeType]) throw new Error(`Unknown outcome type: ${outcomeType}`)
+    if (!MEASURES[outcomeType].includes(measure)) throw new Error(`${measure} does not apply to ${outcomeType} outcomes`)
+    if (!METHODS.includes(method)) throw new Error(`Unknown pooling method: ${method}`)
+    if (method === 'MH' && outcomeType !== 'binary') throw new Error('Mantel–Haenszel pooling applies to binary outcomes only')
+}
+
+function checkValue(column: MetaStudyValue, value: number | null | undefined): void {
+    if (value === null || value === undefined) return
+    if (!Number.isFinite(value)) throw new Error(`${column} must be a number`)
+    if (COUNT_VALUES.includes(column) && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(column.startsWith('n_') ? 'Totals must be whole numbers' : 'Event counts must be whole numbers')
+    }
+    if ((column === 'sd_e' || column === 'sd_c') && value < 0) throw new Error('Standard deviations cannot be negative')
+}
+
+/** Throw if a study has no label or any of its outcome values is out of range */
+export function validateMetaStudy(input: MetaStudyInput): void {
+    if (!input.label.trim()) throw new Error('Every study needs a label')
+    for (const column of META_STUDY_VALUES) checkValue(column, input[column])
+}
+
+// ── Analyses ─────────────────────────────────────────────────────────────────
+
+export function listMetaAnalyses(): MetaAnalysis[] {
+    return getDb().prepare(`${ANALYSIS_SELECT} ORDER BY a.name COLLATE NOCASE`).all() as MetaAnalysis[]
+}
+
+export function getMetaAnalysis(id: string): MetaAnalysis | null {
+    return (getDb().prepare(`${ANALYSIS_SELECT} WHERE a.id = ?`).get(id) as MetaAnalysis | undefined) ?? null
+}
+
+/** Create an analysis (names are unique, case-insensitive) */
+export function createMetaAnalysis(input: MetaAnalysisInput): MetaAnalysis {
+    const db = getDb()
+    const name = input.name.trim()
+    if (!name) throw new Error('Analysis name cannot be empty')
+    checkMeasure(input.outcome_type, input.effect_measure, input.method)
+
+    const collision = db.prepare('SELECT id FROM meta_analyses WHERE name = ? COLLATE NOCASE').get(name)
+    if (collision) throw new Error(`An analysis named "${name}" already exists`)
+
+    const id = uuidv4()
+    db.prepare(`
+        INSERT INTO meta_analyses (id, name, outcome_type, effect_measure, method, experimental_label, control_label)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        id, name, input.outcome_type, input.effect_measure, input.method,
+        input.experimental_label?.trim() || 'Experimental',
+        input.control_label?.trim() || 'Control'
+    )
+    return getMetaAnalysis(id)!
+}
+
+/** Rename an analysis or change its measure and method; the outcome type is fixed */
+export function updateMetaAnalysis(
+    id: string,
+    updates: Partial<Pick<MetaAnalysis, 'name' | 'effect_measure' | 'method' | 'experimental_label' | 'control_label'>>
+): MetaAnalysis {
+    const db = getDb()
+    const analysis = getMetaAnalysis(id)
+    if (!analysis) throw new Error('Analysis not found')
+
+    const name = updates.name !== undefined ? updates.name.trim() : analysis.name
+    if (!name) throw new Error('Analysis name cannot be empty')
+    const collision = db.prepare('SELECT id FROM meta_analyses WHERE name = ? COLLATE NOCASE AND id != ?').get(name, id)
+    if (collision) throw new Error(`An analysis named "${name}" already exists`)
+
+    const measure = updates.effect_measure ?? analysis.effect_measure
+    const method = updates.method ?? analysis.method
+    checkMeasure(analysis.outcome_type, measure, method)
+
+    db.prepare(`
+        UPDATE meta_analyses
+        SET name = ?, effect_measure = ?, method = ?, experimental_label = ?, control_label = ?, updated_at = datetime('now')
+        WHERE id = ?
+    `).run(
+        name, measure, method,
+        updates.experimental_label?.trim() || analysis.experimental_label,
+        updates.control_label?.trim() || analysis.control_label,
+        id
+    )
+    return getMetaAnalysis(id)!
+}
+
+export function deleteMetaAnalysis(id: string): boolean {
+    const result = getDb().prepare('DELETE FROM meta_analyses WHERE id = ?').run(id)
+    return result.changes > 0
+}
+
+// ── Studies ──────────────────────────────────────────────────────────────────
+
+export function listMetaStudies(analysisId: string): MetaStudy[] {
+    const rows = getDb().prepare(
+        `${STUDY_SELECT} WHERE s.analysis_id = ? ORDER BY s.sort_order, s.rowid`
+    ).all(analysisId) as Array<Omit<MetaStudy, 'included'> & { included: number }>
+    return rows.map(toStudy)
+}
+
+function getMetaStudy(id: string): MetaStudy | null {
+    const row = getDb().prepare(`${STUDY_SELECT} WHERE s.id = ?`).get(id) as (Omit<MetaStudy, 'included'> & { included: number }) | undefined
+    return row ? toStudy(row) : null
+}
+
+/** Append studies to the end of the grid in one transaction */
+export function addMetaStudies(analysisId: string, inputs: MetaStudyInput[]): MetaStudy[] {
+    const db = getDb()
+    if (!getMetaAnalysis(analysisId)) throw new Error('Analysis not found')
+    inputs.forEach(validateMetaStudy)
+
+    const maxOrder = db.prepare(
+        'SELECT COALESCE(MAX(sort_order), 0) as m FROM meta_studies WHERE analysis_id = ?'
+    ).get(analysisId) as { m: number }
+    const insert = db.prepare(`
+        INSERT INTO meta_studies (id, analysis_id, paper_id, label, included, sort_order, ${META_STUDY_VALUES.join(', ')})
+        VALUES (?, ?, ?, ?, ?, ?, ${META_STUDY_VALUES.map(() => '?').join(', ')})
+    `)
+
+    const ids = inputs.map(() => uuidv4())
+    db.transaction(() => {
+        inputs.forEach((input, i) => {
+            insert.run(
+                ids[i], analysisId, input.paper_id ?? null, input.label.trim(), input.included === false ? 0 : 1,
+                maxOrder.m + i + 1,
+                ...META_STUDY_VALUES.map(column => input[column] ?? null)
+            )
+        })
+        touch(analysisId)
+    })()
+    return ids.map(id => getMetaStudy(id)!)
+}
+
+/** Update a study's label, paper link, inclusion or any of its outcome values */
+export function updateMetaStudy(id: string, updates: Partial<MetaStudyInput>): MetaStudy {
+    const db = getDb()
+    const study = getMetaStudy(id)
+    if (!study) throw new Error('Study not found')
+
+    const columns: string[] = []
+    const values: unknown[] = []
+    if (updates.label !== undefined) {
+        if (!updates.label.trim()) throw new Error('Study label cannot be empty')
+        columns.push('label = ?')
+        values.push(updates.label.trim())
+    }
+    if (updates.paper_id !== undefined) {
+        columns.push('paper_id = ?')
+        values.push(updates.paper_id)
+    }
+    if (updates.included !== undefined) {
+        columns.push('included = ?')
+        values.push(updates.included ? 1 : 0)
+    }
+    for (const column of META_STUDY_VALUES) {
+        if (updates[column] === undefined) continue
+        checkValue(column, updates[column])
+        columns.push(`${column} = ?`)
+        values.push(updates[column])
+    }
+
+    if (columns.length > 0) {
+        db.prepare(`UPDATE meta_studies SET ${columns.join(', ')} WHERE id = ?`).run(...values, id)
+        touch(study.analysis_id)
+    }
+    return getMetaStudy(id)!
+}
+
+export function deleteMetaStudy(id: string): boolean {
+    const db = getDb()
+    const study = getMetaStudy(id)
+    if (!study) return false
+    db.prepare('DELETE FROM meta_studies WHERE id = ?').run(id)
+    touch(study.analysis_id)
+    return true
+}
@@ -1,6 +1,11 @@
 // ============================================================================
 // ThreadMed — Nodes Repository (better-sqlite3)
 // ============================================================================
+// Nodes form the codebook: a tree of thematic codes where any node can hold
+// sub-nodes through parent_id. The six EBM defaults start at the root.
+// Names are unique among siblings (case-insensitive), so different parents
+// can each have a sub-node of the same name.
+// ============================================================================
 
 import { v4 as uuidv4 } from 'uuid'
 import { getDb } from '../connection'
@@ -11,6 +16,15 @@ export interface Node {
     color: string
     is_default: number
     sort_order: number
+    parent_id: string | null
+}
+
+/** A node placed in the codebook tree */
+export interface NodeTreeEntry extends Node {
+    /** 0 for root nodes */
+    depth: number
+    /** Names from the root down to this node */
+    path: string[]
 }
 
 /** Get all nodes ordered by sort_order */
@@ -19,16 +33,37 @@ export function listNodes(): Node[] {
     return db.prepare('SELECT * FROM nodes ORDER BY sort_order, name').all() as Node[]
 }
 
-/** Create a custom node */
-export function createNode(name: string, color = '#3B82F6'): Node {
+/** All nodes depth-first: each parent directly followed by its sub-nodes */
+export function listNodeTree(): NodeTreeEntry[] {
+    const nodes = listNodes()
+    const ids = new Set(nodes.map(n => n.id))
+    const entries: NodeTreeEntry[] = []
+    const visit = (parentId: string | null, path: string[]): void => {
+        for (const node of nodes) {
+            // Nodes whose parent is missing are treated as roots
+            const parent = node.parent_id && ids.has(node.parent_id) ? node.parent_id : null
+            if (parent !== parentId) continue
+            const nodePath = [...path, node.name]
+            entries.push({ ...node, depth: path.length, path: nodePath })
+            visit(node.id, nodePath)
+        }
+    }
+    visit(null, [])
+    return entries
+}
+
+/** Create a custom node, optionally nested under a parent node */
+export function createNode(name: string, color = '#3B82F6', parentId?: string | null): Node {
     const db = getDb()
     const id = uuidv4()
+    if (parentId) requireNode(parentId)
+    assertNameFree(name, parentId || null)
     const maxRow = db.prepare('SELECT MAX(sort_order) as max_order FROM nodes').get() as { max_order: number | null }
     const sortOrder = (maxRow.max_order ?? 0) + 1
 
     db.prepare(
-        'INSERT INTO nodes (id, name, color, is_default, sort_order) VALUES (?, ?, ?, 0, ?)'
-    ).run(id, name, color, sortOrder)
+        'INSERT INTO nodes (id, name, color, is_default, sort_order, parent_id) VALUES (?, ?, ?, 0, ?, ?)'
+    ).run(id, name, color, sortOrder, parentId || null)
 
     return db.prepare('SELECT * FROM nodes WHERE id = ?').get(id) as Node
 }
@@ -38,6 +73,7 @@ export function updateNode(id: string, updates: { name?: string; color?: string
     const db = getDb()
     const existing = db.prepare('SELECT * FROM nodes WHERE id = ?').get(id) as Node | undefined
     if (!existing) return null
+    if (updates.name !== undefined) assertNameFree(updates.name, existing.parent_id, id)
 
     db.prepare('UPDATE nodes SET name = ?, color = ? WHERE id = ?').run(
         updates.name ?? existing.name,
@@ -48,12 +84,174 @@ export function updateNode(id: string, updates: { name?: string; color?: string
     return db.prepare('SELECT * FROM nodes WHERE id = ?').get(id) as Node
 }
 
-/** Delete a custom node (default nodes cannot be deleted) */
+/**
+ * Move a node under another node, or to the root when `parentId` is null, to
+ * position `index` among its new siblings (the end when omitted). The
+ * siblings' sort_order is renumbered to match.
+ * Throws if the move would nest a node inside itself or its own sub-nodes.
+ */
+export function moveNode(id: string, parentId: string | null, index?: number): Node {
+    const db = getDb()
+    const node = requireNode(id)
+    if (parentId) {
+        requireNode(parentId)
+        if (getNodeSubtreeIds(id).includes(parentId)) {
+            throw new Error('A node cannot be moved into itself or one of its sub-nodes')
+        }
+    }
+    assertNameFree(node.name, parentId, id)
+
+    const siblings = (db.prepare(
+        'SELECT id FROM nodes WHERE parent_id IS ? AND id != ? ORDER BY sort_order, name'
+    ).all(parentId, id) as { id: string }[]).map(r => r.id)
+    const position = index === undefined ? siblings.length : Math.max(0, Math.min(index, siblings.length))
+    siblings.splice(position, 0, id)
+
+    db.transaction(() => {
+        db.prepare('UPDATE nodes SET parent_id = ? WHERE id = ?').run(parentId, id)
+        const setOrder = db.prepare('UPDATE nodes SET sort_order = ? WHERE id = ?')
+        siblings.forEach((siblingId, i) => setOrder.run(i + 1, siblingId))
+    })()
+    return requireNode(id)
+}
+
+/** IDs of a node and all of its descendants, the node itself first */
+export function getNodeSubtreeIds(id: string): string[] {
+    const db = getDb()
+    const rows = db.prepare(`
+        WITH RECURSIVE subtree(id) AS (
+            SELECT ?
+            UNION
+            SELECT n.id FROM nodes n JOIN subtree s ON n.parent_id = s.id
+        )
+        SELECT id FROM subtree
+    `).all(id) as { id: string }[]
+    return rows.map(r => r.id)
+}
+
+/**
+ * Delete a custom node (default nodes cannot be deleted). Its annotations go
+ * with it; its sub-nodes move up to take its place in the tree, so it throws
+ * if one of them is named like a node already at that level.
+ */
 export function deleteNode(id: string): boolean {
     const db = getDb()
     const existing = db.prepare('SELECT * FROM nodes WHERE id = ?').get(id) as Node | undefined
     if (!existing || existing.is_default === 1) return false
 
-    db.prepare('DELETE FROM nodes WHERE id = ?').run(id)
+    const children = db.prepare(
+        'SELECT * FROM nodes WHERE parent_id = ? ORDER BY sort_order, name'
+    ).all(id) as Node[]
+    for (const child of children) {
+        if (hasNameClash(child.name, existing.parent_id, id)) {
+            throw new Error(`Cannot delete "${existing.name}": its sub-node "${child.name}" would clash with a node of the same name one level up. Rename or move it first.`)
+        }
+    }
+
+    // The sub-nodes take the deleted node's position among its siblings
+    const siblings = (db.prepare(
+        'SELECT id FROM nodes WHERE parent_id IS ? ORDER BY sort_order, name'
+    ).all(existing.parent_id) as { id: string }[]).map(r => r.id)
+    siblings.splice(siblings.indexOf(id), 1, ...children.map(c => c.id))
+
+    db.transaction(() => {
+        db.prepare('UPDATE nodes SET parent_id = ? WHERE parent_id = ?').run(existing.parent_id, id)
+        db.prepare('DELETE FROM nodes WHERE id = ?').run(id)
+        const setOrder = db.prepare('UPDATE nodes SET sort_order = ? WHERE id = ?')
+        siblings.forEach((siblingId, i) => setOrder.run(i + 1, siblingId))
+    })()
     return true
 }
+
+/** Does a node under `parentId` other than `exceptId` have this name (case-insensitive)? */
+function hasNameClash(name: string, parentId: string | null, exceptId?: string): boolean {
+    return !!getDb().prepare(
+        'SELECT id FROM nodes WHERE name = ? COLLATE NOCASE AND parent_id IS ? AND id IS NOT ?'
+    ).get(name, parentId, exceptId ?? null)
+}
+
+/** Throws if a sibling under `parentId` already has this name (case-insensitive) */
+function assertNameFree(name: string, parentId: string | null, exceptId?: string): void {
+    if (hasNameClash(name, parentId, exceptId)) {
+        throw new Error(parentId
+            ? `The parent node already has a sub-node named "${name}"`
+            : `A top-level node named "${name}" already exists`)
+    }
+}
+
+function requireNode(id: string): Node {
+    const node = getDb().prepare('SELECT * FROM nodes WHERE id = ?').get(id) as Node | undefined
+    if (!node) throw new Error('Node not found')
+    return node
+}
+
+// ── Codebook Templates ───────────────────────────────────────────────────────
+
+/** A node with its starter tags and sub-nodes, as stored in a codebook template */
+export interface CodebookNodeSpec {
+    name: string
+    color: string
+    tags?: string[]
+    children?: CodebookNodeSpec[]
+}
+
+/** The current codebook as a tree of specs, in sidebar order */
+export function exportCodebook(): CodebookNodeSpec[] {
+    const db = getDb()
+    const tagRows = db.prepare('SELECT node_id, name FROM tags ORDER BY name COLLATE NOCASE').all() as { node_id: string; name: string }[]
+    const tagsByNode = new Map<string, string[]>()
+    for (const row of tagRows) {
+        if (!tagsByNode.has(row.node_id)) tagsByNode.set(row.node_id, [])
+        tagsByNode.get(row.node_id)!.push(row.name)
+    }
+
+    const specs = new Map<string, CodebookNodeSpec>()
+    const roots: CodebookNodeSpec[] = []
+    for (const node of listNodeTree()) {
+        const spec: CodebookNodeSpec = { name: node.name, color: node.color }
+        const tags = tagsByNode.get(node.id)
+        if (tags) spec.tags = tags
+        specs.set(node.id, spec)
+
+        // listNodeTree() puts parents first, so the parent spec already exists
+        const parent = node.depth > 0 && node.parent_id ? specs.get(node.parent_id) : undefined
+        if (parent) {
+            if (!parent.children) parent.children = []
+            parent.children.push(spec)
+        } else {
+            roots.push(spec)
+        }
+    }
+    return roots
+}
+
+/**
+ * Replace the whole codebook with the given tree. Only allowed while nothing
+ * has been coded, i.e. for a freshly created project. The new nodes are
+ * ordinary custom nodes; only the seeded PICO nodes are undeletable defaults.
+ */
+export function replaceCodebook(specs: CodebookNodeSpec[]): void {
+    const db = getDb()
+    const coded = db.prepare('SELECT COUNT(*) as count FROM annotations').get() as { count: number }
+    if (coded.count > 0) throw new Error('The codebook can only be replaced before anything has been coded')
+
+    const insertNode = db.prepare(
+        'INSERT INTO nodes (id, name, color, is_default, sort_order, parent_id) VALUES (?, ?, ?, 0, ?, ?)'
+    )
+    const insertTag = db.prepare('INSERT OR IGNORE INTO tags (id, node_id, name) VALUES (?, ?, ?)')
+    let sortOrder = 0
+    const insertAll = (nodes: CodebookNodeSpec[], parentId: string | null): void => {
+        for (const spec of nodes) {
+            const id = uuidv4()
+            insertNode.run(id, spec.name, spec.color, ++sortOrder, parentId)
+            for (const tag of spec.tags ?? []) insertTag.run(uuidv4(), id, tag)
+            insertAll(spec.children ?? [], id)
+        }
+    }
+
+    db.transaction(() => {
+        // Tags go with their nodes (ON DELETE CASCADE)
+        db.prepare('DELETE FROM nodes').run()
+        insertAll(specs, null)
+    })()
+}
@@ -4,8 +4,9 @@
 
 import { v4 as uuidv4 } from 'uuid'
 import { join, basename, extname } from 'path'
-import { unlinkSync, existsSync, copyFileSync } from 'fs'
+import { unlinkSync, existsSync, copyFileSync, statSync } from 'fs'
 import { getDb, getPdfDir } from '../connection'
+import { mergeExtractionData } from './extraction'
 
 export interface Paper {
     id: string
@@ -20,12 +21,45 @@ export interface Paper {
     date_added: string
     date_modified: string
     zotero_version: number
+    /** 1 when metadata was edited locally since the last Zotero sync */
+    dirty: number
+    /** BibTeX key, fixed the first time the paper is exported */
+    citation_key: string | null
+    /** Zotero library the item lives in: 'users/<id>' or 'groups/<id>' */
+    zotero_library: string | null
+    /** 1 when hidden from the library but kept with its annotations */
+    archived: number
+    /** JSON ZoteroSnapshot from the last sync or push */
+    zotero_synced: string | null
 }
 
 export interface PaperWithAuthors extends Paper {
     authors: string[]
 }
 
+/** Metadata fields kept in step with Zotero in both directions */
+export type SyncedField = 'title' | 'year' | 'doi' | 'journal' | 'abstract' | 'authors'
+
+export const SYNCED_FIELDS: SyncedField[] = ['title', 'year', 'doi', 'journal', 'abstract', 'authors']
+
+export interface SyncedFields {
+    title: string
+    year: number | null
+    doi: string | null
+    journal: string | null
+    abstract: string | null
+    authors: string[]
+}
+
+/**
+ * What Zotero held at the last sync or push: the field values a two-way
+ * merge compares against, and the raw item data write-back builds on.
+ */
+export interface ZoteroSnapshot {
+    fields: SyncedFields
+    item: unknown
+}
+
 export interface CreatePaperInput {
     title: string
     year?: number | null
@@ -34,6 +68,7 @@ export interface CreatePaperInput {
     abstract?: string | null
     pdf_filename?: string | null
     zotero_key?: string | null
+    zotero_library?: string | null
     authors?: string[]
 }
 
@@ -43,12 +78,13 @@ export function createPaper(input: CreatePaperInput): PaperWithAuthors {
     const id = uuidv4()
 
     db.prepare(`
-    INSERT INTO papers (id, title, year, doi, journal, abstract, pdf_filename, zotero_key)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO papers (id, title, year, doi, journal, abstract, pdf_filename, zotero_key, zotero_library)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
         id, input.title, input.year ?? null, input.doi ?? null,
         input.journal ?? null, input.abstract ?? null,
-        input.pdf_filename ?? null, input.zotero_key ?? null
+        input.pdf_filename ?? null, input.zotero_key ?? null,
+        input.zotero_key ? input.zotero_library ?? null : null
     )
 
     // Insert authors
@@ -96,16 +132,40 @@ function getAuthorsForPaper(paperId: string): string[] {
     return rows.map(r => r.name)
 }
 
-/** Get all papers with their authors */
+/** Get all papers with their authors (archived papers are left out) */
 export function listPapers(): PaperWithAuthors[] {
     const db = getDb()
-    const papers = db.prepare('SELECT * FROM papers ORDER BY date_added DESC').all() as Paper[]
+    const papers = db.prepare('SELECT * FROM papers WHERE archived = 0 ORDER BY date_added DESC').all() as Paper[]
     return papers.map(paper => ({
         ...paper,
         authors: getAuthorsForPaper(paper.id)
     }))
 }
 
+/** Get archived papers with their authors */
+export function listArchivedPapers(): PaperWithAuthors[] {
+    const db = getDb()
+    const papers = db.prepare('SELECT * FROM papers WHERE archived = 1 ORDER BY date_modified DESC').all() as Paper[]
+    return papers.map(paper => ({
+        ...paper,
+        authors: getAuthorsForPaper(paper.id)
+    }))
+}
+
+/**
+ * Archive a paper or bring it back. An archived paper is out of the review:
+ * every listing, search, count and aggregate (library, folders, matrix,
+ * screening, PRISMA) leaves it out. Only lookups by id and
+ * listArchivedPapers() still return it.
+ */
+export function setPaperArchived(id: string, archived: boolean): void {
+    const db = getDb()
+    const result = db.prepare(
+        "UPDATE papers SET archived = ?, date_modified = datetime('now') WHERE id = ?"
+    ).run(archived ? 1 : 0, id)
+    if (result.changes === 0) throw new Error(`Paper with id ${id} not found`)
+}
+
 /** Get a single paper by ID */
 export function getPaper(id: string): PaperWithAuthors | null {
     const paper = getPaperById(id)
@@ -124,76 +184,176 @@ export function updatePaperFullText(id: string, fullText: string): void {
 /** Get total paper count */
 export function getPaperCount(): number {
     const db = getDb()
-    const row = db.prepare('SELECT COUNT(*) as count FROM papers').get() as { count: number }
+    const row = db.prepare('SELECT COUNT(*) as count FROM papers WHERE archived = 0').get() as { count: number }
     return row.count
 }
 
-/** FTS5 full-text search with KWIC snippets */
-export function searchPapers(query: string, limit = 50): Array<{
-    id: string
-    title: string
-    snippet: string
-    rank: number
-}> {
-    const db = getDb()
-    return db.prepare(`
-    SELECT p.id, p.title,
-           snippet(papers_fts, 2, '<mark>', '</mark>', '...', 40) as snippet,
-           rank
-    FROM papers_fts
-    JOIN papers p ON p.rowid = papers_fts.rowid
-    WHERE papers_fts MATCH ?
-    ORDER BY rank
-    LIMIT ?
-  `).all(query, limit) as Array<{ id: string; title: string; snippet: string; rank: number }>
-}
-
 /**
- * Upsert a paper from Zotero sync.
- * If a paper with the same zotero_key exists, update its metadata.
- * Otherwise, insert a new paper. Returns the paper ID.
+ * Upsert a paper from Zotero sync. Returns the paper ID.
+ * A new zotero_key inserts a paper. For an existing one the fields are merged
+ * three ways against the snapshot from the last sync: fields changed only in
+ * Zotero are taken, fields edited only locally are kept (and pushed later),
+ * and fields changed on both sides to different values are recorded in
+ * zotero_conflicts for the user to resolve.
  */
-export function upsertPaper(input: CreatePaperInput & { zotero_version?: number }): string {
+export function upsertPaper(input: CreatePaperInput & { zotero_version?: number; zotero_item?: unknown }): string {
     const db = getDb()
+    const remote: SyncedFields = {
+        title: input.title,
+        year: input.year ?? null,
+        doi: input.doi ?? null,
+        journal: input.journal ?? null,
+        abstract: input.abstract ?? null,
+        authors: input.authors ?? []
+    }
+    const snapshot: ZoteroSnapshot = { fields: remote, item: input.zotero_item ?? null }
 
     // Check if paper with this zotero_key already exists
     if (input.zotero_key) {
         const existing = db.prepare(
-            'SELECT id FROM papers WHERE zotero_key = ?'
-        ).get(input.zotero_key) as { id: string } | undefined
+            'SELECT id FROM papers WHERE zotero_key = ? AND zotero_library IS ?'
+        ).get(input.zotero_key, input.zotero_library ?? null) as { id: string } | undefined
 
         if (existing) {
-            // Update metadata
-            db.prepare(`
-                UPDATE papers SET
-                    title = ?, year = ?, doi = ?, journal = ?, abstract = ?,
-                    pdf_filename = COALESCE(?, pdf_filename),
-                    zotero_version = ?,
-                    date_modified = datetime('now')
-                WHERE zotero_key = ?
-            `).run(
-                input.title, input.year ?? null, input.doi ?? null,
-                input.journal ?? null, input.abstract ?? null,
-                input.pdf_filename ?? null, input.zotero_version ?? 0,
-                input.zotero_key
-            )
-
-            // Update authors if provided
-            if (input.authors && input.authors.length > 0) {
-                // Clear existing authors for this paper
-                db.prepare('DELETE FROM paper_authors WHERE paper_id = ?').run(existing.id)
-                insertAuthorsForPaper(db, existing.id, input.authors)
+            const paper = getPaper(existing.id)!
+            const base = getZoteroSnapshot(paper)?.fields ?? null
+            const local = getSyncedFields(paper)
+            const unresolved = new Set((db.prepare(
+                'SELECT field FROM zotero_conflicts WHERE paper_id = ?'
+            ).all(paper.id) as { field: string }[]).map(r => r.field))
+
+            const next: SyncedFields = { ...local }
+            const conflicts: SyncedField[] = []
+            for (const field of SYNCED_FIELDS) {
+                // Without a base, any difference on a dirty paper may be a local edit
+                const edited = paper.dirty === 1 && (!base || !sameFieldValue(local[field], base[field]))
+                if (!edited) {
+                    copyField(next, remote, field)
+                } else if (!sameFieldValue(local[field], remote[field])
+                    && (!base || !sameFieldValue(remote[field], base[field]) || unresolved.has(field))) {
+                    conflicts.push(field)
+                }
             }
+            const dirty = SYNCED_FIELDS.some(field => !sameFieldValue(next[field], remote[field]))
+
+            db.transaction(() => {
+                db.prepare(`
+                    UPDATE papers SET
+                        title = ?, year = ?, doi = ?, journal = ?, abstract = ?,
+                        pdf_filename = COALESCE(?, pdf_filename),
+                        zotero_version = ?,
+                        zotero_synced = ?,
+                        dirty = ?,
+                        date_modified = datetime('now')
+                    WHERE id = ?
+                `).run(
+                    next.title, next.year, next.doi, next.journal, next.abstract,
+                    input.pdf_filename ?? null, input.zotero_version ?? 0,
+                    JSON.stringify(snapshot), dirty ? 1 : 0,
+                    paper.id
+                )
+
+                if (!sameFieldValue(next.authors, local.authors)) {
+                    db.prepare('DELETE FROM paper_authors WHERE paper_id = ?').run(paper.id)
+                    insertAuthorsForPaper(db, paper.id, next.authors)
+                }
 
-            return existing.id
+                db.prepare('DELETE FROM zotero_conflicts WHERE paper_id = ?').run(paper.id)
+                const addConflict = db.prepare(
+                    'INSERT INTO zotero_conflicts (paper_id, field, local_value, remote_value) VALUES (?, ?, ?, ?)'
+                )
+                for (const field of conflicts) {
+                    addConflict.run(paper.id, field, JSON.stringify(local[field]), JSON.stringify(remote[field]))
+                }
+            })()
+
+            return paper.id
         }
     }
 
     // Insert new paper
     const paper = createPaper(input)
+    db.prepare('UPDATE papers SET zotero_version = ?, zotero_synced = ? WHERE id = ?')
+        .run(input.zotero_version ?? 0, JSON.stringify(snapshot), paper.id)
     return paper.id
 }
 
+/** The synced metadata fields of a paper */
+export function getSyncedFields(paper: PaperWithAuthors): SyncedFields {
+    return {
+        title: paper.title,
+        year: paper.year,
+        doi: paper.doi,
+        journal: paper.journal,
+        abstract: paper.abstract,
+        authors: paper.authors
+    }
+}
+
+export function getZoteroSnapshot(paper: Paper): ZoteroSnapshot | null {
+    if (!paper.zotero_synced) return null
+    try {
+        return JSON.parse(paper.zotero_synced) as ZoteroSnapshot
+    } catch {
+        return null
+    }
+}
+
+export function sameFieldValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+function copyField<K extends SyncedField>(to: SyncedFields, from: SyncedFields, field: K): void {
+    to[field] = from[field]
+}
+
+/**
+ * Record a successful push to Zotero: the pushed fields and item data join
+ * the snapshot, and the paper stays dirty only if some edit could not be sent.
+ */
+export function recordZoteroPush(id: string, version: number, pushed: SyncedField[], itemPatch: Record<string, unknown>): void {
+    const db = getDb()
+    const paper = getPaper(id)
+    if (!paper) throw new Error(`Paper with id ${id} not found`)
+
+    const local = getSyncedFields(paper)
+    const previous = getZoteroSnapshot(paper)
+    const fields: SyncedFields = { ...(previous?.fields ?? local) }
+    for (const field of pushed) copyField(fields, local, field)
+    const item = { ...(previous?.item as Record<string, unknown> | null ?? {}), ...itemPatch }
+    const dirty = SYNCED_FIELDS.some(field => !sameFieldValue(local[field], fields[field]))
+
+    db.prepare('UPDATE papers SET zotero_version = ?, zotero_synced = ?, dirty = ? WHERE id = ?')
+        .run(version, JSON.stringify({ fields, item }), dirty ? 1 : 0, id)
+}
+
+/**
+ * Set a synced field to the value Zotero holds (resolving a conflict in
+ * Zotero's favour) without marking the paper as locally edited.
+ */
+export function applyZoteroField(id: string, field: SyncedField, value: unknown): void {
+    if (!SYNCED_FIELDS.includes(field)) throw new Error(`Unknown field: ${field}`)
+    const db = getDb()
+    const paper = getPaper(id)
+    if (!paper) throw new Error(`Paper with id ${id} not found`)
+
+    db.transaction(() => {
+        if (field === 'authors') {
+            db.prepare('DELETE FROM paper_authors WHERE paper_id = ?').run(id)
+            insertAuthorsForPaper(db, id, Array.isArray(value) ? value.map(String) : [])
+        } else {
+            db.prepare(`UPDATE papers SET ${field} = ?, date_modified = datetime('now') WHERE id = ?`)
+                .run(value === undefined ? null : value as string | number | null, id)
+        }
+
+        const updated = getPaper(id)!
+        const base = getZoteroSnapshot(updated)?.fields
+        const local = getSyncedFields(updated)
+        const dirty = !base || SYNCED_FIELDS.some(f => !sameFieldValue(local[f], base[f]))
+        db.prepare('UPDATE papers SET dirty = ? WHERE id = ?').run(dirty && updated.dirty ? 1 : 0, id)
+    })()
+}
+
 /** 
  * Delete a paper from the database (cascades to annotations/tags/folders) 
  * and remove its PDF file from disk.
@@ -223,10 +383,83 @@ export function deletePaper(id: string): void {
     }
 }
 
-/** 
- * Manually update a paper's metadata. 
+/** Fields a user may edit by hand (PDF and Zotero linkage have their own paths) */
+export type UpdatePaperInput = Partial<Pick<CreatePaperInput, 'title' | 'year' | 'doi' | 'journal' | 'abstract' | 'authors'>>
+
+const DOI_PATTERN = /^10\.\d{4,9}\/\S+$/
+
+/** Strip resolver prefixes ("https://doi.org/", "doi:") and validate the DOI */
+function normalizeDoi(doi: string | null | undefined): string | null {
+    const trimmed = (doi ?? '').trim().replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/i, '')
+    if (!trimmed) return null
+    if (!DOI_PATTERN.test(trimmed)) {
+        throw new Error(`"${trimmed}" is not a valid DOI (expected something like 10.1000/xyz123)`)
+    }
+    return trimmed
+}
+
+function validateYear(year: number | null | undefined): number | null {
+    if (year === null || year === undefined) return null
+    const maxYear = new Date().getFullYear() + 1
+    if (!Number.isInteger(year) || year < 1000 || year > maxYear) {
+        throw new Error(`Year must be a whole number between 1000 and ${maxYear}`)
+    }
+    return year
+}
+
+/**
+ * Manually update a paper's metadata.
+ * Only the fields present in `updates` change; `authors` replaces the whole
+ * author list. Marks the paper dirty so a later Zotero sync knows there is
+ * a local edit.
  */
-export function updatePaper(id: string, updates: Partial<CreatePaperInput>): void { }
+export function updatePaper(id: string, updates: UpdatePaperInput): PaperWithAuthors {
+    const db = getDb()
+    if (!getPaperById(id)) throw new Error(`Paper with id ${id} not found`)
+
+    const columns: string[] = []
+    const values: Array<string | number | null> = []
+
+    if (updates.title !== undefined) {
+        const title = (updates.title ?? '').trim()
+        if (!title) throw new Error('Title cannot be empty')
+        columns.push('title = ?')
+        values.push(title)
+    }
+    if (updates.year !== undefined) {
+        columns.push('year = ?')
+        values.push(validateYear(updates.year))
+    }
+    if (updates.doi !== undefined) {
+        columns.push('doi = ?')
+        values.push(normalizeDoi(updates.doi))
+    }
+    if (updates.journal !== undefined) {
+        columns.push('journal = ?')
+        values.push(updates.journal?.trim() || null)
+    }
+    if (updates.abstract !== undefined) {
+        columns.push('abstract = ?')
+        values.push(updates.abstract?.trim() || null)
+    }
+
+    // Trim, drop blanks and de-duplicate (paper_authors is keyed by author)
+    const authors = updates.authors !== undefined
+        ? [...new Set((updates.authors ?? []).map(a => a.trim()).filter(Boolean))]
+        : null
+
+    db.transaction(() => {
+        columns.push("date_modified = datetime('now')", 'dirty = 1')
+        db.prepare(`UPDATE papers SET ${columns.join(', ')} WHERE id = ?`).run(...values, id)
+
+        if (authors) {
+            db.prepare('DELETE FROM paper_authors WHERE paper_id = ?').run(id)
+            insertAuthorsForPaper(db, id, authors)
+        }
+    })()
+
+    return getPaper(id)!
+}
 
 /**
  * Manually attach a PDF to a paper, copying it from a source path to the app's data directory.
@@ -284,6 +517,150 @@ export function removePdfFromPaper(paperId: string): void {
 }
 
 
+/** Metadata filled from a duplicate when the kept paper lacks it */
+const MERGE_FILL_COLUMNS = ['year', 'doi', 'journal', 'abstract'] as const
+
+function pdfPathIfPresent(filename: string | null): string | null {
+    if (!filename) return null
+    const pdfPath = join(getPdfDir(), basename(filename))
+    return existsSync(pdfPath) ? pdfPath : null
+}
+
+/**
+ * Merge duplicate papers into a canonical one, then delete the duplicates.
+ *   - Annotations, folders, screening decisions, risk-of-bias assessments,
+ *     extracted data and meta-analysis rows move to the kept paper (where it
+ *     already has a decision for that stage and reviewer, an assessment with
+ *     that tool and outcome, or a value for that field and arm, its own wins)
+ *   - Authors and empty metadata fields are taken from the first duplicate
+ *     that has them
+ *   - The better PDF is kept: the one carrying the most highlights (their
+ *     positions belong to that file), then the larger file
+ *   - Duplicates' import records count as duplicates in the PRISMA flow, and
+ *     their Zotero keys are remembered so sync doesn't bring them back
+ */
+export function mergePapers(canonicalId: string, duplicateIds: string[]): PaperWithAuthors {
+    const db = getDb()
+    const canonical = getPaperById(canonicalId)
+    if (!canonical) throw new Error(`Paper with id ${canonicalId} not found`)
+
+    const duplicates = [...new Set(duplicateIds)]
+        .filter(id => id !== canonicalId)
+        .map(id => {
+            const paper = getPaperById(id)
+            if (!paper) throw new Error(`Paper with id ${id} not found`)
+            return paper
+        })
+    if (duplicates.length === 0) throw new Error('Choose at least one duplicate to merge')
+
+    // Pick the PDF to keep before anything moves
+    const countAnnotations = db.prepare('SELECT COUNT(*) as count FROM annotations WHERE paper_id = ?')
+    const pdfCandidates = [canonical, ...duplicates]
+        .flatMap(paper => {
+            const pdfPath = pdfPathIfPresent(paper.pdf_filename)
+            if (!pdfPath) return []
+            return [{
+                paper,
+                annotations: (countAnnotations.get(paper.id) as { count: number }).count,
+                size: statSync(pdfPath).size
+            }]
+        })
+        .sort((a, b) => b.annotations - a.annotations || b.size - a.size)
+    const keptPdf = pdfCandidates[0]?.paper ?? null
+    const discardedPdfs = [canonical, ...duplicates]
+        .filter(p => p.pdf_filename && p.pdf_filename !== keptPdf?.pdf_filename)
+        .map(p => p.pdf_filename!)
+
+    const hasImportRecord = db.prepare("SELECT 1 FROM identified_records WHERE paper_id = ? AND status = 'imported'")
+
+    db.transaction(() => {
+        const filled: Partial<Record<typeof MERGE_FILL_COLUMNS[number], unknown>> = {}
+        let zoteroKey = canonical.zotero_key
+        let zoteroLibrary = canonical.zotero_library
+        let zoteroVersion = canonical.zotero_version
+        let zoteroSynced = canonical.zotero_synced
+        let citationKey = canonical.citation_key
+
+        for (const dup of duplicates) {
+            for (const column of MERGE_FILL_COLUMNS) {
+                if (canonical[column] == null && filled[column] == null && dup[column] != null) {
+                    filled[column] = dup[column]
+                }
+            }
+
+            // Unique columns are released on the duplicate before the kept paper takes them
+            if (dup.zotero_key) {
+                db.prepare('UPDATE papers SET zotero_key = NULL WHERE id = ?').run(dup.id)
+                if (!zoteroKey) {
+                    zoteroKey = dup.zotero_key
+                    zoteroLibrary = dup.zotero_library
+                    zoteroVersion = dup.zotero_version
+                    zoteroSynced = dup.zotero_synced
+                    db.prepare('UPDATE zotero_notes SET paper_id = ? WHERE paper_id = ?').run(canonicalId, dup.id)
+                } else {
+                    db.prepare(
+                        'INSERT OR REPLACE INTO zotero_key_aliases (zotero_key, zotero_library, paper_id) VALUES (?, ?, ?)'
+                    ).run(dup.zotero_key, dup.zotero_library, canonicalId)
+                }
+            }
+            if (dup.citation_key && !citationKey) {
+                db.prepare('UPDATE papers SET citation_key = NULL WHERE id = ?').run(dup.id)
+                citationKey = dup.citation_key
+            }
+
+            db.prepare('UPDATE annotations SET paper_id = ? WHERE paper_id = ?').run(canonicalId, dup.id)
+            db.prepare(
+                'INSERT OR IGNORE INTO paper_folders (paper_id, folder_id) SELECT ?, folder_id FROM paper_folders WHERE paper_id = ?'
+            ).run(canonicalId, dup.id)
+            if (getAuthorsForPaper(canonicalId).length === 0) {
+                db.prepare('UPDATE paper_authors SET paper_id = ? WHERE paper_id = ?').run(canonicalId, dup.id)
+            }
+            db.prepare('UPDATE OR IGNORE screening_decisions SET paper_id = ? WHERE paper_id = ?').run(canonicalId, dup.id)
+            db.prepare('UPDATE OR IGNORE screening_resolutions SET paper_id = ? WHERE paper_id = ?').run(canonicalId, dup.id)
+            db.prepare('UPDATE OR IGNORE rob_assessments SET paper_id = ? WHERE paper_id = ?').run(canonicalId, dup.id)
+            mergeExtractionData(canonicalId, dup.id)
+            db.prepare('UPDATE meta_studies SET paper_id = ? WHERE paper_id = ?').run(canonicalId, dup.id)
+            db.prepare('UPDATE zotero_key_aliases SET paper_id = ? WHERE paper_id = ?').run(canonicalId, dup.id)
+
+            // The kept paper keeps (or inherits) the "imported" record; the rest become duplicates
+            db.prepare(`
+                UPDATE identified_records
+                SET paper_id = ?, status = CASE WHEN status = 'imported' AND ? THEN 'duplicate' ELSE status END
+                WHERE paper_id = ?
+            `).run(canonicalId, hasImportRecord.get(canonicalId) ? 1 : 0, dup.id)
+
+            db.prepare('DELETE FROM papers WHERE id = ?').run(dup.id)
+        }
+
+        const columns = ['zotero_key = ?', 'zotero_library = ?', 'zotero_version = ?', 'zotero_synced = ?', 'citation_key = ?', 'pdf_filename = ?', 'full_text = ?']
+        const values: unknown[] = [
+            zoteroKey, zoteroLibrary, zoteroVersion, zoteroSynced, citationKey,
+            keptPdf ? keptPdf.pdf_filename : canonical.pdf_filename,
+            keptPdf ? keptPdf.full_text : canonical.full_text
+        ]
+        for (const [column, value] of Object.entries(filled)) {
+            columns.push(`${column} = ?`)
+            values.push(value)
+        }
+        // Filled-in metadata is a local edit as far as Zotero is concerned
+        if (Object.keys(filled).length > 0) columns.push('dirty = 1')
+        columns.push("date_modified = datetime('now')")
+        db.prepare(`UPDATE papers SET ${columns.join(', ')} WHERE id = ?`).run(...values, canonicalId)
+    })()
+
+    for (const filename of discardedPdfs) {
+        const pdfPath = pdfPathIfPresent(filename)
+        if (!pdfPath) continue
+        try {
+            unlinkSync(pdfPath)
+        } catch (err) {
+            console.error(`[Papers] Failed to delete merged PDF ${pdfPath}:`, err)
+        }
+    }
+
+    console.log(`[Papers] Merged ${duplicates.length} duplicate(s) into ${canonicalId}`)
+    return getPaper(canonicalId)!
+}
 
 /** Helper: insert authors for a paper */
 function insertAuthorsForPaper(db: ReturnType<typeof getDb>, paperId: string, authors: string[]): void {
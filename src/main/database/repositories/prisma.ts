@@ -0,0 +1,239 @@
+// ============================================================================
+// ThreadMed — PRISMA Flow Repository (better-sqlite3)
+// ============================================================================
+// Records where each record of the review came from so the PRISMA 2020 flow
+// can be counted instead of tallied by hand:
+//   - search_sources:     databases, registers and other identification methods
+//   - identified_records: one row per record a source returned, whether it
+//                         became a paper, was a duplicate or was removed
+// Screening counts come from the final screening decisions (see screening.ts).
+// Papers added without an import (manually, from Zotero) have no identified
+// record; they are reported under "Other methods" until assigned a source.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '../connection'
+import { FINAL_DECISIONS_CTE, getFinalScreeningCounts } from './screening'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type SearchSourceKind = 'database' | 'register' | 'other'
+export type IdentifiedRecordStatus = 'imported' | 'duplicate' | 'removed'
+
+const SOURCE_KINDS: SearchSourceKind[] = ['database', 'register', 'other']
+
+export interface SearchSource {
+    id: string
+    name: string
+    kind: SearchSourceKind
+    created_at: string
+    /** Records identified by this source */
+    record_count: number
+}
+
+export interface IdentifiedRecordInput {
+    status: IdentifiedRecordStatus
+    paper_id?: string | null
+    title?: string | null
+}
+
+export interface PrismaSourceCount {
+    /** Null for papers with no recorded source */
+    id: string | null
+    name: string
+    kind: SearchSourceKind
+    records: number
+}
+
+export interface PrismaReasonCount {
+    reason: string
+    count: number
+}
+
+export interface PrismaFlow {
+    sources: PrismaSourceCount[]
+    identified: number
+    duplicates_removed: number
+    other_removed: number
+    screened: number
+    screening_excluded: number
+    /** Records without a final title/abstract decision yet */
+    screening_awaiting: number
+    sought: number
+    /** Reports still to be decided at full text that have no PDF attached */
+    not_retrieved: number
+    assessed: number
+    full_text_excluded: PrismaReasonCount[]
+    full_text_excluded_total: number
+    /** Reports assessed but without a final include or exclude yet */
+    full_text_awaiting: number
+    included: number
+    /** Papers with no recorded source (counted in sources as "Other methods") */
+    unsourced: number
+}
+
+export const UNSOURCED_LABEL = 'No recorded source'
+
+// ── Sources ──────────────────────────────────────────────────────────────────
+
+function assertKind(kind: string): asserts kind is SearchSourceKind {
+    if (!SOURCE_KINDS.includes(kind as SearchSourceKind)) {
+        throw new Error(`Unknown source type: ${kind}`)
+    }
+}
+
+export function listSearchSources(): SearchSource[] {
+    const db = getDb()
+    return db.prepare(`
+        SELECT s.*, COUNT(r.id) as record_count
+        FROM search_sources s
+        LEFT JOIN identified_records r ON r.source_id = s.id
+        GROUP BY s.id
+        ORDER BY s.created_at, s.rowid
+    `).all() as SearchSource[]
+}
+
+function getSearchSource(id: string): SearchSource | null {
+    return listSearchSources().find(s => s.id === id) ?? null
+}
+
+/** Find a source by name (case-insensitive), creating it when missing */
+export function getOrCreateSearchSource(name: string, kind: SearchSourceKind = 'database'): SearchSource {
+    const db = getDb()
+    const trimmed = name.trim()
+    if (!trimmed) throw new Error('Source name cannot be empty')
+    assertKind(kind)
+
+    const existing = db.prepare('SELECT id FROM search_sources WHERE name = ? COLLATE NOCASE').get(trimmed) as { id: string } | undefined
+    if (existing) return getSearchSource(existing.id)!
+
+    const id = uuidv4()
+    db.prepare('INSERT INTO search_sources (id, name, kind) VALUES (?, ?, ?)').run(id, trimmed, kind)
+    return getSearchSource(id)!
+}
+
+export function updateSearchSource(id: string, data: { name?: string; kind?: SearchSourceKind }): SearchSource | null {
+    const db = getDb()
+    if (data.kind !== undefined) {
+        assertKind(data.kind)
+        db.prepare('UPDATE search_sources SET kind = ? WHERE id = ?').run(data.kind, id)
+    }
+    if (data.name !== undefined) {
+        const trimmed = data.name.trim()
+        if (!trimmed) throw new Error('Source name cannot be empty')
+        const collision = db.prepare(
+            'SELECT id FROM search_sources WHERE name = ? COLLATE NOCASE AND id != ?'
+        ).get(trimmed, id)
+        if (collision) throw new Error(`A source named "${trimmed}" already exists`)
+        db.prepare('UPDATE search_sources SET name = ? WHERE id = ?').run(trimmed, id)
+    }
+    return getSearchSource(id)
+}
+
+/** Delete a source and the records it identified (papers are kept) */
+export function deleteSearchSource(id: string): boolean {
+    const db = getDb()
+    const result = db.prepare('DELETE FROM search_sources WHERE id = ?').run(id)
+    return result.changes > 0
+}
+
+// ── Identified Records ───────────────────────────────────────────────────────
+
+/** Record what happened to every record a source returned */
+export function addIdentifiedRecords(sourceId: string, records: IdentifiedRecordInput[]): void {
+    const db = getDb()
+    const insert = db.prepare(
+        'INSERT INTO identified_records (id, source_id, paper_id, status, title) VALUES (?, ?, ?, ?, ?)'
+    )
+    db.transaction(() => {
+        for (const record of records) {
+            insert.run(uuidv4(), sourceId, record.paper_id ?? null, record.status, record.title ?? null)
+        }
+    })()
+}
+
+/** Attribute every paper without a recorded source to the given source */
+export function assignUnsourcedPapers(sourceId: string): number {
+    const db = getDb()
+    if (!getSearchSource(sourceId)) throw new Error('Source not found')
+
+    const papers = db.prepare(`
+        SELECT p.id, p.title FROM papers p
+        WHERE p.archived = 0 AND NOT EXISTS (
+            SELECT 1 FROM identified_records r WHERE r.paper_id = p.id AND r.status = 'imported'
+        )
+    `).all() as Array<{ id: string; title: string }>
+
+    addIdentifiedRecords(sourceId, papers.map(p => ({ status: 'imported', paper_id: p.id, title: p.title })))
+    return papers.length
+}
+
+// ── Flow Counts ──────────────────────────────────────────────────────────────
+
+export function getPrismaFlow(): PrismaFlow {
+    const db = getDb()
+
+    const sources: PrismaSourceCount[] = listSearchSources()
+        .filter(s => s.record_count > 0)
+        .map(s => ({ id: s.id, name: s.name, kind: s.kind, records: s.record_count }))
+
+    const { unsourced } = db.prepare(`
+        SELECT COUNT(*) as unsourced FROM papers p
+        WHERE p.archived = 0 AND NOT EXISTS (
+            SELECT 1 FROM identified_records r WHERE r.paper_id = p.id AND r.status = 'imported'
+        )
+    `).get() as { unsourced: number }
+    if (unsourced > 0) {
+        sources.push({ id: null, name: UNSOURCED_LABEL, kind: 'other', records: unsourced })
+    }
+
+    const removed = db.prepare(`
+        SELECT COALESCE(SUM(status = 'duplicate'), 0) as duplicates,
+               COALESCE(SUM(status = 'removed'), 0) as other
+        FROM identified_records
+    `).get() as { duplicates: number; other: number }
+
+    const titleAbstract = getFinalScreeningCounts('title_abstract')
+    const fullText = getFinalScreeningCounts('full_text')
+
+    const { not_retrieved } = db.prepare(`
+        WITH ${FINAL_DECISIONS_CTE}
+        SELECT COUNT(*) as not_retrieved
+        FROM papers p
+        JOIN final ta ON ta.paper_id = p.id AND ta.stage = 'title_abstract' AND ta.decision IN ('include', 'maybe')
+        LEFT JOIN final ft ON ft.paper_id = p.id AND ft.stage = 'full_text'
+        WHERE p.archived = 0 AND (p.pdf_filename IS NULL OR p.pdf_filename = '')
+          AND (ft.decision IS NULL OR ft.decision = 'maybe')
+    `).get() as { not_retrieved: number }
+
+    const fullTextExcluded = db.prepare(`
+        WITH ${FINAL_DECISIONS_CTE}
+        SELECT COALESCE(er.name, 'No reason given') as reason, COUNT(*) as count
+        FROM final f
+        JOIN papers p ON p.id = f.paper_id
+        JOIN final ta ON ta.paper_id = f.paper_id AND ta.stage = 'title_abstract' AND ta.decision IN ('include', 'maybe')
+        LEFT JOIN exclusion_reasons er ON er.id = f.reason_id
+        WHERE f.stage = 'full_text' AND f.decision = 'exclude' AND p.archived = 0
+        GROUP BY f.reason_id
+        ORDER BY count DESC, er.sort_order
+    `).all() as PrismaReasonCount[]
+
+    const assessed = fullText.total - not_retrieved
+    return {
+        sources,
+        identified: sources.reduce((sum, s) => sum + s.records, 0),
+        duplicates_removed: removed.duplicates,
+        other_removed: removed.other,
+        screened: titleAbstract.total,
+        screening_excluded: titleAbstract.exclude,
+        screening_awaiting: titleAbstract.undecided,
+        sought: fullText.total,
+        not_retrieved,
+        assessed,
+        full_text_excluded: fullTextExcluded,
+        full_text_excluded_total: fullText.exclude,
+        full_text_awaiting: assessed - fullText.exclude - fullText.include,
+        included: fullText.include,
+        unsourced
+    }
+}
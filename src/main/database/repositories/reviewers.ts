@@ -0,0 +1,90 @@
+// ============================================================================
+// ThreadMed — Reviewers Repository (better-sqlite3)
+// ============================================================================
+// Reviewer profiles identify who recorded a screening decision. Every project
+// has at least one; the active reviewer (stored in sync_meta so it travels
+// with the project folder) is the one new decisions are attributed to.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '../connection'
+
+export interface Reviewer {
+    id: string
+    name: string
+    created_at: string
+}
+
+const ACTIVE_REVIEWER_KEY = 'active_reviewer_id'
+
+/** List reviewers in creation order (the first two form the screening pair) */
+export function listReviewers(): Reviewer[] {
+    const db = getDb()
+    return db.prepare('SELECT * FROM reviewers ORDER BY created_at, rowid').all() as Reviewer[]
+}
+
+export function getReviewer(id: string): Reviewer | null {
+    const db = getDb()
+    return (db.prepare('SELECT * FROM reviewers WHERE id = ?').get(id) as Reviewer | undefined) ?? null
+}
+
+/** The reviewer decisions are attributed to; falls back to the first profile */
+export function getActiveReviewer(): Reviewer {
+    const db = getDb()
+    const row = db.prepare('SELECT value FROM sync_meta WHERE key = ?').get(ACTIVE_REVIEWER_KEY) as { value: string } | undefined
+    const active = row ? getReviewer(row.value) : null
+    if (active) return active
+
+    const first = listReviewers()[0]
+    if (!first) throw new Error('This project has no reviewer profiles')
+    setActiveReviewer(first.id)
+    return first
+}
+
+export function setActiveReviewer(id: string): Reviewer {
+    const reviewer = getReviewer(id)
+    if (!reviewer) throw new Error('Reviewer not found')
+    const db = getDb()
+    db.prepare(
+        'INSERT INTO sync_meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+    ).run(ACTIVE_REVIEWER_KEY, id)
+    return reviewer
+}
+
+/** Create a reviewer profile (names are unique, case-insensitive) */
+export function createReviewer(name: string): Reviewer {
+    const db = getDb()
+    const trimmed = name.trim()
+    if (!trimmed) throw new Error('Reviewer name cannot be empty')
+
+    const collision = db.prepare('SELECT id FROM reviewers WHERE name = ? COLLATE NOCASE').get(trimmed)
+    if (collision) throw new Error(`A reviewer named "${trimmed}" already exists`)
+
+    const id = uuidv4()
+    db.prepare('INSERT INTO reviewers (id, name) VALUES (?, ?)').run(id, trimmed)
+    return getReviewer(id)!
+}
+
+export function renameReviewer(id: string, name: string): Reviewer | null {
+    const db = getDb()
+    const trimmed = name.trim()
+    if (!trimmed) throw new Error('Reviewer name cannot be empty')
+
+    const collision = db.prepare(
+        'SELECT id FROM reviewers WHERE name = ? COLLATE NOCASE AND id != ?'
+    ).get(trimmed, id)
+    if (collision) throw new Error(`A reviewer named "${trimmed}" already exists`)
+
+    const result = db.prepare('UPDATE reviewers SET name = ? WHERE id = ?').run(trimmed, id)
+    return result.changes > 0 ? getReviewer(id) : null
+}
+
+/** Delete a reviewer and their screening decisions; the active reviewer cannot be deleted */
+export function deleteReviewer(id: string): boolean {
+    if (getActiveReviewer().id === id) {
+        throw new Error('Switch to another reviewer before deleting this profile')
+    }
+    const db = getDb()
+    const result = db.prepare('DELETE FROM reviewers WHERE id = ?').run(id)
+    return result.changes > 0
+}
@@ -0,0 +1,217 @@
+// ============================================================================
+// ThreadMed — Risk of Bias Repository (better-sqlite3)
+// ============================================================================
+// Stores risk-of-bias assessments as the reviewer entered them:
+//   - rob_assessments:       one per paper, tool and outcome
+//   - rob_responses:         answers to the tool's signalling questions
+//   - rob_domain_judgements: support for judgement and overrides per domain
+//   - rob_evidence:          annotations quoted as support for a domain
+// Judgements are not stored; services/rob-tools.ts derives them from the
+// answers so a corrected algorithm or answer is reflected everywhere.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '../connection'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface RobAssessment {
+    id: string
+    paper_id: string
+    paper_title: string
+    tool: string
+    /** The result being assessed, e.g. "Mortality at 12 months"; empty for the whole study */
+    outcome: string
+    overall_override: string | null
+    notes: string
+    created_at: string
+    updated_at: string
+}
+
+export interface RobDomainRecord {
+    domain_id: string
+    judgement_override: string | null
+    support: string
+}
+
+export interface RobEvidence {
+    domain_id: string
+    annotation_id: string
+    content: string
+    page_number: number
+    node_name: string
+    node_color: string
+}
+
+export interface RobAssessmentRecord extends RobAssessment {
+    /** Answers keyed by question id */
+    answers: Record<string, string>
+    domains: RobDomainRecord[]
+    evidence: RobEvidence[]
+}
+
+const ASSESSMENT_SELECT = `
+    SELECT r.*, p.title as paper_title
+    FROM rob_assessments r
+    JOIN papers p ON p.id = r.paper_id
+`
+
+function touch(id: string): void {
+    getDb().prepare("UPDATE rob_assessments SET updated_at = datetime('now') WHERE id = ?").run(id)
+}
+
+function requireAssessment(id: string): RobAssessment {
+    const assessment = getDb().prepare(`${ASSESSMENT_SELECT} WHERE r.id = ?`).get(id) as RobAssessment | undefined
+    if (!assessment) throw new Error('Assessment not found')
+    return assessment
+}
+
+// ── Assessments ──────────────────────────────────────────────────────────────
+
+/** All assessments, optionally for one tool, ordered by paper title then outcome */
+export function listRobAssessments(tool?: string): RobAssessment[] {
+    const db = getDb()
+    if (tool) {
+        return db.prepare(`${ASSESSMENT_SELECT} WHERE r.tool = ? ORDER BY p.title, r.outcome`).all(tool) as RobAssessment[]
+    }
+    return db.prepare(`${ASSESSMENT_SELECT} ORDER BY p.title, r.tool, r.outcome`).all() as RobAssessment[]
+}
+
+export function getRobAssessmentRecord(id: string): RobAssessmentRecord | null {
+    const db = getDb()
+    const assessment = db.prepare(`${ASSESSMENT_SELECT} WHERE r.id = ?`).get(id) as RobAssessment | undefined
+    if (!assessment) return null
+
+    const responses = db.prepare(
+        'SELECT question_id, answer FROM rob_responses WHERE assessment_id = ?'
+    ).all(id) as Array<{ question_id: string; answer: string }>
+
+    const domains = db.prepare(
+        'SELECT domain_id, judgement_override, support FROM rob_domain_judgements WHERE assessment_id = ?'
+    ).all(id) as RobDomainRecord[]
+
+    const evidence = db.prepare(`
+        SELECT e.domain_id, e.annotation_id, a.content, a.page_number, n.name as node_name, n.color as node_color
+        FROM rob_evidence e
+        JOIN annotations a ON a.id = e.annotation_id
+        JOIN nodes n ON n.id = a.node_id
+        WHERE e.assessment_id = ?
+        ORDER BY a.page_number, a.created_at
+    `).all(id) as RobEvidence[]
+
+    return {
+        ...assessment,
+        answers: Object.fromEntries(responses.map(r => [r.question_id, r.answer])),
+        domains,
+        evidence
+    }
+}
+
+export function createRobAssessment(paperId: string, tool: string, outcome = ''): RobAssessment {
+    const db = getDb()
+    const trimmed = outcome.trim()
+    const existing = db.prepare(
+        'SELECT id FROM rob_assessments WHERE paper_id = ? AND tool = ? AND outcome = ?'
+    ).get(paperId, tool, trimmed)
+    if (existing) {
+        throw new Error(trimmed
+            ? `This paper already has an assessment for "${trimmed}" with this tool`
+            : 'This paper already has an assessment with this tool')
+    }
+
+    const id = uuidv4()
+    db.prepare('INSERT INTO rob_assessments (id, paper_id, tool, outcome) VALUES (?, ?, ?, ?)').run(id, paperId, tool, trimmed)
+    return requireAssessment(id)
+}
+
+export function updateRobAssessment(
+    id: string,
+    data: { outcome?: string; overall_override?: string | null; notes?: string }
+): RobAssessment {
+    const db = getDb()
+    const assessment = requireAssessment(id)
+
+    if (data.outcome !== undefined) {
+        const trimmed = data.outcome.trim()
+        const collision = db.prepare(
+            'SELECT id FROM rob_assessments WHERE paper_id = ? AND tool = ? AND outcome = ? AND id != ?'
+        ).get(assessment.paper_id, assessment.tool, trimmed, id)
+        if (collision) throw new Error('This paper already has an assessment for that outcome with this tool')
+        db.prepare('UPDATE rob_assessments SET outcome = ? WHERE id = ?').run(trimmed, id)
+    }
+    if (data.overall_override !== undefined) {
+        db.prepare('UPDATE rob_assessments SET overall_override = ? WHERE id = ?').run(data.overall_override, id)
+    }
+    if (data.notes !== undefined) {
+        db.prepare('UPDATE rob_assessments SET notes = ? WHERE id = ?').run(data.notes, id)
+    }
+
+    touch(id)
+    return requireAssessment(id)
+}
+
+export function deleteRobAssessment(id: string): boolean {
+    const result = getDb().prepare('DELETE FROM rob_assessments WHERE id = ?').run(id)
+    return result.changes > 0
+}
+
+// ── Answers & Domains ────────────────────────────────────────────────────────
+
+/** Record an answer to a signalling question; null clears it */
+export function setRobAnswer(id: string, questionId: string, answer: string | null): void {
+    const db = getDb()
+    requireAssessment(id)
+    if (answer === null) {
+        db.prepare('DELETE FROM rob_responses WHERE assessment_id = ? AND question_id = ?').run(id, questionId)
+    } else {
+        db.prepare(`
+            INSERT INTO rob_responses (assessment_id, question_id, answer) VALUES (?, ?, ?)
+            ON CONFLICT(assessment_id, question_id) DO UPDATE SET answer = excluded.answer
+        `).run(id, questionId, answer)
+    }
+    touch(id)
+}
+
+export function setRobDomain(
+    id: string,
+    domainId: string,
+    data: { judgement_override?: string | null; support?: string }
+): void {
+    const db = getDb()
+    requireAssessment(id)
+    db.prepare('INSERT OR IGNORE INTO rob_domain_judgements (assessment_id, domain_id) VALUES (?, ?)').run(id, domainId)
+    if (data.judgement_override !== undefined) {
+        db.prepare(
+            'UPDATE rob_domain_judgements SET judgement_override = ? WHERE assessment_id = ? AND domain_id = ?'
+        ).run(data.judgement_override, id, domainId)
+    }
+    if (data.support !== undefined) {
+        db.prepare(
+            'UPDATE rob_domain_judgements SET support = ? WHERE assessment_id = ? AND domain_id = ?'
+        ).run(data.support, id, domainId)
+    }
+    touch(id)
+}
+
+// ── Evidence ─────────────────────────────────────────────────────────────────
+
+/** Quote one of the paper's annotations as support for a domain judgement */
+export function addRobEvidence(id: string, domainId: string, annotationId: string): void {
+    const db = getDb()
+    const assessment = requireAssessment(id)
+    const annotation = db.prepare('SELECT paper_id FROM annotations WHERE id = ?').get(annotationId) as { paper_id: string } | undefined
+    if (!annotation) throw new Error('Annotation not found')
+    if (annotation.paper_id !== assessment.paper_id) throw new Error('Evidence must come from the assessed paper')
+
+    db.prepare(
+        'INSERT OR IGNORE INTO rob_evidence (assessment_id, domain_id, annotation_id) VALUES (?, ?, ?)'
+    ).run(id, domainId, annotationId)
+    touch(id)
+}
+
+export function removeRobEvidence(id: string, domainId: string, annotationId: string): void {
+    getDb().prepare(
+        'DELETE FROM rob_evidence WHERE assessment_id = ? AND domain_id = ? AND annotation_id = ?'
+    ).run(id, domainId, annotationId)
+    touch(id)
+}
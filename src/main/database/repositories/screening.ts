@@ -0,0 +1,570 @@
+// ============================================================================
+// ThreadMed — Screening Repository (better-sqlite3)
+// ============================================================================
+// Systematic review screening happens in two stages:
+//   - title_abstract: every paper in the library is screened on its record
+//   - full_text:      papers included (or marked maybe) at title/abstract
+// Each reviewer records at most one decision per paper and stage; reviewers
+// only ever see their own decisions (blinding). A paper's final decision is
+// the reviewers' unanimous decision once the screening pair has both decided,
+// or the resolution recorded for a conflict. Exclusions must cite a reason
+// from the project's configurable list so they can be reported in PRISMA.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '../connection'
+import { getActiveReviewer, listReviewers, type Reviewer } from './reviewers'
+
+export type ScreeningStage = 'title_abstract' | 'full_text'
+export type ScreeningDecisionValue = 'include' | 'exclude' | 'maybe'
+
+export const SCREENING_STAGES: ScreeningStage[] = ['title_abstract', 'full_text']
+const DECISIONS: ScreeningDecisionValue[] = ['include', 'exclude', 'maybe']
+
+export interface ExclusionReason {
+    id: string
+    name: string
+    sort_order: number
+    /** Number of decisions and resolutions citing this reason */
+    usage_count: number
+}
+
+export interface ScreeningDecision {
+    id: string
+    paper_id: string
+    reviewer_id: string
+    stage: ScreeningStage
+    decision: ScreeningDecisionValue
+    reason_id: string | null
+    note: string | null
+    created_at: string
+    updated_at: string
+}
+
+/** A paper as shown in the screening view, with the active reviewer's decision */
+export interface ScreeningRecord {
+    paper_id: string
+    title: string
+    abstract: string | null
+    year: number | null
+    journal: string | null
+    doi: string | null
+    authors: string[]
+    decision: ScreeningDecisionValue | null
+    reason_id: string | null
+    reason_name: string | null
+    note: string | null
+}
+
+export interface ScreeningProgress {
+    stage: ScreeningStage
+    total: number
+    include: number
+    exclude: number
+    maybe: number
+    undecided: number
+    /** True while the counts are only the active reviewer's own decisions */
+    blinded: boolean
+}
+
+/** One reviewer's side of a disagreement */
+export interface ConflictingDecision {
+    reviewer_id: string
+    reviewer_name: string
+    decision: ScreeningDecisionValue
+    reason_id: string | null
+    reason_name: string | null
+    note: string | null
+}
+
+export interface ScreeningResolution {
+    decision: ScreeningDecisionValue
+    reason_id: string | null
+    reason_name: string | null
+    note: string | null
+    resolved_by_name: string | null
+    resolved_at: string
+}
+
+export interface ScreeningConflict {
+    paper_id: string
+    title: string
+    year: number | null
+    decisions: ConflictingDecision[]
+    resolution: ScreeningResolution | null
+}
+
+export interface ReviewerProgress {
+    reviewer_id: string
+    reviewer_name: string
+    decided: number
+}
+
+/** Inter-rater agreement between the screening pair at one stage */
+export interface ScreeningAgreement {
+    stage: ScreeningStage
+    /** Papers eligible for the stage */
+    eligible: number
+    reviewers: ReviewerProgress[]
+    /** True once both reviewers have decided every eligible paper */
+    unblinded: boolean
+    /** The statistics below are null while blinded */
+    compared: number | null
+    agreements: number | null
+    percent_agreement: number | null
+    /** Cohen's kappa over include / maybe / exclude; null when undefined */
+    kappa: number | null
+    conflicts: ScreeningConflict[]
+}
+
+export interface SetScreeningDecisionInput {
+    paperId: string
+    stage: ScreeningStage
+    decision: ScreeningDecisionValue
+    /** Required when decision is 'exclude', ignored otherwise */
+    reasonId?: string | null
+    note?: string | null
+}
+
+function assertStage(stage: string): asserts stage is ScreeningStage {
+    if (!SCREENING_STAGES.includes(stage as ScreeningStage)) {
+        throw new Error(`Unknown screening stage: ${stage}`)
+    }
+}
+
+/**
+ * SQL common table expression `final(paper_id, stage, decision, reason_id)`.
+ * A resolution always wins; otherwise the decision is final when at least
+ * two reviewers (or the only one) decided and all of them agree. At full
+ * text, exclusions must also agree on the reason since PRISMA reports it.
+ */
+export const FINAL_DECISIONS_CTE = `final AS (
+    SELECT paper_id, stage, decision, reason_id FROM screening_resolutions
+    UNION ALL
+    SELECT d.paper_id, d.stage, MIN(d.decision), MIN(d.reason_id)
+    FROM screening_decisions d
+    WHERE NOT EXISTS (
+        SELECT 1 FROM screening_resolutions r WHERE r.paper_id = d.paper_id AND r.stage = d.stage
+    )
+    GROUP BY d.paper_id, d.stage
+    HAVING COUNT(DISTINCT d.decision) = 1
+        AND (d.stage = 'title_abstract' OR COUNT(DISTINCT COALESCE(d.reason_id, '')) = 1)
+        AND COUNT(*) >= (SELECT MIN(2, COUNT(*)) FROM reviewers)
+)`
+
+/**
+ * SQL condition selecting the papers eligible for a stage (alias `p`,
+ * requires FINAL_DECISIONS_CTE). Archived papers are never eligible;
+ * full-text screening only sees papers finally kept at title/abstract.
+ */
+function eligibleCondition(stage: ScreeningStage): string {
+    if (stage === 'title_abstract') return 'p.archived = 0'
+    return `p.archived = 0 AND EXISTS (
+        SELECT 1 FROM final ta
+        WHERE ta.paper_id = p.id AND ta.stage = 'title_abstract' AND ta.decision IN ('include', 'maybe')
+    )`
+}
+
+/** Same rule as FINAL_DECISIONS_CTE: do two decisions count as a conflict? */
+function disagree(
+    stage: ScreeningStage,
+    a: { decision: string; reason_id: string | null },
+    b: { decision: string; reason_id: string | null }
+): boolean {
+    if (a.decision !== b.decision) return true
+    return stage === 'full_text' && a.decision === 'exclude' && a.reason_id !== b.reason_id
+}
+
+function validateDecision(decision: ScreeningDecisionValue, reasonId: string | null | undefined): string | null {
+    if (!DECISIONS.includes(decision)) throw new Error(`Unknown screening decision: ${decision}`)
+    if (decision !== 'exclude') return null
+
+    if (!reasonId) throw new Error('An exclusion reason is required')
+    const reason = getDb().prepare('SELECT id FROM exclusion_reasons WHERE id = ?').get(reasonId)
+    if (!reason) throw new Error('Exclusion reason not found')
+    return reasonId
+}
+
+// ── Exclusion Reasons ────────────────────────────────────────────────────────
+
+/** List exclusion reasons in display order with their usage counts */
+export function listExclusionReasons(): ExclusionReason[] {
+    const db = getDb()
+    return db.prepare(`
+        SELECT r.*,
+               (SELECT COUNT(*) FROM screening_decisions d WHERE d.reason_id = r.id)
+             + (SELECT COUNT(*) FROM screening_resolutions s WHERE s.reason_id = r.id) as usage_count
+        FROM exclusion_reasons r
+        ORDER BY r.sort_order, r.name COLLATE NOCASE
+    `).all() as ExclusionReason[]
+}
+
+function getExclusionReason(id: string): ExclusionReason | null {
+    return listExclusionReasons().find(r => r.id === id) ?? null
+}
+
+/** Add a reason to the end of the list (names are unique, case-insensitive) */
+export function createExclusionReason(name: string): ExclusionReason {
+    const db = getDb()
+    const trimmed = name.trim()
+    if (!trimmed) throw new Error('Exclusion reason cannot be empty')
+
+    const collision = db.prepare('SELECT id FROM exclusion_reasons WHERE name = ? COLLATE NOCASE').get(trimmed)
+    if (collision) throw new Error(`Exclusion reason "${trimmed}" already exists`)
+
+    const id = uuidv4()
+    const maxOrder = db.prepare('SELECT COALESCE(MAX(sort_order), 0) as m FROM exclusion_reasons').get() as { m: number }
+    db.prepare('INSERT INTO exclusion_reasons (id, name, sort_order) VALUES (?, ?, ?)').run(id, trimmed, maxOrder.m + 1)
+    return getExclusionReason(id)!
+}
+
+/** Rename a reason; decisions citing it follow the new name */
+export function renameExclusionReason(id: string, name: string): ExclusionReason | null {
+    const db = getDb()
+    const trimmed = name.trim()
+    if (!trimmed) throw new Error('Exclusion reason cannot be empty')
+
+    const collision = db.prepare(
+        'SELECT id FROM exclusion_reasons WHERE name = ? COLLATE NOCASE AND id != ?'
+    ).get(trimmed, id)
+    if (collision) throw new Error(`Exclusion reason "${trimmed}" already exists`)
+
+    const result = db.prepare('UPDATE exclusion_reasons SET name = ? WHERE id = ?').run(trimmed, id)
+    return result.changes > 0 ? getExclusionReason(id) : null
+}
+
+/** Delete a reason; refused while any exclusion still cites it */
+export function deleteExclusionReason(id: string): boolean {
+    const db = getDb()
+    const used = getExclusionReason(id)?.usage_count ?? 0
+    if (used > 0) {
+        throw new Error(`This reason is used by ${used} exclusion${used !== 1 ? 's' : ''}. Reassign them before deleting it.`)
+    }
+    const result = db.prepare('DELETE FROM exclusion_reasons WHERE id = ?').run(id)
+    return result.changes > 0
+}
+
+// ── Decisions ────────────────────────────────────────────────────────────────
+
+/** Papers eligible for a stage with the active reviewer's decisions, oldest first */
+export function getScreeningQueue(stage: ScreeningStage): ScreeningRecord[] {
+    assertStage(stage)
+    const db = getDb()
+    const reviewer = getActiveReviewer()
+
+    const rows = db.prepare(`
+        WITH ${FINAL_DECISIONS_CTE}
+        SELECT p.id as paper_id, p.title, p.abstract, p.year, p.journal, p.doi,
+               d.decision, d.reason_id, r.name as reason_name, d.note
+        FROM papers p
+        LEFT JOIN screening_decisions d ON d.paper_id = p.id AND d.stage = ? AND d.reviewer_id = ?
+        LEFT JOIN exclusion_reasons r ON r.id = d.reason_id
+        WHERE ${eligibleCondition(stage)}
+        ORDER BY p.date_added, p.id
+    `).all(stage, reviewer.id) as Array<Omit<ScreeningRecord, 'authors'>>
+
+    // Fetch authors in one pass rather than per paper
+    const authors = new Map<string, string[]>()
+    const authorRows = db.prepare(`
+        SELECT pa.paper_id, a.name FROM paper_authors pa
+        JOIN authors a ON a.id = pa.author_id
+        ORDER BY pa.paper_id, pa.position
+    `).all() as Array<{ paper_id: string; name: string }>
+    for (const row of authorRows) {
+        if (!authors.has(row.paper_id)) authors.set(row.paper_id, [])
+        authors.get(row.paper_id)!.push(row.name)
+    }
+
+    return rows.map(row => ({ ...row, authors: authors.get(row.paper_id) ?? [] }))
+}
+
+/** Get the active reviewer's decision on a paper at a stage */
+export function getScreeningDecision(paperId: string, stage: ScreeningStage): ScreeningDecision | null {
+    const db = getDb()
+    return (db.prepare(
+        'SELECT * FROM screening_decisions WHERE paper_id = ? AND stage = ? AND reviewer_id = ?'
+    ).get(paperId, stage, getActiveReviewer().id) as ScreeningDecision | undefined) ?? null
+}
+
+/** Record (or change) the active reviewer's decision on a paper at a stage */
+export function setScreeningDecision(input: SetScreeningDecisionInput): ScreeningDecision {
+    const { paperId, stage, decision } = input
+    assertStage(stage)
+    const reasonId = validateDecision(decision, input.reasonId)
+
+    const db = getDb()
+    const paper = db.prepare('SELECT id FROM papers WHERE id = ?').get(paperId)
+    if (!paper) throw new Error('Paper not found')
+
+    if (stage === 'full_text') {
+        const eligible = db.prepare(
+            `WITH ${FINAL_DECISIONS_CTE} SELECT 1 FROM papers p WHERE p.id = ? AND ${eligibleCondition('full_text')}`
+        ).get(paperId)
+        if (!eligible) throw new Error('Only papers kept at title/abstract screening can be screened on full text')
+    }
+
+    const note = input.note?.trim() || null
+
+    db.prepare(`
+        INSERT INTO screening_decisions (id, paper_id, reviewer_id, stage, decision, reason_id, note)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (paper_id, stage, reviewer_id) DO UPDATE SET
+            decision = excluded.decision,
+            reason_id = excluded.reason_id,
+            note = excluded.note,
+            updated_at = datetime('now')
+    `).run(uuidv4(), paperId, getActiveReviewer().id, stage, decision, reasonId, note)
+
+    return getScreeningDecision(paperId, stage)!
+}
+
+/** Remove the active reviewer's decision on a paper at a stage (back to undecided) */
+export function clearScreeningDecision(paperId: string, stage: ScreeningStage): boolean {
+    assertStage(stage)
+    const db = getDb()
+    const result = db.prepare(
+        'DELETE FROM screening_decisions WHERE paper_id = ? AND stage = ? AND reviewer_id = ?'
+    ).run(paperId, stage, getActiveReviewer().id)
+    return result.changes > 0
+}
+
+/**
+ * Decision counts over the papers eligible for a stage. Until the screening
+ * pair is unblinded these are the active reviewer's own decisions: final
+ * counts would change whenever the other reviewer agreed, revealing how
+ * they decided.
+ */
+export function getScreeningProgress(stage: ScreeningStage): ScreeningProgress {
+    assertStage(stage)
+    // A lone reviewer's own decisions are the final ones
+    const agreement = getScreeningAgreement(stage)
+    if (agreement.unblinded || agreement.reviewers.length < 2) return getFinalScreeningCounts(stage)
+
+    const db = getDb()
+    const row = db.prepare(`
+        WITH ${FINAL_DECISIONS_CTE}
+        SELECT COUNT(*) as total,
+               COALESCE(SUM(d.decision = 'include'), 0) as include,
+               COALESCE(SUM(d.decision = 'exclude'), 0) as exclude,
+               COALESCE(SUM(d.decision = 'maybe'), 0) as maybe
+        FROM papers p
+        LEFT JOIN screening_decisions d ON d.paper_id = p.id AND d.stage = ? AND d.reviewer_id = ?
+        WHERE ${eligibleCondition(stage)}
+    `).get(stage, getActiveReviewer().id) as Omit<ScreeningProgress, 'stage' | 'undecided' | 'blinded'>
+
+    return {
+        stage,
+        ...row,
+        undecided: row.total - row.include - row.exclude - row.maybe,
+        blinded: true
+    }
+}
+
+/** Final decision counts over the papers eligible for a stage, for PRISMA reporting */
+export function getFinalScreeningCounts(stage: ScreeningStage): ScreeningProgress {
+    assertStage(stage)
+    const db = getDb()
+    const row = db.prepare(`
+        WITH ${FINAL_DECISIONS_CTE}
+        SELECT COUNT(*) as total,
+               COALESCE(SUM(f.decision = 'include'), 0) as include,
+               COALESCE(SUM(f.decision = 'exclude'), 0) as exclude,
+               COALESCE(SUM(f.decision = 'maybe'), 0) as maybe
+        FROM papers p
+        LEFT JOIN final f ON f.paper_id = p.id AND f.stage = ?
+        WHERE ${eligibleCondition(stage)}
+    `).get(stage) as Omit<ScreeningProgress, 'stage' | 'undecided' | 'blinded'>
+
+    return {
+        stage,
+        ...row,
+        undecided: row.total - row.include - row.exclude - row.maybe,
+        blinded: false
+    }
+}
+
+/** Papers finally included at full text: the studies of the review */
+export function getIncludedPaperIds(): string[] {
+    const db = getDb()
+    const rows = db.prepare(`
+        WITH ${FINAL_DECISIONS_CTE}
+        SELECT f.paper_id FROM final f
+        JOIN papers p ON p.id = f.paper_id
+        WHERE f.stage = 'full_text' AND f.decision = 'include' AND ${eligibleCondition('full_text')}
+    `).all() as Array<{ paper_id: string }>
+    return rows.map(r => r.paper_id)
+}
+
+// ── Dual Screening ───────────────────────────────────────────────────────────
+
+/** Cohen's kappa for two raters' paired labels; null when chance agreement is total */
+function cohensKappa(pairs: Array<[string, string]>): number | null {
+    const n = pairs.length
+    if (n === 0) return null
+
+    const observed = pairs.filter(([a, b]) => a === b).length / n
+    let expected = 0
+    for (const category of DECISIONS) {
+        const pA = pairs.filter(([a]) => a === category).length / n
+        const pB = pairs.filter(([, b]) => b === category).length / n
+        expected += pA * pB
+    }
+    if (expected === 1) return null
+    return (observed - expected) / (1 - expected)
+}
+
+/**
+ * Agreement between the screening pair (the first two reviewer profiles).
+ * Statistics and conflicts stay hidden until both have screened every
+ * eligible paper, so neither reviewer is influenced by the other.
+ */
+export function getScreeningAgreement(stage: ScreeningStage): ScreeningAgreement {
+    assertStage(stage)
+    const db = getDb()
+    const pair = listReviewers().slice(0, 2)
+
+    const eligibleIds = new Set(
+        (db.prepare(`
+            WITH ${FINAL_DECISIONS_CTE}
+            SELECT p.id FROM papers p WHERE ${eligibleCondition(stage)}
+        `).all() as Array<{ id: string }>).map(r => r.id)
+    )
+
+    const decisions = db.prepare(`
+        SELECT d.paper_id, d.reviewer_id, d.decision, d.reason_id, r.name as reason_name, d.note
+        FROM screening_decisions d
+        LEFT JOIN exclusion_reasons r ON r.id = d.reason_id
+        WHERE d.stage = ?
+    `).all(stage) as Array<Omit<ConflictingDecision, 'reviewer_name'> & { paper_id: string }>
+
+    // paper id → reviewer id → decision, restricted to eligible papers
+    const byPaper = new Map<string, Map<string, (typeof decisions)[number]>>()
+    for (const d of decisions) {
+        if (!eligibleIds.has(d.paper_id)) continue
+        if (!byPaper.has(d.paper_id)) byPaper.set(d.paper_id, new Map())
+        byPaper.get(d.paper_id)!.set(d.reviewer_id, d)
+    }
+
+    const reviewers: ReviewerProgress[] = pair.map(reviewer => ({
+        reviewer_id: reviewer.id,
+        reviewer_name: reviewer.name,
+        decided: [...byPaper.values()].filter(m => m.has(reviewer.id)).length
+    }))
+
+    const unblinded = pair.length === 2 && eligibleIds.size > 0 && reviewers.every(r => r.decided === eligibleIds.size)
+    const result: ScreeningAgreement = {
+        stage,
+        eligible: eligibleIds.size,
+        reviewers,
+        unblinded,
+        compared: null,
+        agreements: null,
+        percent_agreement: null,
+        kappa: null,
+        conflicts: []
+    }
+    if (!unblinded) return result
+
+    const [a, b] = pair
+    const pairs: Array<[string, string]> = []
+    let agreements = 0
+    const conflictIds: string[] = []
+    for (const [paperId, byReviewer] of byPaper) {
+        const first = byReviewer.get(a.id)
+        const second = byReviewer.get(b.id)
+        if (!first || !second) continue
+        pairs.push([first.decision, second.decision])
+        if (disagree(stage, first, second)) conflictIds.push(paperId)
+        else agreements++
+    }
+
+    result.compared = pairs.length
+    result.agreements = agreements
+    result.percent_agreement = pairs.length > 0 ? (agreements / pairs.length) * 100 : null
+    result.kappa = cohensKappa(pairs)
+    result.conflicts = loadConflicts(stage, conflictIds, byPaper, pair)
+    return result
+}
+
+function loadConflicts(
+    stage: ScreeningStage,
+    paperIds: string[],
+    byPaper: Map<string, Map<string, Omit<ConflictingDecision, 'reviewer_name'> & { paper_id: string }>>,
+    pair: Reviewer[]
+): ScreeningConflict[] {
+    if (paperIds.length === 0) return []
+    const db = getDb()
+    const papers = new Map(
+        (db.prepare(
+            `SELECT id, title, year FROM papers WHERE id IN (${paperIds.map(() => '?').join(', ')})`
+        ).all(...paperIds) as Array<{ id: string; title: string; year: number | null }>).map(p => [p.id, p])
+    )
+    const resolutions = new Map(
+        (db.prepare(`
+            SELECT s.paper_id, s.decision, s.reason_id, r.name as reason_name, s.note,
+                   v.name as resolved_by_name, s.resolved_at
+            FROM screening_resolutions s
+            LEFT JOIN exclusion_reasons r ON r.id = s.reason_id
+            LEFT JOIN reviewers v ON v.id = s.resolved_by
+            WHERE s.stage = ?
+        `).all(stage) as Array<ScreeningResolution & { paper_id: string }>).map(({ paper_id, ...rest }) => [paper_id, rest])
+    )
+
+    return paperIds
+        .map(paperId => ({
+            paper_id: paperId,
+            title: papers.get(paperId)?.title ?? '',
+            year: papers.get(paperId)?.year ?? null,
+            decisions: pair.map(reviewer => {
+                const { paper_id: _paperId, ...d } = byPaper.get(paperId)!.get(reviewer.id)!
+                return { ...d, reviewer_name: reviewer.name }
+            }),
+            resolution: resolutions.get(paperId) ?? null
+        }))
+        // Unresolved conflicts first
+        .sort((x, y) => Number(x.resolution !== null) - Number(y.resolution !== null) || x.title.localeCompare(y.title))
+}
+
+/**
+ * Record the consensus decision for a conflict; attributed to the active
+ * reviewer. Only papers the screening pair both decided and disagree on can
+ * be resolved, since a resolution overrides the reviewers' decisions.
+ */
+export function resolveScreeningConflict(input: SetScreeningDecisionInput): ScreeningResolution {
+    const { paperId, stage, decision } = input
+    assertStage(stage)
+    const reasonId = validateDecision(decision, input.reasonId)
+
+    const { conflicts } = getScreeningAgreement(stage)
+    if (!conflicts.some(c => c.paper_id === paperId)) {
+        throw new Error('Only papers the screening pair disagree on can be resolved')
+    }
+
+    const db = getDb()
+    db.prepare(`
+        INSERT INTO screening_resolutions (paper_id, stage, decision, reason_id, note, resolved_by)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (paper_id, stage) DO UPDATE SET
+            decision = excluded.decision,
+            reason_id = excluded.reason_id,
+            note = excluded.note,
+            resolved_by = excluded.resolved_by,
+            resolved_at = datetime('now')
+    `).run(paperId, stage, decision, reasonId, input.note?.trim() || null, getActiveReviewer().id)
+
+    return db.prepare(`
+        SELECT s.decision, s.reason_id, r.name as reason_name, s.note, v.name as resolved_by_name, s.resolved_at
+        FROM screening_resolutions s
+        LEFT JOIN exclusion_reasons r ON r.id = s.reason_id
+        LEFT JOIN reviewers v ON v.id = s.resolved_by
+        WHERE s.paper_id = ? AND s.stage = ?
+    `).get(paperId, stage) as ScreeningResolution
+}
+
+/** Reopen a resolved conflict */
+export function clearScreeningResolution(paperId: string, stage: ScreeningStage): boolean {
+    assertStage(stage)
+    const db = getDb()
+    const result = db.prepare('DELETE FROM screening_resolutions WHERE paper_id = ? AND stage = ?').run(paperId, stage)
+    return result.changes > 0
+}
@@ -0,0 +1,420 @@
+// ============================================================================
+// ThreadMed — Search Repository (FTS5)
+// ============================================================================
+// Library-wide search over `papers_fts`, plus a unified search that also
+// covers coded annotations, tag names and memos. User input is never passed to MATCH
+// verbatim: it is tokenized and rebuilt into a well-formed FTS5 expression,
+// so stray quotes or brackets cannot raise a syntax error over IPC.
+//
+// Supported syntax:
+//   heart failure          both terms (implicit AND)
+//   "heart failure"        exact phrase
+//   cardio*                prefix
+//   a OR b, a AND b, a NOT b, -b, ( … )
+//   title:x  abstract:x  text:x   restrict one term or group to a column
+// ============================================================================
+
+import { getDb } from '../connection'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type SearchScope = 'all' | 'title' | 'abstract' | 'full_text'
+
+export interface SearchFilters {
+    yearFrom?: number | null
+    yearTo?: number | null
+    journal?: string | null
+    folderId?: string | null
+    hasPdf?: boolean | null
+}
+
+export interface PaperSearchHit {
+    id: string
+    title: string
+    year: number | null
+    journal: string | null
+    pdf_filename: string | null
+    authors: string[]
+    /** Best-matching fragment; matches are wrapped in \u0002 … \u0003 */
+    snippet: string
+    /** Columns that contain at least one match */
+    matched_in: Array<'title' | 'abstract' | 'full_text'>
+    /** 1-based PDF page of the first full-text match, when known */
+    page: number | null
+    rank: number
+}
+
+export interface PaperSearchResponse {
+    results: PaperSearchHit[]
+    /** The FTS5 expression actually executed (useful for debugging) */
+    query: string
+    error: string | null
+}
+
+export type SearchEntityKind = 'paper' | 'annotation' | 'tag' | 'memo'
+
+/** One hit from the unified search; context fields are null where they don't apply */
+export interface UnifiedSearchHit {
+    kind: SearchEntityKind
+    id: string
+    /** Paper title, memo title or tag name */
+    title: string
+    /** Matches are wrapped in \u0002 … \u0003 */
+    snippet: string
+    rank: number
+    paper_id: string | null
+    paper_title: string | null
+    page: number | null
+    node_id: string | null
+    node_name: string | null
+    node_color: string | null
+    tag_name: string | null
+    /** Tags only: how many annotations carry the tag */
+    annotation_count: number | null
+}
+
+export interface UnifiedSearchResponse {
+    results: UnifiedSearchHit[]
+    query: string
+    error: string | null
+}
+
+type FtsColumn = 'title' | 'abstract' | 'full_text'
+
+type QueryToken =
+    | { type: 'term'; text: string; prefix: boolean; column: FtsColumn | null }
+    | { type: 'op'; op: 'AND' | 'OR' | 'NOT' }
+    | { type: 'open'; column: FtsColumn | null }
+    | { type: 'close' }
+
+const COLUMN_ALIASES: Record<string, FtsColumn> = {
+    title: 'title',
+    abstract: 'abstract',
+    text: 'full_text',
+    fulltext: 'full_text',
+    full_text: 'full_text'
+}
+
+// ── Query Sanitizing ─────────────────────────────────────────────────────────
+
+function tokenize(input: string): QueryToken[] {
+    const tokens: QueryToken[] = []
+    let pendingColumn: FtsColumn | null = null
+    let i = 0
+
+    const pushTerm = (raw: string, prefix: boolean) => {
+        const text = raw.replace(/["*]/g, ' ').replace(/\s+/g, ' ').trim()
+        // Pure punctuation tokenizes to an empty phrase, which would match nothing
+        if (/[\p{L}\p{N}]/u.test(text)) tokens.push({ type: 'term', text, prefix, column: pendingColumn })
+        pendingColumn = null
+    }
+
+    while (i < input.length) {
+        const ch = input[i]
+
+        if (/\s/.test(ch)) {
+            i++
+        } else if (ch === '"') {
+            // Phrase; an unterminated quote runs to the end of the input
+            const end = input.indexOf('"', i + 1)
+            const phrase = end === -1 ? input.slice(i + 1) : input.slice(i + 1, end)
+            i = end === -1 ? input.length : end + 1
+            const prefix = input[i] === '*'
+            if (prefix) i++
+            pushTerm(phrase, prefix)
+        } else if (ch === '(') {
+            tokens.push({ type: 'open', column: pendingColumn })
+            pendingColumn = null
+            i++
+        } else if (ch === ')') {
+            tokens.push({ type: 'close' })
+            i++
+        } else {
+            let j = i
+            while (j < input.length && !/[\s()"]/.test(input[j])) j++
+            let word = input.slice(i, j)
+            i = j
+
+            if (word === 'AND' || word === 'OR' || word === 'NOT') {
+                tokens.push({ type: 'op', op: word })
+                continue
+            }
+
+            const columnMatch = word.match(/^([a-z_]+):(.*)$/i)
+            if (columnMatch && COLUMN_ALIASES[columnMatch[1].toLowerCase()]) {
+                pendingColumn = COLUMN_ALIASES[columnMatch[1].toLowerCase()]
+                word = columnMatch[2]
+                if (!word) continue
+            }
+
+            if (word.startsWith('-') && word.length > 1) {
+                tokens.push({ type: 'op', op: 'NOT' })
+                word = word.slice(1)
+            }
+
+            const prefix = word.endsWith('*')
+            pushTerm(word, prefix)
+        }
+    }
+
+    return tokens
+}
+
+/**
+ * Rebuild user input as a syntactically valid FTS5 expression.
+ * Returns an empty string when nothing searchable remains. Pass
+ * `withColumns = false` for indexes that lack the papers_fts columns.
+ */
+export function buildFtsQuery(input: string, scope: SearchScope = 'all', withColumns = true): string {
+    const scopeColumn: FtsColumn | null = scope === 'all' || !withColumns ? null : scope
+    const out: string[] = []
+    const kinds: Array<'operand' | 'op' | 'open'> = []
+    // Per open group: whether it carries its own column filter
+    const groups: boolean[] = []
+    // A leading NOT cannot be expressed, so the term it negates is dropped too
+    let skipNextTerm = false
+
+    const last = () => kinds[kinds.length - 1]
+    const pop = () => { out.pop(); kinds.pop() }
+    const push = (text: string, kind: 'operand' | 'op' | 'open') => { out.push(text); kinds.push(kind) }
+    // FTS5 rejects juxtaposed operands next to brackets, so AND is always explicit
+    const joinOperand = () => { if (last() === 'operand') push('AND', 'op') }
+
+    for (const token of tokenize(input)) {
+        switch (token.type) {
+            case 'term': {
+                if (skipNextTerm) {
+                    skipNextTerm = false
+                    break
+                }
+                joinOperand()
+                const explicit = withColumns ? token.column : null
+                const column = explicit ?? (groups.includes(true) ? null : scopeColumn)
+                const phrase = `"${token.text}"${token.prefix ? '*' : ''}`
+                push(column ? `${column} : ${phrase}` : phrase, 'operand')
+                break
+            }
+            case 'open': {
+                skipNextTerm = false
+                joinOperand()
+                const column = withColumns ? token.column : null
+                push(column ? `${column} : (` : '(', 'open')
+                groups.push(!!column)
+                break
+            }
+            case 'close': {
+                if (groups.length === 0) break
+                while (last() === 'op') pop()
+                groups.pop()
+                if (last() === 'open') pop() // drop empty group
+                else push(')', 'operand')
+                break
+            }
+            case 'op': {
+                // Operators need a left operand; FTS5 has no unary NOT
+                if (last() !== 'operand') {
+                    if (token.op === 'NOT') skipNextTerm = true
+                    break
+                }
+                push(token.op, 'op')
+                break
+            }
+        }
+    }
+
+    while (last() === 'op') pop()
+    while (groups.length > 0) {
+        groups.pop()
+        if (last() === 'open') pop()
+        else push(')', 'operand')
+        while (last() === 'op') pop()
+    }
+
+    return out.join(' ')
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Search papers with filters; never throws on malformed queries */
+export function searchLibrary(
+    input: string,
+    scope: SearchScope = 'all',
+    filters: SearchFilters = {},
+    limit = 100
+): PaperSearchResponse {
+    const query = buildFtsQuery(input, scope)
+    if (!query) return { results: [], query, error: null }
+
+    const conditions = ['papers_fts MATCH @query', 'p.archived = 0']
+    const params: Record<string, string | number> = { query, limit }
+    if (filters.yearFrom) {
+        conditions.push('p.year >= @yearFrom')
+        params.yearFrom = filters.yearFrom
+    }
+    if (filters.yearTo) {
+        conditions.push('p.year <= @yearTo')
+        params.yearTo = filters.yearTo
+    }
+    if (filters.journal) {
+        conditions.push('p.journal = @journal COLLATE NOCASE')
+        params.journal = filters.journal
+    }
+    if (filters.folderId) {
+        conditions.push('EXISTS (SELECT 1 FROM paper_folders pf WHERE pf.paper_id = p.id AND pf.folder_id = @folderId)')
+        params.folderId = filters.folderId
+    }
+    if (filters.hasPdf === true) conditions.push('p.pdf_filename IS NOT NULL')
+    if (filters.hasPdf === false) conditions.push('p.pdf_filename IS NULL')
+
+    const db = getDb()
+    try {
+        const rows = db.prepare(`
+      SELECT id, title, year, journal, pdf_filename, snippet, rank, in_title, in_abstract, text_pos,
+             CASE WHEN text_pos > 0 AND instr(text_hl, char(12)) > 0
+                  THEN length(substr(text_hl, 1, text_pos)) - length(replace(substr(text_hl, 1, text_pos), char(12), '')) + 1
+             END AS page
+      FROM (
+        SELECT *, instr(text_hl, char(2)) AS text_pos
+        FROM (
+          SELECT p.id, p.title, p.year, p.journal, p.pdf_filename, rank,
+                 snippet(papers_fts, -1, char(2), char(3), '…', 32) AS snippet,
+                 instr(highlight(papers_fts, 0, char(2), char(3)), char(2)) > 0 AS in_title,
+                 instr(highlight(papers_fts, 1, char(2), char(3)), char(2)) > 0 AS in_abstract,
+                 highlight(papers_fts, 2, char(2), char(3)) AS text_hl
+          FROM papers_fts
+          JOIN papers p ON p.rowid = papers_fts.rowid
+          WHERE ${conditions.join(' AND ')}
+          ORDER BY rank
+          LIMIT @limit
+        )
+      )
+      ORDER BY rank
+    `).all(params) as Array<{
+            id: string
+            title: string
+            year: number | null
+            journal: string | null
+            pdf_filename: string | null
+            snippet: string
+            rank: number
+            in_title: number
+            in_abstract: number
+            text_pos: number
+            page: number | null
+        }>
+
+        const authorStmt = db.prepare(`
+      SELECT a.name FROM authors a
+      JOIN paper_authors pa ON pa.author_id = a.id
+      WHERE pa.paper_id = ?
+      ORDER BY pa.position
+    `)
+
+        const results: PaperSearchHit[] = rows.map(row => {
+            const matched_in: PaperSearchHit['matched_in'] = []
+            if (row.in_title) matched_in.push('title')
+            if (row.in_abstract) matched_in.push('abstract')
+            if (row.text_pos > 0) matched_in.push('full_text')
+            return {
+                id: row.id,
+                title: row.title,
+                year: row.year,
+                journal: row.journal,
+                pdf_filename: row.pdf_filename,
+                authors: (authorStmt.all(row.id) as Array<{ name: string }>).map(a => a.name),
+                snippet: row.snippet.replace(/\f/g, ' '),
+                matched_in,
+                page: row.page,
+                rank: row.rank
+            }
+        })
+
+        return { results, query, error: null }
+    } catch (err) {
+        console.error('[Search] Query failed:', query, err)
+        return { results: [], query, error: err instanceof Error ? err.message : String(err) }
+    }
+}
+
+/**
+ * Search papers, annotations, tags and memos at once.
+ * Results are grouped by kind (papers, annotations, tags, memos), each by rank.
+ */
+export function searchEverything(input: string, limitPerKind = 25): UnifiedSearchResponse {
+    const query = buildFtsQuery(input, 'all', false)
+    if (!query) return { results: [], query, error: null }
+
+    const empty = {
+        paper_id: null, paper_title: null, page: null, node_id: null,
+        node_name: null, node_color: null, tag_name: null, annotation_count: null
+    }
+
+    const papers = searchLibrary(input, 'all', {}, limitPerKind)
+    if (papers.error) return { results: [], query: papers.query, error: papers.error }
+
+    const db = getDb()
+    try {
+        const paperHits: UnifiedSearchHit[] = papers.results.map(hit => ({
+            ...empty,
+            kind: 'paper',
+            id: hit.id,
+            title: hit.title,
+            snippet: hit.snippet,
+            rank: hit.rank,
+            paper_id: hit.id,
+            paper_title: hit.title,
+            page: hit.page
+        }))
+
+        const annotationHits = (db.prepare(`
+      SELECT a.id, p.title AS title,
+             snippet(annotations_fts, 0, char(2), char(3), '…', 32) AS snippet,
+             rank, a.paper_id, p.title AS paper_title, a.page_number AS page,
+             n.id AS node_id, n.name AS node_name, n.color AS node_color, t.name AS tag_name
+      FROM annotations_fts
+      JOIN annotations a ON a.rowid = annotations_fts.rowid
+      JOIN papers p ON p.id = a.paper_id
+      JOIN nodes n ON n.id = a.node_id
+      LEFT JOIN tags t ON t.id = a.tag_id
+      WHERE annotations_fts MATCH ? AND p.archived = 0
+      ORDER BY rank
+      LIMIT ?
+    `).all(query, limitPerKind) as Array<Omit<UnifiedSearchHit, 'kind' | 'annotation_count'>>)
+            .map(row => ({ ...row, kind: 'annotation' as const, annotation_count: null }))
+
+        const tagHits = (db.prepare(`
+      SELECT t.id, t.name AS title,
+             highlight(tags_fts, 0, char(2), char(3)) AS snippet,
+             rank, n.id AS node_id, n.name AS node_name, n.color AS node_color, t.name AS tag_name,
+             (SELECT COUNT(*) FROM annotations a WHERE a.tag_id = t.id) AS annotation_count
+      FROM tags_fts
+      JOIN tags t ON t.rowid = tags_fts.rowid
+      JOIN nodes n ON n.id = t.node_id
+      WHERE tags_fts MATCH ?
+      ORDER BY rank
+      LIMIT ?
+    `).all(query, limitPerKind) as Array<Pick<UnifiedSearchHit, 'id' | 'title' | 'snippet' | 'rank' | 'node_id' | 'node_name' | 'node_color' | 'tag_name' | 'annotation_count'>>)
+            .map(row => ({ ...empty, ...row, kind: 'tag' as const }))
+
+        const memoHits = (db.prepare(`
+      SELECT m.id, m.title,
+             snippet(memos_fts, -1, char(2), char(3), '…', 32) AS snippet,
+             rank
+      FROM memos_fts
+      JOIN memos m ON m.rowid = memos_fts.rowid
+      WHERE memos_fts MATCH ?
+      ORDER BY rank
+      LIMIT ?
+    `).all(query, limitPerKind) as Array<Pick<UnifiedSearchHit, 'id' | 'title' | 'snippet' | 'rank'>>)
+            .map(row => ({ ...empty, ...row, kind: 'memo' as const }))
+
+        return {
+            results: [...paperHits, ...annotationHits, ...tagHits, ...memoHits],
+            query,
+            error: null
+        }
+    } catch (err) {
+        console.error('[Search] Unified query failed:', query, err)
+        return { results: [], query, error: err instanceof Error ? err.message : String(err) }
+    }
+}
@@ -0,0 +1,109 @@
+// ============================================================================
+// ThreadMed — Zotero Annotations Repository
+// ============================================================================
+// Rules mapping Zotero highlight colours and tags to a node (and optional
+// tag), and the links between imported highlights and their Zotero
+// annotation items.
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '../connection'
+
+export type ZoteroAnnotationMatch = 'color' | 'tag'
+
+export interface ZoteroAnnotationRule {
+    id: string
+    match_type: ZoteroAnnotationMatch
+    /** A colour such as '#ffd400', or a Zotero tag name */
+    match_value: string
+    node_id: string
+    /** ThreadMed tag to file the highlight under, created on first use */
+    tag_name: string | null
+}
+
+export type ZoteroAnnotationRuleInput = Omit<ZoteroAnnotationRule, 'id'>
+
+export interface ZoteroAnnotationLink {
+    zotero_version: number
+    /** Null once the imported highlight was deleted in ThreadMed */
+    annotation_id: string | null
+}
+
+/** Tag rules first, then colour rules */
+export function listZoteroAnnotationRules(): ZoteroAnnotationRule[] {
+    const db = getDb()
+    return db.prepare(`
+        SELECT * FROM zotero_annotation_rules
+        ORDER BY match_type DESC, match_value COLLATE NOCASE
+    `).all() as ZoteroAnnotationRule[]
+}
+
+/** Create the rule for a colour or tag, or replace the existing one */
+export function saveZoteroAnnotationRule(input: ZoteroAnnotationRuleInput): ZoteroAnnotationRule {
+    const db = getDb()
+    if (input.match_type !== 'color' && input.match_type !== 'tag') {
+        throw new Error(`Unknown match type: ${input.match_type}`)
+    }
+    const value = input.match_type === 'color'
+        ? input.match_value.trim().toLowerCase()
+        : input.match_value.trim()
+    if (!value) throw new Error(input.match_type === 'color' ? 'Colour cannot be empty' : 'Zotero tag cannot be empty')
+    if (input.match_type === 'color' && !/^#[0-9a-f]{6}$/.test(value)) {
+        throw new Error(`Invalid colour: ${input.match_value}`)
+    }
+    if (!db.prepare('SELECT 1 FROM nodes WHERE id = ?').get(input.node_id)) {
+        throw new Error(`Node with id ${input.node_id} not found`)
+    }
+    const tagName = input.tag_name?.trim() || null
+
+    db.prepare(`
+        INSERT INTO zotero_annotation_rules (id, match_type, match_value, node_id, tag_name)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(match_type, match_value) DO UPDATE SET
+            node_id = excluded.node_id, tag_name = excluded.tag_name
+    `).run(uuidv4(), input.match_type, value, input.node_id, tagName)
+
+    return db.prepare(
+        'SELECT * FROM zotero_annotation_rules WHERE match_type = ? AND match_value = ?'
+    ).get(input.match_type, value) as ZoteroAnnotationRule
+}
+
+export function deleteZoteroAnnotationRule(id: string): void {
+    const db = getDb()
+    db.prepare('DELETE FROM zotero_annotation_rules WHERE id = ?').run(id)
+}
+
+/**
+ * The rule for a Zotero annotation: the first of its tags with a rule,
+ * otherwise the rule for its colour. Tag names match case-insensitively.
+ */
+export function matchZoteroAnnotationRule(
+    rules: ZoteroAnnotationRule[],
+    color: string | undefined,
+    tags: string[]
+): ZoteroAnnotationRule | null {
+    for (const tag of tags) {
+        const rule = rules.find(r => r.match_type === 'tag' && r.match_value.toLowerCase() === tag.trim().toLowerCase())
+        if (rule) return rule
+    }
+    const normalized = color?.trim().toLowerCase()
+    return rules.find(r => r.match_type === 'color' && r.match_value === normalized) ?? null
+}
+
+export function getZoteroAnnotationLink(library: string, key: string): ZoteroAnnotationLink | null {
+    const db = getDb()
+    const row = db.prepare(
+        'SELECT zotero_version, annotation_id FROM zotero_annotations WHERE zotero_library = ? AND zotero_key = ?'
+    ).get(library, key) as ZoteroAnnotationLink | undefined
+    return row ?? null
+}
+
+export function saveZoteroAnnotationLink(library: string, key: string, version: number, annotationId: string | null): void {
+    const db = getDb()
+    db.prepare(`
+        INSERT INTO zotero_annotations (zotero_key, zotero_library, zotero_version, annotation_id)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(zotero_library, zotero_key) DO UPDATE SET
+            zotero_version = excluded.zotero_version, annotation_id = excluded.annotation_id
+    `).run(key, library, version, annotationId)
+}
@@ -0,0 +1,77 @@
+// ============================================================================
+// ThreadMed — Zotero Conflicts Repository
+// ============================================================================
+// Fields that were edited locally and changed in Zotero since the last sync.
+// upsertPaper records them; until every conflict of a paper is resolved its
+// local edits are not pushed back to Zotero.
+// ============================================================================
+
+import { getDb } from '../connection'
+import { SYNCED_FIELDS, applyZoteroField } from './papers'
+import type { SyncedField } from './papers'
+
+export interface ZoteroConflict {
+    paper_id: string
+    title: string
+    field: SyncedField
+    local_value: unknown
+    remote_value: unknown
+    detected_at: string
+}
+
+/** Which side's value to keep */
+export type ZoteroConflictChoice = 'local' | 'remote'
+
+export function countZoteroConflicts(): number {
+    const db = getDb()
+    const row = db.prepare('SELECT COUNT(DISTINCT paper_id) as count FROM zotero_conflicts').get() as { count: number }
+    return row.count
+}
+
+/** Conflicts grouped by paper, in the order of SYNCED_FIELDS */
+export function listZoteroConflicts(): ZoteroConflict[] {
+    const db = getDb()
+    const fieldOrder = SYNCED_FIELDS.map((field, i) => `WHEN '${field}' THEN ${i}`).join(' ')
+    const rows = db.prepare(`
+        SELECT c.paper_id, p.title, c.field, c.local_value, c.remote_value, c.detected_at
+        FROM zotero_conflicts c
+        JOIN papers p ON p.id = c.paper_id
+        ORDER BY p.title COLLATE NOCASE, c.paper_id, CASE c.field ${fieldOrder} END
+    `).all() as Array<{ paper_id: string; title: string; field: SyncedField; local_value: string | null; remote_value: string | null; detected_at: string }>
+
+    return rows.map(row => ({
+        ...row,
+        local_value: parseValue(row.local_value),
+        remote_value: parseValue(row.remote_value)
+    }))
+}
+
+/**
+ * Resolve one field. Keeping the local value leaves it to be pushed on the
+ * next sync; keeping Zotero's replaces the local edit.
+ */
+export function resolveZoteroConflict(paperId: string, field: SyncedField, choice: ZoteroConflictChoice): void {
+    const db = getDb()
+    const row = db.prepare(
+        'SELECT remote_value FROM zotero_conflicts WHERE paper_id = ? AND field = ?'
+    ).get(paperId, field) as { remote_value: string | null } | undefined
+    if (!row) throw new Error('Conflict not found')
+
+    db.transaction(() => {
+        if (choice === 'remote') {
+            applyZoteroField(paperId, field, parseValue(row.remote_value))
+        } else if (choice !== 'local') {
+            throw new Error(`Unknown choice: ${choice}`)
+        }
+        db.prepare('DELETE FROM zotero_conflicts WHERE paper_id = ? AND field = ?').run(paperId, field)
+    })()
+}
+
+function parseValue(value: string | null): unknown {
+    if (value === null) return null
+    try {
+        return JSON.parse(value)
+    } catch {
+        return value
+    }
+}
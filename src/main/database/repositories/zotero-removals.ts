@@ -0,0 +1,135 @@
+// ============================================================================
+// ThreadMed — Zotero Removals Repository
+// ============================================================================
+// Papers whose Zotero item was deleted or moved to the trash. Sync only flags
+// them; nothing is removed until the user reviews the list and decides, per
+// paper, whether to delete it (annotations included), archive it, or detach
+// it from Zotero and keep it as a local paper.
+// ============================================================================
+
+import { getDb } from '../connection'
+import { getPaper, deletePaper } from './papers'
+import type { PaperWithAuthors } from './papers'
+
+export type ZoteroRemovalReason = 'deleted' | 'trashed'
+
+export type ZoteroRemovalAction = 'delete' | 'archive' | 'detach'
+
+export interface ZoteroRemoval {
+    paper: PaperWithAuthors
+    reason: ZoteroRemovalReason
+    detected_at: string
+    annotation_count: number
+}
+
+export interface ZoteroRemovalDecision {
+    paperId: string
+    action: ZoteroRemovalAction
+}
+
+/**
+ * Flag the papers linked to these item keys of a library. A deletion
+ * replaces an earlier trash flag for the same paper.
+ */
+export function flagZoteroRemovals(library: string, keys: string[], reason: ZoteroRemovalReason): number {
+    if (keys.length === 0) return 0
+    const db = getDb()
+    const flag = db.prepare(`
+        INSERT INTO zotero_removals (paper_id, reason)
+        SELECT id, ? FROM papers WHERE zotero_library = ? AND zotero_key = ?
+        ON CONFLICT(paper_id) DO UPDATE SET reason = excluded.reason
+        WHERE excluded.reason = 'deleted'
+    `)
+
+    let flagged = 0
+    db.transaction(() => {
+        for (const key of keys) flagged += flag.run(reason, library, key).changes
+    })()
+    return flagged
+}
+
+/** Drop trash flags of a library's items that are no longer in the trash */
+export function clearRestoredFromTrash(library: string, trashedKeys: string[]): void {
+    const db = getDb()
+    const trashed = new Set(trashedKeys)
+    const flagged = db.prepare(`
+        SELECT r.paper_id, p.zotero_key FROM zotero_removals r
+        JOIN papers p ON p.id = r.paper_id
+        WHERE r.reason = 'trashed' AND p.zotero_library = ?
+    `).all(library) as Array<{ paper_id: string; zotero_key: string | null }>
+
+    const clear = db.prepare('DELETE FROM zotero_removals WHERE paper_id = ?')
+    db.transaction(() => {
+        for (const row of flagged) {
+            if (!row.zotero_key || !trashed.has(row.zotero_key)) clear.run(row.paper_id)
+        }
+    })()
+}
+
+export function countZoteroRemovals(): number {
+    const db = getDb()
+    const row = db.prepare('SELECT COUNT(*) as count FROM zotero_removals').get() as { count: number }
+    return row.count
+}
+
+/** Flagged papers, most recently detected first */
+export function listZoteroRemovals(): ZoteroRemoval[] {
+    const db = getDb()
+    const rows = db.prepare(`
+        SELECT r.paper_id, r.reason, r.detected_at,
+               (SELECT COUNT(*) FROM annotations a WHERE a.paper_id = r.paper_id) AS annotation_count
+        FROM zotero_removals r
+        ORDER BY r.detected_at DESC
+    `).all() as Array<{ paper_id: string; reason: ZoteroRemovalReason; detected_at: string; annotation_count: number }>
+
+    return rows.flatMap(row => {
+        const paper = getPaper(row.paper_id)
+        return paper
+            ? [{ paper, reason: row.reason, detected_at: row.detected_at, annotation_count: row.annotation_count }]
+            : []
+    })
+}
+
+/**
+ * Apply the user's decisions. Archived and detached papers lose their Zotero
+ * link and their place in mirrored collection folders, but keep annotations
+ * and local-only folders.
+ */
+export function resolveZoteroRemovals(decisions: ZoteroRemovalDecision[]): void {
+    const db = getDb()
+    const isFlagged = db.prepare('SELECT 1 FROM zotero_removals WHERE paper_id = ?')
+    const detach = db.prepare(`
+        UPDATE papers
+        SET zotero_key = NULL, zotero_library = NULL, zotero_version = 0, zotero_synced = NULL, dirty = 0,
+            archived = ?, date_modified = datetime('now')
+        WHERE id = ?
+    `)
+    const leaveMirroredFolders = db.prepare(`
+        DELETE FROM paper_folders
+        WHERE paper_id = ? AND folder_id IN (SELECT id FROM folders WHERE zotero_key IS NOT NULL)
+    `)
+    const forgetConflicts = db.prepare('DELETE FROM zotero_conflicts WHERE paper_id = ?')
+    const forgetNote = db.prepare('DELETE FROM zotero_notes WHERE paper_id = ?')
+    const unflag = db.prepare('DELETE FROM zotero_removals WHERE paper_id = ?')
+
+    const toDelete: string[] = []
+    db.transaction(() => {
+        for (const { paperId, action } of decisions) {
+            if (!isFlagged.get(paperId)) throw new Error('Paper is not awaiting a Zotero removal decision')
+            if (action === 'delete') {
+                toDelete.push(paperId)
+            } else if (action === 'archive' || action === 'detach') {
+                detach.run(action === 'archive' ? 1 : 0, paperId)
+                leaveMirroredFolders.run(paperId)
+                forgetConflicts.run(paperId)
+                forgetNote.run(paperId)
+                unflag.run(paperId)
+            } else {
+                throw new Error(`Unknown removal action: ${action}`)
+            }
+        }
+    })()
+
+    // deletePaper also removes the PDF from disk, so it runs once the rest has committed
+    for (const paperId of toDelete) deletePaper(paperId)
+}
@@ -11,7 +11,7 @@ export function runSchema(db: Database.Database): void {
     -- ─── Papers ──────────────────────────────────────────────────────────────
     CREATE TABLE IF NOT EXISTS papers (
       id            TEXT PRIMARY KEY,
-      zotero_key    TEXT UNIQUE,
+      zotero_key    TEXT,
       title         TEXT NOT NULL,
       year          INTEGER,
       doi           TEXT,
@@ -21,7 +21,15 @@ export function runSchema(db: Database.Database): void {
       full_text     TEXT,
       date_added    TEXT NOT NULL DEFAULT (datetime('now')),
       date_modified TEXT NOT NULL DEFAULT (datetime('now')),
-      zotero_version INTEGER DEFAULT 0
+      zotero_version INTEGER DEFAULT 0,
+      dirty         INTEGER NOT NULL DEFAULT 0,
+      citation_key  TEXT,
+      -- Zotero library of zotero_key: 'users/<id>' or 'groups/<id>'
+      zotero_library TEXT,
+      -- 1 when hidden from the library but kept with its annotations
+      archived      INTEGER NOT NULL DEFAULT 0,
+      -- Zotero values at the last sync or push (JSON), the base for two-way merges
+      zotero_synced TEXT
     );
 
     -- ─── Authors ─────────────────────────────────────────────────────────────
@@ -43,7 +51,10 @@ export function runSchema(db: Database.Database): void {
       name       TEXT NOT NULL,
       parent_id  TEXT REFERENCES folders(id) ON DELETE CASCADE,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      sort_order INTEGER NOT NULL DEFAULT 0
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      -- Set on folders mirroring a Zotero collection; NULL for local-only folders
+      zotero_key     TEXT,
+      zotero_library TEXT
     );
 
     CREATE TABLE IF NOT EXISTS paper_folders (
@@ -55,10 +66,11 @@ export function runSchema(db: Database.Database): void {
     -- ─── Nodes (Thematic Codes) ──────────────────────────────────────────────
     CREATE TABLE IF NOT EXISTS nodes (
       id         TEXT PRIMARY KEY,
-      name       TEXT NOT NULL UNIQUE,
+      name       TEXT NOT NULL,
       color      TEXT NOT NULL DEFAULT '#3B82F6',
       is_default INTEGER NOT NULL DEFAULT 0,
-      sort_order INTEGER NOT NULL DEFAULT 0
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      parent_id  TEXT REFERENCES nodes(id) ON DELETE SET NULL
     );
 
     -- ─── Tags (subtypes within a node) ───────────────────────────────────────
@@ -82,6 +94,68 @@ export function runSchema(db: Database.Database): void {
       created_at  TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
+    -- ─── Duplicates ──────────────────────────────────────────────────────────
+    -- Pairs the user marked as "not duplicates" (paper_a < paper_b)
+    CREATE TABLE IF NOT EXISTS duplicate_dismissals (
+      paper_a    TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+      paper_b    TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (paper_a, paper_b)
+    );
+
+    -- Zotero keys of papers merged into another, so sync doesn't re-import them
+    CREATE TABLE IF NOT EXISTS zotero_key_aliases (
+      zotero_key     TEXT NOT NULL,
+      zotero_library TEXT,
+      paper_id       TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE
+    );
+
+    -- Papers whose Zotero item was deleted or trashed, awaiting the user's decision
+    CREATE TABLE IF NOT EXISTS zotero_removals (
+      paper_id    TEXT PRIMARY KEY REFERENCES papers(id) ON DELETE CASCADE,
+      reason      TEXT NOT NULL CHECK (reason IN ('deleted', 'trashed')),
+      detected_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- Fields changed both locally and in Zotero since the last sync (values as JSON)
+    CREATE TABLE IF NOT EXISTS zotero_conflicts (
+      paper_id     TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+      field        TEXT NOT NULL,
+      local_value  TEXT,
+      remote_value TEXT,
+      detected_at  TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (paper_id, field)
+    );
+
+    -- Child notes holding a paper's annotation summary, pushed to Zotero
+    CREATE TABLE IF NOT EXISTS zotero_notes (
+      paper_id     TEXT PRIMARY KEY REFERENCES papers(id) ON DELETE CASCADE,
+      note_key     TEXT NOT NULL,
+      note_version INTEGER NOT NULL,
+      content_hash TEXT NOT NULL
+    );
+
+    -- Which node (and optional tag) a Zotero highlight is imported under,
+    -- chosen by its colour ('#ffd400') or one of its Zotero tags
+    CREATE TABLE IF NOT EXISTS zotero_annotation_rules (
+      id          TEXT PRIMARY KEY,
+      match_type  TEXT NOT NULL CHECK (match_type IN ('color', 'tag')),
+      match_value TEXT NOT NULL,
+      node_id     TEXT NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+      tag_name    TEXT,
+      UNIQUE (match_type, match_value)
+    );
+
+    -- Zotero annotations imported as highlights. annotation_id is NULL once
+    -- the highlight is deleted here, so it is not imported again
+    CREATE TABLE IF NOT EXISTS zotero_annotations (
+      zotero_key     TEXT NOT NULL,
+      zotero_library TEXT NOT NULL,
+      zotero_version INTEGER NOT NULL,
+      annotation_id  TEXT REFERENCES annotations(id) ON DELETE SET NULL,
+      PRIMARY KEY (zotero_library, zotero_key)
+    );
+
     -- ─── Memos ───────────────────────────────────────────────────────────────
     CREATE TABLE IF NOT EXISTS memos (
       id         TEXT PRIMARY KEY,
@@ -99,6 +173,226 @@ export function runSchema(db: Database.Database): void {
       created_at    TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
+    -- ─── Screening ───────────────────────────────────────────────────────────
+    CREATE TABLE IF NOT EXISTS reviewers (
+      id         TEXT PRIMARY KEY,
+      name       TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS exclusion_reasons (
+      id         TEXT PRIMARY KEY,
+      name       TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      sort_order INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS screening_decisions (
+      id         TEXT PRIMARY KEY,
+      paper_id    TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+      stage       TEXT NOT NULL,
+      decision    TEXT NOT NULL,
+      reason_id   TEXT REFERENCES exclusion_reasons(id),
+      note        TEXT,
+      created_at  TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at  TEXT NOT NULL DEFAULT (datetime('now')),
+      reviewer_id TEXT REFERENCES reviewers(id) ON DELETE CASCADE
+    );
+
+    -- Consensus decision for records the reviewers disagreed on
+    CREATE TABLE IF NOT EXISTS screening_resolutions (
+      paper_id    TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+      stage       TEXT NOT NULL,
+      decision    TEXT NOT NULL,
+      reason_id   TEXT REFERENCES exclusion_reasons(id),
+      note        TEXT,
+      resolved_by TEXT REFERENCES reviewers(id) ON DELETE SET NULL,
+      resolved_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (paper_id, stage)
+    );
+
+    -- ─── PRISMA Flow ─────────────────────────────────────────────────────────
+    -- Where records were identified (a database, a trial register, or other
+    -- methods such as citation searching)
+    CREATE TABLE IF NOT EXISTS search_sources (
+      id         TEXT PRIMARY KEY,
+      name       TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      kind       TEXT NOT NULL DEFAULT 'database',
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- Every record identified by a source, including the ones never imported.
+    -- status: 'imported' (became paper_id), 'duplicate' (of paper_id, or of an
+    -- earlier record in the same file) or 'removed' (unreadable or deselected)
+    CREATE TABLE IF NOT EXISTS identified_records (
+      id            TEXT PRIMARY KEY,
+      source_id     TEXT NOT NULL REFERENCES search_sources(id) ON DELETE CASCADE,
+      paper_id      TEXT REFERENCES papers(id) ON DELETE SET NULL,
+      status        TEXT NOT NULL,
+      title         TEXT,
+      identified_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- ─── Risk of Bias ────────────────────────────────────────────────────────
+    -- One assessment per paper, tool (rob2, robins_i, nos) and outcome.
+    -- Domain and overall judgements are derived from the answers unless the
+    -- reviewer overrides them
+    CREATE TABLE IF NOT EXISTS rob_assessments (
+      id               TEXT PRIMARY KEY,
+      paper_id         TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+      tool             TEXT NOT NULL,
+      outcome          TEXT NOT NULL DEFAULT '',
+      overall_override TEXT,
+      notes            TEXT NOT NULL DEFAULT '',
+      created_at       TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at       TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE (paper_id, tool, outcome)
+    );
+
+    -- Answers to signalling questions
+    CREATE TABLE IF NOT EXISTS rob_responses (
+      assessment_id TEXT NOT NULL REFERENCES rob_assessments(id) ON DELETE CASCADE,
+      question_id   TEXT NOT NULL,
+      answer        TEXT NOT NULL,
+      PRIMARY KEY (assessment_id, question_id)
+    );
+
+    -- Support for judgement and optional override, per domain
+    CREATE TABLE IF NOT EXISTS rob_domain_judgements (
+      assessment_id      TEXT NOT NULL REFERENCES rob_assessments(id) ON DELETE CASCADE,
+      domain_id          TEXT NOT NULL,
+      judgement_override TEXT,
+      support            TEXT NOT NULL DEFAULT '',
+      PRIMARY KEY (assessment_id, domain_id)
+    );
+
+    -- Annotations quoted as evidence for a domain judgement
+    CREATE TABLE IF NOT EXISTS rob_evidence (
+      assessment_id TEXT NOT NULL REFERENCES rob_assessments(id) ON DELETE CASCADE,
+      domain_id     TEXT NOT NULL,
+      annotation_id TEXT NOT NULL REFERENCES annotations(id) ON DELETE CASCADE,
+      PRIMARY KEY (assessment_id, domain_id, annotation_id)
+    );
+
+    -- ─── Data Extraction ─────────────────────────────────────────────────────
+    CREATE TABLE IF NOT EXISTS extraction_forms (
+      id          TEXT PRIMARY KEY,
+      name        TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      description TEXT NOT NULL DEFAULT '',
+      sort_order  INTEGER NOT NULL DEFAULT 0,
+      created_at  TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- field_type: 'integer' | 'decimal' | 'categorical' | 'text' | 'group'.
+    -- A group is repeated once per study arm; its fields have parent_id set.
+    CREATE TABLE IF NOT EXISTS extraction_fields (
+      id           TEXT PRIMARY KEY,
+      form_id      TEXT NOT NULL REFERENCES extraction_forms(id) ON DELETE CASCADE,
+      parent_id    TEXT REFERENCES extraction_fields(id) ON DELETE CASCADE,
+      name         TEXT NOT NULL,
+      field_type   TEXT NOT NULL,
+      options_json TEXT,
+      unit         TEXT,
+      sort_order   INTEGER NOT NULL DEFAULT 0
+    );
+
+    -- Study arms (e.g. Intervention, Control), shared by every form
+    CREATE TABLE IF NOT EXISTS extraction_arms (
+      id         TEXT PRIMARY KEY,
+      paper_id   TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+      label      TEXT NOT NULL,
+      sort_order INTEGER NOT NULL DEFAULT 0
+    );
+
+    -- One value per paper, field and arm (arm_id is NULL outside groups).
+    -- Numbers go in value_number so they can be computed with.
+    CREATE TABLE IF NOT EXISTS extraction_values (
+      id            TEXT PRIMARY KEY,
+      paper_id      TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+      field_id      TEXT NOT NULL REFERENCES extraction_fields(id) ON DELETE CASCADE,
+      arm_id        TEXT REFERENCES extraction_arms(id) ON DELETE CASCADE,
+      value_number  REAL,
+      value_text    TEXT,
+      annotation_id TEXT REFERENCES annotations(id) ON DELETE SET NULL,
+      updated_at    TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- ─── Meta-Analysis ───────────────────────────────────────────────────────
+    -- outcome_type: 'binary' (events/total per arm) | 'continuous' (mean, SD, n)
+    -- effect_measure: 'RR' | 'OR' (binary), 'MD' | 'SMD' (continuous)
+    -- method: 'MH' | 'IV' (fixed effect), 'DL' | 'REML' (random effects)
+    CREATE TABLE IF NOT EXISTS meta_analyses (
+      id                 TEXT PRIMARY KEY,
+      name               TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      outcome_type       TEXT NOT NULL,
+      effect_measure     TEXT NOT NULL,
+      method             TEXT NOT NULL,
+      experimental_label TEXT NOT NULL DEFAULT 'Experimental',
+      control_label      TEXT NOT NULL DEFAULT 'Control',
+      created_at         TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at         TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- One row of outcome data per study; paper_id is NULL for studies
+    -- imported without a matching paper
+    CREATE TABLE IF NOT EXISTS meta_studies (
+      id          TEXT PRIMARY KEY,
+      analysis_id TEXT NOT NULL REFERENCES meta_analyses(id) ON DELETE CASCADE,
+      paper_id    TEXT REFERENCES papers(id) ON DELETE SET NULL,
+      label       TEXT NOT NULL,
+      events_e    INTEGER,
+      n_e         INTEGER,
+      mean_e      REAL,
+      sd_e        REAL,
+      events_c    INTEGER,
+      n_c         INTEGER,
+      mean_c      REAL,
+      sd_c        REAL,
+      included    INTEGER NOT NULL DEFAULT 1,
+      sort_order  INTEGER NOT NULL DEFAULT 0
+    );
+
+    -- ─── GRADE ───────────────────────────────────────────────────────────────
+    -- One certainty-of-evidence assessment per outcome, in Summary of Findings
+    -- order. study_design sets the starting certainty (randomized: high,
+    -- observational: low); the domains move it down or up unless
+    -- certainty_override is set. Effect columns left empty are filled in from
+    -- the linked meta-analysis.
+    CREATE TABLE IF NOT EXISTS grade_outcomes (
+      id                 TEXT PRIMARY KEY,
+      name               TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      meta_analysis_id   TEXT REFERENCES meta_analyses(id) ON DELETE SET NULL,
+      study_design       TEXT NOT NULL DEFAULT 'randomized',
+      importance         TEXT NOT NULL DEFAULT 'critical',
+      studies            INTEGER,
+      participants       INTEGER,
+      relative_effect    TEXT NOT NULL DEFAULT '',
+      comparator_risk    TEXT NOT NULL DEFAULT '',
+      intervention_risk  TEXT NOT NULL DEFAULT '',
+      certainty_override TEXT,
+      comments           TEXT NOT NULL DEFAULT '',
+      sort_order         INTEGER NOT NULL DEFAULT 0,
+      created_at         TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at         TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- rating: levels moved, -2..0 for the downgrading domains, 0..2 for the
+    -- upgrading factors
+    CREATE TABLE IF NOT EXISTS grade_domains (
+      outcome_id TEXT NOT NULL REFERENCES grade_outcomes(id) ON DELETE CASCADE,
+      domain_id  TEXT NOT NULL,
+      rating     INTEGER NOT NULL DEFAULT 0,
+      rationale  TEXT NOT NULL DEFAULT '',
+      PRIMARY KEY (outcome_id, domain_id)
+    );
+
+    -- Annotations cited for a domain's rationale
+    CREATE TABLE IF NOT EXISTS grade_evidence (
+      outcome_id    TEXT NOT NULL REFERENCES grade_outcomes(id) ON DELETE CASCADE,
+      domain_id     TEXT NOT NULL,
+      annotation_id TEXT NOT NULL REFERENCES annotations(id) ON DELETE CASCADE,
+      PRIMARY KEY (outcome_id, domain_id, annotation_id)
+    );
+
     -- ─── Indices ─────────────────────────────────────────────────────────────
     CREATE INDEX IF NOT EXISTS idx_papers_zotero_key ON papers(zotero_key);
     CREATE INDEX IF NOT EXISTS idx_papers_year ON papers(year);
@@ -112,6 +406,19 @@ export function runSchema(db: Database.Database): void {
     CREATE INDEX IF NOT EXISTS idx_folders_parent ON folders(parent_id);
     CREATE INDEX IF NOT EXISTS idx_paper_folders_paper ON paper_folders(paper_id);
     CREATE INDEX IF NOT EXISTS idx_paper_folders_folder ON paper_folders(folder_id);
+    CREATE INDEX IF NOT EXISTS idx_screening_decisions_reason ON screening_decisions(reason_id);
+    CREATE INDEX IF NOT EXISTS idx_identified_records_source ON identified_records(source_id);
+    CREATE INDEX IF NOT EXISTS idx_identified_records_paper ON identified_records(paper_id);
+    CREATE INDEX IF NOT EXISTS idx_rob_assessments_paper ON rob_assessments(paper_id);
+    CREATE INDEX IF NOT EXISTS idx_rob_evidence_annotation ON rob_evidence(annotation_id);
+    CREATE INDEX IF NOT EXISTS idx_extraction_fields_form ON extraction_fields(form_id);
+    CREATE INDEX IF NOT EXISTS idx_extraction_arms_paper ON extraction_arms(paper_id);
+    CREATE INDEX IF NOT EXISTS idx_extraction_values_paper ON extraction_values(paper_id, field_id);
+    CREATE INDEX IF NOT EXISTS idx_extraction_values_annotation ON extraction_values(annotation_id);
+    CREATE INDEX IF NOT EXISTS idx_meta_studies_analysis ON meta_studies(analysis_id);
+    CREATE INDEX IF NOT EXISTS idx_meta_studies_paper ON meta_studies(paper_id);
+    CREATE INDEX IF NOT EXISTS idx_grade_outcomes_meta ON grade_outcomes(meta_analysis_id);
+    CREATE INDEX IF NOT EXISTS idx_grade_evidence_annotation ON grade_evidence(annotation_id);
 
     -- ─── Sync Metadata (key-value store) ──────────────────────────────────
     CREATE TABLE IF NOT EXISTS sync_meta (
@@ -128,14 +435,203 @@ export function runSchema(db: Database.Database): void {
     // Column already exists — ignore
   }
 
-  // Create tag_id index after migration guarantees the column exists
+  // Migration: add dirty flag to papers (set by local metadata edits)
+  try {
+    db.exec(`ALTER TABLE papers ADD COLUMN dirty INTEGER NOT NULL DEFAULT 0`)
+    console.log('[ThreadMed DB] Migrated: added dirty to papers')
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: add citation_key to papers (assigned on first reference export)
+  try {
+    db.exec(`ALTER TABLE papers ADD COLUMN citation_key TEXT`)
+    console.log('[ThreadMed DB] Migrated: added citation_key to papers')
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: add reviewer_id to screening_decisions (dual-reviewer screening)
+  try {
+    db.exec(`ALTER TABLE screening_decisions ADD COLUMN reviewer_id TEXT REFERENCES reviewers(id) ON DELETE CASCADE`)
+    console.log('[ThreadMed DB] Migrated: added reviewer_id to screening_decisions')
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: add parent_id to nodes (hierarchical codebook)
+  try {
+    db.exec(`ALTER TABLE nodes ADD COLUMN parent_id TEXT REFERENCES nodes(id) ON DELETE SET NULL`)
+    console.log('[ThreadMed DB] Migrated: added parent_id to nodes')
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: Zotero keys are only unique within a library (group library support)
+  migrateZoteroLibraries(db)
+
+  // Migration: node names are only unique among siblings (hierarchical codebook)
+  migrateNodeNames(db)
+
+  // Migration: add archived to papers (Zotero removal review)
+  try {
+    db.exec(`ALTER TABLE papers ADD COLUMN archived INTEGER NOT NULL DEFAULT 0`)
+    console.log('[ThreadMed DB] Migrated: added archived to papers')
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: add zotero_synced to papers (two-way sync)
+  try {
+    db.exec(`ALTER TABLE papers ADD COLUMN zotero_synced TEXT`)
+    console.log('[ThreadMed DB] Migrated: added zotero_synced to papers')
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: add Zotero collection key to folders (collection mirroring)
+  try {
+    db.exec(`ALTER TABLE folders ADD COLUMN zotero_key TEXT`)
+    db.exec(`ALTER TABLE folders ADD COLUMN zotero_library TEXT`)
+    console.log('[ThreadMed DB] Migrated: added zotero_key to folders')
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Create indexes on migrated columns once the migrations guarantee they exist
   db.exec(`CREATE INDEX IF NOT EXISTS idx_annotations_tag ON annotations(tag_id)`)
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_papers_citation_key ON papers(citation_key)`)
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_nodes_parent ON nodes(parent_id)`)
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_nodes_parent_name ON nodes(COALESCE(parent_id, ''), name COLLATE NOCASE)`)
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_papers_zotero_library_key ON papers(zotero_library, zotero_key)`)
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_zotero_key_aliases_key ON zotero_key_aliases(zotero_library, zotero_key)`)
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_folders_zotero_key ON folders(zotero_library, zotero_key)`)
+  // One decision per reviewer, replacing the single-reviewer index
+  db.exec(`DROP INDEX IF EXISTS idx_screening_decisions_paper_stage`)
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_screening_decisions_reviewer ON screening_decisions(paper_id, stage, reviewer_id)`)
 
   // Seed default EBM nodes (only if nodes table is empty)
   seedDefaultNodes(db)
+
+  // Seed the standard exclusion reasons (only if the list is empty)
+  seedDefaultExclusionReasons(db)
+
+  // Every project needs a reviewer profile to attribute decisions to
+  seedDefaultReviewer(db)
+}
+
+/**
+ * papers.zotero_key used to be UNIQUE on its own, but Zotero item keys are only
+ * unique within one library, so items from a group library could collide with
+ * the user's own. SQLite can't drop a column constraint, so rebuild papers and
+ * zotero_key_aliases with a zotero_library column instead; uniqueness moves to
+ * (zotero_library, zotero_key). Rowids are kept so papers_fts stays in step.
+ * Existing keys all came from the user's library.
+ */
+function migrateZoteroLibraries(db: Database.Database): void {
+  const columns = (db.prepare('PRAGMA table_info(papers)').all() as { name: string }[]).map(c => c.name)
+  if (columns.includes('zotero_library')) return
+
+  const userId = db.prepare("SELECT value FROM sync_meta WHERE key = 'zotero_user_id'").get() as { value: string } | undefined
+  // Without a connection on record the library is claimed on the next sync
+  const library = userId ? `users/${userId.value}` : null
+  const copied = columns.join(', ')
+
+  // Dropping papers with foreign keys on would cascade into every child table
+  db.pragma('foreign_keys = OFF')
+  try {
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE papers_new (
+          id            TEXT PRIMARY KEY,
+          zotero_key    TEXT,
+          title         TEXT NOT NULL,
+          year          INTEGER,
+          doi           TEXT,
+          journal       TEXT,
+          abstract      TEXT,
+          pdf_filename  TEXT,
+          full_text     TEXT,
+          date_added    TEXT NOT NULL DEFAULT (datetime('now')),
+          date_modified TEXT NOT NULL DEFAULT (datetime('now')),
+          zotero_version INTEGER DEFAULT 0,
+          dirty         INTEGER NOT NULL DEFAULT 0,
+          citation_key  TEXT,
+          zotero_library TEXT
+        );
+        CREATE TABLE zotero_key_aliases_new (
+          zotero_key     TEXT NOT NULL,
+          zotero_library TEXT,
+          paper_id       TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE
+        );
+      `)
+      db.prepare(`
+        INSERT INTO papers_new (rowid, ${copied}, zotero_library)
+        SELECT rowid, ${copied}, CASE WHEN zotero_key IS NOT NULL THEN ? END FROM papers
+      `).run(library)
+      db.prepare(`
+        INSERT INTO zotero_key_aliases_new (zotero_key, zotero_library, paper_id)
+        SELECT zotero_key, ?, paper_id FROM zotero_key_aliases
+      `).run(library)
+
+      db.exec(`
+        DROP TABLE papers;
+        ALTER TABLE papers_new RENAME TO papers;
+        DROP TABLE zotero_key_aliases;
+        ALTER TABLE zotero_key_aliases_new RENAME TO zotero_key_aliases;
+        CREATE INDEX IF NOT EXISTS idx_papers_zotero_key ON papers(zotero_key);
+        CREATE INDEX IF NOT EXISTS idx_papers_year ON papers(year);
+      `)
+
+      const violations = db.pragma('foreign_key_check') as unknown[]
+      if (violations.length > 0) throw new Error('Foreign key check failed while rebuilding papers')
+    })()
+  } finally {
+    db.pragma('foreign_keys = ON')
+  }
+  console.log('[ThreadMed DB] Migrated: Zotero keys are now unique per library')
 }
 
-/** Seed the six default Evidence-Based Medicine nodes */
+/**
+ * nodes.name used to be UNIQUE across the whole codebook, which stopped two
+ * parents from having a sub-node of the same name (e.g. "Adverse events"
+ * under both Intervention and Comparison). SQLite can't drop a column
+ * constraint, so rebuild nodes without it; uniqueness moves to the
+ * case-insensitive idx_nodes_parent_name index over (parent_id, name).
+ */
+function migrateNodeNames(db: Database.Database): void {
+  const table = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'nodes'").get() as { sql: string }
+  if (!/name\s+TEXT\s+NOT\s+NULL\s+UNIQUE/i.test(table.sql)) return
+
+  // Dropping nodes with foreign keys on would cascade into tags and annotations
+  db.pragma('foreign_keys = OFF')
+  try {
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE nodes_new (
+          id         TEXT PRIMARY KEY,
+          name       TEXT NOT NULL,
+          color      TEXT NOT NULL DEFAULT '#3B82F6',
+          is_default INTEGER NOT NULL DEFAULT 0,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          parent_id  TEXT REFERENCES nodes(id) ON DELETE SET NULL
+        );
+        INSERT INTO nodes_new (id, name, color, is_default, sort_order, parent_id)
+        SELECT id, name, color, is_default, sort_order, parent_id FROM nodes;
+        DROP TABLE nodes;
+        ALTER TABLE nodes_new RENAME TO nodes;
+      `)
+
+      const violations = db.pragma('foreign_key_check') as unknown[]
+      if (violations.length > 0) throw new Error('Foreign key check failed while rebuilding nodes')
+    })()
+  } finally {
+    db.pragma('foreign_keys = ON')
+  }
+  console.log('[ThreadMed DB] Migrated: node names are now unique per parent')
+}
+
+/** Seed the six default Evidence-Based Medicine nodes (the built-in PICO codebook template) */
 function seedDefaultNodes(db: Database.Database): void {
   const count = db.prepare('SELECT COUNT(*) as count FROM nodes').get() as { count: number }
   if (count.count > 0) return
@@ -162,3 +658,45 @@ function seedDefaultNodes(db: Database.Database): void {
   insertAll()
   console.log('[ThreadMed DB] Seeded default EBM nodes')
 }
+
+/** Seed common PICO-based exclusion reasons for screening */
+function seedDefaultExclusionReasons(db: Database.Database): void {
+  const count = db.prepare('SELECT COUNT(*) as count FROM exclusion_reasons').get() as { count: number }
+  if (count.count > 0) return
+
+  const defaults = [
+    'Wrong population',
+    'Wrong intervention',
+    'Wrong comparator',
+    'Wrong outcomes',
+    'Wrong study design',
+    'Wrong publication type',
+    'Duplicate'
+  ]
+
+  const insert = db.prepare('INSERT INTO exclusion_reasons (id, name, sort_order) VALUES (?, ?, ?)')
+
+  const insertAll = db.transaction(() => {
+    defaults.forEach((name, i) => insert.run(uuidv4(), name, i + 1))
+  })
+
+  insertAll()
+  console.log('[ThreadMed DB] Seeded default exclusion reasons')
+}
+
+/** Create the first reviewer profile and give it any unattributed decisions */
+function seedDefaultReviewer(db: Database.Database): void {
+  const count = db.prepare('SELECT COUNT(*) as count FROM reviewers').get() as { count: number }
+  if (count.count > 0) return
+
+  const id = uuidv4()
+  db.transaction(() => {
+    db.prepare('INSERT INTO reviewers (id, name) VALUES (?, ?)').run(id, 'Reviewer 1')
+    db.prepare(
+      "INSERT INTO sync_meta (key, value) VALUES ('active_reviewer_id', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value"
+    ).run(id)
+    // Decisions recorded before reviewer profiles existed
+    db.prepare('UPDATE screening_decisions SET reviewer_id = ? WHERE reviewer_id IS NULL').run(id)
+  })()
+  console.log('[ThreadMed DB] Seeded default reviewer')
+}
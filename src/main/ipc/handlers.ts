@@ -8,17 +8,67 @@
 import { ipcMain, BrowserWindow, dialog } from 'electron'
 import * as fs from 'fs'
 import * as path from 'path'
-import { listPapers, getPaper, createPaper, getPaperCount, searchPapers, updatePaperFullText } from '../database/repositories/papers'
-import { listNodes, createNode, updateNode, deleteNode } from '../database/repositories/nodes'
-import { createAnnotation, getAnnotationsForPaper, getAnnotationsForNode, getMatrixData, deleteAnnotation, updateAnnotationTag, updateAnnotationContent } from '../database/repositories/annotations'
+import { listPapers, getPaper, createPaper, getPaperCount, updatePaperFullText } from '../database/repositories/papers'
+import { listNodes, createNode, updateNode, moveNode, deleteNode } from '../database/repositories/nodes'
+import { createAnnotation, getAnnotationsForPaper, getAnnotationsForNode, getMatrixData, getMatrixAnnotations, deleteAnnotation, updateAnnotationTag, updateAnnotationContent } from '../database/repositories/annotations'
 import { listTagsForNode, findOrCreateTag, renameTag, deleteTag } from '../database/repositories/tags'
+import { searchLibrary, searchEverything } from '../database/repositories/search'
+import { listMemos, getMemo, createMemo, updateMemo, deleteMemo, getMemoReferences, getMemoBacklinksForPaper, getMemoBacklinksForNode, getMemoBacklinksForAnnotation } from '../database/repositories/memos'
+import { listExclusionReasons, createExclusionReason, renameExclusionReason, deleteExclusionReason, getScreeningQueue, setScreeningDecision, clearScreeningDecision, getScreeningProgress, getIncludedPaperIds, getScreeningAgreement, resolveScreeningConflict, clearScreeningResolution } from '../database/repositories/screening'
+import { listReviewers, getActiveReviewer, setActiveReviewer, createReviewer, renameReviewer, deleteReviewer } from '../database/repositories/reviewers'
+import { listSearchSources, getOrCreateSearchSource, updateSearchSource, deleteSearchSource, assignUnsourcedPapers, getPrismaFlow } from '../database/repositories/prisma'
+import { createRobAssessment, updateRobAssessment, deleteRobAssessment, setRobAnswer, setRobDomain, addRobEvidence, removeRobEvidence } from '../database/repositories/risk-of-bias'
+import { listExtractionForms, createExtractionForm, updateExtractionForm, deleteExtractionForm, createExtractionField, updateExtractionField, moveExtractionField, deleteExtractionField, getPaperExtraction, createExtractionArm, renameExtractionArm, deleteExtractionArm, setExtractionValue } from '../database/repositories/extraction'
+import { listMetaAnalyses, createMetaAnalysis, updateMetaAnalysis, deleteMetaAnalysis, listMetaStudies, addMetaStudies, updateMetaStudy, deleteMetaStudy } from '../database/repositories/meta-analysis'
+import { createGradeOutcome, updateGradeOutcome, moveGradeOutcome, deleteGradeOutcome, setGradeDomain, addGradeEvidence, removeGradeEvidence, getSofHeader, setSofHeader } from '../database/repositories/grade'
 import { getDb, getDbPath, getPdfDir } from '../database/connection'
-import { connectZotero, disconnectZotero, getZoteroStatus, syncLibrary } from '../services/sync-engine'
+import {
+    connectZotero, disconnectZotero, getZoteroStatus, syncLibrary,
+    listZoteroLibraries, setZoteroLibraries
+} from '../services/sync-engine'
+import { setWriteBackOptions } from '../services/zotero-writeback'
+import { setAnnotationRule, removeAnnotationRule } from '../services/zotero-annotation-import'
+import type { WriteBackOptions } from '../services/zotero-writeback'
+import type { ZoteroLibrary } from '../services/zotero-client'
 import { listFolders, createFolder, updateFolder, deleteFolder, addPaperToFolder, removePaperFromFolder, getPapersInFolder, getPaperMappings } from '../database/repositories/folders'
-import { deletePaper, updatePaper, addPdfToPaper, removePdfFromPaper } from '../database/repositories/papers'
+import { deletePaper, updatePaper, addPdfToPaper, removePdfFromPaper, mergePapers, listArchivedPapers, setPaperArchived } from '../database/repositories/papers'
+import { listZoteroRemovals, resolveZoteroRemovals } from '../database/repositories/zotero-removals'
+import { listZoteroConflicts, resolveZoteroConflict } from '../database/repositories/zotero-conflicts'
+import { listZoteroAnnotationRules } from '../database/repositories/zotero-annotations'
+import { exportMatrixToFile } from '../services/matrix-exporter'
+import { exportReferencesToFile } from '../services/reference-exporter'
+import { chooseImportFile, previewImport, commitImport } from '../services/reference-importer'
+import { chooseAndMergeScreening } from '../services/screening-merge'
+import { getPrismaDiagram, exportPrismaDiagram } from '../services/prisma-diagram'
+import { findDuplicateGroups, dismissDuplicates } from '../services/duplicate-finder'
+import { listRobTools, getRobTool, getRobAssessment, listRobAssessmentDetails } from '../services/rob-tools'
+import { buildRobPlot, exportRobPlot } from '../services/rob-plots'
+import { getMetaResult, addPaperStudies, importMetaCsv } from '../services/meta-analysis'
+import { buildMetaPlot, exportMetaPlot } from '../services/meta-plots'
+import { GRADE_DOMAINS, GRADE_CERTAINTY, getGradeDomain, checkGradeRating, checkGradeCertainty, getGradeAssessment, listGradeAssessments } from '../services/grade'
+import { buildSofTable, exportSofTable } from '../services/sof-exporter'
+import { extractTextFromPdf } from '../services/pdf-extractor'
 import { listRecentProjects, getActiveProject, openProject, deleteProject, renameProject, showNewProjectDialog, showOpenProjectDialog } from '../services/project-manager'
-import type { CreatePaperInput } from '../database/repositories/papers'
+import { listCodebookTemplates, saveCodebookTemplate, deleteCodebookTemplate } from '../services/codebook-templates'
+import type { CreatePaperInput, UpdatePaperInput, SyncedField } from '../database/repositories/papers'
 import type { CreateAnnotationInput } from '../database/repositories/annotations'
+import type { ZoteroRemovalDecision } from '../database/repositories/zotero-removals'
+import type { ZoteroConflictChoice } from '../database/repositories/zotero-conflicts'
+import type { ZoteroAnnotationRuleInput } from '../database/repositories/zotero-annotations'
+import type { SearchScope, SearchFilters } from '../database/repositories/search'
+import type { ScreeningStage, SetScreeningDecisionInput } from '../database/repositories/screening'
+import type { SearchSourceKind } from '../database/repositories/prisma'
+import type { ExtractionFieldInput, ExtractionValueInput } from '../database/repositories/extraction'
+import type { MetaAnalysis, MetaAnalysisInput, MetaStudyInput } from '../database/repositories/meta-analysis'
+import type { GradeOutcomeUpdate, GradeStudyDesign, SofHeader } from '../database/repositories/grade'
+import type { PrismaExportFormat } from '../services/prisma-diagram'
+import type { RobPlotKind } from '../services/rob-plots'
+import type { MetaPlotKind } from '../services/meta-plots'
+import type { SofExportFormat } from '../services/sof-exporter'
+import type { SvgExportFormat } from '../services/svg-export'
+import type { MatrixExportFormat, MatrixExportOptions } from '../services/matrix-exporter'
+import type { ImportOptions } from '../services/reference-importer'
+import type { ReferenceExportFormat, ReferenceExportScope } from '../services/reference-exporter'
 
 export function registerIpcHandlers(): void {
     // ── Project Handlers ─────────────────────────────────────────────────────
@@ -30,9 +80,9 @@ export function registerIpcHandlers(): void {
         return getActiveProject()
     })
 
-    ipcMain.handle('projects:new', async (event) => {
+    ipcMain.handle('projects:new', async (event, templateId?: string) => {
         const window = BrowserWindow.fromWebContents(event.sender)
-        return showNewProjectDialog(window)
+        return showNewProjectDialog(window, templateId)
     })
 
     ipcMain.handle('projects:open', async (event) => {
@@ -69,10 +119,6 @@ export function registerIpcHandlers(): void {
         return getPaperCount()
     })
 
-    ipcMain.handle('papers:search', (_event, query: string, limit?: number) => {
-        return searchPapers(query, limit)
-    })
-
     ipcMain.handle('papers:updateFullText', (_event, id: string, fullText: string) => {
         return updatePaperFullText(id, fullText)
     })
@@ -81,18 +127,47 @@ export function registerIpcHandlers(): void {
         return deletePaper(id)
     })
 
-    ipcMain.handle('papers:update', (_event, id: string, updates: Partial<CreatePaperInput>) => {
+    ipcMain.handle('papers:update', (_event, id: string, updates: UpdatePaperInput) => {
         return updatePaper(id, updates)
     })
 
     ipcMain.handle('papers:addPdf', (_event, id: string, sourcePath: string) => {
-        return addPdfToPaper(id, sourcePath)
+        const filename = addPdfToPaper(id, sourcePath)
+        // Index the new PDF's text in the background so it becomes searchable
+        extractTextFromPdf(path.join(getPdfDir(), filename)).then(text => {
+            if (text) updatePaperFullText(id, text)
+        }).catch(err => {
+            // e.g. the project was closed or switched while extraction ran
+            console.error(`[Papers] Failed to index text of ${filename}:`, err)
+        })
+        return filename
     })
 
     ipcMain.handle('papers:removePdf', (_event, id: string) => {
         return removePdfFromPaper(id)
     })
 
+    ipcMain.handle('papers:listArchived', () => {
+        return listArchivedPapers()
+    })
+
+    ipcMain.handle('papers:setArchived', (_event, id: string, archived: boolean) => {
+        return setPaperArchived(id, archived)
+    })
+
+    // ── Duplicate Handlers ───────────────────────────────────────────────────
+    ipcMain.handle('duplicates:find', () => {
+        return findDuplicateGroups()
+    })
+
+    ipcMain.handle('duplicates:merge', (_event, canonicalId: string, duplicateIds: string[]) => {
+        return mergePapers(canonicalId, duplicateIds)
+    })
+
+    ipcMain.handle('duplicates:dismiss', (_event, paperIds: string[]) => {
+        return dismissDuplicates(paperIds)
+    })
+
     // ── Folder Handlers ──────────────────────────────────────────────────────
     ipcMain.handle('folders:list', () => {
         return listFolders()
@@ -131,18 +206,35 @@ export function registerIpcHandlers(): void {
         return listNodes()
     })
 
-    ipcMain.handle('nodes:create', (_event, name: string, color?: string) => {
-        return createNode(name, color)
+    ipcMain.handle('nodes:create', (_event, name: string, color?: string, parentId?: string | null) => {
+        return createNode(name, color, parentId)
     })
 
     ipcMain.handle('nodes:update', (_event, id: string, updates: { name?: string; color?: string }) => {
         return updateNode(id, updates)
     })
 
+    ipcMain.handle('nodes:move', (_event, id: string, parentId: string | null, index?: number) => {
+        return moveNode(id, parentId, index)
+    })
+
     ipcMain.handle('nodes:delete', (_event, id: string) => {
         return deleteNode(id)
     })
 
+    // ── Codebook Template Handlers ───────────────────────────────────────────
+    ipcMain.handle('codebook:templates', () => {
+        return listCodebookTemplates()
+    })
+
+    ipcMain.handle('codebook:saveTemplate', (_event, name: string, description?: string) => {
+        return saveCodebookTemplate(name, description)
+    })
+
+    ipcMain.handle('codebook:deleteTemplate', (_event, id: string) => {
+        return deleteCodebookTemplate(id)
+    })
+
     // ── Annotation Handlers ──────────────────────────────────────────────────
     ipcMain.handle('annotations:create', (_event, input: CreateAnnotationInput) => {
         return createAnnotation(input)
@@ -160,6 +252,10 @@ export function registerIpcHandlers(): void {
         return getMatrixData()
     })
 
+    ipcMain.handle('annotations:matrixDetail', (_event, nodeId?: string) => {
+        return getMatrixAnnotations(nodeId)
+    })
+
     ipcMain.handle('annotations:delete', (_event, id: string) => {
         return deleteAnnotation(id)
     })
@@ -189,6 +285,412 @@ export function registerIpcHandlers(): void {
         return deleteTag(id)
     })
 
+    // ── Memo Handlers ────────────────────────────────────────────────────────
+    ipcMain.handle('memos:list', () => {
+        return listMemos()
+    })
+
+    ipcMain.handle('memos:get', (_event, id: string) => {
+        return getMemo(id)
+    })
+
+    ipcMain.handle('memos:create', (_event, title?: string, content?: string) => {
+        return createMemo(title, content)
+    })
+
+    ipcMain.handle('memos:update', (_event, id: string, updates: { title?: string; content?: string }) => {
+        return updateMemo(id, updates)
+    })
+
+    ipcMain.handle('memos:delete', (_event, id: string) => {
+        return deleteMemo(id)
+    })
+
+    ipcMain.handle('memos:references', (_event, memoId: string) => {
+        return getMemoReferences(memoId)
+    })
+
+    ipcMain.handle('memos:backlinksForPaper', (_event, paperId: string) => {
+        return getMemoBacklinksForPaper(paperId)
+    })
+
+    ipcMain.handle('memos:backlinksForNode', (_event, nodeId: string) => {
+        return getMemoBacklinksForNode(nodeId)
+    })
+
+    ipcMain.handle('memos:backlinksForAnnotation', (_event, annotationId: string) => {
+        return getMemoBacklinksForAnnotation(annotationId)
+    })
+
+    // ── Screening Handlers ───────────────────────────────────────────────────
+    ipcMain.handle('screening:queue', (_event, stage: ScreeningStage) => {
+        return getScreeningQueue(stage)
+    })
+
+    ipcMain.handle('screening:progress', (_event, stage: ScreeningStage) => {
+        return getScreeningProgress(stage)
+    })
+
+    ipcMain.handle('screening:included', () => {
+        return getIncludedPaperIds()
+    })
+
+    ipcMain.handle('screening:decide', (_event, input: SetScreeningDecisionInput) => {
+        return setScreeningDecision(input)
+    })
+
+    ipcMain.handle('screening:clear', (_event, paperId: string, stage: ScreeningStage) => {
+        return clearScreeningDecision(paperId, stage)
+    })
+
+    ipcMain.handle('screening:reasons', () => {
+        return listExclusionReasons()
+    })
+
+    ipcMain.handle('screening:createReason', (_event, name: string) => {
+        return createExclusionReason(name)
+    })
+
+    ipcMain.handle('screening:renameReason', (_event, id: string, name: string) => {
+        return renameExclusionReason(id, name)
+    })
+
+    ipcMain.handle('screening:deleteReason', (_event, id: string) => {
+        return deleteExclusionReason(id)
+    })
+
+    ipcMain.handle('screening:agreement', (_event, stage: ScreeningStage) => {
+        return getScreeningAgreement(stage)
+    })
+
+    ipcMain.handle('screening:resolve', (_event, input: SetScreeningDecisionInput) => {
+        return resolveScreeningConflict(input)
+    })
+
+    ipcMain.handle('screening:clearResolution', (_event, paperId: string, stage: ScreeningStage) => {
+        return clearScreeningResolution(paperId, stage)
+    })
+
+    ipcMain.handle('screening:merge', (event) => {
+        return chooseAndMergeScreening(BrowserWindow.fromWebContents(event.sender))
+    })
+
+    // ── Reviewer Handlers ────────────────────────────────────────────────────
+    ipcMain.handle('reviewers:list', () => {
+        return listReviewers()
+    })
+
+    ipcMain.handle('reviewers:active', () => {
+        return getActiveReviewer()
+    })
+
+    ipcMain.handle('reviewers:setActive', (_event, id: string) => {
+        return setActiveReviewer(id)
+    })
+
+    ipcMain.handle('reviewers:create', (_event, name: string) => {
+        return createReviewer(name)
+    })
+
+    ipcMain.handle('reviewers:rename', (_event, id: string, name: string) => {
+        return renameReviewer(id, name)
+    })
+
+    ipcMain.handle('reviewers:delete', (_event, id: string) => {
+        return deleteReviewer(id)
+    })
+
+    // ── PRISMA Handlers ──────────────────────────────────────────────────────
+    ipcMain.handle('prisma:flow', () => {
+        return getPrismaFlow()
+    })
+
+    ipcMain.handle('prisma:diagram', () => {
+        return getPrismaDiagram()
+    })
+
+    ipcMain.handle('prisma:export', (event, format: PrismaExportFormat) => {
+        return exportPrismaDiagram(format, BrowserWindow.fromWebContents(event.sender))
+    })
+
+    ipcMain.handle('prisma:sources', () => {
+        return listSearchSources()
+    })
+
+    ipcMain.handle('prisma:createSource', (_event, name: string, kind?: SearchSourceKind) => {
+        return getOrCreateSearchSource(name, kind)
+    })
+
+    ipcMain.handle('prisma:updateSource', (_event, id: string, data: { name?: string; kind?: SearchSourceKind }) => {
+        return updateSearchSource(id, data)
+    })
+
+    ipcMain.handle('prisma:deleteSource', (_event, id: string) => {
+        return deleteSearchSource(id)
+    })
+
+    ipcMain.handle('prisma:assignUnsourced', (_event, sourceId: string) => {
+        return assignUnsourcedPapers(sourceId)
+    })
+
+    // ── Risk of Bias Handlers ───────────────────────────────────────────────
+    ipcMain.handle('rob:tools', () => {
+        return listRobTools()
+    })
+
+    ipcMain.handle('rob:list', (_event, tool?: string) => {
+        return listRobAssessmentDetails(tool)
+    })
+
+    ipcMain.handle('rob:get', (_event, id: string) => {
+        return getRobAssessment(id)
+    })
+
+    ipcMain.handle('rob:create', (_event, paperId: string, tool: string, outcome?: string) => {
+        getRobTool(tool) // throws for unknown tools
+        return getRobAssessment(createRobAssessment(paperId, tool, outcome).id)
+    })
+
+    ipcMain.handle('rob:update', (_event, id: string, data: { outcome?: string; overall_override?: string | null; notes?: string }) => {
+        updateRobAssessment(id, data)
+        return getRobAssessment(id)
+    })
+
+    ipcMain.handle('rob:delete', (_event, id: string) => {
+        return deleteRobAssessment(id)
+    })
+
+    ipcMain.handle('rob:setAnswer', (_event, id: string, questionId: string, answer: string | null) => {
+        setRobAnswer(id, questionId, answer)
+        return getRobAssessment(id)
+    })
+
+    ipcMain.handle('rob:setDomain', (_event, id: string, domainId: string, data: { judgement_override?: string | null; support?: string }) => {
+        setRobDomain(id, domainId, data)
+        return getRobAssessment(id)
+    })
+
+    ipcMain.handle('rob:addEvidence', (_event, id: string, domainId: string, annotationId: string) => {
+        addRobEvidence(id, domainId, annotationId)
+        return getRobAssessment(id)
+    })
+
+    ipcMain.handle('rob:removeEvidence', (_event, id: string, domainId: string, annotationId: string) => {
+        removeRobEvidence(id, domainId, annotationId)
+        return getRobAssessment(id)
+    })
+
+    ipcMain.handle('rob:plot', (_event, kind: RobPlotKind, tool: string) => {
+        return buildRobPlot(kind, tool)
+    })
+
+    ipcMain.handle('rob:exportPlot', (event, kind: RobPlotKind, tool: string, format: SvgExportFormat) => {
+        return exportRobPlot(kind, tool, format, BrowserWindow.fromWebContents(event.sender))
+    })
+
+    // ── Data Extraction Handlers ────────────────────────────────────────────
+    ipcMain.handle('extraction:forms', () => {
+        return listExtractionForms()
+    })
+
+    ipcMain.handle('extraction:createForm', (_event, name: string, description?: string) => {
+        return createExtractionForm(name, description)
+    })
+
+    ipcMain.handle('extraction:updateForm', (_event, id: string, data: { name?: string; description?: string }) => {
+        return updateExtractionForm(id, data)
+    })
+
+    ipcMain.handle('extraction:deleteForm', (_event, id: string) => {
+        return deleteExtractionForm(id)
+    })
+
+    ipcMain.handle('extraction:createField', (_event, formId: string, input: ExtractionFieldInput) => {
+        return createExtractionField(formId, input)
+    })
+
+    ipcMain.handle('extraction:updateField', (_event, id: string, data: Partial<Omit<ExtractionFieldInput, 'parent_id'>>) => {
+        return updateExtractionField(id, data)
+    })
+
+    ipcMain.handle('extraction:moveField', (_event, id: string, direction: 'up' | 'down') => {
+        return moveExtractionField(id, direction)
+    })
+
+    ipcMain.handle('extraction:deleteField', (_event, id: string) => {
+        return deleteExtractionField(id)
+    })
+
+    ipcMain.handle('extraction:forPaper', (_event, paperId: string) => {
+        return getPaperExtraction(paperId)
+    })
+
+    ipcMain.handle('extraction:createArm', (_event, paperId: string, label: string) => {
+        return createExtractionArm(paperId, label)
+    })
+
+    ipcMain.handle('extraction:renameArm', (_event, id: string, label: string) => {
+        return renameExtractionArm(id, label)
+    })
+
+    ipcMain.handle('extraction:deleteArm', (_event, id: string) => {
+        return deleteExtractionArm(id)
+    })
+
+    ipcMain.handle('extraction:setValue', (_event, input: ExtractionValueInput) => {
+        return setExtractionValue(input)
+    })
+
+    // ── Meta-Analysis Handlers ──────────────────────────────────────────────
+    ipcMain.handle('meta:list', () => {
+        return listMetaAnalyses()
+    })
+
+    ipcMain.handle('meta:create', (_event, input: MetaAnalysisInput) => {
+        return createMetaAnalysis(input)
+    })
+
+    ipcMain.handle('meta:update', (_event, id: string, data: Partial<Pick<MetaAnalysis, 'name' | 'effect_measure' | 'method' | 'experimental_label' | 'control_label'>>) => {
+        return updateMetaAnalysis(id, data)
+    })
+
+    ipcMain.handle('meta:delete', (_event, id: string) => {
+        return deleteMetaAnalysis(id)
+    })
+
+    ipcMain.handle('meta:studies', (_event, analysisId: string) => {
+        return listMetaStudies(analysisId)
+    })
+
+    ipcMain.handle('meta:addStudy', (_event, analysisId: string, input: MetaStudyInput) => {
+        return addMetaStudies(analysisId, [input])[0]
+    })
+
+    ipcMain.handle('meta:addPapers', (_event, analysisId: string, paperIds: string[]) => {
+        return addPaperStudies(analysisId, paperIds)
+    })
+
+    ipcMain.handle('meta:updateStudy', (_event, id: string, data: Partial<MetaStudyInput>) => {
+        return updateMetaStudy(id, data)
+    })
+
+    ipcMain.handle('meta:deleteStudy', (_event, id: string) => {
+        return deleteMetaStudy(id)
+    })
+
+    ipcMain.handle('meta:importCsv', (event, analysisId: string) => {
+        return importMetaCsv(analysisId, BrowserWindow.fromWebContents(event.sender))
+    })
+
+    ipcMain.handle('meta:results', (_event, analysisId: string) => {
+        return getMetaResult(analysisId)
+    })
+
+    ipcMain.handle('meta:plot', (_event, kind: MetaPlotKind, analysisId: string) => {
+        return buildMetaPlot(kind, analysisId)
+    })
+
+    ipcMain.handle('meta:exportPlot', (event, kind: MetaPlotKind, analysisId: string, format: SvgExportFormat) => {
+        return exportMetaPlot(kind, analysisId, format, BrowserWindow.fromWebContents(event.sender))
+    })
+
+    // ── GRADE Handlers ───────────────────────────────────────────────────────
+    ipcMain.handle('grade:domains', () => {
+        return { domains: GRADE_DOMAINS, certainty: GRADE_CERTAINTY }
+    })
+
+    ipcMain.handle('grade:list', () => {
+        return listGradeAssessments()
+    })
+
+    ipcMain.handle('grade:get', (_event, id: string) => {
+        return getGradeAssessment(id)
+    })
+
+    ipcMain.handle('grade:create', (_event, name: string, studyDesign?: GradeStudyDesign) => {
+        return getGradeAssessment(createGradeOutcome(name, studyDesign).id)
+    })
+
+    ipcMain.handle('grade:update', (_event, id: string, data: GradeOutcomeUpdate) => {
+        if (data.certainty_override !== undefined) checkGradeCertainty(data.certainty_override)
+        updateGradeOutcome(id, data)
+        return getGradeAssessment(id)
+    })
+
+    ipcMain.handle('grade:move', (_event, id: string, direction: 'up' | 'down') => {
+        moveGradeOutcome(id, direction)
+        return listGradeAssessments()
+    })
+
+    ipcMain.handle('grade:delete', (_event, id: string) => {
+        return deleteGradeOutcome(id)
+    })
+
+    ipcMain.handle('grade:setDomain', (_event, id: string, domainId: string, data: { rating?: number; rationale?: string }) => {
+        if (data.rating !== undefined) checkGradeRating(domainId, data.rating)
+        else getGradeDomain(domainId) // throws for unknown domains
+        setGradeDomain(id, domainId, data)
+        return getGradeAssessment(id)
+    })
+
+    ipcMain.handle('grade:addEvidence', (_event, id: string, domainId: string, annotationId: string) => {
+        getGradeDomain(domainId) // throws for unknown domains
+        addGradeEvidence(id, domainId, annotationId)
+        return getGradeAssessment(id)
+    })
+
+    ipcMain.handle('grade:removeEvidence', (_event, id: string, domainId: string, annotationId: string) => {
+        removeGradeEvidence(id, domainId, annotationId)
+        return getGradeAssessment(id)
+    })
+
+    ipcMain.handle('grade:header', () => {
+        return getSofHeader()
+    })
+
+    ipcMain.handle('grade:setHeader', (_event, data: Partial<SofHeader>) => {
+        return setSofHeader(data)
+    })
+
+    ipcMain.handle('grade:sof', () => {
+        return buildSofTable()
+    })
+
+    ipcMain.handle('grade:exportSof', (event, format: SofExportFormat) => {
+        return exportSofTable(format, BrowserWindow.fromWebContents(event.sender))
+    })
+
+    // ── Search Handlers ──────────────────────────────────────────────────────
+    ipcMain.handle('search:library', (_event, query: string, scope?: SearchScope, filters?: SearchFilters) => {
+        return searchLibrary(query, scope, filters)
+    })
+
+    ipcMain.handle('search:everything', (_event, query: string) => {
+        return searchEverything(query)
+    })
+
+    // ── Import Handlers ──────────────────────────────────────────────────────
+    ipcMain.handle('import:chooseFile', (event) => {
+        return chooseImportFile(BrowserWindow.fromWebContents(event.sender))
+    })
+
+    ipcMain.handle('import:preview', (_event, filePath: string) => {
+        return previewImport(filePath)
+    })
+
+    ipcMain.handle('import:commit', (_event, filePath: string, options?: ImportOptions) => {
+        return commitImport(filePath, options)
+    })
+
+    // ── Export Handlers ──────────────────────────────────────────────────────
+    ipcMain.handle('export:matrix', (event, format: MatrixExportFormat, options?: MatrixExportOptions) => {
+        return exportMatrixToFile(format, options, BrowserWindow.fromWebContents(event.sender))
+    })
+
+    ipcMain.handle('export:references', (event, format: ReferenceExportFormat, scope: ReferenceExportScope) => {
+        return exportReferencesToFile(format, scope, BrowserWindow.fromWebContents(event.sender))
+    })
+
     // ── System Handlers ──────────────────────────────────────────────────────
     ipcMain.handle('system:dbPath', () => {
         return getDbPath()
@@ -255,8 +757,48 @@ export function registerIpcHandlers(): void {
         return getZoteroStatus()
     })
 
+    ipcMain.handle('zotero:libraries', () => {
+        return listZoteroLibraries()
+    })
+
+    ipcMain.handle('zotero:setLibraries', (_event, libraries: ZoteroLibrary[]) => {
+        return setZoteroLibraries(libraries)
+    })
+
     ipcMain.handle('zotero:sync', () => {
         return syncLibrary()
     })
+
+    ipcMain.handle('zotero:removals', () => {
+        return listZoteroRemovals()
+    })
+
+    ipcMain.handle('zotero:resolveRemovals', (_event, decisions: ZoteroRemovalDecision[]) => {
+        return resolveZoteroRemovals(decisions)
+    })
+
+    ipcMain.handle('zotero:conflicts', () => {
+        return listZoteroConflicts()
+    })
+
+    ipcMain.handle('zotero:resolveConflict', (_event, paperId: string, field: SyncedField, choice: ZoteroConflictChoice) => {
+        return resolveZoteroConflict(paperId, field, choice)
+    })
+
+    ipcMain.handle('zotero:setWriteBack', (_event, options: Partial<WriteBackOptions>) => {
+        return setWriteBackOptions(options)
+    })
+
+    ipcMain.handle('zotero:annotationRules', () => {
+        return listZoteroAnnotationRules()
+    })
+
+    ipcMain.handle('zotero:saveAnnotationRule', (_event, input: ZoteroAnnotationRuleInput) => {
+        return setAnnotationRule(input)
+    })
+
+    ipcMain.handle('zotero:deleteAnnotationRule', (_event, id: string) => {
+        return removeAnnotationRule(id)
+    })
 }
 
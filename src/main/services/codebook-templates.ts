@@ -0,0 +1,198 @@
+// ============================================================================
+// ThreadMed — Codebook Templates
+// ============================================================================
+// Starting codebooks for new projects. The built-in templates cover the
+// common question frameworks:
+//   - PICO:   the ThreadMed default (same nodes as seedDefaultNodes)
+//   - PICOS:  PICO plus study design, for reviews that mix designs
+//   - SPIDER: qualitative and mixed-methods evidence (Cooke et al., 2012)
+//   - PEO:    qualitative and aetiology questions without a comparator
+//   - PECO:   exposure questions in environmental and occupational health
+//   - CHARMS: prognostic model studies (Moons et al., 2014)
+//
+// Users can save a project's codebook as their own template. Those live in a
+// "codebook-templates.json" file in Electron's userData, next to the recent
+// projects registry, so they are available to every project.
+// ============================================================================
+
+import { app } from 'electron'
+import { join } from 'path'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { v4 as uuidv4 } from 'uuid'
+import { exportCodebook, type CodebookNodeSpec } from '../database/repositories/nodes'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface CodebookTemplate {
+    id: string
+    name: string
+    description: string
+    /** Built-in templates cannot be deleted */
+    builtIn: boolean
+    nodes: CodebookNodeSpec[]
+}
+
+/** Template used when none is chosen */
+export const DEFAULT_TEMPLATE_ID = 'pico'
+
+// ── Built-in Templates ───────────────────────────────────────────────────────
+
+const STUDY_DESIGN_TAGS = ['Randomised controlled trial', 'Cluster randomised trial', 'Cohort study', 'Case-control study', 'Cross-sectional study']
+
+const LIMITATIONS: CodebookNodeSpec = { name: 'Limitations', color: '#EF4444' }
+const CONCLUSIONS: CodebookNodeSpec = { name: 'Conclusions', color: '#06B6D4' }
+
+const BUILT_IN_TEMPLATES: CodebookTemplate[] = [
+    {
+        id: 'pico',
+        name: 'PICO',
+        description: 'Population, Intervention, Comparison, Outcomes — for intervention reviews.',
+        builtIn: true,
+        nodes: [
+            { name: 'Population', color: '#3B82F6' },
+            { name: 'Intervention', color: '#10B981' },
+            { name: 'Comparison', color: '#F59E0B' },
+            { name: 'Outcomes', color: '#8B5CF6' },
+            LIMITATIONS,
+            CONCLUSIONS
+        ]
+    },
+    {
+        id: 'picos',
+        name: 'PICOS',
+        description: 'PICO plus Study design — for intervention reviews that include several designs.',
+        builtIn: true,
+        nodes: [
+            { name: 'Population', color: '#3B82F6' },
+            { name: 'Intervention', color: '#10B981' },
+            { name: 'Comparison', color: '#F59E0B' },
+            { name: 'Outcomes', color: '#8B5CF6' },
+            { name: 'Study design', color: '#64748B', tags: STUDY_DESIGN_TAGS },
+            LIMITATIONS,
+            CONCLUSIONS
+        ]
+    },
+    {
+        id: 'spider',
+        name: 'SPIDER',
+        description: 'Sample, Phenomenon of Interest, Design, Evaluation, Research type — for qualitative and mixed-methods reviews.',
+        builtIn: true,
+        nodes: [
+            { name: 'Sample', color: '#3B82F6' },
+            { name: 'Phenomenon of Interest', color: '#EC4899' },
+            { name: 'Design', color: '#64748B', tags: ['Interviews', 'Focus groups', 'Ethnography', 'Observation', 'Questionnaire'] },
+            { name: 'Evaluation', color: '#8B5CF6', tags: ['Experiences', 'Views', 'Attitudes', 'Perceptions', 'Behaviours'] },
+            { name: 'Research type', color: '#F59E0B', tags: ['Qualitative', 'Quantitative', 'Mixed methods'] },
+            LIMITATIONS,
+            CONCLUSIONS
+        ]
+    },
+    {
+        id: 'peo',
+        name: 'PEO',
+        description: 'Population, Exposure, Outcomes — for qualitative and aetiology questions without a comparator.',
+        builtIn: true,
+        nodes: [
+            { name: 'Population', color: '#3B82F6' },
+            { name: 'Exposure', color: '#F97316' },
+            { name: 'Outcomes', color: '#8B5CF6' },
+            LIMITATIONS,
+            CONCLUSIONS
+        ]
+    },
+    {
+        id: 'peco',
+        name: 'PECO',
+        description: 'Population, Exposure, Comparator, Outcomes — for environmental, occupational and other exposure questions.',
+        builtIn: true,
+        nodes: [
+            { name: 'Population', color: '#3B82F6' },
+            { name: 'Exposure', color: '#F97316' },
+            { name: 'Comparator', color: '#F59E0B', tags: ['Unexposed', 'Lower exposure', 'Background exposure'] },
+            { name: 'Outcomes', color: '#8B5CF6' },
+            LIMITATIONS,
+            CONCLUSIONS
+        ]
+    },
+    {
+        id: 'charms',
+        name: 'CHARMS',
+        description: 'The CHARMS checklist domains — for reviews of prediction model studies.',
+        builtIn: true,
+        nodes: [
+            { name: 'Source of data', color: '#64748B', tags: ['Prospective cohort', 'Retrospective cohort', 'Case-control', 'Randomised trial', 'Registry'] },
+            { name: 'Participants', color: '#3B82F6' },
+            { name: 'Outcome to be predicted', color: '#8B5CF6' },
+            { name: 'Candidate predictors', color: '#10B981' },
+            { name: 'Sample size', color: '#84CC16' },
+            { name: 'Missing data', color: '#F59E0B', tags: ['Complete case analysis', 'Multiple imputation', 'Single imputation'] },
+            { name: 'Model development', color: '#6366F1', tags: ['Logistic regression', 'Cox regression', 'Machine learning'] },
+            { name: 'Model performance', color: '#EC4899', tags: ['Calibration', 'Discrimination', 'Classification'] },
+            { name: 'Model evaluation', color: '#14B8A6', tags: ['Internal validation', 'External validation'] },
+            { name: 'Results', color: '#06B6D4' },
+            { name: 'Interpretation and discussion', color: '#EF4444' }
+        ]
+    }
+]
+
+// ── User Templates ───────────────────────────────────────────────────────────
+
+function getTemplatesPath(): string {
+    return join(app.getPath('userData'), 'codebook-templates.json')
+}
+
+function readUserTemplates(): CodebookTemplate[] {
+    const path = getTemplatesPath()
+    if (!existsSync(path)) return []
+    try {
+        const templates = JSON.parse(readFileSync(path, 'utf-8')) as CodebookTemplate[]
+        return templates.map(t => ({ ...t, builtIn: false }))
+    } catch {
+        return []
+    }
+}
+
+function writeUserTemplates(templates: CodebookTemplate[]): void {
+    writeFileSync(getTemplatesPath(), JSON.stringify(templates, null, 2), 'utf-8')
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Built-in templates first, then the user's own in the order they were saved */
+export function listCodebookTemplates(): CodebookTemplate[] {
+    return [...BUILT_IN_TEMPLATES, ...readUserTemplates()]
+}
+
+export function getCodebookTemplate(id: string): CodebookTemplate {
+    const template = listCodebookTemplates().find(t => t.id === id)
+    if (!template) throw new Error('Codebook template not found')
+    return template
+}
+
+/** Save the open project's nodes, sub-nodes and tags as a new template */
+export function saveCodebookTemplate(name: string, description = ''): CodebookTemplate {
+    const trimmed = name.trim()
+    if (!trimmed) throw new Error('Template name cannot be empty')
+    if (listCodebookTemplates().some(t => t.name.toLowerCase() === trimmed.toLowerCase())) {
+        throw new Error(`A template named "${trimmed}" already exists`)
+    }
+
+    const nodes = exportCodebook()
+    if (nodes.length === 0) throw new Error('The codebook is empty')
+
+    const template: CodebookTemplate = {
+        id: uuidv4(),
+        name: trimmed,
+        description: description.trim(),
+        builtIn: false,
+        nodes
+    }
+    writeUserTemplates([...readUserTemplates(), template])
+    return template
+}
+
+/** Delete one of the user's templates (built-in templates cannot be deleted) */
+export function deleteCodebookTemplate(id: string): void {
+    if (BUILT_IN_TEMPLATES.some(t => t.id === id)) throw new Error('Built-in templates cannot be deleted')
+    writeUserTemplates(readUserTemplates().filter(t => t.id !== id))
+}
@@ -0,0 +1,174 @@
+// ============================================================================
+// ThreadMed — DOCX Writer
+// ============================================================================
+// Writes simple WordprocessingML documents (inside a ZIP): headings,
+// paragraphs of plain or bold runs, and bordered tables whose cells can
+// span rows and columns and carry a background colour. Enough for the tables a
+// review exports to Word; everything else is left to the word processor.
+// ============================================================================
+
+import { createZip } from './zip-writer'
+
+export interface DocxRun {
+    text: string
+    bold?: boolean
+    italic?: boolean
+    /** Superscript, for footnote markers */
+    superscript?: boolean
+    /** Hex colour without "#" */
+    color?: string
+}
+
+export interface DocxCell {
+    runs: DocxRun[]
+    /** Number of grid columns the cell spans (default 1) */
+    colSpan?: number
+    /** Merge with the cells below ('restart') or above ('continue') */
+    vMerge?: 'restart' | 'continue'
+    /** Background as hex without "#" */
+    shading?: string
+}
+
+export type DocxBlock =
+    | { type: 'heading'; level: 1 | 2; text: string }
+    | { type: 'paragraph'; runs: DocxRun[]; size?: number }
+    | { type: 'table'; rows: DocxCell[][]; columnWidths: number[]; headerRows?: number }
+
+export interface DocxDocument {
+    blocks: DocxBlock[]
+    landscape?: boolean
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Strip control characters that are illegal in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+/** `size` is in half-points, the unit Word uses for font sizes */
+function runXml(run: DocxRun, size?: number): string {
+    const props = [
+        run.bold ? '<w:b/>' : '',
+        run.italic ? '<w:i/>' : '',
+        run.color ? `<w:color w:val="${run.color}"/>` : '',
+        size ? `<w:sz w:val="${size}"/>` : '',
+        run.superscript ? '<w:vertAlign w:val="superscript"/>' : ''
+    ].join('')
+    // Line breaks inside a run become <w:br/>
+    const text = run.text.split('\n')
+        .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+        .join('<w:br/>')
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${text}</w:r>`
+}
+
+function paragraphXml(runs: DocxRun[], options: { style?: string; size?: number } = {}): string {
+    const props = options.style ? `<w:pPr><w:pStyle w:val="${options.style}"/></w:pPr>` : ''
+    return `<w:p>${props}${runs.map(r => runXml(r, options.size)).join('')}</w:p>`
+}
+
+function tableXml(block: Extract<DocxBlock, { type: 'table' }>): string {
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="999999"/>`
+    const props =
+        '<w:tblPr><w:tblW w:w="0" w:type="auto"/>' +
+        `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>` +
+        '<w:tblCellMar><w:top w:w="40" w:type="dxa"/><w:left w:w="80" w:type="dxa"/><w:bottom w:w="40" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar>' +
+        '</w:tblPr>'
+    const grid = `<w:tblGrid>${block.columnWidths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>`
+
+    const rows = block.rows.map((row, r) => {
+        let column = 0
+        const cells = row.map(cell => {
+            const span = cell.colSpan ?? 1
+            const width = block.columnWidths.slice(column, column + span).reduce((sum, w) => sum + w, 0)
+            column += span
+            const cellProps =
+                `<w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>` +
+                (span > 1 ? `<w:gridSpan w:val="${span}"/>` : '') +
+                (cell.vMerge ? `<w:vMerge w:val="${cell.vMerge}"/>` : '') +
+                (cell.shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${cell.shading}"/>` : '') +
+                '</w:tcPr>'
+            return `<w:tc>${cellProps}${paragraphXml(cell.runs, { size: 18 })}</w:tc>`
+        }).join('')
+        const rowProps = r < (block.headerRows ?? 0) ? '<w:trPr><w:tblHeader/></w:trPr>' : ''
+        return `<w:tr>${rowProps}${cells}</w:tr>`
+    }).join('')
+
+    // Word needs a paragraph between adjacent tables and after the last one
+    return `<w:tbl>${props}${grid}${rows}</w:tbl><w:p/>`
+}
+
+function blockXml(block: DocxBlock): string {
+    switch (block.type) {
+        case 'heading':
+            return paragraphXml([{ text: block.text }], { style: `Heading${block.level}` })
+        case 'paragraph':
+            return paragraphXml(block.runs, { size: block.size })
+        case 'table':
+            return tableXml(block)
+    }
+}
+
+const STYLES_XML =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri" w:eastAsia="Calibri"/>' +
+    '<w:sz w:val="21"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="80"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+    '<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+    '<w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>' +
+    '</w:styles>'
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Build a .docx file from a list of blocks (A4, portrait unless `landscape`) */
+export function buildDocument(doc: DocxDocument): Buffer {
+    // A4 in twentieths of a point, 2 cm margins
+    const [width, height] = doc.landscape ? [16838, 11906] : [11906, 16838]
+    const section =
+        `<w:sectPr><w:pgSz w:w="${width}" w:h="${height}"${doc.landscape ? ' w:orient="landscape"' : ''}/>` +
+        '<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>'
+
+    const documentXml =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+        `<w:body>${doc.blocks.map(blockXml).join('')}${section}</w:body>` +
+        '</w:document>'
+
+    const contentTypes =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+        '</Types>'
+
+    const rootRels =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+        '</Relationships>'
+
+    const documentRels =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>'
+
+    return createZip([
+        { name: '[Content_Types].xml', data: contentTypes },
+        { name: '_rels/.rels', data: rootRels },
+        { name: 'word/document.xml', data: documentXml },
+        { name: 'word/_rels/document.xml.rels', data: documentRels },
+        { name: 'word/styles.xml', data: STYLES_XML }
+    ])
+}
@@ -0,0 +1,251 @@
+// ============================================================================
+// ThreadMed — Duplicate Finder
+// ============================================================================
+// Finds papers that are probably the same record, e.g. one trial imported
+// from Zotero, from PubMed and from Embase. Two papers match when:
+//   - their DOIs are the same once normalized, or
+//   - their titles are at least 90% similar (character bigram overlap),
+//     their years are within one of each other (epub vs print) and their
+//     first authors share a surname; a missing year or author doesn't block
+// Matches are chained into groups, so A~B and B~C put A, B and C together.
+// Pairs the user dismissed as "not duplicates" are never matched again.
+// ============================================================================
+
+import { existsSync } from 'fs'
+import { join, basename } from 'path'
+import { getDb, getPdfDir } from '../database/connection'
+import { listPapers, type PaperWithAuthors } from '../database/repositories/papers'
+import { extractLastName } from './pdf-namer'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface DuplicateCandidate extends PaperWithAuthors {
+    annotation_count: number
+    folder_count: number
+    has_pdf: boolean
+}
+
+export interface DuplicateMatch {
+    paper_a: string
+    paper_b: string
+    reason: string
+}
+
+export interface DuplicateGroup {
+    papers: DuplicateCandidate[]
+    matches: DuplicateMatch[]
+    /** The paper suggested to keep: most highlights, then a PDF, then Zotero-linked, then oldest */
+    suggested_id: string
+}
+
+interface Signature {
+    paper: PaperWithAuthors
+    doi: string | null
+    title: string
+    bigrams: Map<string, number>
+    bigramCount: number
+    surname: string | null
+    authorTokens: Set<string>
+}
+
+const TITLE_THRESHOLD = 0.9
+/** Dice ≥ 0.9 is impossible when one title has fewer than this share of the other's bigrams */
+const LENGTH_RATIO = TITLE_THRESHOLD / (2 - TITLE_THRESHOLD)
+
+// ── Normalization ────────────────────────────────────────────────────────────
+
+function normalizeText(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+}
+
+function normalizeDoi(doi: string | null): string | null {
+    const trimmed = (doi ?? '').trim().toLowerCase().replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/, '')
+    return trimmed || null
+}
+
+function bigrams(text: string): Map<string, number> {
+    const compact = text.replace(/ /g, '')
+    const counts = new Map<string, number>()
+    for (let i = 0; i < compact.length - 1; i++) {
+        const gram = compact.slice(i, i + 2)
+        counts.set(gram, (counts.get(gram) ?? 0) + 1)
+    }
+    return counts
+}
+
+/** Sørensen–Dice coefficient over character bigrams */
+function titleSimilarity(a: Signature, b: Signature): number {
+    if (a.bigramCount === 0 || b.bigramCount === 0) return 0
+    let shared = 0
+    for (const [gram, count] of a.bigrams) {
+        shared += Math.min(count, b.bigrams.get(gram) ?? 0)
+    }
+    return (2 * shared) / (a.bigramCount + b.bigramCount)
+}
+
+function signature(paper: PaperWithAuthors): Signature {
+    const title = normalizeText(paper.title)
+    const grams = bigrams(title)
+    const firstAuthor = paper.authors[0] ? normalizeText(paper.authors[0]) : ''
+    const surname = paper.authors[0] ? normalizeText(extractLastName(paper.authors[0])) : ''
+    return {
+        paper,
+        doi: normalizeDoi(paper.doi),
+        title,
+        bigrams: grams,
+        bigramCount: [...grams.values()].reduce((sum, c) => sum + c, 0),
+        surname: surname || null,
+        authorTokens: new Set(firstAuthor.split(' ').filter(t => t.length > 1))
+    }
+}
+
+/**
+ * "Smith, John" and "Smith JA" should match, so compare one surname against
+ * all the tokens of the other first author
+ */
+function sameFirstAuthor(a: Signature, b: Signature): boolean {
+    if (!a.surname || !b.surname) return true
+    return a.surname === b.surname || b.authorTokens.has(a.surname) || a.authorTokens.has(b.surname)
+}
+
+function compatibleYears(a: number | null, b: number | null): boolean {
+    return a === null || b === null || Math.abs(a - b) <= 1
+}
+
+// ── Matching ─────────────────────────────────────────────────────────────────
+
+function pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`
+}
+
+function loadDismissals(): Set<string> {
+    const rows = getDb().prepare('SELECT paper_a, paper_b FROM duplicate_dismissals').all() as Array<{ paper_a: string; paper_b: string }>
+    return new Set(rows.map(r => pairKey(r.paper_a, r.paper_b)))
+}
+
+function findMatches(signatures: Signature[], dismissed: Set<string>): DuplicateMatch[] {
+    const matches: DuplicateMatch[] = []
+    const matched = new Set<string>()
+    const add = (a: Signature, b: Signature, reason: string) => {
+        const key = pairKey(a.paper.id, b.paper.id)
+        if (dismissed.has(key) || matched.has(key)) return
+        matched.add(key)
+        matches.push({ paper_a: a.paper.id, paper_b: b.paper.id, reason })
+    }
+
+    const byDoi = new Map<string, Signature[]>()
+    for (const sig of signatures) {
+        if (!sig.doi) continue
+        if (!byDoi.has(sig.doi)) byDoi.set(sig.doi, [])
+        byDoi.get(sig.doi)!.push(sig)
+    }
+    for (const group of byDoi.values()) {
+        for (let i = 1; i < group.length; i++) add(group[0], group[i], 'Same DOI')
+    }
+
+    // Sorted by title length, only titles of similar length can reach the threshold
+    const sorted = signatures.filter(s => s.bigramCount > 0).sort((a, b) => a.bigramCount - b.bigramCount)
+    for (let i = 0; i < sorted.length; i++) {
+        const a = sorted[i]
+        for (let j = i + 1; j < sorted.length && a.bigramCount >= sorted[j].bigramCount * LENGTH_RATIO; j++) {
+            const b = sorted[j]
+            if (!compatibleYears(a.paper.year, b.paper.year) || !sameFirstAuthor(a, b)) continue
+            const similarity = titleSimilarity(a, b)
+            if (similarity < TITLE_THRESHOLD) continue
+
+            const details = [similarity === 1 ? 'Same title' : `Titles ${Math.round(similarity * 100)}% similar`]
+            if (a.paper.year !== null && a.paper.year === b.paper.year) details.push('same year')
+            if (a.surname && b.surname) details.push('same first author')
+            add(a, b, details.join(', '))
+        }
+    }
+    return matches
+}
+
+/** Union-find over the matched pairs */
+function groupMatches(matches: DuplicateMatch[]): string[][] {
+    const parent = new Map<string, string>()
+    const find = (id: string): string => {
+        const p = parent.get(id) ?? id
+        if (p === id) return id
+        const root = find(p)
+        parent.set(id, root)
+        return root
+    }
+    for (const m of matches) {
+        const a = find(m.paper_a)
+        const b = find(m.paper_b)
+        if (a !== b) parent.set(a, b)
+    }
+
+    const groups = new Map<string, string[]>()
+    for (const id of new Set(matches.flatMap(m => [m.paper_a, m.paper_b]))) {
+        const root = find(id)
+        if (!groups.has(root)) groups.set(root, [])
+        groups.get(root)!.push(id)
+    }
+    return [...groups.values()]
+}
+
+function suggestCanonical(papers: DuplicateCandidate[]): string {
+    return [...papers].sort((a, b) =>
+        b.annotation_count - a.annotation_count
+        || Number(b.has_pdf) - Number(a.has_pdf)
+        || Number(!!b.zotero_key) - Number(!!a.zotero_key)
+        || a.date_added.localeCompare(b.date_added)
+    )[0].id
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Group the library's probable duplicates, largest groups first */
+export function findDuplicateGroups(): DuplicateGroup[] {
+    const papers = listPapers()
+    const matches = findMatches(papers.map(signature), loadDismissals())
+    if (matches.length === 0) return []
+
+    const db = getDb()
+    const annotationCount = db.prepare('SELECT COUNT(*) as count FROM annotations WHERE paper_id = ?')
+    const folderCount = db.prepare('SELECT COUNT(*) as count FROM paper_folders WHERE paper_id = ?')
+    const byId = new Map(papers.map(p => [p.id, p]))
+    const pdfDir = getPdfDir()
+
+    return groupMatches(matches)
+        .map(ids => {
+            const members: DuplicateCandidate[] = ids.map(id => {
+                const paper = byId.get(id)!
+                return {
+                    ...paper,
+                    annotation_count: (annotationCount.get(id) as { count: number }).count,
+                    folder_count: (folderCount.get(id) as { count: number }).count,
+                    has_pdf: !!paper.pdf_filename && existsSync(join(pdfDir, basename(paper.pdf_filename)))
+                }
+            })
+            const memberIds = new Set(ids)
+            return {
+                papers: members.sort((a, b) => a.date_added.localeCompare(b.date_added)),
+                matches: matches.filter(m => memberIds.has(m.paper_a)),
+                suggested_id: suggestCanonical(members)
+            }
+        })
+        .sort((a, b) => b.papers.length - a.papers.length)
+}
+
+/** Record that these papers are not duplicates of each other */
+export function dismissDuplicates(paperIds: string[]): void {
+    const db = getDb()
+    const insert = db.prepare('INSERT OR IGNORE INTO duplicate_dismissals (paper_a, paper_b) VALUES (?, ?)')
+    db.transaction(() => {
+        for (let i = 0; i < paperIds.length; i++) {
+            for (let j = i + 1; j < paperIds.length; j++) {
+                const [a, b] = [paperIds[i], paperIds[j]].sort()
+                insert.run(a, b)
+            }
+        }
+    })()
+}
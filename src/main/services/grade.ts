@@ -0,0 +1,310 @@
+// ============================================================================
+// ThreadMed — GRADE
+// ============================================================================
+// The GRADE domains and the rule that turns ratings into certainty:
+//   - Evidence from randomized trials starts at high certainty, from
+//     observational studies at low
+//   - Risk of bias, inconsistency, indirectness and imprecision rate down
+//     one or two levels, publication bias one
+//   - A large effect, a dose–response gradient and plausible residual
+//     confounding rate up
+//   - The result is kept between very low and high, and the reviewer can
+//     override it
+// Effect columns the reviewer leaves empty are filled in from the linked
+// meta-analysis: studies, participants, the relative effect and, for binary
+// outcomes, the absolute effects per 1,000 at the control group risk.
+// ============================================================================
+
+import { getMetaAnalysis, listMetaStudies } from '../database/repositories/meta-analysis'
+import {
+    getGradeOutcomeRecord,
+    listGradeOutcomes,
+    type GradeEvidence,
+    type GradeOutcomeRecord
+} from '../database/repositories/grade'
+import { getMetaResult } from './meta-analysis'
+import { isRatioMeasure } from './meta-stats'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type GradeCertainty = 'high' | 'moderate' | 'low' | 'very_low'
+
+export interface GradeRatingOption {
+    value: number
+    label: string
+}
+
+export interface GradeDomain {
+    id: string
+    name: string
+    /** Downgrading domains rate down, upgrading factors rate up */
+    direction: 'down' | 'up'
+    /** What to consider, shown with the domain */
+    guidance: string
+    options: GradeRatingOption[]
+}
+
+export interface GradeCertaintyLevel {
+    value: GradeCertainty
+    label: string
+    /** ⊕⊕⊕⊕ to ⊕◯◯◯ */
+    symbol: string
+    color: string
+    meaning: string
+}
+
+export interface GradeDomainResult {
+    domain_id: string
+    rating: number
+    rationale: string
+    evidence: GradeEvidence[]
+}
+
+/** Effect columns of the Summary of Findings, entered or from the meta-analysis */
+export interface GradeEffect {
+    studies: number | null
+    participants: number | null
+    relative_effect: string
+    comparator_risk: string
+    intervention_risk: string
+}
+
+export interface GradeAssessment extends Omit<GradeOutcomeRecord, 'domains' | 'evidence'> {
+    domains: GradeDomainResult[]
+    meta_analysis_name: string | null
+    effect: GradeEffect
+    derived_certainty: GradeCertainty
+    certainty: GradeCertainty
+}
+
+// ── Definitions ──────────────────────────────────────────────────────────────
+
+const DOWNGRADE: GradeRatingOption[] = [
+    { value: 0, label: 'Not serious' },
+    { value: -1, label: 'Serious' },
+    { value: -2, label: 'Very serious' }
+]
+
+export const GRADE_DOMAINS: GradeDomain[] = [
+    {
+        id: 'risk_of_bias',
+        name: 'Risk of bias',
+        direction: 'down',
+        guidance: 'Limitations in the design or conduct of the studies contributing to the outcome.',
+        options: DOWNGRADE
+    },
+    {
+        id: 'inconsistency',
+        name: 'Inconsistency',
+        direction: 'down',
+        guidance: 'Unexplained heterogeneity: point estimates that vary widely, confidence intervals that barely overlap, high I².',
+        options: DOWNGRADE
+    },
+    {
+        id: 'indirectness',
+        name: 'Indirectness',
+        direction: 'down',
+        guidance: 'Differences between the studies and the review question in population, intervention, comparator or outcome.',
+        options: DOWNGRADE
+    },
+    {
+        id: 'imprecision',
+        name: 'Imprecision',
+        direction: 'down',
+        guidance: 'Few participants or events, or a confidence interval that includes both appreciable benefit and harm.',
+        options: DOWNGRADE
+    },
+    {
+        id: 'publication_bias',
+        name: 'Publication bias',
+        direction: 'down',
+        guidance: 'Selective publication suspected from funnel-plot asymmetry, small industry-funded studies or missing trials.',
+        options: [
+            { value: 0, label: 'Undetected' },
+            { value: -1, label: 'Strongly suspected' }
+        ]
+    },
+    {
+        id: 'large_effect',
+        name: 'Large effect',
+        direction: 'up',
+        guidance: 'A large (RR > 2 or < 0.5) or very large (RR > 5 or < 0.2) effect with no plausible confounders.',
+        options: [
+            { value: 0, label: 'No' },
+            { value: 1, label: 'Large' },
+            { value: 2, label: 'Very large' }
+        ]
+    },
+    {
+        id: 'dose_response',
+        name: 'Dose–response gradient',
+        direction: 'up',
+        guidance: 'The effect increases with the dose or exposure.',
+        options: [
+            { value: 0, label: 'No' },
+            { value: 1, label: 'Present' }
+        ]
+    },
+    {
+        id: 'confounding',
+        name: 'Plausible confounding',
+        direction: 'up',
+        guidance: 'All plausible residual confounding would reduce a demonstrated effect, or suggest a spurious effect when none was observed.',
+        options: [
+            { value: 0, label: 'No' },
+            { value: 1, label: 'Would strengthen the effect' }
+        ]
+    }
+]
+
+export const GRADE_CERTAINTY: GradeCertaintyLevel[] = [
+    {
+        value: 'high',
+        label: 'High',
+        symbol: '⊕⊕⊕⊕',
+        color: '#2E7D32',
+        meaning: 'Very confident that the true effect lies close to the estimate.'
+    },
+    {
+        value: 'moderate',
+        label: 'Moderate',
+        symbol: '⊕⊕⊕◯',
+        color: '#7CB342',
+        meaning: 'Moderately confident: the true effect is likely close to the estimate, but may be substantially different.'
+    },
+    {
+        value: 'low',
+        label: 'Low',
+        symbol: '⊕⊕◯◯',
+        color: '#F9A825',
+        meaning: 'Limited confidence: the true effect may be substantially different from the estimate.'
+    },
+    {
+        value: 'very_low',
+        label: 'Very low',
+        symbol: '⊕◯◯◯',
+        color: '#C62828',
+        meaning: 'Very little confidence: the true effect is likely to be substantially different from the estimate.'
+    }
+]
+
+/** Certainty levels from the bottom, so the index is the number of ⊕ minus one */
+const LEVELS: GradeCertainty[] = ['very_low', 'low', 'moderate', 'high']
+
+export function getGradeDomain(id: string): GradeDomain {
+    const domain = GRADE_DOMAINS.find(d => d.id === id)
+    if (!domain) throw new Error(`Unknown GRADE domain: ${id}`)
+    return domain
+}
+
+/** Throws unless `rating` is one of the domain's options */
+export function checkGradeRating(domainId: string, rating: number): void {
+    const domain = getGradeDomain(domainId)
+    if (!domain.options.some(o => o.value === rating)) throw new Error(`Invalid rating for ${domain.name}: ${rating}`)
+}
+
+export function checkGradeCertainty(value: string | null): void {
+    if (value !== null && !LEVELS.includes(value as GradeCertainty)) throw new Error(`Unknown certainty: ${value}`)
+}
+
+// ── Effects From the Meta-Analysis ───────────────────────────────────────────
+
+/** Intervals are written "0.32 to 0.66", so negative bounds stay readable */
+function fmt(value: number): string {
+    return value.toFixed(2)
+}
+
+function perThousand(risk: number): string {
+    return Math.round(risk * 1000).toLocaleString('en-US')
+}
+
+function differenceText(value: number): string {
+    return `${fmt(Math.abs(value))} ${value < 0 ? 'lower' : 'higher'}`
+}
+
+function metaEffect(metaAnalysisId: string): GradeEffect | null {
+    const analysis = getMetaAnalysis(metaAnalysisId)
+    if (!analysis) return null
+    const result = getMetaResult(metaAnalysisId)
+    const pooledIds = new Set(result.studies.filter(s => s.weight !== null).map(s => s.id))
+    const studies = listMetaStudies(metaAnalysisId).filter(s => pooledIds.has(s.id))
+    const participants = studies.reduce((sum, s) => sum + (s.n_e ?? 0) + (s.n_c ?? 0), 0)
+
+    const effect: GradeEffect = {
+        studies: result.k,
+        participants: participants || null,
+        relative_effect: '',
+        comparator_risk: '',
+        intervention_risk: ''
+    }
+    const pooled = result.pooled
+    if (!pooled) return effect
+
+    const measure = analysis.effect_measure
+    if (isRatioMeasure(measure)) {
+        effect.relative_effect = `${measure} ${fmt(pooled.effect)} (${fmt(pooled.ci_lower)} to ${fmt(pooled.ci_upper)})`
+        const events = studies.reduce((sum, s) => sum + (s.events_c ?? 0), 0)
+        const total = studies.reduce((sum, s) => sum + (s.n_c ?? 0), 0)
+        if (total > 0) {
+            // Assumed risk: the pooled control group risk
+            const risk = events / total
+            const corresponding = (ratio: number) => measure === 'RR'
+                ? Math.min(1, risk * ratio)
+                : (ratio * risk) / (1 - risk + ratio * risk)
+            effect.comparator_risk = `${perThousand(risk)} per 1,000`
+            effect.intervention_risk = `${perThousand(corresponding(pooled.effect))} per 1,000 ` +
+                `(${perThousand(corresponding(pooled.ci_lower))} to ${perThousand(corresponding(pooled.ci_upper))})`
+        }
+    } else {
+        effect.intervention_risk = `${measure} ${differenceText(pooled.effect)} ` +
+            `(${differenceText(pooled.ci_lower)} to ${differenceText(pooled.ci_upper)})`
+    }
+    return effect
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────────────
+
+export function evaluateGradeOutcome(record: GradeOutcomeRecord): GradeAssessment {
+    const domains = GRADE_DOMAINS.map(domain => {
+        const stored = record.domains.find(d => d.domain_id === domain.id)
+        return {
+            domain_id: domain.id,
+            rating: stored?.rating ?? 0,
+            rationale: stored?.rationale ?? '',
+            evidence: record.evidence.filter(e => e.domain_id === domain.id)
+        }
+    })
+
+    const start = record.study_design === 'randomized' ? 3 : 1
+    const level = Math.max(0, Math.min(3, start + domains.reduce((sum, d) => sum + d.rating, 0)))
+    const derived = LEVELS[level]
+
+    const fromMeta = record.meta_analysis_id ? metaEffect(record.meta_analysis_id) : null
+    const effect: GradeEffect = {
+        studies: record.studies ?? fromMeta?.studies ?? null,
+        participants: record.participants ?? fromMeta?.participants ?? null,
+        relative_effect: record.relative_effect || fromMeta?.relative_effect || '',
+        comparator_risk: record.comparator_risk || fromMeta?.comparator_risk || '',
+        intervention_risk: record.intervention_risk || fromMeta?.intervention_risk || ''
+    }
+
+    const { domains: _domains, evidence: _evidence, ...outcome } = record
+    return {
+        ...outcome,
+        domains,
+        meta_analysis_name: record.meta_analysis_id ? getMetaAnalysis(record.meta_analysis_id)?.name ?? null : null,
+        effect,
+        derived_certainty: derived,
+        certainty: (record.certainty_override as GradeCertainty | null) ?? derived
+    }
+}
+
+export function getGradeAssessment(id: string): GradeAssessment | null {
+    const record = getGradeOutcomeRecord(id)
+    return record ? evaluateGradeOutcome(record) : null
+}
+
+/** Every outcome in Summary of Findings order, with its certainty */
+export function listGradeAssessments(): GradeAssessment[] {
+    return listGradeOutcomes().map(o => getGradeAssessment(o.id)!)
+}
@@ -0,0 +1,390 @@
+// ============================================================================
+// ThreadMed — Synthesis Matrix Export
+// ============================================================================
+// Turns the papers × nodes matrix into files reviewers can hand on:
+//   - CSV:      one row per paper, one column per node (plus optional tags)
+//   - XLSX:     an overview sheet, then one long-format sheet per node and
+//               one for extracted values
+//   - Markdown: a "characteristics of included studies" table
+//   - HTML:     the same table as a standalone, printable document
+// Fields of the data-extraction forms follow the node columns.
+// ============================================================================
+
+import { BrowserWindow, dialog } from 'electron'
+import { writeFileSync } from 'fs'
+import { listPapers, type PaperWithAuthors } from '../database/repositories/papers'
+import { listNodeTree, type NodeTreeEntry } from '../database/repositories/nodes'
+import { getMatrixAnnotations, type MatrixAnnotation } from '../database/repositories/annotations'
+import { getExtractionMatrix, type ExtractionCell, type ExtractionColumn } from '../database/repositories/extraction'
+import { extractLastName } from './pdf-namer'
+import { buildWorkbook, type CellValue, type Sheet } from './xlsx-writer'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type MatrixExportFormat = 'csv' | 'xlsx' | 'markdown' | 'html'
+
+export interface MatrixExportOptions {
+    /** Add a "<Node> tags" column after every node column */
+    includeTags?: boolean
+    includeYear?: boolean
+    includeAuthors?: boolean
+    includeDoi?: boolean
+    /** Add a column per data-extraction field after the nodes (default true) */
+    includeExtraction?: boolean
+    /** Skip papers without any annotations or extracted values (default true) */
+    codedOnly?: boolean
+}
+
+interface MatrixRow {
+    paper: PaperWithAuthors
+    study: string
+    /** Annotations for this paper keyed by node id, rolled up to every ancestor */
+    byNode: Map<string, MatrixAnnotation[]>
+    /** Extracted values for this paper keyed by field id */
+    byField: Map<string, ExtractionCell>
+}
+
+interface MatrixExportData {
+    /** Codebook order, parents before their sub-nodes */
+    nodes: NodeTreeEntry[]
+    fields: ExtractionColumn[]
+    rows: MatrixRow[]
+}
+
+const FORMAT_FILTERS: Record<MatrixExportFormat, { name: string; extensions: string[] }> = {
+    csv: { name: 'CSV', extensions: ['csv'] },
+    xlsx: { name: 'Excel Workbook', extensions: ['xlsx'] },
+    markdown: { name: 'Markdown', extensions: ['md'] },
+    html: { name: 'HTML', extensions: ['html'] }
+}
+
+// ── Data Assembly ────────────────────────────────────────────────────────────
+
+/** Short study label: "Smith 2024", "Smith & Jones 2024", "Smith et al. 2024" */
+export function studyLabel(paper: PaperWithAuthors): string {
+    const names = paper.authors.map(extractLastName).filter(Boolean)
+    let label: string
+    if (names.length === 0) label = paper.title.length > 40 ? `${paper.title.slice(0, 40)}…` : paper.title
+    else if (names.length === 1) label = names[0]
+    else if (names.length === 2) label = `${names[0]} & ${names[1]}`
+    else label = `${names[0]} et al.`
+    return paper.year ? `${label} ${paper.year}` : label
+}
+
+function collectMatrix(options: MatrixExportOptions): MatrixExportData {
+    const nodes = listNodeTree()
+    const annotations = getMatrixAnnotations()
+    // Roots have no parent here, including nodes whose parent is missing
+    const parentOf = new Map(nodes.map(n => [n.id, n.depth > 0 ? n.parent_id : null]))
+
+    // As in the matrix view, a parent node's cell includes its sub-nodes' annotations
+    const byPaper = new Map<string, Map<string, MatrixAnnotation[]>>()
+    for (const ann of annotations) {
+        if (!byPaper.has(ann.paper_id)) byPaper.set(ann.paper_id, new Map())
+        const byNode = byPaper.get(ann.paper_id)!
+        for (let nodeId: string | null = ann.node_id; nodeId; nodeId = parentOf.get(nodeId) ?? null) {
+            if (!byNode.has(nodeId)) byNode.set(nodeId, [])
+            byNode.get(nodeId)!.push(ann)
+        }
+    }
+
+    const extraction = (options.includeExtraction ?? true) ? getExtractionMatrix() : { columns: [], cells: [] }
+    const extractedByPaper = new Map<string, Map<string, ExtractionCell>>()
+    for (const cell of extraction.cells) {
+        if (!extractedByPaper.has(cell.paper_id)) extractedByPaper.set(cell.paper_id, new Map())
+        extractedByPaper.get(cell.paper_id)!.set(cell.field_id, cell)
+    }
+
+    const codedOnly = options.codedOnly ?? true
+    const rows = listPapers()
+        .filter(p => !codedOnly || byPaper.has(p.id) || extractedByPaper.has(p.id))
+        .map(paper => ({
+            paper,
+            study: studyLabel(paper),
+            byNode: byPaper.get(paper.id) ?? new Map(),
+            byField: extractedByPaper.get(paper.id) ?? new Map()
+        }))
+        .sort((a, b) => a.study.localeCompare(b.study))
+
+    return { nodes, fields: extraction.columns, rows }
+}
+
+/** Column header for a node; sub-nodes show their path, e.g. "Outcomes › Mortality" */
+function nodeLabel(node: NodeTreeEntry): string {
+    return node.path.join(' › ')
+}
+
+function fieldHeader(field: ExtractionColumn): string {
+    return field.unit ? `${field.name} (${field.unit})` : field.name
+}
+
+/** "12" for a paper-level value, one "Arm: value" line per arm otherwise */
+function formatExtracted(cell: ExtractionCell | undefined): string {
+    if (!cell) return ''
+    return cell.values.map(v => (v.arm_label ? `${v.arm_label}: ${v.value}` : String(v.value))).join('\n')
+}
+
+/** Spreadsheet cell for a field: paper-level numbers stay numeric */
+function extractedCellValue(cell: ExtractionCell | undefined): CellValue {
+    if (cell && cell.values.length === 1 && !cell.values[0].arm_id) return cell.values[0].value
+    return formatExtracted(cell)
+}
+
+function distinctTags(annotations: MatrixAnnotation[]): string[] {
+    return [...new Set(annotations.map(a => a.tag_name).filter((t): t is string => !!t))]
+}
+
+function formatAnnotation(ann: MatrixAnnotation, includeTags: boolean): string {
+    const tag = includeTags && ann.tag_name ? `[${ann.tag_name}] ` : ''
+    return `${tag}"${ann.content.replace(/\s+/g, ' ').trim()}" (p. ${ann.page_number})`
+}
+
+/** Header + body rows shared by the CSV and the XLSX overview sheet */
+function buildWideTable(data: MatrixExportData, options: MatrixExportOptions): CellValue[][] {
+    const header: CellValue[] = ['Study', 'Title']
+    if (options.includeAuthors) header.push('Authors')
+    if (options.includeYear) header.push('Year')
+    if (options.includeDoi) header.push('DOI')
+    for (const node of data.nodes) {
+        const label = nodeLabel(node)
+        header.push(label)
+        if (options.includeTags) header.push(`${label} tags`)
+    }
+    for (const field of data.fields) header.push(fieldHeader(field))
+
+    const body = data.rows.map(row => {
+        const cells: CellValue[] = [row.study, row.paper.title]
+        if (options.includeAuthors) cells.push(row.paper.authors.join('; '))
+        if (options.includeYear) cells.push(row.paper.year)
+        if (options.includeDoi) cells.push(row.paper.doi)
+        for (const node of data.nodes) {
+            const anns = row.byNode.get(node.id) ?? []
+            cells.push(anns.map(a => formatAnnotation(a, false)).join('\n'))
+            if (options.includeTags) cells.push(distinctTags(anns).join('; '))
+        }
+        for (const field of data.fields) cells.push(extractedCellValue(row.byField.get(field.field_id)))
+        return cells
+    })
+
+    return [header, ...body]
+}
+
+// ── CSV ──────────────────────────────────────────────────────────────────────
+
+function csvField(value: CellValue): string {
+    if (value === null || value === undefined) return ''
+    const str = String(value)
+    return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+function toCsv(data: MatrixExportData, options: MatrixExportOptions): string {
+    const lines = buildWideTable(data, options).map(row => row.map(csvField).join(','))
+    // BOM so Excel opens the file as UTF-8
+    return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+// ── XLSX ─────────────────────────────────────────────────────────────────────
+
+function toXlsx(data: MatrixExportData, options: MatrixExportOptions): Buffer {
+    const overview = buildWideTable(data, options)
+    const sheets: Sheet[] = [{
+        name: 'Matrix',
+        rows: overview,
+        columnWidths: overview[0].map((_, i) => (i === 0 ? 22 : i === 1 ? 50 : 40))
+    }]
+
+    for (const node of data.nodes) {
+        const header: CellValue[] = ['Study', 'Title']
+        if (options.includeAuthors) header.push('Authors')
+        if (options.includeYear) header.push('Year')
+        if (options.includeDoi) header.push('DOI')
+        header.push('Tag', 'Page', 'Excerpt')
+
+        const rows: CellValue[][] = [header]
+        for (const row of data.rows) {
+            for (const ann of row.byNode.get(node.id) ?? []) {
+                const cells: CellValue[] = [row.study, row.paper.title]
+                if (options.includeAuthors) cells.push(row.paper.authors.join('; '))
+                if (options.includeYear) cells.push(row.paper.year)
+                if (options.includeDoi) cells.push(row.paper.doi)
+                cells.push(ann.tag_name, ann.page_number, ann.content)
+                rows.push(cells)
+            }
+        }
+
+        sheets.push({
+            name: node.name,
+            rows,
+            columnWidths: header.map(h => (h === 'Excerpt' ? 80 : h === 'Title' ? 50 : h === 'Page' || h === 'Year' ? 8 : 22))
+        })
+    }
+
+    // Long format, one row per value, ready for analysis in other tools
+    if (data.fields.length > 0) {
+        const rows: CellValue[][] = [['Study', 'Title', 'Form', 'Field', 'Arm', 'Value', 'Unit', 'Page']]
+        for (const row of data.rows) {
+            for (const field of data.fields) {
+                for (const v of row.byField.get(field.field_id)?.values ?? []) {
+                    rows.push([row.study, row.paper.title, field.form_name, field.name, v.arm_label, v.value, field.unit, v.page_number])
+                }
+            }
+        }
+        sheets.push({ name: 'Extracted data', rows, columnWidths: [22, 50, 22, 30, 18, 12, 10, 8] })
+    }
+
+    return buildWorkbook(sheets)
+}
+
+// ── Characteristics Table (Markdown / HTML) ──────────────────────────────────
+
+function characteristicsColumns(options: MatrixExportOptions): Array<{ label: string; value: (p: PaperWithAuthors) => string }> {
+    const columns: Array<{ label: string; value: (p: PaperWithAuthors) => string }> = []
+    if (options.includeAuthors) columns.push({ label: 'Authors', value: p => p.authors.join('; ') })
+    if (options.includeYear) columns.push({ label: 'Year', value: p => (p.year ? String(p.year) : '') })
+    if (options.includeDoi) columns.push({ label: 'DOI', value: p => p.doi ?? '' })
+    return columns
+}
+
+function markdownCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
+
+function toMarkdown(data: MatrixExportData, options: MatrixExportOptions): string {
+    const extra = characteristicsColumns(options)
+    const header = ['Study', ...extra.map(c => c.label), ...data.nodes.map(nodeLabel), ...data.fields.map(fieldHeader)]
+
+    const lines = [
+        '# Characteristics of included studies',
+        '',
+        `| ${header.map(markdownCell).join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`
+    ]
+
+    for (const row of data.rows) {
+        const cells = [
+            row.study,
+            ...extra.map(c => c.value(row.paper)),
+            ...data.nodes.map(node =>
+                (row.byNode.get(node.id) ?? []).map(a => formatAnnotation(a, !!options.includeTags)).join('\n')
+            ),
+            ...data.fields.map(field => formatExtracted(row.byField.get(field.field_id)))
+        ]
+        lines.push(`| ${cells.map(markdownCell).join(' | ')} |`)
+    }
+
+    return lines.join('\n') + '\n'
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+function toHtml(data: MatrixExportData, options: MatrixExportOptions): string {
+    const extra = characteristicsColumns(options)
+
+    const headerCells = [
+        '<th>Study</th>',
+        ...extra.map(c => `<th>${escapeHtml(c.label)}</th>`),
+        ...data.nodes.map(n => `<th style="border-bottom-color:${escapeHtml(n.color)}">${escapeHtml(nodeLabel(n))}</th>`),
+        ...data.fields.map(f => `<th>${escapeHtml(fieldHeader(f))}</th>`)
+    ].join('')
+
+    const bodyRows = data.rows.map(row => {
+        const nodeCells = data.nodes.map(node => {
+            const anns = row.byNode.get(node.id) ?? []
+            if (anns.length === 0) return '<td class="empty">—</td>'
+            const items = anns.map(a => {
+                const tag = options.includeTags && a.tag_name ? `<span class="tag">${escapeHtml(a.tag_name)}</span> ` : ''
+                return `<li>${tag}${escapeHtml(a.content.replace(/\s+/g, ' ').trim())} <span class="page">p.&nbsp;${a.page_number}</span></li>`
+            }).join('')
+            return `<td><ul>${items}</ul></td>`
+        }).join('')
+
+        const fieldCells = data.fields.map(field => {
+            const text = formatExtracted(row.byField.get(field.field_id))
+            return text ? `<td>${escapeHtml(text).replace(/\n/g, '<br>')}</td>` : '<td class="empty">—</td>'
+        }).join('')
+
+        return '<tr>' +
+            `<td class="study"><strong>${escapeHtml(row.study)}</strong><br><span class="title">${escapeHtml(row.paper.title)}</span></td>` +
+            extra.map(c => `<td>${escapeHtml(c.value(row.paper))}</td>`).join('') +
+            nodeCells +
+            fieldCells +
+            '</tr>'
+    }).join('\n')
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Characteristics of included studies</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 12px; color: #1f2937; margin: 24px; }
+  h1 { font-size: 18px; margin-bottom: 16px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 6px 8px; vertical-align: top; text-align: left; }
+  th { background: #f3f4f6; border-bottom-width: 3px; }
+  td.study { min-width: 160px; }
+  td.empty { color: #9ca3af; text-align: center; }
+  .title { color: #6b7280; }
+  ul { margin: 0; padding-left: 16px; }
+  li + li { margin-top: 4px; }
+  .tag { font-size: 10px; font-weight: 600; background: #e5e7eb; border-radius: 8px; padding: 1px 6px; }
+  .page { color: #9ca3af; white-space: nowrap; }
+</style>
+</head>
+<body>
+<h1>Characteristics of included studies</h1>
+<table>
+<thead><tr>${headerCells}</tr></thead>
+<tbody>
+${bodyRows}
+</tbody>
+</table>
+</body>
+</html>
+`
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Render the matrix in the requested format */
+export function buildMatrixExport(format: MatrixExportFormat, options: MatrixExportOptions = {}): string | Buffer {
+    const data = collectMatrix(options)
+    switch (format) {
+        case 'csv': return toCsv(data, options)
+        case 'xlsx': return toXlsx(data, options)
+        case 'markdown': return toMarkdown(data, options)
+        case 'html': return toHtml(data, options)
+        default: throw new Error(`Unsupported export format: ${format}`)
+    }
+}
+
+/**
+ * Ask the user where to save, then write the export.
+ * Returns the written path, or null if the dialog was cancelled.
+ */
+export async function exportMatrixToFile(
+    format: MatrixExportFormat,
+    options: MatrixExportOptions = {},
+    parentWindow?: BrowserWindow | null
+): Promise<string | null> {
+    const filter = FORMAT_FILTERS[format]
+    if (!filter) throw new Error(`Unsupported export format: ${format}`)
+
+    const result = await dialog.showSaveDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
+        title: 'Export Synthesis Matrix',
+        defaultPath: `synthesis-matrix.${filter.extensions[0]}`,
+        filters: [filter]
+    })
+
+    if (result.canceled || !result.filePath) return null
+
+    const content = buildMatrixExport(format, options)
+    writeFileSync(result.filePath, content)
+    return result.filePath
+}
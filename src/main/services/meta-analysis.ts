@@ -0,0 +1,226 @@
+// ============================================================================
+// ThreadMed — Meta-Analysis
+// ============================================================================
+// Glue between the stored outcome data and the statistics:
+//   - getMetaResult():   run the analysis's measure and method over its rows
+//   - addPaperStudies(): start a grid row for each chosen paper
+//   - importMetaCsv():   read arm-level data from a spreadsheet export,
+//     linking each row to a paper by id, DOI or study label
+// ============================================================================
+
+import { BrowserWindow, dialog } from 'electron'
+import { readFileSync } from 'fs'
+import { getPaper, listPapers, type PaperWithAuthors } from '../database/repositories/papers'
+import {
+    META_STUDY_VALUES,
+    addMetaStudies,
+    getMetaAnalysis,
+    listMetaStudies,
+    type MetaStudy,
+    type MetaStudyInput,
+    type MetaStudyValue,
+    validateMetaStudy
+} from '../database/repositories/meta-analysis'
+import { runMetaAnalysis, type MetaResult } from './meta-stats'
+import { studyLabel } from './matrix-exporter'
+import { cleanDoi } from './reference-parsers'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface MetaCsvImportResult {
+    imported: number
+    /** Imported rows that were matched to a library paper */
+    linked: number
+    skipped: number
+    errors: string[]
+}
+
+type CsvColumn = MetaStudyValue | 'label' | 'paper_id' | 'doi' | 'included'
+
+/** Normalised header (lowercase, letters and digits only) → column */
+const HEADER_ALIASES: Record<string, CsvColumn> = {
+    study: 'label', label: 'label', studylabel: 'label', author: 'label',
+    paperid: 'paper_id', doi: 'doi', included: 'included', include: 'included',
+    eventse: 'events_e', eventsexp: 'events_e', eventsexperimental: 'events_e', eventsintervention: 'events_e', ee: 'events_e',
+    ne: 'n_e', totale: 'n_e', nexp: 'n_e', nexperimental: 'n_e', nintervention: 'n_e', totalexperimental: 'n_e',
+    meane: 'mean_e', meanexp: 'mean_e', meanexperimental: 'mean_e', meanintervention: 'mean_e',
+    sde: 'sd_e', sdexp: 'sd_e', sdexperimental: 'sd_e', sdintervention: 'sd_e',
+    eventsc: 'events_c', eventsctrl: 'events_c', eventscontrol: 'events_c', ec: 'events_c',
+    nc: 'n_c', totalc: 'n_c', nctrl: 'n_c', ncontrol: 'n_c', totalcontrol: 'n_c',
+    meanc: 'mean_c', meanctrl: 'mean_c', meancontrol: 'mean_c',
+    sdc: 'sd_c', sdctrl: 'sd_c', sdcontrol: 'sd_c'
+}
+
+// ── Results ──────────────────────────────────────────────────────────────────
+
+/** Study effects, pooled estimate, heterogeneity and Egger's test for one analysis */
+export function getMetaResult(analysisId: string): MetaResult {
+    const analysis = getMetaAnalysis(analysisId)
+    if (!analysis) throw new Error('Analysis not found')
+    return runMetaAnalysis(analysis.effect_measure, analysis.method, listMetaStudies(analysisId))
+}
+
+// ── Adding Studies ───────────────────────────────────────────────────────────
+
+/** Add an empty row for each paper not already in the analysis */
+export function addPaperStudies(analysisId: string, paperIds: string[]): MetaStudy[] {
+    const present = new Set(listMetaStudies(analysisId).map(s => s.paper_id))
+    const inputs: MetaStudyInput[] = []
+    for (const paperId of new Set(paperIds)) {
+        if (present.has(paperId)) continue
+        const paper = getPaper(paperId)
+        if (paper) inputs.push({ label: studyLabel(paper), paper_id: paper.id })
+    }
+    return addMetaStudies(analysisId, inputs)
+}
+
+// ── CSV Import ───────────────────────────────────────────────────────────────
+
+/** Split delimited text into rows, honouring quoted fields and doubled quotes */
+function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let quoted = false
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i]
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { field += '"'; i++ }
+            else if (ch === '"') quoted = false
+            else field += ch
+        } else if (ch === '"' && field === '') {
+            quoted = true
+        } else if (ch === delimiter) {
+            row.push(field)
+            field = ''
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++
+            row.push(field)
+            rows.push(row)
+            row = []
+            field = ''
+        } else {
+            field += ch
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field)
+        rows.push(row)
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+/** Comma, semicolon or tab — whichever the header line uses most */
+function detectDelimiter(text: string): string {
+    const header = text.split(/\r?\n/, 1)[0]
+    let best = ','
+    let bestCount = 0
+    for (const d of [',', ';', '\t']) {
+        const count = header.split(d).length - 1
+        if (count > bestCount) {
+            best = d
+            bestCount = count
+        }
+    }
+    return best
+}
+
+function parseNumber(raw: string): number | null {
+    const value = raw.trim()
+    if (!value || value.toUpperCase() === 'NA') return null
+    // Accept decimal commas from semicolon-separated European exports
+    const n = Number(value.replace(/\s/g, '').replace(/^(-?\d+),(\d+)$/, '$1.$2'))
+    if (!Number.isFinite(n)) throw new Error(`"${value}" is not a number`)
+    return n
+}
+
+function parseIncluded(raw: string): boolean {
+    return !/^(0|no|n|false|excluded?)$/i.test(raw.trim())
+}
+
+/** Match a row to a paper by id, then DOI, then an unambiguous study label */
+function matchPaper(
+    papers: PaperWithAuthors[],
+    byLabel: Map<string, PaperWithAuthors[]>,
+    paperId: string,
+    doi: string | null,
+    label: string
+): PaperWithAuthors | null {
+    if (paperId) {
+        const paper = papers.find(p => p.id === paperId)
+        if (paper) return paper
+    }
+    if (doi) {
+        const paper = papers.find(p => cleanDoi(p.doi)?.toLowerCase() === doi.toLowerCase())
+        if (paper) return paper
+    }
+    const candidates = byLabel.get(label.toLowerCase()) ?? []
+    return candidates.length === 1 ? candidates[0] : null
+}
+
+/** Append the rows of a CSV file to an analysis */
+export function importMetaCsvFile(analysisId: string, filePath: string): MetaCsvImportResult {
+    if (!getMetaAnalysis(analysisId)) throw new Error('Analysis not found')
+    const text = readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '')
+    const [header, ...rows] = parseDelimited(text, detectDelimiter(text))
+    if (!header) throw new Error('The file is empty')
+
+    const columns = header.map(h => HEADER_ALIASES[h.toLowerCase().replace(/[^a-z0-9]/g, '')] ?? null)
+    if (!columns.includes('label')) throw new Error('The file needs a "study" column')
+    if (!columns.some(c => c === 'n_e' || c === 'n_c')) throw new Error('The file needs sample size columns (n_e, n_c)')
+
+    const papers = listPapers()
+    const byLabel = new Map<string, PaperWithAuthors[]>()
+    for (const paper of papers) {
+        const key = studyLabel(paper).toLowerCase()
+        byLabel.set(key, [...(byLabel.get(key) ?? []), paper])
+    }
+
+    const result: MetaCsvImportResult = { imported: 0, linked: 0, skipped: 0, errors: [] }
+    const inputs: MetaStudyInput[] = []
+    rows.forEach((cells, r) => {
+        const line = r + 2
+        const get = (column: CsvColumn): string => {
+            const i = columns.indexOf(column)
+            return i >= 0 ? (cells[i] ?? '').trim() : ''
+        }
+
+        const label = get('label')
+        if (!label) {
+            result.skipped++
+            result.errors.push(`Row ${line}: no study label`)
+            return
+        }
+        try {
+            const input: MetaStudyInput = { label, included: columns.includes('included') ? parseIncluded(get('included')) : true }
+            for (const column of META_STUDY_VALUES) input[column] = parseNumber(get(column))
+            const paper = matchPaper(papers, byLabel, get('paper_id'), cleanDoi(get('doi')), label)
+            input.paper_id = paper?.id ?? null
+            validateMetaStudy(input)
+            inputs.push(input)
+            if (paper) result.linked++
+        } catch (err) {
+            result.skipped++
+            result.errors.push(`Row ${line}: ${err instanceof Error ? err.message : String(err)}`)
+        }
+    })
+
+    addMetaStudies(analysisId, inputs)
+    result.imported = inputs.length
+    return result
+}
+
+/** Show an open dialog and import the chosen CSV; null when cancelled */
+export async function importMetaCsv(
+    analysisId: string,
+    parentWindow?: BrowserWindow | null
+): Promise<MetaCsvImportResult | null> {
+    const result = await dialog.showOpenDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
+        title: 'Import Outcome Data',
+        properties: ['openFile'],
+        filters: [{ name: 'CSV', extensions: ['csv', 'tsv', 'txt'] }]
+    })
+
+    if (result.canceled || result.filePaths.length === 0) return null
+    return importMetaCsvFile(analysisId, result.filePaths[0])
+}
@@ -0,0 +1,410 @@
+// ============================================================================
+// ThreadMed — Meta-Analysis Plots
+// ============================================================================
+// Draws the two standard figures for one analysis:
+//   - Forest plot: arm data, weight and effect with its 95% CI for every
+//     study, the pooled diamond, heterogeneity and the test for overall
+//     effect (RevMan layout; ratio measures on a log axis)
+//   - Funnel plot: study effects against their standard errors with pseudo
+//     95% confidence limits around the pooled estimate and Egger's test
+// Exported as SVG, PNG or PDF through svg-export.ts.
+// ============================================================================
+
+import { BrowserWindow, dialog } from 'electron'
+import { getMetaAnalysis, listMetaStudies, type MetaAnalysis, type MetaStudy } from '../database/repositories/meta-analysis'
+import { getMetaResult } from './meta-analysis'
+import { Z_95, isRatioMeasure, type MetaResult, type StudyEffect } from './meta-stats'
+import { SVG_FORMAT_FILTERS, escapeXml, writeSvgImage, type SvgExportFormat, type SvgImage } from './svg-export'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type MetaPlotKind = 'forest' | 'funnel'
+
+interface Axis {
+    /** Axis limits on the analysis scale (log for ratio measures) */
+    min: number
+    max: number
+    ticks: number[]
+    ratio: boolean
+}
+
+const FONT = 'Arial, Helvetica, sans-serif'
+const FONT_SIZE = 12
+/** Rough average width of a 12px Arial character, for sizing label columns */
+const CHAR_WIDTH = 6.6
+const MARGIN = 16
+const STUDY_COLOR = '#1f5fa8'
+const POOLED_COLOR = '#222222'
+
+const MEASURE_NAMES: Record<MetaAnalysis['effect_measure'], string> = {
+    RR: 'Risk Ratio',
+    OR: 'Odds Ratio',
+    MD: 'Mean Difference',
+    SMD: 'Std. Mean Difference'
+}
+
+const METHOD_NAMES: Record<MetaAnalysis['method'], string> = {
+    MH: 'M-H, Fixed',
+    IV: 'IV, Fixed',
+    DL: 'IV, Random (DL)',
+    REML: 'IV, Random (REML)'
+}
+
+function textWidth(text: string): number {
+    return Math.ceil(text.length * CHAR_WIDTH)
+}
+
+function wrapSvg(width: number, height: number, scale: number, parts: string[]): SvgImage {
+    const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width * scale}" height="${height * scale}" viewBox="0 0 ${width} ${height}" font-family="${FONT}" font-size="${FONT_SIZE}" fill="#000000">`,
+        `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+        ...parts,
+        '</svg>'
+    ].join('\n')
+    return { svg, width: width * scale, height: height * scale }
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+function fmt(value: number | null, digits = 2): string {
+    if (value === null || !Number.isFinite(value)) return ''
+    return value.toFixed(digits)
+}
+
+/** P values the way RevMan prints them */
+function fmtP(p: number): string {
+    if (p < 0.00001) return 'P < 0.00001'
+    if (p < 0.001) return `P = ${p.toFixed(5)}`
+    return `P = ${p.toFixed(p < 0.01 ? 3 : 2)}`
+}
+
+function fmtTick(value: number, ratio: boolean): string {
+    if (!ratio) return String(Number(value.toPrecision(3)))
+    const display = Math.exp(value)
+    return String(Number(display.toPrecision(display < 1 ? 1 : 2)))
+}
+
+function effectText(effect: Pick<StudyEffect, 'effect' | 'ci_lower' | 'ci_upper'>): string {
+    if (effect.effect === null) return ''
+    return `${fmt(effect.effect)} [${fmt(effect.ci_lower)}, ${fmt(effect.ci_upper)}]`
+}
+
+// ── Axes ─────────────────────────────────────────────────────────────────────
+
+/** Ratio axis limits and the ticks drawn on each (RevMan's choices) */
+const RATIO_TICKS: Array<[number, number[]]> = [
+    [2, [0.5, 0.7, 1, 1.5, 2]],
+    [5, [0.2, 0.5, 1, 2, 5]],
+    [10, [0.1, 0.2, 0.5, 1, 2, 5, 10]],
+    [20, [0.05, 0.2, 1, 5, 20]],
+    [50, [0.02, 0.1, 1, 10, 50]],
+    [100, [0.01, 0.1, 1, 10, 100]],
+    [1000, [0.001, 0.1, 1, 10, 1000]]
+]
+
+/** A symmetric axis that covers `values` (on the analysis scale) */
+function makeAxis(values: number[], ratio: boolean): Axis {
+    const extent = Math.max(...values.filter(Number.isFinite).map(Math.abs), 0)
+    if (ratio) {
+        const [limit, ticks] = RATIO_TICKS.find(([l]) => Math.log(l) >= extent) ?? RATIO_TICKS[RATIO_TICKS.length - 1]
+        return { min: -Math.log(limit), max: Math.log(limit), ticks: ticks.map(Math.log), ratio }
+    }
+
+    // Difference measures: a 1–2–5 step that spans the extent in two ticks
+    const raw = extent > 0 ? extent / 2 : 1
+    const power = 10 ** Math.floor(Math.log10(raw))
+    const step = [1, 2, 5, 10].map(m => m * power).find(s => s >= raw)!
+    const limit = step * 2
+    return { min: -limit, max: limit, ticks: [-limit, -step, 0, step, limit], ratio }
+}
+
+function axisX(axis: Axis, left: number, width: number, value: number): number {
+    const clamped = Math.min(axis.max, Math.max(axis.min, value))
+    return left + ((clamped - axis.min) / (axis.max - axis.min)) * width
+}
+
+// ── Forest Plot ──────────────────────────────────────────────────────────────
+
+const ROW = 20
+const PLOT_WIDTH = 260
+const COLUMN_GAP = 16
+
+function buildForest(analysis: MetaAnalysis, studies: MetaStudy[], result: MetaResult, scale: number): SvgImage {
+    const parts: string[] = []
+    const binary = analysis.outcome_type === 'binary'
+    const ratio = isRatioMeasure(analysis.effect_measure)
+    const byId = new Map(studies.map(s => [s.id, s]))
+    const scaleValue = (v: number) => (ratio ? Math.log(v) : v)
+
+    // Column layout: study, experimental arm, control arm, weight, effect text, plot
+    const armHeadings = binary ? ['Events', 'Total'] : ['Mean', 'SD', 'Total']
+    const armCells = (s: MetaStudy | undefined, arm: 'e' | 'c'): string[] => {
+        if (!s) return armHeadings.map(() => '')
+        return binary
+            ? [fmt(s[`events_${arm}`], 0), fmt(s[`n_${arm}`], 0)]
+            : [fmt(s[`mean_${arm}`]), fmt(s[`sd_${arm}`]), fmt(s[`n_${arm}`], 0)]
+    }
+    const effectHeading = MEASURE_NAMES[analysis.effect_measure]
+    const effectSub = `${METHOD_NAMES[analysis.method]}, 95% CI`
+
+    const rows = result.studies.map(effect => ({
+        label: effect.label,
+        e: armCells(byId.get(effect.id), 'e'),
+        c: armCells(byId.get(effect.id), 'c'),
+        weight: effect.weight !== null ? `${effect.weight.toFixed(1)}%` : '',
+        text: effect.note ?? effectText(effect),
+        effect
+    }))
+
+    const sum = (arm: 'e' | 'c', column: 'n' | 'events') => result.studies
+        .filter(e => e.weight !== null)
+        .reduce((s, e) => s + (byId.get(e.id)?.[`${column}_${arm}`] ?? 0), 0)
+    const pooled = result.pooled
+    const totalText = pooled ? effectText(pooled) : 'Not estimable'
+
+    const studyWidth = Math.max(textWidth('Study or Subgroup'), textWidth('Total (95% CI)'), ...rows.map(r => textWidth(r.label))) + COLUMN_GAP
+    const cellWidth = Math.max(44, ...rows.flatMap(r => [...r.e, ...r.c].map(textWidth))) + 8
+    const armWidth = armHeadings.length * cellWidth
+    const weightWidth = textWidth('Weight') + COLUMN_GAP
+    const effectWidth = Math.max(textWidth(effectSub), textWidth(totalText), ...rows.map(r => textWidth(r.text))) + COLUMN_GAP
+
+    const xStudy = MARGIN
+    const xE = xStudy + studyWidth
+    const xC = xE + armWidth + COLUMN_GAP / 2
+    const xWeight = xC + armWidth + COLUMN_GAP / 2
+    const xEffect = xWeight + weightWidth
+    const xPlot = xEffect + effectWidth
+
+    // Headings
+    let y = MARGIN + 12
+    const armLabel = (label: string, x: number) => parts.push(`<text x="${x + armWidth / 2}" y="${y}" text-anchor="middle" font-weight="bold">${escapeXml(label)}</text>`)
+    armLabel(analysis.experimental_label, xE)
+    armLabel(analysis.control_label, xC)
+    parts.push(`<text x="${xEffect}" y="${y}" font-weight="bold">${escapeXml(effectHeading)}</text>`)
+    parts.push(`<text x="${xPlot + PLOT_WIDTH / 2}" y="${y}" text-anchor="middle" font-weight="bold">${escapeXml(effectHeading)}</text>`)
+    y += 16
+    parts.push(`<text x="${xStudy}" y="${y}" font-weight="bold">Study or Subgroup</text>`)
+    for (const x0 of [xE, xC]) {
+        armHeadings.forEach((h, i) => parts.push(`<text x="${x0 + (i + 1) * cellWidth - 8}" y="${y}" text-anchor="end" font-weight="bold">${h}</text>`))
+    }
+    parts.push(`<text x="${xWeight + weightWidth - COLUMN_GAP}" y="${y}" text-anchor="end" font-weight="bold">Weight</text>`)
+    parts.push(`<text x="${xEffect}" y="${y}" font-weight="bold">${escapeXml(effectSub)}</text>`)
+    parts.push(`<text x="${xPlot + PLOT_WIDTH / 2}" y="${y}" text-anchor="middle" font-weight="bold">${escapeXml(effectSub)}</text>`)
+    y += 6
+    const tableRight = xPlot + PLOT_WIDTH
+    parts.push(`<line x1="${MARGIN}" y1="${y}" x2="${tableRight}" y2="${y}" stroke="#888888"/>`)
+
+    // Axis covers every drawn interval
+    const bounds: number[] = []
+    for (const r of rows) {
+        if (r.effect.ci_lower !== null && r.effect.ci_upper !== null) bounds.push(scaleValue(r.effect.ci_lower), scaleValue(r.effect.ci_upper))
+    }
+    if (pooled) bounds.push(pooled.estimate - Z_95 * pooled.se, pooled.estimate + Z_95 * pooled.se)
+    const axis = makeAxis(bounds, ratio)
+    const px = (v: number) => axisX(axis, xPlot, PLOT_WIDTH, v)
+    const plotTop = y
+    const maxWeight = Math.max(...rows.map(r => r.effect.weight ?? 0), 1)
+
+    const drawCells = (cells: string[], x0: number, cy: number, bold = false) => {
+        cells.forEach((cell, i) => parts.push(`<text x="${x0 + (i + 1) * cellWidth - 8}" y="${cy}" text-anchor="end" dominant-baseline="middle"${bold ? ' font-weight="bold"' : ''}>${escapeXml(cell)}</text>`))
+    }
+
+    // Study rows
+    for (const row of rows) {
+        y += ROW
+        const cy = y - ROW / 2
+        const muted = row.effect.weight === null ? ' fill="#777777"' : ''
+        parts.push(`<text x="${xStudy}" y="${cy}" dominant-baseline="middle"${muted}>${escapeXml(row.label)}</text>`)
+        drawCells(row.e, xE, cy)
+        drawCells(row.c, xC, cy)
+        parts.push(`<text x="${xWeight + weightWidth - COLUMN_GAP}" y="${cy}" text-anchor="end" dominant-baseline="middle">${row.weight}</text>`)
+        parts.push(`<text x="${xEffect}" y="${cy}" dominant-baseline="middle"${muted}>${escapeXml(row.text)}</text>`)
+
+        const { yi, vi, weight } = row.effect
+        if (yi === null || vi === null) continue
+        const lo = yi - Z_95 * Math.sqrt(vi)
+        const hi = yi + Z_95 * Math.sqrt(vi)
+        const color = weight === null ? '#999999' : STUDY_COLOR
+        parts.push(`<line x1="${px(lo)}" y1="${cy}" x2="${px(hi)}" y2="${cy}" stroke="${color}"/>`)
+        // Arrowheads where the interval runs off the axis
+        if (lo < axis.min) parts.push(`<path d="M ${px(lo)} ${cy} l 5 -3 v 6 z" fill="${color}"/>`)
+        if (hi > axis.max) parts.push(`<path d="M ${px(hi)} ${cy} l -5 -3 v 6 z" fill="${color}"/>`)
+        if (yi >= axis.min && yi <= axis.max) {
+            // Square area proportional to the study's weight
+            const side = weight === null ? 4 : 4 + 10 * Math.sqrt(weight / maxWeight)
+            parts.push(`<rect x="${px(yi) - side / 2}" y="${cy - side / 2}" width="${side}" height="${side}" fill="${color}"/>`)
+        }
+    }
+
+    // Total row and pooled diamond
+    y += ROW + 4
+    let cy = y - ROW / 2
+    parts.push(`<text x="${xStudy}" y="${cy}" dominant-baseline="middle" font-weight="bold">Total (95% CI)</text>`)
+    drawCells([...armHeadings.slice(0, -1).map(() => ''), String(sum('e', 'n'))], xE, cy, true)
+    drawCells([...armHeadings.slice(0, -1).map(() => ''), String(sum('c', 'n'))], xC, cy, true)
+    parts.push(`<text x="${xWeight + weightWidth - COLUMN_GAP}" y="${cy}" text-anchor="end" dominant-baseline="middle" font-weight="bold">${pooled ? '100.0%' : ''}</text>`)
+    parts.push(`<text x="${xEffect}" y="${cy}" dominant-baseline="middle" font-weight="bold">${escapeXml(totalText)}</text>`)
+    if (pooled) {
+        const lo = px(pooled.estimate - Z_95 * pooled.se)
+        const hi = px(pooled.estimate + Z_95 * pooled.se)
+        const mid = px(pooled.estimate)
+        parts.push(`<path d="M ${lo} ${cy} L ${mid} ${cy - 6} L ${hi} ${cy} L ${mid} ${cy + 6} Z" fill="${POOLED_COLOR}"/>`)
+    }
+    if (binary) {
+        y += ROW
+        cy = y - ROW / 2
+        parts.push(`<text x="${xStudy}" y="${cy}" dominant-baseline="middle">Total events</text>`)
+        drawCells([String(sum('e', 'events')), ''], xE, cy)
+        drawCells([String(sum('c', 'events')), ''], xC, cy)
+    }
+    if (pooled && pooled.pi_lower !== null && pooled.pi_upper !== null) {
+        y += ROW
+        cy = y - ROW / 2
+        parts.push(`<text x="${xStudy}" y="${cy}" dominant-baseline="middle">Prediction interval</text>`)
+        parts.push(`<text x="${xEffect}" y="${cy}" dominant-baseline="middle">[${fmt(pooled.pi_lower)}, ${fmt(pooled.pi_upper)}]</text>`)
+        const lo = px(scaleValue(pooled.pi_lower))
+        const hi = px(scaleValue(pooled.pi_upper))
+        parts.push(`<rect x="${lo}" y="${cy - 3}" width="${hi - lo}" height="6" fill="none" stroke="${POOLED_COLOR}"/>`)
+    }
+
+    // Heterogeneity and overall effect under the table
+    const het = result.heterogeneity
+    const notes: string[] = []
+    if (het) {
+        const tau = het.tau2 !== null ? `Tau² = ${fmt(het.tau2)}; ` : ''
+        notes.push(`Heterogeneity: ${tau}Chi² = ${fmt(het.q)}, df = ${het.df} (${fmtP(het.p)}); I² = ${Math.round(het.i2)}%`)
+    }
+    if (pooled) notes.push(`Test for overall effect: Z = ${fmt(Math.abs(pooled.z))} (${fmtP(pooled.p)})`)
+    for (const note of notes) {
+        y += 16
+        parts.push(`<text x="${xStudy}" y="${y}" font-size="11">${escapeXml(note)}</text>`)
+    }
+
+    // Null line and axis
+    // Line of no effect: 0 on the analysis scale (log 1 for ratios)
+    const plotBottom = y - notes.length * 16 + 4
+    const nullValue = 0
+    parts.push(`<line x1="${px(nullValue)}" y1="${plotTop}" x2="${px(nullValue)}" y2="${plotBottom}" stroke="#555555"/>`)
+    parts.push(`<line x1="${xPlot}" y1="${plotBottom}" x2="${xPlot + PLOT_WIDTH}" y2="${plotBottom}" stroke="#555555"/>`)
+    for (const tick of axis.ticks) {
+        parts.push(
+            `<line x1="${px(tick)}" y1="${plotBottom}" x2="${px(tick)}" y2="${plotBottom + 4}" stroke="#555555"/>`,
+            `<text x="${px(tick)}" y="${plotBottom + 16}" text-anchor="middle" font-size="11">${fmtTick(tick, ratio)}</text>`
+        )
+    }
+    parts.push(
+        `<text x="${px(nullValue) - 6}" y="${plotBottom + 32}" text-anchor="end" font-size="11">Favours ${escapeXml(analysis.experimental_label)}</text>`,
+        `<text x="${px(nullValue) + 6}" y="${plotBottom + 32}" font-size="11">Favours ${escapeXml(analysis.control_label)}</text>`
+    )
+
+    const favoursWidth = textWidth(`Favours ${analysis.control_label}`) * 11 / 12
+    const notesWidth = Math.max(0, ...notes.map(n => Math.ceil(n.length * CHAR_WIDTH * 11 / 12)))
+    const width = Math.max(tableRight, px(nullValue) + 6 + favoursWidth, xStudy + notesWidth) + MARGIN
+    const height = Math.max(y, plotBottom + 32) + MARGIN
+    return wrapSvg(width, height, scale, parts)
+}
+
+// ── Funnel Plot ──────────────────────────────────────────────────────────────
+
+const FUNNEL_WIDTH = 380
+const FUNNEL_HEIGHT = 300
+
+function buildFunnel(analysis: MetaAnalysis, result: MetaResult, scale: number): SvgImage {
+    const parts: string[] = []
+    const ratio = isRatioMeasure(analysis.effect_measure)
+    const points = result.studies.filter(s => s.weight !== null && s.yi !== null && s.vi !== null)
+    const pooled = result.pooled
+    const centre = pooled?.estimate ?? 0
+
+    // SE axis runs from 0 at the top to a little beyond the largest SE
+    const maxSe = Math.max(...points.map(p => Math.sqrt(p.vi!)), 0.1) * 1.1
+    const axis = makeAxis([...points.map(p => p.yi!), centre - Z_95 * maxSe, centre + Z_95 * maxSe], ratio)
+
+    const axisLabelWidth = 56
+    const left = MARGIN + axisLabelWidth
+    const top = MARGIN + 8
+    const px = (v: number) => axisX(axis, left, FUNNEL_WIDTH, v)
+    const py = (se: number) => top + (se / maxSe) * FUNNEL_HEIGHT
+
+    parts.push(`<rect x="${left}" y="${top}" width="${FUNNEL_WIDTH}" height="${FUNNEL_HEIGHT}" fill="none" stroke="#555555"/>`)
+
+    // Pseudo 95% confidence limits and the pooled estimate
+    if (pooled) {
+        parts.push(`<defs><clipPath id="funnel-area"><rect x="${left}" y="${top}" width="${FUNNEL_WIDTH}" height="${FUNNEL_HEIGHT}"/></clipPath></defs>`)
+        parts.push(`<path d="M ${px(centre - Z_95 * maxSe)} ${py(maxSe)} L ${px(centre)} ${py(0)} L ${px(centre + Z_95 * maxSe)} ${py(maxSe)}" fill="none" stroke="#888888" stroke-dasharray="4 3" clip-path="url(#funnel-area)"/>`)
+        parts.push(`<line x1="${px(centre)}" y1="${top}" x2="${px(centre)}" y2="${top + FUNNEL_HEIGHT}" stroke="#555555"/>`)
+    }
+    for (const point of points) {
+        parts.push(`<circle cx="${px(point.yi!)}" cy="${py(Math.sqrt(point.vi!))}" r="4" fill="none" stroke="${STUDY_COLOR}" stroke-width="1.5"><title>${escapeXml(point.label)}</title></circle>`)
+    }
+
+    // Axes
+    const bottom = top + FUNNEL_HEIGHT
+    for (const tick of axis.ticks) {
+        parts.push(
+            `<line x1="${px(tick)}" y1="${bottom}" x2="${px(tick)}" y2="${bottom + 4}" stroke="#555555"/>`,
+            `<text x="${px(tick)}" y="${bottom + 16}" text-anchor="middle" font-size="11">${fmtTick(tick, ratio)}</text>`
+        )
+    }
+    const seStep = maxSe / 4
+    for (let i = 0; i <= 4; i++) {
+        const se = i * seStep
+        parts.push(
+            `<line x1="${left - 4}" y1="${py(se)}" x2="${left}" y2="${py(se)}" stroke="#555555"/>`,
+            `<text x="${left - 6}" y="${py(se)}" text-anchor="end" dominant-baseline="middle" font-size="11">${se.toFixed(2)}</text>`
+        )
+    }
+    const seLabel = ratio ? `SE(log[${analysis.effect_measure}])` : `SE(${analysis.effect_measure})`
+    parts.push(`<text x="${MARGIN + 4}" y="${top + FUNNEL_HEIGHT / 2}" text-anchor="middle" transform="rotate(-90 ${MARGIN + 4} ${top + FUNNEL_HEIGHT / 2})">${escapeXml(seLabel)}</text>`)
+    parts.push(`<text x="${left + FUNNEL_WIDTH / 2}" y="${bottom + 34}" text-anchor="middle">${escapeXml(analysis.effect_measure)}</text>`)
+
+    // Egger's test
+    let y = bottom + 58
+    const egger = result.egger
+    const eggerText = egger
+        ? `Egger's test: intercept = ${fmt(egger.intercept)} (SE ${fmt(egger.se)}), t = ${fmt(egger.t)}, df = ${egger.df}, ${fmtP(egger.p)}`
+        : "Egger's test needs at least three studies"
+    parts.push(`<text x="${left}" y="${y}" font-size="11">${escapeXml(eggerText)}</text>`)
+    y += 4
+
+    const width = Math.max(left + FUNNEL_WIDTH, left + Math.ceil(eggerText.length * CHAR_WIDTH * 11 / 12)) + MARGIN
+    return wrapSvg(width, y + MARGIN, scale, parts)
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Draw a plot of one analysis; `scale` enlarges the rendered size */
+export function buildMetaPlot(kind: MetaPlotKind, analysisId: string, scale = 1): SvgImage {
+    const analysis = getMetaAnalysis(analysisId)
+    if (!analysis) throw new Error('Analysis not found')
+    const result = getMetaResult(analysisId)
+    return kind === 'forest'
+        ? buildForest(analysis, listMetaStudies(analysisId), result, scale)
+        : buildFunnel(analysis, result, scale)
+}
+
+/** Show a save dialog and write the plot; returns the saved path or null when cancelled */
+export async function exportMetaPlot(
+    kind: MetaPlotKind,
+    analysisId: string,
+    format: SvgExportFormat,
+    parentWindow?: BrowserWindow | null
+): Promise<string | null> {
+    const filter = SVG_FORMAT_FILTERS[format]
+    if (!filter) throw new Error(`Unsupported export format: ${format}`)
+    const analysis = getMetaAnalysis(analysisId)
+    if (!analysis) throw new Error('Analysis not found')
+    if (analysis.study_count === 0) throw new Error(`"${analysis.name}" has no studies to plot`)
+
+    const slug = analysis.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'meta-analysis'
+    const result = await dialog.showSaveDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
+        title: `Export ${kind} plot`,
+        defaultPath: `${slug}-${kind}.${filter.extensions[0]}`,
+        filters: [filter]
+    })
+
+    if (result.canceled || !result.filePath) return null
+
+    await writeSvgImage(result.filePath, format, scale => buildMetaPlot(kind, analysis.id, scale))
+    return result.filePath
+}
@@ -0,0 +1,230 @@
+// ============================================================================
+// ThreadMed — Meta-Analysis Statistics Tests
+// ============================================================================
+// Pins runMetaAnalysis() to published reference results:
+//   - The BCG vaccine trials (Colditz et al., 1994; dat.bcg in R's metafor),
+//     against metafor's rma(), rma.mh() and regtest(model = "lm") output
+//   - The Hedges' g example of Borenstein et al., Introduction to
+//     Meta-Analysis (2009), chapter 14
+// References are printed to four decimals (I² to two), so that is the
+// precision compared.
+// ============================================================================
+
+import { describe, it, expect } from 'vitest'
+import { runMetaAnalysis, type MetaStudyData } from './meta-stats'
+
+function study(label: string, values: Partial<MetaStudyData>): MetaStudyData {
+    return {
+        id: label,
+        label,
+        events_e: null,
+        n_e: null,
+        events_c: null,
+        n_c: null,
+        mean_e: null,
+        sd_e: null,
+        mean_c: null,
+        sd_c: null,
+        included: true,
+        ...values
+    }
+}
+
+// tpos, tneg, cpos, cneg
+const BCG: Array<[string, number, number, number, number]> = [
+    ['Aronson 1948', 4, 119, 11, 128],
+    ['Ferguson & Simes 1949', 6, 300, 29, 274],
+    ['Rosenthal et al 1960', 3, 228, 11, 209],
+    ['Hart & Sutherland 1977', 62, 13536, 248, 12619],
+    ['Frimodt-Moller et al 1973', 33, 5036, 47, 5761],
+    ['Stein & Aronson 1953', 180, 1361, 372, 1079],
+    ['Vandiviere et al 1973', 8, 2537, 10, 619],
+    ['TPT Madras 1980', 505, 87886, 499, 87892],
+    ['Coetzee & Berjak 1968', 29, 7470, 45, 7232],
+    ['Rosenthal et al 1961', 17, 1699, 65, 1600],
+    ['Comstock et al 1974', 186, 50448, 141, 27197],
+    ['Comstock & Webster 1969', 5, 2493, 3, 2338],
+    ['Comstock et al 1976', 27, 16886, 29, 17825]
+]
+
+const bcgStudies = BCG.map(([label, tpos, tneg, cpos, cneg]) =>
+    study(label, { events_e: tpos, n_e: tpos + tneg, events_c: cpos, n_c: cpos + cneg })
+)
+
+// mean, SD, n for treated then control
+const BORENSTEIN: Array<[string, number, number, number, number, number, number]> = [
+    ['Carroll', 94, 22, 60, 92, 20, 60],
+    ['Grant', 98, 21, 65, 92, 22, 65],
+    ['Peck', 98, 28, 40, 88, 26, 40],
+    ['Donat', 94, 19, 200, 82, 17, 200],
+    ['Stewart', 98, 21, 50, 88, 22, 45],
+    ['Young', 96, 21, 85, 92, 22, 85]
+]
+
+const borensteinStudies = BORENSTEIN.map(([label, mean_e, sd_e, n_e, mean_c, sd_c, n_c]) =>
+    study(label, { mean_e, sd_e, n_e, mean_c, sd_c, n_c })
+)
+
+describe('runMetaAnalysis: BCG vaccine trials, log risk ratio', () => {
+    it('computes the study effects of escalc(measure = "RR")', () => {
+        const { studies } = runMetaAnalysis('RR', 'IV', bcgStudies)
+        expect(studies[0].yi).toBeCloseTo(-0.8893, 4)
+        expect(studies[0].vi).toBeCloseTo(0.3256, 4)
+    })
+
+    it('matches rma(method = "FE")', () => {
+        const { pooled, heterogeneity, k } = runMetaAnalysis('RR', 'IV', bcgStudies)
+        expect(k).toBe(13)
+        expect(pooled!.estimate).toBeCloseTo(-0.4303, 4)
+        expect(pooled!.se).toBeCloseTo(0.0405, 4)
+        expect(Math.log(pooled!.ci_lower)).toBeCloseTo(-0.5097, 4)
+        expect(Math.log(pooled!.ci_upper)).toBeCloseTo(-0.3509, 4)
+        expect(heterogeneity!.q).toBeCloseTo(152.2330, 4)
+        expect(heterogeneity!.df).toBe(12)
+        expect(heterogeneity!.i2).toBeCloseTo(92.12, 2)
+        expect(heterogeneity!.tau2).toBeNull()
+        expect(pooled!.pi_lower).toBeNull()
+    })
+
+    it('matches rma(method = "DL")', () => {
+        const { pooled, heterogeneity } = runMetaAnalysis('RR', 'DL', bcgStudies)
+        expect(pooled!.estimate).toBeCloseTo(-0.7141, 4)
+        expect(pooled!.se).toBeCloseTo(0.1787, 4)
+        expect(Math.log(pooled!.ci_lower)).toBeCloseTo(-1.0644, 4)
+        expect(Math.log(pooled!.ci_upper)).toBeCloseTo(-0.3638, 4)
+        expect(heterogeneity!.tau2).toBeCloseTo(0.3088, 4)
+        expect(heterogeneity!.q).toBeCloseTo(152.2330, 4)
+        expect(heterogeneity!.i2).toBeCloseTo(92.12, 2)
+    })
+
+    it('matches rma(method = "REML")', () => {
+        const { pooled, heterogeneity } = runMetaAnalysis('RR', 'REML', bcgStudies)
+        expect(pooled!.estimate).toBeCloseTo(-0.7145, 4)
+        expect(pooled!.se).toBeCloseTo(0.1798, 4)
+        expect(pooled!.effect).toBeCloseTo(0.4894, 4)
+        expect(pooled!.ci_lower).toBeCloseTo(0.3441, 4)
+        expect(pooled!.ci_upper).toBeCloseTo(0.6962, 4)
+        expect(heterogeneity!.tau2).toBeCloseTo(0.3132, 4)
+        expect(heterogeneity!.q).toBeCloseTo(152.2330, 4)
+        // Q-based I², as for the OR below (rma() prints the τ²-based 92.22%)
+        expect(heterogeneity!.i2).toBeCloseTo(92.12, 2)
+    })
+
+    it('gives the prediction interval of Higgins et al. (2009) around the REML fit', () => {
+        // exp(μ ± t(11) √(τ² + SE²)) with the metafor estimates above;
+        // metafor's predict() uses z instead of t and reports 0.1546 to 1.5490
+        const { pooled } = runMetaAnalysis('RR', 'REML', bcgStudies)
+        expect(pooled!.pi_lower).toBeCloseTo(0.1342, 4)
+        expect(pooled!.pi_upper).toBeCloseTo(1.7848, 4)
+    })
+
+    it('matches rma.mh(measure = "RR")', () => {
+        const { pooled, heterogeneity } = runMetaAnalysis('RR', 'MH', bcgStudies)
+        expect(pooled!.estimate).toBeCloseTo(-0.4537, 4)
+        expect(pooled!.effect).toBeCloseTo(0.6353, 4)
+        expect(heterogeneity!.q).toBeCloseTo(152.5676, 4)
+        expect(heterogeneity!.tau2).toBeNull()
+    })
+
+    it('matches the classical Egger test of regtest(model = "lm")', () => {
+        const { egger } = runMetaAnalysis('RR', 'REML', bcgStudies)
+        expect(egger!.intercept).toBeCloseTo(-2.1120, 4)
+        expect(egger!.se).toBeCloseTo(1.5072, 4)
+        expect(egger!.t).toBeCloseTo(-1.4013, 4)
+        expect(egger!.df).toBe(11)
+        expect(egger!.p).toBeCloseTo(0.1887, 4)
+    })
+})
+
+describe('runMetaAnalysis: BCG vaccine trials, log odds ratio', () => {
+    it('matches rma(method = "FE")', () => {
+        const { pooled, heterogeneity } = runMetaAnalysis('OR', 'IV', bcgStudies)
+        expect(pooled!.estimate).toBeCloseTo(-0.4361, 4)
+        expect(pooled!.se).toBeCloseTo(0.0423, 4)
+        expect(heterogeneity!.q).toBeCloseTo(163.1649, 4)
+        expect(heterogeneity!.i2).toBeCloseTo(92.65, 2)
+    })
+
+    it('matches rma(method = "DL")', () => {
+        const { pooled, heterogeneity } = runMetaAnalysis('OR', 'DL', bcgStudies)
+        expect(pooled!.estimate).toBeCloseTo(-0.7474, 4)
+        expect(pooled!.se).toBeCloseTo(0.1923, 4)
+        expect(heterogeneity!.tau2).toBeCloseTo(0.3663, 4)
+    })
+
+    it('matches rma(method = "REML")', () => {
+        const { pooled, heterogeneity } = runMetaAnalysis('OR', 'REML', bcgStudies)
+        expect(pooled!.estimate).toBeCloseTo(-0.7452, 4)
+        expect(pooled!.se).toBeCloseTo(0.1860, 4)
+        expect(heterogeneity!.tau2).toBeCloseTo(0.3378, 4)
+        // I² comes from Q as in RevMan, so it is metafor's FE/DL value; rma()
+        // derives it from the REML τ² instead and prints 92.07%
+        expect(heterogeneity!.i2).toBeCloseTo(92.65, 2)
+    })
+
+    it('matches rma.mh(measure = "OR")', () => {
+        const { pooled } = runMetaAnalysis('OR', 'MH', bcgStudies)
+        expect(pooled!.estimate).toBeCloseTo(-0.4734, 4)
+        expect(pooled!.se).toBeCloseTo(0.0410, 4)
+        expect(pooled!.effect).toBeCloseTo(0.6229, 4)
+        expect(pooled!.ci_lower).toBeCloseTo(0.5748, 4)
+        expect(pooled!.ci_upper).toBeCloseTo(0.6750, 4)
+    })
+})
+
+describe('runMetaAnalysis: Borenstein et al. (2009), Hedges\' g', () => {
+    it('computes the study effects', () => {
+        const { studies } = runMetaAnalysis('SMD', 'IV', borensteinStudies)
+        expect(studies.map(s => s.yi)).toEqual([0.0945, 0.2774, 0.3665, 0.6644, 0.4618, 0.1852].map(g => expect.closeTo(g, 4)))
+    })
+
+    it('matches the fixed-effect model', () => {
+        const { pooled } = runMetaAnalysis('SMD', 'IV', borensteinStudies)
+        expect(pooled!.estimate).toBeCloseTo(0.4150, 4)
+        expect(pooled!.se).toBeCloseTo(0.0643, 4)
+    })
+
+    it('matches the DerSimonian–Laird random-effects model', () => {
+        const { pooled, heterogeneity } = runMetaAnalysis('SMD', 'DL', borensteinStudies)
+        expect(heterogeneity!.tau2).toBeCloseTo(0.0372, 4)
+        expect(pooled!.estimate).toBeCloseTo(0.3585, 4)
+        expect(pooled!.se).toBeCloseTo(0.1055, 4)
+        expect(pooled!.ci_lower).toBeCloseTo(0.1518, 4)
+        expect(pooled!.ci_upper).toBeCloseTo(0.5652, 4)
+    })
+})
+
+describe('runMetaAnalysis: study handling', () => {
+    it('leaves excluded studies out of the pooled estimate', () => {
+        const studies = bcgStudies.map((s, i) => (i === 0 ? { ...s, included: false } : s))
+        const result = runMetaAnalysis('RR', 'IV', studies)
+        expect(result.k).toBe(12)
+        expect(result.studies[0].weight).toBeNull()
+        expect(result.studies[0].note).toBe('Excluded')
+        expect(result.studies.slice(1).reduce((sum, s) => sum + s.weight!, 0)).toBeCloseTo(100, 8)
+    })
+
+    it('pools a single study under random effects with no between-study variance', () => {
+        for (const method of ['DL', 'REML'] as const) {
+            const { pooled, heterogeneity, studies } = runMetaAnalysis('RR', method, bcgStudies.slice(0, 1))
+            expect(heterogeneity!.tau2).toBe(0)
+            expect(pooled!.estimate).toBeCloseTo(studies[0].yi!, 12)
+            expect(pooled!.se).toBeCloseTo(Math.sqrt(studies[0].vi!), 12)
+            expect(pooled!.ci_lower).toBeCloseTo(studies[0].ci_lower!, 12)
+            expect(Number.isFinite(pooled!.p)).toBe(true)
+            expect(pooled!.pi_lower).toBeNull()
+        }
+    })
+
+    it('skips the Egger test when the studies lie exactly on a line', () => {
+        // Precision 1, 2, 4 and standard normal deviate 1 + precision
+        const studies = [[2, 1], [1.5, 0.5], [1.25, 0.25]].map(([mean_e, sd], i) =>
+            study(`Study ${i + 1}`, { mean_e, sd_e: sd, n_e: 2, mean_c: 0, sd_c: sd, n_c: 2 })
+        )
+        expect(runMetaAnalysis('MD', 'IV', studies).egger).toBeNull()
+    })
+
+    it('rejects Mantel–Haenszel pooling of continuous outcomes', () => {
+        expect(() => runMetaAnalysis('SMD', 'MH', borensteinStudies)).toThrow()
+    })
+})
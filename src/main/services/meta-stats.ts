@@ -0,0 +1,483 @@
+// ============================================================================
+// ThreadMed — Meta-Analysis Statistics
+// ============================================================================
+// The numerical core of the meta-analysis module, free of Electron and the
+// database so the results can be checked against reference datasets:
+//   - Study effects: risk ratio and odds ratio (log scale, 0.5 added to every
+//     cell of a study with a zero cell), mean difference and standardised
+//     mean difference (Hedges' g with the exact small-sample correction)
+//   - Pooling: Mantel–Haenszel and inverse-variance fixed effect;
+//     DerSimonian–Laird and REML random effects
+//   - Heterogeneity: Cochran's Q, I² and tau²
+//   - Egger's regression test for funnel-plot asymmetry
+// Conventions follow RevMan 5 and metafor.
+// ============================================================================
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type EffectMeasure = 'RR' | 'OR' | 'MD' | 'SMD'
+export type PoolingMethod = 'MH' | 'IV' | 'DL' | 'REML'
+
+export interface MetaStudyData {
+    id: string
+    label: string
+    events_e: number | null
+    n_e: number | null
+    events_c: number | null
+    n_c: number | null
+    mean_e: number | null
+    sd_e: number | null
+    mean_c: number | null
+    sd_c: number | null
+    included: boolean
+}
+
+export interface StudyEffect {
+    id: string
+    label: string
+    /** Effect and variance on the analysis scale (log for RR and OR) */
+    yi: number | null
+    vi: number | null
+    /** Effect and 95% CI on the display scale */
+    effect: number | null
+    ci_lower: number | null
+    ci_upper: number | null
+    /** Percentage weight in the pooled estimate; null when not pooled */
+    weight: number | null
+    /** Why the study has no effect estimate, e.g. "Not estimable" */
+    note: string | null
+    included: boolean
+}
+
+export interface PooledEffect {
+    /** On the analysis scale */
+    estimate: number
+    se: number
+    /** On the display scale */
+    effect: number
+    ci_lower: number
+    ci_upper: number
+    /** Test for overall effect */
+    z: number
+    p: number
+    /** 95% prediction interval (random effects, three or more studies) */
+    pi_lower: number | null
+    pi_upper: number | null
+}
+
+export interface Heterogeneity {
+    q: number
+    df: number
+    p: number
+    /** Percentage */
+    i2: number
+    /** Between-study variance; null for fixed-effect models */
+    tau2: number | null
+}
+
+export interface EggerTest {
+    intercept: number
+    se: number
+    t: number
+    df: number
+    p: number
+}
+
+export interface MetaResult {
+    measure: EffectMeasure
+    method: PoolingMethod
+    studies: StudyEffect[]
+    /** Number of studies pooled */
+    k: number
+    pooled: PooledEffect | null
+    heterogeneity: Heterogeneity | null
+    egger: EggerTest | null
+}
+
+/** z for a two-sided 95% interval */
+export const Z_95 = 1.959963984540054
+
+export function isRatioMeasure(measure: EffectMeasure): boolean {
+    return measure === 'RR' || measure === 'OR'
+}
+
+// ── Distributions ────────────────────────────────────────────────────────────
+
+const LANCZOS = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7
+]
+
+export function logGamma(x: number): number {
+    if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x)
+    x -= 1
+    let a = LANCZOS[0]
+    const t = x + 7.5
+    for (let i = 1; i < 9; i++) a += LANCZOS[i] / (x + i)
+    return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a)
+}
+
+/** Regularised upper incomplete gamma function Q(a, x) */
+function gammaQ(a: number, x: number): number {
+    if (x <= 0) return 1
+    const lead = -x + a * Math.log(x) - logGamma(a)
+    if (x < a + 1) {
+        // Series for P(a, x)
+        let sum = 1 / a
+        let term = sum
+        for (let n = 1; n < 500; n++) {
+            term *= x / (a + n)
+            sum += term
+            if (Math.abs(term) < Math.abs(sum) * 1e-16) break
+        }
+        return 1 - sum * Math.exp(lead)
+    }
+    // Continued fraction for Q(a, x) (modified Lentz)
+    let b = x + 1 - a
+    let c = 1 / 1e-300
+    let d = 1 / b
+    let h = d
+    for (let i = 1; i < 500; i++) {
+        const an = -i * (i - a)
+        b += 2
+        d = an * d + b
+        if (Math.abs(d) < 1e-300) d = 1e-300
+        c = b + an / c
+        if (Math.abs(c) < 1e-300) c = 1e-300
+        d = 1 / d
+        const delta = d * c
+        h *= delta
+        if (Math.abs(delta - 1) < 1e-16) break
+    }
+    return Math.exp(lead) * h
+}
+
+/** Regularised incomplete beta function I_x(a, b) */
+function betaIncomplete(x: number, a: number, b: number): number {
+    if (x <= 0) return 0
+    if (x >= 1) return 1
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x))
+    // The continued fraction converges quickly on this side of the mean
+    if (x > (a + 1) / (a + b + 2)) return 1 - betaIncomplete(1 - x, b, a)
+
+    let c = 1
+    let d = 1 - (a + b) * x / (a + 1)
+    if (Math.abs(d) < 1e-300) d = 1e-300
+    d = 1 / d
+    let h = d
+    for (let m = 1; m < 500; m++) {
+        const m2 = 2 * m
+        let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2))
+        d = 1 + aa * d
+        if (Math.abs(d) < 1e-300) d = 1e-300
+        c = 1 + aa / c
+        if (Math.abs(c) < 1e-300) c = 1e-300
+        d = 1 / d
+        h *= d * c
+        aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1))
+        d = 1 + aa * d
+        if (Math.abs(d) < 1e-300) d = 1e-300
+        c = 1 + aa / c
+        if (Math.abs(c) < 1e-300) c = 1e-300
+        d = 1 / d
+        const delta = d * c
+        h *= delta
+        if (Math.abs(delta - 1) < 1e-16) break
+    }
+    return front * h / a
+}
+
+/** Two-sided p-value of a standard normal deviate */
+export function normalTwoSidedP(z: number): number {
+    return gammaQ(0.5, (z * z) / 2)
+}
+
+/** Upper-tail p-value of a chi-squared statistic */
+export function chiSquareP(x: number, df: number): number {
+    return gammaQ(df / 2, x / 2)
+}
+
+/** Two-sided p-value of a t statistic */
+export function tTwoSidedP(t: number, df: number): number {
+    return betaIncomplete(df / (df + t * t), df / 2, 0.5)
+}
+
+/** Critical t value for a two-sided 95% interval */
+export function tCritical95(df: number): number {
+    let lo = 0
+    let hi = 1000
+    for (let i = 0; i < 100; i++) {
+        const mid = (lo + hi) / 2
+        if (tTwoSidedP(mid, df) > 0.05) lo = mid
+        else hi = mid
+    }
+    return (lo + hi) / 2
+}
+
+// ── Study Effects ────────────────────────────────────────────────────────────
+
+type EffectEstimate = { yi: number; vi: number } | { note: string }
+
+function isCount(value: number | null): value is number {
+    return value !== null && Number.isInteger(value) && value >= 0
+}
+
+function binaryEffect(measure: 'RR' | 'OR', s: MetaStudyData): EffectEstimate {
+    const { events_e: a, n_e: n1, events_c: c, n_c: n2 } = s
+    if (!isCount(a) || !isCount(n1) || !isCount(c) || !isCount(n2) || n1 === 0 || n2 === 0) return { note: 'Incomplete data' }
+    if (a > n1 || c > n2) return { note: 'Events exceed total' }
+    if (a === 0 && c === 0) return { note: 'Not estimable' }
+    if (measure === 'OR' && a === n1 && c === n2) return { note: 'Not estimable' }
+
+    const b = n1 - a
+    const d = n2 - c
+    const add = a === 0 || b === 0 || c === 0 || d === 0 ? 0.5 : 0
+    const [ca, cb, cc, cd] = [a + add, b + add, c + add, d + add]
+
+    if (measure === 'RR') {
+        return {
+            yi: Math.log((ca / (ca + cb)) / (cc / (cc + cd))),
+            vi: 1 / ca - 1 / (ca + cb) + 1 / cc - 1 / (cc + cd)
+        }
+    }
+    return {
+        yi: Math.log((ca * cd) / (cb * cc)),
+        vi: 1 / ca + 1 / cb + 1 / cc + 1 / cd
+    }
+}
+
+function continuousEffect(measure: 'MD' | 'SMD', s: MetaStudyData): EffectEstimate {
+    const { mean_e: m1, sd_e: sd1, n_e: n1, mean_c: m2, sd_c: sd2, n_c: n2 } = s
+    if (m1 === null || sd1 === null || n1 === null || m2 === null || sd2 === null || n2 === null) return { note: 'Incomplete data' }
+    if (n1 < 1 || n2 < 1 || sd1 < 0 || sd2 < 0) return { note: 'Invalid data' }
+
+    if (measure === 'MD') {
+        const vi = (sd1 * sd1) / n1 + (sd2 * sd2) / n2
+        return vi > 0 ? { yi: m1 - m2, vi } : { note: 'Not estimable' }
+    }
+
+    const df = n1 + n2 - 2
+    const pooledSd = Math.sqrt(((n1 - 1) * sd1 * sd1 + (n2 - 1) * sd2 * sd2) / df)
+    if (df < 2 || !(pooledSd > 0)) return { note: 'Not estimable' }
+    // Exact bias correction: J = Γ(df/2) / (√(df/2) Γ((df-1)/2))
+    const j = Math.exp(logGamma(df / 2) - 0.5 * Math.log(df / 2) - logGamma((df - 1) / 2))
+    const g = j * (m1 - m2) / pooledSd
+    return { yi: g, vi: 1 / n1 + 1 / n2 + (g * g) / (2 * (n1 + n2)) }
+}
+
+export function studyEffect(measure: EffectMeasure, study: MetaStudyData): EffectEstimate {
+    return measure === 'RR' || measure === 'OR' ? binaryEffect(measure, study) : continuousEffect(measure, study)
+}
+
+// ── Pooling ──────────────────────────────────────────────────────────────────
+
+interface Pool {
+    estimate: number
+    se: number
+    weights: number[]
+}
+
+function inverseVariance(ys: number[], vs: number[], tau2 = 0): Pool {
+    const weights = vs.map(v => 1 / (v + tau2))
+    const sum = weights.reduce((s, w) => s + w, 0)
+    const estimate = weights.reduce((s, w, i) => s + w * ys[i], 0) / sum
+    return { estimate, se: Math.sqrt(1 / sum), weights }
+}
+
+/** Mantel–Haenszel on the raw counts; variances from Greenland–Robins and Robins–Breslow–Greenland */
+function mantelHaenszel(measure: 'RR' | 'OR', studies: MetaStudyData[]): Pool | null {
+    const cells = studies.map(s => {
+        const a = s.events_e!, n1 = s.n_e!, c = s.events_c!, n2 = s.n_c!
+        return { a, b: n1 - a, c, d: n2 - c, n1, n2, n: n1 + n2 }
+    })
+
+    if (measure === 'RR') {
+        const r = cells.map(t => (t.a * t.n2) / t.n)
+        const s = cells.map(t => (t.c * t.n1) / t.n)
+        const R = r.reduce((x, y) => x + y, 0)
+        const S = s.reduce((x, y) => x + y, 0)
+        if (R === 0 || S === 0) return null
+        const P = cells.reduce((sum, t) => sum + (t.n1 * t.n2 * (t.a + t.c) - t.a * t.c * t.n) / (t.n * t.n), 0)
+        return { estimate: Math.log(R / S), se: Math.sqrt(P / (R * S)), weights: s }
+    }
+
+    let R = 0, S = 0, PR = 0, PSQR = 0, QS = 0
+    const weights: number[] = []
+    for (const t of cells) {
+        const r = (t.a * t.d) / t.n
+        const s = (t.b * t.c) / t.n
+        const p = (t.a + t.d) / t.n
+        const q = (t.b + t.c) / t.n
+        R += r
+        S += s
+        PR += p * r
+        PSQR += p * s + q * r
+        QS += q * s
+        weights.push(s)
+    }
+    if (R === 0 || S === 0) return null
+    const variance = PR / (2 * R * R) + PSQR / (2 * R * S) + QS / (2 * S * S)
+    return { estimate: Math.log(R / S), se: Math.sqrt(variance), weights }
+}
+
+function cochranQ(ys: number[], vs: number[], around: number): number {
+    return ys.reduce((sum, y, i) => sum + ((y - around) ** 2) / vs[i], 0)
+}
+
+/** Zero when there is no between-study variance to estimate (a single study) */
+function tau2DerSimonianLaird(ys: number[], vs: number[]): number {
+    if (ys.length < 2) return 0
+    const w = vs.map(v => 1 / v)
+    const sw = w.reduce((s, x) => s + x, 0)
+    const sw2 = w.reduce((s, x) => s + x * x, 0)
+    const denominator = sw - sw2 / sw
+    if (!(denominator > 0)) return 0
+    const q = cochranQ(ys, vs, inverseVariance(ys, vs).estimate)
+    return Math.max(0, (q - (ys.length - 1)) / denominator)
+}
+
+/** Restricted maximum likelihood by Fisher scoring, starting from DerSimonian–Laird */
+function tau2Reml(ys: number[], vs: number[]): number {
+    if (ys.length < 2) return 0
+    let tau2 = tau2DerSimonianLaird(ys, vs)
+    for (let iter = 0; iter < 200; iter++) {
+        const w = vs.map(v => 1 / (v + tau2))
+        const sw = w.reduce((s, x) => s + x, 0)
+        const sw2 = w.reduce((s, x) => s + x * x, 0)
+        const sw3 = w.reduce((s, x) => s + x * x * x, 0)
+        const mu = w.reduce((s, x, i) => s + x * ys[i], 0) / sw
+        const yPPy = w.reduce((s, x, i) => s + x * x * (ys[i] - mu) ** 2, 0)
+        const trP = sw - sw2 / sw
+        const trPP = sw2 - (2 * sw3) / sw + (sw2 * sw2) / (sw * sw)
+
+        // Step halving keeps the estimate non-negative
+        let step = (yPPy - trP) / trPP
+        while (tau2 + step < 0 && step < -1e-12) step /= 2
+        const next = Math.max(0, tau2 + step)
+        const converged = Math.abs(next - tau2) < 1e-10
+        tau2 = next
+        if (converged) break
+    }
+    return tau2
+}
+
+/**
+ * Egger's test: regress the standard normal deviate on precision and test the
+ * intercept. Null when there are too few studies or the points lie exactly on
+ * a line, which leaves no residual error to test against.
+ */
+export function eggerTest(ys: number[], vs: number[]): EggerTest | null {
+    const k = ys.length
+    if (k < 3) return null
+    const x = vs.map(v => 1 / Math.sqrt(v))
+    const z = ys.map((y, i) => y * x[i])
+    const xbar = x.reduce((s, v) => s + v, 0) / k
+    const zbar = z.reduce((s, v) => s + v, 0) / k
+    const sxx = x.reduce((s, v) => s + (v - xbar) ** 2, 0)
+    if (sxx === 0) return null
+
+    const slope = x.reduce((s, v, i) => s + (v - xbar) * (z[i] - zbar), 0) / sxx
+    const intercept = zbar - slope * xbar
+    const rss = z.reduce((s, v, i) => s + (v - intercept - slope * x[i]) ** 2, 0)
+    const df = k - 2
+    const se = Math.sqrt((rss / df) * (1 / k + (xbar * xbar) / sxx))
+    if (!(se > 0) || !Number.isFinite(se)) return null
+    const t = intercept / se
+    return { intercept, se, t, df, p: tTwoSidedP(t, df) }
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Run a meta-analysis. Studies that are excluded or have no estimable effect
+ * are listed without a weight. MH applies to RR and OR only.
+ */
+export function runMetaAnalysis(measure: EffectMeasure, method: PoolingMethod, studies: MetaStudyData[]): MetaResult {
+    if (method === 'MH' && !isRatioMeasure(measure)) throw new Error('Mantel–Haenszel pooling applies to risk and odds ratios only')
+    const display = (value: number) => (isRatioMeasure(measure) ? Math.exp(value) : value)
+
+    const effects: StudyEffect[] = []
+    const pooledIndex: number[] = []
+    const ys: number[] = []
+    const vs: number[] = []
+    for (const study of studies) {
+        const estimate = studyEffect(measure, study)
+        if ('note' in estimate) {
+            effects.push({ id: study.id, label: study.label, yi: null, vi: null, effect: null, ci_lower: null, ci_upper: null, weight: null, note: estimate.note, included: study.included })
+            continue
+        }
+        const se = Math.sqrt(estimate.vi)
+        effects.push({
+            id: study.id,
+            label: study.label,
+            yi: estimate.yi,
+            vi: estimate.vi,
+            effect: display(estimate.yi),
+            ci_lower: display(estimate.yi - Z_95 * se),
+            ci_upper: display(estimate.yi + Z_95 * se),
+            weight: null,
+            note: study.included ? null : 'Excluded',
+            included: study.included
+        })
+        if (study.included) {
+            pooledIndex.push(effects.length - 1)
+            ys.push(estimate.yi)
+            vs.push(estimate.vi)
+        }
+    }
+
+    const k = ys.length
+    const result: MetaResult = { measure, method, studies: effects, k, pooled: null, heterogeneity: null, egger: eggerTest(ys, vs) }
+    if (k === 0) return result
+
+    const fixedIv = inverseVariance(ys, vs)
+    let pool: Pool | null
+    let tau2: number | null = null
+    if (method === 'MH') {
+        pool = mantelHaenszel(measure as 'RR' | 'OR', pooledIndex.map(i => studies[i]))
+    } else if (method === 'IV') {
+        pool = fixedIv
+    } else {
+        tau2 = method === 'REML' ? tau2Reml(ys, vs) : tau2DerSimonianLaird(ys, vs)
+        pool = inverseVariance(ys, vs, tau2)
+    }
+    if (!pool) return result
+
+    const totalWeight = pool.weights.reduce((s, w) => s + w, 0)
+    pooledIndex.forEach((effectIndex, i) => {
+        effects[effectIndex].weight = totalWeight > 0 ? (100 * pool!.weights[i]) / totalWeight : 0
+    })
+
+    const z = pool.estimate / pool.se
+    let piLower: number | null = null
+    let piUpper: number | null = null
+    if (tau2 !== null && k >= 3) {
+        const half = tCritical95(k - 2) * Math.sqrt(tau2 + pool.se * pool.se)
+        piLower = display(pool.estimate - half)
+        piUpper = display(pool.estimate + half)
+    }
+    result.pooled = {
+        estimate: pool.estimate,
+        se: pool.se,
+        effect: display(pool.estimate),
+        ci_lower: display(pool.estimate - Z_95 * pool.se),
+        ci_upper: display(pool.estimate + Z_95 * pool.se),
+        z,
+        p: normalTwoSidedP(z),
+        pi_lower: piLower,
+        pi_upper: piUpper
+    }
+
+    // Q is taken around the pooled fixed-effect estimate (MH or IV), with inverse-variance weights
+    const q = cochranQ(ys, vs, method === 'MH' ? pool.estimate : fixedIv.estimate)
+    const df = k - 1
+    result.heterogeneity = {
+        q,
+        df,
+        p: df > 0 ? chiSquareP(q, df) : 1,
+        i2: q > 0 ? Math.max(0, (q - df) / q) * 100 : 0,
+        tau2
+    }
+    return result
+}
@@ -2,26 +2,57 @@
 // ThreadMed — PDF Text Extraction
 // ============================================================================
 // Extracts full text from PDF files using pdf-parse (Mozilla pdf.js wrapper).
+// Pages are separated by a form feed so FTS hits can be located by page.
+// Also reads page sizes, used to place highlights imported from Zotero.
 // Runs in the main process. Returns empty string on failure; never throws.
 // ============================================================================
 
 import { readFileSync } from 'fs'
 
+/** Separator placed between pages so search hits can be mapped back to a page */
+const PAGE_SEPARATOR = '\f'
+
 /**
  * Extract all text from a PDF file.
  * @param pdfPath Absolute path to the PDF file
- * @returns Extracted text (all pages concatenated), or empty string on failure
+ * @returns Extracted text with pages joined by PAGE_SEPARATOR, or empty string on failure
  */
 export async function extractTextFromPdf(pdfPath: string): Promise<string> {
     try {
         // pdf-parse is a CJS module — use require to avoid ESM issues
         // eslint-disable-next-line @typescript-eslint/no-var-requires
-        const pdfParse = require('pdf-parse')
-        const buffer = readFileSync(pdfPath)
-        const result = await pdfParse(buffer)
-        return result.text || ''
+        const { PDFParse } = require('pdf-parse')
+        const parser = new PDFParse({ data: readFileSync(pdfPath) })
+        try {
+            const result = await parser.getText()
+            return result.pages.map((page: { text: string }) => page.text).join(PAGE_SEPARATOR)
+        } finally {
+            await parser.destroy()
+        }
     } catch (err) {
         console.error(`[PDF Extractor] Failed to extract text from ${pdfPath}:`, err)
         return ''
     }
 }
+
+/**
+ * Size of each page in PDF points, as PDF.js lays it out at scale 1.
+ * @param pdfPath Absolute path to the PDF file
+ * @returns One entry per page, or an empty array on failure
+ */
+export async function getPdfPageSizes(pdfPath: string): Promise<Array<{ width: number; height: number }>> {
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const { PDFParse } = require('pdf-parse')
+        const parser = new PDFParse({ data: readFileSync(pdfPath) })
+        try {
+            const result = await parser.getInfo({ parsePageInfo: true })
+            return result.pages.map((page: { width: number; height: number }) => ({ width: page.width, height: page.height }))
+        } finally {
+            await parser.destroy()
+        }
+    } catch (err) {
+        console.error(`[PDF Extractor] Failed to read page sizes of ${pdfPath}:`, err)
+        return []
+    }
+}
@@ -12,7 +12,7 @@ import { join } from 'path'
  * Extract the last name from a full author name.
  * Handles "Last, First" and "First Last" formats.
  */
-function extractLastName(fullName: string): string {
+export function extractLastName(fullName: string): string {
     const trimmed = fullName.trim()
     if (trimmed.includes(',')) {
         // "Last, First" format
@@ -36,22 +36,16 @@ function sanitize(str: string): string {
 }
 
 /**
- * Generate a standardized PDF filename.
+ * Build the surname+year stem shared by PDF filenames and citation keys.
  *
  * Rules:
- * - 1 author:  Smith2024.pdf
- * - 2 authors: SmithJones2024.pdf
- * - 3+ authors: SmithEtAl2024.pdf
- * - Unknown author: Untitled2024.pdf
- * - Unknown year: SmithNoYear.pdf
- * - Collision: Smith2024b.pdf, Smith2024c.pdf, ...
+ * - 1 author:  Smith2024
+ * - 2 authors: SmithJones2024
+ * - 3+ authors: SmithEtAl2024
+ * - Unknown author: Untitled2024
+ * - Unknown year: SmithNoYear
  */
-export function generatePdfFilename(
-    authors: string[],
-    year: number | null,
-    pdfDir: string
-): string {
-    // Build the base name from authors
+export function generateNameStem(authors: string[], year: number | null): string {
     let authorPart: string
     if (!authors || authors.length === 0) {
         authorPart = 'Untitled'
@@ -66,7 +60,19 @@ export function generatePdfFilename(
     if (!authorPart) authorPart = 'Untitled'
 
     const yearPart = year ? String(year) : 'NoYear'
-    const baseName = `${authorPart}${yearPart}`
+    return `${authorPart}${yearPart}`
+}
+
+/**
+ * Generate a standardized PDF filename from generateNameStem().
+ * Collisions get a suffix: Smith2024b.pdf, Smith2024c.pdf, ...
+ */
+export function generatePdfFilename(
+    authors: string[],
+    year: number | null,
+    pdfDir: string
+): string {
+    const baseName = generateNameStem(authors, year)
 
     // Check for collisions and add suffix if needed
     let filename = `${baseName}.pdf`
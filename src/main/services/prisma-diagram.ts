@@ -0,0 +1,209 @@
+// ============================================================================
+// ThreadMed — PRISMA 2020 Flow Diagram
+// ============================================================================
+// Draws the PRISMA 2020 flow diagram for new reviews (databases and
+// registers) from the counts in repositories/prisma.ts, exported as SVG, PNG
+// or PDF through svg-export.ts. The SVG is built as a string so the renderer
+// shows exactly what is exported.
+// ============================================================================
+
+import { BrowserWindow, dialog } from 'electron'
+import { getPrismaFlow, type PrismaFlow, type SearchSourceKind } from '../database/repositories/prisma'
+import { SVG_FORMAT_FILTERS, escapeXml, writeSvgImage, type SvgExportFormat, type SvgImage } from './svg-export'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type PrismaExportFormat = SvgExportFormat
+export type PrismaDiagram = SvgImage
+
+interface DiagramRow {
+    phase: string
+    left: string[]
+    right: string[] | null
+}
+
+// ── Layout ───────────────────────────────────────────────────────────────────
+
+const FONT = 'Arial, Helvetica, sans-serif'
+const FONT_SIZE = 12
+const LINE_HEIGHT = 16
+const BOX_PADDING = 10
+const BOX_WIDTH = 320
+/** Tall enough for a rotated phase label beside a single-row phase */
+const MIN_BOX_HEIGHT = 64
+const PHASE_X = 16
+const PHASE_WIDTH = 28
+const LEFT_X = 64
+const RIGHT_X = LEFT_X + BOX_WIDTH + 48
+const WIDTH = RIGHT_X + BOX_WIDTH + 16
+const HEADER_Y = 16
+const HEADER_HEIGHT = 32
+const ROW_GAP = 36
+/** Roughly how many characters of 12px Arial fit on one line of a box */
+const WRAP_CHARS = 48
+
+const KIND_HEADINGS: Record<SearchSourceKind, string> = {
+    database: 'Databases',
+    register: 'Registers',
+    other: 'Other methods'
+}
+
+/** Greedy word wrap; continuation lines keep the original line's indent */
+function wrap(line: string, width = WRAP_CHARS): string[] {
+    const indent = line.match(/^\s*/)![0]
+    const words = line.trim().split(/\s+/)
+    const lines: string[] = []
+    let current = ''
+    for (const word of words) {
+        if (current && indent.length + current.length + 1 + word.length > width) {
+            lines.push(indent + current)
+            current = word
+        } else {
+            current = current ? `${current} ${word}` : word
+        }
+    }
+    lines.push(indent + current)
+    return lines
+}
+
+function n(count: number): string {
+    return `(n = ${count})`
+}
+
+// ── Content ──────────────────────────────────────────────────────────────────
+
+function buildRows(flow: PrismaFlow): DiagramRow[] {
+    const identified = ['Records identified from:']
+    for (const kind of ['database', 'register', 'other'] as SearchSourceKind[]) {
+        const sources = flow.sources.filter(s => s.kind === kind)
+        // Databases and registers always appear, as in the PRISMA template
+        if (kind === 'other' && sources.length === 0) continue
+        identified.push(`${KIND_HEADINGS[kind]} ${n(sources.reduce((sum, s) => sum + s.records, 0))}`)
+        sources.forEach(s => identified.push(`    ${s.name} ${n(s.records)}`))
+    }
+
+    const screened = [`Records screened ${n(flow.screened)}`]
+    if (flow.screening_awaiting > 0) screened.push(`Awaiting decision ${n(flow.screening_awaiting)}`)
+
+    const assessed = [`Reports assessed for eligibility ${n(flow.assessed)}`]
+    if (flow.full_text_awaiting > 0) assessed.push(`Awaiting decision ${n(flow.full_text_awaiting)}`)
+
+    const excluded = flow.full_text_excluded.length > 0
+        ? ['Reports excluded:', ...flow.full_text_excluded.map(r => `    ${r.reason} ${n(r.count)}`)]
+        : [`Reports excluded ${n(0)}`]
+
+    return [
+        {
+            phase: 'Identification',
+            left: identified,
+            right: [
+                'Records removed before screening:',
+                `    Duplicate records removed ${n(flow.duplicates_removed)}`,
+                `    Records removed for other reasons ${n(flow.other_removed)}`
+            ]
+        },
+        { phase: 'Screening', left: screened, right: [`Records excluded ${n(flow.screening_excluded)}`] },
+        { phase: 'Screening', left: [`Reports sought for retrieval ${n(flow.sought)}`], right: [`Reports not retrieved ${n(flow.not_retrieved)}`] },
+        { phase: 'Screening', left: assessed, right: excluded },
+        { phase: 'Included', left: [`Studies included in review ${n(flow.included)}`], right: null }
+    ]
+}
+
+// ── Drawing ──────────────────────────────────────────────────────────────────
+
+function drawBox(x: number, y: number, height: number, lines: string[]): string {
+    const text = lines.map((line, i) => {
+        const indent = line.match(/^\s*/)![0].length
+        return `<text x="${x + BOX_PADDING + indent * 3}" y="${y + BOX_PADDING + FONT_SIZE + i * LINE_HEIGHT}">${escapeXml(line.trim())}</text>`
+    })
+    return [
+        `<rect x="${x}" y="${y}" width="${BOX_WIDTH}" height="${height}" fill="#ffffff" stroke="#000000" stroke-width="1"/>`,
+        ...text
+    ].join('\n')
+}
+
+function drawPhase(label: string, top: number, bottom: number): string {
+    const cx = PHASE_X + PHASE_WIDTH / 2
+    const cy = (top + bottom) / 2
+    return [
+        `<rect x="${PHASE_X}" y="${top}" width="${PHASE_WIDTH}" height="${bottom - top}" rx="6" fill="#a9c6e8"/>`,
+        `<text x="${cx}" y="${cy}" transform="rotate(-90 ${cx} ${cy})" text-anchor="middle" dominant-baseline="middle" font-weight="bold">${escapeXml(label)}</text>`
+    ].join('\n')
+}
+
+function arrow(x1: number, y1: number, x2: number, y2: number): string {
+    return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#000000" stroke-width="1" marker-end="url(#arrow)"/>`
+}
+
+/** Build the diagram; `scale` enlarges the rendered size without changing the layout */
+export function buildPrismaSvg(flow: PrismaFlow, scale = 1): PrismaDiagram {
+    const parts: string[] = []
+    const phases: Array<{ label: string; top: number; bottom: number }> = []
+
+    parts.push(
+        `<rect x="${LEFT_X}" y="${HEADER_Y}" width="${RIGHT_X + BOX_WIDTH - LEFT_X}" height="${HEADER_HEIGHT}" rx="6" fill="#f6c85f"/>`,
+        `<text x="${(LEFT_X + RIGHT_X + BOX_WIDTH) / 2}" y="${HEADER_Y + HEADER_HEIGHT / 2}" text-anchor="middle" dominant-baseline="middle" font-weight="bold">Identification of studies via databases and registers</text>`
+    )
+
+    let y = HEADER_Y + HEADER_HEIGHT + 24
+    let previousBottom: number | null = null
+    for (const row of buildRows(flow)) {
+        const left = row.left.flatMap(line => wrap(line))
+        const right = row.right?.flatMap(line => wrap(line)) ?? null
+        const height = Math.max(Math.max(left.length, right?.length ?? 0) * LINE_HEIGHT + BOX_PADDING * 2, MIN_BOX_HEIGHT)
+
+        if (previousBottom !== null) parts.push(arrow(LEFT_X + BOX_WIDTH / 2, previousBottom, LEFT_X + BOX_WIDTH / 2, y - 2))
+        parts.push(drawBox(LEFT_X, y, height, left))
+        if (right) {
+            parts.push(drawBox(RIGHT_X, y, height, right))
+            parts.push(arrow(LEFT_X + BOX_WIDTH, y + height / 2, RIGHT_X - 2, y + height / 2))
+        }
+
+        const phase = phases[phases.length - 1]
+        if (phase && phase.label === row.phase) phase.bottom = y + height
+        else phases.push({ label: row.phase, top: y, bottom: y + height })
+
+        previousBottom = y + height
+        y += height + ROW_GAP
+    }
+    phases.forEach(p => parts.push(drawPhase(p.label, p.top, p.bottom)))
+
+    const height = y - ROW_GAP + 16
+    const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH * scale}" height="${height * scale}" viewBox="0 0 ${WIDTH} ${height}" font-family="${FONT}" font-size="${FONT_SIZE}" fill="#000000">`,
+        '<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#000000"/></marker></defs>',
+        `<rect width="${WIDTH}" height="${height}" fill="#ffffff"/>`,
+        ...parts,
+        '</svg>'
+    ].join('\n')
+
+    return { svg, width: WIDTH * scale, height: height * scale }
+}
+
+/** The diagram for the current project */
+export function getPrismaDiagram(): PrismaDiagram {
+    return buildPrismaSvg(getPrismaFlow())
+}
+
+// ── Export ───────────────────────────────────────────────────────────────────
+
+/** Show a save dialog and write the diagram; returns the saved path or null when cancelled */
+export async function exportPrismaDiagram(
+    format: PrismaExportFormat,
+    parentWindow?: BrowserWindow | null
+): Promise<string | null> {
+    const filter = SVG_FORMAT_FILTERS[format]
+    if (!filter) throw new Error(`Unsupported export format: ${format}`)
+
+    const result = await dialog.showSaveDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
+        title: 'Export PRISMA Flow Diagram',
+        defaultPath: `prisma-flow-diagram.${filter.extensions[0]}`,
+        filters: [filter]
+    })
+
+    if (result.canceled || !result.filePath) return null
+
+    const flow = getPrismaFlow()
+    await writeSvgImage(result.filePath, format, scale => buildPrismaSvg(flow, scale))
+    return result.filePath
+}
@@ -18,6 +18,8 @@ import { join, basename } from 'path'
 import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync, cpSync, renameSync } from 'fs'
 import { cp } from 'fs/promises'
 import { initDatabase, closeDatabase } from '../database/connection'
+import { replaceCodebook } from '../database/repositories/nodes'
+import { getCodebookTemplate, DEFAULT_TEMPLATE_ID } from './codebook-templates'
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -78,13 +80,16 @@ export function removeFromRecent(projectPath: string): void {
     writeRegistry(projects)
 }
 
-/** Create a new project at the given directory path */
-export function createProject(projectDir: string, name: string): Project {
+/** Create a new project at the given directory path, starting from a codebook template */
+export function createProject(projectDir: string, name: string, templateId = DEFAULT_TEMPLATE_ID): Project {
 
     if (existsSync(projectDir)) {
         throw new Error(`A project already exists at: ${projectDir}`)
     }
 
+    // Resolve the template first so a bad id doesn't leave a half-made project
+    const template = getCodebookTemplate(templateId)
+
     // Create the project directory structure
     mkdirSync(projectDir, { recursive: true })
     mkdirSync(join(projectDir, 'pdfs'), { recursive: true })
@@ -93,6 +98,11 @@ export function createProject(projectDir: string, name: string): Project {
     closeDatabase()
     initDatabase(projectDir)
 
+    // runSchema seeds the PICO nodes; swap in the chosen template's codebook
+    if (template.id !== DEFAULT_TEMPLATE_ID) {
+        replaceCodebook(template.nodes)
+    }
+
     const project: Project = {
         name,
         path: projectDir,
@@ -184,7 +194,7 @@ export function deleteProject(projectPath: string): void {
 // ── File Dialog Helpers ──────────────────────────────────────────────────────
 
 /** Show a Save dialog for creating a new project */
-export async function showNewProjectDialog(parentWindow: BrowserWindow | null): Promise<Project | null> {
+export async function showNewProjectDialog(parentWindow: BrowserWindow | null, templateId?: string): Promise<Project | null> {
     const result = await dialog.showSaveDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
         title: 'Create New Project Folder (Type Name Below)',
         defaultPath: join(app.getPath('documents'), 'Untitled Review'),
@@ -199,7 +209,7 @@ export async function showNewProjectDialog(parentWindow: BrowserWindow | null):
     let filePath = result.filePath
     const name = basename(filePath)
 
-    return createProject(filePath, name)
+    return createProject(filePath, name, templateId)
 }
 
 /** Show an Open dialog for selecting an existing .tdmd project */
@@ -0,0 +1,233 @@
+// ============================================================================
+// ThreadMed — Reference Export
+// ============================================================================
+// Writes papers out for reference managers and manuscripts:
+//   - BibTeX:   one entry per paper, keyed by the paper's citation key
+//   - RIS:      EndNote / Zotero / Mendeley compatible records
+//   - CSL-JSON: for Pandoc and citeproc-based tools
+//
+// Citation keys use the same surname+year stem as PDF filenames
+// (Smith2024, SmithJones2024, SmithEtAl2024). A key is stored on the paper
+// the first time it is exported and never regenerated, so manuscripts keep
+// resolving even after the library grows or metadata is corrected.
+// ============================================================================
+
+import { BrowserWindow, dialog } from 'electron'
+import { writeFileSync } from 'fs'
+import { getDb } from '../database/connection'
+import { listPapers, getPaper, type PaperWithAuthors } from '../database/repositories/papers'
+import { getPapersInFolder } from '../database/repositories/folders'
+import { generateNameStem } from './pdf-namer'
+import type { ReferenceFormat } from './reference-parsers'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type ReferenceExportFormat = Exclude<ReferenceFormat, 'nbib'>
+
+/** Which papers to export */
+export type ReferenceExportScope =
+    | { kind: 'selection'; paperIds: string[] }
+    | { kind: 'folder'; folderId: string }
+    | { kind: 'library' }
+
+const FORMAT_FILTERS: Record<ReferenceExportFormat, { name: string; extensions: string[] }> = {
+    bibtex: { name: 'BibTeX', extensions: ['bib'] },
+    ris: { name: 'RIS', extensions: ['ris'] },
+    'csl-json': { name: 'CSL-JSON', extensions: ['json'] }
+}
+
+// ── Citation Keys ────────────────────────────────────────────────────────────
+
+/**
+ * Give every paper without a citation key a unique one.
+ * Oldest papers are keyed first so they get the unsuffixed stem.
+ */
+function ensureCitationKeys(papers: PaperWithAuthors[]): void {
+    const missing = papers
+        .filter(p => !p.citation_key)
+        .sort((a, b) => a.date_added.localeCompare(b.date_added) || a.id.localeCompare(b.id))
+    if (missing.length === 0) return
+
+    const db = getDb()
+    const taken = new Set(
+        (db.prepare('SELECT citation_key FROM papers WHERE citation_key IS NOT NULL').all() as Array<{ citation_key: string }>)
+            .map(r => r.citation_key.toLowerCase())
+    )
+    const setKey = db.prepare('UPDATE papers SET citation_key = ? WHERE id = ?')
+
+    db.transaction(() => {
+        for (const paper of missing) {
+            const stem = generateNameStem(paper.authors, paper.year)
+            let key = stem
+            // Letters as for PDF filenames (Smith2024b … Smith2024z), then a second
+            // round numbered from 2: Smith2024b2 … Smith2024z2, Smith2024b3, …
+            for (let n = 0; taken.has(key.toLowerCase()); n++) {
+                const letter = 'bcdefghijklmnopqrstuvwxyz'[n % 25]
+                key = `${stem}${letter}${n >= 25 ? Math.floor(n / 25) + 1 : ''}`
+            }
+            taken.add(key.toLowerCase())
+            setKey.run(key, paper.id)
+            paper.citation_key = key
+        }
+    })()
+}
+
+// ── Author Names ─────────────────────────────────────────────────────────────
+
+interface NameParts {
+    family: string
+    given?: string
+    /** Corporate / single-field names that must not be split */
+    literal?: boolean
+}
+
+/**
+ * Split a stored author string. Handles "Last, First" (Zotero, imports),
+ * "Doe J" (MEDLINE style, as typed into the paper dialog) and "First Last".
+ */
+function splitName(name: string): NameParts {
+    const trimmed = name.trim()
+    const comma = trimmed.indexOf(',')
+    if (comma >= 0) {
+        return { family: trimmed.slice(0, comma).trim(), given: trimmed.slice(comma + 1).trim() || undefined }
+    }
+    const initials = trimmed.match(/^(.*\S)\s+([A-Z]{1,3})$/)
+    if (initials) return { family: initials[1], given: initials[2] }
+
+    const parts = trimmed.split(/\s+/)
+    if (parts.length === 1) return { family: trimmed, literal: true }
+    if (parts.length > 3) return { family: trimmed, literal: true }
+    return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(' ') }
+}
+
+// ── Formatters ───────────────────────────────────────────────────────────────
+
+const BIBTEX_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}'
+}
+
+/** Escape BibTeX special characters; Unicode is left as-is for biber/bibtex8 */
+function escapeBibtex(value: string): string {
+    return value.replace(/[\\{}&%$#_~^]/g, ch => BIBTEX_ESCAPES[ch] ?? `\\${ch}`)
+}
+
+function bibtexAuthor(name: string): string {
+    const parts = splitName(name)
+    if (parts.literal) return `{${escapeBibtex(parts.family)}}`
+    return parts.given
+        ? `${escapeBibtex(parts.family)}, ${escapeBibtex(parts.given)}`
+        : escapeBibtex(parts.family)
+}
+
+function toBibtex(papers: PaperWithAuthors[]): string {
+    return papers.map(paper => {
+        const fields: Array<[string, string]> = []
+        if (paper.authors.length > 0) fields.push(['author', paper.authors.map(bibtexAuthor).join(' and ')])
+        // Double braces keep the title's capitalisation
+        fields.push(['title', `{${escapeBibtex(paper.title)}}`])
+        if (paper.journal) fields.push(['journal', escapeBibtex(paper.journal)])
+        if (paper.year) fields.push(['year', String(paper.year)])
+        // doi is a verbatim field in biblatex, so it is written unescaped
+        if (paper.doi) fields.push(['doi', paper.doi])
+        if (paper.abstract) fields.push(['abstract', escapeBibtex(paper.abstract)])
+
+        const type = paper.journal ? 'article' : 'misc'
+        const body = fields.map(([name, value]) => `  ${name} = {${value}}`).join(',\n')
+        return `@${type}{${paper.citation_key},\n${body}\n}`
+    }).join('\n\n') + '\n'
+}
+
+function toRis(papers: PaperWithAuthors[]): string {
+    const lines: string[] = []
+    const tag = (name: string, value: string) => lines.push(`${name}  - ${value.replace(/\s*\n\s*/g, ' ')}`)
+
+    for (const paper of papers) {
+        tag('TY', paper.journal ? 'JOUR' : 'GEN')
+        tag('ID', paper.citation_key!)
+        paper.authors.forEach(author => tag('AU', author))
+        tag('TI', paper.title)
+        if (paper.journal) tag('T2', paper.journal)
+        if (paper.year) tag('PY', String(paper.year))
+        if (paper.doi) tag('DO', paper.doi)
+        if (paper.abstract) tag('AB', paper.abstract)
+        lines.push('ER  - ', '')
+    }
+
+    // RIS readers (EndNote in particular) expect CRLF line endings
+    return lines.join('\r\n')
+}
+
+function toCslJson(papers: PaperWithAuthors[]): string {
+    const items = papers.map(paper => {
+        const item: Record<string, unknown> = {
+            id: paper.citation_key,
+            'citation-key': paper.citation_key,
+            type: paper.journal ? 'article-journal' : 'document',
+            title: paper.title
+        }
+        if (paper.authors.length > 0) {
+            item.author = paper.authors.map(name => {
+                const parts = splitName(name)
+                if (parts.literal) return { literal: parts.family }
+                return parts.given ? { family: parts.family, given: parts.given } : { family: parts.family }
+            })
+        }
+        if (paper.year) item.issued = { 'date-parts': [[paper.year]] }
+        if (paper.journal) item['container-title'] = paper.journal
+        if (paper.doi) item.DOI = paper.doi
+        if (paper.abstract) item.abstract = paper.abstract
+        return item
+    })
+    return JSON.stringify(items, null, 2) + '\n'
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+function papersForScope(scope: ReferenceExportScope): PaperWithAuthors[] {
+    switch (scope.kind) {
+        case 'selection':
+            return scope.paperIds.map(getPaper).filter((p): p is PaperWithAuthors => p !== null)
+        case 'folder':
+            return getPapersInFolder(scope.folderId)
+        case 'library':
+            return listPapers()
+    }
+}
+
+/** Build the export file content for a set of papers, sorted by citation key */
+export function buildReferenceExport(format: ReferenceExportFormat, scope: ReferenceExportScope): string {
+    const papers = papersForScope(scope)
+    ensureCitationKeys(papers)
+    papers.sort((a, b) => a.citation_key!.localeCompare(b.citation_key!))
+
+    switch (format) {
+        case 'bibtex': return toBibtex(papers)
+        case 'ris': return toRis(papers)
+        case 'csl-json': return toCslJson(papers)
+        default: throw new Error(`Unsupported export format: ${format}`)
+    }
+}
+
+/** Show a save dialog and write the export; returns the path or null if cancelled */
+export async function exportReferencesToFile(
+    format: ReferenceExportFormat,
+    scope: ReferenceExportScope,
+    parentWindow?: BrowserWindow | null
+): Promise<string | null> {
+    const filter = FORMAT_FILTERS[format]
+    if (!filter) throw new Error(`Unsupported export format: ${format}`)
+
+    const result = await dialog.showSaveDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
+        title: 'Export References',
+        defaultPath: `references.${filter.extensions[0]}`,
+        filters: [filter]
+    })
+
+    if (result.canceled || !result.filePath) return null
+
+    const content = buildReferenceExport(format, scope)
+    writeFileSync(result.filePath, content, 'utf-8')
+    return result.filePath
+}
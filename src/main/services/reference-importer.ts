@@ -0,0 +1,263 @@
+// ============================================================================
+// ThreadMed — Reference Import
+// ============================================================================
+// Two-step import of database search exports (RIS, NBIB, BibTeX, CSL-JSON):
+//   1. previewImport(): parse the file and classify every record as new,
+//      duplicate (same DOI, or same title + year, as a library paper or an
+//      earlier record in the file) or malformed.
+//   2. commitImport(): re-parse the file and create the chosen records,
+//      filing them into an existing or newly created folder. When a search
+//      source is named, every record in the file is logged against it for
+//      the PRISMA flow (imported, duplicate, or removed).
+// Nothing is held in memory between the two steps.
+// ============================================================================
+
+import { BrowserWindow, dialog } from 'electron'
+import { readFileSync } from 'fs'
+import { basename } from 'path'
+import { getDb } from '../database/connection'
+import { createPaper } from '../database/repositories/papers'
+import { createFolder, addPaperToFolder } from '../database/repositories/folders'
+import {
+    addIdentifiedRecords,
+    getOrCreateSearchSource,
+    type IdentifiedRecordInput,
+    type SearchSourceKind
+} from '../database/repositories/prisma'
+import { detectFormat, parseReferences, type ParsedReference, type ReferenceFormat } from './reference-parsers'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type ImportRecordStatus = 'new' | 'duplicate' | 'malformed'
+
+export interface ImportPreviewRecord {
+    index: number
+    status: ImportRecordStatus
+    title: string
+    authors: string[]
+    year: number | null
+    journal: string | null
+    doi: string | null
+    /** Parse error for malformed records, match description for duplicates */
+    reason?: string
+    /** Library paper this record duplicates (null for duplicates within the file) */
+    duplicate_of?: string | null
+}
+
+export interface ImportPreview {
+    file_path: string
+    file_name: string
+    format: ReferenceFormat
+    records: ImportPreviewRecord[]
+    counts: Record<ImportRecordStatus, number>
+}
+
+export interface ImportOptions {
+    /** Record indexes to import; defaults to every "new" record */
+    indexes?: number[]
+    /** Existing folder to file imported papers into */
+    folderId?: string | null
+    /** Create a folder with this name instead (takes precedence over folderId) */
+    newFolderName?: string | null
+    /** Search source the file came from (e.g. "PubMed"); omit to skip PRISMA tracking */
+    sourceName?: string | null
+    sourceKind?: SearchSourceKind
+}
+
+export interface ImportResult {
+    imported: number
+    skipped: number
+    folder_id: string | null
+    errors: string[]
+}
+
+const IMPORT_FILTERS = [
+    { name: 'Reference Files', extensions: ['ris', 'nbib', 'txt', 'bib', 'bibtex', 'json'] },
+    { name: 'RIS', extensions: ['ris'] },
+    { name: 'PubMed (NBIB / MEDLINE)', extensions: ['nbib', 'txt'] },
+    { name: 'BibTeX', extensions: ['bib', 'bibtex'] },
+    { name: 'CSL-JSON', extensions: ['json'] }
+]
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+function readReferenceFile(filePath: string): { format: ReferenceFormat; records: ParsedReference[] } {
+    const text = readFileSync(filePath, 'utf-8')
+    const format = detectFormat(text, filePath)
+    if (!format) {
+        throw new Error(`Could not recognise ${basename(filePath)} as RIS, NBIB, BibTeX or CSL-JSON`)
+    }
+    return { format, records: parseReferences(text, format) }
+}
+
+// ── Duplicate Detection ──────────────────────────────────────────────────────
+
+/** Case-, accent- and punctuation-insensitive title key */
+function titleKey(title: string): string {
+    return title
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '')
+}
+
+interface KnownPaper {
+    id: string | null
+    title: string
+    year: number | null
+}
+
+class DuplicateIndex {
+    private byDoi = new Map<string, KnownPaper>()
+    private byTitle = new Map<string, KnownPaper[]>()
+
+    add(paper: KnownPaper & { doi: string | null }): void {
+        if (paper.doi) this.byDoi.set(paper.doi.toLowerCase(), paper)
+        const key = titleKey(paper.title)
+        if (!key) return
+        if (!this.byTitle.has(key)) this.byTitle.set(key, [])
+        this.byTitle.get(key)!.push(paper)
+    }
+
+    /** Same DOI, or same title with matching (or missing) year */
+    find(doi: string | null, title: string, year: number | null): { match: KnownPaper; reason: string } | null {
+        const doiMatch = doi ? this.byDoi.get(doi.toLowerCase()) : undefined
+        if (doiMatch) return { match: doiMatch, reason: `Same DOI as "${doiMatch.title}"` }
+
+        const titleMatch = this.byTitle.get(titleKey(title))
+            ?.find(p => p.year === null || year === null || p.year === year)
+        if (titleMatch) return { match: titleMatch, reason: `Same title as "${titleMatch.title}"` }
+
+        return null
+    }
+}
+
+function libraryIndex(): DuplicateIndex {
+    const index = new DuplicateIndex()
+    const rows = getDb().prepare('SELECT id, title, year, doi FROM papers').all() as Array<{
+        id: string
+        title: string
+        year: number | null
+        doi: string | null
+    }>
+    rows.forEach(row => index.add(row))
+    return index
+}
+
+/** Classify parsed records against the library and earlier records in the file */
+function classify(records: ParsedReference[]): ImportPreviewRecord[] {
+    const library = libraryIndex()
+    const inFile = new DuplicateIndex()
+
+    return records.map(({ index, paper, error }) => {
+        if (!paper) {
+            return {
+                index, status: 'malformed', title: '', authors: [], year: null, journal: null, doi: null,
+                reason: error ?? 'Unreadable record'
+            }
+        }
+
+        const base = {
+            index,
+            title: paper.title,
+            authors: paper.authors ?? [],
+            year: paper.year ?? null,
+            journal: paper.journal ?? null,
+            doi: paper.doi ?? null
+        }
+
+        const inLibrary = library.find(base.doi, base.title, base.year)
+        if (inLibrary) {
+            return { ...base, status: 'duplicate', reason: `${inLibrary.reason} in the library`, duplicate_of: inLibrary.match.id }
+        }
+
+        const earlier = inFile.find(base.doi, base.title, base.year)
+        inFile.add({ id: null, title: base.title, year: base.year, doi: base.doi })
+        if (earlier) {
+            return { ...base, status: 'duplicate', reason: `${earlier.reason} earlier in this file`, duplicate_of: null }
+        }
+
+        return { ...base, status: 'new' }
+    })
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Parse a reference file and classify its records without touching the library */
+export function previewImport(filePath: string): ImportPreview {
+    const { format, records } = readReferenceFile(filePath)
+    const classified = classify(records)
+
+    const counts: Record<ImportRecordStatus, number> = { new: 0, duplicate: 0, malformed: 0 }
+    classified.forEach(r => counts[r.status]++)
+
+    return {
+        file_path: filePath,
+        file_name: basename(filePath),
+        format,
+        records: classified,
+        counts
+    }
+}
+
+/** Show an open dialog and preview the chosen file; null when cancelled */
+export async function chooseImportFile(parentWindow?: BrowserWindow | null): Promise<ImportPreview | null> {
+    const result = await dialog.showOpenDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
+        title: 'Import References',
+        properties: ['openFile'],
+        filters: IMPORT_FILTERS
+    })
+
+    if (result.canceled || result.filePaths.length === 0) return null
+    return previewImport(result.filePaths[0])
+}
+
+/** Create papers for the selected records and file them into a folder */
+export function commitImport(filePath: string, options: ImportOptions = {}): ImportResult {
+    const { records } = readReferenceFile(filePath)
+    const classified = classify(records)
+    const wanted = options.indexes
+        ? new Set(options.indexes)
+        : new Set(classified.filter(r => r.status === 'new').map(r => r.index))
+    const identified: IdentifiedRecordInput[] = []
+
+    const result: ImportResult = { imported: 0, skipped: 0, folder_id: null, errors: [] }
+    const db = getDb()
+
+    db.transaction(() => {
+        const newFolderName = options.newFolderName?.trim()
+        result.folder_id = newFolderName
+            ? createFolder(newFolderName).id
+            : options.folderId ?? null
+
+        for (const [i, record] of records.entries()) {
+            const classification = classified[i]
+            if (!wanted.has(record.index) || !record.paper) {
+                result.skipped++
+                identified.push(classification.status === 'duplicate'
+                    ? { status: 'duplicate', paper_id: classification.duplicate_of ?? null, title: classification.title }
+                    : { status: 'removed', title: classification.title || null })
+                continue
+            }
+            try {
+                const paper = createPaper(record.paper)
+                if (result.folder_id) addPaperToFolder(paper.id, result.folder_id)
+                result.imported++
+                identified.push({ status: 'imported', paper_id: paper.id, title: paper.title })
+            } catch (err) {
+                result.skipped++
+                result.errors.push(`Record ${record.index + 1} ("${record.paper.title}"): ${err instanceof Error ? err.message : String(err)}`)
+                identified.push({ status: 'removed', title: record.paper.title })
+            }
+        }
+
+        const sourceName = options.sourceName?.trim()
+        if (sourceName) {
+            const source = getOrCreateSearchSource(sourceName, options.sourceKind ?? 'database')
+            addIdentifiedRecords(source.id, identified)
+        }
+    })()
+
+    console.log(`[Import] ${result.imported} imported, ${result.skipped} skipped from ${basename(filePath)}`)
+    return result
+}
@@ -0,0 +1,470 @@
+// ============================================================================
+// ThreadMed — Reference File Parsers
+// ============================================================================
+// Parses the citation formats bibliographic databases export and maps every
+// record onto CreatePaperInput:
+//   - RIS:      Ovid, Embase, Cochrane CENTRAL, Scopus, Web of Science
+//   - NBIB:     PubMed / MEDLINE tagged format
+//   - BibTeX:   Google Scholar, reference managers, LaTeX bibliographies
+//   - CSL-JSON: Zotero, Mendeley, citation.js
+// Authors are normalized to "Last, First" like Zotero-synced papers.
+// ============================================================================
+
+import { extname } from 'path'
+import type { CreatePaperInput } from '../database/repositories/papers'
+
+export type ReferenceFormat = 'ris' | 'nbib' | 'bibtex' | 'csl-json'
+
+/** One record from an import file; `paper` is null when the record is unusable */
+export interface ParsedReference {
+    /** Position of the record in the file (0-based) */
+    index: number
+    paper: CreatePaperInput | null
+    error?: string
+}
+
+interface RecordFields {
+    title?: string | null
+    authors?: string[]
+    year?: number | null
+    journal?: string | null
+    doi?: string | null
+    abstract?: string | null
+}
+
+// ── Shared Helpers ───────────────────────────────────────────────────────────
+
+/** Pull a bare DOI out of a DOI field, a doi.org URL or "10.x/y [doi]" */
+export function cleanDoi(value: string | null | undefined): string | null {
+    if (!value) return null
+    const match = value.match(/10\.\d{4,9}\/[^\s"<>]+/)
+    return match ? match[0].replace(/[.,;]+$/, '') : null
+}
+
+function firstYear(value: string | null | undefined): number | null {
+    const match = value?.match(/\b(1[5-9]\d{2}|20\d{2})\b/)
+    return match ? parseInt(match[1], 10) : null
+}
+
+function collapse(value: string | null | undefined): string {
+    return (value ?? '').replace(/\s+/g, ' ').trim()
+}
+
+function finishRecord(index: number, fields: RecordFields): ParsedReference {
+    const title = collapse(fields.title)
+    if (!title) return { index, paper: null, error: 'Missing title' }
+
+    return {
+        index,
+        paper: {
+            title,
+            authors: [...new Set((fields.authors ?? []).map(collapse).filter(Boolean))],
+            year: fields.year ?? null,
+            journal: collapse(fields.journal) || null,
+            doi: cleanDoi(fields.doi),
+            abstract: collapse(fields.abstract) || null
+        }
+    }
+}
+
+// ── Tagged Formats (RIS, NBIB) ───────────────────────────────────────────────
+
+type TaggedRecord = Map<string, string[]>
+
+function pushTag(record: TaggedRecord, tag: string, value: string): void {
+    if (!record.has(tag)) record.set(tag, [])
+    record.get(tag)!.push(value)
+}
+
+/** Append a wrapped continuation line to the last value of a tag */
+function appendToTag(record: TaggedRecord, tag: string, value: string): void {
+    const values = record.get(tag)
+    if (!values || values.length === 0) return
+    values[values.length - 1] = `${values[values.length - 1]} ${value}`
+}
+
+/** First non-empty value among the given tags, in priority order */
+function firstTag(record: TaggedRecord, ...tags: string[]): string | undefined {
+    for (const tag of tags) {
+        const value = record.get(tag)?.find(v => v.trim())
+        if (value) return value
+    }
+    return undefined
+}
+
+function allTags(record: TaggedRecord, ...tags: string[]): string[] {
+    return tags.flatMap(tag => record.get(tag) ?? [])
+}
+
+const RIS_LINE = /^([A-Z][A-Z0-9])\s{1,2}-\s?(.*)$/
+
+function parseRis(text: string): ParsedReference[] {
+    const records: TaggedRecord[] = []
+    let current: TaggedRecord | null = null
+    let lastTag: string | null = null
+
+    for (const line of text.split('\n')) {
+        const match = line.match(RIS_LINE)
+        if (match) {
+            const [, tag, value] = match
+            if (tag === 'TY') {
+                current = new Map()
+                records.push(current)
+            } else if (tag === 'ER') {
+                current = null
+                lastTag = null
+                continue
+            }
+            if (!current) continue
+            pushTag(current, tag, value.trim())
+            lastTag = tag
+        } else if (current && lastTag && line.trim()) {
+            appendToTag(current, lastTag, line.trim())
+        }
+    }
+
+    return records.map((record, index) => finishRecord(index, {
+        title: firstTag(record, 'TI', 'T1', 'CT', 'BT'),
+        authors: allTags(record, 'AU', 'A1'),
+        year: firstYear(firstTag(record, 'PY', 'Y1', 'DA', 'Y2')),
+        journal: firstTag(record, 'T2', 'JF', 'JO', 'JA', 'J2', 'J1'),
+        doi: firstTag(record, 'DO') ?? allTags(record, 'UR', 'M3', 'L3').find(v => cleanDoi(v)),
+        abstract: firstTag(record, 'AB', 'N2')
+    }))
+}
+
+const NBIB_LINE = /^([A-Z][A-Z0-9]{1,3})\s*- (.*)$/
+
+/** "Smith JA" → "Smith, JA" (MEDLINE short author form) */
+function medlineAuthor(name: string): string {
+    return name.replace(/^(.*\S)\s+([A-Z]{1,4})$/, '$1, $2')
+}
+
+function parseNbib(text: string): ParsedReference[] {
+    const records: TaggedRecord[] = []
+    let current: TaggedRecord | null = null
+    let lastTag: string | null = null
+
+    for (const line of text.split('\n')) {
+        const match = line.match(NBIB_LINE)
+        if (match) {
+            const [, tag, value] = match
+            if (tag === 'PMID' || !current) {
+                current = new Map()
+                records.push(current)
+            }
+            pushTag(current, tag, value.trim())
+            lastTag = tag
+        } else if (current && lastTag && /^\s+\S/.test(line)) {
+            appendToTag(current, lastTag, line.trim())
+        }
+    }
+
+    return records.map((record, index) => {
+        const fullAuthors = allTags(record, 'FAU')
+        const ids = allTags(record, 'LID', 'AID')
+        return finishRecord(index, {
+            title: firstTag(record, 'TI', 'BTI'),
+            authors: fullAuthors.length > 0 ? fullAuthors : allTags(record, 'AU').map(medlineAuthor),
+            year: firstYear(firstTag(record, 'DP', 'DEP')),
+            journal: firstTag(record, 'JT', 'TA'),
+            doi: ids.find(id => id.endsWith('[doi]')),
+            abstract: firstTag(record, 'AB')
+        })
+    })
+}
+
+// ── BibTeX ───────────────────────────────────────────────────────────────────
+
+const TEX_ACCENTS: Record<string, string> = {
+    '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303',
+    '=': '\u0304', '.': '\u0307', u: '\u0306', v: '\u030C', H: '\u030B', c: '\u0327', k: '\u0328'
+}
+
+const TEX_SYMBOLS: Record<string, string> = {
+    ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', o: 'ø', O: 'Ø', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ'
+}
+
+/** Convert common LaTeX escapes to Unicode and drop grouping braces */
+function deTex(value: string): string {
+    return value
+        .replace(/\\(["'`^~=.])\s*\{?\\?([A-Za-z])\}?/g, (_, accent, ch) => ch + TEX_ACCENTS[accent])
+        .replace(/\\([uvHck])(?:\s*\{\\?([A-Za-z])\}|\s+([A-Za-z]))/g, (_, accent, a, b) => (a ?? b) + TEX_ACCENTS[accent])
+        .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i|j)(?![A-Za-z])\s*/g, (_, sym) => TEX_SYMBOLS[sym])
+        .replace(/\\([&%$#_{}])/g, '$1')
+        .replace(/---/g, '—')
+        .replace(/--/g, '–')
+        .replace(/~/g, ' ')
+        .replace(/\\[A-Za-z]+\s*/g, '')
+        .replace(/[{}]/g, '')
+        .normalize('NFC')
+}
+
+/** Index of the character closing an entry opened with `{` or `(` */
+function findEntryEnd(text: string, start: number, close: '}' | ')'): number {
+    let depth = 0
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i]
+        if (ch === '\\') {
+            i++
+        } else if (ch === '{') {
+            depth++
+        } else if (ch === '}') {
+            if (depth === 0) return close === '}' ? i : -1
+            depth--
+        } else if (ch === ')' && close === ')' && depth === 0) {
+            return i
+        }
+    }
+    return -1
+}
+
+/** Parse `name = value, …` pairs; values may be {…}, "…", numbers or @string macros joined by # */
+function parseBibFields(body: string, macros: Map<string, string>): Map<string, string> {
+    const fields = new Map<string, string>()
+    let i = 0
+
+    const skipSpace = () => {
+        while (i < body.length && /[\s,]/.test(body[i])) i++
+    }
+
+    const readDelimited = (): string => {
+        const open = body[i]
+        const close = open === '{' ? '}' : '"'
+        let depth = 0
+        const start = ++i
+        for (; i < body.length; i++) {
+            const ch = body[i]
+            if (ch === '\\') { i++; continue }
+            if (ch === '{') depth++
+            if (ch === '}') {
+                if (depth === 0 && close === '}') return body.slice(start, i++)
+                depth--
+            }
+            if (ch === '"' && close === '"' && depth === 0) return body.slice(start, i++)
+        }
+        throw new Error('Unterminated field value')
+    }
+
+    while (true) {
+        skipSpace()
+        if (i >= body.length) break
+
+        const name = body.slice(i).match(/^[A-Za-z][\w:.+-]*/)
+        if (!name) throw new Error(`Unexpected "${body.slice(i, i + 20)}"`)
+        i += name[0].length
+        while (i < body.length && /\s/.test(body[i])) i++
+        if (body[i] !== '=') throw new Error(`Missing "=" after ${name[0]}`)
+        i++
+
+        const parts: string[] = []
+        while (true) {
+            while (i < body.length && /\s/.test(body[i])) i++
+            if (body[i] === '{' || body[i] === '"') {
+                parts.push(readDelimited())
+            } else {
+                const bare = body.slice(i).match(/^[\w:.+-]+/)
+                if (!bare) throw new Error(`Missing value for ${name[0]}`)
+                i += bare[0].length
+                parts.push(macros.get(bare[0].toLowerCase()) ?? bare[0])
+            }
+            while (i < body.length && /\s/.test(body[i])) i++
+            if (body[i] !== '#') break
+            i++
+        }
+
+        fields.set(name[0].toLowerCase(), parts.join(''))
+    }
+
+    return fields
+}
+
+/** Split a BibTeX name list on top-level " and " */
+function splitBibNames(raw: string): string[] {
+    const names: string[] = []
+    let depth = 0
+    let start = 0
+    for (let i = 0; i < raw.length; i++) {
+        if (raw[i] === '{') depth++
+        else if (raw[i] === '}') depth--
+        else if (depth === 0 && /^\s+and\s+/i.test(raw.slice(i, i + 6))) {
+            const match = raw.slice(i).match(/^\s+and\s+/i)!
+            names.push(raw.slice(start, i))
+            i += match[0].length - 1
+            start = i + 1
+        }
+    }
+    names.push(raw.slice(start))
+    return names.map(n => n.trim()).filter(n => n && n.toLowerCase() !== 'others')
+}
+
+/** "First Last" → "Last, First"; "{Corporate Name}" and "Last, First" kept */
+function bibAuthor(raw: string): string {
+    if (/^\{.*\}$/.test(raw) || raw.includes(',')) return deTex(raw)
+
+    // Split on top-level whitespace so braced groups stay together
+    const tokens: string[] = []
+    let depth = 0
+    let token = ''
+    for (const ch of raw) {
+        if (ch === '{') depth++
+        if (ch === '}') depth--
+        if (/\s/.test(ch) && depth === 0) {
+            if (token) tokens.push(token)
+            token = ''
+        } else {
+            token += ch
+        }
+    }
+    if (token) tokens.push(token)
+    if (tokens.length < 2) return deTex(raw)
+
+    // "von" particles (lowercase words before the last name) belong to the last name
+    let split = tokens.length - 1
+    while (split > 1 && /^[a-z]/.test(tokens[split - 1])) split--
+    const last = tokens.slice(split).join(' ')
+    const first = tokens.slice(0, split).join(' ')
+    return deTex(`${last}, ${first}`)
+}
+
+function parseBibtex(text: string): ParsedReference[] {
+    const results: ParsedReference[] = []
+    const macros = new Map<string, string>()
+    const entryHead = /@\s*([A-Za-z]+)\s*([{(])/g
+    let index = 0
+    let match: RegExpExecArray | null
+
+    while ((match = entryHead.exec(text))) {
+        const type = match[1].toLowerCase()
+        const bodyStart = match.index + match[0].length
+        const end = findEntryEnd(text, bodyStart, match[2] === '{' ? '}' : ')')
+        if (end < 0) {
+            if (type !== 'comment') results.push({ index: index++, paper: null, error: 'Unterminated entry' })
+            break
+        }
+        entryHead.lastIndex = end + 1
+        const body = text.slice(bodyStart, end)
+
+        if (type === 'comment' || type === 'preamble') continue
+        if (type === 'string') {
+            try {
+                parseBibFields(body, macros).forEach((value, key) => macros.set(key, value))
+            } catch {
+                // Ignore broken macro definitions; fields using them keep the raw name
+            }
+            continue
+        }
+
+        const comma = body.indexOf(',')
+        const recordIndex = index++
+        try {
+            const fields = parseBibFields(comma < 0 ? '' : body.slice(comma + 1), macros)
+            const get = (...names: string[]) => {
+                const value = names.map(n => fields.get(n)).find(v => v && v.trim())
+                return value ? deTex(value) : null
+            }
+            results.push(finishRecord(recordIndex, {
+                title: get('title'),
+                authors: splitBibNames(fields.get('author') ?? '').map(bibAuthor),
+                year: firstYear(get('year', 'date')),
+                journal: get('journal', 'journaltitle', 'booktitle'),
+                doi: fields.get('doi') ?? fields.get('url') ?? null,
+                abstract: get('abstract')
+            }))
+        } catch (err) {
+            results.push({ index: recordIndex, paper: null, error: err instanceof Error ? err.message : String(err) })
+        }
+    }
+
+    return results
+}
+
+// ── CSL-JSON ─────────────────────────────────────────────────────────────────
+
+interface CslName {
+    family?: string
+    given?: string
+    literal?: string
+}
+
+interface CslItem {
+    title?: string
+    author?: CslName[]
+    issued?: { 'date-parts'?: Array<Array<number | string>>; raw?: string; literal?: string }
+    'container-title'?: string | string[]
+    DOI?: string
+    URL?: string
+    abstract?: string
+}
+
+function cslText(value: unknown): string | null {
+    if (Array.isArray(value)) return cslText(value[0])
+    return typeof value === 'string' ? value : null
+}
+
+function parseCslJson(text: string): ParsedReference[] {
+    let data: unknown
+    try {
+        data = JSON.parse(text)
+    } catch (err) {
+        return [{ index: 0, paper: null, error: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` }]
+    }
+
+    const items: unknown[] = Array.isArray(data) ? data : [data]
+    return items.map((raw, index) => {
+        if (!raw || typeof raw !== 'object') return { index, paper: null, error: 'Not a CSL-JSON item' }
+        const item = raw as CslItem
+
+        const authors = (Array.isArray(item.author) ? item.author : []).map(name =>
+            name.literal ?? (name.family ? (name.given ? `${name.family}, ${name.given}` : name.family) : name.given ?? '')
+        )
+        const datePart = item.issued?.['date-parts']?.[0]?.[0]
+
+        return finishRecord(index, {
+            title: cslText(item.title),
+            authors,
+            year: datePart !== undefined
+                ? firstYear(String(datePart))
+                : firstYear(item.issued?.raw ?? item.issued?.literal),
+            journal: cslText(item['container-title']),
+            doi: cslText(item.DOI) ?? cslText(item.URL),
+            abstract: cslText(item.abstract)
+        })
+    })
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+const FORMAT_BY_EXTENSION: Record<string, ReferenceFormat> = {
+    '.ris': 'ris',
+    '.nbib': 'nbib',
+    '.medline': 'nbib',
+    '.bib': 'bibtex',
+    '.bibtex': 'bibtex',
+    '.json': 'csl-json'
+}
+
+/** Guess the format from the file extension, falling back to the content */
+export function detectFormat(text: string, fileName = ''): ReferenceFormat | null {
+    const byExtension = FORMAT_BY_EXTENSION[extname(fileName).toLowerCase()]
+    if (byExtension) return byExtension
+
+    const head = text.replace(/^\uFEFF/, '').trimStart()
+    if (head.startsWith('[') || head.startsWith('{')) return 'csl-json'
+    if (/^TY\s{1,2}-/m.test(head)) return 'ris'
+    if (/^PMID- /m.test(head)) return 'nbib'
+    if (/@[A-Za-z]+\s*[{(]/.test(head)) return 'bibtex'
+    return null
+}
+
+/** Parse every record in a reference file */
+export function parseReferences(text: string, format: ReferenceFormat): ParsedReference[] {
+    const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+    switch (format) {
+        case 'ris': return parseRis(normalized)
+        case 'nbib': return parseNbib(normalized)
+        case 'bibtex': return parseBibtex(normalized)
+        case 'csl-json': return parseCslJson(normalized)
+        default: throw new Error(`Unsupported reference format: ${format}`)
+    }
+}
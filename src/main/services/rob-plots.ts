@@ -0,0 +1,221 @@
+// ============================================================================
+// ThreadMed — Risk of Bias Plots
+// ============================================================================
+// Draws the two standard risk-of-bias figures for one tool's assessments:
+//   - Traffic-light plot: one row per study (and outcome), one coloured
+//     circle per domain plus the overall judgement
+//   - Summary plot: one stacked bar per domain showing the share of studies
+//     with each judgement
+// Colours and symbols follow the tool's judgements (robvis conventions).
+// Exported as SVG, PNG or PDF through svg-export.ts.
+// ============================================================================
+
+import { BrowserWindow, dialog } from 'electron'
+import { listRobAssessments } from '../database/repositories/risk-of-bias'
+import { getPaper } from '../database/repositories/papers'
+import { getRobTool, listRobAssessmentDetails, type RobAssessmentDetail, type RobJudgement, type RobToolDefinition } from './rob-tools'
+import { studyLabel } from './matrix-exporter'
+import { SVG_FORMAT_FILTERS, escapeXml, writeSvgImage, type SvgExportFormat, type SvgImage } from './svg-export'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type RobPlotKind = 'traffic_light' | 'summary'
+
+interface PlotRow {
+    label: string
+    assessment: RobAssessmentDetail
+}
+
+const FONT = 'Arial, Helvetica, sans-serif'
+const FONT_SIZE = 12
+/** Rough average width of a 12px Arial character, for sizing label columns */
+const CHAR_WIDTH = 6.6
+const MARGIN = 16
+const UNJUDGED: RobJudgement = { value: '', label: 'Not yet judged', color: '#D9D9D9', symbol: '' }
+
+const PLOT_NAMES: Record<RobPlotKind, string> = {
+    traffic_light: 'traffic-light',
+    summary: 'summary'
+}
+
+function textWidth(text: string): number {
+    return Math.ceil(text.length * CHAR_WIDTH)
+}
+
+function judgementFor(tool: RobToolDefinition, value: string | null): RobJudgement {
+    return tool.judgements.find(j => j.value === value) ?? UNJUDGED
+}
+
+function collectRows(tool: RobToolDefinition): PlotRow[] {
+    return listRobAssessmentDetails(tool.id)
+        .map(assessment => {
+            const paper = getPaper(assessment.paper_id)
+            const study = paper ? studyLabel(paper) : assessment.paper_title
+            return { label: assessment.outcome ? `${study} (${assessment.outcome})` : study, assessment }
+        })
+        .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+function wrapSvg(width: number, height: number, scale: number, parts: string[]): SvgImage {
+    const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width * scale}" height="${height * scale}" viewBox="0 0 ${width} ${height}" font-family="${FONT}" font-size="${FONT_SIZE}" fill="#000000">`,
+        `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+        ...parts,
+        '</svg>'
+    ].join('\n')
+    return { svg, width: width * scale, height: height * scale }
+}
+
+/** Judgement colours as a legend row starting at (x, y); returns its height */
+function drawLegend(judgements: RobJudgement[], x: number, y: number, parts: string[]): number {
+    let cx = x
+    for (const j of judgements) {
+        parts.push(
+            `<rect x="${cx}" y="${y}" width="12" height="12" rx="2" fill="${j.color}"/>`,
+            `<text x="${cx + 18}" y="${y + 10}">${escapeXml(j.label)}</text>`
+        )
+        cx += 18 + textWidth(j.label) + 16
+    }
+    return 12
+}
+
+// ── Traffic-Light Plot ───────────────────────────────────────────────────────
+
+const CELL = 32
+const RADIUS = 11
+
+function buildTrafficLight(tool: RobToolDefinition, rows: PlotRow[], scale: number): SvgImage {
+    const parts: string[] = []
+    const columns = [...tool.domains.map(d => ({ id: d.id, heading: d.short })), { id: 'overall', heading: 'Overall' }]
+    const labelWidth = Math.max(textWidth('Study'), ...rows.map(r => textWidth(r.label))) + 12
+    const gridX = MARGIN + labelWidth
+    const headerY = MARGIN
+    const gridY = headerY + 24
+    const gridWidth = columns.length * CELL
+
+    // Column headings and a frame around the grid
+    columns.forEach((column, i) => {
+        parts.push(`<text x="${gridX + i * CELL + CELL / 2}" y="${headerY + 14}" text-anchor="middle" font-weight="bold">${escapeXml(column.heading)}</text>`)
+    })
+    parts.push(`<text x="${MARGIN}" y="${headerY + 14}" font-weight="bold">Study</text>`)
+    parts.push(`<rect x="${gridX}" y="${gridY}" width="${gridWidth}" height="${rows.length * CELL}" fill="#f5f5f5" stroke="#bbbbbb"/>`)
+
+    rows.forEach((row, r) => {
+        const cy = gridY + r * CELL + CELL / 2
+        parts.push(`<text x="${MARGIN}" y="${cy}" dominant-baseline="middle">${escapeXml(row.label)}</text>`)
+        if (r > 0) parts.push(`<line x1="${gridX}" y1="${gridY + r * CELL}" x2="${gridX + gridWidth}" y2="${gridY + r * CELL}" stroke="#dddddd"/>`)
+
+        const values = [...row.assessment.domains.map(d => d.judgement), row.assessment.overall]
+        values.forEach((value, c) => {
+            const judgement = judgementFor(tool, value)
+            const cx = gridX + c * CELL + CELL / 2
+            parts.push(`<circle cx="${cx}" cy="${cy}" r="${RADIUS}" fill="${judgement.color}" stroke="#555555" stroke-width="0.5"/>`)
+            if (judgement.symbol) {
+                parts.push(`<text x="${cx}" y="${cy + 1}" text-anchor="middle" dominant-baseline="middle" font-weight="bold">${escapeXml(judgement.symbol)}</text>`)
+            }
+        })
+    })
+    // Overall column stands apart from the domains
+    parts.push(`<line x1="${gridX + tool.domains.length * CELL}" y1="${gridY}" x2="${gridX + tool.domains.length * CELL}" y2="${gridY + rows.length * CELL}" stroke="#888888"/>`)
+
+    // Domain key and judgement legend
+    let y = gridY + rows.length * CELL + 24
+    const key = tool.domains.map(d => `${d.short}: ${d.name}`)
+    key.forEach(line => {
+        parts.push(`<text x="${MARGIN}" y="${y}" font-size="11">${escapeXml(line)}</text>`)
+        y += 16
+    })
+    y += 8
+    const legend = [...tool.judgements]
+    if (rows.some(r => r.assessment.domains.some(d => !d.judgement) || !r.assessment.overall)) legend.push(UNJUDGED)
+    y += drawLegend(legend, MARGIN, y, parts)
+
+    const legendWidth = legend.reduce((sum, j) => sum + 34 + textWidth(j.label), 0)
+    const keyWidth = Math.max(...key.map(line => Math.ceil(line.length * CHAR_WIDTH * 11 / 12)))
+    const width = Math.max(gridX + gridWidth, MARGIN + keyWidth, MARGIN + legendWidth) + MARGIN
+    return wrapSvg(width, y + MARGIN, scale, parts)
+}
+
+// ── Summary Plot ─────────────────────────────────────────────────────────────
+
+const BAR_WIDTH = 420
+const BAR_HEIGHT = 22
+const BAR_GAP = 8
+
+function buildSummary(tool: RobToolDefinition, rows: PlotRow[], scale: number): SvgImage {
+    const parts: string[] = []
+    const bars = [
+        ...tool.domains.map((d, i) => ({ label: d.name, values: rows.map(r => r.assessment.domains[i].judgement) })),
+        { label: 'Overall risk of bias', values: rows.map(r => r.assessment.overall) }
+    ]
+    const labelWidth = Math.max(...bars.map(b => textWidth(b.label))) + 12
+    const barX = MARGIN + labelWidth
+    const legend = [...tool.judgements]
+    if (bars.some(b => b.values.some(v => !v))) legend.push(UNJUDGED)
+
+    let y = MARGIN
+    bars.forEach((bar, i) => {
+        const top = y + i * (BAR_HEIGHT + BAR_GAP)
+        if (i === bars.length - 1) parts.push(`<line x1="${MARGIN}" y1="${top - BAR_GAP / 2}" x2="${barX + BAR_WIDTH}" y2="${top - BAR_GAP / 2}" stroke="#888888"/>`)
+        parts.push(`<text x="${barX - 12}" y="${top + BAR_HEIGHT / 2}" text-anchor="end" dominant-baseline="middle"${i === bars.length - 1 ? ' font-weight="bold"' : ''}>${escapeXml(bar.label)}</text>`)
+
+        let x = barX
+        for (const judgement of legend) {
+            const count = bar.values.filter(v => (v ?? '') === judgement.value).length
+            if (count === 0 || rows.length === 0) continue
+            const width = (count / rows.length) * BAR_WIDTH
+            parts.push(`<rect x="${x}" y="${top}" width="${width}" height="${BAR_HEIGHT}" fill="${judgement.color}" stroke="#ffffff" stroke-width="0.5"/>`)
+            x += width
+        }
+        parts.push(`<rect x="${barX}" y="${top}" width="${BAR_WIDTH}" height="${BAR_HEIGHT}" fill="none" stroke="#555555" stroke-width="0.5"/>`)
+    })
+    y += bars.length * (BAR_HEIGHT + BAR_GAP)
+
+    // Percentage axis
+    for (let pct = 0; pct <= 100; pct += 25) {
+        const x = barX + (pct / 100) * BAR_WIDTH
+        parts.push(
+            `<line x1="${x}" y1="${y - BAR_GAP}" x2="${x}" y2="${y - BAR_GAP + 4}" stroke="#555555"/>`,
+            `<text x="${x}" y="${y + 10}" text-anchor="middle" font-size="11">${pct}%</text>`
+        )
+    }
+    y += 28
+    y += drawLegend(legend, barX, y, parts)
+
+    const legendWidth = legend.reduce((sum, j) => sum + 34 + textWidth(j.label), 0)
+    const width = Math.max(barX + BAR_WIDTH, barX + legendWidth) + MARGIN
+    return wrapSvg(width, y + MARGIN, scale, parts)
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Draw a plot of every assessment made with `toolId`; `scale` enlarges the rendered size */
+export function buildRobPlot(kind: RobPlotKind, toolId: string, scale = 1): SvgImage {
+    const tool = getRobTool(toolId)
+    const rows = collectRows(tool)
+    return kind === 'traffic_light' ? buildTrafficLight(tool, rows, scale) : buildSummary(tool, rows, scale)
+}
+
+/** Show a save dialog and write the plot; returns the saved path or null when cancelled */
+export async function exportRobPlot(
+    kind: RobPlotKind,
+    toolId: string,
+    format: SvgExportFormat,
+    parentWindow?: BrowserWindow | null
+): Promise<string | null> {
+    const filter = SVG_FORMAT_FILTERS[format]
+    if (!filter) throw new Error(`Unsupported export format: ${format}`)
+    const tool = getRobTool(toolId)
+    if (listRobAssessments(tool.id).length === 0) throw new Error(`No ${tool.name} assessments to plot`)
+
+    const result = await dialog.showSaveDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
+        title: `Export ${tool.name} ${PLOT_NAMES[kind]} plot`,
+        defaultPath: `${tool.id}-${PLOT_NAMES[kind]}.${filter.extensions[0]}`,
+        filters: [filter]
+    })
+
+    if (result.canceled || !result.filePath) return null
+
+    await writeSvgImage(result.filePath, format, scale => buildRobPlot(kind, tool.id, scale))
+    return result.filePath
+}
@@ -0,0 +1,515 @@
+// ============================================================================
+// ThreadMed — Risk of Bias Tools
+// ============================================================================
+// Built-in risk-of-bias tools and the rules that turn answers into judgements:
+//   - RoB 2:     randomized trials (effect of assignment). Each domain is
+//                derived from its signalling questions with the algorithms of
+//                the RoB 2 guidance; overall is the worst domain, "high" once
+//                any domain is high
+//   - ROBINS-I:  non-randomized studies of interventions. Signalling questions
+//                guide the reviewer, who judges each domain; overall is the
+//                worst domain
+//   - NOS:       Newcastle–Ottawa Scale for cohort studies. Answers award
+//                stars; each domain's stars map to good / fair / poor with the
+//                AHRQ thresholds, and overall is the worst domain
+// A domain's judgement can always be overridden by the reviewer, as can the
+// overall judgement. Definitions go to the renderer without the functions.
+// ============================================================================
+
+import { listRobAssessments, getRobAssessmentRecord, type RobAssessmentRecord, type RobEvidence } from '../database/repositories/risk-of-bias'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type RobToolId = 'rob2' | 'robins_i' | 'nos'
+
+export interface RobOption {
+    value: string
+    label: string
+    /** NOS only: stars awarded for this answer */
+    stars?: number
+}
+
+/** A question only applies when earlier answers call for it */
+export interface RobCondition {
+    match: 'any' | 'all'
+    rules: Array<{ question: string; answers: string[] }>
+}
+
+export interface RobQuestion {
+    id: string
+    text: string
+    options: RobOption[]
+    condition?: RobCondition
+}
+
+export interface RobDomain {
+    id: string
+    /** Column heading in plots, e.g. "D1" */
+    short: string
+    name: string
+    questions: RobQuestion[]
+    /** True when the judgement follows from the answers, false when the reviewer judges */
+    derived: boolean
+}
+
+export interface RobJudgement {
+    value: string
+    label: string
+    color: string
+    /** Drawn inside the traffic-light circle */
+    symbol: string
+}
+
+export interface RobToolDefinition {
+    id: RobToolId
+    name: string
+    study_design: string
+    /** Judgements in legend order */
+    judgements: RobJudgement[]
+    domains: RobDomain[]
+    /** How the overall judgement is reached, shown beside it */
+    overall_rule: string
+}
+
+type Answers = Record<string, string>
+
+interface RobTool extends RobToolDefinition {
+    deriveDomain: Partial<Record<string, (answers: Answers) => string | null>>
+    /** Null while any domain is unjudged */
+    deriveOverall: (judgements: Array<string | null>) => string | null
+}
+
+export interface RobDomainResult {
+    domain_id: string
+    /** Judgement from the answers; null when incomplete or judged by the reviewer */
+    derived: string | null
+    override: string | null
+    /** The judgement that counts: the override, otherwise the derived one */
+    judgement: string | null
+    support: string
+    evidence: RobEvidence[]
+    /** NOS only */
+    stars?: number
+}
+
+export interface RobAssessmentDetail extends Omit<RobAssessmentRecord, 'domains' | 'evidence'> {
+    domains: RobDomainResult[]
+    derived_overall: string | null
+    overall: string | null
+}
+
+// ── Answer Helpers ───────────────────────────────────────────────────────────
+
+const SIGNALLING: RobOption[] = [
+    { value: 'Y', label: 'Yes' },
+    { value: 'PY', label: 'Probably yes' },
+    { value: 'PN', label: 'Probably no' },
+    { value: 'N', label: 'No' },
+    { value: 'NI', label: 'No information' }
+]
+const SIGNALLING_NO_NI = SIGNALLING.filter(o => o.value !== 'NI')
+
+const YES = ['Y', 'PY']
+const NO = ['N', 'PN']
+const YES_OR_NI = ['Y', 'PY', 'NI']
+const NO_OR_NI = ['N', 'PN', 'NI']
+
+const isYes = (answer: string | undefined) => answer !== undefined && YES.includes(answer)
+const isNo = (answer: string | undefined) => answer !== undefined && NO.includes(answer)
+
+function when(match: RobCondition['match'], ...rules: Array<[string, string[]]>): RobCondition {
+    return { match, rules: rules.map(([question, answers]) => ({ question, answers })) }
+}
+
+function q(id: string, text: string, condition?: RobCondition, options = SIGNALLING): RobQuestion {
+    return { id, text, options, condition }
+}
+
+/** Worst of the judgements by their position in `order`, null if any is missing */
+function worstOf(order: string[], judgements: Array<string | null>): string | null {
+    if (judgements.length === 0 || judgements.some(j => j === null)) return null
+    return judgements.reduce((worst, j) => order.indexOf(j!) > order.indexOf(worst!) ? j : worst)
+}
+
+// ── RoB 2 ────────────────────────────────────────────────────────────────────
+
+const ROB2_ORDER = ['low', 'some_concerns', 'high']
+
+const ROB2: RobTool = {
+    id: 'rob2',
+    name: 'RoB 2',
+    study_design: 'Randomized trials',
+    judgements: [
+        { value: 'low', label: 'Low risk', color: '#02C100', symbol: '+' },
+        { value: 'some_concerns', label: 'Some concerns', color: '#E2DF07', symbol: '-' },
+        { value: 'high', label: 'High risk', color: '#BF0000', symbol: 'x' }
+    ],
+    overall_rule: 'Low if every domain is low; high if any domain is high; otherwise some concerns.',
+    domains: [
+        {
+            id: 'd1', short: 'D1', name: 'Bias arising from the randomization process', derived: true,
+            questions: [
+                q('1.1', 'Was the allocation sequence random?'),
+                q('1.2', 'Was the allocation sequence concealed until participants were enrolled and assigned to interventions?'),
+                q('1.3', 'Did baseline differences between intervention groups suggest a problem with the randomization process?')
+            ]
+        },
+        {
+            id: 'd2', short: 'D2', name: 'Bias due to deviations from intended interventions', derived: true,
+            questions: [
+                q('2.1', 'Were participants aware of their assigned intervention during the trial?'),
+                q('2.2', 'Were carers and people delivering the interventions aware of participants\' assigned intervention during the trial?'),
+                q('2.3', 'Were there deviations from the intended intervention that arose because of the trial context?',
+                    when('any', ['2.1', YES_OR_NI], ['2.2', YES_OR_NI])),
+                q('2.4', 'Were these deviations likely to have affected the outcome?', when('all', ['2.3', YES])),
+                q('2.5', 'Were these deviations from intended intervention balanced between groups?', when('all', ['2.4', YES_OR_NI])),
+                q('2.6', 'Was an appropriate analysis used to estimate the effect of assignment to intervention?'),
+                q('2.7', 'Was there potential for a substantial impact (on the result) of the failure to analyse participants in the group to which they were randomized?',
+                    when('all', ['2.6', NO_OR_NI]))
+            ]
+        },
+        {
+            id: 'd3', short: 'D3', name: 'Bias due to missing outcome data', derived: true,
+            questions: [
+                q('3.1', 'Were data for this outcome available for all, or nearly all, participants randomized?'),
+                q('3.2', 'Is there evidence that the result was not biased by missing outcome data?',
+                    when('all', ['3.1', NO_OR_NI]), SIGNALLING_NO_NI),
+                q('3.3', 'Could missingness in the outcome depend on its true value?', when('all', ['3.2', NO])),
+                q('3.4', 'Is it likely that missingness in the outcome depended on its true value?', when('all', ['3.3', YES_OR_NI]))
+            ]
+        },
+        {
+            id: 'd4', short: 'D4', name: 'Bias in measurement of the outcome', derived: true,
+            questions: [
+                q('4.1', 'Was the method of measuring the outcome inappropriate?'),
+                q('4.2', 'Could measurement or ascertainment of the outcome have differed between intervention groups?'),
+                q('4.3', 'Were outcome assessors aware of the intervention received by study participants?',
+                    when('all', ['4.1', NO_OR_NI], ['4.2', NO_OR_NI])),
+                q('4.4', 'Could assessment of the outcome have been influenced by knowledge of intervention received?',
+                    when('all', ['4.3', YES_OR_NI])),
+                q('4.5', 'Is it likely that assessment of the outcome was influenced by knowledge of intervention received?',
+                    when('all', ['4.4', YES_OR_NI]))
+            ]
+        },
+        {
+            id: 'd5', short: 'D5', name: 'Bias in selection of the reported result', derived: true,
+            questions: [
+                q('5.1', 'Were the data that produced this result analysed in accordance with a pre-specified analysis plan that was finalized before unblinded outcome data were available for analysis?'),
+                q('5.2', 'Is the numerical result being assessed likely to have been selected, on the basis of the results, from multiple eligible outcome measurements (e.g. scales, definitions, time points) within the outcome domain?'),
+                q('5.3', 'Is the numerical result being assessed likely to have been selected, on the basis of the results, from multiple eligible analyses of the data?')
+            ]
+        }
+    ],
+    deriveDomain: {
+        d1: a => {
+            if (!a['1.1'] || !a['1.2'] || !a['1.3']) return null
+            if (isNo(a['1.2'])) return 'high'
+            if (a['1.2'] === 'NI') return isYes(a['1.3']) ? 'high' : 'some_concerns'
+            if (isYes(a['1.3']) || isNo(a['1.1'])) return 'some_concerns'
+            return 'low'
+        },
+        d2: a => {
+            // Part 1: deviations that arose because of the trial context
+            if (!a['2.1'] || !a['2.2']) return null
+            let awareness: string
+            if (isNo(a['2.1']) && isNo(a['2.2'])) awareness = 'low'
+            else if (!a['2.3']) return null
+            else if (isNo(a['2.3'])) awareness = 'low'
+            else if (a['2.3'] === 'NI') awareness = 'some_concerns'
+            else if (!a['2.4']) return null
+            else if (isNo(a['2.4'])) awareness = 'some_concerns'
+            else if (!a['2.5']) return null
+            else awareness = isYes(a['2.5']) ? 'some_concerns' : 'high'
+
+            // Part 2: analysis used to estimate the effect of assignment
+            if (!a['2.6']) return null
+            let analysis: string
+            if (isYes(a['2.6'])) analysis = 'low'
+            else if (!a['2.7']) return null
+            else analysis = isNo(a['2.7']) ? 'some_concerns' : 'high'
+
+            return worstOf(ROB2_ORDER, [awareness, analysis])
+        },
+        d3: a => {
+            if (!a['3.1']) return null
+            if (isYes(a['3.1'])) return 'low'
+            if (!a['3.2']) return null
+            if (isYes(a['3.2'])) return 'low'
+            if (!a['3.3']) return null
+            if (isNo(a['3.3'])) return 'low'
+            if (!a['3.4']) return null
+            return isNo(a['3.4']) ? 'some_concerns' : 'high'
+        },
+        d4: a => {
+            if (!a['4.1'] || !a['4.2']) return null
+            if (isYes(a['4.1']) || isYes(a['4.2'])) return 'high'
+            // Without information on whether measurement differed, "low" is out of reach
+            const best = a['4.2'] === 'NI' ? 'some_concerns' : 'low'
+            if (!a['4.3']) return null
+            if (isNo(a['4.3'])) return best
+            if (!a['4.4']) return null
+            if (isNo(a['4.4'])) return best
+            if (!a['4.5']) return null
+            return isNo(a['4.5']) ? 'some_concerns' : 'high'
+        },
+        d5: a => {
+            if (!a['5.1'] || !a['5.2'] || !a['5.3']) return null
+            if (isYes(a['5.2']) || isYes(a['5.3'])) return 'high'
+            if (isNo(a['5.2']) && isNo(a['5.3'])) return isYes(a['5.1']) ? 'low' : 'some_concerns'
+            return 'some_concerns'
+        }
+    },
+    deriveOverall: judgements => worstOf(ROB2_ORDER, judgements)
+}
+
+// ── ROBINS-I ─────────────────────────────────────────────────────────────────
+
+const ROBINS_ORDER = ['low', 'moderate', 'no_information', 'serious', 'critical']
+
+const ROBINS_I: RobTool = {
+    id: 'robins_i',
+    name: 'ROBINS-I',
+    study_design: 'Non-randomized studies of interventions',
+    judgements: [
+        { value: 'low', label: 'Low', color: '#02C100', symbol: '+' },
+        { value: 'moderate', label: 'Moderate', color: '#E2DF07', symbol: '-' },
+        { value: 'serious', label: 'Serious', color: '#BF0000', symbol: 'x' },
+        { value: 'critical', label: 'Critical', color: '#820000', symbol: '!' },
+        { value: 'no_information', label: 'No information', color: '#4EA1F7', symbol: '?' }
+    ],
+    overall_rule: 'The most severe domain judgement; no information when a domain lacks information and none is serious or critical.',
+    domains: [
+        {
+            id: 'd1', short: 'D1', name: 'Bias due to confounding', derived: false,
+            questions: [
+                q('1.1', 'Is there potential for confounding of the effect of intervention in this study?'),
+                q('1.4', 'Did the authors use an appropriate analysis method that controlled for all the important confounding domains?',
+                    when('all', ['1.1', YES])),
+                q('1.5', 'Were confounding domains that were controlled for measured validly and reliably by the variables available in this study?',
+                    when('all', ['1.4', YES])),
+                q('1.6', 'Did the authors control for any post-intervention variables that could have been affected by the intervention?',
+                    when('all', ['1.1', YES]))
+            ]
+        },
+        {
+            id: 'd2', short: 'D2', name: 'Bias in selection of participants into the study', derived: false,
+            questions: [
+                q('2.1', 'Was selection of participants into the study (or into the analysis) based on participant characteristics observed after the start of intervention?'),
+                q('2.4', 'Do start of follow-up and start of intervention coincide for most participants?'),
+                q('2.5', 'Were adjustment techniques used that are likely to correct for the presence of selection biases?',
+                    when('any', ['2.1', YES], ['2.4', NO]))
+            ]
+        },
+        {
+            id: 'd3', short: 'D3', name: 'Bias in classification of interventions', derived: false,
+            questions: [
+                q('3.1', 'Were intervention groups clearly defined?'),
+                q('3.2', 'Was the information used to define intervention groups recorded at the start of the intervention?'),
+                q('3.3', 'Could classification of intervention status have been affected by knowledge of the outcome or risk of the outcome?')
+            ]
+        },
+        {
+            id: 'd4', short: 'D4', name: 'Bias due to deviations from intended interventions', derived: false,
+            questions: [
+                q('4.1', 'Were there deviations from the intended intervention beyond what would be expected in usual practice?'),
+                q('4.2', 'Were these deviations from intended intervention unbalanced between groups and likely to have affected the outcome?',
+                    when('all', ['4.1', YES]))
+            ]
+        },
+        {
+            id: 'd5', short: 'D5', name: 'Bias due to missing data', derived: false,
+            questions: [
+                q('5.1', 'Were outcome data available for all, or nearly all, participants?'),
+                q('5.2', 'Were participants excluded due to missing data on intervention status?'),
+                q('5.3', 'Were participants excluded due to missing data on other variables needed for the analysis?'),
+                q('5.4', 'Are the proportion of participants and reasons for missing data similar across interventions?',
+                    when('any', ['5.1', NO], ['5.2', YES], ['5.3', YES])),
+                q('5.5', 'Is there evidence that results were robust to the presence of missing data?',
+                    when('any', ['5.1', NO], ['5.2', YES], ['5.3', YES]))
+            ]
+        },
+        {
+            id: 'd6', short: 'D6', name: 'Bias in measurement of outcomes', derived: false,
+            questions: [
+                q('6.1', 'Could the outcome measure have been influenced by knowledge of the intervention received?'),
+                q('6.2', 'Were outcome assessors aware of the intervention received by study participants?'),
+                q('6.3', 'Were the methods of outcome assessment comparable across intervention groups?'),
+                q('6.4', 'Were any systematic errors in measurement of the outcome related to intervention received?')
+            ]
+        },
+        {
+            id: 'd7', short: 'D7', name: 'Bias in selection of the reported result', derived: false,
+            questions: [
+                q('7.1', 'Is the reported effect estimate likely to be selected, on the basis of the results, from multiple outcome measurements within the outcome domain?'),
+                q('7.2', 'Is the reported effect estimate likely to be selected, on the basis of the results, from multiple analyses of the intervention-outcome relationship?'),
+                q('7.3', 'Is the reported effect estimate likely to be selected, on the basis of the results, from different subgroups?')
+            ]
+        }
+    ],
+    deriveDomain: {},
+    deriveOverall: judgements => worstOf(ROBINS_ORDER, judgements)
+}
+
+// ── Newcastle–Ottawa Scale ───────────────────────────────────────────────────
+
+const NOS_ORDER = ['good', 'fair', 'poor']
+
+function stars(...options: Array<[string, number]>): RobOption[] {
+    return options.map(([label, count], i) => ({ value: String.fromCharCode(97 + i), label, stars: count }))
+}
+
+const NOS: RobTool = {
+    id: 'nos',
+    name: 'Newcastle–Ottawa Scale',
+    study_design: 'Cohort studies',
+    judgements: [
+        { value: 'good', label: 'Good', color: '#02C100', symbol: '+' },
+        { value: 'fair', label: 'Fair', color: '#E2DF07', symbol: '-' },
+        { value: 'poor', label: 'Poor', color: '#BF0000', symbol: 'x' }
+    ],
+    overall_rule: 'AHRQ thresholds: good needs 3–4 selection, 1–2 comparability and 2–3 outcome stars; 2 selection stars make it fair; 0–1 selection, 0 comparability or 0–1 outcome stars make it poor.',
+    domains: [
+        {
+            id: 'selection', short: 'Sel', name: 'Selection', derived: true,
+            questions: [
+                q('s1', 'Representativeness of the exposed cohort', undefined, stars(
+                    ['Truly representative of the average in the community', 1],
+                    ['Somewhat representative of the average in the community', 1],
+                    ['Selected group of users, e.g. nurses, volunteers', 0],
+                    ['No description of the derivation of the cohort', 0]
+                )),
+                q('s2', 'Selection of the non-exposed cohort', undefined, stars(
+                    ['Drawn from the same community as the exposed cohort', 1],
+                    ['Drawn from a different source', 0],
+                    ['No description of the derivation of the non-exposed cohort', 0]
+                )),
+                q('s3', 'Ascertainment of exposure', undefined, stars(
+                    ['Secure record, e.g. surgical records', 1],
+                    ['Structured interview', 1],
+                    ['Written self report', 0],
+                    ['No description', 0]
+                )),
+                q('s4', 'Demonstration that the outcome of interest was not present at start of study', undefined, stars(
+                    ['Yes', 1],
+                    ['No', 0]
+                ))
+            ]
+        },
+        {
+            id: 'comparability', short: 'Comp', name: 'Comparability', derived: true,
+            questions: [
+                q('c1', 'Study controls for the most important factor', undefined, stars(['Yes', 1], ['No', 0])),
+                q('c2', 'Study controls for any additional factor', undefined, stars(['Yes', 1], ['No', 0]))
+            ]
+        },
+        {
+            id: 'outcome', short: 'Out', name: 'Outcome', derived: true,
+            questions: [
+                q('o1', 'Assessment of outcome', undefined, stars(
+                    ['Independent blind assessment', 1],
+                    ['Record linkage', 1],
+                    ['Self report', 0],
+                    ['No description', 0]
+                )),
+                q('o2', 'Was follow-up long enough for outcomes to occur?', undefined, stars(['Yes', 1], ['No', 0])),
+                q('o3', 'Adequacy of follow-up of cohorts', undefined, stars(
+                    ['Complete follow-up: all subjects accounted for', 1],
+                    ['Subjects lost to follow-up unlikely to introduce bias', 1],
+                    ['Follow-up rate too low and no description of those lost', 0],
+                    ['No statement', 0]
+                ))
+            ]
+        }
+    ],
+    deriveDomain: {
+        selection: a => starJudgement(NOS, 'selection', a, count => count >= 3 ? 'good' : count === 2 ? 'fair' : 'poor'),
+        comparability: a => starJudgement(NOS, 'comparability', a, count => count >= 1 ? 'good' : 'poor'),
+        outcome: a => starJudgement(NOS, 'outcome', a, count => count >= 2 ? 'good' : 'poor')
+    },
+    deriveOverall: judgements => worstOf(NOS_ORDER, judgements)
+}
+
+/** Stars awarded in a domain, or null until every question is answered */
+function countStars(tool: RobToolDefinition, domainId: string, answers: Answers): number | null {
+    const domain = tool.domains.find(d => d.id === domainId)!
+    let total = 0
+    for (const question of domain.questions) {
+        const option = question.options.find(o => o.value === answers[question.id])
+        if (!option) return null
+        total += option.stars ?? 0
+    }
+    return total
+}
+
+function starJudgement(tool: RobToolDefinition, domainId: string, answers: Answers, grade: (count: number) => string): string | null {
+    const count = countStars(tool, domainId, answers)
+    return count === null ? null : grade(count)
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+const TOOLS: RobTool[] = [ROB2, ROBINS_I, NOS]
+
+export function getRobTool(id: string): RobTool {
+    const tool = TOOLS.find(t => t.id === id)
+    if (!tool) throw new Error(`Unknown risk-of-bias tool: ${id}`)
+    return tool
+}
+
+/** Tool definitions for the renderer (without the derivation functions) */
+export function listRobTools(): RobToolDefinition[] {
+    return TOOLS.map(({ deriveDomain: _domain, deriveOverall: _overall, ...definition }) => definition)
+}
+
+/** Whether a question applies given the answers so far */
+export function questionApplies(question: RobQuestion, answers: Answers): boolean {
+    if (!question.condition) return true
+    const results = question.condition.rules.map(rule => {
+        const answer = answers[rule.question]
+        return answer !== undefined && rule.answers.includes(answer)
+    })
+    return question.condition.match === 'all' ? results.every(Boolean) : results.some(Boolean)
+}
+
+/** Combine stored answers and overrides into domain and overall judgements */
+export function evaluateRobAssessment(record: RobAssessmentRecord): RobAssessmentDetail {
+    const tool = getRobTool(record.tool)
+    const valid = new Set(tool.judgements.map(j => j.value))
+    const validOrNull = (value: string | null | undefined) => value && valid.has(value) ? value : null
+
+    const domains: RobDomainResult[] = tool.domains.map(domain => {
+        const stored = record.domains.find(d => d.domain_id === domain.id)
+        const derive = tool.deriveDomain[domain.id]
+        const derived = derive ? derive(record.answers) : null
+        const override = validOrNull(stored?.judgement_override)
+        const result: RobDomainResult = {
+            domain_id: domain.id,
+            derived,
+            override,
+            judgement: override ?? derived,
+            support: stored?.support ?? '',
+            evidence: record.evidence.filter(e => e.domain_id === domain.id)
+        }
+        if (tool.id === 'nos') result.stars = countStars(tool, domain.id, record.answers) ?? undefined
+        return result
+    })
+
+    const derivedOverall = tool.deriveOverall(domains.map(d => d.judgement))
+    const { evidence: _evidence, domains: _domains, ...assessment } = record
+    return {
+        ...assessment,
+        domains,
+        derived_overall: derivedOverall,
+        overall: validOrNull(record.overall_override) ?? derivedOverall
+    }
+}
+
+export function getRobAssessment(id: string): RobAssessmentDetail | null {
+    const record = getRobAssessmentRecord(id)
+    return record ? evaluateRobAssessment(record) : null
+}
+
+/** Every assessment, optionally for one tool, with its judgements */
+export function listRobAssessmentDetails(tool?: string): RobAssessmentDetail[] {
+    return listRobAssessments(tool).map(a => getRobAssessment(a.id)!)
+}
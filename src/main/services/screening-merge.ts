@@ -0,0 +1,209 @@
+// ============================================================================
+// ThreadMed — Screening Merge
+// ============================================================================
+// Dual screening across machines: each reviewer screens in their own copy of
+// the project (File → Save Project As…) and the decisions are merged back
+// into the main project. Copies share paper ids, so records match directly.
+//
+//   - Reviewers and exclusion reasons are matched by id, then by name, and
+//     created when missing
+//   - Decisions and resolutions are upserted; when both sides changed the
+//     same one, the most recently updated wins
+//   - Decisions on papers that don't exist here are skipped
+// ============================================================================
+
+import { BrowserWindow, dialog } from 'electron'
+import { existsSync } from 'fs'
+import { join, resolve } from 'path'
+import Database from 'better-sqlite3'
+import { v4 as uuidv4 } from 'uuid'
+import { getDb, getActiveProjectDir } from '../database/connection'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface ScreeningMergeResult {
+    reviewers_added: number
+    reasons_added: number
+    decisions_merged: number
+    resolutions_merged: number
+    /** Rows skipped because the paper isn't in this project or is older here */
+    skipped: number
+}
+
+interface SourceDecision {
+    paper_id: string
+    reviewer_id: string
+    stage: string
+    decision: string
+    reason_id: string | null
+    note: string | null
+    created_at: string
+    updated_at: string
+}
+
+interface SourceResolution {
+    paper_id: string
+    stage: string
+    decision: string
+    reason_id: string | null
+    note: string | null
+    resolved_by: string | null
+    resolved_at: string
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function hasColumn(source: Database.Database, table: string, column: string): boolean {
+    const columns = source.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
+    return columns.some(c => c.name === column)
+}
+
+/**
+ * Map source ids to local ids for a (id, name) table, creating missing rows.
+ * Returns the id map and the number of rows created.
+ */
+function mapByIdOrName(
+    rows: Array<{ id: string; name: string }>,
+    table: 'reviewers' | 'exclusion_reasons'
+): { ids: Map<string, string>; added: number } {
+    const db = getDb()
+    const byId = db.prepare(`SELECT id FROM ${table} WHERE id = ?`)
+    const byName = db.prepare(`SELECT id FROM ${table} WHERE name = ? COLLATE NOCASE`)
+    const insert = table === 'reviewers'
+        ? db.prepare('INSERT INTO reviewers (id, name) VALUES (?, ?)')
+        : db.prepare('INSERT INTO exclusion_reasons (id, name, sort_order) VALUES (?, ?, (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM exclusion_reasons))')
+
+    const ids = new Map<string, string>()
+    let added = 0
+    for (const row of rows) {
+        const existing = (byId.get(row.id) ?? byName.get(row.name)) as { id: string } | undefined
+        if (existing) {
+            ids.set(row.id, existing.id)
+        } else {
+            insert.run(row.id, row.name)
+            ids.set(row.id, row.id)
+            added++
+        }
+    }
+    return { ids, added }
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Merge screening decisions from another copy of this project */
+export function mergeScreeningFromProject(projectDir: string): ScreeningMergeResult {
+    const activeDir = getActiveProjectDir()
+    if (activeDir && resolve(activeDir) === resolve(projectDir)) {
+        throw new Error('Choose a copy of the project, not the project that is currently open')
+    }
+    const dbFile = join(projectDir, 'threadmed.db')
+    if (!existsSync(dbFile)) {
+        throw new Error('The selected folder is not a ThreadMed project (no threadmed.db found inside).')
+    }
+
+    const source = new Database(dbFile, { readonly: true, fileMustExist: true })
+    try {
+        const tables = new Set(
+            (source.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{ name: string }>)
+                .map(r => r.name)
+        )
+        if (!tables.has('screening_decisions') || !tables.has('reviewers') || !hasColumn(source, 'screening_decisions', 'reviewer_id')) {
+            throw new Error('That project has no reviewer screening data. Open it once in this version of ThreadMed and try again.')
+        }
+
+        const reviewers = source.prepare('SELECT id, name FROM reviewers').all() as Array<{ id: string; name: string }>
+        const reasons = source.prepare('SELECT id, name FROM exclusion_reasons').all() as Array<{ id: string; name: string }>
+        const decisions = source.prepare(
+            'SELECT paper_id, reviewer_id, stage, decision, reason_id, note, created_at, updated_at FROM screening_decisions WHERE reviewer_id IS NOT NULL'
+        ).all() as SourceDecision[]
+        const resolutions = tables.has('screening_resolutions')
+            ? source.prepare('SELECT * FROM screening_resolutions').all() as SourceResolution[]
+            : []
+
+        const db = getDb()
+        const result: ScreeningMergeResult = {
+            reviewers_added: 0, reasons_added: 0, decisions_merged: 0, resolutions_merged: 0, skipped: 0
+        }
+
+        db.transaction(() => {
+            const reviewerMap = mapByIdOrName(reviewers, 'reviewers')
+            const reasonMap = mapByIdOrName(reasons, 'exclusion_reasons')
+            result.reviewers_added = reviewerMap.added
+            result.reasons_added = reasonMap.added
+
+            const paperExists = db.prepare('SELECT 1 FROM papers WHERE id = ?')
+            const localDecision = db.prepare(
+                'SELECT updated_at FROM screening_decisions WHERE paper_id = ? AND stage = ? AND reviewer_id = ?'
+            )
+            const upsertDecision = db.prepare(`
+                INSERT INTO screening_decisions (id, paper_id, reviewer_id, stage, decision, reason_id, note, created_at, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT (paper_id, stage, reviewer_id) DO UPDATE SET
+                    decision = excluded.decision,
+                    reason_id = excluded.reason_id,
+                    note = excluded.note,
+                    updated_at = excluded.updated_at
+            `)
+
+            for (const d of decisions) {
+                const reviewerId = reviewerMap.ids.get(d.reviewer_id)
+                const local = localDecision.get(d.paper_id, d.stage, reviewerId) as { updated_at: string } | undefined
+                if (!reviewerId || !paperExists.get(d.paper_id) || (local && local.updated_at >= d.updated_at)) {
+                    result.skipped++
+                    continue
+                }
+                upsertDecision.run(
+                    uuidv4(), d.paper_id, reviewerId, d.stage, d.decision,
+                    d.reason_id ? reasonMap.ids.get(d.reason_id) ?? null : null,
+                    d.note, d.created_at, d.updated_at
+                )
+                result.decisions_merged++
+            }
+
+            const localResolution = db.prepare('SELECT resolved_at FROM screening_resolutions WHERE paper_id = ? AND stage = ?')
+            const upsertResolution = db.prepare(`
+                INSERT INTO screening_resolutions (paper_id, stage, decision, reason_id, note, resolved_by, resolved_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT (paper_id, stage) DO UPDATE SET
+                    decision = excluded.decision,
+                    reason_id = excluded.reason_id,
+                    note = excluded.note,
+                    resolved_by = excluded.resolved_by,
+                    resolved_at = excluded.resolved_at
+            `)
+
+            for (const r of resolutions) {
+                const local = localResolution.get(r.paper_id, r.stage) as { resolved_at: string } | undefined
+                if (!paperExists.get(r.paper_id) || (local && local.resolved_at >= r.resolved_at)) {
+                    result.skipped++
+                    continue
+                }
+                upsertResolution.run(
+                    r.paper_id, r.stage, r.decision,
+                    r.reason_id ? reasonMap.ids.get(r.reason_id) ?? null : null,
+                    r.note,
+                    r.resolved_by ? reviewerMap.ids.get(r.resolved_by) ?? null : null,
+                    r.resolved_at
+                )
+                result.resolutions_merged++
+            }
+        })()
+
+        console.log(`[ScreeningMerge] Merged ${result.decisions_merged} decisions and ${result.resolutions_merged} resolutions from ${projectDir}`)
+        return result
+    } finally {
+        source.close()
+    }
+}
+
+/** Show an Open dialog for the reviewer's project copy and merge it; null when cancelled */
+export async function chooseAndMergeScreening(parentWindow?: BrowserWindow | null): Promise<ScreeningMergeResult | null> {
+    const result = await dialog.showOpenDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
+        title: 'Merge Screening Decisions From Project Copy',
+        buttonLabel: 'Merge Decisions',
+        properties: ['openDirectory']
+    })
+
+    if (result.canceled || result.filePaths.length === 0) return null
+    return mergeScreeningFromProject(result.filePaths[0])
+}
@@ -0,0 +1,348 @@
+// ============================================================================
+// ThreadMed — Summary of Findings Export
+// ============================================================================
+// Lays out the GRADE outcomes as a Cochrane-style Summary of Findings table:
+// anticipated absolute effects, relative effect, participants (studies),
+// certainty and comments, one row per outcome. Every rated-down or rated-up
+// domain becomes a lettered footnote quoting its rationale and the studies
+// whose annotations were cited for it.
+//   - DOCX: a landscape Word document
+//   - HTML: the same table as a standalone, printable document
+// ============================================================================
+
+import { BrowserWindow, dialog } from 'electron'
+import { writeFileSync } from 'fs'
+import { getPaper } from '../database/repositories/papers'
+import { getSofHeader, type SofHeader } from '../database/repositories/grade'
+import {
+    GRADE_CERTAINTY,
+    GRADE_DOMAINS,
+    listGradeAssessments,
+    type GradeAssessment,
+    type GradeCertainty,
+    type GradeDomainResult
+} from './grade'
+import { buildDocument, type DocxBlock, type DocxCell, type DocxRun } from './docx-writer'
+import { studyLabel } from './matrix-exporter'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type SofExportFormat = 'docx' | 'html'
+
+export interface SofFootnote {
+    marker: string
+    text: string
+}
+
+export interface SofRow {
+    outcome_id: string
+    outcome: string
+    importance: string
+    comparator_risk: string
+    intervention_risk: string
+    relative_effect: string
+    /** e.g. "1,234 (5 RCTs)" */
+    participants: string
+    certainty: GradeCertainty
+    /** Markers of the footnotes explaining the certainty, in order */
+    footnotes: string[]
+    comments: string
+}
+
+export interface SofTable {
+    title: string
+    header: SofHeader
+    rows: SofRow[]
+    footnotes: SofFootnote[]
+}
+
+const FORMAT_FILTERS: Record<SofExportFormat, { name: string; extensions: string[] }> = {
+    docx: { name: 'Word Document', extensions: ['docx'] },
+    html: { name: 'HTML', extensions: ['html'] }
+}
+
+const LEVEL_WORDS = ['', 'one level', 'two levels']
+
+// ── Table Assembly ───────────────────────────────────────────────────────────
+
+/** a, b, …, z, aa, ab, … */
+function footnoteMarker(index: number): string {
+    let marker = ''
+    let n = index + 1
+    while (n > 0) {
+        marker = String.fromCharCode(97 + ((n - 1) % 26)) + marker
+        n = Math.floor((n - 1) / 26)
+    }
+    return marker
+}
+
+function participantsText(assessment: GradeAssessment): string {
+    const { studies, participants } = assessment.effect
+    const design = assessment.study_design === 'randomized' ? 'RCT' : 'observational'
+    const studyText = studies === null
+        ? ''
+        : `${studies} ${design}${studies === 1 || design === 'observational' ? '' : 's'}`
+    if (participants === null) return studyText ? `(${studyText})` : ''
+    const count = participants.toLocaleString('en-US')
+    return studyText ? `${count} (${studyText})` : count
+}
+
+function citedStudies(domain: GradeDomainResult): string {
+    const cited = domain.evidence.map(e => {
+        const paper = getPaper(e.paper_id)
+        return `${paper ? studyLabel(paper) : e.paper_title}, p. ${e.page_number}`
+    })
+    return [...new Set(cited)].join('; ')
+}
+
+function domainFootnote(domain: GradeDomainResult): string {
+    const definition = GRADE_DOMAINS.find(d => d.id === domain.domain_id)!
+    const verb = domain.rating < 0 ? 'Downgraded' : 'Upgraded'
+    let text = `${verb} ${LEVEL_WORDS[Math.abs(domain.rating)]} for ${definition.name.toLowerCase()}`
+    const rationale = domain.rationale.trim().replace(/\s+/g, ' ')
+    text += rationale ? `: ${rationale.replace(/\.$/, '')}` : ''
+    const cited = citedStudies(domain)
+    text += cited ? ` (${cited}).` : '.'
+    return text
+}
+
+function certaintyLabel(value: GradeCertainty): string {
+    return GRADE_CERTAINTY.find(c => c.value === value)!.label
+}
+
+/** The Summary of Findings as rows and footnotes, ready for any format */
+export function buildSofTable(): SofTable {
+    const header = getSofHeader()
+    const footnotes: SofFootnote[] = []
+    const addFootnote = (text: string) => {
+        const marker = footnoteMarker(footnotes.length)
+        footnotes.push({ marker, text })
+        return marker
+    }
+
+    const rows = listGradeAssessments().map(assessment => {
+        const markers = assessment.domains
+            .filter(d => d.rating !== 0)
+            .map(d => addFootnote(domainFootnote(d)))
+        if (assessment.certainty !== assessment.derived_certainty) {
+            markers.push(addFootnote(
+                `Certainty judged ${certaintyLabel(assessment.certainty).toLowerCase()} by the review authors; ` +
+                `the domain ratings alone give ${certaintyLabel(assessment.derived_certainty).toLowerCase()}.`
+            ))
+        }
+        return {
+            outcome_id: assessment.id,
+            outcome: assessment.name,
+            importance: assessment.importance,
+            comparator_risk: assessment.effect.comparator_risk,
+            intervention_risk: assessment.effect.intervention_risk,
+            relative_effect: assessment.effect.relative_effect,
+            participants: participantsText(assessment),
+            certainty: assessment.certainty,
+            footnotes: markers,
+            comments: assessment.comments
+        }
+    })
+
+    const { intervention, comparison } = header
+    const title = intervention && comparison
+        ? `${intervention} compared to ${comparison}`
+        : intervention || 'Summary of findings'
+    return { title, header, rows, footnotes }
+}
+
+// ── DOCX ─────────────────────────────────────────────────────────────────────
+
+const HEADER_SHADING = 'E7E6E6'
+
+function toDocx(table: SofTable): Buffer {
+    const blocks: DocxBlock[] = [{ type: 'heading', level: 1, text: `Summary of findings: ${table.title}` }]
+
+    const headerLines: Array<[string, string]> = [
+        ['Patient or population', table.header.population],
+        ['Setting', table.header.setting],
+        ['Intervention', table.header.intervention],
+        ['Comparison', table.header.comparison]
+    ]
+    for (const [label, value] of headerLines) {
+        if (value) blocks.push({ type: 'paragraph', runs: [{ text: `${label}: `, bold: true }, { text: value }] })
+    }
+
+    const head = (text: string, span: Partial<Pick<DocxCell, 'colSpan' | 'vMerge'>> = {}): DocxCell => (
+        { runs: [{ text, bold: true }], shading: HEADER_SHADING, ...span }
+    )
+    const merged = head('', { vMerge: 'continue' })
+    const rows: DocxCell[][] = [
+        [
+            head('Outcomes', { vMerge: 'restart' }),
+            head('Anticipated absolute effects* (95% CI)', { colSpan: 2 }),
+            head('Relative effect (95% CI)', { vMerge: 'restart' }),
+            head('№ of participants (studies)', { vMerge: 'restart' }),
+            head('Certainty of the evidence (GRADE)', { vMerge: 'restart' }),
+            head('Comments', { vMerge: 'restart' })
+        ],
+        [merged, head('Risk with comparator'), head('Risk with intervention'), merged, merged, merged, merged]
+    ]
+
+    for (const row of table.rows) {
+        const level = GRADE_CERTAINTY.find(c => c.value === row.certainty)!
+        const certaintyRuns: DocxRun[] = [
+            { text: `${level.symbol}\n`, color: level.color.slice(1) },
+            { text: level.label.toUpperCase(), bold: true }
+        ]
+        if (row.footnotes.length > 0) certaintyRuns.push({ text: ` ${row.footnotes.join(',')}`, superscript: true })
+        rows.push([
+            { runs: [{ text: row.outcome, bold: true }] },
+            { runs: [{ text: row.comparator_risk }] },
+            { runs: [{ text: row.intervention_risk }] },
+            { runs: [{ text: row.relative_effect }] },
+            { runs: [{ text: row.participants }] },
+            { runs: certaintyRuns },
+            { runs: [{ text: row.comments }] }
+        ])
+    }
+    if (table.rows.length === 0) {
+        rows.push([{ runs: [{ text: 'No outcomes assessed yet.', italic: true }], colSpan: 7 }])
+    }
+
+    // Twentieths of a point; sums to the landscape A4 text width
+    blocks.push({ type: 'table', rows, columnWidths: [2600, 1900, 2300, 1800, 1800, 1900, 2270], headerRows: 2 })
+
+    blocks.push({
+        type: 'paragraph',
+        size: 16,
+        runs: [{
+            text: '*The risk in the intervention group (and its 95% confidence interval) is based on the assumed risk in the ' +
+                'comparison group and the relative effect of the intervention (and its 95% CI). ' +
+                'CI: confidence interval.'
+        }]
+    })
+    blocks.push({ type: 'paragraph', size: 16, runs: [{ text: 'GRADE Working Group grades of evidence', bold: true }] })
+    for (const level of GRADE_CERTAINTY) {
+        blocks.push({ type: 'paragraph', size: 16, runs: [{ text: `${level.label}: `, bold: true }, { text: level.meaning }] })
+    }
+    if (table.footnotes.length > 0) {
+        blocks.push({ type: 'paragraph', size: 16, runs: [{ text: 'Explanations', bold: true }] })
+        for (const note of table.footnotes) {
+            blocks.push({ type: 'paragraph', size: 16, runs: [{ text: note.marker, superscript: true }, { text: ` ${note.text}` }] })
+        }
+    }
+
+    return buildDocument({ blocks, landscape: true })
+}
+
+// ── HTML ─────────────────────────────────────────────────────────────────────
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+function toHtml(table: SofTable): string {
+    const headerLines = [
+        ['Patient or population', table.header.population],
+        ['Setting', table.header.setting],
+        ['Intervention', table.header.intervention],
+        ['Comparison', table.header.comparison]
+    ]
+        .filter(([, value]) => value)
+        .map(([label, value]) => `<p><strong>${label}:</strong> ${escapeHtml(value)}</p>`)
+        .join('\n')
+
+    const bodyRows = table.rows.map(row => {
+        const level = GRADE_CERTAINTY.find(c => c.value === row.certainty)!
+        const markers = row.footnotes.length > 0 ? ` <sup>${row.footnotes.join(',')}</sup>` : ''
+        return '<tr>' +
+            `<td><strong>${escapeHtml(row.outcome)}</strong></td>` +
+            `<td>${escapeHtml(row.comparator_risk)}</td>` +
+            `<td>${escapeHtml(row.intervention_risk)}</td>` +
+            `<td>${escapeHtml(row.relative_effect)}</td>` +
+            `<td>${escapeHtml(row.participants)}</td>` +
+            `<td class="certainty"><span style="color:${level.color}">${level.symbol}</span><br><strong>${level.label.toUpperCase()}</strong>${markers}</td>` +
+            `<td>${escapeHtml(row.comments).replace(/\n/g, '<br>')}</td>` +
+            '</tr>'
+    }).join('\n')
+
+    const grades = GRADE_CERTAINTY
+        .map(level => `<p><strong>${level.label}:</strong> ${escapeHtml(level.meaning)}</p>`)
+        .join('\n')
+    const explanations = table.footnotes.length > 0
+        ? '<p><strong>Explanations</strong></p>\n' +
+            table.footnotes.map(n => `<p><sup>${n.marker}</sup> ${escapeHtml(n.text)}</p>`).join('\n')
+        : ''
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Summary of findings: ${escapeHtml(table.title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 12px; color: #1f2937; margin: 24px; }
+  h1 { font-size: 18px; margin-bottom: 12px; }
+  p { margin: 4px 0; }
+  table { border-collapse: collapse; width: 100%; margin: 16px 0; }
+  th, td { border: 1px solid #9ca3af; padding: 6px 8px; vertical-align: top; text-align: left; }
+  th { background: #e7e6e6; }
+  td.certainty { white-space: nowrap; }
+  .notes { font-size: 11px; color: #374151; }
+</style>
+</head>
+<body>
+<h1>Summary of findings: ${escapeHtml(table.title)}</h1>
+${headerLines}
+<table>
+<thead>
+<tr><th rowspan="2">Outcomes</th><th colspan="2">Anticipated absolute effects* (95% CI)</th><th rowspan="2">Relative effect (95% CI)</th><th rowspan="2">№ of participants (studies)</th><th rowspan="2">Certainty of the evidence (GRADE)</th><th rowspan="2">Comments</th></tr>
+<tr><th>Risk with comparator</th><th>Risk with intervention</th></tr>
+</thead>
+<tbody>
+${bodyRows || '<tr><td colspan="7"><em>No outcomes assessed yet.</em></td></tr>'}
+</tbody>
+</table>
+<div class="notes">
+<p>*The risk in the intervention group (and its 95% confidence interval) is based on the assumed risk in the comparison group and the relative effect of the intervention (and its 95% CI). CI: confidence interval.</p>
+<p><strong>GRADE Working Group grades of evidence</strong></p>
+${grades}
+${explanations}
+</div>
+</body>
+</html>
+`
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+export function buildSofExport(format: SofExportFormat): string | Buffer {
+    const table = buildSofTable()
+    switch (format) {
+        case 'docx': return toDocx(table)
+        case 'html': return toHtml(table)
+        default: throw new Error(`Unsupported export format: ${format}`)
+    }
+}
+
+/**
+ * Ask the user where to save, then write the Summary of Findings table.
+ * Returns the written path, or null if the dialog was cancelled.
+ */
+export async function exportSofTable(
+    format: SofExportFormat,
+    parentWindow?: BrowserWindow | null
+): Promise<string | null> {
+    const filter = FORMAT_FILTERS[format]
+    if (!filter) throw new Error(`Unsupported export format: ${format}`)
+
+    const result = await dialog.showSaveDialog(parentWindow ?? BrowserWindow.getFocusedWindow()!, {
+        title: 'Export Summary of Findings',
+        defaultPath: `summary-of-findings.${filter.extensions[0]}`,
+        filters: [filter]
+    })
+
+    if (result.canceled || !result.filePath) return null
+
+    writeFileSync(result.filePath, buildSofExport(format))
+    return result.filePath
+}
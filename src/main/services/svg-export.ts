@@ -0,0 +1,84 @@
+// ============================================================================
+// ThreadMed — SVG Figure Export
+// ============================================================================
+// Writes figures that are built as SVG strings (the PRISMA flow diagram,
+// risk-of-bias plots) to disk:
+//   - SVG: the figure as a standalone vector file
+//   - PNG: rendered at 2× in an offscreen window
+//   - PDF: printed from the same offscreen window, one page sized to fit
+// ============================================================================
+
+import { BrowserWindow } from 'electron'
+import { writeFileSync } from 'fs'
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type SvgExportFormat = 'svg' | 'png' | 'pdf'
+
+export interface SvgImage {
+    svg: string
+    width: number
+    height: number
+}
+
+export const SVG_FORMAT_FILTERS: Record<SvgExportFormat, { name: string; extensions: string[] }> = {
+    svg: { name: 'SVG Image', extensions: ['svg'] },
+    png: { name: 'PNG Image', extensions: ['png'] },
+    pdf: { name: 'PDF Document', extensions: ['pdf'] }
+}
+
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+/** Load the SVG into a hidden window and hand it to `render` (PNG capture or PDF printing) */
+async function renderOffscreen<T>(image: SvgImage, render: (win: BrowserWindow) => Promise<T>): Promise<T> {
+    const win = new BrowserWindow({
+        show: false,
+        width: Math.ceil(image.width),
+        height: Math.ceil(image.height),
+        useContentSize: true,
+        webPreferences: { offscreen: true }
+    })
+    try {
+        const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><style>html,body{margin:0;background:#fff;overflow:hidden}svg{display:block}</style></head><body>${image.svg}</body></html>`
+        await win.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`)
+        return await render(win)
+    } finally {
+        win.destroy()
+    }
+}
+
+/** Write a figure in the given format; `build` draws it at the requested scale */
+export async function writeSvgImage(
+    filePath: string,
+    format: SvgExportFormat,
+    build: (scale: number) => SvgImage
+): Promise<void> {
+    if (format === 'svg') {
+        writeFileSync(filePath, `<?xml version="1.0" encoding="UTF-8"?>\n${build(1).svg}\n`)
+    } else if (format === 'png') {
+        const image = build(2)
+        const png = await renderOffscreen(image, win => win.webContents.capturePage({
+            x: 0, y: 0, width: image.width, height: image.height
+        }))
+        writeFileSync(filePath, png.toPNG())
+    } else if (format === 'pdf') {
+        const image = build(1)
+        // CSS pixels are 1/96 inch
+        const pdf = await renderOffscreen(image, win => win.webContents.printToPDF({
+            printBackground: true,
+            pageSize: { width: image.width / 96, height: image.height / 96 },
+            margins: { top: 0, bottom: 0, left: 0, right: 0 }
+        }))
+        writeFileSync(filePath, pdf)
+    } else {
+        throw new Error(`Unsupported export format: ${format}`)
+    }
+}
@@ -1,11 +1,20 @@
 // ============================================================================
 // ThreadMed — Sync Engine
 // ============================================================================
-// Orchestrates the full Zotero → ThreadMed import pipeline:
+// Orchestrates two-way sync between Zotero and ThreadMed:
 // 1. Fetch metadata from Zotero API (paginated)
-// 2. Upsert papers into SQLite
+// 2. Upsert papers into SQLite, merging with local edits
 // 3. Download PDF attachments
-// 4. Extract full text → FTS5 index
+// 4. Import Zotero PDF highlights (zotero-annotation-import.ts)
+// 5. Push local edits, codes and annotation notes back (zotero-writeback.ts)
+// 6. Extract full text → FTS5 index
+// Each selected library (the user's own and any groups) is synced in turn
+// with its own Library-Version cursor in sync_meta. Zotero collections are
+// mirrored as folders, and each synced item's collection memberships are
+// copied onto those folders. Items deleted or trashed in Zotero are only
+// flagged for review (see zotero-removals.ts), never deleted by sync. A field
+// edited on both sides is recorded as a conflict (see zotero-conflicts.ts)
+// and neither value is pushed until the user picks one.
 // Emits progress events to the renderer via IPC.
 //
 // SECURITY: API key is encrypted at rest via credential-store.ts and NEVER
@@ -16,14 +25,22 @@
 import { join } from 'path'
 import { writeFileSync, existsSync } from 'fs'
 import { BrowserWindow } from 'electron'
-import { ZoteroClient, type ZoteroItem } from './zotero-client'
+import { ZoteroClient, type ZoteroItem, type ZoteroLibrary } from './zotero-client'
 import { generatePdfFilename } from './pdf-namer'
 import { extractTextFromPdf } from './pdf-extractor'
 import {
     storeApiKey, retrieveApiKey, clearApiKey,
-    getSyncMeta, setSyncMeta
+    getSyncMeta, setSyncMeta, deleteSyncMeta
 } from './credential-store'
 import { upsertPaper, updatePaperFullText } from '../database/repositories/papers'
+import { mirrorZoteroCollections, setPaperZoteroCollections } from '../database/repositories/folders'
+import { flagZoteroRemovals, clearRestoredFromTrash, countZoteroRemovals } from '../database/repositories/zotero-removals'
+import { countZoteroConflicts } from '../database/repositories/zotero-conflicts'
+import {
+    pushLibraryChanges, snapshotItemData, getWriteBackOptions, type WriteBackOptions
+} from './zotero-writeback'
+import { importLibraryAnnotations } from './zotero-annotation-import'
+import { listZoteroAnnotationRules } from '../database/repositories/zotero-annotations'
 import fs from 'fs'
 import path from 'path'
 import { getDb } from '../database/connection'
@@ -32,9 +49,11 @@ import { getPdfDir } from '../database/connection'
 // ── Progress Emitter ─────────────────────────────────────────────────────────
 
 interface SyncProgress {
-    phase: 'metadata' | 'downloading' | 'extracting' | 'complete' | 'error'
+    phase: 'metadata' | 'downloading' | 'annotations' | 'pushing' | 'extracting' | 'complete' | 'error'
     current: number
     total: number
+    /** Name of the library being synced */
+    library?: string
     paperTitle?: string
     error?: string
 }
@@ -46,6 +65,65 @@ function emitProgress(progress: SyncProgress): void {
     }
 }
 
+// ── Libraries ────────────────────────────────────────────────────────────────
+
+function userLibrary(userId: string): ZoteroLibrary {
+    return { id: `users/${userId}`, type: 'user', name: 'My Library' }
+}
+
+/** Libraries chosen in Settings; the user's own library until a choice is made */
+function getSelectedLibraries(userId: string): ZoteroLibrary[] {
+    const stored = getSyncMeta('zotero_libraries')
+    if (stored) {
+        try {
+            const libraries = JSON.parse(stored) as ZoteroLibrary[]
+            if (Array.isArray(libraries) && libraries.length > 0) return libraries
+        } catch {
+            // Fall through to the default
+        }
+    }
+    return [userLibrary(userId)]
+}
+
+function getLibraryVersion(library: ZoteroLibrary): number | null {
+    const version = getSyncMeta(`library_version:${library.id}`)
+        // Single cursor written before group libraries were supported
+        ?? (library.type === 'user' ? getSyncMeta('library_version') : null)
+    return version ? parseInt(version, 10) : null
+}
+
+/** The user's library and every group library the API key can read */
+export async function listZoteroLibraries(): Promise<ZoteroLibrary[]> {
+    const apiKey = retrieveApiKey()
+    const userId = getSyncMeta('zotero_user_id')
+    if (!apiKey || !userId) throw new Error('Not connected to Zotero')
+
+    const groups = await new ZoteroClient(apiKey, userId).fetchGroups()
+    return [userLibrary(userId), ...groups]
+}
+
+export function setZoteroLibraries(libraries: ZoteroLibrary[]): void {
+    const userId = getSyncMeta('zotero_user_id')
+    if (!userId) throw new Error('Not connected to Zotero')
+    if (!Array.isArray(libraries) || libraries.length === 0) {
+        throw new Error('Select at least one library')
+    }
+
+    const sanitized = libraries.map((library): ZoteroLibrary => {
+        const match = /^(users|groups)\/(\d+)$/.exec(library.id)
+        if (!match) throw new Error(`Invalid Zotero library: ${library.id}`)
+        if (match[1] === 'users' && match[2] !== userId) {
+            throw new Error('Only your own user library can be synced')
+        }
+        return {
+            id: library.id,
+            type: match[1] === 'users' ? 'user' : 'group',
+            name: String(library.name || library.id)
+        }
+    })
+    setSyncMeta('zotero_libraries', JSON.stringify(sanitized))
+}
+
 // ── Sync Status ──────────────────────────────────────────────────────────────
 
 export interface ZoteroStatus {
@@ -53,20 +131,37 @@ export interface ZoteroStatus {
     userId: string | null
     // NOTE: API key is NEVER included here — it must not reach the renderer
     lastSync: string | null
+    /** Cursor of the user's own library */
     libraryVersion: number | null
+    /** Libraries selected for sync, each with its own cursor */
+    libraries: Array<ZoteroLibrary & { version: number | null }>
+    /** Papers deleted or trashed in Zotero that await review */
+    pendingRemovals: number
+    /** Papers with fields changed both locally and in Zotero */
+    conflicts: number
+    /** What is pushed back to Zotero */
+    writeBack: WriteBackOptions
+    /** Rules mapping Zotero highlights to nodes; none means nothing is imported */
+    annotationRules: number
 }
 
 export function getZoteroStatus(): ZoteroStatus {
     const apiKey = retrieveApiKey()
     const userId = getSyncMeta('zotero_user_id')
     const lastSync = getSyncMeta('last_sync')
-    const libVersion = getSyncMeta('library_version')
 
     return {
         connected: !!(apiKey && userId),
         userId,
         lastSync,
-        libraryVersion: libVersion ? parseInt(libVersion, 10) : null
+        libraryVersion: userId ? getLibraryVersion(userLibrary(userId)) : null,
+        libraries: userId
+            ? getSelectedLibraries(userId).map(library => ({ ...library, version: getLibraryVersion(library) }))
+            : [],
+        pendingRemovals: countZoteroRemovals(),
+        conflicts: countZoteroConflicts(),
+        writeBack: getWriteBackOptions(),
+        annotationRules: listZoteroAnnotationRules().length
     }
 }
 
@@ -107,7 +202,13 @@ export async function connectZotero(
 export function disconnectZotero(): void {
     clearApiKey()
     const db = getDb()
-    db.prepare("DELETE FROM sync_meta WHERE key IN ('zotero_user_id', 'library_version', 'last_sync')").run()
+    db.prepare(`
+        DELETE FROM sync_meta
+        WHERE key IN ('zotero_user_id', 'zotero_libraries', 'library_version', 'last_sync')
+           OR key LIKE 'library_version:%'
+           OR key LIKE 'collections_synced:%'
+           OR key LIKE 'annotations_version:%'
+    `).run()
     console.log('[Sync] Disconnected from Zotero (credentials cleared)')
 }
 
@@ -123,142 +224,236 @@ export interface SyncResult {
     pdfsDownloaded: number
     errors: string[]
     libraryVersion: number
+    /** Papers whose Zotero item was updated with local changes */
+    pushed: number
+    /** Highlights created from Zotero PDF annotations */
+    annotationsImported: number
+    /** Papers deleted or trashed in Zotero that await review */
+    pendingRemovals: number
+    /** Papers with fields changed both locally and in Zotero */
+    conflicts: number
 }
 
 export async function syncLibrary(): Promise<SyncResult> {
     if (isSyncing) {
-        return { imported: 0, updated: 0, pdfsDownloaded: 0, errors: ['Sync already in progress'], libraryVersion: 0 }
+        return { imported: 0, updated: 0, pdfsDownloaded: 0, errors: ['Sync already in progress'], libraryVersion: 0, pushed: 0, annotationsImported: 0, pendingRemovals: 0, conflicts: 0 }
     }
 
     const apiKey = retrieveApiKey()
     const userId = getSyncMeta('zotero_user_id')
 
     if (!apiKey || !userId) {
-        return { imported: 0, updated: 0, pdfsDownloaded: 0, errors: ['Not connected to Zotero'], libraryVersion: 0 }
+        return { imported: 0, updated: 0, pdfsDownloaded: 0, errors: ['Not connected to Zotero'], libraryVersion: 0, pushed: 0, annotationsImported: 0, pendingRemovals: 0, conflicts: 0 }
     }
 
     isSyncing = true
-    const result: SyncResult = { imported: 0, updated: 0, pdfsDownloaded: 0, errors: [], libraryVersion: 0 }
+    const result: SyncResult = { imported: 0, updated: 0, pdfsDownloaded: 0, errors: [], libraryVersion: 0, pushed: 0, annotationsImported: 0, pendingRemovals: 0, conflicts: 0 }
 
     try {
-        const client = new ZoteroClient(apiKey, userId)
-        const sinceVersion = parseInt(getSyncMeta('library_version') || '0', 10)
+        const libraries = getSelectedLibraries(userId)
 
-        // ── Phase 1: Missing Items Recovery Check ────────────────────────
-        emitProgress({ phase: 'metadata', current: 0, total: 0 })
-        console.log('[Sync] Checking for missing remote items...')
+        for (const library of libraries) {
+            const client = new ZoteroClient(apiKey, userId, library.id)
+            await syncOneLibrary(client, library, result)
+            if (library.type === 'user') result.libraryVersion = client.lastLibraryVersion
+        }
 
-        const allRemoteKeys = await client.fetchAllKeys()
-        const db = getDb()
-        const localRecords = db.prepare('SELECT zotero_key FROM papers WHERE zotero_key IS NOT NULL').all() as { zotero_key: string }[]
-        const localKeys = new Set(localRecords.map(r => r.zotero_key))
+        // ── Phase 5: Extract text from new PDFs ──────────────────────────
+        await extractTextForNewPapers(result)
 
-        const missingKeys = allRemoteKeys.filter(k => !localKeys.has(k))
+        setSyncMeta('last_sync', new Date().toISOString())
+        result.pendingRemovals = countZoteroRemovals()
+        result.conflicts = countZoteroConflicts()
 
+        const total = result.imported + result.updated
+        emitProgress({ phase: 'complete', current: total, total })
+        console.log(`[Sync] Complete: ${result.imported} new, ${result.updated} updated, ${result.pushed} pushed, ${result.annotationsImported} highlights, ${result.pdfsDownloaded} PDFs`)
 
+    } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err)
+        console.error('[Sync] Fatal error:', errMsg)
+        result.errors.push(errMsg)
+        emitProgress({ phase: 'error', current: 0, total: 0, error: errMsg })
+    } finally {
+        isSyncing = false
+    }
 
-        // ── Phase 2: Fetch metadata ──────────────────────────────────────
-        console.log(`[Sync] Fetching items since version ${sinceVersion}...`)
+    return result
+}
 
-        const items = await client.fetchItems(sinceVersion)
-        console.log(`[Sync] Got ${items.length} items from Zotero incremental sync`)
+/** Import one library's new and changed items, then advance its cursor */
+async function syncOneLibrary(client: ZoteroClient, library: ZoteroLibrary, result: SyncResult): Promise<void> {
+    const db = getDb()
+    // Items synced before collections were mirrored need one full pass to
+    // pick up their memberships
+    const collectionsMirrored = getSyncMeta(`collections_synced:${library.id}`) !== null
+    const cursor = getLibraryVersion(library) ?? 0
+    const sinceVersion = collectionsMirrored ? cursor : 0
+
+    if (library.type === 'user') {
+        // Papers synced before libraries were recorded came from the user library
+        db.prepare('UPDATE papers SET zotero_library = ? WHERE zotero_key IS NOT NULL AND zotero_library IS NULL').run(library.id)
+        db.prepare('UPDATE zotero_key_aliases SET zotero_library = ? WHERE zotero_library IS NULL').run(library.id)
+    }
 
-        if (missingKeys.length > 0) {
-            console.log(`[Sync] Appending ${missingKeys.length} explicitly recovered items...`)
-            try {
-                for (let i = 0; i < missingKeys.length; i += 50) {
-                    const chunk = missingKeys.slice(i, i + 50)
-                    const recoveredItems = await client.fetchItemsByKeys(chunk)
-                    items.push(...recoveredItems)
-                }
-            } catch (err) {
-                console.error('[Sync] Missing items recovery fetch failed:', err)
+    // ── Phase 1: Missing Items Recovery Check ────────────────────────
+    emitProgress({ phase: 'metadata', current: 0, total: 0, library: library.name })
+    console.log(`[Sync] Checking ${library.id} for missing remote items...`)
+
+    const allRemoteKeys = await client.fetchAllKeys()
+    const localRecords = db.prepare(
+        'SELECT zotero_key FROM papers WHERE zotero_key IS NOT NULL AND zotero_library = ?'
+    ).all(library.id) as { zotero_key: string }[]
+    const localKeys = new Set(localRecords.map(r => r.zotero_key))
+    // Items merged into another paper are deliberately absent locally
+    const mergedKeys = new Set(
+        (db.prepare('SELECT zotero_key FROM zotero_key_aliases WHERE zotero_library = ?')
+            .all(library.id) as { zotero_key: string }[]).map(r => r.zotero_key)
+    )
+    mergedKeys.forEach(k => localKeys.add(k))
+
+    const missingKeys = allRemoteKeys.filter(k => !localKeys.has(k))
+    // Papers synced before write-back have no snapshot to push against yet
+    const unsnapshotted = db.prepare(
+        'SELECT zotero_key FROM papers WHERE zotero_library = ? AND zotero_key IS NOT NULL AND zotero_synced IS NULL'
+    ).all(library.id) as { zotero_key: string }[]
+    const remoteKeys = new Set(allRemoteKeys)
+    missingKeys.push(...unsnapshotted.map(r => r.zotero_key).filter(k => remoteKeys.has(k)))
+
+    // Collections are few, so the full list is fetched every time; this
+    // also catches collections deleted in Zotero
+    const collections = await client.fetchCollections()
+    mirrorZoteroCollections(library.id, collections.map(c => ({
+        key: c.key,
+        name: c.data.name,
+        parentKey: c.data.parentCollection || null
+    })))
+
+    // ── Removals: deleted and trashed items ──────────────────────────
+    // Flagged for the user to review; a paper is never deleted here
+    if (cursor > 0) {
+        const deleted = await client.fetchDeleted(cursor)
+        flagZoteroRemovals(library.id, deleted.items, 'deleted')
+    }
+    const trashedKeys = await client.fetchTrashKeys()
+    flagZoteroRemovals(library.id, trashedKeys, 'trashed')
+    clearRestoredFromTrash(library.id, trashedKeys)
+
+    // ── Phase 2: Fetch metadata ──────────────────────────────────────
+    console.log(`[Sync] Fetching ${library.id} items since version ${sinceVersion}...`)
+
+    const items = await client.fetchItems(sinceVersion)
+    console.log(`[Sync] Got ${items.length} items from Zotero incremental sync`)
+
+    const fetchedKeys = new Set(items.map(item => item.key))
+    const recoverKeys = missingKeys.filter(k => !fetchedKeys.has(k))
+    if (recoverKeys.length > 0) {
+        console.log(`[Sync] Appending ${recoverKeys.length} explicitly recovered items...`)
+        try {
+            for (let i = 0; i < recoverKeys.length; i += 50) {
+                const chunk = recoverKeys.slice(i, i + 50)
+                const recoveredItems = await client.fetchItemsByKeys(chunk)
+                items.push(...recoveredItems)
             }
+        } catch (err) {
+            console.error('[Sync] Missing items recovery fetch failed:', err)
         }
+    }
 
-        // Filter to actual papers (journal articles, book sections, etc.)
-        const papers = items.filter(item => {
-            const t = item.data.itemType
-            return t !== 'attachment' && t !== 'note' && t !== 'annotation'
-        })
+    // Filter to actual papers (journal articles, book sections, etc.),
+    // skipping duplicates that were merged away and items in the trash.
+    // PDF annotations are imported as highlights in Phase 3
+    const papers = items.filter(item => {
+        const t = item.data.itemType
+        return t !== 'attachment' && t !== 'note' && t !== 'annotation'
+            && !mergedKeys.has(item.key) && !item.data.deleted
+    })
 
-        // ── Phase 2: Upsert papers + download PDFs ───────────────────────
-        const pdfDir = getPdfDir()
+    // ── Phase 2: Upsert papers + download PDFs ───────────────────────
+    const pdfDir = getPdfDir()
+    // PDF attachment key → paper, for papers imported in this sync
+    const newAttachments = new Map<string, string>()
 
-        for (let i = 0; i < papers.length; i++) {
-            const item = papers[i]
-            const title = item.data.title || 'Untitled'
+    for (let i = 0; i < papers.length; i++) {
+        const item = papers[i]
+        const title = item.data.title || 'Untitled'
+
+        emitProgress({
+            phase: 'downloading',
+            current: i + 1,
+            total: papers.length,
+            library: library.name,
+            paperTitle: title
+        })
 
-            emitProgress({
-                phase: 'downloading',
-                current: i + 1,
-                total: papers.length,
-                paperTitle: title
+        try {
+            const authors = ZoteroClient.extractAuthors(item.data.creators)
+            const year = ZoteroClient.parseYear(item.data.date)
+
+            // Check if this is a new paper or an update
+            const existing = db.prepare(
+                'SELECT id FROM papers WHERE zotero_key = ? AND zotero_library = ?'
+            ).get(item.key, library.id) as { id: string } | undefined
+
+            // Upsert the paper metadata
+            const paperId = upsertPaper({
+                title,
+                year,
+                doi: item.data.DOI || null,
+                journal: item.data.publicationTitle || null,
+                abstract: item.data.abstractNote || null,
+                zotero_key: item.key,
+                zotero_library: library.id,
+                zotero_version: item.version,
+                zotero_item: snapshotItemData(item.data),
+                authors
             })
+            setPaperZoteroCollections(paperId, library.id, item.data.collections ?? [])
 
-            try {
-                const authors = ZoteroClient.extractAuthors(item.data.creators)
-                const year = ZoteroClient.parseYear(item.data.date)
-
-                // Check if this is a new paper or an update
-                const db = getDb()
-                const existing = db.prepare(
-                    'SELECT id FROM papers WHERE zotero_key = ?'
-                ).get(item.key) as { id: string } | undefined
-
-                // Upsert the paper metadata
-                const paperId = upsertPaper({
-                    title,
-                    year,
-                    doi: item.data.DOI || null,
-                    journal: item.data.publicationTitle || null,
-                    abstract: item.data.abstractNote || null,
-                    zotero_key: item.key,
-                    zotero_version: item.version,
-                    authors
-                })
-
-                if (existing) {
-                    result.updated++
-                } else {
-                    result.imported++
-                }
-
-                // Download PDF attachment (if any)
-                await downloadPdfForPaper(client, item, paperId, authors, year, pdfDir, result)
-
-            } catch (err) {
-                const errMsg = `Failed to import "${title}": ${err instanceof Error ? err.message : String(err)}`
-                console.error(`[Sync] ${errMsg}`)
-                result.errors.push(errMsg)
+            if (existing) {
+                result.updated++
+            } else {
+                result.imported++
             }
-        }
-
-        // ── Phase 3: Extract text from new PDFs ──────────────────────────
-        await extractTextForNewPapers(result)
 
-        // ── Save sync cursor ─────────────────────────────────────────────
-        result.libraryVersion = client.lastLibraryVersion
-        setSyncMeta('library_version', String(client.lastLibraryVersion))
-        setSyncMeta('last_sync', new Date().toISOString())
+            // Download PDF attachment (if any)
+            const attachmentKey = await downloadPdfForPaper(client, item, paperId, authors, year, pdfDir, result)
+            if (!existing && attachmentKey) newAttachments.set(attachmentKey, paperId)
 
-        emitProgress({ phase: 'complete', current: papers.length, total: papers.length })
-        console.log(`[Sync] Complete: ${result.imported} new, ${result.updated} updated, ${result.pdfsDownloaded} PDFs`)
+        } catch (err) {
+            const errMsg = `Failed to import "${title}": ${err instanceof Error ? err.message : String(err)}`
+            console.error(`[Sync] ${errMsg}`)
+            result.errors.push(errMsg)
+        }
+    }
 
+    // ── Phase 3: Import Zotero highlights ────────────────────────────
+    emitProgress({ phase: 'annotations', current: 0, total: 0, library: library.name })
+    try {
+        result.annotationsImported += await importLibraryAnnotations(client, library, newAttachments, result.errors)
     } catch (err) {
-        const errMsg = err instanceof Error ? err.message : String(err)
-        console.error('[Sync] Fatal error:', errMsg)
+        const errMsg = `Failed to import Zotero highlights: ${err instanceof Error ? err.message : String(err)}`
+        console.error(`[Sync] ${errMsg}`)
         result.errors.push(errMsg)
-        emitProgress({ phase: 'error', current: 0, total: 0, error: errMsg })
-    } finally {
-        isSyncing = false
     }
 
-    return result
+    // ── Phase 4: Push local changes ──────────────────────────────────
+    // The cursor below stays at the pulled version, so the next sync
+    // fetches the pushed items again and finds nothing new in them
+    emitProgress({ phase: 'pushing', current: 0, total: 0, library: library.name })
+    result.pushed += await pushLibraryChanges(client, library, result.errors)
+
+    // ── Save sync cursor ─────────────────────────────────────────────
+    setSyncMeta(`library_version:${library.id}`, String(client.lastLibraryVersion))
+    setSyncMeta(`collections_synced:${library.id}`, '1')
+    if (library.type === 'user') {
+        deleteSyncMeta('library_version')
+    }
 }
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
+/** Download an item's PDF unless it is already on disk; returns the attachment key */
 async function downloadPdfForPaper(
     client: ZoteroClient,
     parentItem: ZoteroItem,
@@ -267,7 +462,7 @@ async function downloadPdfForPaper(
     year: number | null,
     pdfDir: string,
     result: SyncResult
-): Promise<void> {
+): Promise<string | null> {
     try {
         // Find PDF attachment among children
         const children = await client.fetchChildItems(parentItem.key)
@@ -277,7 +472,7 @@ async function downloadPdfForPaper(
                 child.data.linkMode !== 'linked_url'
         )
 
-        if (!pdfAttachment) return
+        if (!pdfAttachment) return null
 
         // Generate filename and check if already downloaded
         const filename = generatePdfFilename(authors, year, pdfDir)
@@ -291,7 +486,7 @@ async function downloadPdfForPaper(
 
         if (existingPdf?.pdf_filename && existsSync(join(pdfDir, existingPdf.pdf_filename))) {
             // Already downloaded, skip
-            return
+            return pdfAttachment.key
         }
 
         // Download the file
@@ -303,10 +498,12 @@ async function downloadPdfForPaper(
 
         result.pdfsDownloaded++
         console.log(`[Sync] Downloaded PDF: ${filename}`)
+        return pdfAttachment.key
 
     } catch (err) {
         console.error(`[Sync] PDF download failed for "${parentItem.data.title}":`, err)
         // Non-fatal — paper metadata is still saved
+        return null
     }
 }
 
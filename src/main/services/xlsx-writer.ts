@@ -0,0 +1,148 @@
+// ============================================================================
+// ThreadMed — XLSX Writer
+// ============================================================================
+// Writes plain tabular workbooks (SpreadsheetML inside a ZIP). Strings are
+// stored inline, the first row of every sheet is bolded and frozen, and text
+// cells wrap so long excerpts stay readable when opened in Excel.
+// ============================================================================
+
+import { createZip } from './zip-writer'
+
+export type CellValue = string | number | null | undefined
+
+export interface Sheet {
+    name: string
+    rows: CellValue[][]
+    /** Optional column widths in characters, by column index */
+    columnWidths?: number[]
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Strip control characters that are illegal in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+/** 0 → A, 25 → Z, 26 → AA */
+function columnName(index: number): string {
+    let name = ''
+    let n = index + 1
+    while (n > 0) {
+        const rem = (n - 1) % 26
+        name = String.fromCharCode(65 + rem) + name
+        n = Math.floor((n - 1) / 26)
+    }
+    return name
+}
+
+/**
+ * Make sheet names valid and unique: max 31 chars, none of []:*?/\
+ */
+function sanitizeSheetNames(names: string[]): string[] {
+    const used = new Set<string>()
+    return names.map(raw => {
+        const base = raw.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet'
+        let name = base
+        let n = 2
+        while (used.has(name.toLowerCase())) {
+            const suffix = ` (${n++})`
+            name = base.slice(0, 31 - suffix.length) + suffix
+        }
+        used.add(name.toLowerCase())
+        return name
+    })
+}
+
+function buildSheetXml(sheet: Sheet): string {
+    const rowsXml = sheet.rows.map((row, r) => {
+        const cells = row.map((value, c) => {
+            const ref = `${columnName(c)}${r + 1}`
+            const style = r === 0 ? 1 : 2
+            if (value === null || value === undefined || value === '') {
+                return `<c r="${ref}" s="${style}"/>`
+            }
+            if (typeof value === 'number' && Number.isFinite(value)) {
+                return `<c r="${ref}" s="${style}"><v>${value}</v></c>`
+            }
+            return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+        }).join('')
+        return `<row r="${r + 1}">${cells}</row>`
+    }).join('')
+
+    const cols = sheet.columnWidths && sheet.columnWidths.length > 0
+        ? `<cols>${sheet.columnWidths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>`
+        : ''
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        cols +
+        `<sheetData>${rowsXml}</sheetData>` +
+        '</worksheet>'
+}
+
+const STYLES_XML =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="3">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>' +
+    '</cellXfs>' +
+    '</styleSheet>'
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Build an .xlsx file from one or more sheets */
+export function buildWorkbook(sheets: Sheet[]): Buffer {
+    const names = sanitizeSheetNames(sheets.map(s => s.name))
+
+    const contentTypes =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>'
+
+    const rootRels =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+
+    const workbook =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        '<sheets>' +
+        names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>'
+
+    const workbookRels =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+
+    return createZip([
+        { name: '[Content_Types].xml', data: contentTypes },
+        { name: '_rels/.rels', data: rootRels },
+        { name: 'xl/workbook.xml', data: workbook },
+        { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+        { name: 'xl/styles.xml', data: STYLES_XML },
+        ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: buildSheetXml(sheet) }))
+    ])
+}
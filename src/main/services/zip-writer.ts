@@ -0,0 +1,112 @@
+// ============================================================================
+// ThreadMed — Minimal ZIP Writer
+// ============================================================================
+// Just enough of the ZIP format to package Office Open XML documents
+// (XLSX, DOCX): deflated entries, a central directory, no ZIP64 and no
+// encryption. Keeps the export services free of third-party archive deps.
+// ============================================================================
+
+import { deflateRawSync } from 'zlib'
+
+export interface ZipEntry {
+    /** Path inside the archive, forward slashes, e.g. "xl/workbook.xml" */
+    name: string
+    data: string | Buffer
+}
+
+// ── CRC-32 ───────────────────────────────────────────────────────────────────
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+        let c = n
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+        }
+        table[n] = c >>> 0
+    }
+    return table
+})()
+
+function crc32(buf: Buffer): number {
+    let crc = 0xffffffff
+    for (let i = 0; i < buf.length; i++) {
+        crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8)
+    }
+    return (crc ^ 0xffffffff) >>> 0
+}
+
+// ── DOS Timestamp ────────────────────────────────────────────────────────────
+
+function dosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    }
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Build a ZIP archive in memory from the given entries */
+export function createZip(entries: ZipEntry[]): Buffer {
+    const stamp = dosDateTime(new Date())
+    const localParts: Buffer[] = []
+    const centralParts: Buffer[] = []
+    let offset = 0
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf-8')
+        const raw = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf-8') : entry.data
+        const compressed = deflateRawSync(raw)
+        const crc = crc32(raw)
+
+        const local = Buffer.alloc(30)
+        local.writeUInt32LE(0x04034b50, 0)    // local file header signature
+        local.writeUInt16LE(20, 4)            // version needed
+        local.writeUInt16LE(0x0800, 6)        // flags: UTF-8 names
+        local.writeUInt16LE(8, 8)             // method: deflate
+        local.writeUInt16LE(stamp.time, 10)
+        local.writeUInt16LE(stamp.date, 12)
+        local.writeUInt32LE(crc, 14)
+        local.writeUInt32LE(compressed.length, 18)
+        local.writeUInt32LE(raw.length, 22)
+        local.writeUInt16LE(name.length, 26)
+        local.writeUInt16LE(0, 28)            // extra field length
+
+        const central = Buffer.alloc(46)
+        central.writeUInt32LE(0x02014b50, 0)  // central directory signature
+        central.writeUInt16LE(20, 4)          // version made by
+        central.writeUInt16LE(20, 6)          // version needed
+        central.writeUInt16LE(0x0800, 8)
+        central.writeUInt16LE(8, 10)
+        central.writeUInt16LE(stamp.time, 12)
+        central.writeUInt16LE(stamp.date, 14)
+        central.writeUInt32LE(crc, 16)
+        central.writeUInt32LE(compressed.length, 20)
+        central.writeUInt32LE(raw.length, 24)
+        central.writeUInt16LE(name.length, 28)
+        central.writeUInt16LE(0, 30)          // extra field length
+        central.writeUInt16LE(0, 32)          // comment length
+        central.writeUInt16LE(0, 34)          // disk number
+        central.writeUInt16LE(0, 36)          // internal attributes
+        central.writeUInt32LE(0, 38)          // external attributes
+        central.writeUInt32LE(offset, 42)
+
+        localParts.push(local, name, compressed)
+        centralParts.push(central, name)
+        offset += local.length + name.length + compressed.length
+    }
+
+    const centralDir = Buffer.concat(centralParts)
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054b50, 0)          // end of central directory signature
+    end.writeUInt16LE(0, 4)
+    end.writeUInt16LE(0, 6)
+    end.writeUInt16LE(entries.length, 8)
+    end.writeUInt16LE(entries.length, 10)
+    end.writeUInt32LE(centralDir.length, 12)
+    end.writeUInt32LE(offset, 16)
+    end.writeUInt16LE(0, 20)
+
+    return Buffer.concat([...localParts, centralDir, end])
+}
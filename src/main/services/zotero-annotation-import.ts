@@ -0,0 +1,214 @@
+// ============================================================================
+// ThreadMed — Zotero Annotation Import
+// ============================================================================
+// Imports highlights and underlines made in Zotero's PDF reader (desktop,
+// iPad, web) as ThreadMed annotations. Each one is filed under the node (and
+// optional tag) of the first matching rule, by Zotero tag or by highlight
+// colour; annotations no rule matches are left in Zotero.
+//
+// Zotero positions highlights in PDF points from the bottom-left of the page;
+// HighlightLayer stores rects in CSS pixels at scale 1 from the top-left, so
+// the y axis is flipped using the page height read from the local PDF.
+//
+// Changes to an imported annotation's text or position in Zotero update the
+// highlight; its node and tag stay as coded here. Annotations deleted in
+// Zotero are kept in ThreadMed, like any other highlight.
+// ============================================================================
+
+import { join } from 'path'
+import { existsSync } from 'fs'
+import { getDb, getPdfDir } from '../database/connection'
+import { getSyncMeta, setSyncMeta } from './credential-store'
+import { getPdfPageSizes } from './pdf-extractor'
+import { createAnnotation, updateAnnotationContent } from '../database/repositories/annotations'
+import { findOrCreateTag } from '../database/repositories/tags'
+import {
+    listZoteroAnnotationRules, saveZoteroAnnotationRule, deleteZoteroAnnotationRule,
+    matchZoteroAnnotationRule, getZoteroAnnotationLink, saveZoteroAnnotationLink,
+    type ZoteroAnnotationRule, type ZoteroAnnotationRuleInput
+} from '../database/repositories/zotero-annotations'
+import type { ZoteroClient, ZoteroItem, ZoteroLibrary } from './zotero-client'
+
+type HighlightRect = { x: number; y: number; width: number; height: number }
+
+// ── Rules ────────────────────────────────────────────────────────────────────
+
+/**
+ * Save a rule. Annotations skipped before it existed were never recorded, so
+ * every library's annotations are fetched in full on the next sync.
+ */
+export function setAnnotationRule(input: ZoteroAnnotationRuleInput): ZoteroAnnotationRule {
+    const rule = saveZoteroAnnotationRule(input)
+    getDb().prepare("DELETE FROM sync_meta WHERE key LIKE 'annotations_version:%'").run()
+    return rule
+}
+
+export function removeAnnotationRule(id: string): void {
+    deleteZoteroAnnotationRule(id)
+}
+
+// ── Position Conversion ──────────────────────────────────────────────────────
+
+/**
+ * Convert a Zotero annotationPosition into a page number and HighlightLayer
+ * rects. Assumes the page's view box starts at the origin, as it does for
+ * nearly every PDF.
+ */
+export function convertZoteroPosition(
+    position: string | undefined,
+    pageSizes: Array<{ width: number; height: number }>
+): { pageNumber: number; rects: HighlightRect[] } | null {
+    if (!position) return null
+    let parsed: { pageIndex?: number; rects?: number[][] }
+    try {
+        parsed = JSON.parse(position)
+    } catch {
+        return null
+    }
+
+    const pageIndex = parsed.pageIndex
+    if (typeof pageIndex !== 'number' || !Array.isArray(parsed.rects)) return null
+    const page = pageSizes[pageIndex]
+    if (!page) return null
+
+    const rects = parsed.rects
+        .filter(r => Array.isArray(r) && r.length === 4 && r.every(n => typeof n === 'number'))
+        .map(([x1, y1, x2, y2]) => ({
+            x: Math.min(x1, x2),
+            y: page.height - Math.max(y1, y2),
+            width: Math.abs(x2 - x1),
+            height: Math.abs(y2 - y1)
+        }))
+    return rects.length > 0 ? { pageNumber: pageIndex + 1, rects } : null
+}
+
+// ── Import ───────────────────────────────────────────────────────────────────
+
+/**
+ * Import a library's annotations changed since the last import, plus all
+ * annotations of the given attachments (PDFs of papers new in this sync,
+ * whose older annotations the cursor has already passed).
+ * Returns the number of highlights created; problems are appended to `errors`.
+ */
+export async function importLibraryAnnotations(
+    client: ZoteroClient,
+    library: ZoteroLibrary,
+    newAttachments: Map<string, string>,
+    errors: string[]
+): Promise<number> {
+    const rules = listZoteroAnnotationRules()
+    if (rules.length === 0) return 0
+
+    const cursorKey = `annotations_version:${library.id}`
+    const cursor = parseInt(getSyncMeta(cursorKey) || '0', 10)
+    const annotations = await client.fetchAnnotations(cursor)
+    const version = client.lastLibraryVersion
+
+    // Attachment key → paper id, starting with the attachments we already know
+    const paperOfAttachment = new Map(newAttachments)
+    const seen = new Set(annotations.map(a => a.key))
+    for (const attachmentKey of newAttachments.keys()) {
+        for (const annotation of await client.fetchAnnotations(0, attachmentKey)) {
+            if (!seen.has(annotation.key)) {
+                seen.add(annotation.key)
+                annotations.push(annotation)
+            }
+        }
+    }
+
+    const importable = annotations.filter(a =>
+        (a.data.annotationType === 'highlight' || a.data.annotationType === 'underline')
+        && a.data.annotationText?.trim()
+        && a.data.parentItem
+        && getZoteroAnnotationLink(library.id, a.key)?.zotero_version !== a.version
+    )
+    if (importable.length > 0) {
+        await resolveAttachmentPapers(client, library, importable, paperOfAttachment)
+    }
+
+    const db = getDb()
+    const pdfDir = getPdfDir()
+    const pageSizesOf = new Map<string, Array<{ width: number; height: number }>>()
+    const nodeColor = db.prepare('SELECT color FROM nodes WHERE id = ?')
+    let imported = 0
+    // Set when a PDF is not downloaded yet; the cursor then stays put so the
+    // annotation is fetched again next time
+    let deferred = false
+
+    for (const annotation of importable) {
+        const data = annotation.data
+        const paperId = paperOfAttachment.get(data.parentItem!)
+        if (!paperId) continue
+
+        try {
+            const link = getZoteroAnnotationLink(library.id, annotation.key)
+            // Deleted here after an earlier import: leave it deleted
+            if (link && !link.annotation_id) continue
+
+            const rule = link ? null : matchZoteroAnnotationRule(rules, data.annotationColor, (data.tags ?? []).map(t => t.tag))
+            if (!link && !rule) continue
+
+            if (!pageSizesOf.has(paperId)) {
+                const paper = db.prepare('SELECT pdf_filename FROM papers WHERE id = ?').get(paperId) as { pdf_filename: string | null } | undefined
+                const pdfPath = paper?.pdf_filename ? join(pdfDir, paper.pdf_filename) : null
+                pageSizesOf.set(paperId, pdfPath && existsSync(pdfPath) ? await getPdfPageSizes(pdfPath) : [])
+            }
+            const pageSizes = pageSizesOf.get(paperId)!
+            if (pageSizes.length === 0) {
+                deferred = true
+                continue
+            }
+            const position = convertZoteroPosition(data.annotationPosition, pageSizes)
+            if (!position) continue
+
+            const content = data.annotationText!.trim()
+            if (link) {
+                updateAnnotationContent(link.annotation_id!, content, JSON.stringify(position.rects), position.pageNumber)
+                saveZoteroAnnotationLink(library.id, annotation.key, annotation.version, link.annotation_id)
+            } else {
+                const node = nodeColor.get(rule!.node_id) as { color: string } | undefined
+                const created = createAnnotation({
+                    paper_id: paperId,
+                    node_id: rule!.node_id,
+                    content,
+                    page_number: position.pageNumber,
+                    rects_json: JSON.stringify(position.rects),
+                    color: node?.color,
+                    tag_id: rule!.tag_name ? findOrCreateTag(rule!.node_id, rule!.tag_name).id : undefined
+                })
+                saveZoteroAnnotationLink(library.id, annotation.key, annotation.version, created.id)
+                imported++
+            }
+        } catch (err) {
+            const errMsg = `Failed to import a Zotero highlight: ${err instanceof Error ? err.message : String(err)}`
+            console.error(`[Sync] ${errMsg}`)
+            errors.push(errMsg)
+        }
+    }
+
+    if (!deferred) setSyncMeta(cursorKey, String(version))
+    return imported
+}
+
+/** Look up the papers of the attachments these annotations belong to */
+async function resolveAttachmentPapers(
+    client: ZoteroClient,
+    library: ZoteroLibrary,
+    annotations: ZoteroItem[],
+    paperOfAttachment: Map<string, string>
+): Promise<void> {
+    const db = getDb()
+    const findPaper = db.prepare(
+        'SELECT id FROM papers WHERE zotero_library = ? AND zotero_key = ? AND archived = 0'
+    )
+    const unknown = [...new Set(annotations.map(a => a.data.parentItem!))].filter(k => !paperOfAttachment.has(k))
+
+    for (let i = 0; i < unknown.length; i += 50) {
+        const attachments = await client.fetchItemsByKeys(unknown.slice(i, i + 50))
+        for (const attachment of attachments) {
+            if (!attachment.data.parentItem) continue
+            const paper = findPaper.get(library.id, attachment.data.parentItem) as { id: string } | undefined
+            if (paper) paperOfAttachment.set(attachment.key, paper.id)
+        }
+    }
+}
@@ -3,7 +3,10 @@
 // ============================================================================
 // HTTP client for Zotero's REST API. Uses Node 20's native fetch.
 // Handles pagination (max 100 items/request), rate limiting (Backoff /
-// Retry-After headers), and incremental sync via Library-Version.
+// Retry-After headers), incremental sync via Library-Version, and writes
+// guarded by If-Unmodified-Since-Version.
+// A client is bound to one library: the user's own ('users/<id>') or a group
+// library the API key can read ('groups/<id>').
 // ============================================================================
 
 const ZOTERO_BASE = 'https://api.zotero.org'
@@ -27,12 +30,64 @@ export interface ZoteroItem {
             name?: string
         }>
         parentItem?: string
+        /** Keys of the collections the item is filed in */
+        collections?: string[]
+        /** Set when the item is in the trash */
+        deleted?: boolean | number
+        tags?: Array<{ tag: string; type?: number }>
+        /** Annotation fields (itemType 'annotation', child of a PDF attachment) */
+        annotationType?: 'highlight' | 'underline' | 'note' | 'image' | 'ink' | 'text'
+        annotationText?: string
+        annotationComment?: string
+        annotationColor?: string
+        /** JSON: { pageIndex, rects: [[x1, y1, x2, y2], ...] } in PDF points */
+        annotationPosition?: string
         contentType?: string
         filename?: string
         linkMode?: string
     }
 }
 
+/** Raw Zotero collection as returned by the API (relevant fields only) */
+export interface ZoteroCollection {
+    key: string
+    version: number
+    data: {
+        name: string
+        /** Parent collection key, or false for top-level collections */
+        parentCollection: string | false
+    }
+}
+
+/** Keys of objects deleted since a library version (relevant fields only) */
+export interface ZoteroDeletedObjects {
+    items: string[]
+    collections: string[]
+}
+
+/**
+ * Outcome of a versioned write: 'conflict' when the object changed in Zotero
+ * since the given version (412), 'missing' when it no longer exists (404)
+ */
+export type ZoteroWriteResult =
+    | { status: 'ok'; version: number }
+    | { status: 'conflict' }
+    | { status: 'missing' }
+
+/** A Zotero library the API key can read */
+export interface ZoteroLibrary {
+    /** API path prefix: 'users/<id>' or 'groups/<id>' */
+    id: string
+    type: 'user' | 'group'
+    name: string
+}
+
+/** Raw group as returned by /users/<id>/groups (relevant fields only) */
+interface ZoteroGroup {
+    id: number
+    data: { name: string }
+}
+
 /** Minimal validated connection info */
 export interface ZoteroConnectionInfo {
     valid: boolean
@@ -43,22 +98,40 @@ export interface ZoteroConnectionInfo {
 export class ZoteroClient {
     private apiKey: string
     private userId: string
+    private libraryId: string
     /** Library-Version from the most recent API response */
     public lastLibraryVersion: number = 0
 
-    constructor(apiKey: string, userId: string) {
+    constructor(apiKey: string, userId: string, libraryId: string = `users/${userId}`) {
         this.apiKey = apiKey
         this.userId = userId
+        this.libraryId = libraryId
     }
 
     // ── Core Fetch ──────────────────────────────────────────────────────────
 
+    /** Request a path inside this client's library */
     private async request(
         path: string,
+        params: Record<string, string | number> = {}
+    ): Promise<{ data: unknown; headers: Headers }> {
+        const response = await this.requestUrl(`/${this.libraryId}${path}`, params)
+
+        // Track Library-Version
+        const libVersion = response.headers.get('Last-Modified-Version')
+        if (libVersion) {
+            this.lastLibraryVersion = parseInt(libVersion, 10)
+        }
+
+        return response
+    }
+
+    private async requestUrl(
+        apiPath: string,
         params: Record<string, string | number> = {},
         retries = 3
     ): Promise<{ data: unknown; headers: Headers }> {
-        const url = new URL(`${ZOTERO_BASE}/users/${this.userId}${path}`)
+        const url = new URL(`${ZOTERO_BASE}${apiPath}`)
         for (const [k, v] of Object.entries(params)) {
             url.searchParams.set(k, String(v))
         }
@@ -85,12 +158,6 @@ export class ZoteroClient {
                 throw new Error(`Zotero API error ${res.status}: ${body}`)
             }
 
-            // Track Library-Version
-            const libVersion = res.headers.get('Last-Modified-Version')
-            if (libVersion) {
-                this.lastLibraryVersion = parseInt(libVersion, 10)
-            }
-
             const contentType = res.headers.get('content-type') || ''
             const data = contentType.includes('application/json')
                 ? await res.json()
@@ -102,6 +169,62 @@ export class ZoteroClient {
         throw new Error('Zotero API: max retries exceeded')
     }
 
+    /**
+     * Send a write inside this client's library. Writes never update
+     * lastLibraryVersion, so the sync cursor only reflects what was pulled.
+     */
+    private async write(
+        method: 'POST' | 'PATCH' | 'DELETE',
+        path: string,
+        body?: unknown,
+        version?: number,
+        retries = 3
+    ): Promise<{ status: number; data: unknown; headers: Headers }> {
+        const headers: Record<string, string> = {
+            'Zotero-API-Key': this.apiKey,
+            'Zotero-API-Version': '3'
+        }
+        if (body !== undefined) headers['Content-Type'] = 'application/json'
+        if (version !== undefined) headers['If-Unmodified-Since-Version'] = String(version)
+
+        for (let attempt = 0; attempt < retries; attempt++) {
+            const res = await fetch(`${ZOTERO_BASE}/${this.libraryId}${path}`, {
+                method,
+                headers,
+                body: body === undefined ? undefined : JSON.stringify(body)
+            })
+
+            // Rate limiting (only a 429 is retried; any other response was applied)
+            const backoff = res.headers.get('Backoff') || res.headers.get('Retry-After')
+            if (res.status === 429 || backoff) {
+                const waitMs = (parseInt(backoff || '5', 10)) * 1000
+                console.log(`[Zotero] Rate limited, waiting ${waitMs}ms`)
+                await this.sleep(waitMs)
+                if (res.status === 429) continue
+            }
+
+            if (res.status === 412 || res.status === 404) {
+                return { status: res.status, data: null, headers: res.headers }
+            }
+            if (!res.ok) {
+                const text = await res.text()
+                throw new Error(`Zotero API error ${res.status}: ${text}`)
+            }
+
+            const contentType = res.headers.get('content-type') || ''
+            const data = contentType.includes('application/json') ? await res.json() : null
+            return { status: res.status, data, headers: res.headers }
+        }
+
+        throw new Error('Zotero API: max retries exceeded')
+    }
+
+    private writeResult(response: { status: number; headers: Headers }): ZoteroWriteResult {
+        if (response.status === 412) return { status: 'conflict' }
+        if (response.status === 404) return { status: 'missing' }
+        return { status: 'ok', version: parseInt(response.headers.get('Last-Modified-Version') || '0', 10) }
+    }
+
     private sleep(ms: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, ms))
     }
@@ -123,6 +246,35 @@ export class ZoteroClient {
         }
     }
 
+    /** Group libraries the API key's user belongs to */
+    async fetchGroups(): Promise<ZoteroLibrary[]> {
+        const allGroups: ZoteroGroup[] = []
+        let start = 0
+
+        while (true) {
+            const { data, headers } = await this.requestUrl(`/users/${this.userId}/groups`, {
+                format: 'json',
+                limit: PAGE_SIZE,
+                start
+            })
+            const groups = data as ZoteroGroup[]
+            allGroups.push(...groups)
+
+            const totalResults = parseInt(headers.get('Total-Results') || '0', 10)
+            start += PAGE_SIZE
+
+            if (start >= totalResults || groups.length === 0) {
+                break
+            }
+        }
+
+        return allGroups.map(group => ({
+            id: `groups/${group.id}`,
+            type: 'group' as const,
+            name: group.data.name
+        }))
+    }
+
     /**
      * Fetch all top-level items (not attachments) modified since `sinceVersion`.
      * Automatically paginates through all results.
@@ -159,13 +311,54 @@ export class ZoteroClient {
         return allItems
     }
 
+    /** Fetch every collection in the library */
+    async fetchCollections(): Promise<ZoteroCollection[]> {
+        const allCollections: ZoteroCollection[] = []
+        let start = 0
+
+        while (true) {
+            const { data, headers } = await this.request('/collections', {
+                format: 'json',
+                limit: PAGE_SIZE,
+                start
+            })
+            const collections = data as ZoteroCollection[]
+            allCollections.push(...collections)
+
+            const totalResults = parseInt(headers.get('Total-Results') || '0', 10)
+            start += PAGE_SIZE
+
+            if (start >= totalResults || collections.length === 0) {
+                break
+            }
+        }
+
+        return allCollections
+    }
+
+    /** Keys of items and collections permanently deleted since `sinceVersion` */
+    async fetchDeleted(sinceVersion: number): Promise<ZoteroDeletedObjects> {
+        const { data } = await this.request('/deleted', { since: sinceVersion })
+        const deleted = data as Partial<ZoteroDeletedObjects>
+        return { items: deleted.items ?? [], collections: deleted.collections ?? [] }
+    }
+
+    /** Fetch the keys of all top-level items in the trash */
+    async fetchTrashKeys(): Promise<string[]> {
+        return this.fetchKeys('/items/trash')
+    }
+
     /** Fetch all item keys to detect local deletions */
     async fetchAllKeys(): Promise<string[]> {
+        return this.fetchKeys('/items')
+    }
+
+    private async fetchKeys(path: string): Promise<string[]> {
         const allKeys: string[] = []
         let start = 0
 
         while (true) {
-            const { headers, data } = await this.request('/items', {
+            const { headers, data } = await this.request(path, {
                 format: 'keys',
                 itemType: '-attachment || note',
                 limit: PAGE_SIZE,
@@ -191,7 +384,8 @@ export class ZoteroClient {
         if (keys.length === 0) return []
         const { data } = await this.request('/items', {
             format: 'json',
-            itemKey: keys.join(',')
+            itemKey: keys.join(','),
+            limit: keys.length
         })
         return data as ZoteroItem[]
     }
@@ -204,9 +398,68 @@ export class ZoteroClient {
         return data as ZoteroItem[]
     }
 
+    /**
+     * Fetch PDF annotations modified since `sinceVersion`, either across the
+     * library or only those of one attachment.
+     */
+    async fetchAnnotations(sinceVersion: number = 0, attachmentKey?: string): Promise<ZoteroItem[]> {
+        const path = attachmentKey ? `/items/${attachmentKey}/children` : '/items'
+        const allItems: ZoteroItem[] = []
+        let start = 0
+
+        while (true) {
+            const params: Record<string, string | number> = {
+                format: 'json',
+                itemType: 'annotation',
+                limit: PAGE_SIZE,
+                start
+            }
+            if (sinceVersion > 0) {
+                params.since = sinceVersion
+            }
+
+            const { data, headers } = await this.request(path, params)
+            const items = data as ZoteroItem[]
+            allItems.push(...items)
+
+            const totalResults = parseInt(headers.get('Total-Results') || '0', 10)
+            start += PAGE_SIZE
+
+            if (start >= totalResults || items.length === 0) {
+                break
+            }
+        }
+
+        return allItems
+    }
+
+    /** Change some fields of an item, provided it is still at `version` */
+    async updateItem(itemKey: string, version: number, data: Record<string, unknown>): Promise<ZoteroWriteResult> {
+        return this.writeResult(await this.write('PATCH', `/items/${itemKey}`, data, version))
+    }
+
+    /** Create one item (e.g. a child note) and return its key and version */
+    async createItem(data: Record<string, unknown>): Promise<{ key: string; version: number }> {
+        const { data: response } = await this.write('POST', '/items', [data])
+        const { successful, failed } = response as {
+            successful?: Record<string, { key: string; version: number }>
+            failed?: Record<string, { code: number; message: string }>
+        }
+        const created = successful?.['0']
+        if (!created) {
+            throw new Error(`Zotero rejected the new item: ${failed?.['0']?.message ?? 'unknown error'}`)
+        }
+        return { key: created.key, version: created.version }
+    }
+
+    /** Delete an item, provided it is still at `version` */
+    async deleteItem(itemKey: string, version: number): Promise<ZoteroWriteResult> {
+        return this.writeResult(await this.write('DELETE', `/items/${itemKey}`, undefined, version))
+    }
+
     /** Download an attachment file (PDF) as a Buffer */
     async downloadFile(itemKey: string): Promise<Buffer> {
-        const url = `${ZOTERO_BASE}/users/${this.userId}/items/${itemKey}/file`
+        const url = `${ZOTERO_BASE}/${this.libraryId}/items/${itemKey}/file`
         const res = await fetch(url, {
             headers: {
                 'Zotero-API-Key': this.apiKey,
@@ -0,0 +1,304 @@
+// ============================================================================
+// ThreadMed — Zotero Write-Back
+// ============================================================================
+// The ThreadMed → Zotero half of two-way sync. After a library's items are
+// pulled (and merged by upsertPaper), each linked paper may push:
+//   - metadata edited locally (title, year, DOI, journal, abstract, authors)
+//   - its codes as Zotero tags: "ThreadMed: <node path>" for each node it has
+//     annotations under, plus "ThreadMed: <node path>: <tag>" for tags
+//   - a child note summarising its annotations, replaced as they change
+// Every write carries If-Unmodified-Since-Version, so an item changed in
+// Zotero meanwhile is left alone and merged on the next sync. Papers with
+// unresolved field conflicts are not pushed.
+// ============================================================================
+
+import { createHash } from 'crypto'
+import { getDb } from '../database/connection'
+import { getSyncMeta, setSyncMeta } from './credential-store'
+import {
+    getPaper, getSyncedFields, getZoteroSnapshot, recordZoteroPush, sameFieldValue, SYNCED_FIELDS,
+    type PaperWithAuthors, type SyncedField, type SyncedFields
+} from '../database/repositories/papers'
+import { listNodeTree } from '../database/repositories/nodes'
+import type { ZoteroClient, ZoteroItem, ZoteroLibrary } from './zotero-client'
+
+// ── Options ──────────────────────────────────────────────────────────────────
+
+export interface WriteBackOptions {
+    /** Push local metadata edits */
+    metadata: boolean
+    /** Push node and tag assignments as Zotero tags */
+    codes: boolean
+    /** Push an annotation summary as a child note */
+    notes: boolean
+}
+
+const OPTION_KEYS: Record<keyof WriteBackOptions, string> = {
+    metadata: 'zotero_push_metadata',
+    codes: 'zotero_push_codes',
+    notes: 'zotero_push_notes'
+}
+
+/** Metadata edits are pushed unless turned off; codes and notes are opt-in */
+export function getWriteBackOptions(): WriteBackOptions {
+    return {
+        metadata: getSyncMeta(OPTION_KEYS.metadata) !== '0',
+        codes: getSyncMeta(OPTION_KEYS.codes) === '1',
+        notes: getSyncMeta(OPTION_KEYS.notes) === '1'
+    }
+}
+
+export function setWriteBackOptions(options: Partial<WriteBackOptions>): void {
+    for (const key of Object.keys(OPTION_KEYS) as Array<keyof WriteBackOptions>) {
+        if (options[key] !== undefined) setSyncMeta(OPTION_KEYS[key], options[key] ? '1' : '0')
+    }
+}
+
+// ── Item Data ────────────────────────────────────────────────────────────────
+
+type ItemData = ZoteroItem['data']
+
+const SNAPSHOT_KEYS = ['title', 'date', 'DOI', 'publicationTitle', 'abstractNote', 'creators', 'tags'] as const
+
+/** The parts of an item write-back builds on, kept in the paper's snapshot */
+export function snapshotItemData(data: ItemData): Partial<ItemData> {
+    const snapshot: Record<string, unknown> = {}
+    for (const key of SNAPSHOT_KEYS) {
+        if (key in data) snapshot[key] = data[key]
+    }
+    return snapshot as Partial<ItemData>
+}
+
+/**
+ * The Zotero fields for one local field, or null when the item type has no
+ * such field (e.g. a book has no DOI or publicationTitle).
+ */
+function toZoteroFields(field: SyncedField, local: SyncedFields, item: Partial<ItemData>): Record<string, unknown> | null {
+    switch (field) {
+        case 'title':
+            return { title: local.title }
+        case 'year': {
+            // Keep the rest of a full date ("March 2024") when only the year changed
+            const date = item.date ?? ''
+            if (local.year === null) return { date: '' }
+            return { date: /\d{4}/.test(date) ? date.replace(/\d{4}/, String(local.year)) : String(local.year) }
+        }
+        case 'doi':
+            return 'DOI' in item ? { DOI: local.doi ?? '' } : null
+        case 'journal':
+            return 'publicationTitle' in item ? { publicationTitle: local.journal ?? '' } : null
+        case 'abstract':
+            return { abstractNote: local.abstract ?? '' }
+        case 'authors': {
+            // Editors, translators etc. are not edited in ThreadMed and are kept
+            const others = (item.creators ?? []).filter(c => c.creatorType !== 'author')
+            const authors = local.authors.map(name => {
+                const comma = name.indexOf(', ')
+                return comma > 0
+                    ? { creatorType: 'author', lastName: name.slice(0, comma), firstName: name.slice(comma + 2) }
+                    : { creatorType: 'author', name }
+            })
+            return { creators: [...authors, ...others] }
+        }
+    }
+}
+
+// ── Codes as Tags ────────────────────────────────────────────────────────────
+
+const CODE_TAG_PREFIX = 'ThreadMed: '
+
+function getCodeTags(paperId: string, nodePaths: Map<string, string>): string[] {
+    const db = getDb()
+    const rows = db.prepare(`
+        SELECT DISTINCT a.node_id, t.name AS tag_name
+        FROM annotations a
+        LEFT JOIN tags t ON t.id = a.tag_id
+        WHERE a.paper_id = ?
+    `).all(paperId) as Array<{ node_id: string; tag_name: string | null }>
+
+    const tags = new Set<string>()
+    for (const row of rows) {
+        const path = nodePaths.get(row.node_id)
+        if (!path) continue
+        tags.add(`${CODE_TAG_PREFIX}${path}`)
+        if (row.tag_name) tags.add(`${CODE_TAG_PREFIX}${path}: ${row.tag_name}`)
+    }
+    return [...tags].sort()
+}
+
+/** The item's tags with its ThreadMed codes replaced, or null when they are current */
+function mergeCodeTags(item: Partial<ItemData>, codes: string[]): Array<{ tag: string; type?: number }> | null {
+    const current = item.tags ?? []
+    const currentCodes = current.filter(t => t.tag.startsWith(CODE_TAG_PREFIX)).map(t => t.tag).sort()
+    if (sameFieldValue(currentCodes, codes)) return null
+    return [
+        ...current.filter(t => !t.tag.startsWith(CODE_TAG_PREFIX)),
+        // Type 1 marks them as automatic tags in Zotero
+        ...codes.map(tag => ({ tag, type: 1 }))
+    ]
+}
+
+// ── Annotation Notes ─────────────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/** Note HTML listing the paper's annotations by node, or null when it has none */
+function buildAnnotationNote(paperId: string, nodeOrder: string[], nodePaths: Map<string, string>): string | null {
+    const db = getDb()
+    const annotations = db.prepare(`
+        SELECT a.node_id, a.content, a.page_number, t.name AS tag_name
+        FROM annotations a
+        LEFT JOIN tags t ON t.id = a.tag_id
+        WHERE a.paper_id = ?
+        ORDER BY a.page_number, a.created_at
+    `).all(paperId) as Array<{ node_id: string; content: string; page_number: number; tag_name: string | null }>
+    if (annotations.length === 0) return null
+
+    const sections: string[] = []
+    for (const nodeId of nodeOrder) {
+        const items = annotations.filter(a => a.node_id === nodeId)
+        if (items.length === 0) continue
+        const list = items.map(a => {
+            const tag = a.tag_name ? ` — <strong>${escapeHtml(a.tag_name)}</strong>` : ''
+            return `<li><p>“${escapeHtml(a.content)}” (p. ${a.page_number})${tag}</p></li>`
+        }).join('')
+        sections.push(`<h2>${escapeHtml(nodePaths.get(nodeId) ?? '')}</h2><ul>${list}</ul>`)
+    }
+
+    return '<div data-schema-version="9">'
+        + '<h1>ThreadMed annotations</h1>'
+        + '<p><em>Written by ThreadMed and replaced when the annotations change.</em></p>'
+        + sections.join('')
+        + '</div>'
+}
+
+async function pushAnnotationNote(
+    client: ZoteroClient,
+    paper: PaperWithAuthors,
+    nodeOrder: string[],
+    nodePaths: Map<string, string>,
+    errors: string[]
+): Promise<void> {
+    const db = getDb()
+    const html = buildAnnotationNote(paper.id, nodeOrder, nodePaths)
+    const hash = createHash('sha1').update(html ?? '').digest('hex')
+    const existing = db.prepare(
+        'SELECT note_key, note_version, content_hash FROM zotero_notes WHERE paper_id = ?'
+    ).get(paper.id) as { note_key: string; note_version: number; content_hash: string } | undefined
+
+    if (existing?.content_hash === hash) return
+
+    if (!html) {
+        // No annotations left: remove the note rather than leave a stale one
+        if (existing) {
+            const result = await client.deleteItem(existing.note_key, existing.note_version)
+            if (result.status === 'conflict') {
+                errors.push(`The ThreadMed note on "${paper.title}" was edited in Zotero and was not deleted`)
+                return
+            }
+            db.prepare('DELETE FROM zotero_notes WHERE paper_id = ?').run(paper.id)
+        }
+        return
+    }
+
+    if (existing) {
+        const result = await client.updateItem(existing.note_key, existing.note_version, { note: html })
+        if (result.status === 'ok') {
+            db.prepare('UPDATE zotero_notes SET note_version = ?, content_hash = ? WHERE paper_id = ?')
+                .run(result.version, hash, paper.id)
+            return
+        }
+        if (result.status === 'conflict') {
+            errors.push(`The ThreadMed note on "${paper.title}" was edited in Zotero and was not overwritten`)
+            return
+        }
+        // Deleted in Zotero: create it again below
+    }
+
+    const created = await client.createItem({ itemType: 'note', parentItem: paper.zotero_key, note: html, tags: [] })
+    db.prepare(`
+        INSERT INTO zotero_notes (paper_id, note_key, note_version, content_hash) VALUES (?, ?, ?, ?)
+        ON CONFLICT(paper_id) DO UPDATE SET
+            note_key = excluded.note_key, note_version = excluded.note_version, content_hash = excluded.content_hash
+    `).run(paper.id, created.key, created.version, hash)
+}
+
+// ── Push ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Push local changes of one library's papers. Returns the number of papers
+ * whose item was updated; problems are appended to `errors`.
+ */
+export async function pushLibraryChanges(client: ZoteroClient, library: ZoteroLibrary, errors: string[]): Promise<number> {
+    const options = getWriteBackOptions()
+    if (!options.metadata && !options.codes && !options.notes) return 0
+
+    const db = getDb()
+    const candidates = db.prepare(`
+        SELECT id FROM papers
+        WHERE zotero_library = ? AND zotero_key IS NOT NULL AND archived = 0
+          AND id NOT IN (SELECT paper_id FROM zotero_conflicts)
+          AND id NOT IN (SELECT paper_id FROM zotero_removals)
+          ${options.codes || options.notes ? '' : 'AND dirty = 1'}
+    `).all(library.id) as { id: string }[]
+    if (candidates.length === 0) return 0
+
+    const tree = listNodeTree()
+    const nodePaths = new Map(tree.map(n => [n.id, n.path.join(' › ')]))
+    const nodeOrder = tree.map(n => n.id)
+
+    let pushed = 0
+    for (const { id } of candidates) {
+        const paper = getPaper(id)
+        const snapshot = paper ? getZoteroSnapshot(paper) : null
+        // No snapshot means the item has not been pulled since write-back was added
+        if (!paper || !snapshot?.item) continue
+        const item = snapshot.item as Partial<ItemData>
+
+        try {
+            const patch: Record<string, unknown> = {}
+            const pushedFields: SyncedField[] = []
+
+            if (options.metadata && paper.dirty) {
+                const local = getSyncedFields(paper)
+                for (const field of SYNCED_FIELDS) {
+                    if (sameFieldValue(local[field], snapshot.fields[field])) continue
+                    const fields = toZoteroFields(field, local, item)
+                    if (!fields) continue
+                    Object.assign(patch, fields)
+                    pushedFields.push(field)
+                }
+            }
+
+            if (options.codes) {
+                const tags = mergeCodeTags(item, getCodeTags(paper.id, nodePaths))
+                if (tags) patch.tags = tags
+            }
+
+            if (Object.keys(patch).length > 0) {
+                const result = await client.updateItem(paper.zotero_key!, paper.zotero_version, patch)
+                if (result.status === 'ok') {
+                    recordZoteroPush(paper.id, result.version, pushedFields, patch)
+                    pushed++
+                } else if (result.status === 'conflict') {
+                    errors.push(`"${paper.title}" changed in Zotero during the sync and will be merged next time`)
+                    continue
+                } else {
+                    continue
+                }
+            }
+
+            if (options.notes) await pushAnnotationNote(client, paper, nodeOrder, nodePaths, errors)
+        } catch (err) {
+            const errMsg = `Failed to push "${paper.title}": ${err instanceof Error ? err.message : String(err)}`
+            console.error(`[Sync] ${errMsg}`)
+            errors.push(errMsg)
+            // A key without write access fails every paper the same way
+            if (err instanceof Error && err.message.includes('Zotero API error 403')) break
+        }
+    }
+
+    return pushed
+}
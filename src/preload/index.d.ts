@@ -1,7 +1,18 @@
 import type { ElectronAPI } from '@electron-toolkit/preload'
 import type {
-    PaperWithAuthors, CreatePaperInput, Folder, Node, Tag, Annotation,
-    AnnotationWithContext, MatrixCell, ZoteroStatus, SyncResult
+    PaperWithAuthors, CreatePaperInput, Folder, Node, Tag, CodebookTemplate, Annotation,
+    AnnotationWithContext, MatrixData, MatrixAnnotation, MatrixExportFormat, MatrixExportOptions,
+    ImportPreview, ImportOptions, ImportResult, ReferenceExportFormat, ReferenceExportScope,
+    Memo, MemoSummary, MemoBacklink, ScreeningStage, ScreeningRecord, ScreeningProgress, ScreeningDecision,
+    SetScreeningDecisionInput, ExclusionReason, ScreeningAgreement, ScreeningResolution, ScreeningMergeResult, Reviewer,
+    DuplicateGroup, SearchSource, SearchSourceKind, PrismaFlow, PrismaDiagram, PrismaExportFormat,
+    RobToolDefinition, RobAssessment, RobPlotKind, RobPlot,
+    ExtractionForm, ExtractionFieldInput, ExtractionArm, ExtractionValue, ExtractionValueInput, PaperExtraction,
+    MetaAnalysis, MetaAnalysisInput, MetaStudy, MetaStudyInput, MetaCsvImportResult, MetaResult, MetaPlotKind, MetaPlot,
+    GradeDefinitions, GradeAssessment, GradeOutcomeUpdate, GradeStudyDesign, SofHeader, SofTable, SofExportFormat,
+    SearchScope, SearchFilters, PaperSearchResponse, UnifiedSearchResponse, ZoteroStatus, ZoteroLibrary, ZoteroRemoval, ZoteroRemovalDecision,
+    ZoteroConflict, ZoteroConflictChoice, SyncedField, WriteBackOptions,
+    ZoteroAnnotationRule, ZoteroAnnotationRuleInput, SyncResult
 } from '../renderer/src/types'
 
 export interface Project {
@@ -14,7 +25,7 @@ export interface ThreadMedAPI {
     projects: {
         list: () => Promise<Project[]>
         active: () => Promise<Project | null>
-        new: () => Promise<Project | null>
+        new: (templateId?: string) => Promise<Project | null>
         open: () => Promise<Project | null>
         openRecent: (path: string) => Promise<Project>
         delete: (path: string) => Promise<void>
@@ -27,13 +38,19 @@ export interface ThreadMedAPI {
         get: (id: string) => Promise<PaperWithAuthors | null>
         create: (input: CreatePaperInput) => Promise<PaperWithAuthors>
         count: () => Promise<number>
-        search: (query: string, limit?: number) => Promise<Array<{ id: string, title: string, snippet: string, rank: number }>>
         updateFullText: (id: string, text: string) => Promise<void>
         delete: (id: string) => Promise<void>
-        update: (id: string, updates: Partial<CreatePaperInput>) => Promise<void>
+        update: (id: string, updates: Partial<CreatePaperInput>) => Promise<PaperWithAuthors>
         addPdf: (id: string, sourcePath: string) => Promise<string>
         removePdf: (id: string) => Promise<void>
         readPdf: (id: string) => Promise<Buffer | null>
+        listArchived: () => Promise<PaperWithAuthors[]>
+        setArchived: (id: string, archived: boolean) => Promise<void>
+    }
+    duplicates: {
+        find: () => Promise<DuplicateGroup[]>
+        merge: (canonicalId: string, duplicateIds: string[]) => Promise<PaperWithAuthors>
+        dismiss: (paperIds: string[]) => Promise<void>
     }
     folders: {
         list: () => Promise<Folder[]>
@@ -47,10 +64,17 @@ export interface ThreadMedAPI {
     }
     nodes: {
         list: () => Promise<Node[]>
-        create: (name: string, color?: string) => Promise<Node>
+        create: (name: string, color?: string, parentId?: string | null) => Promise<Node>
         update: (id: string, updates: { name?: string; color?: string }) => Promise<void>
+        /** `index` is the position among the new siblings; the end when omitted */
+        move: (id: string, parentId: string | null, index?: number) => Promise<Node>
         delete: (id: string) => Promise<void>
     }
+    codebook: {
+        templates: () => Promise<CodebookTemplate[]>
+        saveTemplate: (name: string, description?: string) => Promise<CodebookTemplate>
+        deleteTemplate: (id: string) => Promise<void>
+    }
     tags: {
         forNode: (nodeId: string) => Promise<Tag[]>
         findOrCreate: (nodeId: string, name: string) => Promise<Tag>
@@ -61,11 +85,142 @@ export interface ThreadMedAPI {
         create: (input: import('../renderer/src/types').CreateAnnotationInput) => Promise<Annotation>
         forPaper: (paperId: string) => Promise<AnnotationWithContext[]>
         forNode: (nodeId: string) => Promise<AnnotationWithContext[]>
-        matrix: () => Promise<MatrixCell[]>
+        matrix: () => Promise<MatrixData>
+        matrixDetail: (nodeId?: string) => Promise<MatrixAnnotation[]>
         delete: (id: string) => Promise<void>
         updateTag: (annotationId: string, tagId: string | null) => Promise<Annotation | null>
         updateContent: (annotationId: string, content: string, rectsJson: string, pageNumber: number) => Promise<Annotation | null>
     }
+    memos: {
+        list: () => Promise<MemoSummary[]>
+        get: (id: string) => Promise<Memo | null>
+        create: (title?: string, content?: string) => Promise<Memo>
+        update: (id: string, updates: { title?: string; content?: string }) => Promise<Memo | null>
+        delete: (id: string) => Promise<boolean>
+        references: (memoId: string) => Promise<AnnotationWithContext[]>
+        backlinksForPaper: (paperId: string) => Promise<MemoBacklink[]>
+        backlinksForNode: (nodeId: string) => Promise<MemoBacklink[]>
+        backlinksForAnnotation: (annotationId: string) => Promise<MemoBacklink[]>
+    }
+    screening: {
+        queue: (stage: ScreeningStage) => Promise<ScreeningRecord[]>
+        progress: (stage: ScreeningStage) => Promise<ScreeningProgress>
+        /** Ids of the papers finally included at full text */
+        included: () => Promise<string[]>
+        decide: (input: SetScreeningDecisionInput) => Promise<ScreeningDecision>
+        clear: (paperId: string, stage: ScreeningStage) => Promise<boolean>
+        reasons: () => Promise<ExclusionReason[]>
+        createReason: (name: string) => Promise<ExclusionReason>
+        renameReason: (id: string, name: string) => Promise<ExclusionReason | null>
+        deleteReason: (id: string) => Promise<boolean>
+        agreement: (stage: ScreeningStage) => Promise<ScreeningAgreement>
+        resolve: (input: SetScreeningDecisionInput) => Promise<ScreeningResolution>
+        clearResolution: (paperId: string, stage: ScreeningStage) => Promise<boolean>
+        merge: () => Promise<ScreeningMergeResult | null>
+    }
+    reviewers: {
+        list: () => Promise<Reviewer[]>
+        active: () => Promise<Reviewer>
+        setActive: (id: string) => Promise<Reviewer>
+        create: (name: string) => Promise<Reviewer>
+        rename: (id: string, name: string) => Promise<Reviewer | null>
+        delete: (id: string) => Promise<boolean>
+    }
+    prisma: {
+        flow: () => Promise<PrismaFlow>
+        diagram: () => Promise<PrismaDiagram>
+        /** Returns the saved file path, or null if the dialog was cancelled */
+        export: (format: PrismaExportFormat) => Promise<string | null>
+        sources: () => Promise<SearchSource[]>
+        createSource: (name: string, kind?: SearchSourceKind) => Promise<SearchSource>
+        updateSource: (id: string, data: { name?: string; kind?: SearchSourceKind }) => Promise<SearchSource | null>
+        deleteSource: (id: string) => Promise<boolean>
+        /** Attribute every paper without a recorded source; returns how many were assigned */
+        assignUnsourced: (sourceId: string) => Promise<number>
+    }
+    rob: {
+        tools: () => Promise<RobToolDefinition[]>
+        list: (tool?: string) => Promise<RobAssessment[]>
+        get: (id: string) => Promise<RobAssessment | null>
+        create: (paperId: string, tool: string, outcome?: string) => Promise<RobAssessment>
+        update: (id: string, data: { outcome?: string; overall_override?: string | null; notes?: string }) => Promise<RobAssessment>
+        delete: (id: string) => Promise<boolean>
+        /** Null clears the answer */
+        setAnswer: (id: string, questionId: string, answer: string | null) => Promise<RobAssessment>
+        setDomain: (id: string, domainId: string, data: { judgement_override?: string | null; support?: string }) => Promise<RobAssessment>
+        addEvidence: (id: string, domainId: string, annotationId: string) => Promise<RobAssessment>
+        removeEvidence: (id: string, domainId: string, annotationId: string) => Promise<RobAssessment>
+        plot: (kind: RobPlotKind, tool: string) => Promise<RobPlot>
+        /** Returns the saved file path, or null if the dialog was cancelled */
+        exportPlot: (kind: RobPlotKind, tool: string, format: PrismaExportFormat) => Promise<string | null>
+    }
+    extraction: {
+        forms: () => Promise<ExtractionForm[]>
+        createForm: (name: string, description?: string) => Promise<ExtractionForm>
+        updateForm: (id: string, data: { name?: string; description?: string }) => Promise<ExtractionForm | null>
+        /** Deletes the form's fields and every value extracted with them */
+        deleteForm: (id: string) => Promise<boolean>
+        createField: (formId: string, input: ExtractionFieldInput) => Promise<ExtractionForm>
+        updateField: (id: string, data: Partial<Omit<ExtractionFieldInput, 'parent_id'>>) => Promise<ExtractionForm>
+        moveField: (id: string, direction: 'up' | 'down') => Promise<ExtractionForm>
+        deleteField: (id: string) => Promise<ExtractionForm | null>
+        forPaper: (paperId: string) => Promise<PaperExtraction>
+        createArm: (paperId: string, label: string) => Promise<ExtractionArm>
+        renameArm: (id: string, label: string) => Promise<ExtractionArm | null>
+        deleteArm: (id: string) => Promise<boolean>
+        /** Returns null once the value and its citation are both cleared */
+        setValue: (input: ExtractionValueInput) => Promise<ExtractionValue | null>
+    }
+    meta: {
+        list: () => Promise<MetaAnalysis[]>
+        create: (input: MetaAnalysisInput) => Promise<MetaAnalysis>
+        /** The outcome type is fixed once the analysis exists */
+        update: (id: string, data: Partial<Omit<MetaAnalysisInput, 'outcome_type'>>) => Promise<MetaAnalysis>
+        delete: (id: string) => Promise<boolean>
+        studies: (analysisId: string) => Promise<MetaStudy[]>
+        addStudy: (analysisId: string, input: MetaStudyInput) => Promise<MetaStudy>
+        /** Skips papers already in the analysis */
+        addPapers: (analysisId: string, paperIds: string[]) => Promise<MetaStudy[]>
+        updateStudy: (id: string, data: Partial<MetaStudyInput>) => Promise<MetaStudy>
+        deleteStudy: (id: string) => Promise<boolean>
+        /** Returns null if the dialog was cancelled */
+        importCsv: (analysisId: string) => Promise<MetaCsvImportResult | null>
+        results: (analysisId: string) => Promise<MetaResult>
+        plot: (kind: MetaPlotKind, analysisId: string) => Promise<MetaPlot>
+        /** Returns the saved file path, or null if the dialog was cancelled */
+        exportPlot: (kind: MetaPlotKind, analysisId: string, format: PrismaExportFormat) => Promise<string | null>
+    }
+    grade: {
+        domains: () => Promise<GradeDefinitions>
+        /** Outcomes in Summary of Findings order, with their derived certainty */
+        list: () => Promise<GradeAssessment[]>
+        get: (id: string) => Promise<GradeAssessment | null>
+        create: (name: string, studyDesign?: GradeStudyDesign) => Promise<GradeAssessment>
+        update: (id: string, data: GradeOutcomeUpdate) => Promise<GradeAssessment>
+        move: (id: string, direction: 'up' | 'down') => Promise<GradeAssessment[]>
+        delete: (id: string) => Promise<boolean>
+        setDomain: (id: string, domainId: string, data: { rating?: number; rationale?: string }) => Promise<GradeAssessment>
+        addEvidence: (id: string, domainId: string, annotationId: string) => Promise<GradeAssessment>
+        removeEvidence: (id: string, domainId: string, annotationId: string) => Promise<GradeAssessment>
+        header: () => Promise<SofHeader>
+        setHeader: (data: Partial<SofHeader>) => Promise<SofHeader>
+        sof: () => Promise<SofTable>
+        /** Returns the saved file path, or null if the dialog was cancelled */
+        exportSof: (format: SofExportFormat) => Promise<string | null>
+    }
+    search: {
+        library: (query: string, scope?: SearchScope, filters?: SearchFilters) => Promise<PaperSearchResponse>
+        everything: (query: string) => Promise<UnifiedSearchResponse>
+    }
+    import: {
+        chooseFile: () => Promise<ImportPreview | null>
+        preview: (filePath: string) => Promise<ImportPreview>
+        commit: (filePath: string, options?: ImportOptions) => Promise<ImportResult>
+    }
+    export: {
+        matrix: (format: MatrixExportFormat, options?: MatrixExportOptions) => Promise<string | null>
+        references: (format: ReferenceExportFormat, scope: ReferenceExportScope) => Promise<string | null>
+    }
     system: {
         getDbPath: () => Promise<string>
         getPdfDir: () => Promise<string>
@@ -83,7 +238,17 @@ export interface ThreadMedAPI {
         connect: (apiKey: string, userId: string) => Promise<{ valid: boolean; totalItems: number; error?: string }>
         disconnect: () => Promise<void>
         status: () => Promise<ZoteroStatus>
+        libraries: () => Promise<ZoteroLibrary[]>
+        setLibraries: (libraries: ZoteroLibrary[]) => Promise<void>
         sync: () => Promise<SyncResult>
+        removals: () => Promise<ZoteroRemoval[]>
+        resolveRemovals: (decisions: ZoteroRemovalDecision[]) => Promise<void>
+        conflicts: () => Promise<ZoteroConflict[]>
+        resolveConflict: (paperId: string, field: SyncedField, choice: ZoteroConflictChoice) => Promise<void>
+        setWriteBack: (options: Partial<WriteBackOptions>) => Promise<void>
+        annotationRules: () => Promise<ZoteroAnnotationRule[]>
+        saveAnnotationRule: (input: ZoteroAnnotationRuleInput) => Promise<ZoteroAnnotationRule>
+        deleteAnnotationRule: (id: string) => Promise<void>
         onSyncProgress: (callback: (progress: unknown) => void) => void
         offSyncProgress: () => void
     }
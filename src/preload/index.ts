@@ -13,7 +13,7 @@ const api = {
     projects: {
         list: () => ipcRenderer.invoke('projects:list'),
         active: () => ipcRenderer.invoke('projects:active'),
-        new: () => ipcRenderer.invoke('projects:new'),
+        new: (templateId?: string) => ipcRenderer.invoke('projects:new', templateId),
         open: () => ipcRenderer.invoke('projects:open'),
         openRecent: (path: string) => ipcRenderer.invoke('projects:openRecent', path),
         delete: (path: string) => ipcRenderer.invoke('projects:delete', path),
@@ -45,13 +45,22 @@ const api = {
             authors?: string[]
         }) => ipcRenderer.invoke('papers:create', input),
         count: () => ipcRenderer.invoke('papers:count'),
-        search: (query: string, limit?: number) => ipcRenderer.invoke('papers:search', query, limit),
         updateFullText: (id: string, text: string) => ipcRenderer.invoke('papers:updateFullText', id, text),
         delete: (id: string) => ipcRenderer.invoke('papers:delete', id),
         update: (id: string, updates: unknown) => ipcRenderer.invoke('papers:update', id, updates),
         addPdf: (id: string, sourcePath: string) => ipcRenderer.invoke('papers:addPdf', id, sourcePath),
         removePdf: (id: string) => ipcRenderer.invoke('papers:removePdf', id),
-        readPdf: (id: string) => ipcRenderer.invoke('papers:readPdf', id) as Promise<Buffer | null>
+        readPdf: (id: string) => ipcRenderer.invoke('papers:readPdf', id) as Promise<Buffer | null>,
+        listArchived: () => ipcRenderer.invoke('papers:listArchived'),
+        setArchived: (id: string, archived: boolean) => ipcRenderer.invoke('papers:setArchived', id, archived)
+    },
+
+    // ── Duplicates ─────────────────────────────────────────────────────────
+    duplicates: {
+        find: () => ipcRenderer.invoke('duplicates:find'),
+        merge: (canonicalId: string, duplicateIds: string[]) =>
+            ipcRenderer.invoke('duplicates:merge', canonicalId, duplicateIds),
+        dismiss: (paperIds: string[]) => ipcRenderer.invoke('duplicates:dismiss', paperIds)
     },
 
     // ── Folders ────────────────────────────────────────────────────────────
@@ -69,12 +78,23 @@ const api = {
     // ── Nodes ──────────────────────────────────────────────────────────────
     nodes: {
         list: () => ipcRenderer.invoke('nodes:list'),
-        create: (name: string, color?: string) => ipcRenderer.invoke('nodes:create', name, color),
+        create: (name: string, color?: string, parentId?: string | null) =>
+            ipcRenderer.invoke('nodes:create', name, color, parentId),
         update: (id: string, updates: { name?: string; color?: string }) =>
             ipcRenderer.invoke('nodes:update', id, updates),
+        move: (id: string, parentId: string | null, index?: number) =>
+            ipcRenderer.invoke('nodes:move', id, parentId, index),
         delete: (id: string) => ipcRenderer.invoke('nodes:delete', id)
     },
 
+    // ── Codebook Templates ─────────────────────────────────────────────────
+    codebook: {
+        templates: () => ipcRenderer.invoke('codebook:templates'),
+        saveTemplate: (name: string, description?: string) =>
+            ipcRenderer.invoke('codebook:saveTemplate', name, description),
+        deleteTemplate: (id: string) => ipcRenderer.invoke('codebook:deleteTemplate', id)
+    },
+
     // ── Annotations ────────────────────────────────────────────────────────
     annotations: {
         create: (input: {
@@ -89,6 +109,7 @@ const api = {
         forPaper: (paperId: string) => ipcRenderer.invoke('annotations:forPaper', paperId),
         forNode: (nodeId: string) => ipcRenderer.invoke('annotations:forNode', nodeId),
         matrix: () => ipcRenderer.invoke('annotations:matrix'),
+        matrixDetail: (nodeId?: string) => ipcRenderer.invoke('annotations:matrixDetail', nodeId),
         delete: (id: string) => ipcRenderer.invoke('annotations:delete', id),
         updateTag: (annotationId: string, tagId: string | null) =>
             ipcRenderer.invoke('annotations:updateTag', annotationId, tagId),
@@ -106,6 +127,154 @@ const api = {
         delete: (id: string) => ipcRenderer.invoke('tags:delete', id)
     },
 
+    // ── Memos ──────────────────────────────────────────────────────────────
+    memos: {
+        list: () => ipcRenderer.invoke('memos:list'),
+        get: (id: string) => ipcRenderer.invoke('memos:get', id),
+        create: (title?: string, content?: string) => ipcRenderer.invoke('memos:create', title, content),
+        update: (id: string, updates: { title?: string; content?: string }) =>
+            ipcRenderer.invoke('memos:update', id, updates),
+        delete: (id: string) => ipcRenderer.invoke('memos:delete', id),
+        references: (memoId: string) => ipcRenderer.invoke('memos:references', memoId),
+        backlinksForPaper: (paperId: string) => ipcRenderer.invoke('memos:backlinksForPaper', paperId),
+        backlinksForNode: (nodeId: string) => ipcRenderer.invoke('memos:backlinksForNode', nodeId),
+        backlinksForAnnotation: (annotationId: string) =>
+            ipcRenderer.invoke('memos:backlinksForAnnotation', annotationId)
+    },
+
+    // ── Screening ──────────────────────────────────────────────────────────
+    screening: {
+        queue: (stage: string) => ipcRenderer.invoke('screening:queue', stage),
+        progress: (stage: string) => ipcRenderer.invoke('screening:progress', stage),
+        included: () => ipcRenderer.invoke('screening:included'),
+        decide: (input: any) => ipcRenderer.invoke('screening:decide', input),
+        clear: (paperId: string, stage: string) => ipcRenderer.invoke('screening:clear', paperId, stage),
+        reasons: () => ipcRenderer.invoke('screening:reasons'),
+        createReason: (name: string) => ipcRenderer.invoke('screening:createReason', name),
+        renameReason: (id: string, name: string) => ipcRenderer.invoke('screening:renameReason', id, name),
+        deleteReason: (id: string) => ipcRenderer.invoke('screening:deleteReason', id),
+        agreement: (stage: string) => ipcRenderer.invoke('screening:agreement', stage),
+        resolve: (input: any) => ipcRenderer.invoke('screening:resolve', input),
+        clearResolution: (paperId: string, stage: string) =>
+            ipcRenderer.invoke('screening:clearResolution', paperId, stage),
+        merge: () => ipcRenderer.invoke('screening:merge')
+    },
+
+    // ── Reviewers ──────────────────────────────────────────────────────────
+    reviewers: {
+        list: () => ipcRenderer.invoke('reviewers:list'),
+        active: () => ipcRenderer.invoke('reviewers:active'),
+        setActive: (id: string) => ipcRenderer.invoke('reviewers:setActive', id),
+        create: (name: string) => ipcRenderer.invoke('reviewers:create', name),
+        rename: (id: string, name: string) => ipcRenderer.invoke('reviewers:rename', id, name),
+        delete: (id: string) => ipcRenderer.invoke('reviewers:delete', id)
+    },
+
+    // ── PRISMA ─────────────────────────────────────────────────────────────
+    prisma: {
+        flow: () => ipcRenderer.invoke('prisma:flow'),
+        diagram: () => ipcRenderer.invoke('prisma:diagram'),
+        export: (format: string) => ipcRenderer.invoke('prisma:export', format),
+        sources: () => ipcRenderer.invoke('prisma:sources'),
+        createSource: (name: string, kind?: string) => ipcRenderer.invoke('prisma:createSource', name, kind),
+        updateSource: (id: string, data: any) => ipcRenderer.invoke('prisma:updateSource', id, data),
+        deleteSource: (id: string) => ipcRenderer.invoke('prisma:deleteSource', id),
+        assignUnsourced: (sourceId: string) => ipcRenderer.invoke('prisma:assignUnsourced', sourceId)
+    },
+
+    // ── Risk of Bias ───────────────────────────────────────────────────────
+    rob: {
+        tools: () => ipcRenderer.invoke('rob:tools'),
+        list: (tool?: string) => ipcRenderer.invoke('rob:list', tool),
+        get: (id: string) => ipcRenderer.invoke('rob:get', id),
+        create: (paperId: string, tool: string, outcome?: string) => ipcRenderer.invoke('rob:create', paperId, tool, outcome),
+        update: (id: string, data: any) => ipcRenderer.invoke('rob:update', id, data),
+        delete: (id: string) => ipcRenderer.invoke('rob:delete', id),
+        setAnswer: (id: string, questionId: string, answer: string | null) =>
+            ipcRenderer.invoke('rob:setAnswer', id, questionId, answer),
+        setDomain: (id: string, domainId: string, data: any) => ipcRenderer.invoke('rob:setDomain', id, domainId, data),
+        addEvidence: (id: string, domainId: string, annotationId: string) =>
+            ipcRenderer.invoke('rob:addEvidence', id, domainId, annotationId),
+        removeEvidence: (id: string, domainId: string, annotationId: string) =>
+            ipcRenderer.invoke('rob:removeEvidence', id, domainId, annotationId),
+        plot: (kind: string, tool: string) => ipcRenderer.invoke('rob:plot', kind, tool),
+        exportPlot: (kind: string, tool: string, format: string) => ipcRenderer.invoke('rob:exportPlot', kind, tool, format)
+    },
+
+    // ── Data Extraction ────────────────────────────────────────────────────
+    extraction: {
+        forms: () => ipcRenderer.invoke('extraction:forms'),
+        createForm: (name: string, description?: string) => ipcRenderer.invoke('extraction:createForm', name, description),
+        updateForm: (id: string, data: any) => ipcRenderer.invoke('extraction:updateForm', id, data),
+        deleteForm: (id: string) => ipcRenderer.invoke('extraction:deleteForm', id),
+        createField: (formId: string, input: any) => ipcRenderer.invoke('extraction:createField', formId, input),
+        updateField: (id: string, data: any) => ipcRenderer.invoke('extraction:updateField', id, data),
+        moveField: (id: string, direction: string) => ipcRenderer.invoke('extraction:moveField', id, direction),
+        deleteField: (id: string) => ipcRenderer.invoke('extraction:deleteField', id),
+        forPaper: (paperId: string) => ipcRenderer.invoke('extraction:forPaper', paperId),
+        createArm: (paperId: string, label: string) => ipcRenderer.invoke('extraction:createArm', paperId, label),
+        renameArm: (id: string, label: string) => ipcRenderer.invoke('extraction:renameArm', id, label),
+        deleteArm: (id: string) => ipcRenderer.invoke('extraction:deleteArm', id),
+        setValue: (input: any) => ipcRenderer.invoke('extraction:setValue', input)
+    },
+
+    // ── Meta-Analysis ──────────────────────────────────────────────────────
+    meta: {
+        list: () => ipcRenderer.invoke('meta:list'),
+        create: (input: any) => ipcRenderer.invoke('meta:create', input),
+        update: (id: string, data: any) => ipcRenderer.invoke('meta:update', id, data),
+        delete: (id: string) => ipcRenderer.invoke('meta:delete', id),
+        studies: (analysisId: string) => ipcRenderer.invoke('meta:studies', analysisId),
+        addStudy: (analysisId: string, input: any) => ipcRenderer.invoke('meta:addStudy', analysisId, input),
+        addPapers: (analysisId: string, paperIds: string[]) => ipcRenderer.invoke('meta:addPapers', analysisId, paperIds),
+        updateStudy: (id: string, data: any) => ipcRenderer.invoke('meta:updateStudy', id, data),
+        deleteStudy: (id: string) => ipcRenderer.invoke('meta:deleteStudy', id),
+        importCsv: (analysisId: string) => ipcRenderer.invoke('meta:importCsv', analysisId),
+        results: (analysisId: string) => ipcRenderer.invoke('meta:results', analysisId),
+        plot: (kind: string, analysisId: string) => ipcRenderer.invoke('meta:plot', kind, analysisId),
+        exportPlot: (kind: string, analysisId: string, format: string) => ipcRenderer.invoke('meta:exportPlot', kind, analysisId, format)
+    },
+
+    // ── GRADE ──────────────────────────────────────────────────────────────
+    grade: {
+        domains: () => ipcRenderer.invoke('grade:domains'),
+        list: () => ipcRenderer.invoke('grade:list'),
+        get: (id: string) => ipcRenderer.invoke('grade:get', id),
+        create: (name: string, studyDesign?: string) => ipcRenderer.invoke('grade:create', name, studyDesign),
+        update: (id: string, data: any) => ipcRenderer.invoke('grade:update', id, data),
+        move: (id: string, direction: string) => ipcRenderer.invoke('grade:move', id, direction),
+        delete: (id: string) => ipcRenderer.invoke('grade:delete', id),
+        setDomain: (id: string, domainId: string, data: any) => ipcRenderer.invoke('grade:setDomain', id, domainId, data),
+        addEvidence: (id: string, domainId: string, annotationId: string) =>
+            ipcRenderer.invoke('grade:addEvidence', id, domainId, annotationId),
+        removeEvidence: (id: string, domainId: string, annotationId: string) =>
+            ipcRenderer.invoke('grade:removeEvidence', id, domainId, annotationId),
+        header: () => ipcRenderer.invoke('grade:header'),
+        setHeader: (data: any) => ipcRenderer.invoke('grade:setHeader', data),
+        sof: () => ipcRenderer.invoke('grade:sof'),
+        exportSof: (format: string) => ipcRenderer.invoke('grade:exportSof', format)
+    },
+
+    // ── Search ─────────────────────────────────────────────────────────────
+    search: {
+        library: (query: string, scope?: string, filters?: any) =>
+            ipcRenderer.invoke('search:library', query, scope, filters),
+        everything: (query: string) => ipcRenderer.invoke('search:everything', query)
+    },
+
+    // ── Import ─────────────────────────────────────────────────────────────
+    import: {
+        chooseFile: () => ipcRenderer.invoke('import:chooseFile'),
+        preview: (filePath: string) => ipcRenderer.invoke('import:preview', filePath),
+        commit: (filePath: string, options?: any) => ipcRenderer.invoke('import:commit', filePath, options)
+    },
+
+    // ── Export ─────────────────────────────────────────────────────────────
+    export: {
+        matrix: (format: string, options?: any) => ipcRenderer.invoke('export:matrix', format, options),
+        references: (format: string, scope: any) => ipcRenderer.invoke('export:references', format, scope)
+    },
+
     // ── System ─────────────────────────────────────────────────────────────
     system: {
         getDbPath: () => ipcRenderer.invoke('system:dbPath'),
@@ -133,7 +302,22 @@ const api = {
             ipcRenderer.invoke('zotero:connect', apiKey, userId),
         disconnect: () => ipcRenderer.invoke('zotero:disconnect'),
         status: () => ipcRenderer.invoke('zotero:status'),
+        libraries: () => ipcRenderer.invoke('zotero:libraries'),
+        setLibraries: (libraries: Array<{ id: string; type: 'user' | 'group'; name: string }>) =>
+            ipcRenderer.invoke('zotero:setLibraries', libraries),
         sync: () => ipcRenderer.invoke('zotero:sync'),
+        removals: () => ipcRenderer.invoke('zotero:removals'),
+        resolveRemovals: (decisions: Array<{ paperId: string; action: 'delete' | 'archive' | 'detach' }>) =>
+            ipcRenderer.invoke('zotero:resolveRemovals', decisions),
+        conflicts: () => ipcRenderer.invoke('zotero:conflicts'),
+        resolveConflict: (paperId: string, field: string, choice: 'local' | 'remote') =>
+            ipcRenderer.invoke('zotero:resolveConflict', paperId, field, choice),
+        setWriteBack: (options: { metadata?: boolean; codes?: boolean; notes?: boolean }) =>
+            ipcRenderer.invoke('zotero:setWriteBack', options),
+        annotationRules: () => ipcRenderer.invoke('zotero:annotationRules'),
+        saveAnnotationRule: (input: { match_type: 'color' | 'tag'; match_value: string; node_id: string; tag_name: string | null }) =>
+            ipcRenderer.invoke('zotero:saveAnnotationRule', input),
+        deleteAnnotationRule: (id: string) => ipcRenderer.invoke('zotero:deleteAnnotationRule', id),
         onSyncProgress: (callback: (progress: unknown) => void) => {
             ipcRenderer.on('zotero:sync-progress', (_event, progress) => callback(progress))
         },
@@ -7,6 +7,13 @@ import { ThemeProvider } from './context/ThemeContext'
 import { AppShell } from './components/layout/AppShell'
 import { LibraryView } from './components/views/LibraryView'
 import { PaperView } from './components/views/PaperView'
+import { ScreeningView } from './components/views/ScreeningView'
+import { RiskOfBiasView } from './components/views/RiskOfBiasView'
+import { MetaAnalysisView } from './components/views/MetaAnalysisView'
+import { GradeView } from './components/views/GradeView'
+import { MatrixView } from './components/views/MatrixView'
+import { SearchView } from './components/views/SearchView'
+import { MemosView } from './components/views/MemosView'
 import { SettingsView } from './components/views/SettingsView'
 import { ProjectPicker } from './components/views/ProjectPicker'
 import type { ViewId } from './types'
@@ -22,6 +29,10 @@ function App() {
     const [projectLoading, setProjectLoading] = useState(true)
     const [activeView, setActiveView] = useState<ViewId>('library')
     const [selectedPaperId, setSelectedPaperId] = useState<string | null>(null)
+    const [focusAnnotationId, setFocusAnnotationId] = useState<string | null>(null)
+    const [focusPage, setFocusPage] = useState<number | null>(null)
+    const [matrixFocusNodeId, setMatrixFocusNodeId] = useState<string | null>(null)
+    const [focusMemoId, setFocusMemoId] = useState<string | null>(null)
     const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null)
 
     // On mount, check if a project was auto-opened by the main process
@@ -80,36 +91,97 @@ function App() {
                         onNavigate={(view) => setActiveView(view as ViewId)}
                     />
                 )
+            case 'screening':
+                return (
+                    <ScreeningView
+                        onOpenPaper={(id) => { setSelectedPaperId(id); setActiveView('paper') }}
+                    />
+                )
+            case 'bias':
+                return (
+                    <RiskOfBiasView
+                        onOpenAnnotation={(paperId, annotationId) => {
+                            setSelectedPaperId(paperId)
+                            setFocusAnnotationId(annotationId)
+                            setActiveView('paper')
+                        }}
+                    />
+                )
+            case 'meta':
+                return <MetaAnalysisView />
+            case 'grade':
+                return (
+                    <GradeView
+                        onOpenAnnotation={(paperId, annotationId) => {
+                            setSelectedPaperId(paperId)
+                            setFocusAnnotationId(annotationId)
+                            setActiveView('paper')
+                        }}
+                    />
+                )
             case 'matrix':
                 return (
-                    <div className="flex items-center justify-center h-full text-[var(--color-text-tertiary)]">
-                        <div className="text-center space-y-2">
-                            <p className="text-lg font-medium text-[var(--color-text-secondary)]">Synthesis Matrix</p>
-                            <p className="text-sm">The EBM Matrix will be built in Phase 4</p>
-                        </div>
-                    </div>
+                    <MatrixView
+                        focusNodeId={matrixFocusNodeId}
+                        onOpenAnnotation={(paperId, annotationId) => {
+                            setSelectedPaperId(paperId)
+                            setFocusAnnotationId(annotationId)
+                            setActiveView('paper')
+                        }}
+                    />
                 )
             case 'search':
                 return (
-                    <div className="flex items-center justify-center h-full text-[var(--color-text-tertiary)]">
-                        <div className="text-center space-y-2">
-                            <p className="text-lg font-medium text-[var(--color-text-secondary)]">Global Search</p>
-                            <p className="text-sm">FTS5-powered search will be built in Phase 4</p>
-                        </div>
-                    </div>
+                    <SearchView
+                        onOpenResult={(paperId, page) => {
+                            setSelectedPaperId(paperId)
+                            setFocusPage(page)
+                            setActiveView('paper')
+                        }}
+                        onOpenAnnotation={(paperId, annotationId) => {
+                            setSelectedPaperId(paperId)
+                            setFocusAnnotationId(annotationId)
+                            setActiveView('paper')
+                        }}
+                        onOpenTag={(nodeId) => {
+                            setMatrixFocusNodeId(nodeId)
+                            setActiveView('matrix')
+                        }}
+                        onOpenMemo={(memoId) => {
+                            setFocusMemoId(memoId)
+                            setActiveView('memos')
+                        }}
+                    />
                 )
             case 'memos':
                 return (
-                    <div className="flex items-center justify-center h-full text-[var(--color-text-tertiary)]">
-                        <div className="text-center space-y-2">
-                            <p className="text-lg font-medium text-[var(--color-text-secondary)]">Memos</p>
-                            <p className="text-sm">Markdown memo editor will be built in Phase 5</p>
-                        </div>
-                    </div>
+                    <MemosView
+                        focusMemoId={focusMemoId}
+                        onOpenAnnotation={(paperId, annotationId) => {
+                            setSelectedPaperId(paperId)
+                            setFocusAnnotationId(annotationId)
+                            setActiveView('paper')
+                        }}
+                    />
                 )
             case 'paper':
                 return selectedPaperId
-                    ? <PaperView paperId={selectedPaperId} onBack={() => setActiveView('library')} />
+                    ? (
+                        <PaperView
+                            paperId={selectedPaperId}
+                            focusAnnotationId={focusAnnotationId}
+                            focusPage={focusPage}
+                            onFocusHandled={() => {
+                                setFocusAnnotationId(null)
+                                setFocusPage(null)
+                            }}
+                            onOpenMemo={(memoId) => {
+                                setFocusMemoId(memoId)
+                                setActiveView('memos')
+                            }}
+                            onBack={() => setActiveView('library')}
+                        />
+                    )
                     : null
             case 'settings':
                 return <SettingsView />
@@ -143,6 +215,8 @@ function App() {
             <AppShell
                 activeView={activeView}
                 onViewChange={(view) => {
+                    setMatrixFocusNodeId(null)
+                    setFocusMemoId(null)
                     setActiveView(view)
                 }}
                 selectedPaperId={selectedPaperId}
@@ -12,6 +12,9 @@ import { Sidebar } from './Sidebar'
 import { StatusBar } from './StatusBar'
 import type { ViewId } from '@/types'
 
+/** Views that need the full content width and hide the detail pane */
+const FULL_WIDTH_VIEWS: ViewId[] = ['paper', 'screening', 'bias', 'meta', 'grade', 'matrix', 'memos']
+
 interface AppShellProps {
     activeView: ViewId
     onViewChange: (view: ViewId) => void
@@ -50,6 +53,10 @@ export function AppShell({
 
     const viewTitles: Record<ViewId, string> = {
         library: 'Library',
+        screening: 'Screening',
+        bias: 'Risk of Bias',
+        meta: 'Meta-Analysis',
+        grade: 'GRADE',
         matrix: 'Synthesis Matrix',
         search: 'Global Search',
         memos: 'Memos',
@@ -116,7 +123,7 @@ export function AppShell({
                         </div>
                     </Panel>
 
-                    {activeView !== 'paper' && (
+                    {!FULL_WIDTH_VIEWS.includes(activeView) && (
                         <>
                             <PanelResizeHandle className="w-[1px] bg-[var(--color-border-subtle)] hover:bg-[var(--color-accent)] active:bg-[var(--color-accent)] transition-colors duration-150" />
 
@@ -5,6 +5,10 @@
 import { useState, useEffect } from 'react'
 import {
     Library,
+    ListChecks,
+    ShieldCheck,
+    Sigma,
+    Gauge,
     Grid3X3,
     Search,
     StickyNote,
@@ -19,11 +23,11 @@ import {
     Moon,
     Trash2
 } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { cn, remoteErrorMessage, citedAnnotationsWarning } from '@/lib/utils'
 import { useTheme } from '@/context/ThemeContext'
 import { triggerDataRefresh, useDataRefresh } from '@/lib/events'
-import { Folder as FolderIcon } from 'lucide-react'
-import { getTreeDepth, isDescendant, getPathDepth } from '@/lib/dnd'
+import { Folder as FolderIcon, FolderSync } from 'lucide-react'
+import { getTreeDepth, isDescendant, getPathDepth, getDropPosition, type DropPosition } from '@/lib/dnd'
 import type { ViewId, Node, Paper, PaperWithAuthors, Folder } from '@/types'
 
 interface SidebarProps {
@@ -120,8 +124,8 @@ function FolderNode({
     const isExpanded = expandedFolders[node.id]
     const folderPaperIds = folderPapersMap[node.id] || []
     const folderPapers = papers.filter(p => folderPaperIds.includes(p.id))
-
-
+    // Folders mirroring a Zotero collection are rebuilt on every sync
+    const NodeIcon = node.zotero_key ? FolderSync : FolderIcon
 
     return (
         <div className="space-y-0.5">
@@ -217,14 +221,15 @@ function FolderNode({
                         <div className="w-1 h-1 rounded-full bg-current opacity-30" />
                     )}
                 </div>
-                <FolderIcon size={12} className={cn("shrink-0", selectedFolderId === node.id ? "text-[var(--color-accent)]" : "opacity-40")} />
-                <span className="truncate flex-1">{node.name}</span>
+                <NodeIcon size={12} className={cn("shrink-0", selectedFolderId === node.id ? "text-[var(--color-accent)]" : "opacity-40")} />
+                <span className="truncate flex-1" title={node.zotero_key ? `${node.name} (Zotero collection)` : undefined}>{node.name}</span>
 
                 <div
                     className="opacity-0 group-hover:opacity-100 p-1 hover:bg-red-500/20 hover:text-red-500 rounded transition-all shrink-0 text-[var(--color-text-tertiary)]"
                     onClick={async (e) => {
                         e.stopPropagation()
-                        if (window.confirm(`Are you sure you want to delete the folder "${node.name}"?\nPapers inside the folder will NOT be deleted.`)) {
+                        const syncNote = node.zotero_key ? '\nThis folder mirrors a Zotero collection and will be recreated on the next sync.' : ''
+                        if (window.confirm(`Are you sure you want to delete the folder "${node.name}"?\nPapers inside the folder will NOT be deleted.${syncNote}`)) {
                             await window.api.folders.delete(node.id)
                             if (selectedFolderId === node.id) {
                                 onFolderSelect(null)
@@ -311,6 +316,234 @@ function FolderNode({
 
 
 
+// ── Recursive Codebook Node Component ───────────────────────────────────────
+
+interface CodeTreeNode extends Node {
+    children: CodeTreeNode[]
+}
+
+interface CodeNodeProps {
+    node: CodeTreeNode
+    level: number
+    allNodes: Node[]
+    collapsedNodes: Record<string, boolean>
+    setCollapsedNodes: React.Dispatch<React.SetStateAction<Record<string, boolean>>>
+    dragOverNodeId: string | null
+    setDragOverNodeId: (id: string | null) => void
+    /** Parent the inline "new node" input is open under (null = root, undefined = closed) */
+    creatingNodeUnder: string | null | undefined
+    setCreatingNodeUnder: (parentId: string | null | undefined) => void
+    onCreateNode: (name: string, parent: Node | null) => Promise<void>
+    onViewChange: (view: ViewId) => void
+    loadData: () => Promise<void>
+}
+
+function CodeNode({
+    node,
+    level,
+    allNodes,
+    collapsedNodes,
+    setCollapsedNodes,
+    dragOverNodeId,
+    setDragOverNodeId,
+    creatingNodeUnder,
+    setCreatingNodeUnder,
+    onCreateNode,
+    onViewChange,
+    loadData
+}: CodeNodeProps) {
+    const isExpanded = !collapsedNodes[node.id]
+    const [dropPosition, setDropPosition] = useState<DropPosition>('inside')
+
+    /** Place the dragged node next to this one, among this node's siblings */
+    const moveBeside = async (draggedNodeId: string, after: boolean) => {
+        if (node.parent_id && isDescendant(allNodes, node.parent_id, draggedNodeId)) {
+            alert('Cannot drop a node into itself or one of its sub-nodes.')
+            return
+        }
+        // allNodes is in sort order, so this matches the order moveNode renumbers
+        const siblings = allNodes.filter(n => n.parent_id === node.parent_id && n.id !== draggedNodeId)
+        const index = siblings.findIndex(n => n.id === node.id) + (after ? 1 : 0)
+        await window.api.nodes.move(draggedNodeId, node.parent_id, index)
+    }
+
+    return (
+        <div className="space-y-0.5">
+            <button
+                draggable
+                onDragStart={(e) => {
+                    e.stopPropagation()
+                    e.dataTransfer.setData('application/threadmed-node', node.id)
+                }}
+                onDragOver={(e) => {
+                    if (e.dataTransfer.types.includes('application/threadmed-node')) {
+                        e.preventDefault()
+                        e.stopPropagation()
+                        e.dataTransfer.dropEffect = 'move'
+                        setDropPosition(getDropPosition(e.clientY, e.currentTarget.getBoundingClientRect()))
+                        setDragOverNodeId(node.id)
+                    }
+                }}
+                onDragLeave={() => setDragOverNodeId(null)}
+                onDrop={async (e) => {
+                    e.preventDefault()
+                    e.stopPropagation()
+                    setDragOverNodeId(null)
+
+                    const draggedNodeId = e.dataTransfer.getData('application/threadmed-node')
+                    if (!draggedNodeId || draggedNodeId === node.id) return
+                    const position = getDropPosition(e.clientY, e.currentTarget.getBoundingClientRect())
+
+                    try {
+                        if (position !== 'inside') {
+                            await moveBeside(draggedNodeId, position === 'after')
+                            loadData()
+                            triggerDataRefresh()
+                            return
+                        }
+
+                        // Dropping onto its current parent changes nothing
+                        if (allNodes.find(n => n.id === draggedNodeId)?.parent_id === node.id) return
+                        if (isDescendant(allNodes, node.id, draggedNodeId)) {
+                            alert('Cannot drop a node into itself or one of its sub-nodes.')
+                            return
+                        }
+
+                        await window.api.nodes.move(draggedNodeId, node.id)
+                        setCollapsedNodes(prev => ({ ...prev, [node.id]: false }))
+                        loadData()
+                        triggerDataRefresh()
+                    } catch (err) {
+                        console.error('[CodeNode onDrop] Error moving node:', err)
+                        alert(remoteErrorMessage(err))
+                    }
+                }}
+                onClick={() => onViewChange('matrix')}
+                className={cn(
+                    'flex items-center gap-2 w-full py-1.5 rounded-lg text-[12px] transition-all text-left group no-drag',
+                    dragOverNodeId === node.id && dropPosition === 'inside'
+                        ? 'bg-[var(--color-accent-subtle)] border outline-dashed outline-1 outline-[var(--color-accent)]'
+                        : 'text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)]',
+                    dragOverNodeId === node.id && dropPosition === 'before' && 'shadow-[inset_0_2px_0_var(--color-accent)]',
+                    dragOverNodeId === node.id && dropPosition === 'after' && 'shadow-[inset_0_-2px_0_var(--color-accent)]'
+                )}
+                style={{ paddingLeft: `${12 + level * 16}px`, paddingRight: '12px' }}
+            >
+                <div
+                    className="w-4 h-4 flex items-center justify-center shrink-0 opacity-40 hover:opacity-100 hover:bg-[var(--color-bg-active)] rounded transition-colors"
+                    onClick={(e) => {
+                        e.stopPropagation()
+                        setCollapsedNodes(prev => ({ ...prev, [node.id]: !prev[node.id] }))
+                    }}
+                >
+                    {node.children.length > 0 ? (
+                        isExpanded ? <ChevronDown size={11} /> : <ChevronRight size={11} />
+                    ) : (
+                        <div className="w-1 h-1 rounded-full bg-current opacity-30" />
+                    )}
+                </div>
+                <span
+                    className="w-3 h-3 rounded-full shrink-0 shadow-sm"
+                    style={{ backgroundColor: node.color }}
+                />
+                <span className="truncate flex-1">{node.name}</span>
+                {node.is_default === 1 && (
+                    <Tags size={10} className="opacity-25 shrink-0 group-hover:hidden" />
+                )}
+                {node.is_default !== 1 && (
+                    <div
+                        className="opacity-0 group-hover:opacity-100 p-1 hover:bg-red-500/20 hover:text-red-500 rounded transition-all shrink-0 text-[var(--color-text-tertiary)]"
+                        onClick={async (e) => {
+                            e.stopPropagation()
+                            try {
+                                // Deleting cascades to memo_references, so warn before breaking citations
+                                const cited = citedAnnotationsWarning(await window.api.memos.backlinksForNode(node.id))
+                                const subNodes = node.children.length > 0 ? ' Its sub-nodes move up a level.' : ''
+                                if (!window.confirm(`Delete the node "${node.name}" and the annotations coded to it?${subNodes}${cited}`)) return
+                                await window.api.nodes.delete(node.id)
+                                loadData()
+                                triggerDataRefresh()
+                            } catch (err) {
+                                console.error('[CodeNode] Failed to delete node:', err)
+                                alert(remoteErrorMessage(err))
+                            }
+                        }}
+                        title="Delete Node"
+                    >
+                        <Trash2 size={12} />
+                    </div>
+                )}
+                <div
+                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-[var(--color-accent-subtle)] hover:text-[var(--color-accent)] rounded transition-all shrink-0 text-[var(--color-text-tertiary)]"
+                    onClick={(e) => {
+                        e.stopPropagation()
+                        setCollapsedNodes(prev => ({ ...prev, [node.id]: false }))
+                        setCreatingNodeUnder(node.id)
+                    }}
+                    title="Add Sub-node"
+                >
+                    <Plus size={12} />
+                </div>
+            </button>
+
+            {isExpanded && (node.children.length > 0 || creatingNodeUnder === node.id) && (
+                <div className="space-y-0.5 mt-0.5">
+                    {node.children.map(child => (
+                        <CodeNode
+                            key={child.id}
+                            node={child}
+                            level={level + 1}
+                            allNodes={allNodes}
+                            collapsedNodes={collapsedNodes}
+                            setCollapsedNodes={setCollapsedNodes}
+                            dragOverNodeId={dragOverNodeId}
+                            setDragOverNodeId={setDragOverNodeId}
+                            creatingNodeUnder={creatingNodeUnder}
+                            setCreatingNodeUnder={setCreatingNodeUnder}
+                            onCreateNode={onCreateNode}
+                            onViewChange={onViewChange}
+                            loadData={loadData}
+                        />
+                    ))}
+                    {creatingNodeUnder === node.id && (
+                        <NewNodeInput
+                            indent={12 + (level + 1) * 16}
+                            onSubmit={name => onCreateNode(name, node)}
+                            onCancel={() => setCreatingNodeUnder(undefined)}
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+/** Inline name input for a new node; Enter creates, Escape or blur cancels */
+function NewNodeInput({ indent, onSubmit, onCancel }: { indent: number; onSubmit: (name: string) => Promise<void>; onCancel: () => void }) {
+    const [name, setName] = useState('')
+
+    return (
+        <div className="py-1 block" style={{ paddingLeft: `${indent}px`, paddingRight: '12px' }}>
+            <input
+                type="text"
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={async (e) => {
+                    if (e.key === 'Enter' && name.trim()) {
+                        await onSubmit(name.trim())
+                    } else if (e.key === 'Escape') {
+                        onCancel()
+                    }
+                }}
+                onBlur={onCancel}
+                placeholder="Node name..."
+                className="w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-md px-2 py-1 text-[12px] outline-none focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]/20"
+            />
+        </div>
+    )
+}
+
 export function Sidebar({ activeView, onViewChange, onPaperSelect, selectedPaperId, selectedFolderId, onFolderSelect, projectName, onSwitchProject }: SidebarProps) {
     const [papers, setPapers] = useState<Paper[]>([])
     const [nodes, setNodes] = useState<Node[]>([])
@@ -324,6 +557,9 @@ export function Sidebar({ activeView, onViewChange, onPaperSelect, selectedPaper
     const [isCreatingFolder, setIsCreatingFolder] = useState(false)
     const [newFolderName, setNewFolderName] = useState('')
     const [dragOverFolderId, setDragOverFolderId] = useState<string | null>(null)
+    const [collapsedNodes, setCollapsedNodes] = useState<Record<string, boolean>>({})
+    const [dragOverNodeId, setDragOverNodeId] = useState<string | null>(null)
+    const [creatingNodeUnder, setCreatingNodeUnder] = useState<string | null | undefined>(undefined)
 
     const { theme, toggleTheme } = useTheme()
 
@@ -358,6 +594,19 @@ export function Sidebar({ activeView, onViewChange, onPaperSelect, selectedPaper
         }
     }
 
+    async function handleCreateNode(name: string, parent: Node | null) {
+        try {
+            // Sub-nodes start out in their parent's colour
+            await window.api.nodes.create(name, parent?.color, parent?.id ?? null)
+            setCreatingNodeUnder(undefined)
+            loadData()
+            triggerDataRefresh()
+        } catch (err) {
+            console.error('[Sidebar] Failed to create node:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
     return (
         <div className="flex flex-col h-full bg-[var(--color-bg-surface)] select-none">
             {/* ── App Header / Drag Region ─────────────────────────────────── */}
@@ -406,6 +655,30 @@ export function Sidebar({ activeView, onViewChange, onPaperSelect, selectedPaper
                         onClick={() => onViewChange('library')}
                         badge={papers.length}
                     />
+                    <NavItem
+                        icon={<ListChecks size={16} />}
+                        label="Screening"
+                        isActive={activeView === 'screening'}
+                        onClick={() => onViewChange('screening')}
+                    />
+                    <NavItem
+                        icon={<ShieldCheck size={16} />}
+                        label="Risk of Bias"
+                        isActive={activeView === 'bias'}
+                        onClick={() => onViewChange('bias')}
+                    />
+                    <NavItem
+                        icon={<Sigma size={16} />}
+                        label="Meta-Analysis"
+                        isActive={activeView === 'meta'}
+                        onClick={() => onViewChange('meta')}
+                    />
+                    <NavItem
+                        icon={<Gauge size={16} />}
+                        label="GRADE"
+                        isActive={activeView === 'grade'}
+                        onClick={() => onViewChange('grade')}
+                    />
                     <NavItem
                         icon={<Grid3X3 size={16} />}
                         label="Synthesis Matrix"
@@ -619,35 +892,93 @@ export function Sidebar({ activeView, onViewChange, onPaperSelect, selectedPaper
                 <div>
                     <button
                         onClick={() => setNodesExpanded(!nodesExpanded)}
-                        className="flex items-center gap-2 px-1 py-1.5 text-[10px] font-semibold uppercase tracking-[0.12em] text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] transition-colors w-full no-drag"
+                        onDragOver={(e) => {
+                            if (e.dataTransfer.types.includes('application/threadmed-node')) {
+                                e.preventDefault()
+                                e.dataTransfer.dropEffect = 'move'
+                                setDragOverNodeId('root')
+                            }
+                        }}
+                        onDragLeave={() => setDragOverNodeId(null)}
+                        onDrop={async (e) => {
+                            e.preventDefault()
+                            setDragOverNodeId(null)
+
+                            // Dropping on the section header moves a node back to the root
+                            const draggedNodeId = e.dataTransfer.getData('application/threadmed-node')
+                            if (!draggedNodeId || !nodes.find(n => n.id === draggedNodeId)?.parent_id) return
+                            try {
+                                await window.api.nodes.move(draggedNodeId, null)
+                                loadData()
+                                triggerDataRefresh()
+                            } catch (err) {
+                                console.error('[Sidebar] Failed to move node:', err)
+                                alert(remoteErrorMessage(err))
+                            }
+                        }}
+                        className={cn(
+                            'flex items-center gap-2 px-1 py-1.5 text-[10px] font-semibold uppercase tracking-[0.12em] text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] transition-colors w-full no-drag rounded-lg',
+                            dragOverNodeId === 'root' && 'bg-[var(--color-accent-subtle)] outline-dashed outline-1 outline-[var(--color-accent)]'
+                        )}
+                        title="Drop a node here to move it to the top level"
                     >
                         {nodesExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
                         Nodes
                     </button>
                     {nodesExpanded && (
-                        <div className="mt-2 space-y-1">
-                            {nodes.map((node) => (
+                        <div className="mt-2 space-y-0.5">
+                            {/* Codebook Tree */}
+                            {(() => {
+                                const map = new Map<string, CodeTreeNode>()
+                                const roots: CodeTreeNode[] = []
+
+                                for (const n of nodes) {
+                                    map.set(n.id, { ...n, children: [] })
+                                }
+                                for (const n of nodes) {
+                                    const treeNode = map.get(n.id)!
+                                    if (n.parent_id && map.has(n.parent_id)) {
+                                        map.get(n.parent_id)!.children.push(treeNode)
+                                    } else {
+                                        roots.push(treeNode)
+                                    }
+                                }
+
+                                return roots.map((rootNode) => (
+                                    <CodeNode
+                                        key={rootNode.id}
+                                        node={rootNode}
+                                        level={0}
+                                        allNodes={nodes}
+                                        collapsedNodes={collapsedNodes}
+                                        setCollapsedNodes={setCollapsedNodes}
+                                        dragOverNodeId={dragOverNodeId}
+                                        setDragOverNodeId={setDragOverNodeId}
+                                        creatingNodeUnder={creatingNodeUnder}
+                                        setCreatingNodeUnder={setCreatingNodeUnder}
+                                        onCreateNode={handleCreateNode}
+                                        onViewChange={onViewChange}
+                                        loadData={loadData}
+                                    />
+                                ))
+                            })()}
+
+                            {/* Create New Root Node */}
+                            {creatingNodeUnder === null ? (
+                                <NewNodeInput
+                                    indent={12}
+                                    onSubmit={name => handleCreateNode(name, null)}
+                                    onCancel={() => setCreatingNodeUnder(undefined)}
+                                />
+                            ) : (
                                 <button
-                                    key={node.id}
-                                    onClick={() => onViewChange('matrix')}
-                                    className="flex items-center gap-3 px-4 py-2 text-[12px] text-[var(--color-text-secondary)] rounded-lg hover:bg-[var(--color-bg-hover)] transition-colors cursor-pointer w-full text-left no-drag"
+                                    onClick={() => setCreatingNodeUnder(null)}
+                                    className="flex items-center gap-3 px-4 py-2.5 text-[12px] text-[var(--color-text-tertiary)] hover:text-[var(--color-accent)] rounded-lg hover:bg-[var(--color-accent-subtle)] transition-all w-full no-drag mt-1"
                                 >
-                                    <span
-                                        className="w-3 h-3 rounded-full shrink-0 shadow-sm"
-                                        style={{ backgroundColor: node.color }}
-                                    />
-                                    <span className="truncate flex-1">{node.name}</span>
-                                    {node.is_default === 1 && (
-                                        <Tags size={10} className="opacity-25 shrink-0" />
-                                    )}
+                                    <Plus size={14} className="opacity-60" />
+                                    <span>Add Custom Node</span>
                                 </button>
-                            ))}
-                            <button
-                                className="flex items-center gap-3 px-4 py-2.5 text-[12px] text-[var(--color-text-tertiary)] hover:text-[var(--color-accent)] rounded-lg hover:bg-[var(--color-accent-subtle)] transition-all w-full no-drag mt-1"
-                            >
-                                <Plus size={14} className="opacity-60" />
-                                <span>Add Custom Node</span>
-                            </button>
+                            )}
                         </div>
                     )}
                 </div>
@@ -0,0 +1,201 @@
+// ============================================================================
+// ThreadMed — Add Studies to a Meta-Analysis
+// ============================================================================
+// Picks papers (by default among the studies included at full text) to add
+// as rows of the outcome data grid. Papers already in the analysis are
+// listed but cannot be picked again.
+// ============================================================================
+
+import { useState, useEffect, useMemo } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Plus, Search } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { MetaAnalysis, MetaStudy, PaperWithAuthors } from '@/types'
+
+interface AddMetaStudiesDialogProps {
+    isOpen: boolean
+    analysis: MetaAnalysis
+    studies: MetaStudy[]
+    onClose: () => void
+    onAdded: (studies: MetaStudy[]) => void
+}
+
+export function AddMetaStudiesDialog({ isOpen, analysis, studies, onClose, onAdded }: AddMetaStudiesDialogProps) {
+    const [papers, setPapers] = useState<PaperWithAuthors[]>([])
+    const [included, setIncluded] = useState<Set<string>>(new Set())
+    const [includedOnly, setIncludedOnly] = useState(true)
+    const [query, setQuery] = useState('')
+    const [selected, setSelected] = useState<Set<string>>(new Set())
+    const [adding, setAdding] = useState(false)
+
+    const present = useMemo(() => new Set(studies.map(s => s.paper_id)), [studies])
+
+    useEffect(() => {
+        if (!isOpen) return
+        setQuery('')
+        setSelected(new Set())
+        const load = async () => {
+            try {
+                const [allPapers, includedIds] = await Promise.all([
+                    window.api.papers.list(),
+                    window.api.screening.included()
+                ])
+                setPapers(allPapers)
+                setIncluded(new Set(includedIds))
+                setIncludedOnly(includedIds.length > 0)
+            } catch (err) {
+                console.error('[AddMetaStudiesDialog] Failed to load papers:', err)
+            }
+        }
+        load()
+    }, [isOpen])
+
+    const visible = useMemo(() => {
+        const needle = query.trim().toLowerCase()
+        return papers.filter(p =>
+            (!includedOnly || included.has(p.id))
+            && (!needle || p.title.toLowerCase().includes(needle) || p.authors.some(a => a.toLowerCase().includes(needle)))
+        )
+    }, [papers, included, includedOnly, query])
+
+    if (!isOpen) return null
+
+    const toggle = (paperId: string) => {
+        setSelected(prev => {
+            const next = new Set(prev)
+            if (next.has(paperId)) next.delete(paperId)
+            else next.add(paperId)
+            return next
+        })
+    }
+
+    const selectable = visible.filter(p => !present.has(p.id))
+    const allSelected = selectable.length > 0 && selectable.every(p => selected.has(p.id))
+
+    const handleAdd = async () => {
+        if (selected.size === 0) return
+        try {
+            setAdding(true)
+            onAdded(await window.api.meta.addPapers(analysis.id, [...selected]))
+        } catch (err) {
+            console.error('[AddMetaStudiesDialog] Failed to add studies:', err)
+            alert(remoteErrorMessage(err))
+        } finally {
+            setAdding(false)
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[85vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Add studies</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">{analysis.name}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Papers ────────────────────────────────────────────────── */}
+                <div className="px-6 pt-4 pb-2 flex items-center gap-3 shrink-0">
+                    <div className="flex-1 flex items-center gap-2 bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 focus-within:border-[var(--color-accent)]">
+                        <Search size={13} className="text-[var(--color-text-tertiary)]" />
+                        <input
+                            autoFocus
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Find a paper by title or author"
+                            className="flex-1 bg-transparent text-[13px] text-[var(--color-text-primary)] outline-none"
+                        />
+                    </div>
+                    <label className="flex items-center gap-1.5 text-[12px] text-[var(--color-text-secondary)] shrink-0 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={includedOnly}
+                            onChange={(e) => setIncludedOnly(e.target.checked)}
+                            className="accent-[var(--color-accent)]"
+                        />
+                        Included studies only
+                    </label>
+                </div>
+                <div className="px-6 pb-1 shrink-0">
+                    <label className="flex items-center gap-2 text-[12px] text-[var(--color-text-tertiary)] cursor-pointer w-fit">
+                        <input
+                            type="checkbox"
+                            checked={allSelected}
+                            disabled={selectable.length === 0}
+                            onChange={() => setSelected(allSelected ? new Set() : new Set(selectable.map(p => p.id)))}
+                            className="accent-[var(--color-accent)]"
+                        />
+                        Select all shown
+                    </label>
+                </div>
+                <div className="flex-1 min-h-[200px] overflow-y-auto custom-scrollbar px-4 pb-2">
+                    {visible.map(paper => {
+                        const added = present.has(paper.id)
+                        return (
+                            <label
+                                key={paper.id}
+                                className={cn(
+                                    'flex items-start gap-3 px-3 py-2 rounded-lg transition-colors',
+                                    added ? 'opacity-50' : 'cursor-pointer hover:bg-[var(--color-bg-hover)]',
+                                    selected.has(paper.id) && 'bg-[var(--color-accent-subtle)]'
+                                )}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={added || selected.has(paper.id)}
+                                    disabled={added}
+                                    onChange={() => toggle(paper.id)}
+                                    className="mt-1 accent-[var(--color-accent)]"
+                                />
+                                <div className="min-w-0">
+                                    <p className="text-[13px] font-medium text-[var(--color-text-primary)] leading-snug">{paper.title}</p>
+                                    <p className="text-[12px] text-[var(--color-text-tertiary)] truncate">
+                                        {paper.authors.length > 0 ? paper.authors.slice(0, 3).join('; ') : 'Unknown author'}
+                                        {paper.authors.length > 3 ? ' et al.' : ''}
+                                        {paper.year ? ` · ${paper.year}` : ''}
+                                        {added ? ' · already added' : ''}
+                                    </p>
+                                </div>
+                            </label>
+                        )
+                    })}
+                    {visible.length === 0 && (
+                        <p className="py-10 text-center text-[12px] text-[var(--color-text-tertiary)]">
+                            {includedOnly && included.size === 0
+                                ? 'No studies are included at full text yet.'
+                                : 'No papers match.'}
+                        </p>
+                    )}
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <div className="px-6 py-4 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex items-center justify-end gap-3 shrink-0 rounded-b-2xl">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleAdd}
+                        disabled={selected.size === 0 || adding}
+                        className="flex items-center gap-2 px-5 py-2 bg-[var(--color-accent)] text-white text-[13px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-[var(--color-accent)]/20"
+                    >
+                        <Plus size={14} />
+                        Add {selected.size > 0 ? selected.size : ''} {selected.size === 1 ? 'study' : 'studies'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
@@ -3,22 +3,34 @@
 // ============================================================================
 // Right panel showing paper metadata and annotations grouped by PICO node.
 // Supports click-to-scroll, flash highlight, and annotation re-select editing.
+// Annotations cited in memos show a backlink badge. The Extraction tab swaps
+// the list for the paper's data-extraction forms.
 // ============================================================================
 
 import { Trash2, FileText, ChevronLeft, Pencil, X } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { Annotation, Node, PaperWithAuthors } from '@/types'
+import { flattenNodeTree } from '@/lib/codebook'
+import { MemoBacklinksBadge } from './MemoBacklinks'
+import { ExtractionPanel } from './ExtractionPanel'
+import type { Annotation, MemoBacklink, Node, PaperWithAuthors } from '@/types'
+
+export type SidebarTab = 'annotations' | 'extraction'
 
 interface AnnotationSidebarProps {
     paper: PaperWithAuthors | null
     annotations: Annotation[]
     nodes: Node[]
     editingAnnotationId: string | null
+    /** Memos citing each annotation, keyed by annotation id */
+    backlinks: Map<string, MemoBacklink[]>
     onDeleteAnnotation: (id: string) => void
     onScrollToAnnotation: (ann: Annotation) => void
     onEditAnnotation: (ann: Annotation) => void
     onCancelEdit: () => void
+    onOpenMemo: (memoId: string) => void
     onBack: () => void
+    tab: SidebarTab
+    onTabChange: (tab: SidebarTab) => void
 }
 
 export function AnnotationSidebar({
@@ -26,11 +38,15 @@ export function AnnotationSidebar({
     annotations,
     nodes,
     editingAnnotationId,
+    backlinks,
     onDeleteAnnotation,
     onScrollToAnnotation,
     onEditAnnotation,
     onCancelEdit,
-    onBack
+    onOpenMemo,
+    onBack,
+    tab,
+    onTabChange
 }: AnnotationSidebarProps) {
     // Group annotations by node ID
     const grouped = new Map<string, Annotation[]>()
@@ -63,6 +79,23 @@ export function AnnotationSidebar({
                         </p>
                     </div>
                 )}
+
+                <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5">
+                    {([['annotations', 'Annotations'], ['extraction', 'Extraction']] as Array<[SidebarTab, string]>).map(([id, label]) => (
+                        <button
+                            key={id}
+                            onClick={() => onTabChange(id)}
+                            className={cn(
+                                'flex-1 px-3 py-1 rounded-md text-[12px] font-medium transition-colors',
+                                tab === id
+                                    ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                    : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                            )}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
             </div>
 
             {/* Edit mode banner */}
@@ -82,112 +115,128 @@ export function AnnotationSidebar({
                 </div>
             )}
 
-            {/* Annotation List */}
-            <div className="flex-1 overflow-y-auto p-4 space-y-5">
-                {annotations.length === 0 ? (
-                    <div className="flex flex-col items-center justify-center h-full text-center py-12 opacity-60">
-                        <FileText size={36} className="mb-3 opacity-30" />
-                        <p className="text-[13px] font-medium text-[var(--color-text-secondary)]">No annotations yet</p>
-                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-1 max-w-[200px]">
-                            Select text in the PDF and assign it to a PICO node.
-                        </p>
-                    </div>
-                ) : (
-                    nodes
-                        .filter(node => grouped.has(node.id))
-                        .map(node => {
-                            const nodeAnnotations = grouped.get(node.id) || []
-                            return (
-                                <div key={node.id} className="space-y-2">
-                                    {/* Node Header */}
-                                    <div className="flex items-center gap-2">
-                                        <span
-                                            className="w-2.5 h-2.5 rounded-full shrink-0"
-                                            style={{ backgroundColor: node.color }}
-                                        />
-                                        <span className="text-[13px] font-semibold text-[var(--color-text-primary)]">
-                                            {node.name}
-                                        </span>
-                                        <span className="text-[11px] text-[var(--color-text-tertiary)] ml-auto">
-                                            {nodeAnnotations.length}
-                                        </span>
-                                    </div>
-
-                                    {/* Annotation Cards */}
-                                    {nodeAnnotations.map(ann => {
-                                        const isEditing = editingAnnotationId === ann.id
-                                        return (
-                                            <div
-                                                key={ann.id}
-                                                className={cn(
-                                                    "group relative p-3 rounded-lg border",
-                                                    "bg-[var(--color-bg-elevated)] transition-all cursor-pointer",
-                                                    isEditing
-                                                        ? "border-[var(--color-accent)] ring-1 ring-[var(--color-accent)]/30 shadow-md"
-                                                        : "border-[var(--color-border-subtle)] hover:border-[var(--color-border)]"
-                                                )}
-                                                style={{ borderLeftColor: node.color, borderLeftWidth: 3 }}
-                                                onClick={() => onScrollToAnnotation(ann)}
-                                            >
-                                                <p className="text-[13px] text-[var(--color-text-primary)] leading-relaxed line-clamp-4">
-                                                    "{ann.content}"
-                                                </p>
-                                                <div className="flex items-center gap-2 mt-1.5">
-                                                    <span className="text-[11px] text-[var(--color-text-tertiary)]">
-                                                        Page {ann.page_number}
-                                                    </span>
-                                                    {ann.tag_name && (
-                                                        <span
-                                                            className="text-[10px] font-medium px-1.5 py-0.5 rounded-full"
-                                                            style={{
-                                                                backgroundColor: `${node.color}18`,
-                                                                color: node.color,
-                                                                border: `1px solid ${node.color}30`
-                                                            }}
-                                                        >
-                                                            {ann.tag_name}
-                                                        </span>
-                                                    )}
-                                                </div>
+            {tab === 'extraction' && paper ? (
+                <ExtractionPanel
+                    paper={paper}
+                    annotations={annotations}
+                    nodes={nodes}
+                    onScrollToAnnotation={onScrollToAnnotation}
+                />
+            ) : (
+                <>
+                    {/* Annotation List */}
+                    <div className="flex-1 overflow-y-auto p-4 space-y-5">
+                        {annotations.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center h-full text-center py-12 opacity-60">
+                                <FileText size={36} className="mb-3 opacity-30" />
+                                <p className="text-[13px] font-medium text-[var(--color-text-secondary)]">No annotations yet</p>
+                                <p className="text-[12px] text-[var(--color-text-tertiary)] mt-1 max-w-[200px]">
+                                    Select text in the PDF and assign it to a PICO node.
+                                </p>
+                            </div>
+                        ) : (
+                            flattenNodeTree(nodes)
+                                .filter(node => grouped.has(node.id))
+                                .map(node => {
+                                    const nodeAnnotations = grouped.get(node.id) || []
+                                    return (
+                                        <div key={node.id} className="space-y-2">
+                                            {/* Node Header */}
+                                            <div className="flex items-center gap-2">
+                                                <span
+                                                    className="w-2.5 h-2.5 rounded-full shrink-0"
+                                                    style={{ backgroundColor: node.color }}
+                                                />
+                                                <span className="text-[13px] font-semibold text-[var(--color-text-primary)]">
+                                                    {node.path.join(' › ')}
+                                                </span>
+                                                <span className="text-[11px] text-[var(--color-text-tertiary)] ml-auto">
+                                                    {nodeAnnotations.length}
+                                                </span>
+                                            </div>
 
-                                                {/* Action buttons */}
-                                                <div className="absolute top-2 right-2 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-all">
-                                                    <button
-                                                        onClick={(e) => {
-                                                            e.stopPropagation()
-                                                            onEditAnnotation(ann)
-                                                        }}
-                                                        className="w-7 h-7 flex items-center justify-center rounded-md text-[var(--color-text-tertiary)] hover:text-[var(--color-accent)] hover:bg-[var(--color-accent)]/10 transition-colors"
-                                                        title="Re-select text for this annotation"
+                                            {/* Annotation Cards */}
+                                            {nodeAnnotations.map(ann => {
+                                                const isEditing = editingAnnotationId === ann.id
+                                                return (
+                                                    <div
+                                                        key={ann.id}
+                                                        className={cn(
+                                                            "group relative p-3 rounded-lg border",
+                                                            "bg-[var(--color-bg-elevated)] transition-all cursor-pointer",
+                                                            isEditing
+                                                                ? "border-[var(--color-accent)] ring-1 ring-[var(--color-accent)]/30 shadow-md"
+                                                                : "border-[var(--color-border-subtle)] hover:border-[var(--color-border)]"
+                                                        )}
+                                                        style={{ borderLeftColor: node.color, borderLeftWidth: 3 }}
+                                                        onClick={() => onScrollToAnnotation(ann)}
                                                     >
-                                                        <Pencil size={12} />
-                                                    </button>
-                                                    <button
-                                                        onClick={(e) => {
-                                                            e.stopPropagation()
-                                                            onDeleteAnnotation(ann.id)
-                                                        }}
-                                                        className="w-7 h-7 flex items-center justify-center rounded-md text-[var(--color-text-tertiary)] hover:text-red-500 hover:bg-red-500/10 transition-all"
-                                                        title="Delete annotation"
-                                                    >
-                                                        <Trash2 size={13} />
-                                                    </button>
-                                                </div>
-                                            </div>
-                                        )
-                                    })}
-                                </div>
-                            )
-                        })
-                )}
-            </div>
+                                                        <p className="text-[13px] text-[var(--color-text-primary)] leading-relaxed line-clamp-4">
+                                                            "{ann.content}"
+                                                        </p>
+                                                        <div className="flex items-center gap-2 mt-1.5">
+                                                            <span className="text-[11px] text-[var(--color-text-tertiary)]">
+                                                                Page {ann.page_number}
+                                                            </span>
+                                                            {ann.tag_name && (
+                                                                <span
+                                                                    className="text-[10px] font-medium px-1.5 py-0.5 rounded-full"
+                                                                    style={{
+                                                                        backgroundColor: `${node.color}18`,
+                                                                        color: node.color,
+                                                                        border: `1px solid ${node.color}30`
+                                                                    }}
+                                                                >
+                                                                    {ann.tag_name}
+                                                                </span>
+                                                            )}
+                                                            <MemoBacklinksBadge
+                                                                backlinks={backlinks.get(ann.id) ?? []}
+                                                                onOpenMemo={onOpenMemo}
+                                                                className="ml-auto"
+                                                            />
+                                                        </div>
 
-            {/* Footer Stats */}
-            <div className="p-3 border-t border-[var(--color-border-subtle)] text-center">
-                <p className="text-[11px] text-[var(--color-text-tertiary)]">
-                    {annotations.length} annotation{annotations.length !== 1 ? 's' : ''} across {grouped.size} node{grouped.size !== 1 ? 's' : ''}
-                </p>
-            </div>
+                                                        {/* Action buttons */}
+                                                        <div className="absolute top-2 right-2 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-all">
+                                                            <button
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation()
+                                                                    onEditAnnotation(ann)
+                                                                }}
+                                                                className="w-7 h-7 flex items-center justify-center rounded-md text-[var(--color-text-tertiary)] hover:text-[var(--color-accent)] hover:bg-[var(--color-accent)]/10 transition-colors"
+                                                                title="Re-select text for this annotation"
+                                                            >
+                                                                <Pencil size={12} />
+                                                            </button>
+                                                            <button
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation()
+                                                                    onDeleteAnnotation(ann.id)
+                                                                }}
+                                                                className="w-7 h-7 flex items-center justify-center rounded-md text-[var(--color-text-tertiary)] hover:text-red-500 hover:bg-red-500/10 transition-all"
+                                                                title="Delete annotation"
+                                                            >
+                                                                <Trash2 size={13} />
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                )
+                                            })}
+                                        </div>
+                                    )
+                                })
+                        )}
+                    </div>
+
+                    {/* Footer Stats */}
+                    <div className="p-3 border-t border-[var(--color-border-subtle)] text-center">
+                        <p className="text-[11px] text-[var(--color-text-tertiary)]">
+                            {annotations.length} annotation{annotations.length !== 1 ? 's' : ''} across {grouped.size} node{grouped.size !== 1 ? 's' : ''}
+                        </p>
+                    </div>
+                </>
+            )}
         </div>
     )
 }
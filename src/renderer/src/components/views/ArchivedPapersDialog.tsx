@@ -0,0 +1,127 @@
+// ============================================================================
+// ThreadMed — Archived Papers Dialog
+// ============================================================================
+// Lists papers hidden from the library (e.g. archived after their Zotero item
+// was removed). They keep their annotations and can be restored or deleted.
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Archive, ArchiveRestore, Trash2 } from 'lucide-react'
+import { remoteErrorMessage, citedAnnotationsWarning } from '@/lib/utils'
+import type { PaperWithAuthors } from '@/types'
+
+interface ArchivedPapersDialogProps {
+    isOpen: boolean
+    onClose: () => void
+    /** Called after a paper was restored or deleted so the caller can reload */
+    onChanged: () => void
+}
+
+export function ArchivedPapersDialog({ isOpen, onClose, onChanged }: ArchivedPapersDialogProps) {
+    const [papers, setPapers] = useState<PaperWithAuthors[]>([])
+    const [loading, setLoading] = useState(true)
+
+    const loadPapers = async () => {
+        try {
+            setLoading(true)
+            setPapers(await window.api.papers.listArchived())
+        } catch (err) {
+            console.error('[ArchivedPapersDialog] Failed to load archived papers:', err)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        if (isOpen) loadPapers()
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const handleRestore = async (paper: PaperWithAuthors) => {
+        try {
+            await window.api.papers.setArchived(paper.id, false)
+            onChanged()
+            await loadPapers()
+        } catch (err) {
+            console.error('[ArchivedPapersDialog] Failed to restore paper:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleDelete = async (paper: PaperWithAuthors) => {
+        try {
+            const cited = citedAnnotationsWarning(await window.api.memos.backlinksForPaper(paper.id))
+            if (!confirm(`Delete "${paper.title}"? This also deletes its annotations and the PDF file from disk.${cited}`)) return
+            await window.api.papers.delete(paper.id)
+            onChanged()
+            await loadPapers()
+        } catch (err) {
+            console.error('[ArchivedPapersDialog] Failed to delete paper:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Archived Papers</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">
+                            {loading ? 'Loading…' : `${papers.length} paper${papers.length !== 1 ? 's' : ''} hidden from the library · annotations are kept`}
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Papers ────────────────────────────────────────────────── */}
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+                    {!loading && papers.length === 0 && (
+                        <div className="py-12 text-center text-[var(--color-text-tertiary)]">
+                            <Archive size={32} className="mx-auto opacity-40 mb-3" />
+                            <p className="text-[14px] font-medium text-[var(--color-text-secondary)]">No archived papers</p>
+                        </div>
+                    )}
+                    {papers.map(paper => (
+                        <div key={paper.id} className="flex items-center gap-3 px-4 py-3 rounded-xl border border-[var(--color-border)]">
+                            <div className="flex-1 min-w-0">
+                                <p className="text-[13px] font-medium text-[var(--color-text-primary)] leading-snug">{paper.title}</p>
+                                <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5 truncate">
+                                    {paper.authors.length > 0 ? paper.authors.slice(0, 3).join('; ') : 'Unknown author'}
+                                    {paper.authors.length > 3 ? ' et al.' : ''}
+                                    {paper.year ? ` · ${paper.year}` : ''}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => handleRestore(paper)}
+                                className="flex items-center gap-1.5 px-3 py-1 rounded-md text-[12px] font-medium text-[var(--color-accent)] hover:bg-[var(--color-accent-subtle)] transition-colors shrink-0"
+                                title="Show this paper in the library again"
+                            >
+                                <ArchiveRestore size={12} />
+                                Restore
+                            </button>
+                            <button
+                                onClick={() => handleDelete(paper)}
+                                className="w-8 h-8 flex items-center justify-center rounded-lg text-[var(--color-text-tertiary)] hover:text-red-500 hover:bg-red-500/10 transition-colors shrink-0"
+                                title="Delete Paper"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
@@ -0,0 +1,279 @@
+// ============================================================================
+// ThreadMed — Duplicates Dialog
+// ============================================================================
+// Reviews groups of probable duplicate papers (same DOI, or near-identical
+// title with matching year and first author). For each group the user picks
+// the paper to keep and merges the rest into it (papers can be left out,
+// since groups are chained from pairwise matches), or dismisses the group as
+// not duplicates so it isn't suggested again.
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, GitMerge, Copy, FileText, Highlighter, Folder as FolderIcon, Link2, CheckCircle2 } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { DuplicateGroup } from '@/types'
+
+interface DuplicatesDialogProps {
+    isOpen: boolean
+    onClose: () => void
+    /** Called after papers were merged so the caller can reload */
+    onMerged: () => void
+}
+
+function groupKey(group: DuplicateGroup): string {
+    return group.papers.map(p => p.id).sort().join('|')
+}
+
+export function DuplicatesDialog({ isOpen, onClose, onMerged }: DuplicatesDialogProps) {
+    const [groups, setGroups] = useState<DuplicateGroup[]>([])
+    // Paper to keep per group, keyed by groupKey()
+    const [keep, setKeep] = useState<Record<string, string>>({})
+    // Papers the user left out of their group's merge
+    const [leftOut, setLeftOut] = useState<Set<string>>(new Set())
+    const [loading, setLoading] = useState(true)
+    const [busy, setBusy] = useState(false)
+
+    const loadGroups = async () => {
+        try {
+            setLoading(true)
+            const found = await window.api.duplicates.find()
+            setGroups(found)
+            setKeep(prev => Object.fromEntries(found.map(g => {
+                const key = groupKey(g)
+                const previous = prev[key]
+                return [key, previous && g.papers.some(p => p.id === previous) ? previous : g.suggested_id]
+            })))
+        } catch (err) {
+            console.error('[DuplicatesDialog] Failed to find duplicates:', err)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        if (!isOpen) return
+        setKeep({})
+        setLeftOut(new Set())
+        loadGroups()
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const mergeGroup = async (group: DuplicateGroup) => {
+        const canonicalId = keep[groupKey(group)] ?? group.suggested_id
+        const duplicateIds = group.papers.map(p => p.id).filter(id => id !== canonicalId && !leftOut.has(id))
+        if (duplicateIds.length > 0) await window.api.duplicates.merge(canonicalId, duplicateIds)
+    }
+
+    const toggleLeftOut = (paperId: string) => {
+        setLeftOut(prev => {
+            const next = new Set(prev)
+            if (next.has(paperId)) next.delete(paperId)
+            else next.add(paperId)
+            return next
+        })
+    }
+
+    const handleMerge = async (group: DuplicateGroup) => {
+        try {
+            setBusy(true)
+            await mergeGroup(group)
+            onMerged()
+            await loadGroups()
+        } catch (err) {
+            console.error('[DuplicatesDialog] Merge failed:', err)
+            alert(`Merge failed: ${remoteErrorMessage(err)}`)
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    const handleMergeAll = async () => {
+        if (!confirm(`Merge all ${groups.length} groups, keeping the selected paper in each? This cannot be undone.`)) return
+        try {
+            setBusy(true)
+            for (const group of groups) await mergeGroup(group)
+        } catch (err) {
+            console.error('[DuplicatesDialog] Merge failed:', err)
+            alert(`Merge failed: ${remoteErrorMessage(err)}`)
+        } finally {
+            onMerged()
+            await loadGroups()
+            setBusy(false)
+        }
+    }
+
+    const handleDismiss = async (group: DuplicateGroup) => {
+        try {
+            await window.api.duplicates.dismiss(group.papers.map(p => p.id))
+            await loadGroups()
+        } catch (err) {
+            console.error('[DuplicatesDialog] Failed to dismiss group:', err)
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-4xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Duplicates</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">
+                            {loading
+                                ? 'Searching the library…'
+                                : `${groups.length} group${groups.length !== 1 ? 's' : ''} of probable duplicates · merging keeps highlights, folders and screening decisions`}
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Groups ────────────────────────────────────────────────── */}
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+                    {!loading && groups.length === 0 && (
+                        <div className="py-12 text-center text-[var(--color-text-tertiary)]">
+                            <CheckCircle2 size={32} className="mx-auto opacity-40 mb-3" />
+                            <p className="text-[14px] font-medium text-[var(--color-text-secondary)]">No duplicates found</p>
+                            <p className="text-[12px] mt-1">Papers are compared by DOI, title, year and first author.</p>
+                        </div>
+                    )}
+                    {groups.map(group => {
+                        const key = groupKey(group)
+                        const reasons = [...new Set(group.matches.map(m => m.reason))]
+                        return (
+                            <div key={key} className="rounded-xl border border-[var(--color-border)] overflow-hidden">
+                                <div className="flex items-center gap-2 px-4 py-2 bg-[var(--color-bg-elevated)] border-b border-[var(--color-border-subtle)]">
+                                    <Copy size={12} className="text-[var(--color-warning)] shrink-0" />
+                                    <span className="text-[12px] text-[var(--color-text-secondary)] truncate">{reasons.join(' · ')}</span>
+                                    <button
+                                        onClick={() => handleDismiss(group)}
+                                        disabled={busy}
+                                        className="ml-auto px-2.5 py-1 rounded-md text-[12px] font-medium text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors disabled:opacity-50 shrink-0"
+                                    >
+                                        Not duplicates
+                                    </button>
+                                    <button
+                                        onClick={() => handleMerge(group)}
+                                        disabled={busy}
+                                        className="flex items-center gap-1.5 px-3 py-1 rounded-md text-[12px] font-semibold bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-hover)] transition-colors disabled:opacity-50 shrink-0"
+                                    >
+                                        <GitMerge size={12} />
+                                        Merge
+                                    </button>
+                                </div>
+                                <div className="divide-y divide-[var(--color-border-subtle)]">
+                                    {group.papers.map(paper => {
+                                        const isKept = keep[key] === paper.id
+                                        const isLeftOut = !isKept && leftOut.has(paper.id)
+                                        return (
+                                            <label
+                                                key={paper.id}
+                                                className={cn(
+                                                    'flex items-start gap-3 px-4 py-2.5 cursor-pointer transition-colors',
+                                                    isKept ? 'bg-[var(--color-accent-subtle)]' : 'hover:bg-[var(--color-bg-hover)]',
+                                                    isLeftOut && 'opacity-50'
+                                                )}
+                                            >
+                                                <input
+                                                    type="radio"
+                                                    name={key}
+                                                    checked={isKept}
+                                                    onChange={() => setKeep(prev => ({ ...prev, [key]: paper.id }))}
+                                                    className="mt-1 accent-[var(--color-accent)]"
+                                                />
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-[13px] font-medium text-[var(--color-text-primary)] leading-snug">{paper.title}</p>
+                                                    <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5 truncate">
+                                                        {paper.authors.length > 0 ? paper.authors.slice(0, 3).join('; ') : 'Unknown author'}
+                                                        {paper.authors.length > 3 ? ' et al.' : ''}
+                                                        {paper.year ? ` · ${paper.year}` : ''}
+                                                        {paper.journal ? ` · ${paper.journal}` : ''}
+                                                        {paper.doi ? ` · ${paper.doi}` : ''}
+                                                    </p>
+                                                    <div className="flex items-center gap-3 mt-1 text-[11px] text-[var(--color-text-tertiary)]">
+                                                        <span className={cn('flex items-center gap-1', paper.has_pdf && 'text-[var(--color-text-secondary)]')}>
+                                                            <FileText size={11} />
+                                                            {paper.has_pdf ? 'PDF' : 'No PDF'}
+                                                        </span>
+                                                        {paper.annotation_count > 0 && (
+                                                            <span className="flex items-center gap-1">
+                                                                <Highlighter size={11} />
+                                                                {paper.annotation_count} highlight{paper.annotation_count !== 1 ? 's' : ''}
+                                                            </span>
+                                                        )}
+                                                        {paper.folder_count > 0 && (
+                                                            <span className="flex items-center gap-1">
+                                                                <FolderIcon size={11} />
+                                                                {paper.folder_count} folder{paper.folder_count !== 1 ? 's' : ''}
+                                                            </span>
+                                                        )}
+                                                        {paper.zotero_key && (
+                                                            <span className="flex items-center gap-1">
+                                                                <Link2 size={11} />
+                                                                Zotero
+                                                            </span>
+                                                        )}
+                                                        <span>Added {paper.date_added.slice(0, 10)}</span>
+                                                    </div>
+                                                </div>
+                                                {isKept ? (
+                                                    <span className="shrink-0 px-2 py-0.5 rounded-full text-[11px] font-medium text-[var(--color-accent)] bg-[var(--color-accent)]/10">
+                                                        Keep
+                                                    </span>
+                                                ) : (
+                                                    <button
+                                                        type="button"
+                                                        onClick={(e) => {
+                                                            e.preventDefault()
+                                                            toggleLeftOut(paper.id)
+                                                        }}
+                                                        className="shrink-0 px-2 py-0.5 rounded-full text-[11px] font-medium text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-active)] transition-colors"
+                                                        title={isLeftOut ? 'Include this paper in the merge' : 'Not a duplicate: leave this paper out of the merge'}
+                                                    >
+                                                        {isLeftOut ? 'Left out' : 'Leave out'}
+                                                    </button>
+                                                )}
+                                            </label>
+                                        )
+                                    })}
+                                </div>
+                            </div>
+                        )
+                    })}
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <div className="px-6 py-4 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex items-center gap-3 shrink-0 rounded-b-2xl">
+                    <span className="text-[12px] text-[var(--color-text-tertiary)]">
+                        The better PDF is kept; empty fields are filled from the merged records.
+                    </span>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="ml-auto px-4 py-2 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        Close
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleMergeAll}
+                        disabled={busy || loading || groups.length === 0}
+                        className="flex items-center gap-2 px-5 py-2 bg-[var(--color-accent)] text-white text-[13px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-[var(--color-accent)]/20"
+                    >
+                        <GitMerge size={14} />
+                        {busy ? 'Merging…' : 'Merge all'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
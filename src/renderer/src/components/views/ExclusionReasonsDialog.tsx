@@ -0,0 +1,186 @@
+// ============================================================================
+// ThreadMed — Exclusion Reasons Dialog
+// ============================================================================
+// Manages the project's list of exclusion reasons used by screening. Reasons
+// still cited by an exclusion cannot be deleted, only renamed.
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Plus, Trash2, Check } from 'lucide-react'
+import { remoteErrorMessage } from '@/lib/utils'
+import type { ExclusionReason } from '@/types'
+
+interface ExclusionReasonsDialogProps {
+    isOpen: boolean
+    onClose: () => void
+    /** Called after any change so the caller can reload its reason list */
+    onChanged: () => void
+}
+
+export function ExclusionReasonsDialog({ isOpen, onClose, onChanged }: ExclusionReasonsDialogProps) {
+    const [reasons, setReasons] = useState<ExclusionReason[]>([])
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [editName, setEditName] = useState('')
+    const [newName, setNewName] = useState('')
+
+    const loadReasons = async () => {
+        try {
+            setReasons(await window.api.screening.reasons())
+        } catch (err) {
+            console.error('[ExclusionReasonsDialog] Failed to load reasons:', err)
+        }
+    }
+
+    useEffect(() => {
+        if (!isOpen) return
+        setEditingId(null)
+        setNewName('')
+        loadReasons()
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!newName.trim()) return
+        try {
+            await window.api.screening.createReason(newName)
+            setNewName('')
+            await loadReasons()
+            onChanged()
+        } catch (err) {
+            console.error('[ExclusionReasonsDialog] Failed to add reason:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleRename = async (id: string) => {
+        const original = reasons.find(r => r.id === id)
+        if (!editName.trim() || editName.trim() === original?.name) {
+            setEditingId(null)
+            return
+        }
+        try {
+            await window.api.screening.renameReason(id, editName)
+            setEditingId(null)
+            await loadReasons()
+            onChanged()
+        } catch (err) {
+            console.error('[ExclusionReasonsDialog] Failed to rename reason:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleDelete = async (reason: ExclusionReason) => {
+        if (!confirm(`Delete the exclusion reason "${reason.name}"?`)) return
+        try {
+            await window.api.screening.deleteReason(reason.id)
+            await loadReasons()
+            onChanged()
+        } catch (err) {
+            console.error('[ExclusionReasonsDialog] Failed to delete reason:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-md rounded-2xl shadow-2xl flex flex-col max-h-[80vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Exclusion Reasons</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">Keys 1–9 pick these in order while screening</p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Reason List ───────────────────────────────────────────── */}
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-0.5">
+                    {reasons.map((reason, i) => (
+                        <div key={reason.id} className="group flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-[var(--color-bg-hover)]">
+                            <span className="w-4 text-[11px] tabular-nums text-[var(--color-text-tertiary)] shrink-0">{i < 9 ? i + 1 : ''}</span>
+                            {editingId === reason.id ? (
+                                <input
+                                    autoFocus
+                                    value={editName}
+                                    onChange={(e) => setEditName(e.target.value)}
+                                    onBlur={() => handleRename(reason.id)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') handleRename(reason.id)
+                                        if (e.key === 'Escape') setEditingId(null)
+                                    }}
+                                    className="flex-1 min-w-0 bg-[var(--color-bg-elevated)] border border-[var(--color-accent)] rounded-md px-2 py-1 text-[13px] text-[var(--color-text-primary)] outline-none"
+                                />
+                            ) : (
+                                <button
+                                    onClick={() => {
+                                        setEditingId(reason.id)
+                                        setEditName(reason.name)
+                                    }}
+                                    className="flex-1 min-w-0 text-left text-[13px] text-[var(--color-text-primary)] truncate"
+                                    title="Click to rename"
+                                >
+                                    {reason.name}
+                                </button>
+                            )}
+                            <span className="text-[11px] tabular-nums text-[var(--color-text-tertiary)] shrink-0">
+                                {reason.usage_count > 0 ? `${reason.usage_count} used` : ''}
+                            </span>
+                            <button
+                                onClick={() => handleDelete(reason)}
+                                disabled={reason.usage_count > 0}
+                                className="p-1 rounded-md text-[var(--color-text-tertiary)] opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-red-500/10 transition-all disabled:hidden"
+                                title="Delete reason"
+                            >
+                                <Trash2 size={13} />
+                            </button>
+                        </div>
+                    ))}
+                    {reasons.length === 0 && (
+                        <p className="px-3 py-6 text-[12px] text-[var(--color-text-tertiary)] text-center">No exclusion reasons yet</p>
+                    )}
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <form
+                    onSubmit={handleAdd}
+                    className="px-6 py-4 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex items-center gap-2 shrink-0 rounded-b-2xl"
+                >
+                    <input
+                        type="text"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        placeholder="New reason, e.g. Wrong setting"
+                        className="flex-1 min-w-0 bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!newName.trim()}
+                        className="flex items-center gap-1.5 px-4 py-1.5 bg-[var(--color-accent)] text-white text-[13px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Plus size={14} />
+                        Add
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        <Check size={14} />
+                        Done
+                    </button>
+                </form>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
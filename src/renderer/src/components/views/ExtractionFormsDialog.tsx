@@ -0,0 +1,441 @@
+// ============================================================================
+// ThreadMed — Extraction Forms Dialog
+// ============================================================================
+// Configures the project's data-extraction forms. Fields are typed (integer,
+// decimal, categorical or text); an arm group repeats the fields inside it
+// for every study arm, e.g. events and total per arm.
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Plus, Trash2, Check, ChevronUp, ChevronDown } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { ExtractionField, ExtractionFieldType, ExtractionForm } from '@/types'
+
+interface ExtractionFormsDialogProps {
+    isOpen: boolean
+    /** Form to select when the dialog opens */
+    initialFormId?: string | null
+    onClose: () => void
+    /** Called after any change so the caller can reload its forms */
+    onChanged: () => void
+}
+
+const FIELD_TYPES: Array<{ id: ExtractionFieldType; label: string }> = [
+    { id: 'integer', label: 'Integer' },
+    { id: 'decimal', label: 'Decimal' },
+    { id: 'categorical', label: 'Categorical' },
+    { id: 'text', label: 'Text' },
+    { id: 'group', label: 'Arm group' }
+]
+
+const inputClass = 'bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-md px-2 py-1 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]'
+
+function splitOptions(text: string): string[] {
+    return text.split(',').map(o => o.trim()).filter(Boolean)
+}
+
+export function ExtractionFormsDialog({ isOpen, initialFormId, onClose, onChanged }: ExtractionFormsDialogProps) {
+    const [forms, setForms] = useState<ExtractionForm[]>([])
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const [newFormName, setNewFormName] = useState('')
+    const [fieldName, setFieldName] = useState('')
+    const [fieldType, setFieldType] = useState<ExtractionFieldType>('integer')
+    const [fieldOptions, setFieldOptions] = useState('')
+    const [fieldUnit, setFieldUnit] = useState('')
+    const [fieldParent, setFieldParent] = useState('')
+
+    const selected = forms.find(f => f.id === selectedId) ?? null
+    const groups = selected?.fields.filter(f => f.field_type === 'group') ?? []
+
+    const loadForms = async () => {
+        try {
+            const list = await window.api.extraction.forms()
+            setForms(list)
+            setSelectedId(prev => list.some(f => f.id === prev) ? prev : list[0]?.id ?? null)
+        } catch (err) {
+            console.error('[ExtractionFormsDialog] Failed to load forms:', err)
+        }
+    }
+
+    useEffect(() => {
+        if (!isOpen) return
+        setSelectedId(initialFormId ?? null)
+        setNewFormName('')
+        loadForms()
+    }, [isOpen])
+
+    useEffect(() => {
+        setFieldParent('')
+    }, [selectedId])
+
+    if (!isOpen) return null
+
+    /** Run a change that returns the updated form, then refresh */
+    const apply = async (change: Promise<ExtractionForm | null>, action: string) => {
+        try {
+            const updated = await change
+            if (updated) setForms(prev => prev.map(f => f.id === updated.id ? updated : f))
+            onChanged()
+            return true
+        } catch (err) {
+            console.error(`[ExtractionFormsDialog] Failed to ${action}:`, err)
+            alert(remoteErrorMessage(err))
+            await loadForms()
+            return false
+        }
+    }
+
+    const handleAddForm = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!newFormName.trim()) return
+        try {
+            const form = await window.api.extraction.createForm(newFormName)
+            setNewFormName('')
+            setForms(prev => [...prev, form])
+            setSelectedId(form.id)
+            onChanged()
+        } catch (err) {
+            console.error('[ExtractionFormsDialog] Failed to add form:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleDeleteForm = async (form: ExtractionForm) => {
+        if (!confirm(`Delete the form "${form.name}" and every value extracted with it? This cannot be undone.`)) return
+        try {
+            await window.api.extraction.deleteForm(form.id)
+            await loadForms()
+            onChanged()
+        } catch (err) {
+            console.error('[ExtractionFormsDialog] Failed to delete form:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleAddField = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!selected || !fieldName.trim()) return
+        const added = await apply(window.api.extraction.createField(selected.id, {
+            name: fieldName,
+            field_type: fieldType,
+            parent_id: fieldParent || null,
+            options: fieldType === 'categorical' ? splitOptions(fieldOptions) : undefined,
+            unit: fieldType === 'integer' || fieldType === 'decimal' ? fieldUnit : null
+        }), 'add field')
+        if (added) {
+            setFieldName('')
+            setFieldOptions('')
+            setFieldUnit('')
+        }
+    }
+
+    const handleDeleteField = (field: ExtractionField) => {
+        const message = field.field_type === 'group'
+            ? `Delete the arm group "${field.name}", its fields and every value extracted for them?`
+            : `Delete the field "${field.name}" and every value extracted for it?`
+        if (!confirm(message)) return
+        apply(window.api.extraction.deleteField(field.id), 'delete field')
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-4xl rounded-2xl shadow-2xl flex flex-col h-[80vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Extraction Forms</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">Typed fields filled in per paper; arm groups repeat for every study arm</p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex-1 min-h-0 flex">
+                    {/* ── Forms ─────────────────────────────────────────────── */}
+                    <aside className="w-60 shrink-0 border-r border-[var(--color-border-subtle)] flex flex-col">
+                        <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+                            {forms.map(form => (
+                                <button
+                                    key={form.id}
+                                    onClick={() => setSelectedId(form.id)}
+                                    className={cn(
+                                        'w-full text-left px-3 py-2 rounded-lg transition-colors',
+                                        form.id === selectedId ? 'bg-[var(--color-accent-subtle)]' : 'hover:bg-[var(--color-bg-hover)]'
+                                    )}
+                                >
+                                    <p className="text-[13px] font-medium text-[var(--color-text-primary)] truncate">{form.name}</p>
+                                    <p className="text-[11px] text-[var(--color-text-tertiary)]">
+                                        {form.fields.length} field{form.fields.length !== 1 ? 's' : ''}
+                                    </p>
+                                </button>
+                            ))}
+                            {forms.length === 0 && (
+                                <p className="px-3 py-6 text-[12px] text-[var(--color-text-tertiary)] text-center">No forms yet</p>
+                            )}
+                        </div>
+                        <form onSubmit={handleAddForm} className="p-2 border-t border-[var(--color-border-subtle)] flex items-center gap-1.5">
+                            <input
+                                value={newFormName}
+                                onChange={(e) => setNewFormName(e.target.value)}
+                                placeholder="New form, e.g. Outcomes"
+                                className={cn(inputClass, 'flex-1 min-w-0 py-1.5')}
+                            />
+                            <button
+                                type="submit"
+                                disabled={!newFormName.trim()}
+                                className="p-1.5 rounded-md bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-hover)] transition-colors disabled:opacity-50"
+                                title="Add form"
+                            >
+                                <Plus size={14} />
+                            </button>
+                        </form>
+                    </aside>
+
+                    {/* ── Form Editor ───────────────────────────────────────── */}
+                    {selected ? (
+                        <div className="flex-1 min-w-0 flex flex-col">
+                            <div className="px-5 pt-4 pb-3 space-y-2 border-b border-[var(--color-border-subtle)] shrink-0">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        key={`name-${selected.id}`}
+                                        defaultValue={selected.name}
+                                        onBlur={(e) => {
+                                            if (e.target.value.trim() !== selected.name) {
+                                                apply(window.api.extraction.updateForm(selected.id, { name: e.target.value }), 'rename form')
+                                            }
+                                        }}
+                                        className={cn(inputClass, 'flex-1 text-[14px] font-semibold py-1.5')}
+                                    />
+                                    <button
+                                        onClick={() => handleDeleteForm(selected)}
+                                        className="p-1.5 rounded-md text-[var(--color-text-tertiary)] hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                                        title="Delete form"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                                <textarea
+                                    key={`description-${selected.id}`}
+                                    defaultValue={selected.description}
+                                    onBlur={(e) => {
+                                        if (e.target.value.trim() !== selected.description) {
+                                            apply(window.api.extraction.updateForm(selected.id, { description: e.target.value }), 'update form')
+                                        }
+                                    }}
+                                    rows={2}
+                                    placeholder="Instructions for extractors (optional)"
+                                    className={cn(inputClass, 'w-full resize-none')}
+                                />
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-0.5">
+                                {selected.fields.map(field => (
+                                    <FieldRow
+                                        key={field.id}
+                                        field={field}
+                                        onUpdate={(data) => apply(window.api.extraction.updateField(field.id, data), 'update field')}
+                                        onMove={(direction) => apply(window.api.extraction.moveField(field.id, direction), 'move field')}
+                                        onDelete={() => handleDeleteField(field)}
+                                    />
+                                ))}
+                                {selected.fields.length === 0 && (
+                                    <p className="px-3 py-10 text-[12px] text-[var(--color-text-tertiary)] text-center">
+                                        Add the fields to extract, e.g. "Sample size" (integer) or an "Arms" group holding "Events" and "Total".
+                                    </p>
+                                )}
+                            </div>
+
+                            {/* ── Add Field ─────────────────────────────────── */}
+                            <form
+                                onSubmit={handleAddField}
+                                className="px-5 py-3 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex items-center gap-2 shrink-0 flex-wrap"
+                            >
+                                <input
+                                    value={fieldName}
+                                    onChange={(e) => setFieldName(e.target.value)}
+                                    placeholder="Field name"
+                                    className={cn(inputClass, 'flex-1 min-w-[140px] py-1.5 bg-[var(--color-bg-surface)]')}
+                                />
+                                <select
+                                    value={fieldType}
+                                    onChange={(e) => setFieldType(e.target.value as ExtractionFieldType)}
+                                    className={cn(inputClass, 'py-1.5 bg-[var(--color-bg-surface)]')}
+                                >
+                                    {FIELD_TYPES.filter(t => !(fieldParent && t.id === 'group')).map(t => (
+                                        <option key={t.id} value={t.id}>{t.label}</option>
+                                    ))}
+                                </select>
+                                {fieldType === 'categorical' && (
+                                    <input
+                                        value={fieldOptions}
+                                        onChange={(e) => setFieldOptions(e.target.value)}
+                                        placeholder="Options, comma-separated"
+                                        className={cn(inputClass, 'w-48 py-1.5 bg-[var(--color-bg-surface)]')}
+                                    />
+                                )}
+                                {(fieldType === 'integer' || fieldType === 'decimal') && (
+                                    <input
+                                        value={fieldUnit}
+                                        onChange={(e) => setFieldUnit(e.target.value)}
+                                        placeholder="Unit"
+                                        className={cn(inputClass, 'w-24 py-1.5 bg-[var(--color-bg-surface)]')}
+                                    />
+                                )}
+                                {groups.length > 0 && fieldType !== 'group' && (
+                                    <select
+                                        value={fieldParent}
+                                        onChange={(e) => setFieldParent(e.target.value)}
+                                        className={cn(inputClass, 'py-1.5 bg-[var(--color-bg-surface)]')}
+                                        title="Where the field is recorded"
+                                    >
+                                        <option value="">Once per paper</option>
+                                        {groups.map(g => (
+                                            <option key={g.id} value={g.id}>Per arm in {g.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <button
+                                    type="submit"
+                                    disabled={!fieldName.trim() || (fieldType === 'categorical' && splitOptions(fieldOptions).length === 0)}
+                                    className="flex items-center gap-1.5 px-4 py-1.5 bg-[var(--color-accent)] text-white text-[13px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <Plus size={14} />
+                                    Add field
+                                </button>
+                            </form>
+                        </div>
+                    ) : (
+                        <div className="flex-1 flex items-center justify-center text-[13px] text-[var(--color-text-tertiary)]">
+                            Create a form to start configuring fields.
+                        </div>
+                    )}
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <div className="px-6 py-3 border-t border-[var(--color-border-subtle)] flex justify-end shrink-0">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        <Check size={14} />
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
+
+// ── Field Row ────────────────────────────────────────────────────────────────
+
+interface FieldRowProps {
+    field: ExtractionField
+    onUpdate: (data: { name?: string; field_type?: ExtractionFieldType; options?: string[]; unit?: string | null }) => void
+    onMove: (direction: 'up' | 'down') => void
+    onDelete: () => void
+}
+
+function FieldRow({ field, onUpdate, onMove, onDelete }: FieldRowProps) {
+    // Switching to categorical waits for the options to be typed in
+    const [type, setType] = useState(field.field_type)
+    const isGroup = field.field_type === 'group'
+
+    useEffect(() => {
+        setType(field.field_type)
+    }, [field.field_type])
+
+    const handleTypeChange = (next: ExtractionFieldType) => {
+        setType(next)
+        if (next !== 'categorical') onUpdate({ field_type: next })
+        else if (field.options.length > 0) onUpdate({ field_type: next, options: field.options })
+    }
+
+    const handleOptionsBlur = (text: string) => {
+        const options = splitOptions(text)
+        if (field.field_type !== 'categorical') {
+            if (options.length > 0) onUpdate({ field_type: 'categorical', options })
+        } else if (options.join(',') !== field.options.join(',')) {
+            onUpdate({ options })
+        }
+    }
+    const isNumeric = field.field_type === 'integer' || field.field_type === 'decimal'
+
+    return (
+        <div className={cn(
+            'group flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-[var(--color-bg-hover)]',
+            field.parent_id && 'ml-6 border-l-2 border-[var(--color-border)] rounded-l-none',
+            isGroup && 'mt-2'
+        )}>
+            <input
+                key={`name-${field.name}`}
+                defaultValue={field.name}
+                onBlur={(e) => {
+                    if (e.target.value.trim() !== field.name) onUpdate({ name: e.target.value })
+                }}
+                className={cn(inputClass, 'flex-1 min-w-0', isGroup && 'font-semibold')}
+            />
+            <select
+                value={type}
+                onChange={(e) => handleTypeChange(e.target.value as ExtractionFieldType)}
+                className={inputClass}
+            >
+                {FIELD_TYPES.filter(t => !(field.parent_id && t.id === 'group')).map(t => (
+                    <option key={t.id} value={t.id}>{t.label}</option>
+                ))}
+            </select>
+            {type === 'categorical' && (
+                <input
+                    key={`options-${field.options.join(',')}`}
+                    autoFocus={field.field_type !== 'categorical'}
+                    defaultValue={field.options.join(', ')}
+                    onBlur={(e) => handleOptionsBlur(e.target.value)}
+                    placeholder="Options, comma-separated"
+                    className={cn(inputClass, 'w-48')}
+                />
+            )}
+            {isNumeric && (
+                <input
+                    key={`unit-${field.unit}`}
+                    defaultValue={field.unit ?? ''}
+                    onBlur={(e) => {
+                        if (e.target.value.trim() !== (field.unit ?? '')) onUpdate({ unit: e.target.value })
+                    }}
+                    placeholder="Unit"
+                    className={cn(inputClass, 'w-24')}
+                />
+            )}
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                    onClick={() => onMove('up')}
+                    className="p-1 rounded-md text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+                    title="Move up"
+                >
+                    <ChevronUp size={13} />
+                </button>
+                <button
+                    onClick={() => onMove('down')}
+                    className="p-1 rounded-md text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+                    title="Move down"
+                >
+                    <ChevronDown size={13} />
+                </button>
+                <button
+                    onClick={onDelete}
+                    className="p-1 rounded-md text-[var(--color-text-tertiary)] hover:text-red-400 hover:bg-red-500/10"
+                    title={isGroup ? 'Delete group and its fields' : 'Delete field'}
+                >
+                    <Trash2 size={13} />
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,394 @@
+// ============================================================================
+// ThreadMed — Extraction Panel
+// ============================================================================
+// Data extraction for the open paper, shown in the annotation sidebar. Values
+// are checked against their field type and saved on blur; each one can cite
+// the annotation it was taken from. Arm groups are filled in once per study
+// arm, and the paper's arms are shared by every form.
+// ============================================================================
+
+import { useState, useEffect, useCallback } from 'react'
+import { Settings2, Plus, X, Quote, ClipboardList } from 'lucide-react'
+import { ExtractionFormsDialog } from './ExtractionFormsDialog'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { Annotation, ExtractionArm, ExtractionField, ExtractionForm, ExtractionValue, Node, PaperWithAuthors } from '@/types'
+
+interface ExtractionPanelProps {
+    paper: PaperWithAuthors
+    annotations: Annotation[]
+    nodes: Node[]
+    onScrollToAnnotation: (ann: Annotation) => void
+}
+
+const inputClass = 'bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-md px-2 py-1 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]'
+
+const valueKey = (fieldId: string, armId: string | null) => `${fieldId}:${armId ?? ''}`
+
+export function ExtractionPanel({ paper, annotations, nodes, onScrollToAnnotation }: ExtractionPanelProps) {
+    const [forms, setForms] = useState<ExtractionForm[]>([])
+    const [formId, setFormId] = useState<string | null>(null)
+    const [arms, setArms] = useState<ExtractionArm[]>([])
+    const [values, setValues] = useState<Map<string, ExtractionValue>>(new Map())
+    const [newArm, setNewArm] = useState('')
+    const [editingArmId, setEditingArmId] = useState<string | null>(null)
+    const [armLabel, setArmLabel] = useState('')
+    const [showForms, setShowForms] = useState(false)
+
+    const form = forms.find(f => f.id === formId) ?? null
+    const topLevel = form?.fields.filter(f => !f.parent_id) ?? []
+
+    const loadForms = useCallback(async () => {
+        try {
+            const list = await window.api.extraction.forms()
+            setForms(list)
+            setFormId(prev => list.some(f => f.id === prev) ? prev : list[0]?.id ?? null)
+        } catch (err) {
+            console.error('[ExtractionPanel] Failed to load forms:', err)
+        }
+    }, [])
+
+    const loadExtraction = useCallback(async () => {
+        try {
+            const data = await window.api.extraction.forPaper(paper.id)
+            setArms(data.arms)
+            setValues(new Map(data.values.map(v => [valueKey(v.field_id, v.arm_id), v])))
+        } catch (err) {
+            console.error('[ExtractionPanel] Failed to load extracted values:', err)
+        }
+    }, [paper.id])
+
+    useEffect(() => {
+        loadForms()
+    }, [loadForms])
+
+    // Deleting or re-selecting an annotation changes the citations shown
+    useEffect(() => {
+        loadExtraction()
+    }, [loadExtraction, annotations])
+
+    const handleSave = async (field: ExtractionField, armId: string | null, patch: { value?: string | null; annotation_id?: string | null }) => {
+        try {
+            const saved = await window.api.extraction.setValue({ paper_id: paper.id, field_id: field.id, arm_id: armId, ...patch })
+            setValues(prev => {
+                const next = new Map(prev)
+                if (saved) next.set(valueKey(field.id, armId), saved)
+                else next.delete(valueKey(field.id, armId))
+                return next
+            })
+            return true
+        } catch (err) {
+            console.error('[ExtractionPanel] Failed to save value:', err)
+            alert(remoteErrorMessage(err))
+            return false
+        }
+    }
+
+    const handleAddArm = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!newArm.trim()) return
+        try {
+            const arm = await window.api.extraction.createArm(paper.id, newArm)
+            setArms(prev => [...prev, arm])
+            setNewArm('')
+        } catch (err) {
+            console.error('[ExtractionPanel] Failed to add arm:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleRenameArm = async (arm: ExtractionArm) => {
+        setEditingArmId(null)
+        if (!armLabel.trim() || armLabel.trim() === arm.label) return
+        try {
+            const renamed = await window.api.extraction.renameArm(arm.id, armLabel)
+            if (renamed) setArms(prev => prev.map(a => a.id === arm.id ? renamed : a))
+        } catch (err) {
+            console.error('[ExtractionPanel] Failed to rename arm:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleDeleteArm = async (arm: ExtractionArm) => {
+        if (!confirm(`Delete the arm "${arm.label}" and the values extracted for it in every form?`)) return
+        try {
+            await window.api.extraction.deleteArm(arm.id)
+            await loadExtraction()
+        } catch (err) {
+            console.error('[ExtractionPanel] Failed to delete arm:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const renderField = (field: ExtractionField, armId: string | null) => (
+        <ValueInput
+            key={valueKey(field.id, armId)}
+            field={field}
+            value={values.get(valueKey(field.id, armId))}
+            annotations={annotations}
+            nodes={nodes}
+            onSave={(patch) => handleSave(field, armId, patch)}
+            onOpenAnnotation={(annotationId) => {
+                const ann = annotations.find(a => a.id === annotationId)
+                if (ann) onScrollToAnnotation(ann)
+            }}
+        />
+    )
+
+    return (
+        <div className="flex-1 min-h-0 flex flex-col">
+            {/* ── Form Picker ───────────────────────────────────────────────── */}
+            <div className="px-4 py-3 border-b border-[var(--color-border-subtle)] flex items-center gap-2">
+                <select
+                    value={formId ?? ''}
+                    onChange={(e) => setFormId(e.target.value)}
+                    disabled={forms.length === 0}
+                    className={cn(inputClass, 'flex-1 min-w-0 py-1.5')}
+                >
+                    {forms.length === 0 && <option value="">No forms</option>}
+                    {forms.map(f => (
+                        <option key={f.id} value={f.id}>{f.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setShowForms(true)}
+                    className="p-1.5 rounded-md text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                    title="Configure extraction forms"
+                >
+                    <Settings2 size={15} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {!form ? (
+                    <div className="flex flex-col items-center justify-center h-full text-center py-12 opacity-60">
+                        <ClipboardList size={36} className="mb-3 opacity-30" />
+                        <p className="text-[13px] font-medium text-[var(--color-text-secondary)]">No extraction forms yet</p>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-1 max-w-[220px]">
+                            Set up a form with the numbers to extract from every study.
+                        </p>
+                        <button
+                            onClick={() => setShowForms(true)}
+                            className="mt-3 px-3 py-1.5 rounded-lg text-[12px] font-semibold bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-hover)] transition-colors"
+                        >
+                            Create a form
+                        </button>
+                    </div>
+                ) : (
+                    <>
+                        {form.description && (
+                            <p className="text-[12px] text-[var(--color-text-tertiary)] leading-relaxed whitespace-pre-wrap">{form.description}</p>
+                        )}
+
+                        {/* ── Study Arms ─────────────────────────────────────── */}
+                        {form.fields.some(f => f.field_type === 'group') && (
+                            <div className="space-y-2">
+                                <p className="text-[11px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)]">Study arms</p>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {arms.map(arm => editingArmId === arm.id ? (
+                                        <input
+                                            key={arm.id}
+                                            autoFocus
+                                            value={armLabel}
+                                            onChange={(e) => setArmLabel(e.target.value)}
+                                            onBlur={() => handleRenameArm(arm)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') handleRenameArm(arm)
+                                                if (e.key === 'Escape') setEditingArmId(null)
+                                            }}
+                                            className={cn(inputClass, 'w-28 py-0.5 border-[var(--color-accent)]')}
+                                        />
+                                    ) : (
+                                        <span key={arm.id} className="group flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full border border-[var(--color-border)] bg-[var(--color-bg-elevated)] text-[12px] text-[var(--color-text-primary)]">
+                                            <button
+                                                onClick={() => {
+                                                    setEditingArmId(arm.id)
+                                                    setArmLabel(arm.label)
+                                                }}
+                                                title="Click to rename"
+                                            >
+                                                {arm.label}
+                                            </button>
+                                            <button
+                                                onClick={() => handleDeleteArm(arm)}
+                                                className="p-0.5 rounded-full text-[var(--color-text-tertiary)] hover:text-red-400"
+                                                title="Delete arm"
+                                            >
+                                                <X size={11} />
+                                            </button>
+                                        </span>
+                                    ))}
+                                    <form onSubmit={handleAddArm} className="flex items-center gap-1">
+                                        <input
+                                            value={newArm}
+                                            onChange={(e) => setNewArm(e.target.value)}
+                                            placeholder={arms.length === 0 ? 'e.g. Intervention' : 'Add arm'}
+                                            className={cn(inputClass, 'w-28 py-0.5')}
+                                        />
+                                        <button
+                                            type="submit"
+                                            disabled={!newArm.trim()}
+                                            className="p-1 rounded-md text-[var(--color-accent)] hover:bg-[var(--color-accent-subtle)] disabled:opacity-40"
+                                            title="Add arm"
+                                        >
+                                            <Plus size={13} />
+                                        </button>
+                                    </form>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* ── Fields ─────────────────────────────────────────── */}
+                        {topLevel.map(field => field.field_type !== 'group' ? renderField(field, null) : (
+                            <div key={field.id} className="space-y-2">
+                                <p className="text-[13px] font-semibold text-[var(--color-text-primary)]">{field.name}</p>
+                                {arms.length === 0 ? (
+                                    <p className="text-[12px] text-[var(--color-text-tertiary)]">Add the study arms above to fill this in per arm.</p>
+                                ) : arms.map(arm => (
+                                    <div key={arm.id} className="p-3 rounded-lg border border-[var(--color-border-subtle)] bg-[var(--color-bg-elevated)] space-y-2.5">
+                                        <p className="text-[12px] font-semibold text-[var(--color-text-secondary)]">{arm.label}</p>
+                                        {form.fields.filter(f => f.parent_id === field.id).map(child => renderField(child, arm.id))}
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                        {form.fields.length === 0 && (
+                            <p className="py-8 text-center text-[12px] text-[var(--color-text-tertiary)]">This form has no fields yet.</p>
+                        )}
+                    </>
+                )}
+            </div>
+
+            <ExtractionFormsDialog
+                isOpen={showForms}
+                initialFormId={formId}
+                onClose={() => setShowForms(false)}
+                onChanged={() => {
+                    loadForms()
+                    loadExtraction()
+                }}
+            />
+        </div>
+    )
+}
+
+// ── Value Input ──────────────────────────────────────────────────────────────
+
+interface ValueInputProps {
+    field: ExtractionField
+    value: ExtractionValue | undefined
+    annotations: Annotation[]
+    nodes: Node[]
+    onSave: (patch: { value?: string | null; annotation_id?: string | null }) => Promise<boolean>
+    onOpenAnnotation: (annotationId: string) => void
+}
+
+function ValueInput({ field, value, annotations, nodes, onSave, onOpenAnnotation }: ValueInputProps) {
+    const stored = value?.value == null ? '' : String(value.value)
+    const [draft, setDraft] = useState(stored)
+    const [picking, setPicking] = useState(false)
+
+    useEffect(() => {
+        setDraft(stored)
+    }, [stored])
+
+    const commit = async (next: string) => {
+        if (next.trim() === stored) return
+        if (!(await onSave({ value: next }))) setDraft(stored)
+    }
+
+    const cited = value?.annotation_id ? annotations.find(a => a.id === value.annotation_id) : undefined
+    const colorOf = (ann: Annotation) => nodes.find(n => n.id === ann.node_id)?.color
+
+    return (
+        <div className="space-y-1">
+            <label className="block text-[12px] text-[var(--color-text-secondary)]">{field.name}</label>
+            <div className="flex items-center gap-1.5">
+                {field.field_type === 'categorical' ? (
+                    <select
+                        value={draft}
+                        onChange={(e) => {
+                            setDraft(e.target.value)
+                            commit(e.target.value)
+                        }}
+                        className={cn(inputClass, 'flex-1 min-w-0')}
+                    >
+                        <option value="">—</option>
+                        {field.options.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                ) : (
+                    <input
+                        value={draft}
+                        inputMode={field.field_type === 'integer' ? 'numeric' : field.field_type === 'decimal' ? 'decimal' : undefined}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onBlur={() => commit(draft)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') (e.target as HTMLInputElement).blur()
+                            if (e.key === 'Escape') setDraft(stored)
+                        }}
+                        className={cn(inputClass, 'flex-1 min-w-0', field.field_type !== 'text' && 'tabular-nums')}
+                    />
+                )}
+                {field.unit && <span className="text-[11px] text-[var(--color-text-tertiary)] shrink-0">{field.unit}</span>}
+                <button
+                    onClick={() => setPicking(p => !p)}
+                    className={cn(
+                        'p-1 rounded-md transition-colors shrink-0',
+                        cited || picking
+                            ? 'text-[var(--color-accent)] bg-[var(--color-accent-subtle)]'
+                            : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)]'
+                    )}
+                    title="Cite the annotation this value comes from"
+                >
+                    <Quote size={12} />
+                </button>
+            </div>
+
+            {cited && !picking && (
+                <div className="flex items-start gap-1">
+                    <button
+                        onClick={() => onOpenAnnotation(cited.id)}
+                        className="flex-1 min-w-0 text-left pl-2 text-[11px] text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] transition-colors"
+                        style={{ borderLeft: `2px solid ${colorOf(cited) ?? 'var(--color-border)'}` }}
+                        title="Show the cited passage"
+                    >
+                        <span className="line-clamp-2">"{cited.content}"</span>
+                        <span className="tabular-nums">p. {cited.page_number}</span>
+                    </button>
+                    <button
+                        onClick={() => onSave({ annotation_id: null })}
+                        className="p-0.5 rounded text-[var(--color-text-tertiary)] hover:text-red-400"
+                        title="Remove citation"
+                    >
+                        <X size={11} />
+                    </button>
+                </div>
+            )}
+
+            {picking && (
+                <div className="max-h-44 overflow-y-auto rounded-md border border-[var(--color-border)] bg-[var(--color-bg-elevated)] p-1 space-y-0.5">
+                    {annotations.length === 0 && (
+                        <p className="px-2 py-2 text-[11px] text-[var(--color-text-tertiary)]">Highlight the passage in the PDF first.</p>
+                    )}
+                    {[...annotations].sort((a, b) => a.page_number - b.page_number).map(ann => (
+                        <button
+                            key={ann.id}
+                            onClick={async () => {
+                                if (await onSave({ annotation_id: ann.id })) setPicking(false)
+                            }}
+                            className={cn(
+                                'w-full text-left px-2 py-1 rounded text-[11px] transition-colors',
+                                ann.id === value?.annotation_id ? 'bg-[var(--color-accent-subtle)]' : 'hover:bg-[var(--color-bg-hover)]'
+                            )}
+                            style={{ borderLeft: `2px solid ${colorOf(ann) ?? 'var(--color-border)'}` }}
+                        >
+                            <span className="text-[var(--color-text-tertiary)] tabular-nums">p. {ann.page_number} · </span>
+                            <span className="text-[var(--color-text-secondary)] line-clamp-2 inline">{ann.content}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
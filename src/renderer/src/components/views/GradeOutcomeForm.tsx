@@ -0,0 +1,451 @@
+// ============================================================================
+// ThreadMed — GRADE Outcome Form
+// ============================================================================
+// One outcome's certainty assessment: the body of evidence (design, linked
+// meta-analysis, effect columns for the Summary of Findings), a card per
+// GRADE domain with its rating, rationale and cited annotations from any
+// paper, and the resulting certainty with an optional override.
+// ============================================================================
+
+import { useState, useEffect, useRef } from 'react'
+import { Trash2, Link2, X, ExternalLink } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import { flattenNodeTree } from '@/lib/codebook'
+import type {
+    AnnotationWithContext, GradeAssessment, GradeCertainty, GradeDefinitions, GradeDomain, GradeDomainResult,
+    GradeImportance, GradeOutcomeUpdate, GradeStudyDesign, MetaAnalysis, Node
+} from '@/types'
+
+interface GradeOutcomeFormProps {
+    definitions: GradeDefinitions
+    assessment: GradeAssessment
+    analyses: MetaAnalysis[]
+    nodes: Node[]
+    onChange: (assessment: GradeAssessment) => void
+    onDelete: () => void
+    onOpenAnnotation: (paperId: string, annotationId: string) => void
+}
+
+const IMPORTANCE: Array<{ id: GradeImportance; label: string }> = [
+    { id: 'critical', label: 'Critical' },
+    { id: 'important', label: 'Important' },
+    { id: 'limited', label: 'Of limited importance' }
+]
+
+const inputClass = 'w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]'
+
+export function CertaintyBadge({ definitions, value, muted }: { definitions: GradeDefinitions; value: GradeCertainty; muted?: boolean }) {
+    const level = definitions.certainty.find(c => c.value === value)!
+    return (
+        <span
+            className={cn(
+                'inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[11px] font-medium border border-[var(--color-border-subtle)] whitespace-nowrap',
+                muted ? 'text-[var(--color-text-tertiary)]' : 'text-[var(--color-text-primary)]'
+            )}
+            title={level.meaning}
+        >
+            <span style={{ color: level.color }}>{level.symbol}</span>
+            {level.label}
+        </span>
+    )
+}
+
+/** A text input that saves on blur; `onCommit` returns false to reject the draft */
+function DraftInput({ value, placeholder, numeric, onCommit }: {
+    value: string
+    placeholder?: string
+    numeric?: boolean
+    onCommit: (value: string) => boolean | void
+}) {
+    const [draft, setDraft] = useState(value)
+
+    useEffect(() => {
+        setDraft(value)
+    }, [value])
+
+    return (
+        <input
+            value={draft}
+            inputMode={numeric ? 'numeric' : undefined}
+            placeholder={placeholder}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => {
+                if (draft.trim() !== value && onCommit(draft.trim()) === false) setDraft(value)
+            }}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur() }}
+            className={inputClass}
+        />
+    )
+}
+
+/** Node whose highlights the evidence picker shows first for a domain */
+function defaultNodeId(domain: GradeDomain, nodes: Node[]): string {
+    const preferred = domain.direction === 'down' ? 'limitations' : 'outcomes'
+    return nodes.find(n => n.name.toLowerCase() === preferred)?.id ?? nodes[0]?.id ?? ''
+}
+
+export function GradeOutcomeForm({ definitions, assessment, analyses, nodes, onChange, onDelete, onOpenAnnotation }: GradeOutcomeFormProps) {
+    const [comments, setComments] = useState(assessment.comments)
+    // Unsaved rationale per domain, saved on blur
+    const [rationale, setRationale] = useState<Record<string, string>>({})
+    const [pickingEvidence, setPickingEvidence] = useState<string | null>(null)
+    const [pickerNodeId, setPickerNodeId] = useState('')
+    const [pickerAnnotations, setPickerAnnotations] = useState<AnnotationWithContext[]>([])
+    const pickerRef = useRef<HTMLDivElement>(null)
+
+    useEffect(() => {
+        setComments(assessment.comments)
+        setRationale(Object.fromEntries(assessment.domains.map(d => [d.domain_id, d.rationale])))
+        setPickingEvidence(null)
+    }, [assessment.id])
+
+    // Close the evidence picker when clicking elsewhere
+    useEffect(() => {
+        if (!pickingEvidence) return
+        const handleClick = (e: MouseEvent) => {
+            if (pickerRef.current && !pickerRef.current.contains(e.target as globalThis.Node)) setPickingEvidence(null)
+        }
+        document.addEventListener('mousedown', handleClick)
+        return () => document.removeEventListener('mousedown', handleClick)
+    }, [pickingEvidence])
+
+    useEffect(() => {
+        if (!pickingEvidence || !pickerNodeId) {
+            setPickerAnnotations([])
+            return
+        }
+        window.api.annotations.forNode(pickerNodeId)
+            .then(setPickerAnnotations)
+            .catch(err => console.error('[GradeOutcomeForm] Failed to load highlights:', err))
+    }, [pickingEvidence, pickerNodeId])
+
+    const save = async (action: () => Promise<GradeAssessment>, what: string) => {
+        try {
+            onChange(await action())
+        } catch (err) {
+            console.error(`[GradeOutcomeForm] Failed to ${what}:`, err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const update = (data: GradeOutcomeUpdate, what: string) => save(() => window.api.grade.update(assessment.id, data), what)
+
+    const handleCount = (column: 'studies' | 'participants', text: string) => {
+        const value = text === '' ? null : Number(text.replace(/,/g, ''))
+        if (value !== null && (!Number.isInteger(value) || value < 0)) {
+            alert(`"${text}" is not a whole number`)
+            return false
+        }
+        update({ [column]: value }, `save number of ${column}`)
+    }
+
+    const handleRename = (name: string) => {
+        if (!name) return false
+        update({ name }, 'rename outcome')
+    }
+
+    const handleRating = (domainId: string, rating: number) => {
+        save(() => window.api.grade.setDomain(assessment.id, domainId, { rating }), 'save rating')
+    }
+
+    const handleRationaleBlur = (domain: GradeDomainResult) => {
+        const text = rationale[domain.domain_id] ?? ''
+        if (text === domain.rationale) return
+        save(() => window.api.grade.setDomain(assessment.id, domain.domain_id, { rationale: text }), 'save rationale')
+    }
+
+    const handleOpenPicker = (domain: GradeDomain) => {
+        if (pickingEvidence === domain.id) {
+            setPickingEvidence(null)
+            return
+        }
+        setPickerNodeId(defaultNodeId(domain, nodes))
+        setPickingEvidence(domain.id)
+    }
+
+    const handleLinkEvidence = (domainId: string, annotationId: string) => {
+        setPickingEvidence(null)
+        save(() => window.api.grade.addEvidence(assessment.id, domainId, annotationId), 'cite evidence')
+    }
+
+    const handleUnlinkEvidence = (domainId: string, annotationId: string) => {
+        save(() => window.api.grade.removeEvidence(assessment.id, domainId, annotationId), 'remove evidence')
+    }
+
+    const handleCommentsBlur = () => {
+        if (comments === assessment.comments) return
+        update({ comments }, 'save comments')
+    }
+
+    const linkedAnalysis = analyses.find(a => a.id === assessment.meta_analysis_id)
+    const fromAnalysis = (entered: string | number | null, shown: string | number | null) =>
+        linkedAnalysis && (entered === null || entered === '') && shown !== null && shown !== '' ? String(shown) : undefined
+
+    return (
+        <article className="max-w-3xl mx-auto px-8 py-8 space-y-5">
+            {/* ── Outcome ───────────────────────────────────────────────────── */}
+            <header className="space-y-3">
+                <div className="flex items-start gap-3">
+                    <div className="flex-1">
+                        <DraftInput value={assessment.name} onCommit={handleRename} />
+                    </div>
+                    <CertaintyBadge definitions={definitions} value={assessment.certainty} />
+                    <button
+                        onClick={onDelete}
+                        className="p-1.5 rounded-lg text-[var(--color-text-tertiary)] hover:text-red-400 hover:bg-red-500/10 transition-colors shrink-0"
+                        title="Delete outcome"
+                    >
+                        <Trash2 size={15} />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                    <label className="block space-y-1">
+                        <span className="text-[11px] font-medium text-[var(--color-text-tertiary)]">Study design</span>
+                        <select
+                            value={assessment.study_design}
+                            onChange={(e) => update({ study_design: e.target.value as GradeStudyDesign }, 'save study design')}
+                            className={inputClass}
+                        >
+                            <option value="randomized">Randomized trials (start high)</option>
+                            <option value="observational">Observational studies (start low)</option>
+                        </select>
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-[11px] font-medium text-[var(--color-text-tertiary)]">Importance</span>
+                        <select
+                            value={assessment.importance}
+                            onChange={(e) => update({ importance: e.target.value as GradeImportance }, 'save importance')}
+                            className={inputClass}
+                        >
+                            {IMPORTANCE.map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-[11px] font-medium text-[var(--color-text-tertiary)]">Meta-analysis</span>
+                        <select
+                            value={assessment.meta_analysis_id ?? ''}
+                            onChange={(e) => update({ meta_analysis_id: e.target.value || null }, 'link meta-analysis')}
+                            className={inputClass}
+                        >
+                            <option value="">None</option>
+                            {analyses.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                        </select>
+                    </label>
+                </div>
+            </header>
+
+            {/* ── Effect ────────────────────────────────────────────────────── */}
+            <section className="rounded-xl border border-[var(--color-border)] p-4 space-y-3">
+                <div>
+                    <h2 className="text-[13px] font-semibold text-[var(--color-text-primary)]">Summary of Findings columns</h2>
+                    <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">
+                        {linkedAnalysis
+                            ? 'Leave a column empty to use the linked meta-analysis (shown greyed out).'
+                            : 'Link a meta-analysis to fill these in from the pooled result, or enter them by hand.'}
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="block space-y-1">
+                        <span className="text-[11px] font-medium text-[var(--color-text-tertiary)]">Studies</span>
+                        <DraftInput
+                            numeric
+                            value={assessment.studies === null ? '' : String(assessment.studies)}
+                            placeholder={fromAnalysis(assessment.studies, assessment.effect.studies)}
+                            onCommit={text => handleCount('studies', text)}
+                        />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-[11px] font-medium text-[var(--color-text-tertiary)]">Participants</span>
+                        <DraftInput
+                            numeric
+                            value={assessment.participants === null ? '' : String(assessment.participants)}
+                            placeholder={fromAnalysis(assessment.participants, assessment.effect.participants)}
+                            onCommit={text => handleCount('participants', text)}
+                        />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-[11px] font-medium text-[var(--color-text-tertiary)]">Risk with comparator</span>
+                        <DraftInput
+                            value={assessment.comparator_risk}
+                            placeholder={fromAnalysis(assessment.comparator_risk, assessment.effect.comparator_risk) ?? 'e.g. 120 per 1,000'}
+                            onCommit={comparator_risk => { update({ comparator_risk }, 'save comparator risk') }}
+                        />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-[11px] font-medium text-[var(--color-text-tertiary)]">Risk with intervention</span>
+                        <DraftInput
+                            value={assessment.intervention_risk}
+                            placeholder={fromAnalysis(assessment.intervention_risk, assessment.effect.intervention_risk) ?? 'e.g. 55 per 1,000 (38 to 79)'}
+                            onCommit={intervention_risk => { update({ intervention_risk }, 'save intervention risk') }}
+                        />
+                    </label>
+                    <label className="block space-y-1 col-span-2">
+                        <span className="text-[11px] font-medium text-[var(--color-text-tertiary)]">Relative effect (95% CI)</span>
+                        <DraftInput
+                            value={assessment.relative_effect}
+                            placeholder={fromAnalysis(assessment.relative_effect, assessment.effect.relative_effect) ?? 'e.g. RR 0.46 (0.32 to 0.66)'}
+                            onCommit={relative_effect => { update({ relative_effect }, 'save relative effect') }}
+                        />
+                    </label>
+                </div>
+            </section>
+
+            {/* ── Domains ───────────────────────────────────────────────────── */}
+            {definitions.domains.map(domain => {
+                const result = assessment.domains.find(d => d.domain_id === domain.id)!
+                const linked = new Set(result.evidence.map(e => e.annotation_id))
+                const available = pickerAnnotations.filter(a => !linked.has(a.id))
+                return (
+                    <section key={domain.id} className="rounded-xl border border-[var(--color-border)] overflow-hidden">
+                        <div className="flex items-center gap-3 px-4 py-3 bg-[var(--color-bg-elevated)] border-b border-[var(--color-border-subtle)]">
+                            <span className="text-[11px] font-bold text-[var(--color-text-tertiary)] shrink-0 uppercase">
+                                {domain.direction === 'down' ? 'Rate down' : 'Rate up'}
+                            </span>
+                            <h2 className="flex-1 text-[13px] font-semibold text-[var(--color-text-primary)]">{domain.name}</h2>
+                            <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5 shrink-0">
+                                {domain.options.map(option => (
+                                    <button
+                                        key={option.value}
+                                        onClick={() => handleRating(domain.id, option.value)}
+                                        className={cn(
+                                            'px-2.5 py-1 rounded-md text-[12px] font-medium transition-colors',
+                                            result.rating === option.value
+                                                ? 'bg-[var(--color-bg-surface)] text-[var(--color-text-primary)] shadow-sm'
+                                                : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                                        )}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="px-4 py-3 space-y-3">
+                            <p className="text-[12px] text-[var(--color-text-tertiary)] leading-relaxed">{domain.guidance}</p>
+
+                            <textarea
+                                value={rationale[domain.id] ?? ''}
+                                onChange={(e) => setRationale(prev => ({ ...prev, [domain.id]: e.target.value }))}
+                                onBlur={() => handleRationaleBlur(result)}
+                                placeholder={result.rating === 0 ? 'Rationale (optional)' : 'Rationale, shown as a footnote in the Summary of Findings'}
+                                rows={2}
+                                className="w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-2 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)] resize-y"
+                            />
+
+                            {result.evidence.map(evidence => (
+                                <div
+                                    key={evidence.annotation_id}
+                                    className="group flex items-start gap-2 pl-3 pr-2 py-1.5 rounded-md bg-[var(--color-bg-elevated)] border-l-2"
+                                    style={{ borderLeftColor: evidence.node_color }}
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-[12px] text-[var(--color-text-secondary)] leading-relaxed line-clamp-3">
+                                            “{evidence.content}”
+                                        </p>
+                                        <p className="text-[11px] text-[var(--color-text-tertiary)] truncate mt-0.5">
+                                            {evidence.paper_title} · p. {evidence.page_number}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => onOpenAnnotation(evidence.paper_id, evidence.annotation_id)}
+                                        className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Open in paper"
+                                    >
+                                        <ExternalLink size={12} />
+                                    </button>
+                                    <button
+                                        onClick={() => handleUnlinkEvidence(domain.id, evidence.annotation_id)}
+                                        className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Remove evidence"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                </div>
+                            ))}
+
+                            <div className="relative" ref={pickingEvidence === domain.id ? pickerRef : undefined}>
+                                <button
+                                    onClick={() => handleOpenPicker(domain)}
+                                    disabled={nodes.length === 0}
+                                    className="flex items-center gap-1.5 text-[12px] font-medium text-[var(--color-accent)] hover:underline disabled:text-[var(--color-text-tertiary)] disabled:no-underline"
+                                >
+                                    <Link2 size={12} />
+                                    Cite a highlight
+                                </button>
+                                {pickingEvidence === domain.id && (
+                                    <div className="absolute z-20 left-0 top-full mt-1 w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg shadow-xl p-1">
+                                        <select
+                                            value={pickerNodeId}
+                                            onChange={(e) => setPickerNodeId(e.target.value)}
+                                            className="w-full mb-1 bg-[var(--color-bg-surface)] border border-[var(--color-border-subtle)] rounded-md px-2 py-1 text-[12px] text-[var(--color-text-primary)] outline-none"
+                                        >
+                                            {flattenNodeTree(nodes).map(n => <option key={n.id} value={n.id}>{'\u00A0\u00A0'.repeat(n.depth)}{n.name}</option>)}
+                                        </select>
+                                        <div className="max-h-64 overflow-y-auto custom-scrollbar">
+                                            {available.map(annotation => (
+                                                <button
+                                                    key={annotation.id}
+                                                    onClick={() => handleLinkEvidence(domain.id, annotation.id)}
+                                                    className="w-full text-left flex items-start gap-2 px-2 py-1.5 rounded-md hover:bg-[var(--color-bg-hover)]"
+                                                >
+                                                    <span className="w-2 h-2 rounded-full mt-1.5 shrink-0" style={{ background: annotation.node_color }} />
+                                                    <span className="flex-1 min-w-0">
+                                                        <span className="block text-[12px] text-[var(--color-text-secondary)] line-clamp-2">{annotation.content}</span>
+                                                        <span className="block text-[11px] text-[var(--color-text-tertiary)] truncate">
+                                                            {annotation.paper_title} · p. {annotation.page_number}
+                                                        </span>
+                                                    </span>
+                                                </button>
+                                            ))}
+                                            {available.length === 0 && (
+                                                <p className="px-2 py-3 text-center text-[12px] text-[var(--color-text-tertiary)]">
+                                                    No highlights coded with this node.
+                                                </p>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </section>
+                )
+            })}
+
+            {/* ── Certainty ─────────────────────────────────────────────────── */}
+            <section className="rounded-xl border border-[var(--color-border)] p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                    <h2 className="flex-1 text-[14px] font-semibold text-[var(--color-text-primary)]">Certainty of the evidence</h2>
+                    <CertaintyBadge definitions={definitions} value={assessment.certainty} />
+                </div>
+                <p className="text-[12px] text-[var(--color-text-tertiary)]">
+                    {assessment.study_design === 'randomized' ? 'Randomized trials start at high' : 'Observational studies start at low'} certainty,
+                    one level per level rated down or up, never below very low or above high.
+                </p>
+                <div className="flex items-center gap-2 text-[12px] text-[var(--color-text-secondary)]">
+                    <span>From the domains:</span>
+                    <CertaintyBadge definitions={definitions} value={assessment.derived_certainty} muted />
+                    <span className="ml-auto">Override</span>
+                    <select
+                        value={assessment.certainty_override ?? ''}
+                        onChange={(e) => update({ certainty_override: (e.target.value || null) as GradeCertainty | null }, 'save certainty')}
+                        className="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-md px-2 py-1 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                    >
+                        <option value="">None</option>
+                        {definitions.certainty.map(c => (
+                            <option key={c.value} value={c.value}>{c.label}</option>
+                        ))}
+                    </select>
+                </div>
+                <textarea
+                    value={comments}
+                    onChange={(e) => setComments(e.target.value)}
+                    onBlur={handleCommentsBlur}
+                    placeholder="Comments for the Summary of Findings"
+                    rows={3}
+                    className="w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-2 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)] resize-y"
+                />
+            </section>
+        </article>
+    )
+}
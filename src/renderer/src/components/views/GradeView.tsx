@@ -0,0 +1,361 @@
+// ============================================================================
+// ThreadMed — GRADE View
+// ============================================================================
+// Certainty of the evidence per outcome. The Outcomes tab lists the outcomes
+// in table order beside the form for the selected one; the Summary of
+// Findings tab previews the table the outcomes add up to, with its header
+// (population, setting, intervention, comparison) and DOCX / HTML export.
+// ============================================================================
+
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Download, Gauge, ChevronUp, ChevronDown } from 'lucide-react'
+import { GradeOutcomeForm, CertaintyBadge } from './GradeOutcomeForm'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import { useDataRefresh } from '@/lib/events'
+import type { GradeAssessment, GradeDefinitions, MetaAnalysis, Node, SofExportFormat, SofHeader, SofTable } from '@/types'
+
+type GradeMode = 'outcomes' | 'sof'
+
+interface GradeViewProps {
+    onOpenAnnotation: (paperId: string, annotationId: string) => void
+}
+
+const EXPORT_FORMATS: Array<{ id: SofExportFormat; label: string }> = [
+    { id: 'docx', label: 'Word' },
+    { id: 'html', label: 'HTML' }
+]
+
+const HEADER_FIELDS: Array<{ key: keyof SofHeader; label: string; placeholder: string }> = [
+    { key: 'population', label: 'Patient or population', placeholder: 'e.g. Adults with compensated cirrhosis' },
+    { key: 'setting', label: 'Setting', placeholder: 'e.g. Outpatient hepatology clinics' },
+    { key: 'intervention', label: 'Intervention', placeholder: 'e.g. Non-selective beta-blockers' },
+    { key: 'comparison', label: 'Comparison', placeholder: 'e.g. Placebo' }
+]
+
+export function GradeView({ onOpenAnnotation }: GradeViewProps) {
+    const [definitions, setDefinitions] = useState<GradeDefinitions | null>(null)
+    const [assessments, setAssessments] = useState<GradeAssessment[]>([])
+    const [analyses, setAnalyses] = useState<MetaAnalysis[]>([])
+    const [nodes, setNodes] = useState<Node[]>([])
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const [mode, setMode] = useState<GradeMode>('outcomes')
+    const [newName, setNewName] = useState('')
+    const [header, setHeader] = useState<SofHeader | null>(null)
+    const [table, setTable] = useState<SofTable | null>(null)
+    const [exporting, setExporting] = useState<SofExportFormat | null>(null)
+
+    const selected = assessments.find(a => a.id === selectedId) ?? null
+
+    const load = useCallback(async () => {
+        try {
+            const [defs, list, metaList, nodeList] = await Promise.all([
+                window.api.grade.domains(),
+                window.api.grade.list(),
+                window.api.meta.list(),
+                window.api.nodes.list()
+            ])
+            setDefinitions(defs)
+            setAssessments(list)
+            setAnalyses(metaList)
+            setNodes(nodeList)
+            setSelectedId(prev => list.some(a => a.id === prev) ? prev : list[0]?.id ?? null)
+        } catch (err) {
+            console.error('[GradeView] Failed to load outcomes:', err)
+        }
+    }, [])
+
+    const loadTable = useCallback(async () => {
+        if (mode !== 'sof') return
+        try {
+            const [sofHeader, sof] = await Promise.all([window.api.grade.header(), window.api.grade.sof()])
+            setHeader(sofHeader)
+            setTable(sof)
+        } catch (err) {
+            console.error('[GradeView] Failed to build Summary of Findings:', err)
+        }
+    }, [mode])
+
+    useEffect(() => {
+        load()
+    }, [load])
+
+    useEffect(() => {
+        loadTable()
+    }, [loadTable])
+
+    // Annotations, papers and meta-analyses change elsewhere
+    useDataRefresh(load)
+    useDataRefresh(loadTable)
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!newName.trim()) return
+        try {
+            const created = await window.api.grade.create(newName)
+            setNewName('')
+            setAssessments(prev => [...prev, created])
+            setSelectedId(created.id)
+        } catch (err) {
+            console.error('[GradeView] Failed to create outcome:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleChange = (updated: GradeAssessment) => {
+        setAssessments(prev => prev.map(a => (a.id === updated.id ? updated : a)))
+    }
+
+    const handleMove = async (id: string, direction: 'up' | 'down') => {
+        try {
+            setAssessments(await window.api.grade.move(id, direction))
+        } catch (err) {
+            console.error('[GradeView] Failed to reorder outcomes:', err)
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!selected) return
+        if (!confirm(`Delete the GRADE assessment for "${selected.name}"? This cannot be undone.`)) return
+        try {
+            await window.api.grade.delete(selected.id)
+            await load()
+        } catch (err) {
+            console.error('[GradeView] Failed to delete outcome:', err)
+        }
+    }
+
+    const handleHeaderBlur = async (key: keyof SofHeader, value: string) => {
+        if (table?.header[key] === value.trim()) return
+        try {
+            await window.api.grade.setHeader({ [key]: value })
+            await loadTable()
+        } catch (err) {
+            console.error('[GradeView] Failed to save header:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleExport = async (format: SofExportFormat) => {
+        try {
+            setExporting(format)
+            await window.api.grade.exportSof(format)
+        } catch (err) {
+            console.error('[GradeView] Export failed:', err)
+            alert(`Export failed: ${remoteErrorMessage(err)}`)
+        } finally {
+            setExporting(null)
+        }
+    }
+
+    return (
+        <div className="h-full flex flex-col animate-fade-in">
+            {/* ── Toolbar ───────────────────────────────────────────────────── */}
+            <div className="flex items-center gap-4 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5 shrink-0">
+                    {([['outcomes', 'Outcomes'], ['sof', 'Summary of Findings']] as Array<[GradeMode, string]>).map(([id, label]) => (
+                        <button
+                            key={id}
+                            onClick={() => setMode(id)}
+                            className={cn(
+                                'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                mode === id
+                                    ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                    : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                            )}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {mode === 'sof' && (
+                    <div className="ml-auto flex items-center gap-2">
+                        {EXPORT_FORMATS.map(f => (
+                            <button
+                                key={f.id}
+                                onClick={() => handleExport(f.id)}
+                                disabled={exporting !== null}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors disabled:opacity-50"
+                            >
+                                <Download size={12} />
+                                {exporting === f.id ? 'Exporting…' : f.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {mode === 'outcomes' ? (
+                <div className="flex-1 min-h-0 flex">
+                    {/* ── Outcomes ──────────────────────────────────────────── */}
+                    <aside className="w-64 shrink-0 border-r border-[var(--color-border-subtle)] flex flex-col">
+                        <form onSubmit={handleCreate} className="p-2 flex items-center gap-1.5 border-b border-[var(--color-border-subtle)]">
+                            <input
+                                value={newName}
+                                onChange={(e) => setNewName(e.target.value)}
+                                placeholder="New outcome"
+                                className="flex-1 min-w-0 bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-2.5 py-1.5 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                            />
+                            <button
+                                type="submit"
+                                disabled={!newName.trim()}
+                                title="Add outcome"
+                                className="p-1.5 rounded-lg bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-hover)] transition-colors disabled:opacity-50"
+                            >
+                                <Plus size={14} />
+                            </button>
+                        </form>
+                        <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+                            {assessments.map((a, i) => (
+                                <div
+                                    key={a.id}
+                                    onClick={() => setSelectedId(a.id)}
+                                    className={cn(
+                                        'group flex items-start gap-1 px-3 py-2 rounded-lg cursor-pointer transition-colors',
+                                        a.id === selectedId ? 'bg-[var(--color-accent-subtle)]' : 'hover:bg-[var(--color-bg-hover)]'
+                                    )}
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-[12px] font-medium text-[var(--color-text-primary)] line-clamp-2 leading-snug">{a.name}</p>
+                                        {definitions && (
+                                            <div className="mt-1">
+                                                <CertaintyBadge definitions={definitions} value={a.certainty} />
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleMove(a.id, 'up') }}
+                                            disabled={i === 0}
+                                            title="Move up"
+                                            className="p-0.5 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] disabled:opacity-30"
+                                        >
+                                            <ChevronUp size={12} />
+                                        </button>
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleMove(a.id, 'down') }}
+                                            disabled={i === assessments.length - 1}
+                                            title="Move down"
+                                            className="p-0.5 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] disabled:opacity-30"
+                                        >
+                                            <ChevronDown size={12} />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                            {assessments.length === 0 && (
+                                <p className="px-2 py-8 text-center text-[12px] text-[var(--color-text-tertiary)]">No outcomes assessed yet.</p>
+                            )}
+                        </div>
+                    </aside>
+
+                    <div className="flex-1 min-w-0 overflow-y-auto custom-scrollbar">
+                        {selected && definitions ? (
+                            <GradeOutcomeForm
+                                definitions={definitions}
+                                assessment={selected}
+                                analyses={analyses}
+                                nodes={nodes}
+                                onChange={handleChange}
+                                onDelete={handleDelete}
+                                onOpenAnnotation={onOpenAnnotation}
+                            />
+                        ) : (
+                            <div className="h-full flex items-center justify-center text-[var(--color-text-tertiary)]">
+                                <div className="text-center space-y-2 max-w-sm">
+                                    <Gauge size={36} className="mx-auto opacity-30 mb-3" />
+                                    <p className="text-lg font-medium text-[var(--color-text-secondary)]">No outcome selected</p>
+                                    <p className="text-sm">
+                                        Add each critical and important outcome, rate the certainty of its evidence domain by domain,
+                                        and cite the highlights behind every judgement.
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            ) : (
+                /* ── Summary of Findings ───────────────────────────────────── */
+                <div className="flex-1 min-h-0 overflow-auto custom-scrollbar px-8 py-6 space-y-5">
+                    {header && (
+                        <div className="grid grid-cols-2 gap-3 max-w-4xl">
+                            {HEADER_FIELDS.map(field => (
+                                <label key={field.key} className="block space-y-1">
+                                    <span className="text-[11px] font-medium text-[var(--color-text-tertiary)]">{field.label}</span>
+                                    <input
+                                        value={header[field.key]}
+                                        onChange={(e) => setHeader({ ...header, [field.key]: e.target.value })}
+                                        onBlur={(e) => handleHeaderBlur(field.key, e.target.value)}
+                                        placeholder={field.placeholder}
+                                        className="w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    {table && definitions && (
+                        <>
+                            <h2 className="text-[15px] font-semibold text-[var(--color-text-primary)]">Summary of findings: {table.title}</h2>
+                            <table className="w-full text-[12px] border-collapse">
+                                <thead className="text-[11px] text-[var(--color-text-secondary)] bg-[var(--color-bg-elevated)]">
+                                    <tr>
+                                        <th rowSpan={2} className="border border-[var(--color-border)] px-2 py-1.5 text-left font-semibold">Outcomes</th>
+                                        <th colSpan={2} className="border border-[var(--color-border)] px-2 py-1.5 font-semibold">Anticipated absolute effects (95% CI)</th>
+                                        <th rowSpan={2} className="border border-[var(--color-border)] px-2 py-1.5 text-left font-semibold">Relative effect (95% CI)</th>
+                                        <th rowSpan={2} className="border border-[var(--color-border)] px-2 py-1.5 text-left font-semibold">№ of participants (studies)</th>
+                                        <th rowSpan={2} className="border border-[var(--color-border)] px-2 py-1.5 text-left font-semibold">Certainty (GRADE)</th>
+                                        <th rowSpan={2} className="border border-[var(--color-border)] px-2 py-1.5 text-left font-semibold">Comments</th>
+                                    </tr>
+                                    <tr>
+                                        <th className="border border-[var(--color-border)] px-2 py-1.5 text-left font-semibold">Risk with comparator</th>
+                                        <th className="border border-[var(--color-border)] px-2 py-1.5 text-left font-semibold">Risk with intervention</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-[var(--color-text-primary)]">
+                                    {table.rows.map(row => (
+                                        <tr key={row.outcome_id} className="align-top">
+                                            <td className="border border-[var(--color-border)] px-2 py-1.5">
+                                                <span className="font-semibold">{row.outcome}</span>
+                                                <span className="block text-[11px] text-[var(--color-text-tertiary)] capitalize">{row.importance}</span>
+                                            </td>
+                                            <td className="border border-[var(--color-border)] px-2 py-1.5">{row.comparator_risk}</td>
+                                            <td className="border border-[var(--color-border)] px-2 py-1.5">{row.intervention_risk}</td>
+                                            <td className="border border-[var(--color-border)] px-2 py-1.5">{row.relative_effect}</td>
+                                            <td className="border border-[var(--color-border)] px-2 py-1.5">{row.participants}</td>
+                                            <td className="border border-[var(--color-border)] px-2 py-1.5 whitespace-nowrap">
+                                                <CertaintyBadge definitions={definitions} value={row.certainty} />
+                                                {row.footnotes.length > 0 && (
+                                                    <sup className="ml-1 text-[var(--color-text-tertiary)]">{row.footnotes.join(',')}</sup>
+                                                )}
+                                            </td>
+                                            <td className="border border-[var(--color-border)] px-2 py-1.5 whitespace-pre-wrap">{row.comments}</td>
+                                        </tr>
+                                    ))}
+                                    {table.rows.length === 0 && (
+                                        <tr>
+                                            <td colSpan={7} className="border border-[var(--color-border)] px-2 py-6 text-center text-[var(--color-text-tertiary)]">
+                                                Add outcomes on the Outcomes tab to build the table.
+                                            </td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+
+                            {table.footnotes.length > 0 && (
+                                <div className="space-y-1 max-w-4xl">
+                                    <h3 className="text-[12px] font-semibold text-[var(--color-text-secondary)]">Explanations</h3>
+                                    {table.footnotes.map(note => (
+                                        <p key={note.marker} className="text-[12px] text-[var(--color-text-secondary)] leading-relaxed">
+                                            <sup className="mr-1">{note.marker}</sup>{note.text}
+                                        </p>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -11,12 +11,17 @@
 //
 // The popup is rendered via createPortal to document.body so it escapes
 // the stacking context of the PDF page and sits above the textLayer.
+//
+// Highlights cited in memos get a backlink badge at the end of their first
+// line, in a separate layer above the textLayer so it stays clickable.
 // ============================================================================
 
 import { useState, useEffect, useRef } from 'react'
 import { createPortal } from 'react-dom'
-import type { Annotation, Node, Tag } from '@/types'
+import type { Annotation, MemoBacklink, Node, Tag } from '@/types'
 import { cn } from '@/lib/utils'
+import { flattenNodeTree } from '@/lib/codebook'
+import { MemoBacklinksBadge } from './MemoBacklinks'
 
 interface HighlightLayerProps {
     pageNumber: number
@@ -24,8 +29,11 @@ interface HighlightLayerProps {
     nodes: Node[]
     scale: number
     editingAnnotationId?: string | null
+    /** Memos citing each annotation, keyed by annotation id */
+    backlinks?: Map<string, MemoBacklink[]>
     onCreateAnnotation: (content: string, pageNumber: number, rectsJson: string, nodeId: string, tagId?: string) => void
     onUpdateAnnotation?: (content: string, pageNumber: number, rectsJson: string) => void
+    onOpenMemo?: (memoId: string) => void
 }
 
 interface SelectionPopup {
@@ -38,7 +46,7 @@ interface SelectionPopup {
 
 type PopupStep = 'node' | 'tag'
 
-export function HighlightLayer({ pageNumber, annotations, nodes, scale, editingAnnotationId, onCreateAnnotation, onUpdateAnnotation }: HighlightLayerProps) {
+export function HighlightLayer({ pageNumber, annotations, nodes, scale, editingAnnotationId, backlinks, onCreateAnnotation, onUpdateAnnotation, onOpenMemo }: HighlightLayerProps) {
     const [popup, setPopup] = useState<SelectionPopup | null>(null)
     const [popupStep, setPopupStep] = useState<PopupStep>('node')
     const [selectedNode, setSelectedNode] = useState<Node | null>(null)
@@ -297,6 +305,35 @@ export function HighlightLayer({ pageNumber, annotations, nodes, scale, editingA
                 })}
             </div>
 
+            {/* Memo backlink badges — above the textLayer so they receive clicks */}
+            {backlinks && backlinks.size > 0 && (
+                <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 3 }}>
+                    {pageAnnotations.map(ann => {
+                        const links = backlinks.get(ann.id)
+                        if (!links || !ann.rects_json) return null
+                        try {
+                            const [first] = JSON.parse(ann.rects_json) as { x: number; y: number; width: number; height: number }[]
+                            if (!first) return null
+                            return (
+                                <MemoBacklinksBadge
+                                    key={ann.id}
+                                    backlinks={links}
+                                    onOpenMemo={onOpenMemo}
+                                    className="absolute pointer-events-auto shadow-md bg-[var(--color-accent)] text-white"
+                                    style={{
+                                        left: (first.x + first.width) * scale,
+                                        top: first.y * scale,
+                                        transform: 'translate(-30%, -70%)'
+                                    }}
+                                />
+                            )
+                        } catch {
+                            return null
+                        }
+                    })}
+                </div>
+            )}
+
             {/* Popup rendered via portal to escape stacking context */}
             {popup && createPortal(
                 <div
@@ -319,7 +356,7 @@ export function HighlightLayer({ pageNumber, annotations, nodes, scale, editingA
                             <p className="text-[11px] font-medium text-[var(--color-text-tertiary)] px-2 pt-1 pb-0.5 uppercase tracking-wider">
                                 Assign to Node
                             </p>
-                            {nodes.map(node => (
+                            {flattenNodeTree(nodes).map(node => (
                                 <button
                                     key={node.id}
                                     onClick={() => handleNodeClick(node)}
@@ -327,6 +364,7 @@ export function HighlightLayer({ pageNumber, annotations, nodes, scale, editingA
                                         "flex items-center gap-2.5 w-full px-2.5 py-1.5 rounded-lg text-left text-[13px] font-medium",
                                         "text-[var(--color-text-primary)] hover:bg-[var(--color-bg-active)] transition-colors cursor-pointer"
                                     )}
+                                    style={node.depth > 0 ? { paddingLeft: `${10 + node.depth * 14}px` } : undefined}
                                 >
                                     <span
                                         className="w-3 h-3 rounded-full shrink-0"
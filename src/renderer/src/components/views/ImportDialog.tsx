@@ -0,0 +1,329 @@
+// ============================================================================
+// ThreadMed — Import Dialog
+// ============================================================================
+// Preview step for reference imports (RIS, NBIB, BibTeX, CSL-JSON). Lists
+// every record as new, duplicate or malformed, lets the user pick which to
+// import and the folder they should be filed into. The search source the file
+// came from is recorded for the PRISMA flow diagram.
+// ============================================================================
+
+import { useState, useEffect, useMemo } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Download, FileText, AlertTriangle, Copy, CheckCircle2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { Folder, ImportPreview, ImportPreviewRecord, ImportRecordStatus, ImportResult, SearchSource, SearchSourceKind } from '@/types'
+
+interface ImportDialogProps {
+    preview: ImportPreview | null
+    folders: Folder[]
+    /** Folder preselected as the import target (usually the one being viewed) */
+    defaultFolderId: string | null
+    onClose: () => void
+    onImported: (result: ImportResult) => void
+}
+
+type StatusFilter = 'all' | ImportRecordStatus
+
+const NEW_FOLDER = '__new__'
+
+const FORMAT_LABELS: Record<ImportPreview['format'], string> = {
+    ris: 'RIS',
+    nbib: 'PubMed NBIB',
+    bibtex: 'BibTeX',
+    'csl-json': 'CSL-JSON'
+}
+
+const STATUS_STYLES: Record<ImportRecordStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+    new: { label: 'New', className: 'text-[var(--color-success)] bg-[var(--color-success)]/10', icon: CheckCircle2 },
+    duplicate: { label: 'Duplicate', className: 'text-[var(--color-warning)] bg-[var(--color-warning)]/10', icon: Copy },
+    malformed: { label: 'Malformed', className: 'text-[var(--color-error)] bg-[var(--color-error)]/10', icon: AlertTriangle }
+}
+
+export const SOURCE_KIND_LABELS: Record<SearchSourceKind, string> = {
+    database: 'Database',
+    register: 'Register',
+    other: 'Other method'
+}
+
+/** Best guess at the search source: NBIB files come from PubMed, otherwise the file name */
+function suggestedSource(preview: ImportPreview): string {
+    if (preview.format === 'nbib') return 'PubMed'
+    return preview.file_name.replace(/\.[^.]+$/, '')
+}
+
+/** "Parent / Child" labels so nested folders are distinguishable in the select */
+function folderPath(folder: Folder, folders: Folder[]): string {
+    const names = [folder.name]
+    let parent = folders.find(f => f.id === folder.parent_id)
+    while (parent) {
+        names.unshift(parent.name)
+        parent = folders.find(f => f.id === parent!.parent_id)
+    }
+    return names.join(' / ')
+}
+
+export function ImportDialog({ preview, folders, defaultFolderId, onClose, onImported }: ImportDialogProps) {
+    const [selected, setSelected] = useState<Set<number>>(new Set())
+    const [filter, setFilter] = useState<StatusFilter>('all')
+    const [target, setTarget] = useState<string>('')
+    const [newFolderName, setNewFolderName] = useState('')
+    const [isImporting, setIsImporting] = useState(false)
+    const [sources, setSources] = useState<SearchSource[]>([])
+    const [sourceName, setSourceName] = useState('')
+    const [sourceKind, setSourceKind] = useState<SearchSourceKind>('database')
+
+    // Reset selection whenever a new file is previewed: new records are checked by default
+    useEffect(() => {
+        if (!preview) return
+        setSelected(new Set(preview.records.filter(r => r.status === 'new').map(r => r.index)))
+        setFilter('all')
+        setTarget(defaultFolderId ?? '')
+        setNewFolderName(preview.file_name.replace(/\.[^.]+$/, ''))
+        setSourceName(suggestedSource(preview))
+        setSourceKind('database')
+        setIsImporting(false)
+        window.api.prisma.sources()
+            .then(setSources)
+            .catch(err => console.error('[ImportDialog] Failed to load search sources:', err))
+    }, [preview, defaultFolderId])
+
+    // Reuse the type of a known source when its name is picked
+    const handleSourceNameChange = (name: string) => {
+        setSourceName(name)
+        const known = sources.find(s => s.name.toLowerCase() === name.trim().toLowerCase())
+        if (known) setSourceKind(known.kind)
+    }
+
+    const folderOptions = useMemo(
+        () => folders
+            .map(f => ({ id: f.id, label: folderPath(f, folders) }))
+            .sort((a, b) => a.label.localeCompare(b.label)),
+        [folders]
+    )
+
+    if (!preview) return null
+
+    const visible = filter === 'all' ? preview.records : preview.records.filter(r => r.status === filter)
+    const selectable = (r: ImportPreviewRecord) => r.status !== 'malformed'
+
+    const toggle = (index: number) => {
+        setSelected(prev => {
+            const next = new Set(prev)
+            if (next.has(index)) next.delete(index)
+            else next.add(index)
+            return next
+        })
+    }
+
+    const visibleSelectable = visible.filter(selectable)
+    const allVisibleSelected = visibleSelectable.length > 0 && visibleSelectable.every(r => selected.has(r.index))
+    const toggleAllVisible = () => {
+        setSelected(prev => {
+            const next = new Set(prev)
+            visibleSelectable.forEach(r => allVisibleSelected ? next.delete(r.index) : next.add(r.index))
+            return next
+        })
+    }
+
+    const handleImport = async () => {
+        if (target === NEW_FOLDER && !newFolderName.trim()) return
+        try {
+            setIsImporting(true)
+            const result = await window.api.import.commit(preview.file_path, {
+                indexes: [...selected],
+                folderId: target && target !== NEW_FOLDER ? target : null,
+                newFolderName: target === NEW_FOLDER ? newFolderName.trim() : null,
+                sourceName: sourceName.trim() || null,
+                sourceKind
+            })
+            if (result.errors.length > 0) {
+                console.error('[ImportDialog] Some records failed to import:', result.errors)
+                alert(`Imported ${result.imported} papers. ${result.errors.length} records failed:\n\n${result.errors.slice(0, 5).join('\n')}`)
+            }
+            onImported(result)
+            onClose()
+        } catch (err) {
+            console.error('[ImportDialog] Import failed:', err)
+            alert('Import failed. See console for details.')
+            setIsImporting(false)
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-4xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Import References</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5 flex items-center gap-1.5 min-w-0">
+                            <FileText size={12} className="shrink-0" />
+                            <span className="truncate">{preview.file_name}</span>
+                            <span className="shrink-0">· {FORMAT_LABELS[preview.format]} · {preview.records.length} records</span>
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Status Filter ─────────────────────────────────────────── */}
+                <div className="flex items-center gap-2 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                    {(['all', 'new', 'duplicate', 'malformed'] as StatusFilter[]).map(status => (
+                        <button
+                            key={status}
+                            onClick={() => setFilter(status)}
+                            className={cn(
+                                'px-3 py-1 rounded-full text-[12px] font-medium border transition-colors',
+                                filter === status
+                                    ? 'border-[var(--color-accent)] bg-[var(--color-accent-subtle)] text-[var(--color-accent)]'
+                                    : 'border-[var(--color-border-subtle)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)]'
+                            )}
+                        >
+                            {status === 'all' ? 'All' : STATUS_STYLES[status].label}
+                            <span className="ml-1.5 tabular-nums opacity-70">
+                                {status === 'all' ? preview.records.length : preview.counts[status]}
+                            </span>
+                        </button>
+                    ))}
+                    <label className="ml-auto flex items-center gap-2 text-[12px] text-[var(--color-text-secondary)] cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={allVisibleSelected}
+                            onChange={toggleAllVisible}
+                            disabled={visibleSelectable.length === 0}
+                            className="accent-[var(--color-accent)]"
+                        />
+                        Select all shown
+                    </label>
+                </div>
+
+                {/* ── Search Source ─────────────────────────────────────────── */}
+                <div className="flex items-center gap-2 px-6 py-2.5 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <span className="text-[12px] text-[var(--color-text-secondary)] shrink-0">Identified from</span>
+                    <input
+                        type="text"
+                        list="import-search-sources"
+                        value={sourceName}
+                        onChange={(e) => handleSourceNameChange(e.target.value)}
+                        placeholder="Not tracked"
+                        className="w-56 bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-1 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                    />
+                    <datalist id="import-search-sources">
+                        {sources.map(s => <option key={s.id} value={s.name} />)}
+                    </datalist>
+                    <select
+                        value={sourceKind}
+                        onChange={(e) => setSourceKind(e.target.value as SearchSourceKind)}
+                        disabled={!sourceName.trim()}
+                        className="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-2 py-1 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)] disabled:opacity-50"
+                    >
+                        {(Object.keys(SOURCE_KIND_LABELS) as SearchSourceKind[]).map(kind => (
+                            <option key={kind} value={kind}>{SOURCE_KIND_LABELS[kind]}</option>
+                        ))}
+                    </select>
+                    <span className="text-[11px] text-[var(--color-text-tertiary)] truncate">
+                        All {preview.records.length} records are counted in the PRISMA flow, including duplicates and records left unchecked
+                    </span>
+                </div>
+
+                {/* ── Record List ───────────────────────────────────────────── */}
+                <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-[var(--color-border-subtle)]">
+                    {visible.map(record => {
+                        const style = STATUS_STYLES[record.status]
+                        const Icon = style.icon
+                        return (
+                            <label
+                                key={record.index}
+                                className={cn(
+                                    'flex items-start gap-3 px-6 py-3 transition-colors',
+                                    selectable(record) ? 'cursor-pointer hover:bg-[var(--color-bg-hover)]' : 'opacity-70'
+                                )}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={selected.has(record.index)}
+                                    onChange={() => toggle(record.index)}
+                                    disabled={!selectable(record)}
+                                    className="mt-1 accent-[var(--color-accent)]"
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-[13px] font-medium text-[var(--color-text-primary)] leading-snug">
+                                        {record.title || <span className="italic text-[var(--color-text-tertiary)]">Record {record.index + 1}</span>}
+                                    </p>
+                                    {record.status !== 'malformed' && (
+                                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5 truncate">
+                                            {record.authors.length > 0 ? record.authors.slice(0, 3).join('; ') : 'Unknown author'}
+                                            {record.authors.length > 3 ? ' et al.' : ''}
+                                            {record.year ? ` · ${record.year}` : ''}
+                                            {record.journal ? ` · ${record.journal}` : ''}
+                                            {record.doi ? ` · ${record.doi}` : ''}
+                                        </p>
+                                    )}
+                                    {record.reason && (
+                                        <p className="text-[11px] text-[var(--color-text-tertiary)] mt-1 italic">{record.reason}</p>
+                                    )}
+                                </div>
+                                <span className={cn('shrink-0 flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium', style.className)}>
+                                    <Icon size={11} />
+                                    {style.label}
+                                </span>
+                            </label>
+                        )
+                    })}
+                    {visible.length === 0 && (
+                        <p className="px-6 py-12 text-center text-[13px] text-[var(--color-text-tertiary)]">No records in this category.</p>
+                    )}
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <div className="px-6 py-4 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex items-center gap-3 shrink-0 rounded-b-2xl">
+                    <span className="text-[13px] text-[var(--color-text-secondary)] shrink-0">File into</span>
+                    <select
+                        value={target}
+                        onChange={(e) => setTarget(e.target.value)}
+                        className="bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)] max-w-[240px]"
+                    >
+                        <option value="">No folder</option>
+                        {folderOptions.map(f => (
+                            <option key={f.id} value={f.id}>{f.label}</option>
+                        ))}
+                        <option value={NEW_FOLDER}>New folder…</option>
+                    </select>
+                    {target === NEW_FOLDER && (
+                        <input
+                            type="text"
+                            value={newFolderName}
+                            onChange={(e) => setNewFolderName(e.target.value)}
+                            placeholder="Folder name"
+                            className="w-48 bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                        />
+                    )}
+
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="ml-auto px-4 py-2 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleImport}
+                        disabled={isImporting || selected.size === 0 || (target === NEW_FOLDER && !newFolderName.trim())}
+                        className="flex items-center gap-2 px-5 py-2 bg-[var(--color-accent)] text-white text-[13px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-[var(--color-accent)]/20"
+                    >
+                        <Download size={14} />
+                        {isImporting ? 'Importing...' : `Import ${selected.size} paper${selected.size !== 1 ? 's' : ''}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
@@ -3,12 +3,15 @@
 // ============================================================================
 
 import { useState, useEffect, Fragment } from 'react'
-import { BookOpen, ExternalLink, Plus, FileText, Trash2, Folder as FolderIcon, Edit2, ChevronRight, FileUp, FileMinus } from 'lucide-react'
+import { BookOpen, ExternalLink, Plus, FileText, Trash2, Folder as FolderIcon, Edit2, ChevronRight, FileUp, FileMinus, Download, Upload, Check, Copy, Archive } from 'lucide-react'
 import { PaperDialog } from './PaperDialog'
+import { ImportDialog } from './ImportDialog'
+import { DuplicatesDialog } from './DuplicatesDialog'
+import { ArchivedPapersDialog } from './ArchivedPapersDialog'
 import { triggerDataRefresh, useDataRefresh } from '@/lib/events'
 import { isDescendant, getPathDepth, getTreeDepth } from '@/lib/dnd'
-import { cn } from '@/lib/utils'
-import type { Paper, Folder, CreatePaperInput, PaperWithAuthors } from '@/types'
+import { cn, remoteErrorMessage, citedAnnotationsWarning } from '@/lib/utils'
+import type { Paper, Folder, CreatePaperInput, PaperWithAuthors, ImportPreview, ImportResult, ReferenceExportFormat, ReferenceExportScope } from '@/types'
 
 interface LibraryViewProps {
     selectedFolderId: string | null
@@ -27,11 +30,28 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
     const [paperFoldersMap, setPaperFoldersMap] = useState<Record<string, string[]>>({})
     const [dragOverFolderId, setDragOverFolderId] = useState<string | null>(null)
     const [dragOverPaperId, setDragOverPaperId] = useState<string | null>(null)
+    const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+    const [selectedPaperIds, setSelectedPaperIds] = useState<Set<string>>(new Set())
+    const [exportOpen, setExportOpen] = useState(false)
+    const [showDuplicates, setShowDuplicates] = useState(false)
+    const [archivedCount, setArchivedCount] = useState(0)
+    const [showArchived, setShowArchived] = useState(false)
 
     useEffect(() => {
         loadData()
+        setSelectedPaperIds(new Set())
     }, [selectedFolderId])
 
+    // Close the export menu on outside click
+    useEffect(() => {
+        if (!exportOpen) return
+        const handleDocClick = (e: MouseEvent) => {
+            if (!(e.target as HTMLElement).closest('[data-export-menu]')) setExportOpen(false)
+        }
+        document.addEventListener('mousedown', handleDocClick)
+        return () => document.removeEventListener('mousedown', handleDocClick)
+    }, [exportOpen])
+
     useDataRefresh(loadData)
 
     async function loadData() {
@@ -62,9 +82,13 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
                 setPapers(folderPapers)
             } else {
                 // Otherwise load all papers
-                const list = await window.api.papers.list()
+                const [list, archived] = await Promise.all([
+                    window.api.papers.list(),
+                    window.api.papers.listArchived()
+                ])
                 setCurrentFolder(null)
                 setPapers(list)
+                setArchivedCount(archived.length)
             }
         } catch (err) {
             console.error('[LibraryView] Failed to load papers:', err)
@@ -75,15 +99,16 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
 
     async function handleDelete(e: React.MouseEvent, id: string) {
         e.stopPropagation() // Prevent selecting the paper
-        if (confirm('Are you sure you want to delete this paper? This will also delete any annotations and the PDF file from disk.')) {
-            try {
-                await window.api.papers.delete(id)
-                await loadData() // Refresh view
-                triggerDataRefresh() // Refresh Sidebar & StatusBar
-            } catch (err) {
-                console.error('[LibraryView] Failed to delete paper:', err)
-                alert('Failed to delete paper. See console for details.')
-            }
+        try {
+            // Deleting cascades to memo_references, so warn before breaking citations
+            const cited = citedAnnotationsWarning(await window.api.memos.backlinksForPaper(id))
+            if (!confirm(`Are you sure you want to delete this paper? This will also delete any annotations and the PDF file from disk.${cited}`)) return
+            await window.api.papers.delete(id)
+            await loadData() // Refresh view
+            triggerDataRefresh() // Refresh Sidebar & StatusBar
+        } catch (err) {
+            console.error('[LibraryView] Failed to delete paper:', err)
+            alert('Failed to delete paper. See console for details.')
         }
     }
 
@@ -110,6 +135,54 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
         triggerDataRefresh()
     }
 
+    async function handleChooseImportFile() {
+        try {
+            const preview = await window.api.import.chooseFile()
+            if (preview) setImportPreview(preview)
+        } catch (err) {
+            console.error('[LibraryView] Failed to read reference file:', err)
+            alert(`Could not import references: ${remoteErrorMessage(err)}`)
+        }
+    }
+
+    async function handleImported(result: ImportResult) {
+        triggerDataRefresh()
+        if (result.folder_id && result.folder_id !== selectedFolderId) {
+            onFolderSelect(result.folder_id)
+        } else {
+            await loadData()
+        }
+    }
+
+    const togglePaperSelected = (paperId: string) => {
+        setSelectedPaperIds(prev => {
+            const next = new Set(prev)
+            if (next.has(paperId)) next.delete(paperId)
+            else next.add(paperId)
+            return next
+        })
+    }
+
+    async function handleExportReferences(format: ReferenceExportFormat, scope: ReferenceExportScope) {
+        setExportOpen(false)
+        try {
+            await window.api.export.references(format, scope)
+        } catch (err) {
+            console.error('[LibraryView] Reference export failed:', err)
+            alert('Export failed. See the console for details.')
+        }
+    }
+
+    const importDialog = (
+        <ImportDialog
+            preview={importPreview}
+            folders={folders}
+            defaultFolderId={selectedFolderId}
+            onClose={() => setImportPreview(null)}
+            onImported={handleImported}
+        />
+    )
+
     if (loading) {
         return (
             <div className="flex items-center justify-center h-full">
@@ -123,7 +196,7 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
         : folders.filter(f => f.parent_id === null)
 
     // ── Empty State: Welcome Screen ──────────────────────────────────────────
-    if (!currentFolder && papers.length === 0 && subfolders.length === 0) {
+    if (!currentFolder && papers.length === 0 && subfolders.length === 0 && archivedCount === 0) {
         return (
             <div className="flex items-center justify-center h-full px-8">
                 <div className="text-center space-y-10 max-w-xl animate-fade-in">
@@ -209,6 +282,13 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
                             <Plus size={16} />
                             Add Paper Manually
                         </button>
+                        <button
+                            onClick={handleChooseImportFile}
+                            className="flex items-center gap-3 px-8 py-3.5 rounded-xl bg-[var(--color-bg-elevated)] border border-[var(--color-border)] text-[var(--color-text-secondary)] text-[14px] font-semibold hover:bg-[var(--color-bg-hover)] hover:border-[var(--color-text-tertiary)] transition-all hover:-translate-y-0.5 active:translate-y-0"
+                        >
+                            <Download size={16} />
+                            Import File
+                        </button>
                     </div>
                 </div>
 
@@ -217,6 +297,7 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
                     onClose={() => setIsDialogOpen(false)}
                     onSave={handleSavePaper}
                 />
+                {importDialog}
             </div>
         )
     }
@@ -337,16 +418,96 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
                         </span>
                     </h2>
                 </div>
-                <button
-                    onClick={() => {
-                        setEditingPaper(null)
-                        setIsDialogOpen(true)
-                    }}
-                    className="flex items-center gap-2.5 px-5 py-2.5 rounded-xl bg-[var(--color-accent)] text-white text-[13px] font-semibold hover:bg-[var(--color-accent-hover)] transition-all shadow-md shadow-[var(--color-accent)]/15 hover:-translate-y-0.5 active:translate-y-0"
-                >
-                    <Plus size={14} />
-                    Add Paper
-                </button>
+                <div className="flex items-center gap-2.5">
+                    {selectedPaperIds.size > 0 && (
+                        <button
+                            onClick={() => setSelectedPaperIds(new Set())}
+                            className="text-[12px] text-[var(--color-text-tertiary)] hover:text-[var(--color-accent)] transition-colors mr-1"
+                            title="Clear selection"
+                        >
+                            {selectedPaperIds.size} selected · Clear
+                        </button>
+                    )}
+                    <div className="relative" data-export-menu>
+                        <button
+                            onClick={() => setExportOpen(o => !o)}
+                            className="flex items-center gap-2.5 px-5 py-2.5 rounded-xl bg-[var(--color-bg-elevated)] border border-[var(--color-border)] text-[var(--color-text-secondary)] text-[13px] font-semibold hover:bg-[var(--color-bg-hover)] transition-all hover:-translate-y-0.5 active:translate-y-0"
+                            title="Export BibTeX, RIS or CSL-JSON"
+                        >
+                            <Upload size={14} />
+                            Export
+                        </button>
+                        {exportOpen && (
+                            <div className="absolute right-0 top-full mt-1.5 z-40 w-60 rounded-xl border border-[var(--color-border)] bg-[var(--color-bg-elevated)] shadow-xl p-2 animate-fade-in">
+                                {([
+                                    selectedPaperIds.size > 0
+                                        ? { label: `Selected papers (${selectedPaperIds.size})`, scope: { kind: 'selection', paperIds: [...selectedPaperIds] } }
+                                        : null,
+                                    currentFolder
+                                        ? { label: `Folder "${currentFolder.name}"`, scope: { kind: 'folder', folderId: currentFolder.id } }
+                                        : null,
+                                    { label: 'Whole library', scope: { kind: 'library' } }
+                                ].filter(Boolean) as Array<{ label: string; scope: ReferenceExportScope }>).map(({ label, scope }, i) => (
+                                    <div key={scope.kind}>
+                                        {i > 0 && <div className="border-t border-[var(--color-border-subtle)] my-1.5" />}
+                                        <p className="px-2 pt-1 pb-1 text-[10px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)] truncate">{label}</p>
+                                        <div className="flex gap-1 px-1">
+                                            {([
+                                                ['bibtex', 'BibTeX'],
+                                                ['ris', 'RIS'],
+                                                ['csl-json', 'CSL-JSON']
+                                            ] as Array<[ReferenceExportFormat, string]>).map(([format, formatLabel]) => (
+                                                <button
+                                                    key={format}
+                                                    onClick={() => handleExportReferences(format, scope)}
+                                                    className="flex-1 px-2 py-1.5 rounded-md text-[12px] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                                >
+                                                    {formatLabel}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <button
+                        onClick={() => setShowDuplicates(true)}
+                        className="flex items-center gap-2.5 px-5 py-2.5 rounded-xl bg-[var(--color-bg-elevated)] border border-[var(--color-border)] text-[var(--color-text-secondary)] text-[13px] font-semibold hover:bg-[var(--color-bg-hover)] transition-all hover:-translate-y-0.5 active:translate-y-0"
+                        title="Find and merge duplicate papers"
+                    >
+                        <Copy size={14} />
+                        Duplicates
+                    </button>
+                    {!currentFolder && archivedCount > 0 && (
+                        <button
+                            onClick={() => setShowArchived(true)}
+                            className="flex items-center gap-2.5 px-5 py-2.5 rounded-xl bg-[var(--color-bg-elevated)] border border-[var(--color-border)] text-[var(--color-text-secondary)] text-[13px] font-semibold hover:bg-[var(--color-bg-hover)] transition-all hover:-translate-y-0.5 active:translate-y-0"
+                            title="Papers hidden from the library"
+                        >
+                            <Archive size={14} />
+                            Archived ({archivedCount})
+                        </button>
+                    )}
+                    <button
+                        onClick={handleChooseImportFile}
+                        className="flex items-center gap-2.5 px-5 py-2.5 rounded-xl bg-[var(--color-bg-elevated)] border border-[var(--color-border)] text-[var(--color-text-secondary)] text-[13px] font-semibold hover:bg-[var(--color-bg-hover)] transition-all hover:-translate-y-0.5 active:translate-y-0"
+                        title="Import RIS, PubMed NBIB, BibTeX or CSL-JSON"
+                    >
+                        <Download size={14} />
+                        Import
+                    </button>
+                    <button
+                        onClick={() => {
+                            setEditingPaper(null)
+                            setIsDialogOpen(true)
+                        }}
+                        className="flex items-center gap-2.5 px-5 py-2.5 rounded-xl bg-[var(--color-accent)] text-white text-[13px] font-semibold hover:bg-[var(--color-accent-hover)] transition-all shadow-md shadow-[var(--color-accent)]/15 hover:-translate-y-0.5 active:translate-y-0"
+                    >
+                        <Plus size={14} />
+                        Add Paper
+                    </button>
+                </div>
             </div>
 
             {/* Subfolders */}
@@ -404,9 +565,15 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
                         "w-full text-left p-5 rounded-xl border transition-all group relative cursor-pointer",
                         dragOverPaperId === paper.id
                             ? "border-[var(--color-accent)] bg-[var(--color-accent-subtle)] ring-2 ring-[var(--color-accent)]/20 shadow-lg -translate-y-0.5"
-                            : "border-[var(--color-border-subtle)] bg-[var(--color-bg-elevated)] hover:border-[var(--color-border)] hover:bg-[var(--color-bg-hover)] hover:-translate-y-0.5 active:translate-y-0"
+                            : selectedPaperIds.has(paper.id)
+                                ? "border-[var(--color-accent)] bg-[var(--color-accent-subtle)]"
+                                : "border-[var(--color-border-subtle)] bg-[var(--color-bg-elevated)] hover:border-[var(--color-border)] hover:bg-[var(--color-bg-hover)] hover:-translate-y-0.5 active:translate-y-0"
                     )}
-                    onClick={() => onPaperSelect(paper.id)}
+                    onClick={(e) => {
+                        // Ctrl/Cmd-click selects papers for export instead of opening them
+                        if (e.metaKey || e.ctrlKey) togglePaperSelected(paper.id)
+                        else onPaperSelect(paper.id)
+                    }}
                     onDragOver={(e) => {
                         if (e.dataTransfer.types.includes('Files')) {
                             e.preventDefault()
@@ -447,22 +614,32 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
                     }}
                 >
                     <div className="flex items-start gap-4">
-                        <div
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation()
+                                togglePaperSelected(paper.id)
+                            }}
                             className={cn(
                                 "w-10 h-10 rounded-lg flex items-center justify-center shrink-0 transition-colors",
-                                paper.pdf_filename
-                                    ? "bg-[var(--color-accent-subtle)] group-hover:bg-[var(--color-accent)]/20"
-                                    : "bg-[var(--color-bg-active)] group-hover:bg-[var(--color-bg-hover)]"
+                                selectedPaperIds.has(paper.id)
+                                    ? "bg-[var(--color-accent)]"
+                                    : paper.pdf_filename
+                                        ? "bg-[var(--color-accent-subtle)] group-hover:bg-[var(--color-accent)]/20"
+                                        : "bg-[var(--color-bg-active)] group-hover:bg-[var(--color-bg-hover)]"
                             )}
-                            title={paper.pdf_filename ? 'PDF attached' : 'No PDF'}
+                            title={`${paper.pdf_filename ? 'PDF attached' : 'No PDF'} · click to select`}
                         >
-                            <FileText size={18} className={cn(
-                                "transition-colors",
-                                paper.pdf_filename
-                                    ? "text-[var(--color-accent)]"
-                                    : "text-[var(--color-text-tertiary)] opacity-40"
-                            )} />
-                        </div>
+                            {selectedPaperIds.has(paper.id) ? (
+                                <Check size={18} className="text-white" />
+                            ) : (
+                                <FileText size={18} className={cn(
+                                    "transition-colors",
+                                    paper.pdf_filename
+                                        ? "text-[var(--color-accent)]"
+                                        : "text-[var(--color-text-tertiary)] opacity-40"
+                                )} />
+                            )}
+                        </button>
                         <div className="min-w-0 flex-1 space-y-1.5">
                             <h3 className="text-[14px] font-semibold text-[var(--color-text-primary)] leading-snug group-hover:text-[var(--color-accent)] transition-colors pr-12 line-clamp-2">
                                 {paper.title}
@@ -590,6 +767,24 @@ export function LibraryView({ selectedFolderId, onPaperSelect, onFolderSelect, o
                 onSave={handleSavePaper}
                 initialData={editingPaper}
             />
+            {importDialog}
+            <DuplicatesDialog
+                isOpen={showDuplicates}
+                onClose={() => setShowDuplicates(false)}
+                onMerged={() => {
+                    setSelectedPaperIds(new Set())
+                    loadData()
+                    triggerDataRefresh()
+                }}
+            />
+            <ArchivedPapersDialog
+                isOpen={showArchived}
+                onClose={() => setShowArchived(false)}
+                onChanged={() => {
+                    loadData()
+                    triggerDataRefresh()
+                }}
+            />
         </div>
     )
 }
@@ -0,0 +1,214 @@
+// ============================================================================
+// ThreadMed — Markdown Preview
+// ============================================================================
+// Small, dependency-free Markdown renderer for memos. Produces React elements
+// directly (never innerHTML), so memo content cannot inject markup.
+//
+// Blocks:  # headings, paragraphs, - / 1. lists, > quotes, ``` code, ---
+// Inline:  **bold**, *italic*, `code`, [text](https://…)
+// Memo references: `[[annotation:<id>]]` on its own line renders a quote card
+// via `renderReference`; inside a sentence it renders as an inline chip.
+// ============================================================================
+
+import { Fragment, type ReactNode } from 'react'
+
+interface MarkdownPreviewProps {
+    content: string
+    /** Render a block-level annotation reference (quote card) */
+    renderReference: (annotationId: string) => ReactNode
+    /** Render an inline annotation reference */
+    renderInlineReference: (annotationId: string) => ReactNode
+}
+
+const REFERENCE_LINE = /^\s*\[\[annotation:([A-Za-z0-9-]+)\]\]\s*$/
+const HEADING = /^(#{1,6})\s+(.*)$/
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+const BULLET = /^\s*[-*+]\s+(.*)$/
+const ORDERED = /^\s*\d+[.)]\s+(.*)$/
+const QUOTE = /^\s*>\s?(.*)$/
+const FENCE = /^\s*```/
+
+const HEADING_CLASSES = [
+    'text-[22px] font-bold mt-6 mb-3',
+    'text-[18px] font-bold mt-5 mb-2.5',
+    'text-[16px] font-semibold mt-4 mb-2',
+    'text-[14px] font-semibold mt-3 mb-1.5',
+    'text-[13px] font-semibold mt-3 mb-1.5',
+    'text-[13px] font-semibold mt-3 mb-1.5 text-[var(--color-text-secondary)]'
+]
+
+// ── Inline ───────────────────────────────────────────────────────────────────
+
+const INLINE_PATTERNS: Array<{ regex: RegExp; render: (m: RegExpExecArray, key: string, props: MarkdownPreviewProps) => ReactNode }> = [
+    {
+        regex: /\[\[annotation:([A-Za-z0-9-]+)\]\]/,
+        render: (m, key, props) => <Fragment key={key}>{props.renderInlineReference(m[1])}</Fragment>
+    },
+    {
+        regex: /`([^`]+)`/,
+        render: (m, key) => (
+            <code key={key} className="px-1 py-0.5 rounded bg-[var(--color-bg-active)] text-[12px] font-mono">{m[1]}</code>
+        )
+    },
+    {
+        regex: /\*\*([^*]+)\*\*/,
+        render: (m, key, props) => <strong key={key} className="font-semibold text-[var(--color-text-primary)]">{renderInline(m[1], props, key)}</strong>
+    },
+    {
+        regex: /(?:\*([^*\s][^*]*)\*|_([^_\s][^_]*)_)/,
+        render: (m, key, props) => <em key={key}>{renderInline(m[1] ?? m[2], props, key)}</em>
+    },
+    {
+        regex: /\[([^\]]+)\]\(((?:https?:\/\/|mailto:)[^)\s]+)\)/,
+        render: (m, key) => (
+            <a key={key} href={m[2]} target="_blank" rel="noreferrer" className="text-[var(--color-accent)] underline underline-offset-2">{m[1]}</a>
+        )
+    }
+]
+
+/** Render inline Markdown by repeatedly consuming the earliest match */
+function renderInline(text: string, props: MarkdownPreviewProps, keyPrefix = 'i'): ReactNode[] {
+    const out: ReactNode[] = []
+    let rest = text
+    let n = 0
+
+    while (rest) {
+        let best: { index: number; match: RegExpExecArray; pattern: typeof INLINE_PATTERNS[number] } | null = null
+        for (const pattern of INLINE_PATTERNS) {
+            const match = pattern.regex.exec(rest)
+            if (match && (!best || match.index < best.index)) {
+                best = { index: match.index, match, pattern }
+            }
+        }
+
+        if (!best) {
+            out.push(rest)
+            break
+        }
+
+        if (best.index > 0) out.push(rest.slice(0, best.index))
+        out.push(best.pattern.render(best.match, `${keyPrefix}-${n++}`, props))
+        rest = rest.slice(best.index + best.match[0].length)
+    }
+
+    return out
+}
+
+/** Join soft-wrapped lines, keeping explicit line breaks (two trailing spaces) */
+function renderLines(lines: string[], props: MarkdownPreviewProps, keyPrefix: string): ReactNode[] {
+    return lines.flatMap((line, i) => {
+        const nodes = renderInline(line.trim(), props, `${keyPrefix}-${i}`)
+        if (i === lines.length - 1) return nodes
+        return [...nodes, / {2,}$/.test(line) ? <br key={`${keyPrefix}-br-${i}`} /> : ' ']
+    })
+}
+
+// ── Blocks ───────────────────────────────────────────────────────────────────
+
+function renderBlocks(source: string, props: MarkdownPreviewProps, keyPrefix = 'b'): ReactNode[] {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n')
+    const blocks: ReactNode[] = []
+    let i = 0
+
+    const key = () => `${keyPrefix}-${blocks.length}`
+    const isSpecial = (line: string) =>
+        REFERENCE_LINE.test(line) || HEADING.test(line) || RULE.test(line) ||
+        BULLET.test(line) || ORDERED.test(line) || QUOTE.test(line) || FENCE.test(line)
+
+    while (i < lines.length) {
+        const line = lines[i]
+
+        if (!line.trim()) {
+            i++
+            continue
+        }
+
+        if (FENCE.test(line)) {
+            const code: string[] = []
+            i++
+            while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++])
+            i++ // closing fence
+            blocks.push(
+                <pre key={key()} className="my-3 p-3 rounded-lg bg-[var(--color-bg-active)] text-[12px] font-mono overflow-x-auto whitespace-pre">
+                    {code.join('\n')}
+                </pre>
+            )
+            continue
+        }
+
+        const reference = line.match(REFERENCE_LINE)
+        if (reference) {
+            blocks.push(<Fragment key={key()}>{props.renderReference(reference[1])}</Fragment>)
+            i++
+            continue
+        }
+
+        const heading = line.match(HEADING)
+        if (heading) {
+            const level = heading[1].length
+            const Tag = `h${level}` as 'h1'
+            blocks.push(
+                <Tag key={key()} className={`${HEADING_CLASSES[level - 1]} text-[var(--color-text-primary)] leading-snug`}>
+                    {renderInline(heading[2], props, key())}
+                </Tag>
+            )
+            i++
+            continue
+        }
+
+        if (RULE.test(line)) {
+            blocks.push(<hr key={key()} className="my-5 border-[var(--color-border)]" />)
+            i++
+            continue
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = []
+            while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].match(QUOTE)![1])
+            blocks.push(
+                <blockquote key={key()} className="my-3 pl-4 border-l-2 border-[var(--color-border)] text-[var(--color-text-secondary)]">
+                    {renderBlocks(quoted.join('\n'), props, key())}
+                </blockquote>
+            )
+            continue
+        }
+
+        if (BULLET.test(line) || ORDERED.test(line)) {
+            const ordered = ORDERED.test(line)
+            const pattern = ordered ? ORDERED : BULLET
+            const items: string[][] = []
+            while (i < lines.length && lines[i].trim()) {
+                const item = lines[i].match(pattern)
+                if (item) items.push([item[1]])
+                else if (!isSpecial(lines[i]) && items.length > 0) items[items.length - 1].push(lines[i])
+                else break
+                i++
+            }
+            const List = ordered ? 'ol' : 'ul'
+            blocks.push(
+                <List key={key()} className={`my-3 pl-6 space-y-1 ${ordered ? 'list-decimal' : 'list-disc'}`}>
+                    {items.map((item, n) => <li key={n}>{renderLines(item, props, `${key()}-${n}`)}</li>)}
+                </List>
+            )
+            continue
+        }
+
+        const paragraph: string[] = []
+        while (i < lines.length && lines[i].trim() && !isSpecial(lines[i])) paragraph.push(lines[i++])
+        blocks.push(
+            <p key={key()} className="my-3 leading-relaxed">
+                {renderLines(paragraph, props, key())}
+            </p>
+        )
+    }
+
+    return blocks
+}
+
+export function MarkdownPreview(props: MarkdownPreviewProps) {
+    return (
+        <div className="text-[14px] text-[var(--color-text-secondary)] select-text">
+            {renderBlocks(props.content, props)}
+        </div>
+    )
+}
@@ -0,0 +1,504 @@
+// ============================================================================
+// ThreadMed — Synthesis Matrix View
+// ============================================================================
+// Papers × codes grid built from `annotations:matrixDetail`. Codes are either
+// the nodes themselves or, when pivoting on a node, the tags inside it (plus
+// an "Untagged" bucket). Every annotation is listed in its cell; clicking one
+// opens the paper and scrolls to it. Node cells roll up the codebook tree: a
+// parent lists its own annotations and those of all its sub-nodes. When
+// pivoting on nodes, fields of the data-extraction forms follow as extra
+// columns. Axes can be flipped so papers become columns.
+// ============================================================================
+
+import { useState, useEffect, useMemo } from 'react'
+import { Grid3X3, FileText, ArrowLeftRight, Download, ClipboardList } from 'lucide-react'
+import { useDataRefresh } from '@/lib/events'
+import { cn } from '@/lib/utils'
+import { flattenNodeTree, nodeLineage } from '@/lib/codebook'
+import type { ExtractionCell, ExtractionMatrix, MatrixAnnotation, MatrixExportFormat, MatrixExportOptions, Node, PaperWithAuthors, Tag } from '@/types'
+
+interface MatrixViewProps {
+    /** Open pivoted on this node's tags (e.g. from a tag search hit) */
+    focusNodeId?: string | null
+    onOpenAnnotation: (paperId: string, annotationId: string) => void
+}
+
+type PivotMode = 'node' | 'tag'
+
+/** Column/row key for annotations without a tag when pivoting on tags */
+const UNTAGGED = '__untagged__'
+
+const EXPORT_FORMATS: Array<{ id: MatrixExportFormat; label: string }> = [
+    { id: 'csv', label: 'CSV' },
+    { id: 'xlsx', label: 'Excel (.xlsx)' },
+    { id: 'markdown', label: 'Markdown table' },
+    { id: 'html', label: 'HTML table' }
+]
+
+interface AxisItem {
+    id: string
+    kind: 'paper' | 'code' | 'field'
+    label: string
+    detail?: string
+    color?: string
+    hasPdf?: boolean
+    /** Nesting level of a node in the codebook */
+    depth?: number
+}
+
+export function MatrixView({ focusNodeId, onOpenAnnotation }: MatrixViewProps) {
+    const [annotations, setAnnotations] = useState<MatrixAnnotation[]>([])
+    const [nodes, setNodes] = useState<Node[]>([])
+    const [papers, setPapers] = useState<PaperWithAuthors[]>([])
+    const [tags, setTags] = useState<Tag[]>([])
+    const [extraction, setExtraction] = useState<ExtractionMatrix | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [codedOnly, setCodedOnly] = useState(true)
+    const [pivot, setPivot] = useState<PivotMode>(focusNodeId ? 'tag' : 'node')
+    const [pivotNodeId, setPivotNodeId] = useState<string | null>(focusNodeId ?? null)
+    const [transposed, setTransposed] = useState(false)
+    const [exportOpen, setExportOpen] = useState(false)
+    const [exportOptions, setExportOptions] = useState<MatrixExportOptions>({
+        includeTags: true, includeAuthors: true, includeYear: true, includeDoi: false, includeExtraction: true
+    })
+
+    useEffect(() => {
+        loadData()
+    }, [pivot, pivotNodeId])
+
+    useDataRefresh(loadData)
+
+    async function loadData() {
+        try {
+            if (!window.api) return
+            const [nodeList, paperList] = await Promise.all([
+                window.api.nodes.list(),
+                window.api.papers.list()
+            ])
+            setNodes(nodeList)
+            setPapers(paperList)
+
+            if (pivot === 'tag') {
+                const nodeId = pivotNodeId ?? nodeList[0]?.id ?? null
+                if (!pivotNodeId && nodeId) setPivotNodeId(nodeId)
+                if (!nodeId) return
+                const [annList, tagList] = await Promise.all([
+                    window.api.annotations.matrixDetail(nodeId),
+                    window.api.tags.forNode(nodeId)
+                ])
+                setAnnotations(annList)
+                setTags(tagList)
+            } else {
+                const [annList, matrix] = await Promise.all([
+                    window.api.annotations.matrixDetail(),
+                    window.api.annotations.matrix()
+                ])
+                setAnnotations(annList)
+                setExtraction(matrix.extraction)
+                setTags([])
+            }
+        } catch (err) {
+            console.error('[MatrixView] Failed to load matrix:', err)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    // Dismiss the export menu when clicking outside it
+    useEffect(() => {
+        if (!exportOpen) return
+        const handleDocClick = (e: MouseEvent) => {
+            if (!(e.target as HTMLElement).closest('[data-export-menu]')) setExportOpen(false)
+        }
+        document.addEventListener('mousedown', handleDocClick)
+        return () => document.removeEventListener('mousedown', handleDocClick)
+    }, [exportOpen])
+
+    const handleExport = async (format: MatrixExportFormat) => {
+        setExportOpen(false)
+        try {
+            await window.api.export.matrix(format, { ...exportOptions, codedOnly })
+        } catch (err) {
+            console.error('[MatrixView] Export failed:', err)
+            alert('Export failed. See the console for details.')
+        }
+    }
+
+    const flatNodes = useMemo(() => flattenNodeTree(nodes), [nodes])
+
+    // An annotation counts towards its node and every ancestor of it
+    const codeKeysOf = (ann: MatrixAnnotation): string[] =>
+        pivot === 'node' ? nodeLineage(nodes, ann.node_id) : [ann.tag_id ?? UNTAGGED]
+
+    // Index annotations by paper → code for O(1) lookup while rendering
+    const cellIndex = useMemo(() => {
+        const index = new Map<string, Map<string, MatrixAnnotation[]>>()
+        for (const ann of annotations) {
+            if (!index.has(ann.paper_id)) index.set(ann.paper_id, new Map())
+            const byCode = index.get(ann.paper_id)!
+            for (const key of codeKeysOf(ann)) {
+                if (!byCode.has(key)) byCode.set(key, [])
+                byCode.get(key)!.push(ann)
+            }
+        }
+        return index
+    }, [annotations, nodes, pivot])
+
+    // Extracted values by paper → field, only shown when pivoting on nodes
+    const extractionIndex = useMemo(() => {
+        const index = new Map<string, Map<string, ExtractionCell>>()
+        if (pivot !== 'node' || !extraction) return index
+        for (const cell of extraction.cells) {
+            if (!index.has(cell.paper_id)) index.set(cell.paper_id, new Map())
+            index.get(cell.paper_id)!.set(cell.field_id, cell)
+        }
+        return index
+    }, [extraction, pivot])
+
+    const paperAxis = useMemo<AxisItem[]>(() => {
+        const visible = codedOnly ? papers.filter(p => cellIndex.has(p.id) || extractionIndex.has(p.id)) : papers
+        return [...visible]
+            .sort((a, b) => a.title.localeCompare(b.title))
+            .map(p => ({
+                id: p.id,
+                kind: 'paper' as const,
+                label: p.title,
+                detail: `${p.authors.length > 0 ? p.authors[0] : 'Unknown Author'}${p.authors.length > 1 ? ' et al.' : ''}${p.year ? ` · ${p.year}` : ''}`,
+                hasPdf: !!p.pdf_filename
+            }))
+    }, [papers, cellIndex, extractionIndex, codedOnly])
+
+    const pivotNode = nodes.find(n => n.id === pivotNodeId) ?? null
+
+    const codeAxis = useMemo<AxisItem[]>(() => {
+        if (pivot === 'node') {
+            const fields = (extraction?.columns ?? []).map(c => ({
+                id: c.field_id,
+                kind: 'field' as const,
+                label: c.name,
+                detail: c.unit ? `${c.form_name} · ${c.unit}` : c.form_name
+            }))
+            const codes = flatNodes.map(n => ({
+                id: n.id,
+                kind: 'code' as const,
+                label: n.name,
+                // Sub-nodes name their parents, e.g. "Outcomes › Mortality"
+                detail: n.depth > 0 ? n.path.slice(0, -1).join(' › ') : undefined,
+                color: n.color,
+                depth: n.depth
+            }))
+            return [...codes, ...fields]
+        }
+        if (!pivotNode) return []
+        const items: AxisItem[] = tags.map(t => ({ id: t.id, kind: 'code' as const, label: t.name, color: pivotNode.color }))
+        if (annotations.some(a => a.tag_id === null)) {
+            items.push({ id: UNTAGGED, kind: 'code', label: 'Untagged', detail: pivotNode.name, color: pivotNode.color })
+        }
+        return items
+    }, [pivot, flatNodes, tags, pivotNode, annotations, extraction])
+
+    const rowAxis = transposed ? codeAxis : paperAxis
+    const columnAxis = transposed ? paperAxis : codeAxis
+
+    const fieldCount = codeAxis.filter(item => item.kind === 'field').length
+
+    const cellFor = (row: AxisItem, column: AxisItem): MatrixAnnotation[] => {
+        const paperId = row.kind === 'paper' ? row.id : column.id
+        const codeId = row.kind === 'paper' ? column.id : row.id
+        return cellIndex.get(paperId)?.get(codeId) ?? []
+    }
+
+    const extractionFor = (row: AxisItem, column: AxisItem): ExtractionCell | null => {
+        const paperId = row.kind === 'paper' ? row.id : column.id
+        const fieldId = row.kind === 'paper' ? column.id : row.id
+        return extractionIndex.get(paperId)?.get(fieldId) ?? null
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <div className="animate-pulse text-[var(--color-text-tertiary)] text-sm">Loading matrix...</div>
+            </div>
+        )
+    }
+
+    const renderAxisHeader = (item: AxisItem) => {
+        if (item.kind === 'paper') {
+            return (
+                <div className="flex items-start gap-2">
+                    <FileText size={13} className={cn('shrink-0 mt-0.5', item.hasPdf ? 'text-[var(--color-accent)]' : 'opacity-30')} />
+                    <div className="min-w-0">
+                        <p className="text-[12px] font-semibold text-[var(--color-text-primary)] leading-snug line-clamp-2" title={item.label}>
+                            {item.label}
+                        </p>
+                        <p className="text-[11px] text-[var(--color-text-tertiary)] truncate mt-0.5">{item.detail}</p>
+                    </div>
+                </div>
+            )
+        }
+        if (item.kind === 'field') {
+            return (
+                <div className="flex items-start gap-2">
+                    <ClipboardList size={13} className="shrink-0 mt-0.5 text-[var(--color-text-tertiary)]" />
+                    <div className="min-w-0">
+                        <p className="text-[12px] font-semibold text-[var(--color-text-primary)] truncate" title={item.label}>{item.label}</p>
+                        <p className="text-[11px] text-[var(--color-text-tertiary)] truncate mt-0.5">{item.detail}</p>
+                    </div>
+                </div>
+            )
+        }
+        return (
+            <div className="min-w-0" style={transposed && item.depth ? { paddingLeft: `${item.depth * 14}px` } : undefined}>
+                <div className="flex items-center gap-2">
+                    <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: item.color }} />
+                    <span className={cn(
+                        'text-[12px] font-semibold truncate',
+                        item.id === UNTAGGED ? 'italic text-[var(--color-text-tertiary)]' : 'text-[var(--color-text-primary)]'
+                    )}>
+                        {item.label}
+                    </span>
+                </div>
+                {pivot === 'node' && item.detail && (
+                    <p className="text-[11px] text-[var(--color-text-tertiary)] truncate mt-0.5 ml-[18px]">{item.detail}</p>
+                )}
+            </div>
+        )
+    }
+
+    return (
+        <div className="h-full flex flex-col animate-fade-in">
+            {/* Toolbar */}
+            <div className="flex items-center gap-4 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0 flex-wrap">
+                {/* Pivot mode */}
+                <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5">
+                    {(['node', 'tag'] as PivotMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => setPivot(mode)}
+                            className={cn(
+                                'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                pivot === mode
+                                    ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                    : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                            )}
+                        >
+                            {mode === 'node' ? 'Nodes' : 'Tags'}
+                        </button>
+                    ))}
+                </div>
+
+                {pivot === 'tag' && (
+                    <select
+                        value={pivotNodeId ?? ''}
+                        onChange={(e) => setPivotNodeId(e.target.value)}
+                        className="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-2.5 py-1.5 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                    >
+                        {flatNodes.map(n => (
+                            <option key={n.id} value={n.id}>{'\u00A0\u00A0'.repeat(n.depth)}{n.name}</option>
+                        ))}
+                    </select>
+                )}
+
+                <button
+                    onClick={() => setTransposed(t => !t)}
+                    className={cn(
+                        'flex items-center gap-2 px-3 py-1.5 rounded-lg text-[12px] font-medium border transition-colors',
+                        transposed
+                            ? 'border-[var(--color-accent)] text-[var(--color-accent)] bg-[var(--color-accent-subtle)]'
+                            : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)]'
+                    )}
+                    title="Swap rows and columns"
+                >
+                    <ArrowLeftRight size={13} />
+                    {transposed ? 'Papers as columns' : 'Papers as rows'}
+                </button>
+
+                <span className="text-[12px] text-[var(--color-text-tertiary)] tabular-nums">
+                    {paperAxis.length} paper{paperAxis.length !== 1 ? 's' : ''} × {codeAxis.length - fieldCount} {pivot === 'node' ? 'node' : 'tag'}{codeAxis.length - fieldCount !== 1 ? 's' : ''}
+                    {fieldCount > 0 && ` + ${fieldCount} extraction field${fieldCount !== 1 ? 's' : ''}`}
+                </span>
+
+                <label className="flex items-center gap-2 ml-auto text-[12px] text-[var(--color-text-secondary)] cursor-pointer select-none">
+                    <input
+                        type="checkbox"
+                        checked={codedOnly}
+                        onChange={(e) => setCodedOnly(e.target.checked)}
+                        className="accent-[var(--color-accent)]"
+                    />
+                    Only papers with coded or extracted data
+                </label>
+
+                <div className="relative" data-export-menu>
+                    <button
+                        onClick={() => setExportOpen(o => !o)}
+                        className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-[12px] font-medium bg-[var(--color-accent)] text-white hover:opacity-90 transition-opacity"
+                    >
+                        <Download size={13} />
+                        Export
+                    </button>
+                    {exportOpen && (
+                        <div className="absolute right-0 top-full mt-1.5 z-40 w-56 rounded-xl border border-[var(--color-border)] bg-[var(--color-bg-elevated)] shadow-xl p-2 animate-fade-in">
+                            <p className="px-2 pt-1 pb-1.5 text-[10px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)]">Include</p>
+                            {([
+                                ['includeAuthors', 'Authors'],
+                                ['includeYear', 'Year'],
+                                ['includeDoi', 'DOI'],
+                                ['includeTags', 'Tag columns'],
+                                ['includeExtraction', 'Extracted data']
+                            ] as Array<[keyof MatrixExportOptions, string]>).map(([key, label]) => (
+                                <label key={key} className="flex items-center gap-2 px-2 py-1 text-[12px] text-[var(--color-text-secondary)] cursor-pointer select-none rounded-md hover:bg-[var(--color-bg-hover)]">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!exportOptions[key]}
+                                        onChange={(e) => setExportOptions(o => ({ ...o, [key]: e.target.checked }))}
+                                        className="accent-[var(--color-accent)]"
+                                    />
+                                    {label}
+                                </label>
+                            ))}
+                            <div className="border-t border-[var(--color-border-subtle)] my-1.5" />
+                            <p className="px-2 pb-1.5 text-[10px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)]">Save as</p>
+                            {EXPORT_FORMATS.map(f => (
+                                <button
+                                    key={f.id}
+                                    onClick={() => handleExport(f.id)}
+                                    className="w-full text-left px-2 py-1.5 rounded-md text-[12px] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                >
+                                    {f.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {paperAxis.length === 0 || codeAxis.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center text-[var(--color-text-tertiary)]">
+                    <div className="text-center space-y-2 max-w-sm">
+                        <Grid3X3 size={36} className="mx-auto opacity-30 mb-3" />
+                        <p className="text-lg font-medium text-[var(--color-text-secondary)]">Nothing to synthesise yet</p>
+                        <p className="text-sm">
+                            {pivot === 'tag'
+                                ? `No annotations have been coded to ${pivotNode?.name ?? 'this node'} yet.`
+                                : 'Highlight text in a paper and assign it to a node. Coded papers appear here.'}
+                        </p>
+                    </div>
+                </div>
+            ) : (
+                <div className="flex-1 overflow-auto">
+                    <table className="border-separate border-spacing-0 text-left min-w-full">
+                        <thead>
+                            <tr>
+                                <th className="sticky top-0 left-0 z-30 bg-[var(--color-bg-surface)] border-b border-r border-[var(--color-border-subtle)] px-4 py-3 min-w-[240px] max-w-[320px] text-[11px] font-semibold uppercase tracking-wider text-[var(--color-text-tertiary)]">
+                                    {transposed ? (pivot === 'node' ? (fieldCount > 0 ? 'Node / field' : 'Node') : `${pivotNode?.name ?? ''} tag`) : 'Paper'}
+                                </th>
+                                {columnAxis.map(col => (
+                                    <th
+                                        key={col.id}
+                                        className="sticky top-0 z-20 bg-[var(--color-bg-surface)] border-b border-r border-[var(--color-border-subtle)] px-4 py-3 min-w-[220px] max-w-[320px] align-top font-normal"
+                                        style={col.color ? { boxShadow: `inset 0 -2px 0 ${col.color}` } : undefined}
+                                    >
+                                        {renderAxisHeader(col)}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rowAxis.map(row => (
+                                <tr key={row.id} className="group">
+                                    <th
+                                        className="sticky left-0 z-10 bg-[var(--color-bg-elevated)] group-hover:bg-[var(--color-bg-hover)] border-b border-r border-[var(--color-border-subtle)] px-4 py-3 align-top font-normal min-w-[240px] max-w-[320px] transition-colors"
+                                        style={row.color ? { boxShadow: `inset 3px 0 0 ${row.color}` } : undefined}
+                                    >
+                                        {renderAxisHeader(row)}
+                                    </th>
+                                    {columnAxis.map(col => {
+                                        if (row.kind === 'field' || col.kind === 'field') {
+                                            const extracted = extractionFor(row, col)
+                                            return (
+                                                <td key={col.id} className="border-b border-r border-[var(--color-border-subtle)] px-3 py-2.5 align-top">
+                                                    {!extracted ? (
+                                                        <span className="text-[11px] text-[var(--color-text-tertiary)] opacity-40 px-1">—</span>
+                                                    ) : (
+                                                        <div className="space-y-0.5">
+                                                            {extracted.values.map(v => {
+                                                                const text = v.arm_label ? `${v.arm_label}: ${v.value}` : String(v.value)
+                                                                return v.annotation_id ? (
+                                                                    <button
+                                                                        key={v.arm_id ?? 'paper'}
+                                                                        onClick={() => onOpenAnnotation(extracted.paper_id, v.annotation_id!)}
+                                                                        className="block w-full text-left px-2 py-1 rounded-md text-[12px] text-[var(--color-text-primary)] tabular-nums hover:bg-[var(--color-bg-hover)] transition-colors"
+                                                                        title={`Open the cited passage on page ${v.page_number}`}
+                                                                    >
+                                                                        {text}
+                                                                        <span className="ml-1.5 text-[10px] text-[var(--color-text-tertiary)]">p. {v.page_number}</span>
+                                                                    </button>
+                                                                ) : (
+                                                                    <p key={v.arm_id ?? 'paper'} className="px-2 py-1 text-[12px] text-[var(--color-text-primary)] tabular-nums">{text}</p>
+                                                                )
+                                                            })}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                            )
+                                        }
+                                        const cell = cellFor(row, col)
+                                        const codeId = row.kind === 'paper' ? col.id : row.id
+                                        const fromSubNodes = pivot === 'node' ? cell.filter(a => a.node_id !== codeId).length : 0
+                                        return (
+                                            <td key={col.id} className="border-b border-r border-[var(--color-border-subtle)] px-3 py-2.5 align-top">
+                                                {cell.length === 0 ? (
+                                                    <span className="text-[11px] text-[var(--color-text-tertiary)] opacity-40 px-1">—</span>
+                                                ) : (
+                                                    <div className="space-y-1.5 max-h-56 overflow-y-auto pr-1">
+                                                        <p className="px-1 text-[10px] text-[var(--color-text-tertiary)] tabular-nums">
+                                                            {cell.length} annotation{cell.length !== 1 ? 's' : ''}
+                                                            {fromSubNodes > 0 && ` · ${fromSubNodes} from sub-nodes`}
+                                                        </p>
+                                                        {cell.map(ann => (
+                                                            <button
+                                                                key={ann.annotation_id}
+                                                                onClick={() => onOpenAnnotation(ann.paper_id, ann.annotation_id)}
+                                                                className="block w-full text-left px-2 py-1.5 rounded-md border border-transparent hover:border-[var(--color-border)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                                                style={{ borderLeft: `2px solid ${ann.node_color}` }}
+                                                                title={`Open page ${ann.page_number}`}
+                                                            >
+                                                                <p className="text-[12px] text-[var(--color-text-secondary)] leading-relaxed line-clamp-3">
+                                                                    "{ann.content}"
+                                                                </p>
+                                                                <div className="flex items-center gap-1.5 mt-1">
+                                                                    <span className="text-[10px] text-[var(--color-text-tertiary)] tabular-nums">p. {ann.page_number}</span>
+                                                                    {ann.node_id !== codeId && pivot === 'node' && (
+                                                                        <span className="text-[10px] font-medium truncate" style={{ color: ann.node_color }}>
+                                                                            {ann.node_name}
+                                                                        </span>
+                                                                    )}
+                                                                    {pivot === 'node' && ann.tag_name && (
+                                                                        <span
+                                                                            className="text-[10px] font-medium px-1.5 py-0.5 rounded-full"
+                                                                            style={{
+                                                                                backgroundColor: `${ann.node_color}18`,
+                                                                                color: ann.node_color,
+                                                                                border: `1px solid ${ann.node_color}30`
+                                                                            }}
+                                                                        >
+                                                                            {ann.tag_name}
+                                                                        </span>
+                                                                    )}
+                                                                </div>
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </td>
+                                        )
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,119 @@
+// ============================================================================
+// ThreadMed — Memo Backlinks Badge
+// ============================================================================
+// Small badge showing how many memos cite an annotation. Clicking it opens a
+// popover listing those memos; picking one jumps to the memo editor.
+//
+// The popover is rendered via createPortal so it escapes the PDF page and
+// sidebar scroll containers.
+// ============================================================================
+
+import { useState, useEffect, useRef } from 'react'
+import { createPortal } from 'react-dom'
+import { StickyNote } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { MemoBacklink } from '@/types'
+
+interface MemoBacklinksBadgeProps {
+    backlinks: MemoBacklink[]
+    onOpenMemo?: (memoId: string) => void
+    className?: string
+    style?: React.CSSProperties
+}
+
+/** Group backlink rows by annotation id */
+export function groupBacklinks(rows: MemoBacklink[]): Map<string, MemoBacklink[]> {
+    const map = new Map<string, MemoBacklink[]>()
+    for (const row of rows) {
+        if (!map.has(row.annotation_id)) map.set(row.annotation_id, [])
+        map.get(row.annotation_id)!.push(row)
+    }
+    return map
+}
+
+export function MemoBacklinksBadge({ backlinks, onOpenMemo, className, style }: MemoBacklinksBadgeProps) {
+    const [anchor, setAnchor] = useState<{ x: number; y: number } | null>(null)
+    const buttonRef = useRef<HTMLButtonElement>(null)
+
+    // Dismiss popover when clicking outside
+    useEffect(() => {
+        if (!anchor) return
+        const handleDocClick = (e: MouseEvent) => {
+            const target = e.target as HTMLElement
+            if (!target.closest('[data-memo-backlinks]') && !buttonRef.current?.contains(target)) {
+                setAnchor(null)
+            }
+        }
+        document.addEventListener('mousedown', handleDocClick)
+        return () => document.removeEventListener('mousedown', handleDocClick)
+    }, [anchor])
+
+    if (backlinks.length === 0) return null
+
+    const toggle = (e: React.MouseEvent) => {
+        e.stopPropagation()
+        if (anchor) {
+            setAnchor(null)
+            return
+        }
+        const rect = buttonRef.current!.getBoundingClientRect()
+        // Keep the popover on screen when the badge sits near the right edge
+        setAnchor({ x: Math.min(rect.left, window.innerWidth - 260), y: rect.bottom + 4 })
+    }
+
+    return (
+        <>
+            <button
+                ref={buttonRef}
+                onClick={toggle}
+                onMouseDown={(e) => e.stopPropagation()}
+                onMouseUp={(e) => e.stopPropagation()}
+                className={cn(
+                    'inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] font-semibold tabular-nums',
+                    'bg-[var(--color-accent-subtle)] text-[var(--color-accent)] hover:bg-[var(--color-accent)] hover:text-white transition-colors',
+                    className
+                )}
+                style={style}
+                title={`Cited in ${backlinks.length} memo${backlinks.length !== 1 ? 's' : ''}`}
+            >
+                <StickyNote size={10} />
+                {backlinks.length}
+            </button>
+
+            {anchor && createPortal(
+                <div
+                    data-memo-backlinks
+                    className="fixed w-[250px] rounded-xl shadow-2xl border border-[var(--color-border-subtle)] bg-[var(--color-bg-elevated)] p-2 animate-fade-in"
+                    style={{ left: anchor.x, top: anchor.y, zIndex: 9999 }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onMouseUp={(e) => e.stopPropagation()}
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    <p className="text-[11px] font-medium text-[var(--color-text-tertiary)] px-2 pt-1 pb-1.5 uppercase tracking-wider">
+                        Cited in
+                    </p>
+                    {backlinks.map(link => (
+                        <button
+                            key={link.memo_id}
+                            onClick={() => {
+                                setAnchor(null)
+                                onOpenMemo?.(link.memo_id)
+                            }}
+                            disabled={!onOpenMemo}
+                            className="flex items-center gap-2 w-full px-2.5 py-1.5 rounded-lg text-left hover:bg-[var(--color-bg-active)] transition-colors disabled:cursor-default"
+                        >
+                            <StickyNote size={13} className="shrink-0 text-[var(--color-text-tertiary)]" />
+                            <span className="flex-1 min-w-0">
+                                <span className="block text-[13px] font-medium text-[var(--color-text-primary)] truncate">{link.memo_title}</span>
+                                <span className="block text-[11px] text-[var(--color-text-tertiary)]">
+                                    Edited {new Date(link.memo_updated_at + 'Z').toLocaleDateString()}
+                                </span>
+                            </span>
+                        </button>
+                    ))}
+                </div>,
+                document.body
+            )}
+        </>
+    )
+}
@@ -0,0 +1,519 @@
+// ============================================================================
+// ThreadMed — Memos View
+// ============================================================================
+// Analytic memo editor: memo list on the left, Markdown editor with live
+// preview on the right. "Cite annotation" inserts `[[annotation:<id>]]`,
+// which the preview renders as a quote card linking back to the PDF.
+// Edits autosave after a short pause.
+// ============================================================================
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { Plus, Trash2, StickyNote, Quote, Search, X, FileText, Columns2, Eye, PenLine } from 'lucide-react'
+import { MarkdownPreview } from './MarkdownPreview'
+import { cn } from '@/lib/utils'
+import type { AnnotationWithContext, MatrixAnnotation, Memo, MemoSummary } from '@/types'
+
+interface MemosViewProps {
+    /** Memo to open on mount (e.g. from a search hit) */
+    focusMemoId?: string | null
+    onOpenAnnotation: (paperId: string, annotationId: string) => void
+}
+
+type EditorMode = 'write' | 'split' | 'preview'
+
+/** Minimal shape needed to render a quote card */
+interface CitedAnnotation {
+    id: string
+    paper_id: string
+    paper_title: string
+    node_name: string
+    node_color: string
+    tag_name?: string | null
+    content: string
+    page_number: number
+}
+
+const AUTOSAVE_DELAY = 600
+
+function fromMatrixAnnotation(a: MatrixAnnotation): CitedAnnotation {
+    return {
+        id: a.annotation_id,
+        paper_id: a.paper_id,
+        paper_title: a.paper_title,
+        node_name: a.node_name,
+        node_color: a.node_color,
+        tag_name: a.tag_name,
+        content: a.content,
+        page_number: a.page_number
+    }
+}
+
+function fromAnnotationWithContext(a: AnnotationWithContext): CitedAnnotation {
+    return {
+        id: a.id,
+        paper_id: a.paper_id,
+        paper_title: a.paper_title,
+        node_name: a.node_name,
+        node_color: a.node_color,
+        tag_name: a.tag_name,
+        content: a.content,
+        page_number: a.page_number
+    }
+}
+
+export function MemosView({ focusMemoId, onOpenAnnotation }: MemosViewProps) {
+    const [memos, setMemos] = useState<MemoSummary[]>([])
+    const [selectedId, setSelectedId] = useState<string | null>(focusMemoId ?? null)
+    const [title, setTitle] = useState('')
+    const [content, setContent] = useState('')
+    const [mode, setMode] = useState<EditorMode>('split')
+    const [saveState, setSaveState] = useState<'saved' | 'pending' | 'saving'>('saved')
+    const [cited, setCited] = useState<Map<string, CitedAnnotation>>(new Map())
+    const [loading, setLoading] = useState(true)
+    const [showPicker, setShowPicker] = useState(false)
+
+    const textareaRef = useRef<HTMLTextAreaElement>(null)
+    const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    // Latest unsaved edit, flushed when switching memos or unmounting
+    const pendingRef = useRef<{ id: string; title: string; content: string } | null>(null)
+
+    const loadMemos = useCallback(async () => {
+        try {
+            const list = await window.api.memos.list()
+            setMemos(list)
+            return list
+        } catch (err) {
+            console.error('[MemosView] Failed to load memos:', err)
+            return []
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    const loadReferences = useCallback(async (memoId: string) => {
+        try {
+            const refs = await window.api.memos.references(memoId)
+            setCited(prev => {
+                const next = new Map(prev)
+                refs.forEach(r => next.set(r.id, fromAnnotationWithContext(r)))
+                return next
+            })
+        } catch (err) {
+            console.error('[MemosView] Failed to load memo references:', err)
+        }
+    }, [])
+
+    const flushSave = useCallback(async () => {
+        if (saveTimerRef.current) {
+            clearTimeout(saveTimerRef.current)
+            saveTimerRef.current = null
+        }
+        const pending = pendingRef.current
+        if (!pending) return
+        pendingRef.current = null
+        setSaveState('saving')
+        try {
+            const saved = await window.api.memos.update(pending.id, { title: pending.title, content: pending.content })
+            if (saved) {
+                setMemos(prev => [
+                    { ...saved, reference_count: prev.find(m => m.id === saved.id)?.reference_count ?? 0 },
+                    ...prev.filter(m => m.id !== saved.id)
+                ])
+            }
+            setSaveState(pendingRef.current ? 'pending' : 'saved')
+        } catch (err) {
+            console.error('[MemosView] Failed to save memo:', err)
+            setSaveState('pending')
+        }
+    }, [])
+
+    // Initial load: pick the focused memo or the most recent one
+    useEffect(() => {
+        loadMemos().then(list => {
+            setSelectedId(current => current ?? list[0]?.id ?? null)
+        })
+        return () => { flushSave() }
+    }, [loadMemos, flushSave])
+
+    // Load the selected memo into the editor
+    useEffect(() => {
+        if (!selectedId) {
+            setTitle('')
+            setContent('')
+            return
+        }
+        let cancelled = false
+        ; (async () => {
+            try {
+                const memo: Memo | null = await window.api.memos.get(selectedId)
+                if (cancelled || !memo) return
+                setTitle(memo.title)
+                setContent(memo.content)
+                setSaveState('saved')
+                loadReferences(memo.id)
+            } catch (err) {
+                console.error('[MemosView] Failed to open memo:', err)
+            }
+        })()
+        return () => { cancelled = true }
+    }, [selectedId, loadReferences])
+
+    const scheduleSave = (nextTitle: string, nextContent: string) => {
+        if (!selectedId) return
+        const memoId = selectedId
+        pendingRef.current = { id: memoId, title: nextTitle, content: nextContent }
+        setSaveState('pending')
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+        saveTimerRef.current = setTimeout(async () => {
+            await flushSave()
+            // Reference counts and quote cards follow the saved content
+            loadMemos()
+            loadReferences(memoId)
+        }, AUTOSAVE_DELAY)
+    }
+
+    const handleSelect = async (id: string) => {
+        if (id === selectedId) return
+        await flushSave()
+        setSelectedId(id)
+    }
+
+    const handleCreate = async () => {
+        try {
+            await flushSave()
+            const memo = await window.api.memos.create()
+            await loadMemos()
+            setSelectedId(memo.id)
+            setMode('write')
+            setTimeout(() => textareaRef.current?.focus(), 50)
+        } catch (err) {
+            console.error('[MemosView] Failed to create memo:', err)
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!selectedId) return
+        if (!confirm(`Delete the memo "${title}"? This cannot be undone.`)) return
+        try {
+            if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+            pendingRef.current = null
+            await window.api.memos.delete(selectedId)
+            const list = await loadMemos()
+            setSelectedId(list[0]?.id ?? null)
+        } catch (err) {
+            console.error('[MemosView] Failed to delete memo:', err)
+        }
+    }
+
+    const handleInsertReference = (annotation: CitedAnnotation) => {
+        setCited(prev => new Map(prev).set(annotation.id, annotation))
+        setShowPicker(false)
+
+        const textarea = textareaRef.current
+        const start = textarea?.selectionStart ?? content.length
+        const end = textarea?.selectionEnd ?? content.length
+        const before = content.slice(0, start)
+        const after = content.slice(end)
+        // Put the reference on its own line so it renders as a quote card
+        const prefix = before && !before.endsWith('\n') ? '\n\n' : ''
+        const suffix = after.startsWith('\n') ? '\n' : '\n\n'
+        const token = `${prefix}[[annotation:${annotation.id}]]${suffix}`
+        const next = before + token + after
+
+        setContent(next)
+        scheduleSave(title, next)
+
+        requestAnimationFrame(() => {
+            if (!textarea) return
+            textarea.focus()
+            const caret = start + token.length
+            textarea.setSelectionRange(caret, caret)
+        })
+    }
+
+    const renderReference = (annotationId: string) => {
+        const ann = cited.get(annotationId)
+        if (!ann) {
+            return (
+                <div className="my-3 px-4 py-3 rounded-lg border border-dashed border-[var(--color-border)] text-[12px] text-[var(--color-text-tertiary)] italic">
+                    Referenced annotation no longer exists
+                </div>
+            )
+        }
+        return (
+            <button
+                onClick={() => onOpenAnnotation(ann.paper_id, ann.id)}
+                className="block w-full text-left my-3 px-4 py-3 rounded-lg bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)] hover:border-[var(--color-border)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                style={{ borderLeft: `3px solid ${ann.node_color}` }}
+                title="Open in PDF"
+            >
+                <p className="text-[13px] text-[var(--color-text-primary)] leading-relaxed italic">"{ann.content}"</p>
+                <p className="text-[11px] text-[var(--color-text-tertiary)] mt-2 flex items-center gap-1.5 min-w-0">
+                    <span className="font-medium shrink-0" style={{ color: ann.node_color }}>
+                        {ann.node_name}{ann.tag_name ? ` › ${ann.tag_name}` : ''}
+                    </span>
+                    <span className="shrink-0">·</span>
+                    <FileText size={11} className="shrink-0" />
+                    <span className="truncate">{ann.paper_title}</span>
+                    <span className="shrink-0 tabular-nums">· p. {ann.page_number}</span>
+                </p>
+            </button>
+        )
+    }
+
+    const renderInlineReference = (annotationId: string) => {
+        const ann = cited.get(annotationId)
+        if (!ann) return <span className="text-[var(--color-text-tertiary)] italic">[missing annotation]</span>
+        return (
+            <button
+                onClick={() => onOpenAnnotation(ann.paper_id, ann.id)}
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] font-medium align-baseline hover:opacity-80"
+                style={{ backgroundColor: `${ann.node_color}18`, color: ann.node_color, border: `1px solid ${ann.node_color}30` }}
+                title={ann.content}
+            >
+                <Quote size={10} />
+                p. {ann.page_number}
+            </button>
+        )
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <div className="animate-pulse text-[var(--color-text-tertiary)] text-sm">Loading memos...</div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="h-full flex animate-fade-in">
+            {/* Memo list */}
+            <div className="w-64 shrink-0 border-r border-[var(--color-border-subtle)] flex flex-col">
+                <div className="p-3 border-b border-[var(--color-border-subtle)]">
+                    <button
+                        onClick={handleCreate}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-[var(--color-accent)] text-white text-[13px] font-semibold hover:bg-[var(--color-accent-hover)] transition-colors"
+                    >
+                        <Plus size={15} />
+                        New Memo
+                    </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+                    {memos.map(memo => (
+                        <button
+                            key={memo.id}
+                            onClick={() => handleSelect(memo.id)}
+                            className={cn(
+                                'w-full text-left px-3 py-2 rounded-lg transition-colors',
+                                memo.id === selectedId
+                                    ? 'bg-[var(--color-bg-active)]'
+                                    : 'hover:bg-[var(--color-bg-hover)]'
+                            )}
+                        >
+                            <p className="text-[13px] font-medium text-[var(--color-text-primary)] truncate">{memo.title}</p>
+                            <p className="text-[11px] text-[var(--color-text-tertiary)] mt-0.5 flex items-center gap-2">
+                                <span>{new Date(memo.updated_at + 'Z').toLocaleDateString()}</span>
+                                {memo.reference_count > 0 && (
+                                    <span className="flex items-center gap-0.5 tabular-nums">
+                                        <Quote size={10} />
+                                        {memo.reference_count}
+                                    </span>
+                                )}
+                            </p>
+                        </button>
+                    ))}
+                    {memos.length === 0 && (
+                        <p className="px-3 py-6 text-[12px] text-[var(--color-text-tertiary)] text-center">No memos yet</p>
+                    )}
+                </div>
+            </div>
+
+            {/* Editor */}
+            {!selectedId ? (
+                <div className="flex-1 flex items-center justify-center text-[var(--color-text-tertiary)]">
+                    <div className="text-center space-y-2 max-w-sm">
+                        <StickyNote size={36} className="mx-auto opacity-30 mb-3" />
+                        <p className="text-lg font-medium text-[var(--color-text-secondary)]">Write up your synthesis</p>
+                        <p className="text-sm">Memos are Markdown documents that can cite coded annotations as quote cards linked to the PDF.</p>
+                    </div>
+                </div>
+            ) : (
+                <div className="flex-1 min-w-0 flex flex-col">
+                    {/* Toolbar */}
+                    <div className="flex items-center gap-3 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                        <input
+                            type="text"
+                            value={title}
+                            onChange={(e) => {
+                                setTitle(e.target.value)
+                                scheduleSave(e.target.value, content)
+                            }}
+                            placeholder="Memo title"
+                            className="flex-1 min-w-0 bg-transparent text-[17px] font-semibold text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] outline-none"
+                        />
+                        <span className="text-[11px] text-[var(--color-text-tertiary)] shrink-0 w-14 text-right">
+                            {saveState === 'saved' ? 'Saved' : 'Saving…'}
+                        </span>
+                        <button
+                            onClick={() => setShowPicker(true)}
+                            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors shrink-0"
+                            title="Insert a reference to a coded annotation"
+                        >
+                            <Quote size={13} />
+                            Cite annotation
+                        </button>
+                        <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5 shrink-0">
+                            {([
+                                ['write', PenLine, 'Write'],
+                                ['split', Columns2, 'Split'],
+                                ['preview', Eye, 'Preview']
+                            ] as Array<[EditorMode, typeof Eye, string]>).map(([id, Icon, label]) => (
+                                <button
+                                    key={id}
+                                    onClick={() => setMode(id)}
+                                    className={cn(
+                                        'p-1.5 rounded-md transition-colors',
+                                        mode === id
+                                            ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                            : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                                    )}
+                                    title={label}
+                                >
+                                    <Icon size={14} />
+                                </button>
+                            ))}
+                        </div>
+                        <button
+                            onClick={handleDelete}
+                            className="p-1.5 rounded-md text-[var(--color-text-tertiary)] hover:text-red-400 hover:bg-red-500/10 transition-colors shrink-0"
+                            title="Delete memo"
+                        >
+                            <Trash2 size={15} />
+                        </button>
+                    </div>
+
+                    <div className="flex-1 min-h-0 flex">
+                        {mode !== 'preview' && (
+                            <textarea
+                                ref={textareaRef}
+                                value={content}
+                                onChange={(e) => {
+                                    setContent(e.target.value)
+                                    scheduleSave(title, e.target.value)
+                                }}
+                                placeholder={'# Findings\n\nWrite in Markdown. Use "Cite annotation" to quote the evidence.'}
+                                spellCheck
+                                className={cn(
+                                    'flex-1 min-w-0 resize-none bg-transparent px-6 py-5 text-[13px] leading-relaxed font-mono text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] outline-none',
+                                    mode === 'split' && 'border-r border-[var(--color-border-subtle)]'
+                                )}
+                            />
+                        )}
+                        {mode !== 'write' && (
+                            <div className="flex-1 min-w-0 overflow-y-auto px-8 py-3">
+                                <MarkdownPreview
+                                    content={content}
+                                    renderReference={renderReference}
+                                    renderInlineReference={renderInlineReference}
+                                />
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {showPicker && (
+                <AnnotationPicker
+                    onPick={handleInsertReference}
+                    onClose={() => setShowPicker(false)}
+                />
+            )}
+        </div>
+    )
+}
+
+// ── Annotation Picker ────────────────────────────────────────────────────────
+
+interface AnnotationPickerProps {
+    onPick: (annotation: CitedAnnotation) => void
+    onClose: () => void
+}
+
+function AnnotationPicker({ onPick, onClose }: AnnotationPickerProps) {
+    const [annotations, setAnnotations] = useState<CitedAnnotation[]>([])
+    const [filter, setFilter] = useState('')
+    const inputRef = useRef<HTMLInputElement>(null)
+
+    useEffect(() => {
+        inputRef.current?.focus()
+        window.api.annotations.matrixDetail()
+            .then(list => setAnnotations(list.map(fromMatrixAnnotation)))
+            .catch(err => console.error('[MemosView] Failed to load annotations:', err))
+    }, [])
+
+    useEffect(() => {
+        const handleEscape = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose()
+        }
+        window.addEventListener('keydown', handleEscape)
+        return () => window.removeEventListener('keydown', handleEscape)
+    }, [onClose])
+
+    const visible = useMemo(() => {
+        const needle = filter.trim().toLowerCase()
+        if (!needle) return annotations
+        return annotations.filter(a =>
+            a.content.toLowerCase().includes(needle) ||
+            a.paper_title.toLowerCase().includes(needle) ||
+            a.node_name.toLowerCase().includes(needle) ||
+            (a.tag_name ?? '').toLowerCase().includes(needle)
+        )
+    }, [annotations, filter])
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-start justify-center pt-24" onMouseDown={onClose}>
+            <div
+                className="w-[640px] max-h-[70vh] flex flex-col rounded-2xl bg-[var(--color-bg-surface)] border border-[var(--color-border)] shadow-2xl animate-fade-in"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-3 px-4 py-3 border-b border-[var(--color-border-subtle)]">
+                    <Search size={15} className="text-[var(--color-text-tertiary)]" />
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        placeholder="Filter annotations by text, paper, node or tag…"
+                        className="flex-1 bg-transparent text-[14px] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] outline-none"
+                    />
+                    <button onClick={onClose} className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]">
+                        <X size={15} />
+                    </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                    {visible.map(ann => (
+                        <button
+                            key={ann.id}
+                            onClick={() => onPick(ann)}
+                            className="w-full text-left px-3 py-2.5 rounded-lg hover:bg-[var(--color-bg-hover)] transition-colors"
+                            style={{ borderLeft: `3px solid ${ann.node_color}` }}
+                        >
+                            <p className="text-[13px] text-[var(--color-text-secondary)] leading-relaxed line-clamp-2">"{ann.content}"</p>
+                            <p className="text-[11px] text-[var(--color-text-tertiary)] mt-1 truncate">
+                                <span className="font-medium" style={{ color: ann.node_color }}>
+                                    {ann.node_name}{ann.tag_name ? ` › ${ann.tag_name}` : ''}
+                                </span>
+                                {` · ${ann.paper_title} · p. ${ann.page_number}`}
+                            </p>
+                        </button>
+                    ))}
+                    {visible.length === 0 && (
+                        <p className="px-3 py-8 text-[13px] text-[var(--color-text-tertiary)] text-center">
+                            {annotations.length === 0 ? 'No coded annotations yet.' : 'No annotations match this filter.'}
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
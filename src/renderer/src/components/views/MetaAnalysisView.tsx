@@ -0,0 +1,555 @@
+// ============================================================================
+// ThreadMed — Meta-Analysis View
+// ============================================================================
+// Pools arm-level outcome data across studies. The side list holds the
+// analyses (one per outcome and comparison); the Data tab is the outcome
+// grid with each study's effect and weight, the Forest and Funnel tabs draw
+// the plots with SVG / PNG / PDF export.
+// ============================================================================
+
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Download, Sigma, Trash2, Upload, FileText } from 'lucide-react'
+import { NewMetaAnalysisDialog, META_MEASURES, META_METHODS } from './NewMetaAnalysisDialog'
+import { AddMetaStudiesDialog } from './AddMetaStudiesDialog'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import { useDataRefresh } from '@/lib/events'
+import type {
+    MetaAnalysis, MetaEffectMeasure, MetaMethod, MetaPlot, MetaPlotKind, MetaResult, MetaStudy, MetaStudyValue, PrismaExportFormat
+} from '@/types'
+
+type MetaMode = 'data' | MetaPlotKind
+
+const EXPORT_FORMATS: Array<{ id: PrismaExportFormat; label: string }> = [
+    { id: 'svg', label: 'SVG' },
+    { id: 'png', label: 'PNG' },
+    { id: 'pdf', label: 'PDF' }
+]
+
+const ARM_COLUMNS: Record<MetaAnalysis['outcome_type'], Array<{ key: 'events' | 'mean' | 'sd' | 'n'; label: string }>> = {
+    binary: [{ key: 'events', label: 'Events' }, { key: 'n', label: 'Total' }],
+    continuous: [{ key: 'mean', label: 'Mean' }, { key: 'sd', label: 'SD' }, { key: 'n', label: 'Total' }]
+}
+
+function fmt(value: number | null | undefined): string {
+    return value === null || value === undefined ? '–' : value.toFixed(2)
+}
+
+function fmtP(p: number): string {
+    return p < 0.0001 ? 'p < 0.0001' : `p = ${p.toFixed(p < 0.01 ? 4 : 3)}`
+}
+
+// ── Grid Cells ───────────────────────────────────────────────────────────────
+
+/** A number input that saves on blur; empty clears the value */
+function NumberCell({ value, onCommit }: { value: number | null; onCommit: (value: number | null) => Promise<void> }) {
+    const [draft, setDraft] = useState(value === null ? '' : String(value))
+
+    useEffect(() => {
+        setDraft(value === null ? '' : String(value))
+    }, [value])
+
+    const commit = async () => {
+        const trimmed = draft.trim()
+        const next = trimmed === '' ? null : Number(trimmed)
+        if (next === value) return
+        if (next !== null && !Number.isFinite(next)) {
+            alert(`"${trimmed}" is not a number`)
+            setDraft(value === null ? '' : String(value))
+            return
+        }
+        try {
+            await onCommit(next)
+        } catch {
+            setDraft(value === null ? '' : String(value))
+        }
+    }
+
+    return (
+        <input
+            value={draft}
+            inputMode="decimal"
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur() }}
+            className="w-16 bg-transparent border border-transparent hover:border-[var(--color-border)] focus:border-[var(--color-accent)] focus:bg-[var(--color-bg-elevated)] rounded px-1.5 py-1 text-[12px] text-right tabular-nums text-[var(--color-text-primary)] outline-none"
+        />
+    )
+}
+
+function LabelCell({ value, onCommit }: { value: string; onCommit: (value: string) => Promise<void> }) {
+    const [draft, setDraft] = useState(value)
+
+    useEffect(() => {
+        setDraft(value)
+    }, [value])
+
+    const commit = async () => {
+        if (draft.trim() === value) return
+        if (!draft.trim()) {
+            setDraft(value)
+            return
+        }
+        try {
+            await onCommit(draft)
+        } catch {
+            setDraft(value)
+        }
+    }
+
+    return (
+        <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur() }}
+            className="w-full min-w-[140px] bg-transparent border border-transparent hover:border-[var(--color-border)] focus:border-[var(--color-accent)] focus:bg-[var(--color-bg-elevated)] rounded px-1.5 py-1 text-[12px] font-medium text-[var(--color-text-primary)] outline-none"
+        />
+    )
+}
+
+// ── View ─────────────────────────────────────────────────────────────────────
+
+export function MetaAnalysisView() {
+    const [analyses, setAnalyses] = useState<MetaAnalysis[]>([])
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const [mode, setMode] = useState<MetaMode>('data')
+    const [studies, setStudies] = useState<MetaStudy[]>([])
+    const [result, setResult] = useState<MetaResult | null>(null)
+    const [plot, setPlot] = useState<MetaPlot | null>(null)
+    const [showNew, setShowNew] = useState(false)
+    const [showAdd, setShowAdd] = useState(false)
+    const [exporting, setExporting] = useState<PrismaExportFormat | null>(null)
+
+    const analysis = analyses.find(a => a.id === selectedId) ?? null
+
+    const loadAnalyses = useCallback(async () => {
+        try {
+            const list = await window.api.meta.list()
+            setAnalyses(list)
+            setSelectedId(prev => list.some(a => a.id === prev) ? prev : list[0]?.id ?? null)
+        } catch (err) {
+            console.error('[MetaAnalysisView] Failed to load analyses:', err)
+        }
+    }, [])
+
+    const loadStudies = useCallback(async () => {
+        if (!selectedId) {
+            setStudies([])
+            setResult(null)
+            return
+        }
+        try {
+            const [rows, results] = await Promise.all([
+                window.api.meta.studies(selectedId),
+                window.api.meta.results(selectedId)
+            ])
+            setStudies(rows)
+            setResult(results)
+        } catch (err) {
+            console.error('[MetaAnalysisView] Failed to load studies:', err)
+        }
+    }, [selectedId])
+
+    useEffect(() => {
+        loadAnalyses()
+    }, [loadAnalyses])
+
+    useEffect(() => {
+        loadStudies()
+    }, [loadStudies])
+
+    // Papers can be deleted or merged elsewhere
+    useDataRefresh(loadAnalyses)
+    useDataRefresh(loadStudies)
+
+    useEffect(() => {
+        if (mode === 'data' || !selectedId) return
+        window.api.meta.plot(mode, selectedId)
+            .then(setPlot)
+            .catch(err => console.error('[MetaAnalysisView] Failed to draw plot:', err))
+    }, [mode, selectedId, result])
+
+    /** Results and study counts follow every change to the data or settings */
+    const refresh = async () => {
+        await Promise.all([loadAnalyses(), loadStudies()])
+    }
+
+    const handleUpdateAnalysis = async (data: { name?: string; effect_measure?: MetaEffectMeasure; method?: MetaMethod; experimental_label?: string; control_label?: string }) => {
+        if (!analysis) return
+        try {
+            await window.api.meta.update(analysis.id, data)
+            await refresh()
+        } catch (err) {
+            console.error('[MetaAnalysisView] Failed to update analysis:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleDeleteAnalysis = async () => {
+        if (!analysis) return
+        if (!confirm(`Delete the meta-analysis "${analysis.name}" and its outcome data? This cannot be undone.`)) return
+        try {
+            await window.api.meta.delete(analysis.id)
+            await loadAnalyses()
+        } catch (err) {
+            console.error('[MetaAnalysisView] Failed to delete analysis:', err)
+        }
+    }
+
+    const handleUpdateStudy = async (study: MetaStudy, data: Partial<Record<MetaStudyValue, number | null>> & { label?: string; included?: boolean }) => {
+        try {
+            await window.api.meta.updateStudy(study.id, data)
+            await refresh()
+        } catch (err) {
+            console.error('[MetaAnalysisView] Failed to update study:', err)
+            alert(remoteErrorMessage(err))
+            throw err
+        }
+    }
+
+    const handleAddRow = async () => {
+        if (!analysis) return
+        try {
+            await window.api.meta.addStudy(analysis.id, { label: `Study ${studies.length + 1}` })
+            await refresh()
+        } catch (err) {
+            console.error('[MetaAnalysisView] Failed to add study:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleDeleteStudy = async (study: MetaStudy) => {
+        if (!confirm(`Remove "${study.label}" and its outcome data from this analysis?`)) return
+        try {
+            await window.api.meta.deleteStudy(study.id)
+            await refresh()
+        } catch (err) {
+            console.error('[MetaAnalysisView] Failed to delete study:', err)
+        }
+    }
+
+    const handleImport = async () => {
+        if (!analysis) return
+        try {
+            const imported = await window.api.meta.importCsv(analysis.id)
+            if (!imported) return
+            await refresh()
+            const lines = [`Imported ${imported.imported} ${imported.imported === 1 ? 'study' : 'studies'}, ${imported.linked} linked to library papers.`]
+            if (imported.skipped > 0) lines.push(`Skipped ${imported.skipped}:`, ...imported.errors.slice(0, 10))
+            alert(lines.join('\n'))
+        } catch (err) {
+            console.error('[MetaAnalysisView] Import failed:', err)
+            alert(`Import failed: ${remoteErrorMessage(err)}`)
+        }
+    }
+
+    const handleExport = async (format: PrismaExportFormat) => {
+        if (!analysis || mode === 'data') return
+        try {
+            setExporting(format)
+            await window.api.meta.exportPlot(mode, analysis.id, format)
+        } catch (err) {
+            console.error('[MetaAnalysisView] Export failed:', err)
+            alert(`Export failed: ${remoteErrorMessage(err)}`)
+        } finally {
+            setExporting(null)
+        }
+    }
+
+    const handleCreated = async (created: MetaAnalysis) => {
+        setShowNew(false)
+        setMode('data')
+        await loadAnalyses()
+        setSelectedId(created.id)
+    }
+
+    const effects = new Map(result?.studies.map(e => [e.id, e]) ?? [])
+    const columns = analysis ? ARM_COLUMNS[analysis.outcome_type] : []
+    const selectClass = 'bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-2 py-1.5 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]'
+
+    return (
+        <div className="h-full flex flex-col animate-fade-in">
+            {/* ── Toolbar ───────────────────────────────────────────────────── */}
+            <div className="flex items-center gap-4 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5 shrink-0">
+                    {([['data', 'Data'], ['forest', 'Forest plot'], ['funnel', 'Funnel plot']] as Array<[MetaMode, string]>).map(([id, label]) => (
+                        <button
+                            key={id}
+                            onClick={() => setMode(id)}
+                            className={cn(
+                                'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                mode === id
+                                    ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                    : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                            )}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {analysis && (
+                    <div className="flex items-center gap-2 min-w-0">
+                        <select
+                            value={analysis.effect_measure}
+                            onChange={(e) => handleUpdateAnalysis({ effect_measure: e.target.value as MetaEffectMeasure })}
+                            className={selectClass}
+                        >
+                            {META_MEASURES[analysis.outcome_type].map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                        </select>
+                        <select
+                            value={analysis.method}
+                            onChange={(e) => handleUpdateAnalysis({ method: e.target.value as MetaMethod })}
+                            className={selectClass}
+                        >
+                            {META_METHODS.filter(m => !m.binaryOnly || analysis.outcome_type === 'binary').map(m => (
+                                <option key={m.id} value={m.id}>{m.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                <button
+                    onClick={() => setShowNew(true)}
+                    className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg text-[12px] font-semibold bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-hover)] transition-colors shrink-0"
+                >
+                    <Plus size={13} />
+                    New analysis
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-0 flex">
+                {/* ── Analyses ──────────────────────────────────────────────── */}
+                <aside className="w-64 shrink-0 border-r border-[var(--color-border-subtle)] overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+                    {analyses.map(a => (
+                        <button
+                            key={a.id}
+                            onClick={() => setSelectedId(a.id)}
+                            className={cn(
+                                'w-full text-left px-3 py-2 rounded-lg transition-colors',
+                                a.id === selectedId ? 'bg-[var(--color-accent-subtle)]' : 'hover:bg-[var(--color-bg-hover)]'
+                            )}
+                        >
+                            <p className="text-[12px] font-medium text-[var(--color-text-primary)] line-clamp-2 leading-snug">{a.name}</p>
+                            <p className="text-[11px] text-[var(--color-text-tertiary)] truncate mt-0.5">
+                                {a.effect_measure} · {a.method} · {a.study_count} {a.study_count === 1 ? 'study' : 'studies'}
+                            </p>
+                        </button>
+                    ))}
+                    {analyses.length === 0 && (
+                        <p className="px-2 py-8 text-center text-[12px] text-[var(--color-text-tertiary)]">No meta-analyses yet.</p>
+                    )}
+                </aside>
+
+                <div className="flex-1 min-w-0 flex flex-col">
+                    {!analysis ? (
+                        <div className="h-full flex items-center justify-center text-[var(--color-text-tertiary)]">
+                            <div className="text-center space-y-2 max-w-sm">
+                                <Sigma size={36} className="mx-auto opacity-30 mb-3" />
+                                <p className="text-lg font-medium text-[var(--color-text-secondary)]">No analysis selected</p>
+                                <p className="text-sm">
+                                    Create an analysis for each outcome, enter or import the arm-level data of the included studies, and pool them.
+                                </p>
+                            </div>
+                        </div>
+                    ) : mode === 'data' ? (
+                        /* ── Outcome Data ──────────────────────────────────── */
+                        <div className="flex-1 min-h-0 flex flex-col">
+                            <div className="flex items-center gap-2 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                                <h2 className="text-[14px] font-semibold text-[var(--color-text-primary)] truncate mr-auto">{analysis.name}</h2>
+                                <button
+                                    onClick={() => setShowAdd(true)}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                >
+                                    <FileText size={12} />
+                                    Add papers
+                                </button>
+                                <button
+                                    onClick={handleAddRow}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                >
+                                    <Plus size={12} />
+                                    Add row
+                                </button>
+                                <button
+                                    onClick={handleImport}
+                                    title="Columns: study, n_e, n_c and events_e / events_c or mean_e, sd_e / mean_c, sd_c; optional doi or paper_id to link papers"
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                >
+                                    <Upload size={12} />
+                                    Import CSV
+                                </button>
+                                <button
+                                    onClick={handleDeleteAnalysis}
+                                    title="Delete analysis"
+                                    className="p-1.5 rounded-lg text-[var(--color-text-tertiary)] hover:text-red-500 hover:bg-[var(--color-bg-hover)] transition-colors"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+
+                            <div className="flex-1 min-h-0 overflow-auto custom-scrollbar px-6 py-4">
+                                <table className="text-[12px] border-collapse">
+                                    <thead>
+                                        <tr className="text-[11px] text-[var(--color-text-tertiary)]">
+                                            <th />
+                                            <th />
+                                            <th colSpan={columns.length} className="px-2 pb-1 font-semibold text-center border-b border-[var(--color-border-subtle)]">
+                                                {analysis.experimental_label}
+                                            </th>
+                                            <th colSpan={columns.length} className="px-2 pb-1 font-semibold text-center border-b border-[var(--color-border-subtle)]">
+                                                {analysis.control_label}
+                                            </th>
+                                            <th colSpan={3} />
+                                        </tr>
+                                        <tr className="text-[11px] text-[var(--color-text-tertiary)] text-right">
+                                            <th className="px-1 py-1.5 font-medium" title="Include in pooling" />
+                                            <th className="px-1.5 py-1.5 font-medium text-left">Study</th>
+                                            {(['e', 'c'] as const).flatMap(arm => columns.map(c => (
+                                                <th key={`${arm}-${c.key}`} className="px-1.5 py-1.5 font-medium">{c.label}</th>
+                                            )))}
+                                            <th className="px-3 py-1.5 font-medium">{analysis.effect_measure} [95% CI]</th>
+                                            <th className="px-3 py-1.5 font-medium">Weight</th>
+                                            <th />
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {studies.map(study => {
+                                            const effect = effects.get(study.id)
+                                            return (
+                                                <tr key={study.id} className="border-t border-[var(--color-border-subtle)] group">
+                                                    <td className="px-1">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={study.included}
+                                                            title="Include in pooling"
+                                                            onChange={(e) => handleUpdateStudy(study, { included: e.target.checked }).catch(() => {})}
+                                                            className="accent-[var(--color-accent)]"
+                                                        />
+                                                    </td>
+                                                    <td className="py-0.5" title={study.paper_title ?? 'Not linked to a library paper'}>
+                                                        <LabelCell value={study.label} onCommit={label => handleUpdateStudy(study, { label })} />
+                                                    </td>
+                                                    {(['e', 'c'] as const).flatMap(arm => columns.map(c => {
+                                                        const key = `${c.key}_${arm}` as MetaStudyValue
+                                                        return (
+                                                            <td key={key} className="py-0.5">
+                                                                <NumberCell value={study[key]} onCommit={value => handleUpdateStudy(study, { [key]: value })} />
+                                                            </td>
+                                                        )
+                                                    }))}
+                                                    <td className={cn('px-3 text-right tabular-nums whitespace-nowrap', !study.included && 'text-[var(--color-text-tertiary)]')}>
+                                                        {effect?.effect !== null && effect?.effect !== undefined
+                                                            ? `${fmt(effect.effect)} [${fmt(effect.ci_lower)}, ${fmt(effect.ci_upper)}]`
+                                                            : <span className="text-[var(--color-text-tertiary)]">{effect?.note ?? ''}</span>}
+                                                    </td>
+                                                    <td className="px-3 text-right tabular-nums text-[var(--color-text-secondary)]">
+                                                        {effect?.weight !== null && effect?.weight !== undefined ? `${effect.weight.toFixed(1)}%` : ''}
+                                                    </td>
+                                                    <td className="px-1">
+                                                        <button
+                                                            onClick={() => handleDeleteStudy(study)}
+                                                            title="Remove study"
+                                                            className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                        >
+                                                            <Trash2 size={12} />
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            )
+                                        })}
+                                    </tbody>
+                                </table>
+                                {studies.length === 0 && (
+                                    <p className="py-12 text-center text-[13px] text-[var(--color-text-tertiary)]">
+                                        Add included papers, add rows by hand or import a CSV of outcome data.
+                                    </p>
+                                )}
+
+                                {/* ── Pooled Result ─────────────────────────── */}
+                                {result && studies.length > 0 && (
+                                    <div className="mt-6 max-w-2xl space-y-1.5 text-[12px] text-[var(--color-text-secondary)]">
+                                        {result.pooled ? (
+                                            <p className="text-[13px] text-[var(--color-text-primary)]">
+                                                <span className="font-semibold">Pooled {analysis.effect_measure}</span>{' '}
+                                                {fmt(result.pooled.effect)} [{fmt(result.pooled.ci_lower)}, {fmt(result.pooled.ci_upper)}]
+                                                <span className="text-[var(--color-text-tertiary)]"> · {result.k} {result.k === 1 ? 'study' : 'studies'} · z = {fmt(result.pooled.z)}, {fmtP(result.pooled.p)}</span>
+                                            </p>
+                                        ) : (
+                                            <p className="text-[var(--color-text-tertiary)]">No study has enough data to pool yet.</p>
+                                        )}
+                                        {result.pooled?.pi_lower !== null && result.pooled?.pi_lower !== undefined && (
+                                            <p>95% prediction interval [{fmt(result.pooled.pi_lower)}, {fmt(result.pooled.pi_upper)}]</p>
+                                        )}
+                                        {result.heterogeneity && (
+                                            <p>
+                                                Heterogeneity: Q = {fmt(result.heterogeneity.q)}, df = {result.heterogeneity.df}, {fmtP(result.heterogeneity.p)};
+                                                I² = {result.heterogeneity.i2.toFixed(0)}%
+                                                {result.heterogeneity.tau2 !== null && <>; τ² = {result.heterogeneity.tau2.toFixed(4)}</>}
+                                            </p>
+                                        )}
+                                        {result.egger && (
+                                            <p>
+                                                Egger's test: intercept {fmt(result.egger.intercept)} (SE {fmt(result.egger.se)}),
+                                                t = {fmt(result.egger.t)}, df = {result.egger.df}, {fmtP(result.egger.p)}
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ) : (
+                        /* ── Plots ─────────────────────────────────────────── */
+                        <div className="flex-1 min-h-0 flex flex-col">
+                            <div className="flex items-center gap-2 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                                <h2 className="text-[14px] font-semibold text-[var(--color-text-primary)] truncate mr-auto">{analysis.name}</h2>
+                                {EXPORT_FORMATS.map(f => (
+                                    <button
+                                        key={f.id}
+                                        onClick={() => handleExport(f.id)}
+                                        disabled={exporting !== null || studies.length === 0}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors disabled:opacity-50"
+                                    >
+                                        <Download size={12} />
+                                        {exporting === f.id ? 'Exporting…' : f.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex-1 min-h-0 overflow-auto p-6">
+                                {studies.length === 0 ? (
+                                    <p className="py-16 text-center text-[13px] text-[var(--color-text-tertiary)]">
+                                        Plots appear once the analysis has outcome data.
+                                    </p>
+                                ) : plot && (
+                                    <div
+                                        className="mx-auto bg-white rounded-lg shadow-sm border border-[var(--color-border-subtle)] w-fit"
+                                        // Built in the main process with every label XML-escaped
+                                        dangerouslySetInnerHTML={{ __html: plot.svg }}
+                                    />
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <NewMetaAnalysisDialog
+                isOpen={showNew}
+                onClose={() => setShowNew(false)}
+                onCreated={handleCreated}
+            />
+            {analysis && (
+                <AddMetaStudiesDialog
+                    isOpen={showAdd}
+                    analysis={analysis}
+                    studies={studies}
+                    onClose={() => setShowAdd(false)}
+                    onAdded={async () => {
+                        setShowAdd(false)
+                        await refresh()
+                    }}
+                />
+            )}
+        </div>
+    )
+}
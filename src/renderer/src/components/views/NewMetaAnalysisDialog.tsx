@@ -0,0 +1,190 @@
+// ============================================================================
+// ThreadMed — New Meta-Analysis Dialog
+// ============================================================================
+// Names the comparison and fixes its outcome type: binary outcomes take
+// events / totals per arm (risk or odds ratio), continuous outcomes take
+// mean / SD / total (mean or standardised mean difference).
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Plus } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { MetaAnalysis, MetaEffectMeasure, MetaMethod, MetaOutcomeType } from '@/types'
+
+interface NewMetaAnalysisDialogProps {
+    isOpen: boolean
+    onClose: () => void
+    onCreated: (analysis: MetaAnalysis) => void
+}
+
+export const META_MEASURES: Record<MetaOutcomeType, Array<{ id: MetaEffectMeasure; label: string }>> = {
+    binary: [
+        { id: 'RR', label: 'Risk ratio' },
+        { id: 'OR', label: 'Odds ratio' }
+    ],
+    continuous: [
+        { id: 'MD', label: 'Mean difference' },
+        { id: 'SMD', label: 'Standardised mean difference' }
+    ]
+}
+
+export const META_METHODS: Array<{ id: MetaMethod; label: string; binaryOnly?: boolean }> = [
+    { id: 'MH', label: 'Mantel–Haenszel (fixed)', binaryOnly: true },
+    { id: 'IV', label: 'Inverse variance (fixed)' },
+    { id: 'DL', label: 'DerSimonian–Laird (random)' },
+    { id: 'REML', label: 'REML (random)' }
+]
+
+const inputClass = 'w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-2 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]'
+
+export function NewMetaAnalysisDialog({ isOpen, onClose, onCreated }: NewMetaAnalysisDialogProps) {
+    const [name, setName] = useState('')
+    const [outcomeType, setOutcomeType] = useState<MetaOutcomeType>('binary')
+    const [measure, setMeasure] = useState<MetaEffectMeasure>('RR')
+    const [method, setMethod] = useState<MetaMethod>('MH')
+    const [experimentalLabel, setExperimentalLabel] = useState('Experimental')
+    const [controlLabel, setControlLabel] = useState('Control')
+    const [creating, setCreating] = useState(false)
+
+    useEffect(() => {
+        if (!isOpen) return
+        setName('')
+        setOutcomeType('binary')
+        setMeasure('RR')
+        setMethod('MH')
+        setExperimentalLabel('Experimental')
+        setControlLabel('Control')
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const handleOutcomeType = (type: MetaOutcomeType) => {
+        setOutcomeType(type)
+        setMeasure(META_MEASURES[type][0].id)
+        if (type === 'continuous' && method === 'MH') setMethod('IV')
+    }
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!name.trim()) return
+        try {
+            setCreating(true)
+            onCreated(await window.api.meta.create({
+                name,
+                outcome_type: outcomeType,
+                effect_measure: measure,
+                method,
+                experimental_label: experimentalLabel,
+                control_label: controlLabel
+            }))
+        } catch (err) {
+            console.error('[NewMetaAnalysisDialog] Failed to create analysis:', err)
+            alert(remoteErrorMessage(err))
+        } finally {
+            setCreating(false)
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <form
+                onSubmit={handleCreate}
+                className="bg-[var(--color-bg-surface)] w-full max-w-lg rounded-2xl shadow-2xl flex flex-col overflow-hidden border border-[var(--color-border)]"
+            >
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)]">
+                    <h2 className="text-lg font-bold text-[var(--color-text-primary)]">New meta-analysis</h2>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Settings ──────────────────────────────────────────────── */}
+                <div className="px-6 py-5 space-y-4">
+                    <label className="block space-y-1.5">
+                        <span className="text-[12px] font-medium text-[var(--color-text-secondary)]">Outcome</span>
+                        <input
+                            autoFocus
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="e.g. All-cause mortality at 12 months"
+                            className={inputClass}
+                        />
+                    </label>
+
+                    <div className="space-y-1.5">
+                        <span className="text-[12px] font-medium text-[var(--color-text-secondary)]">Data type</span>
+                        <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5 w-fit">
+                            {([['binary', 'Dichotomous'], ['continuous', 'Continuous']] as Array<[MetaOutcomeType, string]>).map(([id, label]) => (
+                                <button
+                                    key={id}
+                                    type="button"
+                                    onClick={() => handleOutcomeType(id)}
+                                    className={cn(
+                                        'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                        outcomeType === id
+                                            ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                            : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="block space-y-1.5">
+                            <span className="text-[12px] font-medium text-[var(--color-text-secondary)]">Effect measure</span>
+                            <select value={measure} onChange={(e) => setMeasure(e.target.value as MetaEffectMeasure)} className={inputClass}>
+                                {META_MEASURES[outcomeType].map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="block space-y-1.5">
+                            <span className="text-[12px] font-medium text-[var(--color-text-secondary)]">Pooling method</span>
+                            <select value={method} onChange={(e) => setMethod(e.target.value as MetaMethod)} className={inputClass}>
+                                {META_METHODS.filter(m => !m.binaryOnly || outcomeType === 'binary').map(m => (
+                                    <option key={m.id} value={m.id}>{m.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block space-y-1.5">
+                            <span className="text-[12px] font-medium text-[var(--color-text-secondary)]">Experimental arm</span>
+                            <input value={experimentalLabel} onChange={(e) => setExperimentalLabel(e.target.value)} className={inputClass} />
+                        </label>
+                        <label className="block space-y-1.5">
+                            <span className="text-[12px] font-medium text-[var(--color-text-secondary)]">Control arm</span>
+                            <input value={controlLabel} onChange={(e) => setControlLabel(e.target.value)} className={inputClass} />
+                        </label>
+                    </div>
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <div className="px-6 py-4 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex justify-end gap-3 rounded-b-2xl">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-4 py-2 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!name.trim() || creating}
+                        className="flex items-center gap-2 px-5 py-2 bg-[var(--color-accent)] text-white text-[13px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-[var(--color-accent)]/20"
+                    >
+                        <Plus size={14} />
+                        Create
+                    </button>
+                </div>
+            </form>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
@@ -0,0 +1,176 @@
+// ============================================================================
+// ThreadMed — New Risk-of-Bias Assessment Dialog
+// ============================================================================
+// Picks the paper (by default among the studies included at full text) and
+// the outcome to assess. RoB 2 and ROBINS-I judge a specific result, so a
+// paper can have one assessment per outcome.
+// ============================================================================
+
+import { useState, useEffect, useMemo } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Plus, Search } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { PaperWithAuthors, RobAssessment, RobToolDefinition } from '@/types'
+
+interface NewRobAssessmentDialogProps {
+    isOpen: boolean
+    tool: RobToolDefinition
+    onClose: () => void
+    onCreated: (assessment: RobAssessment) => void
+}
+
+export function NewRobAssessmentDialog({ isOpen, tool, onClose, onCreated }: NewRobAssessmentDialogProps) {
+    const [papers, setPapers] = useState<PaperWithAuthors[]>([])
+    const [included, setIncluded] = useState<Set<string>>(new Set())
+    const [includedOnly, setIncludedOnly] = useState(true)
+    const [query, setQuery] = useState('')
+    const [paperId, setPaperId] = useState<string | null>(null)
+    const [outcome, setOutcome] = useState('')
+    const [creating, setCreating] = useState(false)
+
+    useEffect(() => {
+        if (!isOpen) return
+        setQuery('')
+        setPaperId(null)
+        setOutcome('')
+        const load = async () => {
+            try {
+                const [allPapers, includedIds] = await Promise.all([
+                    window.api.papers.list(),
+                    window.api.screening.included()
+                ])
+                setPapers(allPapers)
+                setIncluded(new Set(includedIds))
+                setIncludedOnly(includedIds.length > 0)
+            } catch (err) {
+                console.error('[NewRobAssessmentDialog] Failed to load papers:', err)
+            }
+        }
+        load()
+    }, [isOpen])
+
+    const visible = useMemo(() => {
+        const needle = query.trim().toLowerCase()
+        return papers.filter(p =>
+            (!includedOnly || included.has(p.id))
+            && (!needle || p.title.toLowerCase().includes(needle) || p.authors.some(a => a.toLowerCase().includes(needle)))
+        )
+    }, [papers, included, includedOnly, query])
+
+    if (!isOpen) return null
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!paperId) return
+        try {
+            setCreating(true)
+            onCreated(await window.api.rob.create(paperId, tool.id, outcome))
+        } catch (err) {
+            console.error('[NewRobAssessmentDialog] Failed to create assessment:', err)
+            alert(remoteErrorMessage(err))
+        } finally {
+            setCreating(false)
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <form
+                onSubmit={handleCreate}
+                className="bg-[var(--color-bg-surface)] w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[85vh] overflow-hidden border border-[var(--color-border)]"
+            >
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">New {tool.name} assessment</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">{tool.study_design}</p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Paper ─────────────────────────────────────────────────── */}
+                <div className="px-6 pt-4 pb-2 flex items-center gap-3 shrink-0">
+                    <div className="flex-1 flex items-center gap-2 bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 focus-within:border-[var(--color-accent)]">
+                        <Search size={13} className="text-[var(--color-text-tertiary)]" />
+                        <input
+                            autoFocus
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Find a paper by title or author"
+                            className="flex-1 bg-transparent text-[13px] text-[var(--color-text-primary)] outline-none"
+                        />
+                    </div>
+                    <label className="flex items-center gap-1.5 text-[12px] text-[var(--color-text-secondary)] shrink-0 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={includedOnly}
+                            onChange={(e) => setIncludedOnly(e.target.checked)}
+                            className="accent-[var(--color-accent)]"
+                        />
+                        Included studies only
+                    </label>
+                </div>
+                <div className="flex-1 min-h-[200px] overflow-y-auto custom-scrollbar px-4 pb-2">
+                    {visible.map(paper => (
+                        <button
+                            key={paper.id}
+                            type="button"
+                            onClick={() => setPaperId(paper.id)}
+                            className={cn(
+                                'w-full text-left px-3 py-2 rounded-lg transition-colors',
+                                paperId === paper.id ? 'bg-[var(--color-accent-subtle)]' : 'hover:bg-[var(--color-bg-hover)]'
+                            )}
+                        >
+                            <p className="text-[13px] font-medium text-[var(--color-text-primary)] leading-snug">{paper.title}</p>
+                            <p className="text-[12px] text-[var(--color-text-tertiary)] truncate">
+                                {paper.authors.length > 0 ? paper.authors.slice(0, 3).join('; ') : 'Unknown author'}
+                                {paper.authors.length > 3 ? ' et al.' : ''}
+                                {paper.year ? ` · ${paper.year}` : ''}
+                            </p>
+                        </button>
+                    ))}
+                    {visible.length === 0 && (
+                        <p className="py-10 text-center text-[12px] text-[var(--color-text-tertiary)]">
+                            {includedOnly && included.size === 0
+                                ? 'No studies are included at full text yet.'
+                                : 'No papers match.'}
+                        </p>
+                    )}
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <div className="px-6 py-4 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex items-center gap-3 shrink-0 rounded-b-2xl">
+                    <input
+                        value={outcome}
+                        onChange={(e) => setOutcome(e.target.value)}
+                        placeholder={tool.id === 'nos' ? 'Outcome (optional)' : 'Outcome or result assessed, e.g. Mortality at 12 months'}
+                        className="flex-1 bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-lg px-3 py-2 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                    />
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-4 py-2 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!paperId || creating}
+                        className="flex items-center gap-2 px-5 py-2 bg-[var(--color-accent)] text-white text-[13px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-[var(--color-accent)]/20"
+                    >
+                        <Plus size={14} />
+                        Create
+                    </button>
+                </div>
+            </form>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
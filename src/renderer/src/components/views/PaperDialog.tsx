@@ -7,7 +7,7 @@
 import { useState, useEffect } from 'react'
 import { createPortal } from 'react-dom'
 import { X, Save, FileUp, FileText } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { cn, remoteErrorMessage } from '@/lib/utils'
 import type { CreatePaperInput, PaperWithAuthors } from '@/types'
 
 interface PaperDialogProps {
@@ -75,7 +75,8 @@ export function PaperDialog({ isOpen, onClose, onSave, initialData }: PaperDialo
             onClose()
         } catch (err) {
             console.error('[PaperDialog] Failed to save paper:', err)
-            alert('Failed to save paper. See console for details.')
+            // Surface validation messages thrown by the main process
+            alert(`Failed to save paper: ${remoteErrorMessage(err)}`)
         } finally {
             setIsSaving(false)
         }
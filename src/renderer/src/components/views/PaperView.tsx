@@ -13,9 +13,10 @@ import { ZoomIn, ZoomOut, Grid2x2, Rows3, FileX, Search, X, ChevronUp, ChevronDo
 import { cn } from '@/lib/utils'
 import { PdfPage } from './PdfPage'
 import { HighlightLayer } from './HighlightLayer'
-import { AnnotationSidebar } from './AnnotationSidebar'
+import { AnnotationSidebar, type SidebarTab } from './AnnotationSidebar'
+import { groupBacklinks } from './MemoBacklinks'
 import { triggerDataRefresh } from '@/lib/events'
-import type { Annotation, Node, PaperWithAuthors } from '@/types'
+import type { Annotation, MemoBacklink, Node, PaperWithAuthors } from '@/types'
 
 // Configure pdf.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
@@ -25,22 +26,30 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
 
 interface PaperViewProps {
     paperId: string
+    /** Annotation to scroll to once the PDF has loaded (e.g. from a matrix cell) */
+    focusAnnotationId?: string | null
+    /** Page to scroll to once the PDF has loaded (e.g. from a search hit) */
+    focusPage?: number | null
+    onFocusHandled?: () => void
+    onOpenMemo: (memoId: string) => void
     onBack: () => void
 }
 
 type LayoutMode = 'auto' | 'single'
 
-export function PaperView({ paperId, onBack }: PaperViewProps) {
+export function PaperView({ paperId, focusAnnotationId, focusPage, onFocusHandled, onOpenMemo, onBack }: PaperViewProps) {
     const [paper, setPaper] = useState<PaperWithAuthors | null>(null)
     const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null)
     const [pages, setPages] = useState<PDFPageProxy[]>([])
     const [scale, setScale] = useState(1.0)
     const [layoutMode, setLayoutMode] = useState<LayoutMode>('auto')
     const [annotations, setAnnotations] = useState<Annotation[]>([])
+    const [backlinks, setBacklinks] = useState<Map<string, MemoBacklink[]>>(new Map())
     const [nodes, setNodes] = useState<Node[]>([])
     const [loading, setLoading] = useState(true)
     const [pdfError, setPdfError] = useState<string | null>(null)
     const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null)
+    const [sidebarTab, setSidebarTab] = useState<SidebarTab>('annotations')
     const [isDragging, setIsDragging] = useState(false)
 
     // Find in Page state
@@ -80,9 +89,13 @@ export function PaperView({ paperId, onBack }: PaperViewProps) {
             setPaper(paperData)
             setNodes(nodeList)
 
-            // Load annotations
-            const annList = await window.api.annotations.forPaper(paperId)
+            // Load annotations and the memos citing them
+            const [annList, backlinkRows] = await Promise.all([
+                window.api.annotations.forPaper(paperId),
+                window.api.memos.backlinksForPaper(paperId)
+            ])
             setAnnotations(annList)
+            setBacklinks(groupBacklinks(backlinkRows))
 
             // Load PDF binary via base64 IPC
             if (paperData?.pdf_filename) {
@@ -307,8 +320,24 @@ export function PaperView({ paperId, onBack }: PaperViewProps) {
 
     const handleDeleteAnnotation = async (id: string) => {
         try {
+            // Deleting cascades to memo_references, so warn before breaking citations
+            const citing = await window.api.memos.backlinksForAnnotation(id)
+            if (citing.length > 0) {
+                const titles = citing.map(link => `• ${link.memo_title}`).join('\n')
+                const confirmed = confirm(
+                    `This annotation is cited in ${citing.length} memo${citing.length !== 1 ? 's' : ''}:\n\n${titles}\n\n` +
+                    'Deleting it will leave those citations pointing at a missing annotation. Delete anyway?'
+                )
+                if (!confirmed) return
+            }
+
             await window.api.annotations.delete(id)
             setAnnotations(prev => prev.filter(a => a.id !== id))
+            setBacklinks(prev => {
+                const next = new Map(prev)
+                next.delete(id)
+                return next
+            })
             if (editingAnnotationId === id) setEditingAnnotationId(null)
             triggerDataRefresh()
         } catch (err) {
@@ -330,6 +359,32 @@ export function PaperView({ paperId, onBack }: PaperViewProps) {
         }
     }, [])
 
+    // Jump to a requested annotation once its page wrapper exists in the DOM
+    useEffect(() => {
+        if (!focusAnnotationId || loading || pages.length === 0) return
+        const ann = annotations.find(a => a.id === focusAnnotationId)
+        if (!ann) return
+        // Wait a frame so the page grid has been laid out before scrolling
+        const frame = requestAnimationFrame(() => {
+            handleScrollToAnnotation(ann)
+            onFocusHandled?.()
+        })
+        return () => cancelAnimationFrame(frame)
+    }, [focusAnnotationId, loading, pages, annotations, handleScrollToAnnotation, onFocusHandled])
+
+    // Jump to a requested page once the page grid has been laid out
+    useEffect(() => {
+        if (!focusPage || loading || pages.length === 0) return
+        const frame = requestAnimationFrame(() => {
+            const pageNumber = Math.min(Math.max(focusPage, 1), pages.length)
+            scrollContainerRef.current
+                ?.querySelector(`[data-page="${pageNumber}"]`)
+                ?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+            onFocusHandled?.()
+        })
+        return () => cancelAnimationFrame(frame)
+    }, [focusPage, loading, pages, onFocusHandled])
+
     // Enter edit mode: next text selection updates this annotation
     const handleEditAnnotation = useCallback((ann: Annotation) => {
         setEditingAnnotationId(ann.id)
@@ -619,8 +674,10 @@ export function PaperView({ paperId, onBack }: PaperViewProps) {
                                         nodes={nodes}
                                         scale={scale}
                                         editingAnnotationId={editingAnnotationId}
+                                        backlinks={backlinks}
                                         onCreateAnnotation={handleCreateAnnotation}
                                         onUpdateAnnotation={handleUpdateAnnotation}
+                                        onOpenMemo={onOpenMemo}
                                     />
                                 </PdfPage>
                             ))}
@@ -629,18 +686,22 @@ export function PaperView({ paperId, onBack }: PaperViewProps) {
                 )}
             </div>
 
-            {/* ── Right Pane: Annotation Sidebar ──────────────────────────── */}
+            {/* ── Right Pane: Annotations / Extraction ────────────────────── */}
             <div className="w-[320px] shrink-0">
                 <AnnotationSidebar
                     paper={paper}
                     annotations={annotations}
                     nodes={nodes}
                     editingAnnotationId={editingAnnotationId}
+                    backlinks={backlinks}
                     onDeleteAnnotation={handleDeleteAnnotation}
                     onScrollToAnnotation={handleScrollToAnnotation}
                     onEditAnnotation={handleEditAnnotation}
                     onCancelEdit={() => setEditingAnnotationId(null)}
+                    onOpenMemo={onOpenMemo}
                     onBack={onBack}
+                    tab={sidebarTab}
+                    onTabChange={setSidebarTab}
                 />
             </div>
         </div>
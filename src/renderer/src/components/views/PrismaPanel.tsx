@@ -0,0 +1,282 @@
+// ============================================================================
+// ThreadMed — PRISMA Panel
+// ============================================================================
+// The PRISMA 2020 flow diagram, counted from import sources and the final
+// screening decisions, with SVG / PNG / PDF export. The side list manages
+// search sources and attributes papers added without an import to one.
+// ============================================================================
+
+import { useState, useEffect, useCallback } from 'react'
+import { Download, Plus, Trash2, Database, AlertTriangle } from 'lucide-react'
+import { SOURCE_KIND_LABELS } from './ImportDialog'
+import { remoteErrorMessage } from '@/lib/utils'
+import type { PrismaDiagram, PrismaExportFormat, PrismaFlow, SearchSource, SearchSourceKind } from '@/types'
+
+interface PrismaPanelProps {
+    /** Changes whenever decisions may have changed elsewhere */
+    refreshKey: number
+}
+
+const EXPORT_FORMATS: Array<{ id: PrismaExportFormat; label: string }> = [
+    { id: 'svg', label: 'SVG' },
+    { id: 'png', label: 'PNG' },
+    { id: 'pdf', label: 'PDF' }
+]
+
+const SOURCE_KINDS = Object.keys(SOURCE_KIND_LABELS) as SearchSourceKind[]
+
+export function PrismaPanel({ refreshKey }: PrismaPanelProps) {
+    const [flow, setFlow] = useState<PrismaFlow | null>(null)
+    const [diagram, setDiagram] = useState<PrismaDiagram | null>(null)
+    const [sources, setSources] = useState<SearchSource[]>([])
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [editName, setEditName] = useState('')
+    const [newName, setNewName] = useState('')
+    const [newKind, setNewKind] = useState<SearchSourceKind>('database')
+    const [assignTo, setAssignTo] = useState('')
+    const [exporting, setExporting] = useState<PrismaExportFormat | null>(null)
+
+    const load = useCallback(async () => {
+        try {
+            const [nextFlow, nextDiagram, nextSources] = await Promise.all([
+                window.api.prisma.flow(),
+                window.api.prisma.diagram(),
+                window.api.prisma.sources()
+            ])
+            setFlow(nextFlow)
+            setDiagram(nextDiagram)
+            setSources(nextSources)
+            setAssignTo(prev => nextSources.some(s => s.id === prev) ? prev : nextSources[0]?.id ?? '')
+        } catch (err) {
+            console.error('[PrismaPanel] Failed to load PRISMA flow:', err)
+        }
+    }, [])
+
+    useEffect(() => {
+        load()
+    }, [load, refreshKey])
+
+    const handleExport = async (format: PrismaExportFormat) => {
+        try {
+            setExporting(format)
+            await window.api.prisma.export(format)
+        } catch (err) {
+            console.error('[PrismaPanel] Export failed:', err)
+            alert(`Export failed: ${remoteErrorMessage(err)}`)
+        } finally {
+            setExporting(null)
+        }
+    }
+
+    const handleAddSource = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!newName.trim()) return
+        try {
+            const source = await window.api.prisma.createSource(newName, newKind)
+            setNewName('')
+            setAssignTo(source.id)
+            await load()
+        } catch (err) {
+            console.error('[PrismaPanel] Failed to add source:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleRename = async (source: SearchSource) => {
+        setEditingId(null)
+        if (!editName.trim() || editName.trim() === source.name) return
+        try {
+            await window.api.prisma.updateSource(source.id, { name: editName })
+            await load()
+        } catch (err) {
+            console.error('[PrismaPanel] Failed to rename source:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleKindChange = async (source: SearchSource, kind: SearchSourceKind) => {
+        try {
+            await window.api.prisma.updateSource(source.id, { kind })
+            await load()
+        } catch (err) {
+            console.error('[PrismaPanel] Failed to change source type:', err)
+        }
+    }
+
+    const handleDelete = async (source: SearchSource) => {
+        if (!confirm(`Delete the source "${source.name}"? Its ${source.record_count} identified records are removed from the PRISMA counts; papers stay in the library.`)) return
+        try {
+            await window.api.prisma.deleteSource(source.id)
+            await load()
+        } catch (err) {
+            console.error('[PrismaPanel] Failed to delete source:', err)
+        }
+    }
+
+    const handleAssign = async () => {
+        if (!assignTo) return
+        try {
+            await window.api.prisma.assignUnsourced(assignTo)
+            await load()
+        } catch (err) {
+            console.error('[PrismaPanel] Failed to assign papers to source:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    return (
+        <div className="h-full flex">
+            {/* ── Diagram ───────────────────────────────────────────────────── */}
+            <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex items-center gap-2 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <span className="text-[12px] text-[var(--color-text-tertiary)]">
+                        PRISMA 2020 flow diagram · updates as records are imported and screened
+                    </span>
+                    <div className="ml-auto flex items-center gap-1.5">
+                        {EXPORT_FORMATS.map(f => (
+                            <button
+                                key={f.id}
+                                onClick={() => handleExport(f.id)}
+                                disabled={exporting !== null}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors disabled:opacity-50"
+                            >
+                                <Download size={12} />
+                                {exporting === f.id ? 'Exporting…' : f.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex-1 min-h-0 overflow-auto p-6">
+                    {diagram && (
+                        <div
+                            className="mx-auto bg-white rounded-lg shadow-sm border border-[var(--color-border-subtle)] w-fit"
+                            // Built in the main process with every label XML-escaped
+                            dangerouslySetInnerHTML={{ __html: diagram.svg }}
+                        />
+                    )}
+                </div>
+            </div>
+
+            {/* ── Sources ───────────────────────────────────────────────────── */}
+            <aside className="w-72 shrink-0 border-l border-[var(--color-border-subtle)] flex flex-col">
+                <div className="px-4 py-3 border-b border-[var(--color-border-subtle)]">
+                    <h3 className="text-[13px] font-semibold text-[var(--color-text-primary)]">Search sources</h3>
+                    <p className="text-[11px] text-[var(--color-text-tertiary)] mt-0.5">Recorded when references are imported</p>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+                    {sources.map(source => (
+                        <div key={source.id} className="group px-2 py-2 rounded-lg hover:bg-[var(--color-bg-hover)]">
+                            <div className="flex items-center gap-2">
+                                <Database size={12} className="text-[var(--color-text-tertiary)] shrink-0" />
+                                {editingId === source.id ? (
+                                    <input
+                                        autoFocus
+                                        value={editName}
+                                        onChange={(e) => setEditName(e.target.value)}
+                                        onBlur={() => handleRename(source)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') handleRename(source)
+                                            if (e.key === 'Escape') setEditingId(null)
+                                        }}
+                                        className="flex-1 min-w-0 bg-[var(--color-bg-elevated)] border border-[var(--color-accent)] rounded-md px-2 py-0.5 text-[12px] text-[var(--color-text-primary)] outline-none"
+                                    />
+                                ) : (
+                                    <button
+                                        onClick={() => {
+                                            setEditingId(source.id)
+                                            setEditName(source.name)
+                                        }}
+                                        className="flex-1 min-w-0 text-left text-[12px] font-medium text-[var(--color-text-primary)] truncate"
+                                        title="Click to rename"
+                                    >
+                                        {source.name}
+                                    </button>
+                                )}
+                                <span className="text-[11px] tabular-nums text-[var(--color-text-tertiary)] shrink-0">{source.record_count}</span>
+                                <button
+                                    onClick={() => handleDelete(source)}
+                                    className="p-1 rounded-md text-[var(--color-text-tertiary)] opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-red-500/10 transition-all"
+                                    title="Delete source"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                            <select
+                                value={source.kind}
+                                onChange={(e) => handleKindChange(source, e.target.value as SearchSourceKind)}
+                                className="mt-1 ml-5 bg-transparent text-[11px] text-[var(--color-text-tertiary)] outline-none cursor-pointer"
+                            >
+                                {SOURCE_KINDS.map(kind => (
+                                    <option key={kind} value={kind}>{SOURCE_KIND_LABELS[kind]}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                    {sources.length === 0 && (
+                        <p className="px-2 py-6 text-center text-[12px] text-[var(--color-text-tertiary)]">
+                            No sources yet. Import a search export or add one below.
+                        </p>
+                    )}
+                </div>
+
+                {flow && flow.unsourced > 0 && (
+                    <div className="mx-3 mb-3 p-3 rounded-lg bg-[var(--color-warning)]/10 text-[12px] text-[var(--color-text-secondary)] space-y-2">
+                        <p className="flex items-start gap-1.5">
+                            <AlertTriangle size={13} className="text-[var(--color-warning)] shrink-0 mt-0.5" />
+                            {flow.unsourced} paper{flow.unsourced !== 1 ? 's were' : ' was'} added without an import and {flow.unsourced !== 1 ? 'are' : 'is'} counted under other methods.
+                        </p>
+                        {sources.length > 0 && (
+                            <div className="flex items-center gap-1.5">
+                                <select
+                                    value={assignTo}
+                                    onChange={(e) => setAssignTo(e.target.value)}
+                                    className="flex-1 min-w-0 bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-md px-2 py-1 text-[12px] text-[var(--color-text-primary)] outline-none"
+                                >
+                                    {sources.map(s => (
+                                        <option key={s.id} value={s.id}>{s.name}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={handleAssign}
+                                    className="px-2.5 py-1 rounded-md text-[12px] font-medium bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-hover)] transition-colors"
+                                >
+                                    Assign
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <form onSubmit={handleAddSource} className="p-3 border-t border-[var(--color-border-subtle)] space-y-2">
+                    <input
+                        type="text"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        placeholder="New source, e.g. Embase"
+                        className="w-full bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                    />
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={newKind}
+                            onChange={(e) => setNewKind(e.target.value as SearchSourceKind)}
+                            className="flex-1 bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-lg px-2 py-1.5 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                        >
+                            {SOURCE_KINDS.map(kind => (
+                                <option key={kind} value={kind}>{SOURCE_KIND_LABELS[kind]}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="submit"
+                            disabled={!newName.trim()}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-[var(--color-accent)] text-white text-[12px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Plus size={13} />
+                            Add
+                        </button>
+                    </div>
+                </form>
+            </aside>
+        </div>
+    )
+}
@@ -1,12 +1,15 @@
 // ============================================================================
 // ThreadMed — Project Picker (Landing Screen)
 // ============================================================================
-// Shown when no project is open. Lets the user create a new project,
-// open an existing .tdmd project, or pick from recent projects.
+// Shown when no project is open. Lets the user create a new project from a
+// codebook template, open an existing .tdmd project, or pick from recent
+// projects.
 // ============================================================================
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { FolderOpen, Plus, Trash2, Clock, FileText, ChevronRight, Edit2, Check, X } from 'lucide-react'
+import { FolderOpen, Plus, Trash2, Clock, FileText, ChevronRight, Edit2, Check, X, Tags } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { CodebookNodeSpec, CodebookTemplate } from '@/types'
 
 interface Project {
     name: string
@@ -18,11 +21,26 @@ interface ProjectPickerProps {
     onProjectOpen: (project: Project) => void
 }
 
+/** Number of nodes and starter tags in a template, sub-nodes included */
+function countCodebook(nodes: CodebookNodeSpec[]): { nodes: number; tags: number } {
+    return nodes.reduce((sum, node) => {
+        const children = countCodebook(node.children ?? [])
+        return {
+            nodes: sum.nodes + 1 + children.nodes,
+            tags: sum.tags + (node.tags?.length ?? 0) + children.tags
+        }
+    }, { nodes: 0, tags: 0 })
+}
+
 export function ProjectPicker({ onProjectOpen }: ProjectPickerProps) {
     const [recentProjects, setRecentProjects] = useState<Project[]>([])
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
 
+    // New project: codebook template chooser
+    const [templates, setTemplates] = useState<CodebookTemplate[] | null>(null)
+    const [templateId, setTemplateId] = useState('pico')
+
     // Rename state
     const [editingPath, setEditingPath] = useState<string | null>(null)
     const [editValue, setEditValue] = useState('')
@@ -54,7 +72,16 @@ export function ProjectPicker({ onProjectOpen }: ProjectPickerProps) {
     const handleNewProject = async () => {
         try {
             setError(null)
-            const project = await window.api.projects.new()
+            setTemplates(await window.api.codebook.templates())
+        } catch (err: any) {
+            setError(err?.message || 'Failed to load codebook templates')
+        }
+    }
+
+    const handleCreateProject = async () => {
+        try {
+            setError(null)
+            const project = await window.api.projects.new(templateId)
             if (project) {
                 onProjectOpen(project)
             }
@@ -63,6 +90,18 @@ export function ProjectPicker({ onProjectOpen }: ProjectPickerProps) {
         }
     }
 
+    const handleDeleteTemplate = async (template: CodebookTemplate, e: React.MouseEvent) => {
+        e.stopPropagation()
+        if (!confirm(`Delete the codebook template "${template.name}"? Projects created from it are not affected.`)) return
+        try {
+            await window.api.codebook.deleteTemplate(template.id)
+            if (templateId === template.id) setTemplateId('pico')
+            setTemplates(await window.api.codebook.templates())
+        } catch (err: any) {
+            setError(err?.message || 'Failed to delete template')
+        }
+    }
+
     const handleOpenProject = async () => {
         try {
             setError(null)
@@ -185,8 +224,86 @@ export function ProjectPicker({ onProjectOpen }: ProjectPickerProps) {
                 </div>
             )}
 
+            {/* Codebook Template Chooser */}
+            {templates && (
+                <div className="w-full max-w-2xl">
+                    <p className="text-[12px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)] mb-3 px-1 flex items-center gap-2">
+                        <Tags size={12} />
+                        Start with a codebook
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 max-h-[340px] overflow-y-auto pr-1">
+                        {templates.map(template => {
+                            const counts = countCodebook(template.nodes)
+                            const selected = template.id === templateId
+                            return (
+                                <div
+                                    key={template.id}
+                                    onClick={() => setTemplateId(template.id)}
+                                    className={cn(
+                                        'p-3.5 rounded-xl border-2 text-left cursor-pointer transition-all group',
+                                        selected
+                                            ? 'border-[var(--color-accent)] bg-[var(--color-accent-subtle)]'
+                                            : 'border-[var(--color-border-subtle)] bg-[var(--color-bg-surface)] hover:border-[var(--color-border)]'
+                                    )}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <p className={cn('text-[14px] font-semibold flex-1 truncate', selected ? 'text-[var(--color-accent)]' : 'text-[var(--color-text-primary)]')}>
+                                            {template.name}
+                                        </p>
+                                        {!template.builtIn && (
+                                            <>
+                                                <span className="text-[10px] font-medium px-1.5 py-0.5 rounded-full bg-[var(--color-bg-active)] text-[var(--color-text-tertiary)]">Saved</span>
+                                                <button
+                                                    onClick={(e) => handleDeleteTemplate(template, e)}
+                                                    className="p-1 rounded-md opacity-0 group-hover:opacity-100 hover:bg-red-500/10 text-[var(--color-text-tertiary)] hover:text-red-400 transition-all"
+                                                    title="Delete template"
+                                                >
+                                                    <Trash2 size={12} />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                    {template.description && (
+                                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-1 leading-snug line-clamp-2">{template.description}</p>
+                                    )}
+                                    <div className="flex items-center gap-1 mt-2.5">
+                                        {template.nodes.map(node => (
+                                            <span
+                                                key={node.name}
+                                                className="w-2.5 h-2.5 rounded-full shrink-0"
+                                                style={{ backgroundColor: node.color }}
+                                                title={node.name}
+                                            />
+                                        ))}
+                                        <span className="text-[11px] text-[var(--color-text-tertiary)] ml-1.5 tabular-nums">
+                                            {counts.nodes} node{counts.nodes !== 1 ? 's' : ''}
+                                            {counts.tags > 0 && ` · ${counts.tags} starter tag${counts.tags !== 1 ? 's' : ''}`}
+                                        </span>
+                                    </div>
+                                </div>
+                            )
+                        })}
+                    </div>
+                    <div className="flex justify-end gap-2 mt-4">
+                        <button
+                            onClick={() => setTemplates(null)}
+                            className="px-4 py-2 rounded-lg text-[13px] font-medium text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleCreateProject}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[var(--color-accent)] text-white text-[13px] font-semibold hover:opacity-90 transition-all"
+                        >
+                            <FolderOpen size={14} />
+                            Choose Folder & Create
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Recent Projects */}
-            {!loading && recentProjects.length > 0 && (
+            {!templates && !loading && recentProjects.length > 0 && (
                 <div className="w-full max-w-lg">
                     <p className="text-[12px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)] mb-3 px-1 flex items-center gap-2">
                         <Clock size={12} />
@@ -285,7 +402,7 @@ export function ProjectPicker({ onProjectOpen }: ProjectPickerProps) {
             )}
 
             {/* Empty State */}
-            {!loading && recentProjects.length === 0 && (
+            {!templates && !loading && recentProjects.length === 0 && (
                 <p className="text-[13px] text-[var(--color-text-tertiary)] text-center max-w-sm">
                     Create a new project folder to get started, or open an existing project directory.
                 </p>
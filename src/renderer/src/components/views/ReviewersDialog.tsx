@@ -0,0 +1,212 @@
+// ============================================================================
+// ThreadMed — Reviewers Dialog
+// ============================================================================
+// Manages reviewer profiles for dual screening. The first two profiles form
+// the screening pair; the active profile is who new decisions belong to.
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Plus, Trash2, Check, UserCheck } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { Reviewer } from '@/types'
+
+interface ReviewersDialogProps {
+    isOpen: boolean
+    activeReviewerId: string | null
+    onClose: () => void
+    /** Called after any change so the caller can reload reviewers and decisions */
+    onChanged: () => void
+}
+
+export function ReviewersDialog({ isOpen, activeReviewerId, onClose, onChanged }: ReviewersDialogProps) {
+    const [reviewers, setReviewers] = useState<Reviewer[]>([])
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [editName, setEditName] = useState('')
+    const [newName, setNewName] = useState('')
+
+    const loadReviewers = async () => {
+        try {
+            setReviewers(await window.api.reviewers.list())
+        } catch (err) {
+            console.error('[ReviewersDialog] Failed to load reviewers:', err)
+        }
+    }
+
+    useEffect(() => {
+        if (!isOpen) return
+        setEditingId(null)
+        setNewName('')
+        loadReviewers()
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!newName.trim()) return
+        try {
+            await window.api.reviewers.create(newName)
+            setNewName('')
+            await loadReviewers()
+            onChanged()
+        } catch (err) {
+            console.error('[ReviewersDialog] Failed to add reviewer:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleRename = async (id: string) => {
+        const original = reviewers.find(r => r.id === id)
+        if (!editName.trim() || editName.trim() === original?.name) {
+            setEditingId(null)
+            return
+        }
+        try {
+            await window.api.reviewers.rename(id, editName)
+            setEditingId(null)
+            await loadReviewers()
+            onChanged()
+        } catch (err) {
+            console.error('[ReviewersDialog] Failed to rename reviewer:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleActivate = async (id: string) => {
+        try {
+            await window.api.reviewers.setActive(id)
+            onChanged()
+        } catch (err) {
+            console.error('[ReviewersDialog] Failed to switch reviewer:', err)
+        }
+    }
+
+    const handleDelete = async (reviewer: Reviewer) => {
+        if (!confirm(`Delete the reviewer "${reviewer.name}"? All of their screening decisions will be deleted too.`)) return
+        try {
+            await window.api.reviewers.delete(reviewer.id)
+            await loadReviewers()
+            onChanged()
+        } catch (err) {
+            console.error('[ReviewersDialog] Failed to delete reviewer:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-md rounded-2xl shadow-2xl flex flex-col max-h-[80vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Reviewers</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">
+                            The first two reviewers screen independently; agreement is compared between them
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Reviewer List ─────────────────────────────────────────── */}
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-0.5">
+                    {reviewers.map((reviewer, i) => {
+                        const isActive = reviewer.id === activeReviewerId
+                        return (
+                            <div key={reviewer.id} className="group flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-[var(--color-bg-hover)]">
+                                <span className="w-4 text-[11px] tabular-nums text-[var(--color-text-tertiary)] shrink-0">{i + 1}</span>
+                                {editingId === reviewer.id ? (
+                                    <input
+                                        autoFocus
+                                        value={editName}
+                                        onChange={(e) => setEditName(e.target.value)}
+                                        onBlur={() => handleRename(reviewer.id)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') handleRename(reviewer.id)
+                                            if (e.key === 'Escape') setEditingId(null)
+                                        }}
+                                        className="flex-1 min-w-0 bg-[var(--color-bg-elevated)] border border-[var(--color-accent)] rounded-md px-2 py-1 text-[13px] text-[var(--color-text-primary)] outline-none"
+                                    />
+                                ) : (
+                                    <button
+                                        onClick={() => {
+                                            setEditingId(reviewer.id)
+                                            setEditName(reviewer.name)
+                                        }}
+                                        className={cn(
+                                            'flex-1 min-w-0 text-left text-[13px] truncate',
+                                            isActive ? 'font-semibold text-[var(--color-accent)]' : 'text-[var(--color-text-primary)]'
+                                        )}
+                                        title="Click to rename"
+                                    >
+                                        {reviewer.name}
+                                    </button>
+                                )}
+                                {isActive ? (
+                                    <span className="flex items-center gap-1 text-[11px] font-medium text-[var(--color-accent)] shrink-0">
+                                        <UserCheck size={12} />
+                                        You
+                                    </span>
+                                ) : (
+                                    <>
+                                        <button
+                                            onClick={() => handleActivate(reviewer.id)}
+                                            className="text-[11px] font-medium text-[var(--color-text-tertiary)] hover:text-[var(--color-accent)] opacity-0 group-hover:opacity-100 transition-all shrink-0"
+                                        >
+                                            Screen as
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(reviewer)}
+                                            className="p-1 rounded-md text-[var(--color-text-tertiary)] opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-red-500/10 transition-all"
+                                            title="Delete reviewer"
+                                        >
+                                            <Trash2 size={13} />
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <form
+                    onSubmit={handleAdd}
+                    className="px-6 py-4 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex items-center gap-2 shrink-0 rounded-b-2xl"
+                >
+                    <input
+                        type="text"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        placeholder="Reviewer name"
+                        className="flex-1 min-w-0 bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!newName.trim()}
+                        className="flex items-center gap-1.5 px-4 py-1.5 bg-[var(--color-accent)] text-white text-[13px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Plus size={14} />
+                        Add
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        <Check size={14} />
+                        Done
+                    </button>
+                </form>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
@@ -0,0 +1,288 @@
+// ============================================================================
+// ThreadMed — Risk of Bias View
+// ============================================================================
+// Risk-of-bias assessment with RoB 2, ROBINS-I or the Newcastle–Ottawa Scale.
+// The side list holds the tool's assessments (one per study and outcome);
+// the Plots tab draws the traffic-light and summary plots of every
+// assessment with SVG / PNG / PDF export.
+// ============================================================================
+
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Download, ShieldCheck } from 'lucide-react'
+import { NewRobAssessmentDialog } from './NewRobAssessmentDialog'
+import { RobAssessmentForm, JudgementBadge } from './RobAssessmentForm'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import { useDataRefresh } from '@/lib/events'
+import type { PrismaExportFormat, RobAssessment, RobPlot, RobPlotKind, RobToolDefinition, RobToolId } from '@/types'
+
+interface RiskOfBiasViewProps {
+    onOpenAnnotation: (paperId: string, annotationId: string) => void
+}
+
+type RobMode = 'assess' | 'plots'
+
+const PLOT_KINDS: Array<{ id: RobPlotKind; label: string }> = [
+    { id: 'traffic_light', label: 'Traffic light' },
+    { id: 'summary', label: 'Summary' }
+]
+
+const EXPORT_FORMATS: Array<{ id: PrismaExportFormat; label: string }> = [
+    { id: 'svg', label: 'SVG' },
+    { id: 'png', label: 'PNG' },
+    { id: 'pdf', label: 'PDF' }
+]
+
+export function RiskOfBiasView({ onOpenAnnotation }: RiskOfBiasViewProps) {
+    const [tools, setTools] = useState<RobToolDefinition[]>([])
+    const [toolId, setToolId] = useState<RobToolId>('rob2')
+    const [mode, setMode] = useState<RobMode>('assess')
+    const [assessments, setAssessments] = useState<RobAssessment[]>([])
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const [showNew, setShowNew] = useState(false)
+    const [plotKind, setPlotKind] = useState<RobPlotKind>('traffic_light')
+    const [plot, setPlot] = useState<RobPlot | null>(null)
+    const [exporting, setExporting] = useState<PrismaExportFormat | null>(null)
+
+    const tool = tools.find(t => t.id === toolId)
+    const selected = assessments.find(a => a.id === selectedId) ?? null
+
+    useEffect(() => {
+        window.api.rob.tools()
+            .then(setTools)
+            .catch(err => console.error('[RiskOfBiasView] Failed to load tools:', err))
+    }, [])
+
+    const loadAssessments = useCallback(async () => {
+        try {
+            const list = await window.api.rob.list(toolId)
+            setAssessments(list)
+            setSelectedId(prev => list.some(a => a.id === prev) ? prev : list[0]?.id ?? null)
+        } catch (err) {
+            console.error('[RiskOfBiasView] Failed to load assessments:', err)
+        }
+    }, [toolId])
+
+    useEffect(() => {
+        loadAssessments()
+    }, [loadAssessments])
+
+    // Papers can be deleted or merged elsewhere
+    useDataRefresh(loadAssessments)
+
+    useEffect(() => {
+        if (mode !== 'plots') return
+        window.api.rob.plot(plotKind, toolId)
+            .then(setPlot)
+            .catch(err => console.error('[RiskOfBiasView] Failed to draw plot:', err))
+    }, [mode, plotKind, toolId, assessments])
+
+    const handleChange = (updated: RobAssessment) => {
+        setAssessments(prev => prev.map(a => a.id === updated.id ? updated : a))
+    }
+
+    const handleCreated = (created: RobAssessment) => {
+        setShowNew(false)
+        setMode('assess')
+        setAssessments(prev => [...prev, created].sort((a, b) =>
+            a.paper_title.localeCompare(b.paper_title) || a.outcome.localeCompare(b.outcome)
+        ))
+        setSelectedId(created.id)
+    }
+
+    const handleDelete = async (assessment: RobAssessment) => {
+        if (!confirm(`Delete the ${tool?.name ?? ''} assessment of "${assessment.paper_title}"${assessment.outcome ? ` (${assessment.outcome})` : ''}? This cannot be undone.`)) return
+        try {
+            await window.api.rob.delete(assessment.id)
+            await loadAssessments()
+        } catch (err) {
+            console.error('[RiskOfBiasView] Failed to delete assessment:', err)
+        }
+    }
+
+    const handleExport = async (format: PrismaExportFormat) => {
+        try {
+            setExporting(format)
+            await window.api.rob.exportPlot(plotKind, toolId, format)
+        } catch (err) {
+            console.error('[RiskOfBiasView] Export failed:', err)
+            alert(`Export failed: ${remoteErrorMessage(err)}`)
+        } finally {
+            setExporting(null)
+        }
+    }
+
+    if (!tool) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <div className="animate-pulse text-[var(--color-text-tertiary)] text-sm">Loading risk-of-bias tools...</div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="h-full flex flex-col animate-fade-in">
+            {/* ── Toolbar ───────────────────────────────────────────────────── */}
+            <div className="flex items-center gap-4 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5 shrink-0">
+                    {tools.map(t => (
+                        <button
+                            key={t.id}
+                            onClick={() => setToolId(t.id)}
+                            title={t.study_design}
+                            className={cn(
+                                'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                toolId === t.id
+                                    ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                    : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                            )}
+                        >
+                            {t.name}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5 shrink-0">
+                    {([['assess', 'Assess'], ['plots', 'Plots']] as Array<[RobMode, string]>).map(([id, label]) => (
+                        <button
+                            key={id}
+                            onClick={() => setMode(id)}
+                            className={cn(
+                                'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                mode === id
+                                    ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                    : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                            )}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <span className="text-[12px] text-[var(--color-text-tertiary)] truncate">{tool.study_design}</span>
+
+                <button
+                    onClick={() => setShowNew(true)}
+                    className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg text-[12px] font-semibold bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-hover)] transition-colors shrink-0"
+                >
+                    <Plus size={13} />
+                    New assessment
+                </button>
+            </div>
+
+            {mode === 'plots' ? (
+                /* ── Plots ──────────────────────────────────────────────────── */
+                <div className="flex-1 min-h-0 flex flex-col">
+                    <div className="flex items-center gap-2 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                        {PLOT_KINDS.map(k => (
+                            <button
+                                key={k.id}
+                                onClick={() => setPlotKind(k.id)}
+                                className={cn(
+                                    'px-3 py-1 rounded-full text-[12px] font-medium border transition-colors',
+                                    plotKind === k.id
+                                        ? 'border-[var(--color-accent)] bg-[var(--color-accent-subtle)] text-[var(--color-accent)]'
+                                        : 'border-[var(--color-border-subtle)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)]'
+                                )}
+                            >
+                                {k.label}
+                            </button>
+                        ))}
+                        <div className="ml-auto flex items-center gap-1.5">
+                            {EXPORT_FORMATS.map(f => (
+                                <button
+                                    key={f.id}
+                                    onClick={() => handleExport(f.id)}
+                                    disabled={exporting !== null || assessments.length === 0}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors disabled:opacity-50"
+                                >
+                                    <Download size={12} />
+                                    {exporting === f.id ? 'Exporting…' : f.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex-1 min-h-0 overflow-auto p-6">
+                        {assessments.length === 0 ? (
+                            <p className="py-16 text-center text-[13px] text-[var(--color-text-tertiary)]">
+                                Plots appear once studies are assessed with {tool.name}.
+                            </p>
+                        ) : plot && (
+                            <div
+                                className="mx-auto bg-white rounded-lg shadow-sm border border-[var(--color-border-subtle)] w-fit"
+                                // Built in the main process with every label XML-escaped
+                                dangerouslySetInnerHTML={{ __html: plot.svg }}
+                            />
+                        )}
+                    </div>
+                </div>
+            ) : (
+                <div className="flex-1 min-h-0 flex">
+                    {/* ── Assessments ───────────────────────────────────────── */}
+                    <aside className="w-72 shrink-0 border-r border-[var(--color-border-subtle)] overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+                        {assessments.map(a => (
+                            <button
+                                key={a.id}
+                                onClick={() => setSelectedId(a.id)}
+                                className={cn(
+                                    'w-full text-left px-3 py-2 rounded-lg transition-colors',
+                                    a.id === selectedId ? 'bg-[var(--color-accent-subtle)]' : 'hover:bg-[var(--color-bg-hover)]'
+                                )}
+                            >
+                                <p className="text-[12px] font-medium text-[var(--color-text-primary)] line-clamp-2 leading-snug">{a.paper_title}</p>
+                                {a.outcome && <p className="text-[11px] text-[var(--color-text-tertiary)] truncate mt-0.5">{a.outcome}</p>}
+                                <div className="flex items-center gap-1 mt-1.5">
+                                    {a.domains.map(d => (
+                                        <span
+                                            key={d.domain_id}
+                                            className="w-2.5 h-2.5 rounded-full"
+                                            style={{ background: tool.judgements.find(j => j.value === d.judgement)?.color ?? 'var(--color-bg-active)' }}
+                                        />
+                                    ))}
+                                    <span className="ml-auto">
+                                        <JudgementBadge tool={tool} value={a.overall} muted={!a.overall} />
+                                    </span>
+                                </div>
+                            </button>
+                        ))}
+                        {assessments.length === 0 && (
+                            <p className="px-2 py-8 text-center text-[12px] text-[var(--color-text-tertiary)]">
+                                No {tool.name} assessments yet.
+                            </p>
+                        )}
+                    </aside>
+
+                    {/* ── Form ──────────────────────────────────────────────── */}
+                    <div className="flex-1 min-w-0 overflow-y-auto">
+                        {selected ? (
+                            <RobAssessmentForm
+                                key={selected.id}
+                                tool={tool}
+                                assessment={selected}
+                                onChange={handleChange}
+                                onDelete={() => handleDelete(selected)}
+                                onOpenAnnotation={onOpenAnnotation}
+                            />
+                        ) : (
+                            <div className="h-full flex items-center justify-center text-[var(--color-text-tertiary)]">
+                                <div className="text-center space-y-2 max-w-sm">
+                                    <ShieldCheck size={36} className="mx-auto opacity-30 mb-3" />
+                                    <p className="text-lg font-medium text-[var(--color-text-secondary)]">No assessment selected</p>
+                                    <p className="text-sm">
+                                        Start a {tool.name} assessment for each included study; judgements follow from the signalling questions.
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <NewRobAssessmentDialog
+                isOpen={showNew}
+                tool={tool}
+                onClose={() => setShowNew(false)}
+                onCreated={handleCreated}
+            />
+        </div>
+    )
+}
@@ -0,0 +1,317 @@
+// ============================================================================
+// ThreadMed — Risk-of-Bias Assessment Form
+// ============================================================================
+// One assessment, domain by domain: signalling questions (follow-up
+// questions appear when earlier answers call for them), the judgement the
+// tool's algorithm reaches with an optional override, the support for
+// judgement and highlights from the paper linked as evidence.
+// ============================================================================
+
+import { useState, useEffect, useRef } from 'react'
+import { Trash2, Link2, X, Star, ExternalLink } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { AnnotationWithContext, RobAssessment, RobDomainResult, RobQuestion, RobToolDefinition } from '@/types'
+
+interface RobAssessmentFormProps {
+    tool: RobToolDefinition
+    assessment: RobAssessment
+    onChange: (assessment: RobAssessment) => void
+    onDelete: () => void
+    onOpenAnnotation: (paperId: string, annotationId: string) => void
+}
+
+/** Mirrors questionApplies() in the main process */
+function questionApplies(question: RobQuestion, answers: Record<string, string>): boolean {
+    if (!question.condition) return true
+    const results = question.condition.rules.map(rule => rule.answers.includes(answers[rule.question]))
+    return question.condition.match === 'all' ? results.every(Boolean) : results.some(Boolean)
+}
+
+export function JudgementBadge({ tool, value, muted }: { tool: RobToolDefinition; value: string | null; muted?: boolean }) {
+    const judgement = tool.judgements.find(j => j.value === value)
+    return (
+        <span className={cn(
+            'inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[11px] font-medium border border-[var(--color-border-subtle)]',
+            muted ? 'text-[var(--color-text-tertiary)]' : 'text-[var(--color-text-primary)]'
+        )}>
+            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ background: judgement?.color ?? 'var(--color-bg-active)' }} />
+            {judgement?.label ?? 'Not yet judged'}
+        </span>
+    )
+}
+
+export function RobAssessmentForm({ tool, assessment, onChange, onDelete, onOpenAnnotation }: RobAssessmentFormProps) {
+    const [annotations, setAnnotations] = useState<AnnotationWithContext[]>([])
+    const [outcome, setOutcome] = useState(assessment.outcome)
+    const [notes, setNotes] = useState(assessment.notes)
+    // Unsaved support text per domain, saved on blur
+    const [support, setSupport] = useState<Record<string, string>>({})
+    const [pickingEvidence, setPickingEvidence] = useState<string | null>(null)
+    const pickerRef = useRef<HTMLDivElement>(null)
+
+    useEffect(() => {
+        setOutcome(assessment.outcome)
+        setNotes(assessment.notes)
+        setSupport(Object.fromEntries(assessment.domains.map(d => [d.domain_id, d.support])))
+        setPickingEvidence(null)
+        window.api.annotations.forPaper(assessment.paper_id)
+            .then(setAnnotations)
+            .catch(err => console.error('[RobAssessmentForm] Failed to load highlights:', err))
+    }, [assessment.id])
+
+    // Close the evidence picker when clicking elsewhere
+    useEffect(() => {
+        if (!pickingEvidence) return
+        const handleClick = (e: MouseEvent) => {
+            if (pickerRef.current && !pickerRef.current.contains(e.target as globalThis.Node)) setPickingEvidence(null)
+        }
+        document.addEventListener('mousedown', handleClick)
+        return () => document.removeEventListener('mousedown', handleClick)
+    }, [pickingEvidence])
+
+    const save = async (action: () => Promise<RobAssessment>, what: string) => {
+        try {
+            onChange(await action())
+        } catch (err) {
+            console.error(`[RobAssessmentForm] Failed to ${what}:`, err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleAnswer = (question: RobQuestion, value: string) => {
+        const next = assessment.answers[question.id] === value ? null : value
+        save(() => window.api.rob.setAnswer(assessment.id, question.id, next), 'save answer')
+    }
+
+    const handleOverride = (domainId: string, value: string) => {
+        save(() => window.api.rob.setDomain(assessment.id, domainId, { judgement_override: value || null }), 'save judgement')
+    }
+
+    const handleSupportBlur = (domain: RobDomainResult) => {
+        const text = support[domain.domain_id] ?? ''
+        if (text === domain.support) return
+        save(() => window.api.rob.setDomain(assessment.id, domain.domain_id, { support: text }), 'save support for judgement')
+    }
+
+    const handleLinkEvidence = (domainId: string, annotationId: string) => {
+        setPickingEvidence(null)
+        save(() => window.api.rob.addEvidence(assessment.id, domainId, annotationId), 'link evidence')
+    }
+
+    const handleUnlinkEvidence = (domainId: string, annotationId: string) => {
+        save(() => window.api.rob.removeEvidence(assessment.id, domainId, annotationId), 'unlink evidence')
+    }
+
+    const handleOutcomeBlur = () => {
+        if (outcome.trim() === assessment.outcome) return
+        save(() => window.api.rob.update(assessment.id, { outcome }), 'rename outcome').then(() => setOutcome(o => o.trim()))
+    }
+
+    const handleNotesBlur = () => {
+        if (notes === assessment.notes) return
+        save(() => window.api.rob.update(assessment.id, { notes }), 'save notes')
+    }
+
+    const handleOverallOverride = (value: string) => {
+        save(() => window.api.rob.update(assessment.id, { overall_override: value || null }), 'save overall judgement')
+    }
+
+    return (
+        <article className="max-w-3xl mx-auto px-8 py-8 space-y-5">
+            {/* ── Study ─────────────────────────────────────────────────────── */}
+            <header>
+                <div className="flex items-start gap-3">
+                    <h1 className="flex-1 text-xl font-semibold text-[var(--color-text-primary)] leading-snug">{assessment.paper_title}</h1>
+                    <button
+                        onClick={onDelete}
+                        className="p-1.5 rounded-lg text-[var(--color-text-tertiary)] hover:text-red-400 hover:bg-red-500/10 transition-colors shrink-0"
+                        title="Delete assessment"
+                    >
+                        <Trash2 size={15} />
+                    </button>
+                </div>
+                <input
+                    value={outcome}
+                    onChange={(e) => setOutcome(e.target.value)}
+                    onBlur={handleOutcomeBlur}
+                    onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur() }}
+                    placeholder="Outcome or result assessed"
+                    className="mt-2 w-full bg-transparent border-b border-transparent hover:border-[var(--color-border)] focus:border-[var(--color-accent)] py-1 text-[13px] text-[var(--color-text-secondary)] outline-none transition-colors"
+                />
+            </header>
+
+            {/* ── Domains ───────────────────────────────────────────────────── */}
+            {tool.domains.map(domain => {
+                const result = assessment.domains.find(d => d.domain_id === domain.id)!
+                const linked = new Set(result.evidence.map(e => e.annotation_id))
+                const available = annotations.filter(a => !linked.has(a.id))
+                return (
+                    <section key={domain.id} className="rounded-xl border border-[var(--color-border)] overflow-hidden">
+                        <div className="flex items-center gap-3 px-4 py-3 bg-[var(--color-bg-elevated)] border-b border-[var(--color-border-subtle)]">
+                            <span className="text-[11px] font-bold text-[var(--color-text-tertiary)] shrink-0">{domain.short}</span>
+                            <h2 className="flex-1 text-[13px] font-semibold text-[var(--color-text-primary)]">{domain.name}</h2>
+                            {result.stars !== undefined && (
+                                <span className="flex items-center gap-0.5 text-[12px] text-[var(--color-warning)] shrink-0" title={`${result.stars} star${result.stars !== 1 ? 's' : ''}`}>
+                                    {Array.from({ length: result.stars }, (_, i) => <Star key={i} size={11} fill="currentColor" />)}
+                                </span>
+                            )}
+                            <JudgementBadge tool={tool} value={result.judgement} />
+                        </div>
+
+                        <div className="divide-y divide-[var(--color-border-subtle)]">
+                            {domain.questions.filter(question => questionApplies(question, assessment.answers)).map(question => (
+                                <div key={question.id} className="px-4 py-3">
+                                    <p className="text-[13px] text-[var(--color-text-primary)] leading-relaxed">
+                                        {tool.id !== 'nos' && <span className="text-[var(--color-text-tertiary)] tabular-nums mr-1.5">{question.id}</span>}
+                                        {question.text}
+                                    </p>
+                                    <div className="flex flex-wrap gap-1.5 mt-2">
+                                        {question.options.map(option => (
+                                            <button
+                                                key={option.value}
+                                                onClick={() => handleAnswer(question, option.value)}
+                                                title={option.label}
+                                                className={cn(
+                                                    'flex items-center gap-1 px-2.5 py-1 rounded-md text-[12px] font-medium border transition-colors',
+                                                    assessment.answers[question.id] === option.value
+                                                        ? 'border-[var(--color-accent)] bg-[var(--color-accent-subtle)] text-[var(--color-accent)]'
+                                                        : 'border-[var(--color-border-subtle)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)]'
+                                                )}
+                                            >
+                                                {tool.id === 'nos' ? option.label : option.value}
+                                                {!!option.stars && <Star size={10} fill="currentColor" />}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Judgement, support and evidence */}
+                        <div className="px-4 py-3 space-y-3 bg-[var(--color-bg-surface)] border-t border-[var(--color-border-subtle)]">
+                            <div className="flex items-center gap-2 text-[12px] text-[var(--color-text-secondary)]">
+                                {domain.derived ? (
+                                    <>
+                                        <span>Algorithm:</span>
+                                        <JudgementBadge tool={tool} value={result.derived} muted />
+                                        <span className="ml-auto">Override</span>
+                                    </>
+                                ) : (
+                                    <span>Reviewer judgement</span>
+                                )}
+                                <select
+                                    value={result.override ?? ''}
+                                    onChange={(e) => handleOverride(domain.id, e.target.value)}
+                                    className={cn(
+                                        'bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-md px-2 py-1 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]',
+                                        !domain.derived && 'ml-auto'
+                                    )}
+                                >
+                                    <option value="">{domain.derived ? 'None' : 'Not yet judged'}</option>
+                                    {tool.judgements.map(j => (
+                                        <option key={j.value} value={j.value}>{j.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <textarea
+                                value={support[domain.id] ?? ''}
+                                onChange={(e) => setSupport(prev => ({ ...prev, [domain.id]: e.target.value }))}
+                                onBlur={() => handleSupportBlur(result)}
+                                placeholder="Support for judgement"
+                                rows={2}
+                                className="w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-2 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)] resize-y"
+                            />
+
+                            {result.evidence.map(evidence => (
+                                <div
+                                    key={evidence.annotation_id}
+                                    className="group flex items-start gap-2 pl-3 pr-2 py-1.5 rounded-md bg-[var(--color-bg-elevated)] border-l-2"
+                                    style={{ borderLeftColor: evidence.node_color }}
+                                >
+                                    <p className="flex-1 text-[12px] text-[var(--color-text-secondary)] leading-relaxed line-clamp-3">
+                                        “{evidence.content}”
+                                        <span className="ml-1.5 text-[var(--color-text-tertiary)]">p. {evidence.page_number}</span>
+                                    </p>
+                                    <button
+                                        onClick={() => onOpenAnnotation(assessment.paper_id, evidence.annotation_id)}
+                                        className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Open in paper"
+                                    >
+                                        <ExternalLink size={12} />
+                                    </button>
+                                    <button
+                                        onClick={() => handleUnlinkEvidence(domain.id, evidence.annotation_id)}
+                                        className="p-1 rounded text-[var(--color-text-tertiary)] hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Unlink evidence"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                </div>
+                            ))}
+
+                            <div className="relative" ref={pickingEvidence === domain.id ? pickerRef : undefined}>
+                                <button
+                                    onClick={() => setPickingEvidence(pickingEvidence === domain.id ? null : domain.id)}
+                                    disabled={available.length === 0}
+                                    className="flex items-center gap-1.5 text-[12px] font-medium text-[var(--color-accent)] hover:underline disabled:text-[var(--color-text-tertiary)] disabled:no-underline"
+                                    title={annotations.length === 0 ? 'Highlight passages in the paper to quote them as evidence' : undefined}
+                                >
+                                    <Link2 size={12} />
+                                    {annotations.length === 0 ? 'No highlights in this paper' : 'Link a highlight as evidence'}
+                                </button>
+                                {pickingEvidence === domain.id && (
+                                    <div className="absolute z-20 left-0 top-full mt-1 w-full max-h-64 overflow-y-auto custom-scrollbar bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg shadow-xl p-1">
+                                        {available.map(annotation => (
+                                            <button
+                                                key={annotation.id}
+                                                onClick={() => handleLinkEvidence(domain.id, annotation.id)}
+                                                className="w-full text-left flex items-start gap-2 px-2 py-1.5 rounded-md hover:bg-[var(--color-bg-hover)]"
+                                            >
+                                                <span className="w-2 h-2 rounded-full mt-1.5 shrink-0" style={{ background: annotation.node_color }} />
+                                                <span className="flex-1 text-[12px] text-[var(--color-text-secondary)] line-clamp-2">{annotation.content}</span>
+                                                <span className="text-[11px] text-[var(--color-text-tertiary)] shrink-0">p. {annotation.page_number}</span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </section>
+                )
+            })}
+
+            {/* ── Overall ───────────────────────────────────────────────────── */}
+            <section className="rounded-xl border border-[var(--color-border)] p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                    <h2 className="flex-1 text-[14px] font-semibold text-[var(--color-text-primary)]">Overall risk of bias</h2>
+                    <JudgementBadge tool={tool} value={assessment.overall} />
+                </div>
+                <p className="text-[12px] text-[var(--color-text-tertiary)]">{tool.overall_rule}</p>
+                <div className="flex items-center gap-2 text-[12px] text-[var(--color-text-secondary)]">
+                    <span>From the domains:</span>
+                    <JudgementBadge tool={tool} value={assessment.derived_overall} muted />
+                    <span className="ml-auto">Override</span>
+                    <select
+                        value={assessment.overall_override ?? ''}
+                        onChange={(e) => handleOverallOverride(e.target.value)}
+                        className="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-md px-2 py-1 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                    >
+                        <option value="">None</option>
+                        {tool.judgements.map(j => (
+                            <option key={j.value} value={j.value}>{j.label}</option>
+                        ))}
+                    </select>
+                </div>
+                <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    onBlur={handleNotesBlur}
+                    placeholder="Notes"
+                    rows={3}
+                    className="w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-3 py-2 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)] resize-y"
+                />
+            </section>
+        </article>
+    )
+}
@@ -0,0 +1,292 @@
+// ============================================================================
+// ThreadMed — Screening Agreement Panel
+// ============================================================================
+// Dual-screening results for one stage: each reviewer's progress, percent
+// agreement and Cohen's kappa, and the conflict queue where disagreements
+// are resolved. Everything but progress stays hidden until both reviewers
+// have screened every record, so neither sees the other's calls early.
+// ============================================================================
+
+import { useState, useEffect, useCallback } from 'react'
+import { Lock, GitMerge, Users, Check, X, HelpCircle, RotateCcw, FileText } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { ExclusionReason, ScreeningAgreement, ScreeningConflict, ScreeningDecisionValue, ScreeningStage } from '@/types'
+
+interface ScreeningAgreementPanelProps {
+    stage: ScreeningStage
+    reasons: ExclusionReason[]
+    /** Changes whenever decisions may have changed elsewhere (reviewer switch, merge) */
+    refreshKey: number
+    onManageReviewers: () => void
+    onOpenPaper: (paperId: string) => void
+    onMerged: () => void
+}
+
+const DECISION_CHIPS: Record<ScreeningDecisionValue, { label: string; className: string }> = {
+    include: { label: 'Include', className: 'text-[var(--color-success)] bg-[var(--color-success)]/10' },
+    maybe: { label: 'Maybe', className: 'text-[var(--color-warning)] bg-[var(--color-warning)]/10' },
+    exclude: { label: 'Exclude', className: 'text-[var(--color-error)] bg-[var(--color-error)]/10' }
+}
+
+/** Landis & Koch (1977) benchmarks for kappa */
+function describeKappa(kappa: number): string {
+    if (kappa < 0) return 'poor'
+    if (kappa <= 0.2) return 'slight'
+    if (kappa <= 0.4) return 'fair'
+    if (kappa <= 0.6) return 'moderate'
+    if (kappa <= 0.8) return 'substantial'
+    return 'almost perfect'
+}
+
+export function ScreeningAgreementPanel({ stage, reasons, refreshKey, onManageReviewers, onOpenPaper, onMerged }: ScreeningAgreementPanelProps) {
+    const [agreement, setAgreement] = useState<ScreeningAgreement | null>(null)
+    // Conflict currently picking an exclusion reason for its resolution
+    const [excludingId, setExcludingId] = useState<string | null>(null)
+
+    const loadAgreement = useCallback(async () => {
+        try {
+            setAgreement(await window.api.screening.agreement(stage))
+        } catch (err) {
+            console.error('[ScreeningAgreementPanel] Failed to load agreement:', err)
+        }
+    }, [stage])
+
+    useEffect(() => {
+        loadAgreement()
+    }, [loadAgreement, refreshKey])
+
+    const handleResolve = async (conflict: ScreeningConflict, decision: ScreeningDecisionValue, reasonId: string | null = null) => {
+        setExcludingId(null)
+        try {
+            await window.api.screening.resolve({ paperId: conflict.paper_id, stage, decision, reasonId })
+            await loadAgreement()
+        } catch (err) {
+            console.error('[ScreeningAgreementPanel] Failed to resolve conflict:', err)
+            alert(`Failed to resolve conflict: ${remoteErrorMessage(err)}`)
+        }
+    }
+
+    const handleReopen = async (conflict: ScreeningConflict) => {
+        try {
+            await window.api.screening.clearResolution(conflict.paper_id, stage)
+            await loadAgreement()
+        } catch (err) {
+            console.error('[ScreeningAgreementPanel] Failed to reopen conflict:', err)
+        }
+    }
+
+    const handleMerge = async () => {
+        try {
+            const result = await window.api.screening.merge()
+            if (!result) return
+            alert(
+                `Merged ${result.decisions_merged} decision${result.decisions_merged !== 1 ? 's' : ''}` +
+                ` and ${result.resolutions_merged} resolution${result.resolutions_merged !== 1 ? 's' : ''}.` +
+                (result.reviewers_added > 0 ? `\nAdded ${result.reviewers_added} reviewer profile${result.reviewers_added !== 1 ? 's' : ''}.` : '') +
+                (result.skipped > 0 ? `\nSkipped ${result.skipped} unchanged or unmatched record${result.skipped !== 1 ? 's' : ''}.` : '')
+            )
+            onMerged()
+            await loadAgreement()
+        } catch (err) {
+            console.error('[ScreeningAgreementPanel] Merge failed:', err)
+            alert(`Merge failed: ${remoteErrorMessage(err)}`)
+        }
+    }
+
+    if (!agreement) return null
+
+    const unresolved = agreement.conflicts.filter(c => !c.resolution).length
+
+    return (
+        <div className="max-w-4xl mx-auto px-8 py-8 space-y-6">
+            {/* ── Reviewer Progress ─────────────────────────────────────────── */}
+            <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-[10px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)]">Reviewers</h3>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={onManageReviewers}
+                            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                        >
+                            <Users size={13} />
+                            Manage
+                        </button>
+                        <button
+                            onClick={handleMerge}
+                            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                            title="Merge decisions made in a copy of this project (File → Save Project As…)"
+                        >
+                            <GitMerge size={13} />
+                            Merge from copy…
+                        </button>
+                    </div>
+                </div>
+                {agreement.reviewers.length < 2 ? (
+                    <p className="text-[13px] text-[var(--color-text-secondary)]">
+                        Dual screening needs a second reviewer profile. Add one, then each reviewer screens independently
+                        (in this project or in their own copy) without seeing the other's decisions.
+                    </p>
+                ) : (
+                    <div className="grid grid-cols-2 gap-3">
+                        {agreement.reviewers.map(r => (
+                            <div key={r.reviewer_id} className="p-4 rounded-xl border border-[var(--color-border-subtle)] bg-[var(--color-bg-elevated)]">
+                                <p className="text-[13px] font-medium text-[var(--color-text-primary)] truncate">{r.reviewer_name}</p>
+                                <div className="mt-2 h-1.5 rounded-full bg-[var(--color-bg-active)] overflow-hidden">
+                                    <div
+                                        className="h-full bg-[var(--color-accent)] transition-all"
+                                        style={{ width: `${agreement.eligible ? (r.decided / agreement.eligible) * 100 : 0}%` }}
+                                    />
+                                </div>
+                                <p className="mt-1.5 text-[11px] tabular-nums text-[var(--color-text-tertiary)]">
+                                    {r.decided} of {agreement.eligible} screened
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </section>
+
+            {agreement.reviewers.length >= 2 && !agreement.unblinded && (
+                <div className="flex items-start gap-3 p-4 rounded-xl border border-dashed border-[var(--color-border)] text-[13px] text-[var(--color-text-secondary)]">
+                    <Lock size={16} className="shrink-0 mt-0.5 text-[var(--color-text-tertiary)]" />
+                    <p>
+                        Agreement and conflicts are hidden until both reviewers have screened all {agreement.eligible} records at this stage.
+                    </p>
+                </div>
+            )}
+
+            {agreement.unblinded && (
+                <>
+                    {/* ── Statistics ──────────────────────────────────────────── */}
+                    <section className="grid grid-cols-3 gap-3">
+                        <div className="p-4 rounded-xl border border-[var(--color-border-subtle)] bg-[var(--color-bg-elevated)]">
+                            <p className="text-[11px] text-[var(--color-text-tertiary)]">Percent agreement</p>
+                            <p className="mt-1 text-[22px] font-semibold tabular-nums text-[var(--color-text-primary)]">
+                                {agreement.percent_agreement !== null ? `${agreement.percent_agreement.toFixed(1)}%` : '–'}
+                            </p>
+                            <p className="text-[11px] tabular-nums text-[var(--color-text-tertiary)]">
+                                {agreement.agreements} of {agreement.compared} records
+                            </p>
+                        </div>
+                        <div className="p-4 rounded-xl border border-[var(--color-border-subtle)] bg-[var(--color-bg-elevated)]">
+                            <p className="text-[11px] text-[var(--color-text-tertiary)]">Cohen's kappa</p>
+                            <p className="mt-1 text-[22px] font-semibold tabular-nums text-[var(--color-text-primary)]">
+                                {agreement.kappa !== null ? agreement.kappa.toFixed(2) : '–'}
+                            </p>
+                            <p className="text-[11px] text-[var(--color-text-tertiary)]">
+                                {agreement.kappa !== null ? `${describeKappa(agreement.kappa)} agreement` : 'Undefined: only one category used'}
+                            </p>
+                        </div>
+                        <div className="p-4 rounded-xl border border-[var(--color-border-subtle)] bg-[var(--color-bg-elevated)]">
+                            <p className="text-[11px] text-[var(--color-text-tertiary)]">Conflicts</p>
+                            <p className="mt-1 text-[22px] font-semibold tabular-nums text-[var(--color-text-primary)]">{agreement.conflicts.length}</p>
+                            <p className="text-[11px] tabular-nums text-[var(--color-text-tertiary)]">{unresolved} unresolved</p>
+                        </div>
+                    </section>
+
+                    {/* ── Conflict Queue ──────────────────────────────────────── */}
+                    <section className="space-y-2">
+                        <h3 className="text-[10px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)]">Conflict queue</h3>
+                        {agreement.conflicts.length === 0 && (
+                            <p className="text-[13px] text-[var(--color-text-tertiary)]">The reviewers agreed on every record.</p>
+                        )}
+                        {agreement.conflicts.map(conflict => (
+                            <div
+                                key={conflict.paper_id}
+                                className={cn(
+                                    'p-4 rounded-xl border bg-[var(--color-bg-elevated)]',
+                                    conflict.resolution ? 'border-[var(--color-border-subtle)] opacity-70' : 'border-[var(--color-border)]'
+                                )}
+                            >
+                                <button
+                                    onClick={() => onOpenPaper(conflict.paper_id)}
+                                    className="flex items-start gap-2 text-left text-[13px] font-medium text-[var(--color-text-primary)] hover:text-[var(--color-accent)]"
+                                >
+                                    <FileText size={13} className="shrink-0 mt-0.5" />
+                                    <span>{conflict.title}{conflict.year ? ` (${conflict.year})` : ''}</span>
+                                </button>
+                                <div className="mt-2 space-y-1">
+                                    {conflict.decisions.map(d => (
+                                        <p key={d.reviewer_id} className="flex items-center gap-2 text-[12px] text-[var(--color-text-secondary)]">
+                                            <span className="w-28 truncate text-[var(--color-text-tertiary)]">{d.reviewer_name}</span>
+                                            <span className={cn('px-2 py-0.5 rounded-full text-[11px] font-medium', DECISION_CHIPS[d.decision].className)}>
+                                                {DECISION_CHIPS[d.decision].label}
+                                            </span>
+                                            {d.reason_name && <span>{d.reason_name}</span>}
+                                            {d.note && <span className="italic text-[var(--color-text-tertiary)] truncate">“{d.note}”</span>}
+                                        </p>
+                                    ))}
+                                </div>
+
+                                <div className="mt-3 pt-3 border-t border-[var(--color-border-subtle)] flex flex-wrap items-center gap-2">
+                                    {conflict.resolution ? (
+                                        <>
+                                            <span className="text-[12px] text-[var(--color-text-tertiary)]">Resolved:</span>
+                                            <span className={cn('px-2 py-0.5 rounded-full text-[11px] font-medium', DECISION_CHIPS[conflict.resolution.decision].className)}>
+                                                {DECISION_CHIPS[conflict.resolution.decision].label}
+                                            </span>
+                                            {conflict.resolution.reason_name && (
+                                                <span className="text-[12px] text-[var(--color-text-secondary)]">{conflict.resolution.reason_name}</span>
+                                            )}
+                                            {conflict.resolution.resolved_by_name && (
+                                                <span className="text-[11px] text-[var(--color-text-tertiary)]">by {conflict.resolution.resolved_by_name}</span>
+                                            )}
+                                            <button
+                                                onClick={() => handleReopen(conflict)}
+                                                className="ml-auto flex items-center gap-1 text-[12px] text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+                                            >
+                                                <RotateCcw size={12} />
+                                                Reopen
+                                            </button>
+                                        </>
+                                    ) : excludingId === conflict.paper_id ? (
+                                        <>
+                                            <span className="text-[12px] text-[var(--color-text-tertiary)]">Exclude because</span>
+                                            {reasons.map(reason => (
+                                                <button
+                                                    key={reason.id}
+                                                    onClick={() => handleResolve(conflict, 'exclude', reason.id)}
+                                                    className="px-2.5 py-1 rounded-md border border-[var(--color-border-subtle)] text-[12px] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                                >
+                                                    {reason.name}
+                                                </button>
+                                            ))}
+                                            <button
+                                                onClick={() => setExcludingId(null)}
+                                                className="text-[12px] text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+                                            >
+                                                Cancel
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <span className="text-[12px] text-[var(--color-text-tertiary)]">Resolve as</span>
+                                            <button
+                                                onClick={() => handleResolve(conflict, 'include')}
+                                                className="flex items-center gap-1 px-2.5 py-1 rounded-md border border-[var(--color-border-subtle)] text-[12px] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                            >
+                                                <Check size={12} /> Include
+                                            </button>
+                                            <button
+                                                onClick={() => handleResolve(conflict, 'maybe')}
+                                                className="flex items-center gap-1 px-2.5 py-1 rounded-md border border-[var(--color-border-subtle)] text-[12px] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                            >
+                                                <HelpCircle size={12} /> Maybe
+                                            </button>
+                                            <button
+                                                onClick={() => setExcludingId(conflict.paper_id)}
+                                                className="flex items-center gap-1 px-2.5 py-1 rounded-md border border-[var(--color-border-subtle)] text-[12px] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                            >
+                                                <X size={12} /> Exclude
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </section>
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,573 @@
+// ============================================================================
+// ThreadMed — Screening View
+// ============================================================================
+// Keyboard-driven screening, one record at a time:
+//   I include · M maybe · E exclude (then 1–9 picks the reason)
+//   ← / → previous / next · Backspace clears the decision · O opens the paper
+// Title/abstract screening covers the whole library; full-text screening
+// covers the papers finally included or marked maybe at title/abstract.
+// Decisions belong to the active reviewer and only theirs are shown; the
+// Agreement tab compares the two reviewers once both have finished, and the
+// PRISMA tab draws the flow diagram from the final decisions.
+// ============================================================================
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { Check, X, HelpCircle, ChevronLeft, ChevronRight, ListChecks, Settings2, FileText, RotateCcw, Users, Copy } from 'lucide-react'
+import { ExclusionReasonsDialog } from './ExclusionReasonsDialog'
+import { ReviewersDialog } from './ReviewersDialog'
+import { ScreeningAgreementPanel } from './ScreeningAgreementPanel'
+import { PrismaPanel } from './PrismaPanel'
+import { DuplicatesDialog } from './DuplicatesDialog'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import { triggerDataRefresh, useDataRefresh } from '@/lib/events'
+import type { ExclusionReason, Reviewer, ScreeningDecisionValue, ScreeningRecord, ScreeningStage } from '@/types'
+
+interface ScreeningViewProps {
+    onOpenPaper: (paperId: string) => void
+}
+
+type QueueFilter = 'undecided' | 'all' | ScreeningDecisionValue
+type ScreeningMode = 'screen' | 'agreement' | 'prisma'
+
+const STAGES: Array<{ id: ScreeningStage; label: string }> = [
+    { id: 'title_abstract', label: 'Title / Abstract' },
+    { id: 'full_text', label: 'Full Text' }
+]
+
+const FILTERS: Array<{ id: QueueFilter; label: string }> = [
+    { id: 'undecided', label: 'To screen' },
+    { id: 'all', label: 'All' },
+    { id: 'include', label: 'Included' },
+    { id: 'maybe', label: 'Maybe' },
+    { id: 'exclude', label: 'Excluded' }
+]
+
+const DECISION_STYLES: Record<ScreeningDecisionValue, { label: string; className: string }> = {
+    include: { label: 'Included', className: 'text-[var(--color-success)] bg-[var(--color-success)]/10 border-[var(--color-success)]/30' },
+    maybe: { label: 'Maybe', className: 'text-[var(--color-warning)] bg-[var(--color-warning)]/10 border-[var(--color-warning)]/30' },
+    exclude: { label: 'Excluded', className: 'text-[var(--color-error)] bg-[var(--color-error)]/10 border-[var(--color-error)]/30' }
+}
+
+function matchesFilter(record: ScreeningRecord, filter: QueueFilter): boolean {
+    if (filter === 'all') return true
+    if (filter === 'undecided') return record.decision === null
+    return record.decision === filter
+}
+
+export function ScreeningView({ onOpenPaper }: ScreeningViewProps) {
+    const [stage, setStage] = useState<ScreeningStage>('title_abstract')
+    const [mode, setMode] = useState<ScreeningMode>('screen')
+    const [filter, setFilter] = useState<QueueFilter>('undecided')
+    const [records, setRecords] = useState<ScreeningRecord[]>([])
+    const [reasons, setReasons] = useState<ExclusionReason[]>([])
+    // Paper ids in the current queue. Snapshotted when the stage or filter
+    // changes so a decided record doesn't vanish from under the cursor.
+    const [queue, setQueue] = useState<string[]>([])
+    const [position, setPosition] = useState(0)
+    const [pickingReason, setPickingReason] = useState(false)
+    const [note, setNote] = useState('')
+    const [showReasons, setShowReasons] = useState(false)
+    const [reviewers, setReviewers] = useState<Reviewer[]>([])
+    const [activeReviewer, setActiveReviewer] = useState<Reviewer | null>(null)
+    const [showReviewers, setShowReviewers] = useState(false)
+    // Probable duplicate groups; they should be merged before screening starts
+    const [duplicateGroups, setDuplicateGroups] = useState(0)
+    const [showDuplicates, setShowDuplicates] = useState(false)
+    // Bumped whenever decisions change outside this view's own edits
+    const [refreshKey, setRefreshKey] = useState(0)
+    const [loading, setLoading] = useState(true)
+
+    const loadReasons = useCallback(async () => {
+        try {
+            setReasons(await window.api.screening.reasons())
+        } catch (err) {
+            console.error('[ScreeningView] Failed to load exclusion reasons:', err)
+        }
+    }, [])
+
+    const loadReviewers = useCallback(async () => {
+        try {
+            const [list, active] = await Promise.all([window.api.reviewers.list(), window.api.reviewers.active()])
+            setReviewers(list)
+            setActiveReviewer(active)
+        } catch (err) {
+            console.error('[ScreeningView] Failed to load reviewers:', err)
+        }
+    }, [])
+
+    const loadQueue = useCallback(async (nextStage: ScreeningStage, nextFilter: QueueFilter) => {
+        try {
+            const list = await window.api.screening.queue(nextStage)
+            setRecords(list)
+            setQueue(list.filter(r => matchesFilter(r, nextFilter)).map(r => r.paper_id))
+            setPosition(0)
+            setPickingReason(false)
+        } catch (err) {
+            console.error('[ScreeningView] Failed to load screening queue:', err)
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    const loadDuplicates = useCallback(async () => {
+        try {
+            setDuplicateGroups((await window.api.duplicates.find()).length)
+        } catch (err) {
+            console.error('[ScreeningView] Failed to check for duplicates:', err)
+        }
+    }, [])
+
+    useEffect(() => {
+        loadReasons()
+        loadReviewers()
+        loadDuplicates()
+    }, [loadReasons, loadReviewers, loadDuplicates])
+
+    useEffect(() => {
+        loadQueue(stage, filter)
+    }, [stage, filter, loadQueue])
+
+    // Papers added or removed elsewhere change the queue
+    const refreshQueue = useCallback(() => loadQueue(stage, filter), [loadQueue, stage, filter])
+    useDataRefresh(refreshQueue)
+
+    /** Reload everything after reviewers change or decisions are merged in */
+    const handleDecisionsChanged = () => {
+        loadReviewers()
+        loadReasons()
+        loadQueue(stage, filter)
+        setRefreshKey(k => k + 1)
+    }
+
+    const handleSwitchReviewer = async (id: string) => {
+        try {
+            await window.api.reviewers.setActive(id)
+            handleDecisionsChanged()
+        } catch (err) {
+            console.error('[ScreeningView] Failed to switch reviewer:', err)
+        }
+    }
+
+    const recordsById = useMemo(() => new Map(records.map(r => [r.paper_id, r])), [records])
+    const current = queue[position] ? recordsById.get(queue[position]) ?? null : null
+
+    const counts = useMemo(() => {
+        const c = { include: 0, maybe: 0, exclude: 0, undecided: 0 }
+        records.forEach(r => c[r.decision ?? 'undecided']++)
+        return c
+    }, [records])
+    const decidedCount = records.length - counts.undecided
+
+    useEffect(() => {
+        setNote(current?.note ?? '')
+    }, [current?.paper_id, current?.note])
+
+    const goTo = (index: number) => {
+        setPickingReason(false)
+        setPosition(Math.max(0, Math.min(index, queue.length - 1)))
+    }
+
+    const decide = async (decision: ScreeningDecisionValue, reasonId: string | null = null, advance = true) => {
+        if (!current) return
+        setPickingReason(false)
+        try {
+            const saved = await window.api.screening.decide({
+                paperId: current.paper_id,
+                stage,
+                decision,
+                reasonId,
+                note
+            })
+            setRecords(prev => prev.map(r => r.paper_id === saved.paper_id
+                ? {
+                    ...r,
+                    decision: saved.decision,
+                    reason_id: saved.reason_id,
+                    reason_name: reasons.find(x => x.id === saved.reason_id)?.name ?? null,
+                    note: saved.note
+                }
+                : r
+            ))
+            if (advance && position < queue.length - 1) setPosition(position + 1)
+            // Usage counts on the reason list changed
+            if (decision === 'exclude' || current.reason_id) loadReasons()
+        } catch (err) {
+            console.error('[ScreeningView] Failed to save decision:', err)
+            alert(`Failed to save decision: ${remoteErrorMessage(err)}`)
+        }
+    }
+
+    const clearDecision = async () => {
+        if (!current || !current.decision) return
+        try {
+            await window.api.screening.clear(current.paper_id, stage)
+            setRecords(prev => prev.map(r => r.paper_id === current.paper_id
+                ? { ...r, decision: null, reason_id: null, reason_name: null, note: null }
+                : r
+            ))
+            if (current.reason_id) loadReasons()
+        } catch (err) {
+            console.error('[ScreeningView] Failed to clear decision:', err)
+        }
+    }
+
+    const saveNote = () => {
+        if (!current?.decision || (note.trim() || null) === current.note) return
+        decide(current.decision, current.reason_id, false)
+    }
+
+    // ── Keyboard Shortcuts ───────────────────────────────────────────────────
+    // The handler is rebuilt every render; the listener calls the latest one
+    const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => { })
+    keyHandlerRef.current = (e: KeyboardEvent) => {
+        if (mode !== 'screen' || showReasons || showReviewers || showDuplicates || e.ctrlKey || e.metaKey || e.altKey) return
+        const target = e.target as HTMLElement
+        if (target.closest('input, textarea, select, [contenteditable="true"]')) return
+
+        if (pickingReason) {
+            if (e.key === 'Escape') {
+                setPickingReason(false)
+            } else if (/^[1-9]$/.test(e.key)) {
+                const reason = reasons[Number(e.key) - 1]
+                if (reason) decide('exclude', reason.id)
+            } else {
+                return
+            }
+            e.preventDefault()
+            return
+        }
+
+        switch (e.key.toLowerCase()) {
+            case 'i': decide('include'); break
+            case 'm': decide('maybe'); break
+            case 'e': if (current) setPickingReason(true); break
+            case 'backspace': clearDecision(); break
+            case 'o': if (current) onOpenPaper(current.paper_id); break
+            case 'arrowleft':
+            case 'k': goTo(position - 1); break
+            case 'arrowright':
+            case 'j': goTo(position + 1); break
+            default: return
+        }
+        e.preventDefault()
+    }
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e)
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [])
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <div className="animate-pulse text-[var(--color-text-tertiary)] text-sm">Loading screening queue...</div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="h-full flex flex-col animate-fade-in">
+            {/* ── Toolbar ───────────────────────────────────────────────────── */}
+            <div className="flex items-center gap-4 px-6 py-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                {mode !== 'prisma' && (
+                    <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5 shrink-0">
+                        {STAGES.map(s => (
+                            <button
+                                key={s.id}
+                                onClick={() => setStage(s.id)}
+                                className={cn(
+                                    'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                    stage === s.id
+                                        ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                        : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                                )}
+                            >
+                                {s.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5 shrink-0">
+                    {([['screen', 'Screen'], ['agreement', 'Agreement'], ['prisma', 'PRISMA']] as Array<[ScreeningMode, string]>).map(([id, label]) => (
+                        <button
+                            key={id}
+                            onClick={() => setMode(id)}
+                            className={cn(
+                                'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                mode === id
+                                    ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                    : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                            )}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {mode === 'screen' && (
+                    <div className="flex items-center gap-1.5">
+                        {FILTERS.map(f => (
+                            <button
+                                key={f.id}
+                                onClick={() => setFilter(f.id)}
+                                className={cn(
+                                    'px-3 py-1 rounded-full text-[12px] font-medium border transition-colors',
+                                    filter === f.id
+                                        ? 'border-[var(--color-accent)] bg-[var(--color-accent-subtle)] text-[var(--color-accent)]'
+                                        : 'border-[var(--color-border-subtle)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)]'
+                                )}
+                            >
+                                {f.label}
+                                <span className="ml-1.5 tabular-nums opacity-70">
+                                    {f.id === 'all' ? records.length : counts[f.id]}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <div className="ml-auto flex items-center gap-3 shrink-0">
+                    {mode === 'screen' && (
+                        <>
+                            <div className="w-32 h-1.5 rounded-full bg-[var(--color-bg-active)] overflow-hidden" title={`${decidedCount} of ${records.length} screened`}>
+                                <div
+                                    className="h-full bg-[var(--color-accent)] transition-all"
+                                    style={{ width: `${records.length ? (decidedCount / records.length) * 100 : 0}%` }}
+                                />
+                            </div>
+                            <span className="text-[12px] tabular-nums text-[var(--color-text-tertiary)]">
+                                {decidedCount} / {records.length}
+                            </span>
+                        </>
+                    )}
+                    <div className="flex items-center gap-1.5" title="Decisions are recorded for this reviewer">
+                        <Users size={13} className="text-[var(--color-text-tertiary)]" />
+                        <select
+                            value={activeReviewer?.id ?? ''}
+                            onChange={(e) => {
+                                if (e.target.value === '__manage__') setShowReviewers(true)
+                                else handleSwitchReviewer(e.target.value)
+                            }}
+                            className="bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-lg px-2 py-1 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)] max-w-[160px]"
+                        >
+                            {reviewers.map(r => (
+                                <option key={r.id} value={r.id}>{r.name}</option>
+                            ))}
+                            <option value="__manage__">Manage reviewers…</option>
+                        </select>
+                    </div>
+                    <button
+                        onClick={() => setShowReasons(true)}
+                        className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-[12px] font-medium border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                        title="Edit exclusion reasons"
+                    >
+                        <Settings2 size={13} />
+                        Reasons
+                    </button>
+                </div>
+            </div>
+
+            {mode === 'screen' && stage === 'title_abstract' && duplicateGroups > 0 && (
+                <div className="flex items-center gap-2 px-6 py-2 bg-[var(--color-warning)]/10 border-b border-[var(--color-border-subtle)] text-[12px] text-[var(--color-text-secondary)] shrink-0">
+                    <Copy size={13} className="text-[var(--color-warning)] shrink-0" />
+                    {duplicateGroups} group{duplicateGroups !== 1 ? 's' : ''} of probable duplicates. Merge them before screening so each study is screened once.
+                    <button
+                        onClick={() => setShowDuplicates(true)}
+                        className="ml-auto font-medium text-[var(--color-accent)] hover:underline shrink-0"
+                    >
+                        Review duplicates
+                    </button>
+                </div>
+            )}
+
+            {/* ── Record ────────────────────────────────────────────────────── */}
+            <div className="flex-1 min-h-0 overflow-y-auto">
+                {mode === 'prisma' ? (
+                    <PrismaPanel refreshKey={refreshKey} />
+                ) : mode === 'agreement' ? (
+                    <ScreeningAgreementPanel
+                        stage={stage}
+                        reasons={reasons}
+                        refreshKey={refreshKey}
+                        onManageReviewers={() => setShowReviewers(true)}
+                        onOpenPaper={onOpenPaper}
+                        onMerged={handleDecisionsChanged}
+                    />
+                ) : !current ? (
+                    <div className="h-full flex items-center justify-center text-[var(--color-text-tertiary)]">
+                        <div className="text-center space-y-2 max-w-sm">
+                            <ListChecks size={36} className="mx-auto opacity-30 mb-3" />
+                            <p className="text-lg font-medium text-[var(--color-text-secondary)]">
+                                {records.length === 0
+                                    ? stage === 'full_text' ? 'Nothing to screen on full text yet' : 'No papers to screen'
+                                    : filter === 'undecided' ? 'All records screened' : 'No records in this category'}
+                            </p>
+                            <p className="text-sm">
+                                {records.length === 0 && stage === 'full_text'
+                                    ? 'Papers included or marked maybe at title/abstract appear here.'
+                                    : 'Switch the filter to review earlier decisions.'}
+                            </p>
+                        </div>
+                    </div>
+                ) : (
+                    <article className="max-w-3xl mx-auto px-8 py-8">
+                        <div className="flex items-center gap-2 mb-3 text-[12px] text-[var(--color-text-tertiary)]">
+                            <span className="tabular-nums">Record {position + 1} of {queue.length}</span>
+                            {current.decision && (
+                                <span className={cn('px-2 py-0.5 rounded-full border text-[11px] font-medium', DECISION_STYLES[current.decision].className)}>
+                                    {DECISION_STYLES[current.decision].label}
+                                    {current.reason_id ? ` · ${reasons.find(r => r.id === current.reason_id)?.name ?? current.reason_name}` : ''}
+                                </span>
+                            )}
+                        </div>
+                        <h1 className="text-[20px] font-semibold leading-snug text-[var(--color-text-primary)]">{current.title}</h1>
+                        <p className="mt-2 text-[13px] text-[var(--color-text-secondary)]">
+                            {current.authors.length > 0 ? current.authors.join('; ') : 'Unknown author'}
+                        </p>
+                        <p className="mt-1 text-[12px] text-[var(--color-text-tertiary)]">
+                            {[current.year, current.journal, current.doi].filter(Boolean).join(' · ')}
+                        </p>
+                        <div className="mt-6 text-[14px] leading-relaxed text-[var(--color-text-primary)] whitespace-pre-wrap">
+                            {current.abstract || <span className="italic text-[var(--color-text-tertiary)]">No abstract available</span>}
+                        </div>
+                        <button
+                            onClick={() => onOpenPaper(current.paper_id)}
+                            className="mt-6 flex items-center gap-2 text-[12px] font-medium text-[var(--color-accent)] hover:underline"
+                        >
+                            <FileText size={13} />
+                            Open paper (O)
+                        </button>
+                    </article>
+                )}
+            </div>
+
+            {/* ── Decision Bar ──────────────────────────────────────────────── */}
+            {mode === 'screen' && current && (
+                <div className="border-t border-[var(--color-border-subtle)] bg-[var(--color-bg-elevated)] shrink-0">
+                    {pickingReason && (
+                        <div className="px-6 pt-3 flex flex-wrap items-center gap-1.5">
+                            <span className="text-[10px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)] mr-1">Exclusion reason</span>
+                            {reasons.map((reason, i) => (
+                                <button
+                                    key={reason.id}
+                                    onClick={() => decide('exclude', reason.id)}
+                                    className={cn(
+                                        'flex items-center gap-1.5 px-2.5 py-1 rounded-md border text-[12px] transition-colors',
+                                        current.reason_id === reason.id
+                                            ? 'border-[var(--color-error)]/40 bg-[var(--color-error)]/10 text-[var(--color-error)]'
+                                            : 'border-[var(--color-border-subtle)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)]'
+                                    )}
+                                >
+                                    {i < 9 && <kbd className="text-[10px] tabular-nums text-[var(--color-text-tertiary)]">{i + 1}</kbd>}
+                                    {reason.name}
+                                </button>
+                            ))}
+                            {reasons.length === 0 && (
+                                <button onClick={() => setShowReasons(true)} className="text-[12px] text-[var(--color-accent)] hover:underline">
+                                    Add an exclusion reason first
+                                </button>
+                            )}
+                            <span className="text-[11px] text-[var(--color-text-tertiary)] ml-1">Esc to cancel</span>
+                        </div>
+                    )}
+                    <div className="flex items-center gap-2 px-6 py-3">
+                        <button
+                            onClick={() => goTo(position - 1)}
+                            disabled={position === 0}
+                            className="p-2 rounded-lg text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] disabled:opacity-30 transition-colors"
+                            title="Previous (←)"
+                        >
+                            <ChevronLeft size={16} />
+                        </button>
+                        <button
+                            onClick={() => goTo(position + 1)}
+                            disabled={position >= queue.length - 1}
+                            className="p-2 rounded-lg text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)] disabled:opacity-30 transition-colors"
+                            title="Next (→)"
+                        >
+                            <ChevronRight size={16} />
+                        </button>
+                        <input
+                            type="text"
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            onBlur={saveNote}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' || e.key === 'Escape') (e.target as HTMLInputElement).blur()
+                            }}
+                            placeholder="Note (optional)"
+                            className="flex-1 min-w-0 mx-2 bg-[var(--color-bg-surface)] border border-[var(--color-border)] rounded-lg px-3 py-1.5 text-[13px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)]"
+                        />
+                        {current.decision && (
+                            <button
+                                onClick={clearDecision}
+                                className="p-2 rounded-lg text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                title="Clear decision (Backspace)"
+                            >
+                                <RotateCcw size={15} />
+                            </button>
+                        )}
+                        <button
+                            onClick={() => decide('include')}
+                            className={cn(
+                                'flex items-center gap-1.5 px-4 py-2 rounded-lg border text-[13px] font-semibold transition-colors',
+                                current.decision === 'include'
+                                    ? DECISION_STYLES.include.className
+                                    : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)]'
+                            )}
+                        >
+                            <Check size={14} />
+                            Include <kbd className="text-[10px] opacity-60">I</kbd>
+                        </button>
+                        <button
+                            onClick={() => decide('maybe')}
+                            className={cn(
+                                'flex items-center gap-1.5 px-4 py-2 rounded-lg border text-[13px] font-semibold transition-colors',
+                                current.decision === 'maybe'
+                                    ? DECISION_STYLES.maybe.className
+                                    : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)]'
+                            )}
+                        >
+                            <HelpCircle size={14} />
+                            Maybe <kbd className="text-[10px] opacity-60">M</kbd>
+                        </button>
+                        <button
+                            onClick={() => setPickingReason(p => !p)}
+                            className={cn(
+                                'flex items-center gap-1.5 px-4 py-2 rounded-lg border text-[13px] font-semibold transition-colors',
+                                current.decision === 'exclude' || pickingReason
+                                    ? DECISION_STYLES.exclude.className
+                                    : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-hover)]'
+                            )}
+                        >
+                            <X size={14} />
+                            Exclude <kbd className="text-[10px] opacity-60">E</kbd>
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <ExclusionReasonsDialog
+                isOpen={showReasons}
+                onClose={() => setShowReasons(false)}
+                onChanged={loadReasons}
+            />
+            <ReviewersDialog
+                isOpen={showReviewers}
+                activeReviewerId={activeReviewer?.id ?? null}
+                onClose={() => setShowReviewers(false)}
+                onChanged={handleDecisionsChanged}
+            />
+            <DuplicatesDialog
+                isOpen={showDuplicates}
+                onClose={() => {
+                    setShowDuplicates(false)
+                    loadDuplicates()
+                }}
+                onMerged={triggerDataRefresh}
+            />
+        </div>
+    )
+}
@@ -0,0 +1,426 @@
+// ============================================================================
+// ThreadMed — Global Search View
+// ============================================================================
+// Two modes:
+//   - Papers:     titles, abstracts and extracted PDF text (`papers_fts`),
+//                 with column scopes and library filters
+//   - Everything: papers plus coded annotations, tag names and memos,
+//                 grouped by kind
+// Queries are sanitized in the main process; syntax errors are reported
+// inline instead of failing the request. Paper hits open at the page of the
+// first full-text match, annotation hits scroll to the highlight.
+// ============================================================================
+
+import { useState, useEffect, useRef, useMemo, Fragment } from 'react'
+import { Search, FileText, X, HelpCircle, Filter, Highlighter, Tag as TagIcon, StickyNote } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { Folder, PaperSearchHit, SearchEntityKind, SearchFilters, SearchScope, UnifiedSearchHit } from '@/types'
+
+interface SearchViewProps {
+    onOpenResult: (paperId: string, page: number | null) => void
+    onOpenAnnotation: (paperId: string, annotationId: string) => void
+    onOpenTag: (nodeId: string) => void
+    onOpenMemo: (memoId: string) => void
+}
+
+type SearchMode = 'papers' | 'everything'
+
+const KIND_SECTIONS: Array<{ kind: SearchEntityKind; label: string; icon: typeof FileText }> = [
+    { kind: 'paper', label: 'Papers', icon: FileText },
+    { kind: 'annotation', label: 'Annotations', icon: Highlighter },
+    { kind: 'tag', label: 'Tags', icon: TagIcon },
+    { kind: 'memo', label: 'Memos', icon: StickyNote }
+]
+
+const SCOPES: Array<{ id: SearchScope; label: string }> = [
+    { id: 'all', label: 'All fields' },
+    { id: 'title', label: 'Title' },
+    { id: 'abstract', label: 'Abstract' },
+    { id: 'full_text', label: 'Full text' }
+]
+
+const MATCH_LABELS: Record<PaperSearchHit['matched_in'][number], string> = {
+    title: 'Title',
+    abstract: 'Abstract',
+    full_text: 'Full text'
+}
+
+/** Render a snippet whose matches are wrapped in \u0002 … \u0003 */
+function Snippet({ text }: { text: string }) {
+    const parts = text.split(/(\u0002[^\u0003]*\u0003)/)
+    return (
+        <>
+            {parts.map((part, i) =>
+                part.startsWith('\u0002')
+                    ? <mark key={i} className="bg-[var(--color-accent)]/20 text-[var(--color-text-primary)] rounded px-0.5">{part.slice(1, -1)}</mark>
+                    : <Fragment key={i}>{part}</Fragment>
+            )}
+        </>
+    )
+}
+
+export function SearchView({ onOpenResult, onOpenAnnotation, onOpenTag, onOpenMemo }: SearchViewProps) {
+    const [mode, setMode] = useState<SearchMode>('papers')
+    const [query, setQuery] = useState('')
+    const [scope, setScope] = useState<SearchScope>('all')
+    const [filters, setFilters] = useState<SearchFilters>({})
+    const [results, setResults] = useState<PaperSearchHit[]>([])
+    const [hits, setHits] = useState<UnifiedSearchHit[]>([])
+    const [error, setError] = useState<string | null>(null)
+    const [searching, setSearching] = useState(false)
+    const [showSyntax, setShowSyntax] = useState(false)
+    const [journals, setJournals] = useState<string[]>([])
+    const [folders, setFolders] = useState<Folder[]>([])
+    const inputRef = useRef<HTMLInputElement>(null)
+    const requestRef = useRef(0)
+
+    useEffect(() => {
+        inputRef.current?.focus()
+        loadFilterOptions()
+    }, [])
+
+    async function loadFilterOptions() {
+        try {
+            const [papers, folderList] = await Promise.all([
+                window.api.papers.list(),
+                window.api.folders.list()
+            ])
+            const names = new Set(papers.map(p => p.journal?.trim()).filter((j): j is string => !!j))
+            setJournals([...names].sort((a, b) => a.localeCompare(b)))
+            setFolders(folderList)
+        } catch (err) {
+            console.error('[SearchView] Failed to load filter options:', err)
+        }
+    }
+
+    // Debounced search whenever the query, mode, scope or filters change
+    useEffect(() => {
+        if (!query.trim()) {
+            setResults([])
+            setHits([])
+            setError(null)
+            return
+        }
+
+        const requestId = ++requestRef.current
+        const timer = setTimeout(async () => {
+            setSearching(true)
+            try {
+                if (mode === 'papers') {
+                    const response = await window.api.search.library(query, scope, filters)
+                    // Ignore responses that arrive after a newer request was issued
+                    if (requestId !== requestRef.current) return
+                    setResults(response.results)
+                    setError(response.error)
+                } else {
+                    const response = await window.api.search.everything(query)
+                    if (requestId !== requestRef.current) return
+                    setHits(response.results)
+                    setError(response.error)
+                }
+            } catch (err) {
+                console.error('[SearchView] Search failed:', err)
+                if (requestId === requestRef.current) setError('Search failed')
+            } finally {
+                if (requestId === requestRef.current) setSearching(false)
+            }
+        }, 200)
+
+        return () => clearTimeout(timer)
+    }, [query, mode, scope, filters])
+
+    const openHit = (hit: UnifiedSearchHit) => {
+        switch (hit.kind) {
+            case 'paper': return onOpenResult(hit.id, hit.page)
+            case 'annotation': return onOpenAnnotation(hit.paper_id!, hit.id)
+            case 'tag': return onOpenTag(hit.node_id!)
+            case 'memo': return onOpenMemo(hit.id)
+        }
+    }
+
+    const resultCount = mode === 'papers' ? results.length : hits.length
+
+    const activeFilterCount = useMemo(
+        () => [filters.yearFrom, filters.yearTo, filters.journal, filters.folderId, filters.hasPdf].filter(v => v !== undefined && v !== null).length,
+        [filters]
+    )
+
+    const updateFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+        setFilters(f => ({ ...f, [key]: value }))
+    }
+
+    const parseYear = (value: string): number | null => {
+        const year = parseInt(value, 10)
+        return Number.isFinite(year) ? year : null
+    }
+
+    const inputClass = 'bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg px-2.5 py-1.5 text-[12px] text-[var(--color-text-primary)] outline-none focus:border-[var(--color-accent)] transition-colors'
+
+    return (
+        <div className="h-full flex flex-col animate-fade-in">
+            {/* Query bar */}
+            <div className="px-8 pt-6 pb-4 space-y-3 border-b border-[var(--color-border-subtle)] shrink-0">
+                <div className="flex items-center gap-3">
+                    <div className="relative flex-1">
+                        <Search size={16} className="absolute left-3.5 top-1/2 -translate-y-1/2 text-[var(--color-text-tertiary)]" />
+                        <input
+                            ref={inputRef}
+                            type="text"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder='Search papers — e.g. "heart failure" AND cirrho* NOT pediatric'
+                            className="w-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-xl pl-10 pr-9 py-2.5 text-[14px] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] outline-none focus:border-[var(--color-accent)] transition-colors"
+                        />
+                        {query && (
+                            <button
+                                onClick={() => { setQuery(''); inputRef.current?.focus() }}
+                                className="absolute right-3 top-1/2 -translate-y-1/2 p-0.5 rounded text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+                                title="Clear"
+                            >
+                                <X size={14} />
+                            </button>
+                        )}
+                    </div>
+                    <button
+                        onClick={() => setShowSyntax(s => !s)}
+                        className={cn(
+                            'p-2 rounded-lg transition-colors',
+                            showSyntax ? 'text-[var(--color-accent)] bg-[var(--color-accent-subtle)]' : 'text-[var(--color-text-tertiary)] hover:bg-[var(--color-bg-hover)]'
+                        )}
+                        title="Search syntax"
+                    >
+                        <HelpCircle size={16} />
+                    </button>
+                </div>
+
+                {showSyntax && (
+                    <div className="grid grid-cols-2 gap-x-6 gap-y-1 px-4 py-3 rounded-lg bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)] text-[12px] text-[var(--color-text-secondary)]">
+                        <span><code className="text-[var(--color-accent)]">heart failure</code> — both words</span>
+                        <span><code className="text-[var(--color-accent)]">"heart failure"</code> — exact phrase</span>
+                        <span><code className="text-[var(--color-accent)]">cardio*</code> — prefix match</span>
+                        <span><code className="text-[var(--color-accent)]">a OR b</code>, <code className="text-[var(--color-accent)]">a NOT b</code>, <code className="text-[var(--color-accent)]">-b</code></span>
+                        <span><code className="text-[var(--color-accent)]">( … )</code> — grouping</span>
+                        <span><code className="text-[var(--color-accent)]">title:</code> <code className="text-[var(--color-accent)]">abstract:</code> <code className="text-[var(--color-accent)]">text:</code> — one field</span>
+                    </div>
+                )}
+
+                {/* Mode, scope + filters */}
+                <div className="flex items-center gap-3 flex-wrap">
+                    <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5">
+                        {(['papers', 'everything'] as SearchMode[]).map(m => (
+                            <button
+                                key={m}
+                                onClick={() => setMode(m)}
+                                className={cn(
+                                    'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                    mode === m
+                                        ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                        : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                                )}
+                            >
+                                {m === 'papers' ? 'Papers' : 'Everything'}
+                            </button>
+                        ))}
+                    </div>
+
+                    {mode === 'papers' && (
+                        <>
+                            <div className="flex items-center gap-0.5 bg-[var(--color-bg-active)] rounded-lg p-0.5">
+                                {SCOPES.map(s => (
+                                    <button
+                                        key={s.id}
+                                        onClick={() => setScope(s.id)}
+                                        className={cn(
+                                            'px-3 py-1.5 rounded-md text-[12px] font-medium transition-colors',
+                                            scope === s.id
+                                                ? 'bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-sm'
+                                                : 'text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]'
+                                        )}
+                                    >
+                                        {s.label}
+                                    </button>
+                                ))}
+                            </div>
+
+                            <Filter size={13} className="text-[var(--color-text-tertiary)] ml-2" />
+                            <input
+                                type="number"
+                                placeholder="From"
+                                value={filters.yearFrom ?? ''}
+                                onChange={(e) => updateFilter('yearFrom', parseYear(e.target.value))}
+                                className={cn(inputClass, 'w-20')}
+                            />
+                            <span className="text-[12px] text-[var(--color-text-tertiary)]">–</span>
+                            <input
+                                type="number"
+                                placeholder="To"
+                                value={filters.yearTo ?? ''}
+                                onChange={(e) => updateFilter('yearTo', parseYear(e.target.value))}
+                                className={cn(inputClass, 'w-20')}
+                            />
+                            <select
+                                value={filters.journal ?? ''}
+                                onChange={(e) => updateFilter('journal', e.target.value || null)}
+                                className={cn(inputClass, 'max-w-[200px]')}
+                            >
+                                <option value="">Any journal</option>
+                                {journals.map(j => <option key={j} value={j}>{j}</option>)}
+                            </select>
+                            <select
+                                value={filters.folderId ?? ''}
+                                onChange={(e) => updateFilter('folderId', e.target.value || null)}
+                                className={cn(inputClass, 'max-w-[180px]')}
+                            >
+                                <option value="">Any folder</option>
+                                {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                            </select>
+                            <select
+                                value={filters.hasPdf === true ? 'yes' : filters.hasPdf === false ? 'no' : ''}
+                                onChange={(e) => updateFilter('hasPdf', e.target.value === 'yes' ? true : e.target.value === 'no' ? false : null)}
+                                className={inputClass}
+                            >
+                                <option value="">PDF: any</option>
+                                <option value="yes">Has PDF</option>
+                                <option value="no">No PDF</option>
+                            </select>
+                            {activeFilterCount > 0 && (
+                                <button
+                                    onClick={() => setFilters({})}
+                                    className="text-[12px] text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] underline-offset-2 hover:underline"
+                                >
+                                    Clear filters
+                                </button>
+                            )}
+                        </>
+                    )}
+
+                    {mode === 'everything' && (
+                        <span className="text-[12px] text-[var(--color-text-tertiary)]">
+                            Papers, coded annotations, tag names and memos
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            {/* Results */}
+            <div className="flex-1 overflow-y-auto px-8 py-4">
+                {error && (
+                    <div className="mb-4 px-4 py-2.5 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-[13px]">
+                        Could not run this search: {error}
+                    </div>
+                )}
+
+                {!query.trim() ? (
+                    <div className="flex flex-col items-center justify-center h-full text-[var(--color-text-tertiary)] text-center space-y-2">
+                        <Search size={36} className="opacity-30 mb-3" />
+                        <p className="text-lg font-medium text-[var(--color-text-secondary)]">Search your library</p>
+                        <p className="text-sm max-w-sm">Titles, abstracts and the extracted text of every PDF are indexed.</p>
+                    </div>
+                ) : !searching && resultCount === 0 && !error ? (
+                    <p className="text-[13px] text-[var(--color-text-tertiary)] text-center mt-12">
+                        {mode === 'papers' ? 'No papers match this search.' : 'Nothing matches this search.'}
+                    </p>
+                ) : mode === 'papers' ? (
+                    <>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mb-3 tabular-nums">
+                            {searching ? 'Searching…' : `${results.length} result${results.length !== 1 ? 's' : ''}`}
+                        </p>
+                        <div className="space-y-2">
+                            {results.map(hit => (
+                                <button
+                                    key={hit.id}
+                                    onClick={() => onOpenResult(hit.id, hit.page)}
+                                    className="w-full text-left p-4 rounded-xl bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)] hover:border-[var(--color-border)] hover:bg-[var(--color-bg-hover)] transition-colors group"
+                                >
+                                    <div className="flex items-start gap-3">
+                                        <FileText size={15} className={cn('shrink-0 mt-0.5', hit.pdf_filename ? 'text-[var(--color-accent)]' : 'opacity-30')} />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-[14px] font-semibold text-[var(--color-text-primary)] leading-snug">{hit.title}</p>
+                                            <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5 truncate">
+                                                {hit.authors.length > 0 ? hit.authors[0] : 'Unknown Author'}
+                                                {hit.authors.length > 1 ? ' et al.' : ''}
+                                                {hit.year ? ` · ${hit.year}` : ''}
+                                                {hit.journal ? ` · ${hit.journal}` : ''}
+                                            </p>
+                                            <p className="text-[13px] text-[var(--color-text-secondary)] leading-relaxed mt-2 line-clamp-3">
+                                                <Snippet text={hit.snippet} />
+                                            </p>
+                                            <div className="flex items-center gap-1.5 mt-2">
+                                                {hit.matched_in.map(col => (
+                                                    <span key={col} className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-[var(--color-bg-active)] text-[var(--color-text-tertiary)]">
+                                                        {MATCH_LABELS[col]}
+                                                    </span>
+                                                ))}
+                                                {hit.page && (
+                                                    <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-[var(--color-accent-subtle)] text-[var(--color-accent)] tabular-nums">
+                                                        p. {hit.page}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </>
+                ) : (
+                    <div className="space-y-6">
+                        {searching && <p className="text-[12px] text-[var(--color-text-tertiary)]">Searching…</p>}
+                        {KIND_SECTIONS.map(({ kind, label, icon: Icon }) => {
+                            const section = hits.filter(h => h.kind === kind)
+                            if (section.length === 0) return null
+                            return (
+                                <section key={kind}>
+                                    <p className="text-[11px] uppercase tracking-wider font-semibold text-[var(--color-text-tertiary)] mb-2 flex items-center gap-2">
+                                        <Icon size={12} />
+                                        {label}
+                                        <span className="tabular-nums opacity-70">{section.length}</span>
+                                    </p>
+                                    <div className="space-y-1.5">
+                                        {section.map(hit => (
+                                            <button
+                                                key={hit.id}
+                                                onClick={() => openHit(hit)}
+                                                className="w-full text-left px-4 py-3 rounded-xl bg-[var(--color-bg-elevated)] border border-[var(--color-border-subtle)] hover:border-[var(--color-border)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                                style={hit.node_color ? { borderLeft: `3px solid ${hit.node_color}` } : undefined}
+                                            >
+                                                {kind === 'annotation' ? (
+                                                    <>
+                                                        <p className="text-[13px] text-[var(--color-text-secondary)] leading-relaxed line-clamp-3">
+                                                            "<Snippet text={hit.snippet} />"
+                                                        </p>
+                                                        <p className="text-[11px] text-[var(--color-text-tertiary)] mt-1.5 truncate">
+                                                            <span style={{ color: hit.node_color ?? undefined }} className="font-medium">{hit.node_name}</span>
+                                                            {hit.tag_name ? ` › ${hit.tag_name}` : ''}
+                                                            {` · ${hit.paper_title} · p. ${hit.page}`}
+                                                        </p>
+                                                    </>
+                                                ) : kind === 'tag' ? (
+                                                    <p className="text-[13px] text-[var(--color-text-primary)]">
+                                                        <span style={{ color: hit.node_color ?? undefined }} className="font-medium">{hit.node_name}</span>
+                                                        {' › '}
+                                                        <Snippet text={hit.snippet} />
+                                                        <span className="text-[11px] text-[var(--color-text-tertiary)] ml-2 tabular-nums">
+                                                            {hit.annotation_count} annotation{hit.annotation_count !== 1 ? 's' : ''}
+                                                        </span>
+                                                    </p>
+                                                ) : (
+                                                    <>
+                                                        <p className="text-[13px] font-semibold text-[var(--color-text-primary)] leading-snug">{hit.title}</p>
+                                                        <p className="text-[12px] text-[var(--color-text-secondary)] leading-relaxed mt-1 line-clamp-2">
+                                                            <Snippet text={hit.snippet} />
+                                                        </p>
+                                                    </>
+                                                )}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </section>
+                            )
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -6,11 +6,14 @@
 // ============================================================================
 
 import { useState, useEffect, useCallback } from 'react'
-import { Sun, Moon, Database, FolderOpen, Info, RefreshCw, CheckCircle2, XCircle, Loader2, Link as LinkIcon, DownloadCloud, Activity, AlertCircle } from 'lucide-react'
+import { Sun, Moon, Database, FolderOpen, Info, RefreshCw, CheckCircle2, XCircle, Loader2, Link as LinkIcon, DownloadCloud, Activity, AlertCircle, Tags, Trash2, Library, Users, GitMerge, Highlighter } from 'lucide-react'
 import { useTheme } from '@/context/ThemeContext'
 import { triggerDataRefresh } from '@/lib/events'
-import { cn } from '@/lib/utils'
-import type { ZoteroStatus, SyncProgress, SyncResult, ConnectResult } from '@/types'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import { ZoteroRemovalsDialog } from './ZoteroRemovalsDialog'
+import { ZoteroConflictsDialog } from './ZoteroConflictsDialog'
+import { ZoteroAnnotationRulesDialog } from './ZoteroAnnotationRulesDialog'
+import type { ZoteroStatus, ZoteroLibrary, SyncProgress, SyncResult, ConnectResult, CodebookTemplate, WriteBackOptions } from '@/types'
 
 interface SettingsSectionProps {
     title: string
@@ -46,10 +49,23 @@ export function SettingsView() {
     const [syncing, setSyncing] = useState(false)
     const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null)
     const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null)
+    const [availableLibraries, setAvailableLibraries] = useState<ZoteroLibrary[] | null>(null)
+    const [librariesError, setLibrariesError] = useState('')
+    const [showRemovals, setShowRemovals] = useState(false)
+    const [showConflicts, setShowConflicts] = useState(false)
+    const [showAnnotationRules, setShowAnnotationRules] = useState(false)
+
+    // Codebook templates
+    const [savedTemplates, setSavedTemplates] = useState<CodebookTemplate[]>([])
+    const [templateName, setTemplateName] = useState('')
+    const [templateDescription, setTemplateDescription] = useState('')
+    const [templateError, setTemplateError] = useState('')
+    const [templateSaved, setTemplateSaved] = useState('')
 
     useEffect(() => {
         loadDbPath()
         loadZoteroStatus()
+        loadTemplates()
 
         // Listen for sync progress events
         if (window.api) {
@@ -85,6 +101,91 @@ export function SettingsView() {
         }
     }
 
+    // Group libraries are only listed once connected
+    useEffect(() => {
+        if (zoteroStatus?.connected) {
+            loadLibraries()
+        } else {
+            setAvailableLibraries(null)
+        }
+    }, [zoteroStatus?.connected])
+
+    async function loadLibraries() {
+        setLibrariesError('')
+        try {
+            const libraries = await window.api.zotero.libraries()
+            setAvailableLibraries(libraries)
+        } catch (err) {
+            console.error('[Settings] Failed to load Zotero libraries:', err)
+            setLibrariesError(remoteErrorMessage(err))
+        }
+    }
+
+    async function handleToggleLibrary(library: ZoteroLibrary) {
+        if (!zoteroStatus || !availableLibraries) return
+        const selectedIds = new Set(zoteroStatus.libraries.map(l => l.id))
+        if (selectedIds.has(library.id)) {
+            selectedIds.delete(library.id)
+        } else {
+            selectedIds.add(library.id)
+        }
+        if (selectedIds.size === 0) return
+
+        try {
+            await window.api.zotero.setLibraries(availableLibraries.filter(l => selectedIds.has(l.id)))
+            await loadZoteroStatus()
+        } catch (err) {
+            console.error('[Settings] Failed to save Zotero libraries:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    async function handleToggleWriteBack(option: keyof WriteBackOptions) {
+        if (!zoteroStatus) return
+        try {
+            await window.api.zotero.setWriteBack({ [option]: !zoteroStatus.writeBack[option] })
+            await loadZoteroStatus()
+        } catch (err) {
+            console.error('[Settings] Failed to save write-back options:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    async function loadTemplates() {
+        try {
+            if (!window.api) return
+            const templates = await window.api.codebook.templates()
+            setSavedTemplates(templates.filter(t => !t.builtIn))
+        } catch (err) {
+            console.error('[Settings] Failed to load codebook templates:', err)
+        }
+    }
+
+    async function handleSaveTemplate() {
+        setTemplateError('')
+        setTemplateSaved('')
+        try {
+            const template = await window.api.codebook.saveTemplate(templateName, templateDescription)
+            setTemplateName('')
+            setTemplateDescription('')
+            setTemplateSaved(`Saved "${template.name}". Pick it when creating your next project.`)
+            await loadTemplates()
+        } catch (err) {
+            setTemplateError(remoteErrorMessage(err))
+        }
+    }
+
+    async function handleDeleteTemplate(template: CodebookTemplate) {
+        if (!confirm(`Delete the codebook template "${template.name}"? Projects created from it are not affected.`)) return
+        try {
+            await window.api.codebook.deleteTemplate(template.id)
+            await loadTemplates()
+        } catch (err) {
+            console.error('[Settings] Failed to delete codebook template:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
     async function handleConnect() {
         if (!apiKey.trim() || !userId.trim()) {
             setConnectError('Both API key and User ID are required')
@@ -132,6 +233,9 @@ export function SettingsView() {
             setLastSyncResult(result)
             triggerDataRefresh()
             await loadZoteroStatus()
+            // Removed items are never dropped silently; ask right away
+            if (result.pendingRemovals > 0) setShowRemovals(true)
+            else if (result.conflicts > 0) setShowConflicts(true)
         } catch (err) {
             console.error('[Settings] Sync failed:', err)
         } finally {
@@ -145,12 +249,15 @@ export function SettingsView() {
         { value: 'light', label: 'Light', icon: <Sun size={18} />, desc: 'Clean and bright for daytime use' }
     ]
 
+    const progressLibrary = syncProgress?.library ? `${syncProgress.library} · ` : ''
     const progressLabel = syncProgress
-        ? syncProgress.phase === 'metadata' ? 'Fetching metadata...'
-            : syncProgress.phase === 'downloading' ? `Importing ${syncProgress.current}/${syncProgress.total}: ${syncProgress.paperTitle || ''}`
-                : syncProgress.phase === 'extracting' ? `Extracting text ${syncProgress.current}/${syncProgress.total}: ${syncProgress.paperTitle || ''}`
-                    : syncProgress.phase === 'error' ? `Error: ${syncProgress.error}`
-                        : 'Complete'
+        ? syncProgress.phase === 'metadata' ? `${progressLibrary}Fetching metadata...`
+            : syncProgress.phase === 'downloading' ? `${progressLibrary}Importing ${syncProgress.current}/${syncProgress.total}: ${syncProgress.paperTitle || ''}`
+                : syncProgress.phase === 'annotations' ? `${progressLibrary}Importing highlights...`
+                    : syncProgress.phase === 'pushing' ? `${progressLibrary}Sending changes to Zotero...`
+                        : syncProgress.phase === 'extracting' ? `Extracting text ${syncProgress.current}/${syncProgress.total}: ${syncProgress.paperTitle || ''}`
+                            : syncProgress.phase === 'error' ? `Error: ${syncProgress.error}`
+                                : 'Complete'
         : ''
 
     const progressPercent = syncProgress && syncProgress.total > 0
@@ -237,6 +344,135 @@ export function SettingsView() {
                                 </button>
                             </div>
 
+                            {/* Papers removed in Zotero */}
+                            {zoteroStatus.pendingRemovals > 0 && (
+                                <div className="flex items-center gap-3 p-4 rounded-xl bg-[var(--color-warning)]/10 border border-[var(--color-warning)]/30">
+                                    <AlertCircle size={16} className="text-[var(--color-warning)] shrink-0" />
+                                    <p className="flex-1 text-[12px] text-[var(--color-text-secondary)]">
+                                        {zoteroStatus.pendingRemovals} paper{zoteroStatus.pendingRemovals !== 1 ? 's were' : ' was'} deleted or trashed in Zotero and need{zoteroStatus.pendingRemovals === 1 ? 's' : ''} a decision.
+                                    </p>
+                                    <button
+                                        onClick={() => setShowRemovals(true)}
+                                        className="shrink-0 px-3 py-1.5 text-[11px] font-medium text-[var(--color-text-primary)] bg-[var(--color-bg-active)] rounded-lg hover:bg-[var(--color-bg-hover)] transition-colors"
+                                    >
+                                        Review
+                                    </button>
+                                </div>
+                            )}
+
+                            {/* Fields changed on both sides */}
+                            {zoteroStatus.conflicts > 0 && (
+                                <div className="flex items-center gap-3 p-4 rounded-xl bg-[var(--color-warning)]/10 border border-[var(--color-warning)]/30">
+                                    <GitMerge size={16} className="text-[var(--color-warning)] shrink-0" />
+                                    <p className="flex-1 text-[12px] text-[var(--color-text-secondary)]">
+                                        {zoteroStatus.conflicts} paper{zoteroStatus.conflicts !== 1 ? 's were' : ' was'} edited both here and in Zotero. {zoteroStatus.conflicts !== 1 ? 'They are' : 'It is'} not pushed until you pick which values to keep.
+                                    </p>
+                                    <button
+                                        onClick={() => setShowConflicts(true)}
+                                        className="shrink-0 px-3 py-1.5 text-[11px] font-medium text-[var(--color-text-primary)] bg-[var(--color-bg-active)] rounded-lg hover:bg-[var(--color-bg-hover)] transition-colors"
+                                    >
+                                        Review
+                                    </button>
+                                </div>
+                            )}
+
+                            {/* Libraries to sync */}
+                            <div className="space-y-2">
+                                <p className="text-[12px] font-medium text-[var(--color-text-secondary)]">
+                                    Libraries to sync
+                                </p>
+                                {availableLibraries ? (
+                                    <div className="space-y-1">
+                                        {availableLibraries.map(library => {
+                                            const selected = zoteroStatus.libraries.find(l => l.id === library.id)
+                                            const LibraryIcon = library.type === 'user' ? Library : Users
+                                            return (
+                                                <label
+                                                    key={library.id}
+                                                    className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-[var(--color-bg-hover)] cursor-pointer"
+                                                >
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={!!selected}
+                                                        disabled={syncing || (!!selected && zoteroStatus.libraries.length === 1)}
+                                                        onChange={() => handleToggleLibrary(library)}
+                                                        className="accent-[var(--color-accent)]"
+                                                    />
+                                                    <LibraryIcon size={14} className="text-[var(--color-text-tertiary)] shrink-0" />
+                                                    <span className="flex-1 min-w-0 truncate text-[13px] text-[var(--color-text-primary)]">
+                                                        {library.name}
+                                                    </span>
+                                                    {selected?.version != null && (
+                                                        <span className="text-[11px] text-[var(--color-text-tertiary)] tabular-nums shrink-0">
+                                                            v{selected.version}
+                                                        </span>
+                                                    )}
+                                                </label>
+                                            )
+                                        })}
+                                    </div>
+                                ) : librariesError ? (
+                                    <p className="text-[11px] text-red-400">{librariesError}</p>
+                                ) : (
+                                    <p className="flex items-center gap-2 text-[11px] text-[var(--color-text-tertiary)]">
+                                        <Loader2 size={12} className="animate-spin" /> Loading libraries...
+                                    </p>
+                                )}
+                            </div>
+
+                            {/* Highlights made in Zotero */}
+                            <div className="flex items-center gap-3 px-3 py-2">
+                                <Highlighter size={14} className="text-[var(--color-text-tertiary)] shrink-0" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-[13px] text-[var(--color-text-primary)]">Import Zotero highlights</p>
+                                    <p className="text-[11px] text-[var(--color-text-tertiary)]">
+                                        {zoteroStatus.annotationRules > 0
+                                            ? `${zoteroStatus.annotationRules} colour or tag rule${zoteroStatus.annotationRules !== 1 ? 's' : ''} · matching highlights are coded on sync`
+                                            : 'Off · map highlight colours or tags to nodes to turn it on'}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => setShowAnnotationRules(true)}
+                                    className="shrink-0 px-3 py-1.5 text-[11px] font-medium text-[var(--color-text-primary)] bg-[var(--color-bg-active)] rounded-lg hover:bg-[var(--color-bg-hover)] transition-colors"
+                                >
+                                    Configure
+                                </button>
+                            </div>
+
+                            {/* Write back to Zotero */}
+                            <div className="space-y-2">
+                                <p className="text-[12px] font-medium text-[var(--color-text-secondary)]">
+                                    Write back to Zotero
+                                </p>
+                                <div className="space-y-1">
+                                    {([
+                                        { option: 'metadata', label: 'Metadata edits', desc: 'Title, year, DOI, journal, abstract and authors corrected here' },
+                                        { option: 'codes', label: 'Codes as tags', desc: 'Nodes and tags of each paper\'s annotations, as "ThreadMed: …" tags' },
+                                        { option: 'notes', label: 'Annotation notes', desc: 'A child note listing each paper\'s annotations by node' }
+                                    ] as const).map(({ option, label, desc }) => (
+                                        <label
+                                            key={option}
+                                            className="flex items-start gap-3 px-3 py-2 rounded-lg hover:bg-[var(--color-bg-hover)] cursor-pointer"
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={zoteroStatus.writeBack[option]}
+                                                disabled={syncing}
+                                                onChange={() => handleToggleWriteBack(option)}
+                                                className="accent-[var(--color-accent)] mt-0.5"
+                                            />
+                                            <span className="flex-1 min-w-0">
+                                                <span className="block text-[13px] text-[var(--color-text-primary)]">{label}</span>
+                                                <span className="block text-[11px] text-[var(--color-text-tertiary)]">{desc}</span>
+                                            </span>
+                                        </label>
+                                    ))}
+                                </div>
+                                <p className="text-[11px] text-[var(--color-text-tertiary)] px-3">
+                                    Needs an API key with write access.
+                                </p>
+                            </div>
+
                             {/* Sync Button + Progress */}
                             <div className="space-y-3">
                                 <button
@@ -282,7 +518,7 @@ export function SettingsView() {
                                     <div className="p-4 rounded-xl bg-[var(--color-bg-hover)] text-[12px] space-y-1">
                                         <p className="text-[var(--color-text-secondary)] font-medium">Sync Complete</p>
                                         <p className="text-[var(--color-text-tertiary)]">
-                                            {lastSyncResult.imported} imported · {lastSyncResult.updated} updated · {lastSyncResult.pdfsDownloaded} PDFs
+                                            {lastSyncResult.imported} imported · {lastSyncResult.updated} updated · {lastSyncResult.pushed} pushed · {lastSyncResult.annotationsImported} highlights · {lastSyncResult.pdfsDownloaded} PDFs
                                         </p>
                                         {lastSyncResult.errors.length > 0 && (
                                             <div className="mt-2 text-red-400 space-y-0.5">
@@ -311,7 +547,7 @@ export function SettingsView() {
                                 >
                                     zotero.org/settings/keys
                                 </a>
-                                {' '}with "Allow library access" enabled. Your User ID is shown on that page.
+                                {' '}with "Allow library access" enabled (and "Allow write access" to send changes back). Your User ID is shown on that page.
                             </p>
 
                             <div className="space-y-3">
@@ -367,6 +603,96 @@ export function SettingsView() {
                     )}
                 </SettingsSection>
 
+                {/* ── Codebook Templates ─────────────────────────────────────── */}
+                <SettingsSection
+                    title="Codebook Templates"
+                    description="Save this project's nodes, sub-nodes, colours and tags as a template to start new projects from."
+                >
+                    <div className="space-y-4">
+                        <div className="space-y-3">
+                            <div>
+                                <label className="block text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider mb-1.5">
+                                    Template Name
+                                </label>
+                                <input
+                                    type="text"
+                                    value={templateName}
+                                    onChange={(e) => setTemplateName(e.target.value)}
+                                    placeholder="e.g. Qualitative synthesis (SPIDER + themes)"
+                                    className="w-full px-4 py-2.5 rounded-lg bg-[var(--color-bg-hover)] border border-[var(--color-border-subtle)] text-[13px] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] focus:border-[var(--color-accent)] focus:outline-none transition-colors"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider mb-1.5">
+                                    Description
+                                </label>
+                                <input
+                                    type="text"
+                                    value={templateDescription}
+                                    onChange={(e) => setTemplateDescription(e.target.value)}
+                                    placeholder="Optional — shown when choosing a template"
+                                    className="w-full px-4 py-2.5 rounded-lg bg-[var(--color-bg-hover)] border border-[var(--color-border-subtle)] text-[13px] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] focus:border-[var(--color-accent)] focus:outline-none transition-colors"
+                                />
+                            </div>
+                        </div>
+
+                        {templateError && (
+                            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-red-400 text-[12px]">
+                                <XCircle size={14} />
+                                {templateError}
+                            </div>
+                        )}
+                        {templateSaved && (
+                            <div className="flex items-center gap-2 p-3 rounded-lg bg-[var(--color-accent)]/10 text-[var(--color-accent)] text-[12px]">
+                                <CheckCircle2 size={14} />
+                                {templateSaved}
+                            </div>
+                        )}
+
+                        <button
+                            onClick={handleSaveTemplate}
+                            disabled={!templateName.trim()}
+                            className={cn(
+                                'flex items-center justify-center gap-2.5 w-full py-3 rounded-xl text-[13px] font-semibold transition-all',
+                                !templateName.trim()
+                                    ? 'bg-[var(--color-bg-active)] text-[var(--color-text-tertiary)] cursor-not-allowed'
+                                    : 'bg-[var(--color-accent)] text-white hover:bg-[var(--color-accent-hover)] shadow-md shadow-[var(--color-accent)]/15'
+                            )}
+                        >
+                            <Tags size={14} />
+                            Save Current Codebook as Template
+                        </button>
+
+                        {savedTemplates.length > 0 && (
+                            <div className="space-y-1.5">
+                                <p className="text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider">Saved Templates</p>
+                                {savedTemplates.map(template => (
+                                    <div key={template.id} className="flex items-center gap-3 px-4 py-2.5 rounded-lg bg-[var(--color-bg-hover)]">
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            {template.nodes.slice(0, 8).map(node => (
+                                                <span key={node.name} className="w-2 h-2 rounded-full" style={{ backgroundColor: node.color }} />
+                                            ))}
+                                        </div>
+                                        <div className="min-w-0 flex-1">
+                                            <p className="text-[13px] font-medium text-[var(--color-text-primary)] truncate">{template.name}</p>
+                                            {template.description && (
+                                                <p className="text-[11px] text-[var(--color-text-tertiary)] truncate">{template.description}</p>
+                                            )}
+                                        </div>
+                                        <button
+                                            onClick={() => handleDeleteTemplate(template)}
+                                            className="p-1.5 rounded-md hover:bg-red-500/10 text-[var(--color-text-tertiary)] hover:text-red-400 transition-colors shrink-0"
+                                            title="Delete template"
+                                        >
+                                            <Trash2 size={13} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </SettingsSection>
+
                 {/* ── Data & Storage ─────────────────────────────────────────── */}
                 <SettingsSection
                     title="Data & Storage"
@@ -409,6 +735,30 @@ export function SettingsView() {
                     </div>
                 </SettingsSection>
             </div>
+
+            <ZoteroRemovalsDialog
+                isOpen={showRemovals}
+                onClose={() => setShowRemovals(false)}
+                onResolved={() => {
+                    triggerDataRefresh()
+                    loadZoteroStatus()
+                }}
+            />
+
+            <ZoteroAnnotationRulesDialog
+                isOpen={showAnnotationRules}
+                onClose={() => setShowAnnotationRules(false)}
+                onChanged={loadZoteroStatus}
+            />
+
+            <ZoteroConflictsDialog
+                isOpen={showConflicts}
+                onClose={() => setShowConflicts(false)}
+                onResolved={() => {
+                    triggerDataRefresh()
+                    loadZoteroStatus()
+                }}
+            />
         </div>
     )
 }
@@ -0,0 +1,248 @@
+// ============================================================================
+// ThreadMed — Zotero Highlight Mapping Dialog
+// ============================================================================
+// Chooses which node (and optional tag) highlights made in Zotero's PDF
+// reader are imported under, by highlight colour or by Zotero tag. A tag
+// rule wins over the colour; highlights no rule matches are not imported.
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Plus, Trash2 } from 'lucide-react'
+import { remoteErrorMessage } from '@/lib/utils'
+import { flattenNodeTree, type FlatNode } from '@/lib/codebook'
+import type { ZoteroAnnotationRule, ZoteroAnnotationRuleInput } from '@/types'
+
+interface ZoteroAnnotationRulesDialogProps {
+    isOpen: boolean
+    onClose: () => void
+    /** Called after a rule was saved or deleted */
+    onChanged: () => void
+}
+
+/** The colours Zotero's reader offers */
+const ZOTERO_COLORS: Array<{ value: string; label: string }> = [
+    { value: '#ffd400', label: 'Yellow' },
+    { value: '#ff6666', label: 'Red' },
+    { value: '#5fb236', label: 'Green' },
+    { value: '#2ea8e5', label: 'Blue' },
+    { value: '#a28ae5', label: 'Purple' },
+    { value: '#e56eee', label: 'Magenta' },
+    { value: '#f19837', label: 'Orange' },
+    { value: '#aaaaaa', label: 'Gray' }
+]
+
+const inputClass = 'px-2.5 py-1.5 rounded-lg bg-[var(--color-bg-hover)] border border-[var(--color-border-subtle)] text-[12px] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] focus:border-[var(--color-accent)] focus:outline-none transition-colors'
+
+export function ZoteroAnnotationRulesDialog({ isOpen, onClose, onChanged }: ZoteroAnnotationRulesDialogProps) {
+    const [rules, setRules] = useState<ZoteroAnnotationRule[]>([])
+    const [nodes, setNodes] = useState<FlatNode[]>([])
+    // Unsaved tag names, keyed by `${match_type}:${match_value}`
+    const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({})
+    const [newTag, setNewTag] = useState('')
+    const [newTagNode, setNewTagNode] = useState('')
+
+    const load = async () => {
+        try {
+            const [loadedRules, loadedNodes] = await Promise.all([
+                window.api.zotero.annotationRules(),
+                window.api.nodes.list()
+            ])
+            setRules(loadedRules)
+            setNodes(flattenNodeTree(loadedNodes))
+            setTagDrafts({})
+        } catch (err) {
+            console.error('[ZoteroAnnotationRulesDialog] Failed to load rules:', err)
+        }
+    }
+
+    useEffect(() => {
+        if (isOpen) load()
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const ruleKey = (matchType: string, matchValue: string) => `${matchType}:${matchValue}`
+
+    const handleSave = async (input: ZoteroAnnotationRuleInput) => {
+        try {
+            await window.api.zotero.saveAnnotationRule(input)
+            onChanged()
+            await load()
+        } catch (err) {
+            console.error('[ZoteroAnnotationRulesDialog] Failed to save rule:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleDelete = async (rule: ZoteroAnnotationRule) => {
+        try {
+            await window.api.zotero.deleteAnnotationRule(rule.id)
+            onChanged()
+            await load()
+        } catch (err) {
+            console.error('[ZoteroAnnotationRulesDialog] Failed to delete rule:', err)
+            alert(remoteErrorMessage(err))
+        }
+    }
+
+    const handleNodeChange = (matchType: 'color' | 'tag', matchValue: string, nodeId: string) => {
+        const rule = rules.find(r => r.match_type === matchType && r.match_value === matchValue)
+        if (!nodeId) {
+            if (rule) handleDelete(rule)
+            return
+        }
+        handleSave({ match_type: matchType, match_value: matchValue, node_id: nodeId, tag_name: rule?.tag_name ?? null })
+    }
+
+    const handleTagBlur = (rule: ZoteroAnnotationRule) => {
+        const draft = tagDrafts[ruleKey(rule.match_type, rule.match_value)]
+        if (draft === undefined || draft.trim() === (rule.tag_name ?? '')) return
+        handleSave({ ...rule, tag_name: draft.trim() || null })
+    }
+
+    const handleAddTagRule = () => {
+        if (!newTag.trim() || !newTagNode) return
+        handleSave({ match_type: 'tag', match_value: newTag.trim(), node_id: newTagNode, tag_name: null })
+        setNewTag('')
+        setNewTagNode('')
+    }
+
+    const nodeOptions = (
+        <>
+            {nodes.map(node => (
+                <option key={node.id} value={node.id}>
+                    {'  '.repeat(node.depth)}{node.name}
+                </option>
+            ))}
+        </>
+    )
+
+    const renderTagInput = (rule: ZoteroAnnotationRule | undefined) => {
+        if (!rule) return <span className="w-40 shrink-0" />
+        const key = ruleKey(rule.match_type, rule.match_value)
+        return (
+            <input
+                value={tagDrafts[key] ?? rule.tag_name ?? ''}
+                onChange={e => setTagDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                onBlur={() => handleTagBlur(rule)}
+                onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                placeholder="Tag (optional)"
+                className={`${inputClass} w-40 shrink-0`}
+            />
+        )
+    }
+
+    const tagRules = rules.filter(r => r.match_type === 'tag')
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Zotero Highlights</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">
+                            Choose where highlights made in Zotero are coded · unmatched highlights are not imported
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+                    {nodes.length === 0 && (
+                        <p className="text-[12px] text-[var(--color-text-tertiary)]">
+                            Create nodes in the codebook first; highlights are imported under a node.
+                        </p>
+                    )}
+
+                    {/* ── By Zotero tag ─────────────────────────────────────── */}
+                    <div className="space-y-2">
+                        <p className="text-[12px] font-medium text-[var(--color-text-secondary)]">
+                            By Zotero tag <span className="font-normal text-[var(--color-text-tertiary)]">· checked before the colour</span>
+                        </p>
+                        {tagRules.map(rule => (
+                            <div key={rule.id} className="flex items-center gap-2">
+                                <span className="flex-1 min-w-0 truncate text-[13px] text-[var(--color-text-primary)]">{rule.match_value}</span>
+                                <select
+                                    value={rule.node_id}
+                                    onChange={e => handleNodeChange('tag', rule.match_value, e.target.value)}
+                                    className={`${inputClass} w-44 shrink-0`}
+                                >
+                                    {nodeOptions}
+                                </select>
+                                {renderTagInput(rule)}
+                                <button
+                                    type="button"
+                                    onClick={() => handleDelete(rule)}
+                                    className="w-7 h-7 flex items-center justify-center rounded-lg text-[var(--color-text-tertiary)] hover:text-red-500 hover:bg-red-500/10 transition-colors shrink-0"
+                                    title="Delete Rule"
+                                >
+                                    <Trash2 size={13} />
+                                </button>
+                            </div>
+                        ))}
+                        <div className="flex items-center gap-2">
+                            <input
+                                value={newTag}
+                                onChange={e => setNewTag(e.target.value)}
+                                onKeyDown={e => e.key === 'Enter' && handleAddTagRule()}
+                                placeholder="Zotero tag"
+                                className={`${inputClass} flex-1 min-w-0`}
+                            />
+                            <select
+                                value={newTagNode}
+                                onChange={e => setNewTagNode(e.target.value)}
+                                className={`${inputClass} w-44 shrink-0`}
+                            >
+                                <option value="">Choose node…</option>
+                                {nodeOptions}
+                            </select>
+                            <button
+                                type="button"
+                                onClick={handleAddTagRule}
+                                disabled={!newTag.trim() || !newTagNode}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium text-[var(--color-accent)] hover:bg-[var(--color-accent-subtle)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+                            >
+                                <Plus size={12} />
+                                Add
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* ── By colour ─────────────────────────────────────────── */}
+                    <div className="space-y-2">
+                        <p className="text-[12px] font-medium text-[var(--color-text-secondary)]">By highlight colour</p>
+                        {ZOTERO_COLORS.map(color => {
+                            const rule = rules.find(r => r.match_type === 'color' && r.match_value === color.value)
+                            return (
+                                <div key={color.value} className="flex items-center gap-2">
+                                    <span className="w-4 h-4 rounded shrink-0" style={{ backgroundColor: color.value }} />
+                                    <span className="flex-1 min-w-0 text-[13px] text-[var(--color-text-primary)]">{color.label}</span>
+                                    <select
+                                        value={rule?.node_id ?? ''}
+                                        onChange={e => handleNodeChange('color', color.value, e.target.value)}
+                                        className={`${inputClass} w-44 shrink-0`}
+                                    >
+                                        <option value="">Don't import</option>
+                                        {nodeOptions}
+                                    </select>
+                                    {renderTagInput(rule)}
+                                    <span className="w-7 shrink-0" />
+                                </div>
+                            )
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
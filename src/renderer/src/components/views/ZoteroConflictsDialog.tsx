@@ -0,0 +1,178 @@
+// ============================================================================
+// ThreadMed — Zotero Conflicts Dialog
+// ============================================================================
+// Resolves metadata fields that were edited in ThreadMed and changed in
+// Zotero since the last sync. Sync overwrites neither value; for each field
+// the user keeps their own (pushed to Zotero on the next sync) or takes
+// Zotero's.
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, CheckCircle2, Monitor, Cloud } from 'lucide-react'
+import { remoteErrorMessage } from '@/lib/utils'
+import type { ZoteroConflict, ZoteroConflictChoice, SyncedField } from '@/types'
+
+interface ZoteroConflictsDialogProps {
+    isOpen: boolean
+    onClose: () => void
+    /** Called after a conflict was resolved so the caller can reload */
+    onResolved: () => void
+}
+
+const FIELD_LABELS: Record<SyncedField, string> = {
+    title: 'Title',
+    year: 'Year',
+    doi: 'DOI',
+    journal: 'Journal',
+    abstract: 'Abstract',
+    authors: 'Authors'
+}
+
+function formatValue(value: unknown): string {
+    if (Array.isArray(value)) return value.length > 0 ? value.join('; ') : ''
+    if (value === null || value === undefined) return ''
+    return String(value)
+}
+
+export function ZoteroConflictsDialog({ isOpen, onClose, onResolved }: ZoteroConflictsDialogProps) {
+    const [conflicts, setConflicts] = useState<ZoteroConflict[]>([])
+    const [loading, setLoading] = useState(true)
+    const [busy, setBusy] = useState<string | null>(null)
+
+    const loadConflicts = async () => {
+        try {
+            setLoading(true)
+            setConflicts(await window.api.zotero.conflicts())
+        } catch (err) {
+            console.error('[ZoteroConflictsDialog] Failed to load conflicts:', err)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        if (isOpen) loadConflicts()
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const handleResolve = async (conflict: ZoteroConflict, choice: ZoteroConflictChoice) => {
+        const id = `${conflict.paper_id}:${conflict.field}`
+        try {
+            setBusy(id)
+            await window.api.zotero.resolveConflict(conflict.paper_id, conflict.field, choice)
+            setConflicts(prev => prev.filter(c => `${c.paper_id}:${c.field}` !== id))
+            onResolved()
+        } catch (err) {
+            console.error('[ZoteroConflictsDialog] Failed to resolve conflict:', err)
+            alert(remoteErrorMessage(err))
+            await loadConflicts()
+        } finally {
+            setBusy(null)
+        }
+    }
+
+    // Conflicts arrive sorted by paper
+    const papers: Array<{ paperId: string; title: string; conflicts: ZoteroConflict[] }> = []
+    for (const conflict of conflicts) {
+        const last = papers[papers.length - 1]
+        if (last?.paperId === conflict.paper_id) {
+            last.conflicts.push(conflict)
+        } else {
+            papers.push({ paperId: conflict.paper_id, title: conflict.title, conflicts: [conflict] })
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-3xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Sync Conflicts</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">
+                            {loading
+                                ? 'Loading…'
+                                : `${papers.length} paper${papers.length !== 1 ? 's' : ''} changed both here and in Zotero · pick the value to keep`}
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Conflicts ─────────────────────────────────────────────── */}
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+                    {!loading && papers.length === 0 && (
+                        <div className="py-12 text-center text-[var(--color-text-tertiary)]">
+                            <CheckCircle2 size={32} className="mx-auto opacity-40 mb-3" />
+                            <p className="text-[14px] font-medium text-[var(--color-text-secondary)]">No conflicts</p>
+                            <p className="text-[12px] mt-1">Fields edited on both sides show up here after a sync.</p>
+                        </div>
+                    )}
+                    {papers.map(paper => (
+                        <div key={paper.paperId} className="rounded-xl border border-[var(--color-border)] overflow-hidden">
+                            <p className="px-4 py-2.5 text-[13px] font-medium text-[var(--color-text-primary)] leading-snug bg-[var(--color-bg-elevated)] border-b border-[var(--color-border-subtle)]">
+                                {paper.title}
+                            </p>
+                            <div className="divide-y divide-[var(--color-border-subtle)]">
+                                {paper.conflicts.map(conflict => {
+                                    const id = `${conflict.paper_id}:${conflict.field}`
+                                    return (
+                                        <div key={id} className="px-4 py-3 space-y-2">
+                                            <p className="text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider">
+                                                {FIELD_LABELS[conflict.field] ?? conflict.field}
+                                            </p>
+                                            <div className="grid grid-cols-2 gap-3">
+                                                {([
+                                                    { choice: 'local', label: 'Keep mine', icon: <Monitor size={12} />, value: conflict.local_value },
+                                                    { choice: 'remote', label: 'Use Zotero', icon: <Cloud size={12} />, value: conflict.remote_value }
+                                                ] as const).map(side => (
+                                                    <div key={side.choice} className="flex flex-col gap-2 p-3 rounded-lg bg-[var(--color-bg-hover)]">
+                                                        <p className="flex-1 text-[12px] text-[var(--color-text-secondary)] whitespace-pre-wrap break-words max-h-40 overflow-y-auto custom-scrollbar">
+                                                            {formatValue(side.value) || <span className="italic text-[var(--color-text-tertiary)]">Empty</span>}
+                                                        </p>
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => handleResolve(conflict, side.choice)}
+                                                            disabled={busy !== null}
+                                                            className="self-start flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[12px] font-medium text-[var(--color-accent)] hover:bg-[var(--color-accent-subtle)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                                        >
+                                                            {side.icon}
+                                                            {side.label}
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <div className="px-6 py-4 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex items-center gap-3 shrink-0 rounded-b-2xl">
+                    <p className="text-[12px] text-[var(--color-text-tertiary)]">
+                        Papers with open conflicts are not pushed to Zotero.
+                    </p>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="ml-auto px-4 py-2 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        {conflicts.length === 0 ? 'Close' : 'Decide later'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
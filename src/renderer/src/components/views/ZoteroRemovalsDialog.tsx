@@ -0,0 +1,214 @@
+// ============================================================================
+// ThreadMed — Zotero Removals Dialog
+// ============================================================================
+// Reviews papers whose Zotero item was deleted or moved to the trash. Sync
+// never removes them on its own: for each paper the user chooses to delete it
+// (with its annotations and PDF), archive it (hidden from the library, kept
+// with its annotations) or detach it from Zotero and keep it as a local paper.
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Trash2, Archive, Unlink, Highlighter, CheckCircle2, AlertTriangle } from 'lucide-react'
+import { cn, remoteErrorMessage } from '@/lib/utils'
+import type { ZoteroRemoval, ZoteroRemovalAction } from '@/types'
+
+interface ZoteroRemovalsDialogProps {
+    isOpen: boolean
+    onClose: () => void
+    /** Called after decisions were applied so the caller can reload */
+    onResolved: () => void
+}
+
+const ACTIONS: Array<{ value: ZoteroRemovalAction; label: string; icon: React.ReactNode; title: string }> = [
+    { value: 'archive', label: 'Archive', icon: <Archive size={12} />, title: 'Hide from the library; annotations are kept' },
+    { value: 'detach', label: 'Keep', icon: <Unlink size={12} />, title: 'Unlink from Zotero and keep as a local paper' },
+    { value: 'delete', label: 'Delete', icon: <Trash2 size={12} />, title: 'Delete the paper, its annotations and its PDF' }
+]
+
+export function ZoteroRemovalsDialog({ isOpen, onClose, onResolved }: ZoteroRemovalsDialogProps) {
+    const [removals, setRemovals] = useState<ZoteroRemoval[]>([])
+    // Chosen action per paper; papers default to archive
+    const [actions, setActions] = useState<Record<string, ZoteroRemovalAction>>({})
+    const [loading, setLoading] = useState(true)
+    const [busy, setBusy] = useState(false)
+
+    const loadRemovals = async () => {
+        try {
+            setLoading(true)
+            setRemovals(await window.api.zotero.removals())
+        } catch (err) {
+            console.error('[ZoteroRemovalsDialog] Failed to load removals:', err)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        if (!isOpen) return
+        setActions({})
+        loadRemovals()
+    }, [isOpen])
+
+    if (!isOpen) return null
+
+    const actionFor = (paperId: string): ZoteroRemovalAction => actions[paperId] ?? 'archive'
+
+    const setAll = (action: ZoteroRemovalAction) => {
+        setActions(Object.fromEntries(removals.map(r => [r.paper.id, action])))
+    }
+
+    const handleApply = async () => {
+        const deleting = removals.filter(r => actionFor(r.paper.id) === 'delete')
+        if (deleting.length > 0) {
+            const annotations = deleting.reduce((sum, r) => sum + r.annotation_count, 0)
+            const detail = annotations > 0
+                ? ` This also deletes ${annotations} annotation${annotations !== 1 ? 's' : ''} and the PDFs.`
+                : ' Their PDFs are deleted too.'
+            if (!confirm(`Delete ${deleting.length} paper${deleting.length !== 1 ? 's' : ''}?${detail} This cannot be undone.`)) return
+        }
+
+        try {
+            setBusy(true)
+            await window.api.zotero.resolveRemovals(removals.map(r => ({ paperId: r.paper.id, action: actionFor(r.paper.id) })))
+            onResolved()
+            onClose()
+        } catch (err) {
+            console.error('[ZoteroRemovalsDialog] Failed to apply decisions:', err)
+            alert(remoteErrorMessage(err))
+            await loadRemovals()
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    const modalContent = (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in text-left">
+            <div className="bg-[var(--color-bg-surface)] w-full max-w-3xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden border border-[var(--color-border)]">
+                {/* ── Header ────────────────────────────────────────────────── */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border-subtle)] shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Removed in Zotero</h2>
+                        <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5">
+                            {loading
+                                ? 'Loading…'
+                                : `${removals.length} paper${removals.length !== 1 ? 's' : ''} deleted or trashed in Zotero · choose what happens to each`}
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] p-1.5 rounded-lg transition-colors"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* ── Papers ────────────────────────────────────────────────── */}
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+                    {!loading && removals.length === 0 && (
+                        <div className="py-12 text-center text-[var(--color-text-tertiary)]">
+                            <CheckCircle2 size={32} className="mx-auto opacity-40 mb-3" />
+                            <p className="text-[14px] font-medium text-[var(--color-text-secondary)]">Nothing to review</p>
+                            <p className="text-[12px] mt-1">Papers deleted or trashed in Zotero show up here after a sync.</p>
+                        </div>
+                    )}
+                    {removals.map(({ paper, reason, annotation_count }) => {
+                        const action = actionFor(paper.id)
+                        return (
+                            <div
+                                key={paper.id}
+                                className={cn(
+                                    'flex items-start gap-3 px-4 py-3 rounded-xl border transition-colors',
+                                    action === 'delete' ? 'border-red-500/40 bg-red-500/5' : 'border-[var(--color-border)]'
+                                )}
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-[13px] font-medium text-[var(--color-text-primary)] leading-snug">{paper.title}</p>
+                                    <p className="text-[12px] text-[var(--color-text-tertiary)] mt-0.5 truncate">
+                                        {paper.authors.length > 0 ? paper.authors.slice(0, 3).join('; ') : 'Unknown author'}
+                                        {paper.authors.length > 3 ? ' et al.' : ''}
+                                        {paper.year ? ` · ${paper.year}` : ''}
+                                    </p>
+                                    <div className="flex items-center gap-3 mt-1 text-[11px] text-[var(--color-text-tertiary)]">
+                                        <span className={cn(reason === 'deleted' && 'text-[var(--color-warning)]')}>
+                                            {reason === 'deleted' ? 'Deleted in Zotero' : 'In the Zotero trash'}
+                                        </span>
+                                        <span className={cn('flex items-center gap-1', annotation_count > 0 && 'text-[var(--color-text-secondary)]')}>
+                                            <Highlighter size={11} />
+                                            {annotation_count} annotation{annotation_count !== 1 ? 's' : ''}
+                                        </span>
+                                        {action === 'delete' && annotation_count > 0 && (
+                                            <span className="flex items-center gap-1 text-red-400">
+                                                <AlertTriangle size={11} />
+                                                Annotations will be deleted
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="flex shrink-0 rounded-lg border border-[var(--color-border)] overflow-hidden">
+                                    {ACTIONS.map(option => (
+                                        <button
+                                            key={option.value}
+                                            type="button"
+                                            onClick={() => setActions(prev => ({ ...prev, [paper.id]: option.value }))}
+                                            title={option.title}
+                                            className={cn(
+                                                'flex items-center gap-1.5 px-2.5 py-1 text-[12px] font-medium transition-colors',
+                                                action === option.value
+                                                    ? option.value === 'delete'
+                                                        ? 'bg-red-500/15 text-red-400'
+                                                        : 'bg-[var(--color-accent-subtle)] text-[var(--color-accent)]'
+                                                    : 'text-[var(--color-text-tertiary)] hover:bg-[var(--color-bg-hover)]'
+                                            )}
+                                        >
+                                            {option.icon}
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )
+                    })}
+                </div>
+
+                {/* ── Footer ────────────────────────────────────────────────── */}
+                <div className="px-6 py-4 bg-[var(--color-bg-elevated)] border-t border-[var(--color-border-subtle)] flex items-center gap-3 shrink-0 rounded-b-2xl">
+                    {removals.length > 1 && (
+                        <div className="flex items-center gap-1 text-[12px] text-[var(--color-text-tertiary)]">
+                            <span>Set all:</span>
+                            {ACTIONS.map(option => (
+                                <button
+                                    key={option.value}
+                                    type="button"
+                                    onClick={() => setAll(option.value)}
+                                    className="px-2 py-1 rounded-md hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] transition-colors"
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="ml-auto px-4 py-2 text-[13px] font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-bg-hover)] rounded-lg transition-colors"
+                    >
+                        Decide later
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleApply}
+                        disabled={busy || loading || removals.length === 0}
+                        className="flex items-center gap-2 px-5 py-2 bg-[var(--color-accent)] text-white text-[13px] font-semibold rounded-lg hover:bg-[var(--color-accent-hover)] transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-[var(--color-accent)]/20"
+                    >
+                        <CheckCircle2 size={14} />
+                        {busy ? 'Applying…' : 'Apply'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+
+    return createPortal(modalContent, document.body)
+}
@@ -0,0 +1,45 @@
+// ============================================================================
+// ThreadMed — Codebook Helpers
+// ============================================================================
+// Nodes form a tree through parent_id. These helpers flatten it for lists and
+// pickers and find the ancestors an annotation's count rolls up to.
+// ============================================================================
+
+import type { Node } from '@/types'
+
+export interface FlatNode extends Node {
+    /** 0 for root nodes */
+    depth: number
+    /** Names from the root down to this node */
+    path: string[]
+}
+
+/** Nodes depth-first, each parent directly followed by its sub-nodes */
+export function flattenNodeTree(nodes: Node[]): FlatNode[] {
+    const ids = new Set(nodes.map(n => n.id))
+    const flat: FlatNode[] = []
+    const visit = (parentId: string | null, path: string[]) => {
+        for (const node of nodes) {
+            // Nodes whose parent is missing are treated as roots
+            const parent = node.parent_id && ids.has(node.parent_id) ? node.parent_id : null
+            if (parent !== parentId) continue
+            flat.push({ ...node, depth: path.length, path: [...path, node.name] })
+            visit(node.id, [...path, node.name])
+        }
+    }
+    visit(null, [])
+    return flat
+}
+
+/** The node itself followed by its ancestors up to the root */
+export function nodeLineage(nodes: Node[], nodeId: string): string[] {
+    const byId = new Map(nodes.map(n => [n.id, n]))
+    const lineage: string[] = []
+    let current = byId.get(nodeId)
+    // The visited check guards against a corrupt parent cycle
+    while (current && !lineage.includes(current.id)) {
+        lineage.push(current.id)
+        current = current.parent_id ? byId.get(current.parent_id) : undefined
+    }
+    return lineage.length > 0 ? lineage : [nodeId]
+}
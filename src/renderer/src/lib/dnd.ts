@@ -2,16 +2,21 @@
 // ThreadMed — Drag & Drop Helpers
 // ============================================================================
 // Shared utilities for managing drag-and-drop hierarchy operations on folders
-// and determining validity of drop targets (e.g. depth limits, self-nesting).
+// and codebook nodes, and determining validity of drop targets (e.g. depth
+// limits, self-nesting).
 // ============================================================================
 
-import type { Folder } from '@/types'
+/** Anything arranged in a tree through parent_id (folders, nodes) */
+interface TreeItem {
+    id: string
+    parent_id: string | null
+}
 
 /**
  * Checks if `folderToDragId` is an ancestor of `targetId`, preventing dropping
  * a folder into itself or any of its own descendants.
  */
-export const isDescendant = (folders: Folder[], targetId: string, folderToDragId: string): boolean => {
+export const isDescendant = (folders: TreeItem[], targetId: string, folderToDragId: string): boolean => {
     if (folderToDragId === targetId) return true
     const children = folders.filter(f => f.parent_id === folderToDragId)
     for (const child of children) {
@@ -25,7 +30,7 @@ export const isDescendant = (folders: Folder[], targetId: string, folderToDragId
  * Returning 1 means the node has no children. 
  * Returning 2 means children exist, but no grandchildren, etc.
  */
-export const getTreeDepth = (folders: Folder[], folderId: string): number => {
+export const getTreeDepth = (folders: TreeItem[], folderId: string): number => {
     const children = folders.filter(f => f.parent_id === folderId)
     if (children.length === 0) return 1
     return 1 + Math.max(0, ...children.map(c => getTreeDepth(folders, c.id)))
@@ -35,7 +40,7 @@ export const getTreeDepth = (folders: Folder[], folderId: string): number => {
  * Calculates how deep into the folder hierarchy a specific target ID is.
  * Returning 1 means the node sits at the root (parent_id = null).
  */
-export const getPathDepth = (folders: Folder[], folderId: string | null): number => {
+export const getPathDepth = (folders: TreeItem[], folderId: string | null): number => {
     if (!folderId) return 0
     let depth = 1
     let curr = folders.find(f => f.id === folderId)
@@ -45,3 +50,17 @@ export const getPathDepth = (folders: Folder[], folderId: string | null): number
     }
     return depth
 }
+
+/** Where a drop lands relative to the row under the pointer */
+export type DropPosition = 'before' | 'inside' | 'after'
+
+/**
+ * The top and bottom quarter of a row place the dragged item before or after
+ * it as a sibling; the middle nests it inside.
+ */
+export const getDropPosition = (clientY: number, rect: { top: number; height: number }): DropPosition => {
+    const offset = clientY - rect.top
+    if (offset < rect.height / 4) return 'before'
+    if (offset > rect.height * 3 / 4) return 'after'
+    return 'inside'
+}
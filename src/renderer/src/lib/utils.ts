@@ -1,8 +1,27 @@
 // Utility function for Shadcn-style className merging
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import type { MemoBacklink } from '@/types'
 
 /** Merge class names with Tailwind conflict resolution */
 export function cn(...inputs: ClassValue[]): string {
     return twMerge(clsx(inputs))
 }
+
+/** Message of an error thrown in the main process, without Electron's IPC prefix */
+export function remoteErrorMessage(err: unknown): string {
+    const message = err instanceof Error ? err.message : String(err)
+    return message.replace(/^Error invoking remote method '[^']+': (?:Error: )?/, '')
+}
+
+/**
+ * Extra line for a delete confirmation when annotations about to be deleted
+ * are cited in memos (their citations would point at nothing); empty otherwise
+ */
+export function citedAnnotationsWarning(backlinks: MemoBacklink[]): string {
+    if (backlinks.length === 0) return ''
+    const annotations = new Set(backlinks.map(b => b.annotation_id)).size
+    const memos = new Set(backlinks.map(b => b.memo_id)).size
+    return `\n\n${annotations} annotation${annotations !== 1 ? 's' : ''} cited in ${memos} memo${memos !== 1 ? 's' : ''} will be deleted too; ` +
+        'those citations will then point at a missing annotation.'
+}
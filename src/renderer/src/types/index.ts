@@ -16,6 +16,16 @@ export interface Paper {
     date_added: string
     date_modified: string
     zotero_version: number
+    /** 1 when metadata was edited locally since the last Zotero sync */
+    dirty: number
+    /** BibTeX key, fixed the first time the paper is exported */
+    citation_key: string | null
+    /** Zotero library the item lives in: 'users/<id>' or 'groups/<id>' */
+    zotero_library: string | null
+    /** 1 when hidden from the library but kept with its annotations */
+    archived: number
+    /** JSON snapshot of the Zotero item at the last sync, the base for merging edits */
+    zotero_synced: string | null
 }
 
 export interface PaperWithAuthors extends Paper {
@@ -33,6 +43,26 @@ export interface CreatePaperInput {
     authors?: string[]
 }
 
+/** A paper in a group of probable duplicates */
+export interface DuplicateCandidate extends PaperWithAuthors {
+    annotation_count: number
+    folder_count: number
+    has_pdf: boolean
+}
+
+export interface DuplicateMatch {
+    paper_a: string
+    paper_b: string
+    reason: string
+}
+
+export interface DuplicateGroup {
+    papers: DuplicateCandidate[]
+    matches: DuplicateMatch[]
+    /** The paper suggested to keep */
+    suggested_id: string
+}
+
 /** A thematic code node (e.g., Population, Intervention) */
 export interface Node {
     id: string
@@ -40,6 +70,26 @@ export interface Node {
     color: string
     is_default: number
     sort_order: number
+    /** Parent in the codebook tree; null for root nodes */
+    parent_id: string | null
+}
+
+/** A node of a codebook template, with its starter tags and sub-nodes */
+export interface CodebookNodeSpec {
+    name: string
+    color: string
+    tags?: string[]
+    children?: CodebookNodeSpec[]
+}
+
+/** A starting codebook for new projects (PICO, SPIDER, ... or user-saved) */
+export interface CodebookTemplate {
+    id: string
+    name: string
+    description: string
+    /** Built-in templates cannot be deleted */
+    builtIn: boolean
+    nodes: CodebookNodeSpec[]
 }
 
 /** A tag (subtype/code within a node, e.g., Population → "cirrhotics") */
@@ -80,6 +130,27 @@ export interface AnnotationWithContext extends Annotation {
     node_color: string
 }
 
+/** An analytic memo (Markdown); annotations are cited as [[annotation:<id>]] */
+export interface Memo {
+    id: string
+    title: string
+    content: string
+    created_at: string
+    updated_at: string
+}
+
+export interface MemoSummary extends Memo {
+    reference_count: number
+}
+
+/** A memo citing an annotation (memo_references joined with memos) */
+export interface MemoBacklink {
+    annotation_id: string
+    memo_id: string
+    memo_title: string
+    memo_updated_at: string
+}
+
 /** Folder / Collection */
 export interface Folder {
     id: string
@@ -87,8 +158,588 @@ export interface Folder {
     parent_id: string | null
     created_at: string
     sort_order: number
+    /** Key of the mirrored Zotero collection; null for local-only folders */
+    zotero_key: string | null
+    /** Zotero library of zotero_key: 'users/<id>' or 'groups/<id>' */
+    zotero_library: string | null
+}
+
+/** Screening stage: title/abstract first, then full text for kept papers */
+export type ScreeningStage = 'title_abstract' | 'full_text'
+export type ScreeningDecisionValue = 'include' | 'exclude' | 'maybe'
+
+/** Configurable reason cited by exclusion decisions */
+export interface ExclusionReason {
+    id: string
+    name: string
+    sort_order: number
+    usage_count: number
+}
+
+/** Reviewer profile that screening decisions are attributed to */
+export interface Reviewer {
+    id: string
+    name: string
+    created_at: string
+}
+
+export interface ScreeningDecision {
+    id: string
+    paper_id: string
+    reviewer_id: string
+    stage: ScreeningStage
+    decision: ScreeningDecisionValue
+    reason_id: string | null
+    note: string | null
+    created_at: string
+    updated_at: string
+}
+
+/** A paper in the screening queue with its decision at the stage */
+export interface ScreeningRecord {
+    paper_id: string
+    title: string
+    abstract: string | null
+    year: number | null
+    journal: string | null
+    doi: string | null
+    authors: string[]
+    decision: ScreeningDecisionValue | null
+    reason_id: string | null
+    reason_name: string | null
+    note: string | null
+}
+
+export interface ScreeningProgress {
+    stage: ScreeningStage
+    total: number
+    include: number
+    exclude: number
+    maybe: number
+    undecided: number
+    /** True while the counts are only the active reviewer's own decisions */
+    blinded: boolean
+}
+
+export interface SetScreeningDecisionInput {
+    paperId: string
+    stage: ScreeningStage
+    decision: ScreeningDecisionValue
+    reasonId?: string | null
+    note?: string | null
+}
+
+export interface ConflictingDecision {
+    reviewer_id: string
+    reviewer_name: string
+    decision: ScreeningDecisionValue
+    reason_id: string | null
+    reason_name: string | null
+    note: string | null
 }
 
+export interface ScreeningResolution {
+    decision: ScreeningDecisionValue
+    reason_id: string | null
+    reason_name: string | null
+    note: string | null
+    resolved_by_name: string | null
+    resolved_at: string
+}
+
+export interface ScreeningConflict {
+    paper_id: string
+    title: string
+    year: number | null
+    decisions: ConflictingDecision[]
+    resolution: ScreeningResolution | null
+}
+
+export interface ReviewerProgress {
+    reviewer_id: string
+    reviewer_name: string
+    decided: number
+}
+
+/** Agreement between the first two reviewers; statistics are null while blinded */
+export interface ScreeningAgreement {
+    stage: ScreeningStage
+    eligible: number
+    reviewers: ReviewerProgress[]
+    unblinded: boolean
+    compared: number | null
+    agreements: number | null
+    percent_agreement: number | null
+    kappa: number | null
+    conflicts: ScreeningConflict[]
+}
+
+export interface ScreeningMergeResult {
+    reviewers_added: number
+    reasons_added: number
+    decisions_merged: number
+    resolutions_merged: number
+    skipped: number
+}
+
+// ── PRISMA Flow ──────────────────────────────────────────────────────────────
+
+export type SearchSourceKind = 'database' | 'register' | 'other'
+
+export interface SearchSource {
+    id: string
+    name: string
+    kind: SearchSourceKind
+    created_at: string
+    record_count: number
+}
+
+export interface PrismaSourceCount {
+    /** Null for papers with no recorded source */
+    id: string | null
+    name: string
+    kind: SearchSourceKind
+    records: number
+}
+
+export interface PrismaFlow {
+    sources: PrismaSourceCount[]
+    identified: number
+    duplicates_removed: number
+    other_removed: number
+    screened: number
+    screening_excluded: number
+    screening_awaiting: number
+    sought: number
+    not_retrieved: number
+    assessed: number
+    full_text_excluded: Array<{ reason: string; count: number }>
+    full_text_excluded_total: number
+    full_text_awaiting: number
+    included: number
+    unsourced: number
+}
+
+export type PrismaExportFormat = 'svg' | 'png' | 'pdf'
+
+export interface PrismaDiagram {
+    svg: string
+    width: number
+    height: number
+}
+
+// ── Risk of Bias ─────────────────────────────────────────────────────────────
+
+export type RobToolId = 'rob2' | 'robins_i' | 'nos'
+
+export interface RobOption {
+    value: string
+    label: string
+    /** NOS only: stars awarded for this answer */
+    stars?: number
+}
+
+export interface RobCondition {
+    match: 'any' | 'all'
+    rules: Array<{ question: string; answers: string[] }>
+}
+
+export interface RobQuestion {
+    id: string
+    text: string
+    options: RobOption[]
+    /** Only asked when earlier answers call for it */
+    condition?: RobCondition
+}
+
+export interface RobDomain {
+    id: string
+    short: string
+    name: string
+    questions: RobQuestion[]
+    /** True when the judgement follows from the answers, false when the reviewer judges */
+    derived: boolean
+}
+
+export interface RobJudgement {
+    value: string
+    label: string
+    color: string
+    symbol: string
+}
+
+export interface RobToolDefinition {
+    id: RobToolId
+    name: string
+    study_design: string
+    /** Judgements in legend order */
+    judgements: RobJudgement[]
+    domains: RobDomain[]
+    overall_rule: string
+}
+
+export interface RobEvidence {
+    domain_id: string
+    annotation_id: string
+    content: string
+    page_number: number
+    node_name: string
+    node_color: string
+}
+
+export interface RobDomainResult {
+    domain_id: string
+    derived: string | null
+    override: string | null
+    /** The override, otherwise the derived judgement */
+    judgement: string | null
+    support: string
+    evidence: RobEvidence[]
+    stars?: number
+}
+
+export interface RobAssessment {
+    id: string
+    paper_id: string
+    paper_title: string
+    tool: RobToolId
+    outcome: string
+    overall_override: string | null
+    notes: string
+    created_at: string
+    updated_at: string
+    answers: Record<string, string>
+    domains: RobDomainResult[]
+    derived_overall: string | null
+    overall: string | null
+}
+
+export type RobPlotKind = 'traffic_light' | 'summary'
+
+/** Drawn in the main process like the PRISMA diagram */
+export type RobPlot = PrismaDiagram
+
+// ── Data Extraction ──────────────────────────────────────────────────────────
+
+/** A "group" is repeated for every study arm and holds the fields under it */
+export type ExtractionFieldType = 'integer' | 'decimal' | 'categorical' | 'text' | 'group'
+
+export interface ExtractionField {
+    id: string
+    form_id: string
+    /** The arm group this field repeats under, or null for a paper-level field */
+    parent_id: string | null
+    name: string
+    field_type: ExtractionFieldType
+    /** Allowed values of a categorical field */
+    options: string[]
+    unit: string | null
+    sort_order: number
+}
+
+export interface ExtractionForm {
+    id: string
+    name: string
+    description: string
+    sort_order: number
+    created_at: string
+    /** Every field in display order, group children right after their group */
+    fields: ExtractionField[]
+}
+
+export interface ExtractionFieldInput {
+    name: string
+    field_type: ExtractionFieldType
+    parent_id?: string | null
+    options?: string[]
+    unit?: string | null
+}
+
+/** A study arm of a paper, shared by every form */
+export interface ExtractionArm {
+    id: string
+    paper_id: string
+    label: string
+    sort_order: number
+}
+
+export interface ExtractionValue {
+    id: string
+    paper_id: string
+    field_id: string
+    arm_id: string | null
+    value: number | string | null
+    /** The annotation cited as the source of the value */
+    annotation_id: string | null
+    annotation_content: string | null
+    annotation_page: number | null
+    updated_at: string
+}
+
+export interface PaperExtraction {
+    arms: ExtractionArm[]
+    values: ExtractionValue[]
+}
+
+export interface ExtractionValueInput {
+    paper_id: string
+    field_id: string
+    /** Required for fields inside an arm group */
+    arm_id?: string | null
+    /** Omit to keep the current value; null or '' clears it */
+    value?: number | string | null
+    /** Omit to keep the current citation; null removes it */
+    annotation_id?: string | null
+}
+
+/** A matrix column: a paper-level field or a field inside an arm group */
+export interface ExtractionColumn {
+    field_id: string
+    form_id: string
+    form_name: string
+    /** "Group › Field" for fields inside an arm group */
+    name: string
+    field_type: Exclude<ExtractionFieldType, 'group'>
+    unit: string | null
+    per_arm: boolean
+}
+
+export interface ExtractionCellValue {
+    arm_id: string | null
+    arm_label: string | null
+    value: number | string
+    annotation_id: string | null
+    page_number: number | null
+}
+
+export interface ExtractionCell {
+    paper_id: string
+    field_id: string
+    /** One entry per arm for per-arm fields, otherwise one */
+    values: ExtractionCellValue[]
+}
+
+export interface ExtractionMatrix {
+    columns: ExtractionColumn[]
+    cells: ExtractionCell[]
+}
+
+// ── Meta-Analysis ────────────────────────────────────────────────────────────
+
+export type MetaOutcomeType = 'binary' | 'continuous'
+export type MetaEffectMeasure = 'RR' | 'OR' | 'MD' | 'SMD'
+/** Mantel–Haenszel and inverse-variance fixed effect; DerSimonian–Laird and REML random effects */
+export type MetaMethod = 'MH' | 'IV' | 'DL' | 'REML'
+
+export interface MetaAnalysis {
+    id: string
+    name: string
+    outcome_type: MetaOutcomeType
+    effect_measure: MetaEffectMeasure
+    method: MetaMethod
+    experimental_label: string
+    control_label: string
+    created_at: string
+    updated_at: string
+    study_count: number
+}
+
+export interface MetaAnalysisInput {
+    name: string
+    outcome_type: MetaOutcomeType
+    effect_measure: MetaEffectMeasure
+    method: MetaMethod
+    experimental_label?: string
+    control_label?: string
+}
+
+export type MetaStudyValue = 'events_e' | 'n_e' | 'mean_e' | 'sd_e' | 'events_c' | 'n_c' | 'mean_c' | 'sd_c'
+
+/** One row of the outcome data grid; `_e` is the experimental arm, `_c` the control */
+export interface MetaStudy extends Record<MetaStudyValue, number | null> {
+    id: string
+    analysis_id: string
+    paper_id: string | null
+    paper_title: string | null
+    label: string
+    /** Excluded studies stay in the grid but are left out of the pooling */
+    included: boolean
+    sort_order: number
+}
+
+export type MetaStudyInput = { label: string; paper_id?: string | null; included?: boolean } & Partial<Record<MetaStudyValue, number | null>>
+
+export interface MetaCsvImportResult {
+    imported: number
+    linked: number
+    skipped: number
+    errors: string[]
+}
+
+export interface MetaStudyEffect {
+    id: string
+    label: string
+    /** Effect and variance on the analysis scale (log for RR and OR) */
+    yi: number | null
+    vi: number | null
+    /** Effect and 95% CI on the display scale */
+    effect: number | null
+    ci_lower: number | null
+    ci_upper: number | null
+    /** Percentage weight in the pooled estimate, null when not pooled */
+    weight: number | null
+    /** Why the study has no effect or weight, e.g. "Not estimable" */
+    note: string | null
+    included: boolean
+}
+
+export interface MetaResult {
+    measure: MetaEffectMeasure
+    method: MetaMethod
+    studies: MetaStudyEffect[]
+    k: number
+    pooled: {
+        estimate: number
+        se: number
+        effect: number
+        ci_lower: number
+        ci_upper: number
+        z: number
+        p: number
+        /** 95% prediction interval, random-effects models with three or more studies */
+        pi_lower: number | null
+        pi_upper: number | null
+    } | null
+    heterogeneity: {
+        q: number
+        df: number
+        p: number
+        i2: number
+        /** Null for fixed-effect models */
+        tau2: number | null
+    } | null
+    egger: { intercept: number; se: number; t: number; df: number; p: number } | null
+}
+
+export type MetaPlotKind = 'forest' | 'funnel'
+
+export type MetaPlot = PrismaDiagram
+
+// ── GRADE ────────────────────────────────────────────────────────────────────
+
+export type GradeStudyDesign = 'randomized' | 'observational'
+export type GradeImportance = 'critical' | 'important' | 'limited'
+export type GradeCertainty = 'high' | 'moderate' | 'low' | 'very_low'
+
+export interface GradeDomain {
+    id: string
+    name: string
+    /** Downgrading domains rate down, upgrading factors rate up */
+    direction: 'down' | 'up'
+    guidance: string
+    options: Array<{ value: number; label: string }>
+}
+
+export interface GradeCertaintyLevel {
+    value: GradeCertainty
+    label: string
+    /** ⊕⊕⊕⊕ to ⊕◯◯◯ */
+    symbol: string
+    color: string
+    meaning: string
+}
+
+export interface GradeDefinitions {
+    domains: GradeDomain[]
+    certainty: GradeCertaintyLevel[]
+}
+
+/** An annotation cited for a domain's rationale */
+export interface GradeEvidence {
+    domain_id: string
+    annotation_id: string
+    paper_id: string
+    paper_title: string
+    content: string
+    page_number: number
+    node_name: string
+    node_color: string
+}
+
+export interface GradeDomainResult {
+    domain_id: string
+    /** Levels rated down (negative) or up (positive) */
+    rating: number
+    rationale: string
+    evidence: GradeEvidence[]
+}
+
+export interface GradeAssessment {
+    id: string
+    name: string
+    meta_analysis_id: string | null
+    meta_analysis_name: string | null
+    study_design: GradeStudyDesign
+    importance: GradeImportance
+    /** As entered; empty or null to use the linked meta-analysis */
+    studies: number | null
+    participants: number | null
+    relative_effect: string
+    comparator_risk: string
+    intervention_risk: string
+    /** What the Summary of Findings shows: the entered values, else the meta-analysis */
+    effect: {
+        studies: number | null
+        participants: number | null
+        relative_effect: string
+        comparator_risk: string
+        intervention_risk: string
+    }
+    certainty_override: GradeCertainty | null
+    comments: string
+    sort_order: number
+    created_at: string
+    updated_at: string
+    domains: GradeDomainResult[]
+    derived_certainty: GradeCertainty
+    certainty: GradeCertainty
+}
+
+export type GradeOutcomeUpdate = Partial<Pick<GradeAssessment,
+    'name' | 'meta_analysis_id' | 'study_design' | 'importance' | 'studies' | 'participants' | 'relative_effect'
+    | 'comparator_risk' | 'intervention_risk' | 'certainty_override' | 'comments'>>
+
+/** The question a Summary of Findings table answers */
+export interface SofHeader {
+    population: string
+    setting: string
+    intervention: string
+    comparison: string
+}
+
+export interface SofRow {
+    outcome_id: string
+    outcome: string
+    importance: string
+    comparator_risk: string
+    intervention_risk: string
+    relative_effect: string
+    participants: string
+    certainty: GradeCertainty
+    /** Markers of the footnotes explaining the certainty */
+    footnotes: string[]
+    comments: string
+}
+
+export interface SofTable {
+    title: string
+    header: SofHeader
+    rows: SofRow[]
+    footnotes: Array<{ marker: string; text: string }>
+}
+
+export type SofExportFormat = 'docx' | 'html'
+
 // ── Application State ────────────────────────────────────────────────────────
 
 /** A single cell in the synthesis matrix */
@@ -99,10 +750,101 @@ export interface MatrixCell {
     node_id: string
     node_name: string
     node_color: string
+    /** Includes annotations coded to the node's sub-nodes */
     annotation_count: number
+    first_annotation_id: string
+    first_page: number
     first_content: string
 }
 
+/** Synthesis matrix cells plus the extracted values shown as extra columns */
+export interface MatrixData {
+    cells: MatrixCell[]
+    extraction: ExtractionMatrix
+}
+
+/** A single annotation as it appears inside a matrix cell */
+export interface MatrixAnnotation {
+    annotation_id: string
+    paper_id: string
+    paper_title: string
+    paper_year: number | null
+    node_id: string
+    node_name: string
+    node_color: string
+    tag_id: string | null
+    tag_name: string | null
+    content: string
+    page_number: number
+}
+
+/** Citation file formats accepted by the reference importer */
+export type ReferenceFormat = 'ris' | 'nbib' | 'bibtex' | 'csl-json'
+
+/** Citation file formats the reference exporter writes */
+export type ReferenceExportFormat = Exclude<ReferenceFormat, 'nbib'>
+
+/** Which papers a reference export covers */
+export type ReferenceExportScope =
+    | { kind: 'selection'; paperIds: string[] }
+    | { kind: 'folder'; folderId: string }
+    | { kind: 'library' }
+
+export type ImportRecordStatus = 'new' | 'duplicate' | 'malformed'
+
+/** One record of a reference file, classified before import */
+export interface ImportPreviewRecord {
+    index: number
+    status: ImportRecordStatus
+    title: string
+    authors: string[]
+    year: number | null
+    journal: string | null
+    doi: string | null
+    /** Parse error for malformed records, match description for duplicates */
+    reason?: string
+    /** Library paper this record duplicates (null for duplicates within the file) */
+    duplicate_of?: string | null
+}
+
+export interface ImportPreview {
+    file_path: string
+    file_name: string
+    format: ReferenceFormat
+    records: ImportPreviewRecord[]
+    counts: Record<ImportRecordStatus, number>
+}
+
+export interface ImportOptions {
+    /** Record indexes to import; defaults to every "new" record */
+    indexes?: number[]
+    folderId?: string | null
+    /** Create a folder with this name instead of using folderId */
+    newFolderName?: string | null
+    /** Search source the file came from; omit to skip PRISMA tracking */
+    sourceName?: string | null
+    sourceKind?: SearchSourceKind
+}
+
+export interface ImportResult {
+    imported: number
+    skipped: number
+    folder_id: string | null
+    errors: string[]
+}
+
+/** File formats supported by the matrix exporter */
+export type MatrixExportFormat = 'csv' | 'xlsx' | 'markdown' | 'html'
+
+export interface MatrixExportOptions {
+    includeTags?: boolean
+    includeYear?: boolean
+    includeAuthors?: boolean
+    includeDoi?: boolean
+    includeExtraction?: boolean
+    codedOnly?: boolean
+}
+
 /** FTS search result */
 export interface SearchResult {
     id: string
@@ -111,15 +853,100 @@ export interface SearchResult {
     rank: number
 }
 
+/** Column restriction for library search */
+export type SearchScope = 'all' | 'title' | 'abstract' | 'full_text'
+
+export interface SearchFilters {
+    yearFrom?: number | null
+    yearTo?: number | null
+    journal?: string | null
+    folderId?: string | null
+    hasPdf?: boolean | null
+}
+
+/** A paper hit from `search:library`; snippet matches are wrapped in \u0002 … \u0003 */
+export interface PaperSearchHit {
+    id: string
+    title: string
+    year: number | null
+    journal: string | null
+    pdf_filename: string | null
+    authors: string[]
+    snippet: string
+    matched_in: Array<'title' | 'abstract' | 'full_text'>
+    page: number | null
+    rank: number
+}
+
+export interface PaperSearchResponse {
+    results: PaperSearchHit[]
+    query: string
+    error: string | null
+}
+
+export type SearchEntityKind = 'paper' | 'annotation' | 'tag' | 'memo'
+
+/** A hit from `search:everything`; context fields are null where they don't apply */
+export interface UnifiedSearchHit {
+    kind: SearchEntityKind
+    id: string
+    title: string
+    snippet: string
+    rank: number
+    paper_id: string | null
+    paper_title: string | null
+    page: number | null
+    node_id: string | null
+    node_name: string | null
+    node_color: string | null
+    tag_name: string | null
+    annotation_count: number | null
+}
+
+export interface UnifiedSearchResponse {
+    results: UnifiedSearchHit[]
+    query: string
+    error: string | null
+}
+
 /** Navigation view identifiers */
-export type ViewId = 'library' | 'matrix' | 'search' | 'memos' | 'paper' | 'settings'
+export type ViewId = 'library' | 'screening' | 'bias' | 'meta' | 'grade' | 'matrix' | 'search' | 'memos' | 'paper' | 'settings'
+
+/** A Zotero library the API key can read */
+export interface ZoteroLibrary {
+    /** API path prefix: 'users/<id>' or 'groups/<id>' */
+    id: string
+    type: 'user' | 'group'
+    name: string
+}
 
 /** Zotero connection status (NOTE: API key is intentionally excluded — never sent to renderer) */
 export interface ZoteroStatus {
     connected: boolean
     userId: string | null
     lastSync: string | null
+    /** Cursor of the user's own library */
     libraryVersion: number | null
+    /** Libraries selected for sync, each with its own cursor */
+    libraries: Array<ZoteroLibrary & { version: number | null }>
+    /** Papers deleted or trashed in Zotero that await review */
+    pendingRemovals: number
+    /** Papers with fields changed both locally and in Zotero */
+    conflicts: number
+    /** What is pushed back to Zotero */
+    writeBack: WriteBackOptions
+    /** Rules mapping Zotero highlights to nodes; none means nothing is imported */
+    annotationRules: number
+}
+
+/** What sync pushes back to Zotero */
+export interface WriteBackOptions {
+    /** Local metadata edits */
+    metadata: boolean
+    /** Node and tag assignments as Zotero tags */
+    codes: boolean
+    /** An annotation summary as a child note */
+    notes: boolean
 }
 
 /** Zotero connection result */
@@ -131,9 +958,11 @@ export interface ConnectResult {
 
 /** Sync progress emitted during a sync operation */
 export interface SyncProgress {
-    phase: 'metadata' | 'downloading' | 'extracting' | 'complete' | 'error'
+    phase: 'metadata' | 'downloading' | 'annotations' | 'pushing' | 'extracting' | 'complete' | 'error'
     current: number
     total: number
+    /** Name of the library being synced */
+    library?: string
     paperTitle?: string
     error?: string
 }
@@ -145,4 +974,57 @@ export interface SyncResult {
     pdfsDownloaded: number
     errors: string[]
     libraryVersion: number
+    /** Papers whose Zotero item was updated with local changes */
+    pushed: number
+    /** Highlights created from Zotero PDF annotations */
+    annotationsImported: number
+    /** Papers deleted or trashed in Zotero that await review */
+    pendingRemovals: number
+    /** Papers with fields changed both locally and in Zotero */
+    conflicts: number
+}
+
+/** What to do with a paper whose Zotero item is gone */
+export type ZoteroRemovalAction = 'delete' | 'archive' | 'detach'
+
+/** A paper whose Zotero item was deleted or trashed */
+export interface ZoteroRemoval {
+    paper: PaperWithAuthors
+    reason: 'deleted' | 'trashed'
+    detected_at: string
+    annotation_count: number
+}
+
+export interface ZoteroRemovalDecision {
+    paperId: string
+    action: ZoteroRemovalAction
+}
+
+/** Paper metadata fields kept in sync with Zotero */
+export type SyncedField = 'title' | 'year' | 'doi' | 'journal' | 'abstract' | 'authors'
+
+/** Which side's value to keep for a conflicting field */
+export type ZoteroConflictChoice = 'local' | 'remote'
+
+/** Files Zotero highlights of a colour or with a Zotero tag under a node */
+export interface ZoteroAnnotationRule {
+    id: string
+    match_type: 'color' | 'tag'
+    /** A colour such as '#ffd400', or a Zotero tag name */
+    match_value: string
+    node_id: string
+    /** ThreadMed tag to file the highlight under, created on first use */
+    tag_name: string | null
+}
+
+export type ZoteroAnnotationRuleInput = Omit<ZoteroAnnotationRule, 'id'>
+
+/** A field edited locally and changed in Zotero since the last sync */
+export interface ZoteroConflict {
+    paper_id: string
+    title: string
+    field: SyncedField
+    local_value: unknown
+    remote_value: unknown
+    detected_at: string
 }